@@ -1,3 +1,6 @@
+// 本地模拟上游地址（bun run mock:upstream），设置后 new-api、Keys 推送与 Key 验证均指向模拟服务
+const MOCK_UPSTREAM_URL = (process.env.MOCK_UPSTREAM_URL || '').trim().replace(/\/+$/, '');
+
 export const CONFIG = {
     // 服务器配置
     PORT: parseInt(process.env.PORT || '3000'),
@@ -16,8 +19,9 @@ export const CONFIG = {
     LINUX_DO_TOKEN_URL: 'https://connect.linuxdo.org/oauth2/token',
     LINUX_DO_USER_INFO_URL: 'https://connect.linuxdo.org/api/user',
     KYX_API_BASE: 'https://api.kkyyxx.xyz',
-    MODELSCOPE_API_BASE: 'https://api-inference.modelscope.cn/v1',
-    IFLOW_API_BASE: 'https://apis.iflow.cn/v1',
+    MODELSCOPE_API_BASE: MOCK_UPSTREAM_URL ? `${MOCK_UPSTREAM_URL}/modelscope/v1` : 'https://api-inference.modelscope.cn/v1',
+    IFLOW_API_BASE: MOCK_UPSTREAM_URL ? `${MOCK_UPSTREAM_URL}/iflow/v1` : 'https://apis.iflow.cn/v1',
+    MOCK_UPSTREAM_URL,
 
     // 默认配置
     DEFAULT_CLAIM_QUOTA: 20000000,
@@ -27,6 +31,18 @@ export const CONFIG = {
 
     // 数据库路径
     DATABASE_PATH: process.env.DATABASE_PATH || './data/kyxquota.db',
+
+    // 坤呗报价签名密钥，未设置时每次启动随机生成（重启后已发出的报价失效）
+    KUNBEI_QUOTE_SECRET: process.env.KUNBEI_QUOTE_SECRET || '',
+
+    // 幂等键保存时长（秒），窗口内重复请求直接回放首次响应
+    IDEMPOTENCY_WINDOW_SECONDS: parseInt(process.env.IDEMPOTENCY_WINDOW_SECONDS || '86400'),
+
+    // 数据库备份（快照目录默认位于数据库同级的 backups 目录）
+    BACKUP_DIR: process.env.BACKUP_DIR || '',
+    BACKUP_CRON: process.env.BACKUP_CRON ?? '0 */6 * * *',  // 定时备份 cron（北京时间），留空表示关闭
+    BACKUP_RETENTION_COUNT: parseInt(process.env.BACKUP_RETENTION_COUNT || '28'),  // 最多保留的快照数量
+    BACKUP_RETENTION_DAYS: parseInt(process.env.BACKUP_RETENTION_DAYS || '7'),  // 超过天数的快照会被清理
 };
 
 // 验证必要的环境变量
@@ -1,30 +1,31 @@
 import { Database } from 'bun:sqlite';
 import { CONFIG } from './config';
-import type {
-    User,
-    ClaimRecord,
-    DonateRecord,
-    AdminConfig,
-    SessionData,
-    SlotMachineConfig,
-    SlotMachineRecord,
-    UserFreeSpin,
-    UserTickets,
-    AdvancedSlotConfig,
-    TicketDropRecord,
-    AdvancedSlotRTPStats,
-    UserAdvancedEntry,
-    UserDailyTicketGrant,
-    KunbeiConfig,
-    UserLoan,
-    UserKunbeiStats,
-    KunbeiGradientConfig,
-    Achievement,
-    UserAchievement,
-    AchievementProgress,
-    UserAchievementStats,
-} from './types';
-// 数据库迁移已整合到本文件中
+import { runMigrations } from './migrations/runner';
+import { createUserQueries, type UserQueries } from './repositories/users';
+import { createSlotQueries, createAdvancedSlotQueries, type SlotQueries, type AdvancedSlotQueries } from './repositories/slots';
+import { createKunbeiQueries, type KunbeiQueries } from './repositories/kunbei';
+import { createSupremeSlotQueries, type SupremeSlotQueries } from './repositories/supreme';
+import { createDropConfigQueries, type DropConfigQueries } from './repositories/drops';
+import { createAchievementQueries, type AchievementQueries } from './repositories/achievements';
+import { createSchedulerQueries, type SchedulerQueries } from './repositories/scheduler';
+import { createQuotaMutationQueries, type QuotaMutationQueries } from './repositories/quota';
+import { createUpstreamQueries, type UpstreamQueries } from './repositories/upstreams';
+import { createRtpControllerQueries, type RtpControllerQueries } from './repositories/rtp-controller';
+import { createConfigVersionQueries, type ConfigVersionQueries } from './repositories/config-versions';
+import { createTimedEventQueries, type TimedEventQueries } from './repositories/events';
+import { createWalletGiftQueries, type WalletGiftQueries } from './repositories/wallet-gifts';
+import { createClaimQueries, type ClaimQueries } from './repositories/claims';
+import { createDonateQueries, createKeyQueries, type DonateQueries, type KeyQueries } from './repositories/donations';
+import { createSessionQueries, type SessionQueries } from './repositories/sessions';
+import { createAdminQueries, type AdminQueries } from './repositories/admin-config';
+import { createPendingRewardQueries, type PendingRewardQueries } from './repositories/pending-rewards';
+import { createWeightConfigQueries, createRewardConfigQueries, type WeightConfigQueries, type RewardConfigQueries } from './repositories/schemes';
+import { createRateLimitBanQueries, type RateLimitBanQueries } from './repositories/rate-limit-bans';
+import { createIdempotencyQueries, type IdempotencyQueries } from './repositories/idempotency';
+import { createFairSeedQueries, type FairSeedQueries } from './repositories/fair-seeds';
+import { createWalletTransferQueries, type WalletTransferQueries } from './repositories/wallet-transfers';
+import { createLedgerQueries, type LedgerQueries } from './repositories/ledger';
+// 字段变更与数据修复通过版本化迁移执行，见 ./migrations
 
 // 创建数据库连接
 export const db = new Database(CONFIG.DATABASE_PATH, { create: true });
@@ -62,38 +63,6 @@ export function initDatabase() {
     db.exec('CREATE INDEX IF NOT EXISTS idx_users_created_at ON users(created_at)');
     db.exec('CREATE INDEX IF NOT EXISTS idx_users_is_banned ON users(is_banned)');
 
-    // 添加封禁相关字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE users ADD COLUMN is_banned INTEGER DEFAULT 0');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE users ADD COLUMN banned_at INTEGER');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE users ADD COLUMN banned_reason TEXT');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加LinuxDo用户名字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE users ADD COLUMN linux_do_username TEXT');
-        console.log('✅ 已添加 linux_do_username 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加连击计数器字段（用于连续中奖成就）
-    try {
-        db.exec('ALTER TABLE users ADD COLUMN win_streak INTEGER DEFAULT 0');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 领取记录表
     db.exec(`
     CREATE TABLE IF NOT EXISTS claim_records (
@@ -135,13 +104,6 @@ export function initDatabase() {
         'CREATE INDEX IF NOT EXISTS idx_donate_timestamp ON donate_records(timestamp)'
     );
 
-    // 添加 key_type 字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE donate_records ADD COLUMN key_type TEXT DEFAULT \'modelscope\'');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 已使用的 Key 表
     db.exec(`
     CREATE TABLE IF NOT EXISTS used_keys (
@@ -156,13 +118,6 @@ export function initDatabase() {
   `);
     db.exec('CREATE INDEX IF NOT EXISTS idx_used_keys_key ON used_keys(key)');
 
-    // 添加 key_type 字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE used_keys ADD COLUMN key_type TEXT DEFAULT \'modelscope\'');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // Session 表
     db.exec(`
     CREATE TABLE IF NOT EXISTS sessions (
@@ -226,87 +181,6 @@ export function initDatabase() {
     VALUES (1, ${Date.now()}, ${CONFIG.DEFAULT_CLAIM_QUOTA}, 1)
   `);
 
-    // 兼容旧数据：如果表已存在但缺少 max_daily_claims 字段，则添加
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN max_daily_claims INTEGER DEFAULT 1');
-        console.log('✅ 已添加 max_daily_claims 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 兼容旧数据：如果表已存在但缺少 new_api_base 字段，则添加
-    try {
-        db.exec("ALTER TABLE admin_config ADD COLUMN new_api_base TEXT DEFAULT 'https://api.kkyyxx.xyz'");
-        console.log('✅ 已添加 new_api_base 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 迁移旧字段：如果存在 kyx_api_base 但 new_api_base 为空，则迁移数据
-    try {
-        const hasOldField = db.query("SELECT COUNT(*) as count FROM pragma_table_info('admin_config') WHERE name='kyx_api_base'").get();
-        if ((hasOldField as any).count > 0) {
-            // 复制旧数据（如果旧数据不为空）
-            db.exec("UPDATE admin_config SET new_api_base = kyx_api_base WHERE kyx_api_base IS NOT NULL AND kyx_api_base != '' AND (new_api_base IS NULL OR new_api_base = '')");
-            console.log('✅ 已将 kyx_api_base 数据迁移到 new_api_base');
-        }
-    } catch (e) {
-        // 忽略错误
-    }
-
-    // 兼容旧数据：重命名 group_id 为 modelscope_group_id
-    try {
-        // SQLite 不支持 RENAME COLUMN，需要通过查询判断
-        const hasOldColumn = db.query("SELECT COUNT(*) as count FROM pragma_table_info('admin_config') WHERE name='group_id'").get();
-        const hasNewColumn = db.query("SELECT COUNT(*) as count FROM pragma_table_info('admin_config') WHERE name='modelscope_group_id'").get();
-
-        if ((hasOldColumn as any).count > 0 && (hasNewColumn as any).count === 0) {
-            // 先添加新字段
-            db.exec('ALTER TABLE admin_config ADD COLUMN modelscope_group_id INTEGER DEFAULT 26');
-            // 复制旧数据
-            db.exec('UPDATE admin_config SET modelscope_group_id = group_id');
-            console.log('✅ 已将 group_id 迁移为 modelscope_group_id');
-        }
-    } catch (e) {
-        // 忽略错误
-    }
-
-    // 兼容旧数据：如果表已存在但缺少 iflow_group_id 字段，则添加
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN iflow_group_id INTEGER DEFAULT 26');
-        console.log('✅ 已添加 iflow_group_id 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 兼容旧数据：添加投喂限制字段
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN max_daily_donate_modelscope INTEGER DEFAULT 1');
-        console.log('✅ 已添加 max_daily_donate_modelscope 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 兼容旧数据：添加钱包相关配置字段
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN wallet_exchange_rate INTEGER DEFAULT 500000');
-        console.log('✅ 已添加 wallet_exchange_rate 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN wallet_daily_transfer_limit_count INTEGER DEFAULT 2');
-        console.log('✅ 已添加 wallet_daily_transfer_limit_count 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN wallet_initial_egg INTEGER DEFAULT 250');
-        console.log('✅ 已添加 wallet_initial_egg 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 用户钱包表（余额以 quota 存储，展示时换算为🥚）
     db.exec(`
     CREATE TABLE IF NOT EXISTS user_wallets (
@@ -318,28 +192,6 @@ export function initDatabase() {
   `);
     db.exec('CREATE INDEX IF NOT EXISTS idx_wallets_updated_at ON user_wallets(updated_at)');
 
-    // 迁移：检查并添加 user_wallets 表的缺失列
-    try {
-        db.exec('ALTER TABLE user_wallets ADD COLUMN balance_quota INTEGER DEFAULT 0');
-        console.log('✅ 已添加 balance_quota 字段到 user_wallets');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    try {
-        db.exec('ALTER TABLE user_wallets ADD COLUMN created_at INTEGER DEFAULT 0');
-        console.log('✅ 已添加 created_at 字段到 user_wallets');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    try {
-        db.exec('ALTER TABLE user_wallets ADD COLUMN updated_at INTEGER DEFAULT 0');
-        console.log('✅ 已添加 updated_at 字段到 user_wallets');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 钱包划转记录（用于限次与审计）
     db.exec(`
     CREATE TABLE IF NOT EXISTS wallet_transfer_records (
@@ -353,12 +205,199 @@ export function initDatabase() {
   `);
     db.exec('CREATE INDEX IF NOT EXISTS idx_wallet_tx_user_date ON wallet_transfer_records(linux_do_id, date)');
 
-    try {
-        db.exec('ALTER TABLE admin_config ADD COLUMN max_daily_donate_iflow INTEGER DEFAULT 1');
-        console.log('✅ 已添加 max_daily_donate_iflow 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
+    // 钱包划转状态机（两阶段：先上游后本地，崩溃后由对账器续做或冲正）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS wallet_transfers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      linux_do_id TEXT NOT NULL,
+      kyx_user_id INTEGER NOT NULL,
+      direction TEXT NOT NULL,               -- in: 上游->本地, out: 本地->上游
+      amount_quota INTEGER NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending', -- pending / upstream_applied / local_applied / done / compensated / failed / needs_review
+      upstream_before INTEGER,               -- 上游变更前额度
+      upstream_target INTEGER,               -- 上游目标额度
+      wallet_after INTEGER,                  -- 本地入账后余额
+      record_id INTEGER,                     -- wallet_transfer_records.id
+      retry_count INTEGER DEFAULT 0,
+      error_message TEXT,
+      date TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      completed_at INTEGER
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_wallet_transfers_status ON wallet_transfers(status, updated_at)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_wallet_transfers_user ON wallet_transfers(linux_do_id, created_at)');
+
+    // 钱包赠送记录（用户之间转🥚，手续费归系统；flagged 为反滥用检测标记）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS wallet_gifts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      sender_id TEXT NOT NULL,
+      sender_name TEXT NOT NULL,
+      receiver_id TEXT NOT NULL,
+      receiver_name TEXT NOT NULL,
+      amount_quota INTEGER NOT NULL,         -- 赠出金额（从赠送方钱包扣除）
+      fee_quota INTEGER NOT NULL DEFAULT 0,  -- 手续费
+      received_quota INTEGER NOT NULL,       -- 实际到账 = 赠出金额 - 手续费
+      memo TEXT,
+      flagged INTEGER DEFAULT 0,
+      flag_reason TEXT,
+      date TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_wallet_gifts_sender ON wallet_gifts(sender_id, date)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_wallet_gifts_receiver ON wallet_gifts(receiver_id, created_at)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_wallet_gifts_flagged ON wallet_gifts(flagged, created_at)');
+
+    // 幂等键表（Idempotency-Key，按用户+键保存首次响应）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      linux_do_id TEXT NOT NULL,
+      idem_key TEXT NOT NULL,
+      operation TEXT NOT NULL,          -- 操作名称，如 slot_spin
+      request_hash TEXT NOT NULL,       -- 请求指纹（方法+路径+请求体）
+      status TEXT NOT NULL DEFAULT 'processing', -- processing / completed
+      response_status INTEGER,
+      response_body TEXT,
+      response_content_type TEXT,
+      created_at INTEGER NOT NULL,
+      completed_at INTEGER,
+      expires_at INTEGER NOT NULL,
+      PRIMARY KEY (linux_do_id, idem_key)
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_idempotency_expires ON idempotency_keys(expires_at)');
+
+    // 可验证公平种子表（服务端种子先公布哈希，轮换后公开原文）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS fair_seeds (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      linux_do_id TEXT NOT NULL,
+      server_seed TEXT NOT NULL,           -- 服务端种子（active 期间不对用户公开）
+      server_seed_hash TEXT NOT NULL,      -- SHA-256(server_seed)，预先公布
+      client_seed TEXT NOT NULL,           -- 客户端种子（用户可自定义）
+      nonce INTEGER NOT NULL DEFAULT 0,    -- 下一次抽奖使用的序号
+      status TEXT NOT NULL DEFAULT 'active', -- active / revealed
+      created_at INTEGER NOT NULL,
+      revealed_at INTEGER
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_fair_seeds_user ON fair_seeds(linux_do_id, status)');
+    db.exec(`CREATE UNIQUE INDEX IF NOT EXISTS idx_fair_seeds_active ON fair_seeds(linux_do_id) WHERE status = 'active'`);
+
+    // 定时任务状态表（持久化上次/下次执行时间，进程重启后补跑错过的任务）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      name TEXT PRIMARY KEY,
+      cron TEXT NOT NULL,
+      last_run_at INTEGER,
+      last_status TEXT,                    -- success / failed
+      last_error TEXT,
+      last_duration_ms INTEGER,
+      next_run_at INTEGER,
+      locked_by TEXT,                      -- 执行锁持有者（进程标识:运行序号）
+      locked_at INTEGER,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+    // 定时任务执行历史
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS scheduled_job_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      job_name TEXT NOT NULL,
+      trigger TEXT NOT NULL,               -- schedule / catchup / manual
+      status TEXT NOT NULL,                -- running / success / failed
+      started_at INTEGER NOT NULL,
+      finished_at INTEGER,
+      duration_ms INTEGER,
+      error TEXT,
+      result TEXT                          -- 任务返回的摘要（JSON）
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_job ON scheduled_job_runs(job_name, id)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_scheduled_job_runs_status ON scheduled_job_runs(status, started_at)');
+
+    // 上游额度变动队列（按 kyx_user_id 串行合并写入，未完成的变动重启后继续处理）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS quota_mutations (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      kyx_user_id INTEGER NOT NULL,
+      linux_do_id TEXT,
+      delta INTEGER NOT NULL,              -- 请求的变动额度（正数增加，负数扣除）
+      applied_delta INTEGER,               -- 实际生效的变动（clamp 模式下可能小于请求值）
+      mode TEXT NOT NULL DEFAULT 'strict', -- strict：余额不足拒绝 / clamp：最多扣到 0
+      source TEXT NOT NULL,                -- 来源，如 slot_buy_spins / kunbei_repay
+      status TEXT NOT NULL DEFAULT 'pending', -- pending / applying / applied / rejected / failed / cancelled
+      attempts INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      quota_before INTEGER,                -- 所在批次写入前的上游额度
+      quota_after INTEGER,                 -- 所在批次写入后的上游额度
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      applied_at INTEGER
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_quota_mutations_user_status ON quota_mutations(kyx_user_id, status, id)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_quota_mutations_status ON quota_mutations(status, updated_at)');
+
+    // 上游站点注册表（id = 1 为主站，地址与凭据沿用 admin_config）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS upstreams (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      base_url TEXT NOT NULL DEFAULT '',
+      session TEXT NOT NULL DEFAULT '',
+      new_api_user TEXT NOT NULL DEFAULT '1',
+      quota_per_unit INTEGER NOT NULL DEFAULT 500000, -- 上游多少 quota 折合 $1
+      modelscope_group_id INTEGER,                    -- 投喂 Keys 推送分组，为空时沿用系统配置
+      iflow_group_id INTEGER,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+    db.exec(`
+    INSERT OR IGNORE INTO upstreams (id, name, created_at, updated_at)
+    VALUES (1, '主站', ${Date.now()}, ${Date.now()})
+  `);
+
+    // 用户与上游的绑定（一个用户可绑定多个上游，其中一个为收款上游）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS user_upstreams (
+      linux_do_id TEXT NOT NULL,
+      upstream_id INTEGER NOT NULL,
+      kyx_user_id INTEGER NOT NULL,
+      username TEXT NOT NULL,
+      is_payout INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (linux_do_id, upstream_id),
+      UNIQUE (upstream_id, kyx_user_id)
+    )
+  `);
+
+    // 复式记账分录表（每笔交易至少两条分录，借贷总额相等）
+    db.exec(`
+    CREATE TABLE IF NOT EXISTS ledger_entries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      txn_id TEXT NOT NULL,            -- 交易ID，同一交易的分录共享
+      account TEXT NOT NULL,           -- 账户，如 wallet:<linux_do_id> / upstream:<linux_do_id> / house:slot
+      linux_do_id TEXT,                -- 关联用户（系统账户为空）
+      debit INTEGER NOT NULL DEFAULT 0,  -- 借方金额（quota）
+      credit INTEGER NOT NULL DEFAULT 0, -- 贷方金额（quota）
+      reason TEXT NOT NULL,            -- 原因代码，如 slot_bet / slot_win / wallet_transfer_in
+      ref_id TEXT,                     -- 关联业务ID（游戏记录、借款ID等）
+      memo TEXT,
+      created_at INTEGER NOT NULL
+    )
+  `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_ledger_txn ON ledger_entries(txn_id)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_ledger_account ON ledger_entries(account)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_ledger_user_time ON ledger_entries(linux_do_id, created_at)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_ledger_reason ON ledger_entries(reason)');
 
     // 老虎机配置表
     db.exec(`
@@ -376,48 +415,6 @@ export function initDatabase() {
     )
   `);
 
-    // 兼容旧数据：添加 background_type 字段（必须在 INSERT 之前）
-    try {
-        db.exec('ALTER TABLE slot_machine_config ADD COLUMN background_type TEXT DEFAULT \'default\'');
-        console.log('✅ 已添加 background_type 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 兼容旧数据：添加购买次数相关字段
-    try {
-        db.exec('ALTER TABLE slot_machine_config ADD COLUMN buy_spins_enabled INTEGER DEFAULT 0');
-        console.log('✅ 已添加 buy_spins_enabled 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE slot_machine_config ADD COLUMN buy_spins_price INTEGER DEFAULT 20000000');
-        console.log('✅ 已添加 buy_spins_price 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE slot_machine_config ADD COLUMN max_daily_buy_spins INTEGER DEFAULT 5');
-        console.log('✅ 已添加 max_daily_buy_spins 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加配置方案引用字段
-    try {
-        db.exec('ALTER TABLE slot_machine_config ADD COLUMN weight_config_id INTEGER DEFAULT 1');
-        console.log('✅ 已添加 weight_config_id 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE slot_machine_config ADD COLUMN reward_scheme_id INTEGER DEFAULT 1');
-        console.log('✅ 已添加 reward_scheme_id 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 插入默认老虎机配置
     db.exec(`
     INSERT OR IGNORE INTO slot_machine_config (id, bet_amount, max_daily_spins, min_quota_required, enabled, background_type, buy_spins_enabled, buy_spins_price, max_daily_buy_spins, updated_at)
@@ -442,20 +439,6 @@ export function initDatabase() {
     )
   `);
 
-    // 🔥 数据库迁移：添加新符号列（如果不存在）
-    try {
-        db.exec('ALTER TABLE slot_symbol_weights ADD COLUMN weight_lsh INTEGER DEFAULT 25');
-        console.log('✅ 已添加 slot_symbol_weights.weight_lsh 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE slot_symbol_weights ADD COLUMN weight_man INTEGER DEFAULT 25');
-        console.log('✅ 已添加 slot_symbol_weights.weight_man 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 插入默认符号权重配置
     db.exec(`
     INSERT OR IGNORE INTO slot_symbol_weights (id, weight_m, weight_t, weight_n, weight_j, weight_lq, weight_bj, weight_zft, weight_bdk, weight_lsh, weight_man, updated_at)
@@ -513,25 +496,6 @@ export function initDatabase() {
     db.exec(
         'CREATE INDEX IF NOT EXISTS idx_slot_username ON slot_machine_records(username)'
     );
-    db.exec(
-        'CREATE INDEX IF NOT EXISTS idx_slot_mode ON slot_machine_records(slot_mode)'
-    );
-
-    // 添加 linux_do_username 字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE slot_machine_records ADD COLUMN linux_do_username TEXT');
-        console.log('✅ 已添加 linux_do_username 字段到 slot_machine_records');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加 rule_name 字段（兼容旧数据库）- 用于显示具体的规则名称
-    try {
-        db.exec('ALTER TABLE slot_machine_records ADD COLUMN rule_name TEXT');
-        console.log('✅ 已添加 rule_name 字段到 slot_machine_records');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
 
     // 用户免费次数表
     db.exec(`
@@ -543,38 +507,6 @@ export function initDatabase() {
     )
   `);
 
-    // 添加 banned_until 字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE user_free_spins ADD COLUMN banned_until INTEGER DEFAULT 0');
-        console.log('✅ 已添加 banned_until 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加 ban_slot_mode 字段（记录封禁发生的场次类型）
-    try {
-        db.exec('ALTER TABLE user_free_spins ADD COLUMN ban_slot_mode TEXT DEFAULT NULL');
-        console.log('✅ 已添加 ban_slot_mode 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加 ban_hours 字段（记录实际封禁的小时数）
-    try {
-        db.exec('ALTER TABLE user_free_spins ADD COLUMN ban_hours INTEGER DEFAULT 0');
-        console.log('✅ 已添加 ban_hours 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加 banned_at 字段（记录封禁开始时间的时间戳）
-    try {
-        db.exec('ALTER TABLE user_free_spins ADD COLUMN banned_at INTEGER DEFAULT 0');
-        console.log('✅ 已添加 banned_at 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 用户老虎机统计表（用于排行榜）
     db.exec(`
     CREATE TABLE IF NOT EXISTS user_slot_stats (
@@ -590,12 +522,6 @@ export function initDatabase() {
     )
   `);
 
-    // 添加 avatar_url 字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE user_slot_stats ADD COLUMN avatar_url TEXT');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
     db.exec('CREATE INDEX IF NOT EXISTS idx_user_slot_stats_total_win ON user_slot_stats(total_win DESC)');
 
     // 日榜统计表
@@ -721,34 +647,6 @@ export function initDatabase() {
     )
   `);
 
-    // 添加高级场配置方案引用字段
-    try {
-        db.exec('ALTER TABLE advanced_slot_config ADD COLUMN weight_config_id INTEGER DEFAULT 1');
-        console.log('✅ 已添加 advanced_slot_config.weight_config_id 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE advanced_slot_config ADD COLUMN reward_scheme_id INTEGER DEFAULT 1');
-        console.log('✅ 已添加 advanced_slot_config.reward_scheme_id 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加至尊令牌掉落配置字段
-    try {
-        db.exec('ALTER TABLE advanced_slot_config ADD COLUMN supreme_token_drop_rate REAL DEFAULT 0.001');
-        console.log('✅ 已添加 supreme_token_drop_rate 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE advanced_slot_config ADD COLUMN supreme_fragment_drop_rate REAL DEFAULT 0.02');
-        console.log('✅ 已添加 supreme_fragment_drop_rate 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 高级场符号权重配置表（独立于初级场）
     db.exec(`
     CREATE TABLE IF NOT EXISTS advanced_slot_symbol_weights (
@@ -767,20 +665,6 @@ export function initDatabase() {
     )
   `);
 
-    // 🔥 数据库迁移：添加高级场新符号列（如果不存在）
-    try {
-        db.exec('ALTER TABLE advanced_slot_symbol_weights ADD COLUMN weight_lsh INTEGER DEFAULT 50');
-        console.log('✅ 已添加 advanced_slot_symbol_weights.weight_lsh 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE advanced_slot_symbol_weights ADD COLUMN weight_man INTEGER DEFAULT 30');
-        console.log('✅ 已添加 advanced_slot_symbol_weights.weight_man 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 入场券掉落记录表
     // ========== 掉落配置表 (统一掉落系统) ==========
     db.exec(`
@@ -834,27 +718,6 @@ export function initDatabase() {
     db.exec('CREATE INDEX IF NOT EXISTS idx_advanced_rtp_linux_do_id ON advanced_slot_rtp_stats(linux_do_id)');
     db.exec('CREATE INDEX IF NOT EXISTS idx_advanced_rtp_last_updated ON advanced_slot_rtp_stats(last_updated)');
 
-    // 修改 slot_machine_records 表，添加高级场相关字段（兼容旧数据）
-    try {
-        db.exec('ALTER TABLE slot_machine_records ADD COLUMN slot_mode TEXT DEFAULT \'normal\'');
-        console.log('✅ 已添加 slot_mode 字段到 slot_machine_records');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE slot_machine_records ADD COLUMN ticket_dropped INTEGER DEFAULT 0');
-        console.log('✅ 已添加 ticket_dropped 字段到 slot_machine_records');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    try {
-        db.exec('ALTER TABLE slot_machine_records ADD COLUMN drop_type TEXT');
-        console.log('✅ 已添加 drop_type 字段到 slot_machine_records');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-    db.exec('CREATE INDEX IF NOT EXISTS idx_slot_records_mode ON slot_machine_records(slot_mode)');
-
     // 用户每日进入高级场记录表
     db.exec(`
         CREATE TABLE IF NOT EXISTS user_advanced_entries (
@@ -909,14 +772,6 @@ export function initDatabase() {
     `);
     db.exec('CREATE INDEX IF NOT EXISTS idx_weight_configs_deleted ON symbol_weight_configs(is_deleted)');
 
-    // 🔥 数据库迁移：为 symbol_weight_configs 添加 weight_man 列（如果不存在）
-    try {
-        db.exec('ALTER TABLE symbol_weight_configs ADD COLUMN weight_man INTEGER DEFAULT 25');
-        console.log('✅ 已添加 symbol_weight_configs.weight_man 字段');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // ========== 奖励配置方案表（通用）==========
 
     // 奖励配置方案表
@@ -992,22 +847,6 @@ export function initDatabase() {
         )
     `);
 
-    // 添加逾期扣款倍数字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE kunbei_config ADD COLUMN overdue_deduct_multiplier REAL DEFAULT 2.5');
-        console.log('✅ 已添加 overdue_deduct_multiplier 字段（逾期扣款倍数）');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
-    // 添加每日借款次数限制字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE kunbei_config ADD COLUMN max_daily_borrows INTEGER DEFAULT 3');
-        console.log('✅ 已添加 max_daily_borrows 字段（每日借款次数限制）');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 用户借款记录表
     db.exec(`
         CREATE TABLE IF NOT EXISTS user_loans (
@@ -1031,21 +870,43 @@ export function initDatabase() {
     db.exec('CREATE INDEX IF NOT EXISTS idx_user_loans_due_at ON user_loans(due_at)');
     db.exec('CREATE INDEX IF NOT EXISTS idx_user_loans_created_at ON user_loans(created_at)');
 
-    // 添加逾期自动扣款字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE user_loans ADD COLUMN auto_deducted_amount INTEGER DEFAULT 0');
-        console.log('✅ 已添加 auto_deducted_amount 字段（逾期自动扣款记录）');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
+    // 借款分期计划（逾期按期处理）
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS loan_installments (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            loan_id INTEGER NOT NULL,
+            seq INTEGER NOT NULL,
+            due_at INTEGER NOT NULL,
+            principal_due INTEGER NOT NULL,
+            fee_due INTEGER NOT NULL,
+            principal_paid INTEGER NOT NULL DEFAULT 0,
+            fee_paid INTEGER NOT NULL DEFAULT 0,
+            status TEXT NOT NULL DEFAULT 'pending',  -- pending / paid / overdue / waived
+            paid_at INTEGER,
+            overdue_at INTEGER,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL,
+            UNIQUE(loan_id, seq)
+        )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_loan_installments_status_due ON loan_installments(status, due_at)');
 
-    // 添加扣款后余额字段（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE user_loans ADD COLUMN balance_after_deduct INTEGER DEFAULT 0');
-        console.log('✅ 已添加 balance_after_deduct 字段（扣款后余额记录）');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
+    // 借款还款流水
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS loan_repayments (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            loan_id INTEGER NOT NULL,
+            linux_do_id TEXT NOT NULL,
+            source TEXT NOT NULL,                  -- repay / overdue_deduct / forgive
+            amount INTEGER NOT NULL,
+            discount INTEGER NOT NULL DEFAULT 0,
+            fee_part INTEGER NOT NULL DEFAULT 0,
+            principal_part INTEGER NOT NULL DEFAULT 0,
+            outstanding_after INTEGER NOT NULL,
+            created_at INTEGER NOT NULL
+        )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_loan_repayments_loan ON loan_repayments(loan_id, created_at)');
 
     // 用户坤呗统计表
     db.exec(`
@@ -1081,6 +942,73 @@ export function initDatabase() {
     db.exec('CREATE INDEX IF NOT EXISTS idx_kunbei_gradient_priority ON kunbei_gradient_configs(priority DESC)');
     db.exec('CREATE INDEX IF NOT EXISTS idx_kunbei_gradient_active ON kunbei_gradient_configs(is_active)');
 
+    // 坤呗信用评分配置（单行）
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS kunbei_credit_config (
+            id INTEGER PRIMARY KEY CHECK (id = 1),
+            base_score REAL NOT NULL DEFAULT 70,
+            on_time_weight REAL NOT NULL DEFAULT 15,
+            overdue_penalty REAL NOT NULL DEFAULT 10,
+            overdue_penalty_cap REAL NOT NULL DEFAULT 40,
+            recent_overdue_penalty REAL NOT NULL DEFAULT 20,
+            recent_overdue_days INTEGER NOT NULL DEFAULT 30,
+            utilization_weight REAL NOT NULL DEFAULT 5,
+            account_age_weight REAL NOT NULL DEFAULT 15,
+            account_age_full_days INTEGER NOT NULL DEFAULT 90,
+            slot_loss_weight REAL NOT NULL DEFAULT 5,
+            slot_loss_window_days INTEGER NOT NULL DEFAULT 30,
+            bands TEXT NOT NULL,                   -- 信用分档（JSON，按 min_score 从高到低）
+            updated_at INTEGER NOT NULL
+        )
+    `);
+    db.query('INSERT OR IGNORE INTO kunbei_credit_config (id, bands, updated_at) VALUES (1, ?, ?)').run(
+        JSON.stringify([
+            { min_score: 85, label: '优秀', loan_multiplier: 1.2 },
+            { min_score: 70, label: '良好', loan_multiplier: 1 },
+            { min_score: 60, label: '一般', loan_multiplier: 0.5 },
+            { min_score: 0, label: '较差', loan_multiplier: 0 }
+        ]),
+        Date.now()
+    );
+
+    // 坤呗信用分变动记录（含每次变动的原因与评分明细）
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS kunbei_credit_history (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            linux_do_id TEXT NOT NULL,
+            old_score INTEGER NOT NULL,
+            new_score INTEGER NOT NULL,
+            trigger TEXT NOT NULL,                 -- borrow / repay / overdue / forgive / refresh / config
+            ref_id INTEGER,                        -- 关联借款ID
+            reasons TEXT NOT NULL,                 -- JSON，相对上一次评分的因子变化
+            factors TEXT NOT NULL,                 -- JSON，本次评分明细
+            created_at INTEGER NOT NULL
+        )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_kunbei_credit_history_user ON kunbei_credit_history(linux_do_id, id)');
+
+    // 坤呗资产组合每日快照
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS kunbei_portfolio_snapshots (
+            date TEXT PRIMARY KEY,                 -- 北京时间日期 YYYY-MM-DD
+            active_loans INTEGER NOT NULL,
+            overdue_loans INTEGER NOT NULL,
+            outstanding_principal INTEGER NOT NULL,
+            outstanding_amount INTEGER NOT NULL,
+            total_loans INTEGER NOT NULL,
+            total_lent INTEGER NOT NULL,
+            total_collected INTEGER NOT NULL,
+            total_auto_deducted INTEGER NOT NULL,
+            total_forgiven INTEGER NOT NULL,
+            net_profit INTEGER NOT NULL,
+            overdue_rate REAL,
+            default_rate REAL,
+            recovery_rate REAL,
+            early_repay_rate REAL,
+            created_at INTEGER NOT NULL
+        )
+    `);
+
     // ========== 至尊场系统表 ==========
 
     // 用户至尊令牌表
@@ -1154,14 +1082,6 @@ export function initDatabase() {
     db.exec('CREATE INDEX IF NOT EXISTS idx_supreme_records_linux_do_username ON supreme_slot_records(linux_do_username)');
     db.exec('CREATE INDEX IF NOT EXISTS idx_supreme_records_username ON supreme_slot_records(username)');
 
-    // 添加 rule_name 字段到至尊场记录表（兼容旧数据库）
-    try {
-        db.exec('ALTER TABLE supreme_slot_records ADD COLUMN rule_name TEXT');
-        console.log('✅ 已添加 rule_name 字段到 supreme_slot_records');
-    } catch (e) {
-        // 字段已存在，忽略错误
-    }
-
     // 至尊令牌掉落记录表
     db.exec(`
         CREATE TABLE IF NOT EXISTS supreme_token_drop_records (
@@ -1311,8 +1231,101 @@ export function initDatabase() {
     `);
     db.exec('CREATE INDEX IF NOT EXISTS idx_profit_tracking_user ON user_profit_tracking(linux_do_id)');
 
+    // RTP 控制器配置（高级场、至尊场各一行，默认关闭）
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS rtp_controller_config (
+            mode TEXT PRIMARY KEY CHECK (mode IN ('advanced', 'supreme')),
+            enabled INTEGER NOT NULL DEFAULT 0,
+            target_rtp REAL,                       -- 为空时高级场沿用 advanced_slot_config.rtp_target
+            window_hours REAL NOT NULL DEFAULT 24,
+            min_spins INTEGER NOT NULL DEFAULT 200,
+            deadband REAL NOT NULL DEFAULT 0.05,   -- 回滞区间
+            cooldown_minutes INTEGER NOT NULL DEFAULT 60,
+            ladder TEXT NOT NULL DEFAULT '[]',     -- 权重方案ID阶梯（JSON，按期望 RTP 从低到高）
+            min_rtp REAL NOT NULL DEFAULT 0.5,     -- 档位期望 RTP 的硬边界
+            max_rtp REAL NOT NULL DEFAULT 1.2,
+            baseline_weight_config_id INTEGER,     -- 启用时的权重方案
+            updated_at INTEGER NOT NULL
+        )
+    `);
+    db.exec(`
+        INSERT OR IGNORE INTO rtp_controller_config (mode, updated_at)
+        VALUES ('advanced', ${Date.now()}), ('supreme', ${Date.now()})
+    `);
+
+    // RTP 控制器决策记录
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS rtp_controller_decisions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            mode TEXT NOT NULL,
+            action TEXT NOT NULL,                  -- step_up / step_down / hold / skip / killed
+            reason TEXT NOT NULL,
+            target_rtp REAL,
+            realized_rtp REAL,
+            window_spins INTEGER NOT NULL DEFAULT 0,
+            window_bet INTEGER NOT NULL DEFAULT 0,
+            window_win INTEGER NOT NULL DEFAULT 0,
+            previous_weight_config_id INTEGER,
+            new_weight_config_id INTEGER,
+            expected_rtp REAL,
+            created_at INTEGER NOT NULL
+        )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_rtp_decisions_mode_time ON rtp_controller_decisions(mode, created_at)');
+
+    // 配置版本历史（场次/坤呗配置、权重配置、奖励方案的每次写入，只追加）
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS config_versions (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            entity_type TEXT NOT NULL,             -- slot / advanced / supreme / kunbei / weight / reward_scheme
+            entity_id INTEGER NOT NULL,
+            version INTEGER NOT NULL,
+            action TEXT NOT NULL,                  -- baseline / create / update / delete / rollback
+            before_json TEXT,
+            after_json TEXT NOT NULL,
+            actor TEXT NOT NULL,
+            ip TEXT,
+            source TEXT NOT NULL,
+            rollback_of INTEGER,
+            created_at INTEGER NOT NULL,
+            UNIQUE(entity_type, entity_id, version)
+        )
+    `);
+    db.exec(`
+        CREATE TRIGGER IF NOT EXISTS trg_config_versions_no_update BEFORE UPDATE ON config_versions
+        BEGIN SELECT RAISE(ABORT, 'config_versions 只允许追加'); END
+    `);
+    db.exec(`
+        CREATE TRIGGER IF NOT EXISTS trg_config_versions_no_delete BEFORE DELETE ON config_versions
+        BEGIN SELECT RAISE(ABORT, 'config_versions 只允许追加'); END
+    `);
+
+    // 限时活动（按时间窗口临时叠加奖励倍率、掉落概率、免费次数、坤呗buff）
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS timed_events (
+            id INTEGER PRIMARY KEY AUTOINCREMENT,
+            name TEXT NOT NULL,
+            description TEXT,
+            slot_mode TEXT NOT NULL,               -- all / normal / advanced / supreme
+            effect_type TEXT NOT NULL,             -- reward_multiplier / drop_rate / free_spins / kunbei_buff
+            effect_value REAL NOT NULL,
+            priority INTEGER NOT NULL DEFAULT 0,   -- 同类效果重叠时优先级高者生效
+            starts_at INTEGER NOT NULL,
+            ends_at INTEGER NOT NULL,
+            status TEXT NOT NULL DEFAULT 'scheduled',  -- scheduled / active / ended / cancelled
+            created_by TEXT NOT NULL,
+            created_at INTEGER NOT NULL,
+            updated_at INTEGER NOT NULL
+        )
+    `);
+    db.exec('CREATE INDEX IF NOT EXISTS idx_timed_events_window ON timed_events(starts_at, ends_at)');
+    db.exec('CREATE INDEX IF NOT EXISTS idx_timed_events_status ON timed_events(status)');
+
     console.log('✅ 数据库表结构创建完成（含权重/奖励方案、至尊场和成就系统）');
 
+    // 执行待执行的数据库迁移（补齐旧数据库字段、修复历史数据）
+    runMigrations(db);
+
     // 插入默认数据
     insertDefaultData();
 
@@ -1320,12 +1333,6 @@ export function initDatabase() {
 
     // 初始化预编译查询语句
     initQueries();
-
-    // 🔥 自动修复错误的奖励规则数据
-    fixRewardRulesData();
-
-    // 🔥 自动更新成就描述单位
-    fixAchievementDescriptions();
 }
 
 /**
@@ -1652,22 +1659,33 @@ function insertDefaultData() {
 // ========== 预编译查询语句（性能优化） ==========
 
 // 声明查询对象（延迟初始化）
-export let userQueries: any;
-export let claimQueries: any;
-export let donateQueries: any;
-export let keyQueries: any;
-export let sessionQueries: any;
-export let adminQueries: any;
-export let slotQueries: any;
-export let pendingRewardQueries: any;
-export let advancedSlotQueries: any;  // 高级场查询
-export let kunbeiQueries: any;  // 坤呗借款查询
-export let weightConfigQueries: any;  // 权重配置查询
-export let rewardConfigQueries: any;  // 奖励配置查询
-export let supremeSlotQueries: any;  // 至尊场查询
-export let dropConfigQueries: any;  // 掉落配置查询
-export let achievementQueries: any;  // 成就系统查询
-export let rateLimitBanQueries: any;  // 速率限制封禁记录查询
+export let userQueries: UserQueries;
+export let claimQueries: ClaimQueries;
+export let donateQueries: DonateQueries;
+export let keyQueries: KeyQueries;
+export let sessionQueries: SessionQueries;
+export let adminQueries: AdminQueries;
+export let slotQueries: SlotQueries;
+export let pendingRewardQueries: PendingRewardQueries;
+export let advancedSlotQueries: AdvancedSlotQueries;  // 高级场查询
+export let kunbeiQueries: KunbeiQueries;  // 坤呗借款查询
+export let weightConfigQueries: WeightConfigQueries;  // 权重配置查询
+export let rewardConfigQueries: RewardConfigQueries;  // 奖励配置查询
+export let supremeSlotQueries: SupremeSlotQueries;  // 至尊场查询
+export let dropConfigQueries: DropConfigQueries;  // 掉落配置查询
+export let achievementQueries: AchievementQueries;  // 成就系统查询
+export let rateLimitBanQueries: RateLimitBanQueries;  // 速率限制封禁记录查询
+export let ledgerQueries: LedgerQueries;  // 复式记账分录查询
+export let walletTransferQueries: WalletTransferQueries;  // 钱包划转状态机查询
+export let idempotencyQueries: IdempotencyQueries;  // 幂等键查询
+export let fairSeedQueries: FairSeedQueries;  // 可验证公平种子查询
+export let schedulerQueries: SchedulerQueries;  // 定时任务查询
+export let quotaMutationQueries: QuotaMutationQueries;  // 上游额度变动队列查询
+export let upstreamQueries: UpstreamQueries;  // 上游站点与用户绑定查询
+export let rtpControllerQueries: RtpControllerQueries;  // RTP 控制器查询
+export let configVersionQueries: ConfigVersionQueries;  // 配置版本历史查询
+export let timedEventQueries: TimedEventQueries;  // 限时活动查询
+export let walletGiftQueries: WalletGiftQueries;  // 钱包赠送查询
 
 /**
  * 初始化预编译查询语句
@@ -1675,1806 +1693,67 @@ export let rateLimitBanQueries: any;  // 速率限制封禁记录查询
  */
 function initQueries() {
     // 用户相关
-    userQueries = {
-        get: db.query<User, string>('SELECT * FROM users WHERE linux_do_id = ?'),
-        getByUsername: db.query<User, string>('SELECT * FROM users WHERE username = ?'),
-        getByLinuxDoUsername: db.query<User, string>('SELECT * FROM users WHERE linux_do_username = ?'),
-        searchByUsername: db.query<User, string>(
-            'SELECT * FROM users WHERE username LIKE ? OR linux_do_username LIKE ? LIMIT 50'
-        ),
-        insert: db.query(
-            'INSERT INTO users (linux_do_id, username, linux_do_username, kyx_user_id, created_at) VALUES (?, ?, ?, ?, ?)'
-        ),
-        update: db.query(
-            'UPDATE users SET username = ?, linux_do_username = ?, kyx_user_id = ? WHERE linux_do_id = ?'
-        ),
-        getAll: db.query<User, never>('SELECT * FROM users'),
-        // 🚀 优化：使用 JOIN 聚合获取用户统计（替代内存中过滤）
-        getAllWithStats: db.query<any, [number, number]>(`
-            SELECT
-                u.*,
-                COALESCE(c.claim_count, 0) as claim_count,
-                COALESCE(c.total_claim_quota, 0) as total_claim_quota,
-                COALESCE(d.donate_count, 0) as donate_count,
-                COALESCE(d.total_donate_quota, 0) as total_donate_quota
-            FROM users u
-            LEFT JOIN (
-                SELECT linux_do_id,
-                       COUNT(*) as claim_count,
-                       SUM(quota_added) as total_claim_quota
-                FROM claim_records
-                GROUP BY linux_do_id
-            ) c ON u.linux_do_id = c.linux_do_id
-            LEFT JOIN (
-                SELECT linux_do_id,
-                       SUM(keys_count) as donate_count,
-                       SUM(total_quota_added) as total_donate_quota
-                FROM donate_records
-                GROUP BY linux_do_id
-            ) d ON u.linux_do_id = d.linux_do_id
-            ORDER BY u.created_at DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 🚀 优化：搜索用户（支持用户名和LinuxDo用户名）
-        searchWithStats: db.query<any, [string, string, number, number]>(`
-            SELECT
-                u.*,
-                COALESCE(c.claim_count, 0) as claim_count,
-                COALESCE(c.total_claim_quota, 0) as total_claim_quota,
-                COALESCE(d.donate_count, 0) as donate_count,
-                COALESCE(d.total_donate_quota, 0) as total_donate_quota
-            FROM users u
-            LEFT JOIN (
-                SELECT linux_do_id,
-                       COUNT(*) as claim_count,
-                       SUM(quota_added) as total_claim_quota
-                FROM claim_records
-                GROUP BY linux_do_id
-            ) c ON u.linux_do_id = c.linux_do_id
-            LEFT JOIN (
-                SELECT linux_do_id,
-                       SUM(keys_count) as donate_count,
-                       SUM(total_quota_added) as total_donate_quota
-                FROM donate_records
-                GROUP BY linux_do_id
-            ) d ON u.linux_do_id = d.linux_do_id
-            WHERE u.username LIKE ? OR u.linux_do_username LIKE ?
-            ORDER BY u.created_at DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 🚀 优化：统计搜索结果数量
-        countSearch: db.query<{ count: number }, [string, string]>(`
-            SELECT COUNT(*) as count FROM users
-            WHERE username LIKE ? OR linux_do_username LIKE ?
-        `),
-        // 🚀 优化：获取用户总数（用于分页）
-        count: db.query<{ count: number }, never>('SELECT COUNT(*) as count FROM users'),
-        getAllLinuxDoIds: db.query<{ linux_do_id: string }, never>('SELECT linux_do_id FROM users WHERE is_banned = 0'),
-        getBannedUsers: db.query<User, never>('SELECT * FROM users WHERE is_banned = 1 ORDER BY banned_at DESC'),
-        ban: db.query(
-            'UPDATE users SET is_banned = 1, banned_at = ?, banned_reason = ? WHERE linux_do_id = ?'
-        ),
-        unban: db.query(
-            'UPDATE users SET is_banned = 0, banned_at = NULL, banned_reason = NULL WHERE linux_do_id = ?'
-        ),
-        delete: db.query(
-            'DELETE FROM users WHERE linux_do_id = ?'
-        ),
-        // 连击计数器（用于连续中奖成就）
-        updateWinStreak: db.query(
-            'UPDATE users SET win_streak = ? WHERE linux_do_id = ?'
-        ),
-        getWinStreak: db.query<{ win_streak: number }, string>(
-            'SELECT win_streak FROM users WHERE linux_do_id = ?'
-        ),
-    };
+    userQueries = createUserQueries(db);
 
     // 领取记录相关
-    claimQueries = {
-        getToday: db.query<ClaimRecord, [string, string]>(
-            'SELECT * FROM claim_records WHERE linux_do_id = ? AND date = ?'
-        ),
-        insert: db.query(
-            'INSERT INTO claim_records (linux_do_id, username, quota_added, timestamp, date) VALUES (?, ?, ?, ?, ?)'
-        ),
-        getByUser: db.query<ClaimRecord, string>(
-            'SELECT * FROM claim_records WHERE linux_do_id = ? ORDER BY timestamp DESC'
-        ),
-        getAll: db.query<ClaimRecord, never>(
-            'SELECT * FROM claim_records ORDER BY timestamp DESC'
-        ),
-        getAllPaginated: db.query<ClaimRecord, [number, number]>(
-            'SELECT * FROM claim_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        count: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM claim_records'
-        ),
-    };
+    claimQueries = createClaimQueries(db);
 
     // 投喂记录相关
-    donateQueries = {
-        insert: db.query(
-            'INSERT INTO donate_records (linux_do_id, username, keys_count, total_quota_added, timestamp, push_status, push_message, failed_keys, key_type) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getByUser: db.query<DonateRecord, string>(
-            'SELECT * FROM donate_records WHERE linux_do_id = ? ORDER BY timestamp DESC'
-        ),
-        getAll: db.query<DonateRecord, never>(
-            'SELECT * FROM donate_records ORDER BY timestamp DESC'
-        ),
-        getAllPaginated: db.query<DonateRecord, [number, number]>(
-            'SELECT * FROM donate_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        count: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM donate_records'
-        ),
-        getTodayCount: db.query<{ total: number }, [string, number, number]>(
-            'SELECT COALESCE(SUM(keys_count), 0) as total FROM donate_records WHERE linux_do_id = ? AND timestamp >= ? AND timestamp < ?'
-        ),
-        getTodayCountByType: db.query<{ total: number }, [string, number, number, string]>(
-            'SELECT COALESCE(SUM(keys_count), 0) as total FROM donate_records WHERE linux_do_id = ? AND timestamp >= ? AND timestamp < ? AND key_type = ?'
-        ),
-        getByTimestamp: db.query<DonateRecord, [string, number]>(
-            'SELECT * FROM donate_records WHERE linux_do_id = ? AND timestamp = ?'
-        ),
-        update: db.query(
-            'UPDATE donate_records SET push_status = ?, push_message = ?, failed_keys = ? WHERE linux_do_id = ? AND timestamp = ?'
-        ),
-    };
+    donateQueries = createDonateQueries(db);
 
     // 已使用的 Key 相关
-    keyQueries = {
-        isUsed: db.query<{ count: number }, [string, string]>(
-            'SELECT COUNT(*) as count FROM used_keys WHERE key = ? AND key_type = ?'
-        ),
-        insert: db.query(
-            'INSERT INTO used_keys (key, linux_do_id, username, timestamp, key_type) VALUES (?, ?, ?, ?, ?)'
-        ),
-        getAll: db.query<
-            { key: string; linux_do_id: string; username: string; timestamp: number; key_type: string },
-            never
-        >('SELECT * FROM used_keys ORDER BY timestamp DESC'),
-        delete: db.query('DELETE FROM used_keys WHERE key = ? AND key_type = ?'),
-    };
+    keyQueries = createKeyQueries(db);
 
     // Session 相关
-    sessionQueries = {
-        get: db.query<{ data: string }, [string, number]>(
-            'SELECT data FROM sessions WHERE id = ? AND expires_at > ?'
-        ),
-        set: db.query(
-            'INSERT OR REPLACE INTO sessions (id, data, expires_at) VALUES (?, ?, ?)'
-        ),
-        delete: db.query('DELETE FROM sessions WHERE id = ?'),
-        cleanup: db.query('DELETE FROM sessions WHERE expires_at < ?'),
-    };
+    sessionQueries = createSessionQueries(db);
 
     // 管理员配置相关
-    adminQueries = {
-        get: db.query<AdminConfig, never>('SELECT * FROM admin_config WHERE id = 1'),
-        update: db.query(
-            'UPDATE admin_config SET session = ?, new_api_base = ?, new_api_user = ?, claim_quota = ?, max_daily_claims = ?, keys_api_url = ?, keys_authorization = ?, modelscope_group_id = ?, iflow_group_id = ?, max_daily_donate_modelscope = ?, max_daily_donate_iflow = ?, updated_at = ? WHERE id = 1'
-        ),
-        // 独立更新钱包配置（避免动到其它字段）
-        updateWallet: db.query(
-            'UPDATE admin_config SET wallet_exchange_rate = ?, wallet_daily_transfer_limit_count = ?, wallet_initial_egg = ?, updated_at = ? WHERE id = 1'
-        ),
-    };
+    adminQueries = createAdminQueries(db);
 
     // 老虎机相关
-    slotQueries = {
-        // 配置
-        getConfig: db.query<SlotMachineConfig, never>(
-            'SELECT * FROM slot_machine_config WHERE id = 1'
-        ),
-        updateConfig: db.query(
-            'UPDATE slot_machine_config SET bet_amount = ?, max_daily_spins = ?, min_quota_required = ?, enabled = ?, background_type = ?, buy_spins_enabled = ?, buy_spins_price = ?, max_daily_buy_spins = ?, updated_at = ? WHERE id = 1'
-        ),
-
-        // 符号权重配置
-        getWeights: db.query<any, never>(
-            'SELECT * FROM slot_symbol_weights WHERE id = 1'
-        ),
-        updateWeights: db.query(
-            'UPDATE slot_symbol_weights SET weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, updated_at = ? WHERE id = 1'
-        ),
-
-        // 奖励倍数配置
-        getMultipliers: db.query<any, never>(
-            'SELECT * FROM slot_reward_multipliers WHERE id = 1'
-        ),
-        updateMultipliers: db.query(
-            'UPDATE slot_reward_multipliers SET super_jackpot_multiplier = ?, special_combo_multiplier = ?, quad_multiplier = ?, triple_multiplier = ?, double_multiplier = ?, updated_at = ? WHERE id = 1'
-        ),
-
-        // 游戏记录
-        insertRecord: db.query(
-            'INSERT INTO slot_machine_records (linux_do_id, username, linux_do_username, bet_amount, result_symbols, win_type, win_multiplier, win_amount, free_spin_awarded, is_free_spin, slot_mode, rule_name, timestamp, date) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getRecordsByUser: db.query<SlotMachineRecord, string>(
-            'SELECT * FROM slot_machine_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getRecordsByUserAndMode: db.query<SlotMachineRecord, [string, string]>(
-            'SELECT * FROM slot_machine_records WHERE linux_do_id = ? AND slot_mode = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getAllRecords: db.query<SlotMachineRecord, never>(
-            'SELECT * FROM slot_machine_records ORDER BY timestamp DESC'
-        ),
-        getAllRecordsPaginated: db.query<SlotMachineRecord, [number, number]>(
-            'SELECT * FROM slot_machine_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        getNormalRecordsPaginated: db.query<SlotMachineRecord, [number, number]>(
-            'SELECT * FROM slot_machine_records WHERE slot_mode = "normal" OR slot_mode IS NULL ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        // 🚀 优化：按用户筛选初级场记录（支持分页）
-        getNormalRecordsByUserPaginated: db.query<SlotMachineRecord, [string, string, string, number, number]>(`
-            SELECT * FROM slot_machine_records
-            WHERE (slot_mode = "normal" OR slot_mode IS NULL)
-            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
-            ORDER BY timestamp DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 🚀 优化：按用户筛选初级场记录总数
-        countNormalRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
-            SELECT COUNT(*) as count FROM slot_machine_records
-            WHERE (slot_mode = "normal" OR slot_mode IS NULL)
-            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
-        `),
-        countRecords: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM slot_machine_records'
-        ),
-        countNormalRecords: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM slot_machine_records WHERE slot_mode = "normal" OR slot_mode IS NULL'
-        ),
-        // 🚀 优化：高级场记录分页
-        getAdvancedRecordsPaginated: db.query<SlotMachineRecord, [number, number]>(
-            'SELECT * FROM slot_machine_records WHERE slot_mode = "advanced" ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        // 🚀 优化：按用户筛选高级场记录
-        getAdvancedRecordsByUserPaginated: db.query<SlotMachineRecord, [string, string, string, number, number]>(`
-            SELECT * FROM slot_machine_records
-            WHERE slot_mode = "advanced"
-            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
-            ORDER BY timestamp DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 🚀 优化：高级场记录总数
-        countAdvancedRecords: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM slot_machine_records WHERE slot_mode = "advanced"'
-        ),
-        // 🚀 优化：按用户筛选高级场记录总数
-        countAdvancedRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
-            SELECT COUNT(*) as count FROM slot_machine_records
-            WHERE slot_mode = "advanced"
-            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
-        `),
-        getTodaySpins: db.query<{ count: number }, [string, string]>(
-            "SELECT COUNT(*) as count FROM slot_machine_records WHERE linux_do_id = ? AND date = ? AND is_free_spin = 0 AND (slot_mode = 'normal' OR slot_mode IS NULL)"
-        ),
-        getTodayStats: db.query<{ total_bet: number; total_win: number; count: number }, [string, string]>(
-            "SELECT COALESCE(SUM(bet_amount), 0) as total_bet, COALESCE(SUM(win_amount), 0) as total_win, COUNT(*) as count FROM slot_machine_records WHERE linux_do_id = ? AND date = ? AND (slot_mode = 'normal' OR slot_mode IS NULL)"
-        ),
-        // 获取今日高级场投注总额
-        getAdvancedTodayBet: db.query<{ total_bet: number }, [string, string]>(
-            "SELECT COALESCE(SUM(bet_amount), 0) as total_bet FROM slot_machine_records WHERE linux_do_id = ? AND date = ? AND slot_mode = 'advanced'"
-        ),
-
-        // 免费次数
-        getFreeSpin: db.query<UserFreeSpin, string>(
-            'SELECT * FROM user_free_spins WHERE linux_do_id = ?'
-        ),
-        getAllFreeSpin: db.query<UserFreeSpin, never>(
-            'SELECT * FROM user_free_spins'
-        ),
-        setFreeSpin: db.query(
-            'INSERT OR REPLACE INTO user_free_spins (linux_do_id, free_spins, banned_until, updated_at) VALUES (?, ?, ?, ?)'
-        ),
-        incrementFreeSpin: db.query(
-            'INSERT INTO user_free_spins (linux_do_id, free_spins, updated_at) VALUES (?, 1, ?) ON CONFLICT(linux_do_id) DO UPDATE SET free_spins = free_spins + 1, updated_at = ?'
-        ),
-        decrementFreeSpin: db.query(
-            'UPDATE user_free_spins SET free_spins = free_spins - 1, updated_at = ? WHERE linux_do_id = ? AND free_spins > 0'
-        ),
-        setBannedUntil: db.query(
-            'INSERT INTO user_free_spins (linux_do_id, free_spins, banned_at, banned_until, ban_slot_mode, ban_hours, updated_at) VALUES (?, 0, ?, ?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET banned_at = ?, banned_until = ?, ban_slot_mode = ?, ban_hours = ?, updated_at = ?'
-        ),
-
-        // 用户统计
-        getUserStats: db.query<any, string>(
-            'SELECT * FROM user_slot_stats WHERE linux_do_id = ?'
-        ),
-        updateUserStats: db.query(
-            'INSERT OR REPLACE INTO user_slot_stats (linux_do_id, username, avatar_url, total_spins, total_bet, total_win, biggest_win, biggest_win_type, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getLeaderboard: db.query<any, number>(
-            `SELECT 
-                s.linux_do_id, 
-                COALESCE(u.linux_do_username, s.username, u.username) as username,
-                s.avatar_url, 
-                s.total_spins, 
-                s.total_bet, 
-                s.total_win, 
-                s.biggest_win, 
-                s.biggest_win_type,
-                (s.total_win - s.total_bet) as profit
-            FROM user_slot_stats s
-            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
-            WHERE (s.total_win - s.total_bet) >= 0
-            ORDER BY (s.total_win - s.total_bet) DESC 
-            LIMIT ?`
-        ),
-        getLossLeaderboard: db.query<any, number>(
-            `SELECT 
-                s.linux_do_id, 
-                COALESCE(u.linux_do_username, s.username, u.username) as username,
-                s.avatar_url, 
-                s.total_spins, 
-                s.total_bet, 
-                s.total_win, 
-                s.biggest_win, 
-                s.biggest_win_type,
-                (s.total_win - s.total_bet) as profit
-            FROM user_slot_stats s
-            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
-            WHERE (s.total_win - s.total_bet) < 0
-            ORDER BY (s.total_win - s.total_bet) ASC 
-            LIMIT ?`
-        ),
-        getUserRank: db.query<{ rank: number }, string>(
-            'SELECT COUNT(*) + 1 as rank FROM user_slot_stats WHERE (total_win - total_bet) > (SELECT (total_win - total_bet) FROM user_slot_stats WHERE linux_do_id = ?)'
-        ),
-        getUserLossRank: db.query<{ rank: number }, string>(
-            'SELECT COUNT(*) + 1 as rank FROM user_slot_stats WHERE (total_win - total_bet) < (SELECT (total_win - total_bet) FROM user_slot_stats WHERE linux_do_id = ?)'
-        ),
-
-        // 日榜相关
-        updateDailyStats: db.query(
-            `INSERT INTO user_slot_daily_stats (linux_do_id, username, avatar_url, date, total_spins, total_bet, total_win, biggest_win, biggest_win_type, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id, date) DO UPDATE SET
-                username = excluded.username,
-                avatar_url = excluded.avatar_url,
-                total_spins = excluded.total_spins,
-                total_bet = excluded.total_bet,
-                total_win = excluded.total_win,
-                biggest_win = excluded.biggest_win,
-                biggest_win_type = excluded.biggest_win_type,
-                updated_at = excluded.updated_at`
-        ),
-        getDailyLeaderboard: db.query<any, [string, number]>(
-            `SELECT 
-                s.linux_do_id, 
-                COALESCE(u.linux_do_username, s.username, u.username) as username,
-                s.avatar_url, 
-                s.total_spins, 
-                s.total_bet, 
-                s.total_win, 
-                s.biggest_win, 
-                s.biggest_win_type,
-                (s.total_win - s.total_bet) as profit
-            FROM user_slot_daily_stats s
-            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
-            WHERE s.date = ? AND (s.total_win - s.total_bet) >= 0
-            ORDER BY (s.total_win - s.total_bet) DESC 
-            LIMIT ?`
-        ),
-        getDailyLossLeaderboard: db.query<any, [string, number]>(
-            `SELECT 
-                s.linux_do_id, 
-                COALESCE(u.linux_do_username, s.username, u.username) as username,
-                s.avatar_url, 
-                s.total_spins, 
-                s.total_bet, 
-                s.total_win, 
-                s.biggest_win, 
-                s.biggest_win_type,
-                (s.total_win - s.total_bet) as profit
-            FROM user_slot_daily_stats s
-            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
-            WHERE s.date = ? AND (s.total_win - s.total_bet) < 0
-            ORDER BY (s.total_win - s.total_bet) ASC 
-            LIMIT ?`
-        ),
-        getUserDailyRank: db.query<{ rank: number }, [string, string]>(
-            'SELECT COUNT(*) + 1 as rank FROM user_slot_daily_stats WHERE date = ? AND (total_win - total_bet) > (SELECT (total_win - total_bet) FROM user_slot_daily_stats WHERE linux_do_id = ? AND date = ?)'
-        ),
-        getUserDailyLossRank: db.query<{ rank: number }, [string, string]>(
-            'SELECT COUNT(*) + 1 as rank FROM user_slot_daily_stats WHERE date = ? AND (total_win - total_bet) < (SELECT (total_win - total_bet) FROM user_slot_daily_stats WHERE linux_do_id = ? AND date = ?)'
-        ),
-        getUserDailyStats: db.query<any, [string, string]>(
-            'SELECT * FROM user_slot_daily_stats WHERE linux_do_id = ? AND date = ?'
-        ),
-        cleanOldDailyStats: db.query<void, string>(
-            'DELETE FROM user_slot_daily_stats WHERE date < ?'
-        ),
-
-        // 周榜相关
-        updateWeeklyStats: db.query(
-            `INSERT INTO user_slot_weekly_stats (linux_do_id, username, avatar_url, week_start, total_spins, total_bet, total_win, biggest_win, biggest_win_type, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id, week_start) DO UPDATE SET
-                username = excluded.username,
-                avatar_url = excluded.avatar_url,
-                total_spins = excluded.total_spins,
-                total_bet = excluded.total_bet,
-                total_win = excluded.total_win,
-                biggest_win = excluded.biggest_win,
-                biggest_win_type = excluded.biggest_win_type,
-                updated_at = excluded.updated_at`
-        ),
-        getWeeklyLeaderboard: db.query<any, [string, number]>(
-            `SELECT 
-                s.linux_do_id, 
-                COALESCE(u.linux_do_username, s.username, u.username) as username,
-                s.avatar_url, 
-                s.total_spins, 
-                s.total_bet, 
-                s.total_win, 
-                s.biggest_win, 
-                s.biggest_win_type,
-                (s.total_win - s.total_bet) as profit
-            FROM user_slot_weekly_stats s
-            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
-            WHERE s.week_start = ? AND (s.total_win - s.total_bet) >= 0
-            ORDER BY (s.total_win - s.total_bet) DESC 
-            LIMIT ?`
-        ),
-        getWeeklyLossLeaderboard: db.query<any, [string, number]>(
-            `SELECT 
-                s.linux_do_id, 
-                COALESCE(u.linux_do_username, s.username, u.username) as username,
-                s.avatar_url, 
-                s.total_spins, 
-                s.total_bet, 
-                s.total_win, 
-                s.biggest_win, 
-                s.biggest_win_type,
-                (s.total_win - s.total_bet) as profit
-            FROM user_slot_weekly_stats s
-            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
-            WHERE s.week_start = ? AND (s.total_win - s.total_bet) < 0
-            ORDER BY (s.total_win - s.total_bet) ASC 
-            LIMIT ?`
-        ),
-        getUserWeeklyRank: db.query<{ rank: number }, [string, string]>(
-            'SELECT COUNT(*) + 1 as rank FROM user_slot_weekly_stats WHERE week_start = ? AND (total_win - total_bet) > (SELECT (total_win - total_bet) FROM user_slot_weekly_stats WHERE linux_do_id = ? AND week_start = ?)'
-        ),
-        getUserWeeklyLossRank: db.query<{ rank: number }, [string, string]>(
-            'SELECT COUNT(*) + 1 as rank FROM user_slot_weekly_stats WHERE week_start = ? AND (total_win - total_bet) < (SELECT (total_win - total_bet) FROM user_slot_weekly_stats WHERE linux_do_id = ? AND week_start = ?)'
-        ),
-        getUserWeeklyStats: db.query<any, [string, string]>(
-            'SELECT * FROM user_slot_weekly_stats WHERE linux_do_id = ? AND week_start = ?'
-        ),
-        cleanOldWeeklyStats: db.query<void, string>(
-            'DELETE FROM user_slot_weekly_stats WHERE week_start < ?'
-        ),
-
-        // 购买次数记录
-        insertBuySpinsRecord: db.query<void, [string, string, string | null, number, number, number, string]>(
-            'INSERT INTO buy_spins_records (linux_do_id, username, linux_do_username, spins_count, price_paid, timestamp, date) VALUES (?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getTodayBuySpinsCount: db.query<{ total: number }, [string, string]>(
-            'SELECT COALESCE(SUM(spins_count), 0) as total FROM buy_spins_records WHERE linux_do_id = ? AND date = ?'
-        ),
-        getBuySpinsRecordsByUser: db.query<any, string>(
-            'SELECT * FROM buy_spins_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getAllBuySpinsRecords: db.query<any, never>(
-            'SELECT * FROM buy_spins_records ORDER BY timestamp DESC'
-        ),
-    };
+    slotQueries = createSlotQueries(db);
 
     // 待发放奖金相关
-    pendingRewardQueries = {
-        // 插入新的待发放奖金
-        insert: db.query(
-            'INSERT INTO pending_rewards (linux_do_id, kyx_user_id, username, reward_amount, reason, status, retry_count, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        // 获取待发放的奖金（status = pending 或 failed）
-        getPending: db.query<any, never>(
-            "SELECT * FROM pending_rewards WHERE status IN ('pending', 'failed') ORDER BY created_at ASC LIMIT 50"
-        ),
-        // 获取所有奖金记录（包括成功的，用于管理后台查看）
-        getAll: db.query<any, never>(
-            "SELECT * FROM pending_rewards ORDER BY created_at DESC LIMIT 200"
-        ),
-        // 获取用户的待发放奖金
-        getByUser: db.query<any, string>(
-            "SELECT * FROM pending_rewards WHERE linux_do_id = ? ORDER BY created_at DESC"
-        ),
-        // 获取用户的待发放奖金数量和总金额
-        getUserPendingSummary: db.query<{ count: number; total_amount: number }, string>(
-            "SELECT COUNT(*) as count, COALESCE(SUM(reward_amount), 0) as total_amount FROM pending_rewards WHERE linux_do_id = ? AND status IN ('pending', 'processing', 'failed')"
-        ),
-        // 更新奖金状态
-        updateStatus: db.query(
-            'UPDATE pending_rewards SET status = ?, updated_at = ?, error_message = ? WHERE id = ?'
-        ),
-        // 更新为成功
-        markSuccess: db.query(
-            'UPDATE pending_rewards SET status = ?, processed_at = ?, updated_at = ? WHERE id = ?'
-        ),
-        // 增加重试次数
-        incrementRetry: db.query(
-            'UPDATE pending_rewards SET retry_count = retry_count + 1, status = ?, error_message = ?, updated_at = ? WHERE id = ?'
-        ),
-        // 获取单条记录
-        getById: db.query<any, number>(
-            'SELECT * FROM pending_rewards WHERE id = ?'
-        ),
-    };
+    pendingRewardQueries = createPendingRewardQueries(db);
 
     // ========== 高级场系统查询 ==========
-    advancedSlotQueries = {
-        // 入场券和碎片管理
-        getTickets: db.query<UserTickets, string>(
-            'SELECT * FROM user_tickets WHERE linux_do_id = ?'
-        ),
-        upsertTickets: db.query(
-            `INSERT INTO user_tickets (linux_do_id, tickets, fragments, tickets_expires_at, advanced_mode_until, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             tickets = excluded.tickets,
-             fragments = excluded.fragments,
-             tickets_expires_at = excluded.tickets_expires_at,
-             advanced_mode_until = excluded.advanced_mode_until,
-             updated_at = excluded.updated_at`
-        ),
-        addTickets: db.query(
-            `INSERT INTO user_tickets (linux_do_id, tickets, tickets_expires_at, updated_at)
-             VALUES (?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             tickets = MIN(tickets + ?, ?),
-             tickets_expires_at = ?,
-             updated_at = ?`
-        ),
-        addFragments: db.query(
-            `INSERT INTO user_tickets (linux_do_id, fragments, updated_at)
-             VALUES (?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             fragments = fragments + ?,
-             updated_at = ?`
-        ),
-        useTicket: db.query(
-            `UPDATE user_tickets SET 
-             tickets = tickets - 1,
-             advanced_mode_until = ?,
-             updated_at = ?
-             WHERE linux_do_id = ? AND tickets > 0`
-        ),
-        clearExpiredTickets: db.query(
-            `UPDATE user_tickets 
-             SET tickets = 0, tickets_expires_at = NULL, updated_at = ?
-             WHERE linux_do_id = ? AND tickets_expires_at < ?`
-        ),
-        exitAdvancedMode: db.query(
-            `UPDATE user_tickets
-             SET advanced_mode_until = NULL, updated_at = ?
-             WHERE linux_do_id = ?`
-        ),
-
-        // 高级场配置
-        getAdvancedConfig: db.query<AdvancedSlotConfig, never>(
-            'SELECT * FROM advanced_slot_config WHERE id = 1'
-        ),
-        updateAdvancedConfig: db.query(
-            `UPDATE advanced_slot_config SET
-             enabled = ?,
-             bet_min = ?,
-             bet_max = ?,
-             reward_multiplier = ?,
-             penalty_weight_factor = ?,
-             rtp_target = ?,
-             ticket_valid_hours = ?,
-             session_valid_hours = ?,
-             fragments_needed = ?,
-             drop_rate_triple = ?,
-             drop_rate_double = ?,
-             max_tickets_hold = ?,
-             daily_bet_limit = ?,
-             daily_entry_limit = ?,
-             daily_ticket_grant_limit = ?,
-             updated_at = ?
-             WHERE id = 1`
-        ),
-
-        // 入场券掉落记录
-        insertDropRecord: db.query(
-            'INSERT INTO ticket_drop_records (linux_do_id, username, drop_type, drop_count, trigger_win_type, timestamp, date) VALUES (?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getDropRecordsByUser: db.query<TicketDropRecord, string>(
-            'SELECT * FROM ticket_drop_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getAllDropRecords: db.query<TicketDropRecord, never>(
-            'SELECT * FROM ticket_drop_records ORDER BY timestamp DESC LIMIT 200'
-        ),
-
-        // RTP 统计
-        getRTPStats: db.query<AdvancedSlotRTPStats, string>(
-            'SELECT * FROM advanced_slot_rtp_stats WHERE linux_do_id = ?'
-        ),
-        updateRTPStats: db.query(
-            `INSERT INTO advanced_slot_rtp_stats (linux_do_id, total_bet, total_win, rtp, games_count, last_updated)
-             VALUES (?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             total_bet = total_bet + ?,
-             total_win = total_win + ?,
-             rtp = CAST(total_win AS REAL) / CAST(total_bet AS REAL),
-             games_count = games_count + 1,
-             last_updated = ?`
-        ),
-        getAllRTPStats: db.query<AdvancedSlotRTPStats, never>(
-            'SELECT * FROM advanced_slot_rtp_stats ORDER BY games_count DESC LIMIT 100'
-        ),
-
-        // 高级场符号权重
-        getAdvancedWeights: db.query<any, never>(
-            'SELECT * FROM advanced_slot_symbol_weights WHERE id = 1'
-        ),
-        updateAdvancedWeights: db.query(
-            'UPDATE advanced_slot_symbol_weights SET weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, updated_at = ? WHERE id = 1'
-        ),
-
-        // 用户每日进入高级场记录
-        getTodayEntry: db.query<UserAdvancedEntry, [string, string]>(
-            'SELECT * FROM user_advanced_entries WHERE linux_do_id = ? AND entry_date = ?'
-        ),
-        updateTodayEntry: db.query(
-            `INSERT INTO user_advanced_entries (linux_do_id, entry_date, entry_count, last_entry_time)
-             VALUES (?, ?, 1, ?)
-             ON CONFLICT(linux_do_id, entry_date) DO UPDATE SET
-             entry_count = entry_count + 1,
-             last_entry_time = ?`
-        ),
-
-        // 用户每日入场券获得记录
-        getTodayGrant: db.query<UserDailyTicketGrant, [string, string]>(
-            'SELECT * FROM user_daily_ticket_grants WHERE linux_do_id = ? AND grant_date = ?'
-        ),
-        updateTodayTicketGrant: db.query(
-            `INSERT INTO user_daily_ticket_grants (linux_do_id, grant_date, ticket_granted, fragment_granted, last_grant_time)
-             VALUES (?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id, grant_date) DO UPDATE SET
-             ticket_granted = ticket_granted + ?,
-             fragment_granted = fragment_granted + ?,
-             last_grant_time = ?`
-        ),
-    };
+    advancedSlotQueries = createAdvancedSlotQueries(db);
 
     // ========== 坤呗借款系统查询 ==========
-    kunbeiQueries = {
-        // 配置管理
-        getConfig: db.query<KunbeiConfig, never>(
-            'SELECT * FROM kunbei_config WHERE id = 1'
-        ),
-        updateConfig: db.query(
-            `UPDATE kunbei_config SET 
-             enabled = ?, max_loan_amount = ?, min_loan_amount = ?,
-             repay_multiplier = ?, loan_duration_hours = ?, early_repay_discount = ?,
-             overdue_penalty_hours = ?, overdue_ban_advanced = ?, max_active_loans = ?,
-             deduct_all_quota_on_overdue = ?, overdue_deduct_multiplier = ?, max_daily_borrows = ?, updated_at = ? WHERE id = 1`
-        ),
-
-        // 借款记录管理
-        getActiveLoan: db.query<UserLoan, string>(
-            'SELECT * FROM user_loans WHERE linux_do_id = ? AND status = "active" LIMIT 1'
-        ),
-        getLoanById: db.query<UserLoan, number>(
-            'SELECT * FROM user_loans WHERE id = ?'
-        ),
-        getUserLoans: db.query<UserLoan, string>(
-            'SELECT * FROM user_loans WHERE linux_do_id = ? ORDER BY created_at DESC LIMIT 20'
-        ),
-        getAllLoans: db.query<UserLoan, never>(
-            'SELECT * FROM user_loans ORDER BY created_at DESC LIMIT 200'
-        ),
-        getActiveLoans: db.query<UserLoan, never>(
-            'SELECT * FROM user_loans WHERE status = "active"'
-        ),
-        getOverdueLoans: db.query<UserLoan, never>(
-            'SELECT * FROM user_loans WHERE status = "overdue"'
-        ),
-        getTodayBorrowCount: db.query<{ count: number }, [string, string]>(
-            `SELECT COUNT(*) as count FROM user_loans 
-             WHERE linux_do_id = ? AND DATE(borrowed_at / 1000, 'unixepoch') = ?`
-        ),
-        insertLoan: db.query(
-            `INSERT INTO user_loans (linux_do_id, username, loan_amount, repay_amount, status, borrowed_at, due_at, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        ),
-        updateLoanStatus: db.query(
-            `UPDATE user_loans SET status = ?, actual_repay_amount = ?, repaid_at = ?, overdue_penalty_until = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        updateLoanOverdue: db.query(
-            `UPDATE user_loans SET status = ?, overdue_penalty_until = ?, auto_deducted_amount = ?, balance_after_deduct = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        clearOverduePenalty: db.query(
-            `UPDATE user_loans SET overdue_penalty_until = NULL, updated_at = ?
-             WHERE id = ?`
-        ),
-        deleteLoan: db.query(
-            'DELETE FROM user_loans WHERE id = ?'
-        ),
-
-        // 用户统计管理
-        getStats: db.query<UserKunbeiStats, string>(
-            'SELECT * FROM user_kunbei_stats WHERE linux_do_id = ?'
-        ),
-        upsertStats: db.query(
-            `INSERT INTO user_kunbei_stats (linux_do_id, total_borrowed, total_repaid, total_loans, repaid_loans, overdue_loans, credit_score, is_banned, last_borrow_date, has_daily_buff, buff_multiplier, buff_used, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             total_borrowed = total_borrowed + ?,
-             total_repaid = total_repaid + ?,
-             total_loans = total_loans + ?,
-             repaid_loans = repaid_loans + ?,
-             overdue_loans = overdue_loans + ?,
-             credit_score = ?,
-             last_borrow_date = ?,
-             has_daily_buff = ?,
-             buff_multiplier = ?,
-             buff_used = ?,
-             updated_at = ?`
-        ),
-        updateCreditScore: db.query(
-            `INSERT INTO user_kunbei_stats (linux_do_id, credit_score, updated_at)
-             VALUES (?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             credit_score = MAX(0, MIN(100, credit_score + ?)),
-             updated_at = ?`
-        ),
-
-        // Buff相关查询
-        checkBuff: db.query<UserKunbeiStats, string>(
-            'SELECT * FROM user_kunbei_stats WHERE linux_do_id = ? AND has_daily_buff = 1 AND buff_used = 0'
-        ),
-        useBuff: db.query(
-            'UPDATE user_kunbei_stats SET buff_used = 1, updated_at = ? WHERE linux_do_id = ?'
-        ),
-
-        // 梯度配置相关查询
-        getGradientConfigs: db.query<KunbeiGradientConfig, never>(
-            'SELECT * FROM kunbei_gradient_configs WHERE is_active = 1 ORDER BY quota_threshold ASC'
-        ),
-        getGradientConfigById: db.query<KunbeiGradientConfig, number>(
-            'SELECT * FROM kunbei_gradient_configs WHERE id = ?'
-        ),
-        getAllGradientConfigs: db.query<KunbeiGradientConfig, never>(
-            'SELECT * FROM kunbei_gradient_configs ORDER BY quota_threshold ASC'
-        ),
-        insertGradientConfig: db.query(
-            `INSERT INTO kunbei_gradient_configs (quota_threshold, max_loan_amount, priority, is_active, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?)`
-        ),
-        updateGradientConfig: db.query(
-            `UPDATE kunbei_gradient_configs 
-             SET quota_threshold = ?, max_loan_amount = ?, priority = ?, is_active = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        deleteGradientConfig: db.query(
-            'DELETE FROM kunbei_gradient_configs WHERE id = ?'
-        ),
-    };
+    kunbeiQueries = createKunbeiQueries(db);
 
     // ========== 权重配置方案查询 ==========
-    weightConfigQueries = {
-        getAll: db.query<any, never>(
-            'SELECT * FROM symbol_weight_configs WHERE is_deleted = 0 ORDER BY id ASC'
-        ),
-        getById: db.query<any, number>(
-            'SELECT * FROM symbol_weight_configs WHERE id = ?'
-        ),
-        getUsageInfo: db.query<any, number>(`
-            SELECT 
-                (SELECT COUNT(*) FROM slot_machine_config WHERE weight_config_id = ?) +
-                (SELECT COUNT(*) FROM advanced_slot_config WHERE weight_config_id = ?) +
-                (SELECT COUNT(*) FROM supreme_slot_config WHERE weight_config_id = ?) as usage_count
-        `),
-        insert: db.query(
-            `INSERT INTO symbol_weight_configs (config_name, weight_m, weight_t, weight_n, weight_j, weight_lq, weight_bj, weight_zft, weight_bdk, weight_lsh, weight_man, description, is_deleted, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`
-        ),
-        update: db.query(
-            `UPDATE symbol_weight_configs SET
-             config_name = ?, weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, weight_man = ?, description = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        softDelete: db.query(
-            'UPDATE symbol_weight_configs SET is_deleted = 1, updated_at = ? WHERE id = ?'
-        ),
-    };
+    weightConfigQueries = createWeightConfigQueries(db);
 
     // ========== 奖励配置方案查询 ==========
-    rewardConfigQueries = {
-        // 方案管理
-        getAllSchemes: db.query<any, never>(
-            'SELECT * FROM reward_config_schemes WHERE is_deleted = 0 ORDER BY id ASC'
-        ),
-        getSchemeById: db.query<any, number>(
-            'SELECT * FROM reward_config_schemes WHERE id = ?'
-        ),
-        getSchemeUsageInfo: db.query<any, number>(`
-            SELECT 
-                (SELECT COUNT(*) FROM slot_machine_config WHERE reward_scheme_id = ?) +
-                (SELECT COUNT(*) FROM advanced_slot_config WHERE reward_scheme_id = ?) +
-                (SELECT COUNT(*) FROM supreme_slot_config WHERE reward_scheme_id = ?) as usage_count
-        `),
-        insertScheme: db.query(
-            `INSERT INTO reward_config_schemes (scheme_name, description, is_deleted, created_at, updated_at)
-             VALUES (?, ?, 0, ?, ?)`
-        ),
-        updateScheme: db.query(
-            `UPDATE reward_config_schemes SET scheme_name = ?, description = ?, updated_at = ? WHERE id = ?`
-        ),
-        softDeleteScheme: db.query(
-            'UPDATE reward_config_schemes SET is_deleted = 1, updated_at = ? WHERE id = ?'
-        ),
-
-        // 规则管理
-        getRulesByScheme: db.query<any, number>(
-            'SELECT * FROM reward_rules WHERE scheme_id = ? ORDER BY priority DESC'
-        ),
-        getRuleById: db.query<any, number>(
-            'SELECT * FROM reward_rules WHERE id = ?'
-        ),
-        insertRule: db.query(
-            `INSERT INTO reward_rules (scheme_id, rule_name, rule_type, rule_category, match_pattern, match_count, required_symbols, win_multiplier, grant_free_spin, priority, is_active, description, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        ),
-        updateRule: db.query(
-            `UPDATE reward_rules SET 
-             rule_name = ?, rule_type = ?, rule_category = ?, match_pattern = ?, match_count = ?, required_symbols = ?, win_multiplier = ?, grant_free_spin = ?, priority = ?, is_active = ?, description = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        deleteRule: db.query(
-            'DELETE FROM reward_rules WHERE id = ?'
-        ),
-
-        // 律师函惩罚配置
-        getPunishmentsByScheme: db.query<any, number>(
-            'SELECT * FROM punishment_lsh_configs WHERE scheme_id = ? ORDER BY lsh_count ASC'
-        ),
-        upsertPunishment: db.query(
-            `INSERT INTO punishment_lsh_configs (scheme_id, lsh_count, deduct_multiplier, ban_hours, is_active, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(scheme_id, lsh_count) DO UPDATE SET
-             deduct_multiplier = ?, ban_hours = ?, is_active = ?, updated_at = ?`
-        ),
-    };
+    rewardConfigQueries = createRewardConfigQueries(db);
 
     // ========== 至尊场查询 ==========
-    supremeSlotQueries = {
-        // 令牌管理
-        getTokens: db.query<any, string>(
-            'SELECT * FROM supreme_user_tokens WHERE linux_do_id = ?'
-        ),
-        upsertTokens: db.query(
-            `INSERT INTO supreme_user_tokens (linux_do_id, tokens, fragments, tokens_expires_at, supreme_mode_until, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             tokens = excluded.tokens, fragments = excluded.fragments, tokens_expires_at = excluded.tokens_expires_at, supreme_mode_until = excluded.supreme_mode_until, updated_at = excluded.updated_at`
-        ),
-        useToken: db.query(
-            `UPDATE supreme_user_tokens SET tokens = tokens - 1, supreme_mode_until = ?, updated_at = ? WHERE linux_do_id = ? AND tokens > 0`
-        ),
-        exitSupremeMode: db.query(
-            `UPDATE supreme_user_tokens SET supreme_mode_until = NULL, updated_at = ? WHERE linux_do_id = ?`
-        ),
-
-        // 至尊场配置
-        getConfig: db.query<any, never>(
-            'SELECT * FROM supreme_slot_config WHERE id = 1'
-        ),
-        updateConfig: db.query(
-            `UPDATE supreme_slot_config SET enabled = ?, fragments_to_token = ?, max_tokens_hold = ?, token_valid_hours = ?, session_valid_hours = ?, min_bet_amount = ?, max_bet_amount = ?, bet_step = ?, daily_entry_limit = ?, daily_token_grant_limit = ?, daily_bet_limit = ?, weight_config_id = ?, reward_scheme_id = ?, updated_at = ? WHERE id = 1`
-        ),
-
-        // 游戏记录
-        insertRecord: db.query(
-            'INSERT INTO supreme_slot_records (linux_do_id, username, linux_do_username, bet_amount, result_symbols, win_type, win_multiplier, win_amount, rule_name, timestamp, date, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getRecordsByUser: db.query<any, string>(
-            'SELECT * FROM supreme_slot_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getAllRecords: db.query<any, never>(
-            'SELECT * FROM supreme_slot_records ORDER BY timestamp DESC LIMIT 200'
-        ),
-        // 🚀 优化：至尊场记录分页
-        getAllRecordsPaginated: db.query<any, [number, number]>(
-            'SELECT * FROM supreme_slot_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        // 🚀 优化：按用户筛选至尊场记录
-        getRecordsByUserPaginated: db.query<any, [string, string, string, number, number]>(`
-            SELECT * FROM supreme_slot_records
-            WHERE linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?
-            ORDER BY timestamp DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 🚀 优化：至尊场记录总数
-        countRecords: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM supreme_slot_records'
-        ),
-        // 🚀 优化：按用户筛选至尊场记录总数
-        countRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
-            SELECT COUNT(*) as count FROM supreme_slot_records
-            WHERE linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?
-        `),
-
-        // 掉落记录
-        insertDropRecord: db.query(
-            'INSERT INTO supreme_token_drop_records (linux_do_id, username, drop_type, drop_count, source, trigger_win_type, timestamp, date, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getAllDropRecords: db.query<any, never>(
-            'SELECT * FROM supreme_token_drop_records ORDER BY timestamp DESC LIMIT 200'
-        ),
-
-        // 每日进入记录
-        getTodayEntry: db.query<any, [string, string]>(
-            'SELECT * FROM supreme_daily_entries WHERE linux_do_id = ? AND entry_date = ?'
-        ),
-        updateTodayEntry: db.query(
-            `INSERT INTO supreme_daily_entries (linux_do_id, entry_date, entry_count, last_entry_time)
-             VALUES (?, ?, 1, ?)
-             ON CONFLICT(linux_do_id, entry_date) DO UPDATE SET entry_count = entry_count + 1, last_entry_time = ?`
-        ),
-
-        // 每日令牌获得记录
-        getTodayGrant: db.query<any, [string, string]>(
-            'SELECT * FROM supreme_daily_token_grants WHERE linux_do_id = ? AND grant_date = ?'
-        ),
-        updateTodayGrant: db.query(
-            `INSERT INTO supreme_daily_token_grants (linux_do_id, grant_date, tokens_granted, fragments_granted, last_grant_time)
-             VALUES (?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id, grant_date) DO UPDATE SET tokens_granted = tokens_granted + ?, fragments_granted = fragments_granted + ?, last_grant_time = ?`
-        ),
-    };
+    supremeSlotQueries = createSupremeSlotQueries(db);
 
     // 🔥 注意：Session清理定时器已在下方统一设置，这里移除重复的定时器
 
     console.log('✅ 数据库查询语句已预编译（含高级场、至尊场和配置方案系统）');
 
-    // 待发放奖金相关
-    pendingRewardQueries = {
-        // 插入新的待发放奖金
-        insert: db.query(
-            'INSERT INTO pending_rewards (linux_do_id, kyx_user_id, username, reward_amount, reason, status, retry_count, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        // 获取待发放的奖金（status = pending 或 failed）
-        getPending: db.query<any, never>(
-            "SELECT * FROM pending_rewards WHERE status IN ('pending', 'failed') ORDER BY created_at ASC LIMIT 50"
-        ),
-        // 获取所有奖金记录（包括成功的，用于管理后台查看）
-        getAll: db.query<any, never>(
-            "SELECT * FROM pending_rewards ORDER BY created_at DESC LIMIT 200"
-        ),
-        // 获取用户的待发放奖金
-        getByUser: db.query<any, string>(
-            "SELECT * FROM pending_rewards WHERE linux_do_id = ? ORDER BY created_at DESC"
-        ),
-        // 获取用户的待发放奖金数量和总金额
-        getUserPendingSummary: db.query<{ count: number; total_amount: number }, string>(
-            "SELECT COUNT(*) as count, COALESCE(SUM(reward_amount), 0) as total_amount FROM pending_rewards WHERE linux_do_id = ? AND status IN ('pending', 'processing', 'failed')"
-        ),
-        // 更新奖金状态
-        updateStatus: db.query(
-            'UPDATE pending_rewards SET status = ?, updated_at = ?, error_message = ? WHERE id = ?'
-        ),
-        // 更新为成功
-        markSuccess: db.query(
-            'UPDATE pending_rewards SET status = ?, processed_at = ?, updated_at = ? WHERE id = ?'
-        ),
-        // 增加重试次数
-        incrementRetry: db.query(
-            'UPDATE pending_rewards SET retry_count = retry_count + 1, status = ?, error_message = ?, updated_at = ? WHERE id = ?'
-        ),
-        // 获取单条记录
-        getById: db.query<any, number>(
-            'SELECT * FROM pending_rewards WHERE id = ?'
-        ),
-    };
-
-    // ========== 高级场系统查询 ==========
-    advancedSlotQueries = {
-        // 入场券和碎片管理
-        getTickets: db.query<UserTickets, string>(
-            'SELECT * FROM user_tickets WHERE linux_do_id = ?'
-        ),
-        upsertTickets: db.query(
-            `INSERT INTO user_tickets (linux_do_id, tickets, fragments, tickets_expires_at, advanced_mode_until, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             tickets = excluded.tickets,
-             fragments = excluded.fragments,
-             tickets_expires_at = excluded.tickets_expires_at,
-             advanced_mode_until = excluded.advanced_mode_until,
-             updated_at = excluded.updated_at`
-        ),
-        addTickets: db.query(
-            `INSERT INTO user_tickets (linux_do_id, tickets, tickets_expires_at, updated_at)
-             VALUES (?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             tickets = MIN(tickets + ?, ?),
-             tickets_expires_at = ?,
-             updated_at = ?`
-        ),
-        addFragments: db.query(
-            `INSERT INTO user_tickets (linux_do_id, fragments, updated_at)
-             VALUES (?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             fragments = fragments + ?,
-             updated_at = ?`
-        ),
-        useTicket: db.query(
-            `UPDATE user_tickets SET 
-             tickets = tickets - 1,
-             advanced_mode_until = ?,
-             updated_at = ?
-             WHERE linux_do_id = ? AND tickets > 0`
-        ),
-        clearExpiredTickets: db.query(
-            `UPDATE user_tickets 
-             SET tickets = 0, tickets_expires_at = NULL, updated_at = ?
-             WHERE linux_do_id = ? AND tickets_expires_at < ?`
-        ),
-        exitAdvancedMode: db.query(
-            `UPDATE user_tickets
-             SET advanced_mode_until = NULL, updated_at = ?
-             WHERE linux_do_id = ?`
-        ),
-
-        // 高级场配置
-        getAdvancedConfig: db.query<AdvancedSlotConfig, never>(
-            'SELECT * FROM advanced_slot_config WHERE id = 1'
-        ),
-        updateAdvancedConfig: db.query(
-            `UPDATE advanced_slot_config SET
-             enabled = ?,
-             bet_min = ?,
-             bet_max = ?,
-             reward_multiplier = ?,
-             penalty_weight_factor = ?,
-             rtp_target = ?,
-             ticket_valid_hours = ?,
-             session_valid_hours = ?,
-             fragments_needed = ?,
-             drop_rate_triple = ?,
-             drop_rate_double = ?,
-             max_tickets_hold = ?,
-             daily_bet_limit = ?,
-             daily_entry_limit = ?,
-             daily_ticket_grant_limit = ?,
-             updated_at = ?
-             WHERE id = 1`
-        ),
-
-        // 入场券掉落记录
-        insertDropRecord: db.query(
-            'INSERT INTO ticket_drop_records (linux_do_id, username, drop_type, drop_count, trigger_win_type, timestamp, date) VALUES (?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getDropRecordsByUser: db.query<TicketDropRecord, string>(
-            'SELECT * FROM ticket_drop_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getAllDropRecords: db.query<TicketDropRecord, never>(
-            'SELECT * FROM ticket_drop_records ORDER BY timestamp DESC LIMIT 200'
-        ),
-
-        // RTP 统计
-        getRTPStats: db.query<AdvancedSlotRTPStats, string>(
-            'SELECT * FROM advanced_slot_rtp_stats WHERE linux_do_id = ?'
-        ),
-        updateRTPStats: db.query(
-            `INSERT INTO advanced_slot_rtp_stats (linux_do_id, total_bet, total_win, rtp, games_count, last_updated)
-             VALUES (?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             total_bet = total_bet + ?,
-             total_win = total_win + ?,
-             rtp = CAST(total_win AS REAL) / CAST(total_bet AS REAL),
-             games_count = games_count + 1,
-             last_updated = ?`
-        ),
-        getAllRTPStats: db.query<AdvancedSlotRTPStats, never>(
-            'SELECT * FROM advanced_slot_rtp_stats ORDER BY games_count DESC LIMIT 100'
-        ),
-
-        // 高级场符号权重
-        getAdvancedWeights: db.query<any, never>(
-            'SELECT * FROM advanced_slot_symbol_weights WHERE id = 1'
-        ),
-        updateAdvancedWeights: db.query(
-            'UPDATE advanced_slot_symbol_weights SET weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, updated_at = ? WHERE id = 1'
-        ),
-
-        // 用户每日进入高级场记录
-        getTodayEntry: db.query<UserAdvancedEntry, [string, string]>(
-            'SELECT * FROM user_advanced_entries WHERE linux_do_id = ? AND entry_date = ?'
-        ),
-        updateTodayEntry: db.query(
-            `INSERT INTO user_advanced_entries (linux_do_id, entry_date, entry_count, last_entry_time)
-             VALUES (?, ?, 1, ?)
-             ON CONFLICT(linux_do_id, entry_date) DO UPDATE SET
-             entry_count = entry_count + 1,
-             last_entry_time = ?`
-        ),
-
-        // 用户每日入场券获得记录
-        getTodayGrant: db.query<UserDailyTicketGrant, [string, string]>(
-            'SELECT * FROM user_daily_ticket_grants WHERE linux_do_id = ? AND grant_date = ?'
-        ),
-        updateTodayTicketGrant: db.query(
-            `INSERT INTO user_daily_ticket_grants (linux_do_id, grant_date, ticket_granted, fragment_granted, last_grant_time)
-             VALUES (?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id, grant_date) DO UPDATE SET
-             ticket_granted = ticket_granted + ?,
-             fragment_granted = fragment_granted + ?,
-             last_grant_time = ?`
-        ),
-    };
-
-    // ========== 坤呗借款系统查询 ==========
-    kunbeiQueries = {
-        // 配置管理
-        getConfig: db.query<KunbeiConfig, never>(
-            'SELECT * FROM kunbei_config WHERE id = 1'
-        ),
-        updateConfig: db.query(
-            `UPDATE kunbei_config SET 
-             enabled = ?, max_loan_amount = ?, min_loan_amount = ?,
-             repay_multiplier = ?, loan_duration_hours = ?, early_repay_discount = ?,
-             overdue_penalty_hours = ?, overdue_ban_advanced = ?, max_active_loans = ?,
-             deduct_all_quota_on_overdue = ?, overdue_deduct_multiplier = ?, max_daily_borrows = ?, updated_at = ? WHERE id = 1`
-        ),
-
-        // 借款记录管理
-        getActiveLoan: db.query<UserLoan, string>(
-            'SELECT * FROM user_loans WHERE linux_do_id = ? AND status = "active" LIMIT 1'
-        ),
-        getLoanById: db.query<UserLoan, number>(
-            'SELECT * FROM user_loans WHERE id = ?'
-        ),
-        getUserLoans: db.query<UserLoan, string>(
-            'SELECT * FROM user_loans WHERE linux_do_id = ? ORDER BY created_at DESC LIMIT 20'
-        ),
-        getAllLoans: db.query<UserLoan, never>(
-            'SELECT * FROM user_loans ORDER BY created_at DESC LIMIT 200'
-        ),
-        getActiveLoans: db.query<UserLoan, never>(
-            'SELECT * FROM user_loans WHERE status = "active"'
-        ),
-        getOverdueLoans: db.query<UserLoan, never>(
-            'SELECT * FROM user_loans WHERE status = "overdue"'
-        ),
-        getTodayBorrowCount: db.query<{ count: number }, [string, string]>(
-            `SELECT COUNT(*) as count FROM user_loans 
-             WHERE linux_do_id = ? AND DATE(borrowed_at / 1000, 'unixepoch') = ?`
-        ),
-        insertLoan: db.query(
-            `INSERT INTO user_loans (linux_do_id, username, loan_amount, repay_amount, status, borrowed_at, due_at, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        ),
-        updateLoanStatus: db.query(
-            `UPDATE user_loans SET status = ?, actual_repay_amount = ?, repaid_at = ?, overdue_penalty_until = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        updateLoanOverdue: db.query(
-            `UPDATE user_loans SET status = ?, overdue_penalty_until = ?, auto_deducted_amount = ?, balance_after_deduct = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        clearOverduePenalty: db.query(
-            `UPDATE user_loans SET overdue_penalty_until = NULL, updated_at = ?
-             WHERE id = ?`
-        ),
-        deleteLoan: db.query(
-            'DELETE FROM user_loans WHERE id = ?'
-        ),
-
-        // 用户统计管理
-        getStats: db.query<UserKunbeiStats, string>(
-            'SELECT * FROM user_kunbei_stats WHERE linux_do_id = ?'
-        ),
-        upsertStats: db.query(
-            `INSERT INTO user_kunbei_stats (linux_do_id, total_borrowed, total_repaid, total_loans, repaid_loans, overdue_loans, credit_score, is_banned, last_borrow_date, has_daily_buff, buff_multiplier, buff_used, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             total_borrowed = total_borrowed + ?,
-             total_repaid = total_repaid + ?,
-             total_loans = total_loans + ?,
-             repaid_loans = repaid_loans + ?,
-             overdue_loans = overdue_loans + ?,
-             credit_score = ?,
-             last_borrow_date = ?,
-             has_daily_buff = ?,
-             buff_multiplier = ?,
-             buff_used = ?,
-             updated_at = ?`
-        ),
-        updateCreditScore: db.query(
-            `INSERT INTO user_kunbei_stats (linux_do_id, credit_score, updated_at)
-             VALUES (?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             credit_score = MAX(0, MIN(100, credit_score + ?)),
-             updated_at = ?`
-        ),
-
-        // Buff相关查询
-        checkBuff: db.query<UserKunbeiStats, string>(
-            'SELECT * FROM user_kunbei_stats WHERE linux_do_id = ? AND has_daily_buff = 1 AND buff_used = 0'
-        ),
-        useBuff: db.query(
-            'UPDATE user_kunbei_stats SET buff_used = 1, updated_at = ? WHERE linux_do_id = ?'
-        ),
-
-        // 梯度配置相关查询
-        getGradientConfigs: db.query<KunbeiGradientConfig, never>(
-            'SELECT * FROM kunbei_gradient_configs WHERE is_active = 1 ORDER BY quota_threshold ASC'
-        ),
-        getGradientConfigById: db.query<KunbeiGradientConfig, number>(
-            'SELECT * FROM kunbei_gradient_configs WHERE id = ?'
-        ),
-        getAllGradientConfigs: db.query<KunbeiGradientConfig, never>(
-            'SELECT * FROM kunbei_gradient_configs ORDER BY quota_threshold ASC'
-        ),
-        insertGradientConfig: db.query(
-            `INSERT INTO kunbei_gradient_configs (quota_threshold, max_loan_amount, priority, is_active, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?)`
-        ),
-        updateGradientConfig: db.query(
-            `UPDATE kunbei_gradient_configs 
-             SET quota_threshold = ?, max_loan_amount = ?, priority = ?, is_active = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        deleteGradientConfig: db.query(
-            'DELETE FROM kunbei_gradient_configs WHERE id = ?'
-        ),
-    };
-
-    // ========== 权重配置方案查询 ==========
-    weightConfigQueries = {
-        getAll: db.query<any, never>(
-            'SELECT * FROM symbol_weight_configs WHERE is_deleted = 0 ORDER BY id ASC'
-        ),
-        getById: db.query<any, number>(
-            'SELECT * FROM symbol_weight_configs WHERE id = ?'
-        ),
-        getUsageInfo: db.query<any, number>(`
-            SELECT 
-                (SELECT COUNT(*) FROM slot_machine_config WHERE weight_config_id = ?) +
-                (SELECT COUNT(*) FROM advanced_slot_config WHERE weight_config_id = ?) +
-                (SELECT COUNT(*) FROM supreme_slot_config WHERE weight_config_id = ?) as usage_count
-        `),
-        insert: db.query(
-            `INSERT INTO symbol_weight_configs (config_name, weight_m, weight_t, weight_n, weight_j, weight_lq, weight_bj, weight_zft, weight_bdk, weight_lsh, weight_man, description, is_deleted, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`
-        ),
-        update: db.query(
-            `UPDATE symbol_weight_configs SET
-             config_name = ?, weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, weight_man = ?, description = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        softDelete: db.query(
-            'UPDATE symbol_weight_configs SET is_deleted = 1, updated_at = ? WHERE id = ?'
-        ),
-    };
-
-    // ========== 奖励配置方案查询 ==========
-    rewardConfigQueries = {
-        // 方案管理
-        getAllSchemes: db.query<any, never>(
-            'SELECT * FROM reward_config_schemes WHERE is_deleted = 0 ORDER BY id ASC'
-        ),
-        getSchemeById: db.query<any, number>(
-            'SELECT * FROM reward_config_schemes WHERE id = ?'
-        ),
-        getSchemeUsageInfo: db.query<any, number>(`
-            SELECT 
-                (SELECT COUNT(*) FROM slot_machine_config WHERE reward_scheme_id = ?) +
-                (SELECT COUNT(*) FROM advanced_slot_config WHERE reward_scheme_id = ?) +
-                (SELECT COUNT(*) FROM supreme_slot_config WHERE reward_scheme_id = ?) as usage_count
-        `),
-        insertScheme: db.query(
-            `INSERT INTO reward_config_schemes (scheme_name, description, is_deleted, created_at, updated_at)
-             VALUES (?, ?, 0, ?, ?)`
-        ),
-        updateScheme: db.query(
-            `UPDATE reward_config_schemes SET scheme_name = ?, description = ?, updated_at = ? WHERE id = ?`
-        ),
-        softDeleteScheme: db.query(
-            'UPDATE reward_config_schemes SET is_deleted = 1, updated_at = ? WHERE id = ?'
-        ),
-
-        // 规则管理
-        getRulesByScheme: db.query<any, number>(
-            'SELECT * FROM reward_rules WHERE scheme_id = ? ORDER BY priority DESC'
-        ),
-        getRuleById: db.query<any, number>(
-            'SELECT * FROM reward_rules WHERE id = ?'
-        ),
-        insertRule: db.query(
-            `INSERT INTO reward_rules (scheme_id, rule_name, rule_type, rule_category, match_pattern, match_count, required_symbols, win_multiplier, grant_free_spin, priority, is_active, description, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        ),
-        updateRule: db.query(
-            `UPDATE reward_rules SET 
-             rule_name = ?, rule_type = ?, rule_category = ?, match_pattern = ?, match_count = ?, required_symbols = ?, win_multiplier = ?, grant_free_spin = ?, priority = ?, is_active = ?, description = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        deleteRule: db.query(
-            'DELETE FROM reward_rules WHERE id = ?'
-        ),
-
-        // 律师函惩罚配置
-        getPunishmentsByScheme: db.query<any, number>(
-            'SELECT * FROM punishment_lsh_configs WHERE scheme_id = ? ORDER BY lsh_count ASC'
-        ),
-        upsertPunishment: db.query(
-            `INSERT INTO punishment_lsh_configs (scheme_id, lsh_count, deduct_multiplier, ban_hours, is_active, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(scheme_id, lsh_count) DO UPDATE SET
-             deduct_multiplier = ?, ban_hours = ?, is_active = ?, updated_at = ?`
-        ),
-    };
-
-    // ========== 至尊场查询 ==========
-    supremeSlotQueries = {
-        // 令牌管理
-        getTokens: db.query<any, string>(
-            'SELECT * FROM supreme_user_tokens WHERE linux_do_id = ?'
-        ),
-        upsertTokens: db.query(
-            `INSERT INTO supreme_user_tokens (linux_do_id, tokens, fragments, tokens_expires_at, supreme_mode_until, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id) DO UPDATE SET
-             tokens = excluded.tokens, fragments = excluded.fragments, tokens_expires_at = excluded.tokens_expires_at, supreme_mode_until = excluded.supreme_mode_until, updated_at = excluded.updated_at`
-        ),
-        useToken: db.query(
-            `UPDATE supreme_user_tokens SET tokens = tokens - 1, supreme_mode_until = ?, updated_at = ? WHERE linux_do_id = ? AND tokens > 0`
-        ),
-        exitSupremeMode: db.query(
-            `UPDATE supreme_user_tokens SET supreme_mode_until = NULL, updated_at = ? WHERE linux_do_id = ?`
-        ),
-
-        // 至尊场配置
-        getConfig: db.query<any, never>(
-            'SELECT * FROM supreme_slot_config WHERE id = 1'
-        ),
-        updateConfig: db.query(
-            `UPDATE supreme_slot_config SET enabled = ?, fragments_to_token = ?, max_tokens_hold = ?, token_valid_hours = ?, session_valid_hours = ?, min_bet_amount = ?, max_bet_amount = ?, bet_step = ?, daily_entry_limit = ?, daily_token_grant_limit = ?, daily_bet_limit = ?, weight_config_id = ?, reward_scheme_id = ?, updated_at = ? WHERE id = 1`
-        ),
-
-        // 游戏记录
-        insertRecord: db.query(
-            'INSERT INTO supreme_slot_records (linux_do_id, username, linux_do_username, bet_amount, result_symbols, win_type, win_multiplier, win_amount, rule_name, timestamp, date, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getRecordsByUser: db.query<any, string>(
-            'SELECT * FROM supreme_slot_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
-        ),
-        getAllRecords: db.query<any, never>(
-            'SELECT * FROM supreme_slot_records ORDER BY timestamp DESC LIMIT 200'
-        ),
-        // 🚀 优化：至尊场记录分页
-        getAllRecordsPaginated: db.query<any, [number, number]>(
-            'SELECT * FROM supreme_slot_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
-        ),
-        // 🚀 优化：按用户筛选至尊场记录
-        getRecordsByUserPaginated: db.query<any, [string, string, string, number, number]>(`
-            SELECT * FROM supreme_slot_records
-            WHERE linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?
-            ORDER BY timestamp DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 🚀 优化：至尊场记录总数
-        countRecords: db.query<{ count: number }, never>(
-            'SELECT COUNT(*) as count FROM supreme_slot_records'
-        ),
-        // 🚀 优化：按用户筛选至尊场记录总数
-        countRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
-            SELECT COUNT(*) as count FROM supreme_slot_records
-            WHERE linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?
-        `),
-
-        // 掉落记录
-        insertDropRecord: db.query(
-            'INSERT INTO supreme_token_drop_records (linux_do_id, username, drop_type, drop_count, source, trigger_win_type, timestamp, date, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-        ),
-        getAllDropRecords: db.query<any, never>(
-            'SELECT * FROM supreme_token_drop_records ORDER BY timestamp DESC LIMIT 200'
-        ),
-
-        // 每日进入记录
-        getTodayEntry: db.query<any, [string, string]>(
-            'SELECT * FROM supreme_daily_entries WHERE linux_do_id = ? AND entry_date = ?'
-        ),
-        updateTodayEntry: db.query(
-            `INSERT INTO supreme_daily_entries (linux_do_id, entry_date, entry_count, last_entry_time)
-             VALUES (?, ?, 1, ?)
-             ON CONFLICT(linux_do_id, entry_date) DO UPDATE SET entry_count = entry_count + 1, last_entry_time = ?`
-        ),
-
-        // 每日令牌获得记录
-        getTodayGrant: db.query<any, [string, string]>(
-            'SELECT * FROM supreme_daily_token_grants WHERE linux_do_id = ? AND grant_date = ?'
-        ),
-        updateTodayGrant: db.query(
-            `INSERT INTO supreme_daily_token_grants (linux_do_id, grant_date, tokens_granted, fragments_granted, last_grant_time)
-             VALUES (?, ?, ?, ?, ?)
-             ON CONFLICT(linux_do_id, grant_date) DO UPDATE SET tokens_granted = tokens_granted + ?, fragments_granted = fragments_granted + ?, last_grant_time = ?`
-        ),
-    };
-
     // ========== 掉落配置查询 ==========
-    dropConfigQueries = {
-        getAll: db.query<any, never>(
-            'SELECT * FROM drop_configs ORDER BY slot_mode, priority DESC, id ASC'
-        ),
-        getByMode: db.query<any, string>(
-            'SELECT * FROM drop_configs WHERE slot_mode = ? AND is_active = 1 ORDER BY priority DESC'
-        ),
-        getByModeAndRule: db.query<any, [string, string]>(
-            'SELECT * FROM drop_configs WHERE slot_mode = ? AND trigger_rule_name = ? AND is_active = 1 ORDER BY priority DESC'
-        ),
-        getByModeAndType: db.query<any, [string, string]>(
-            'SELECT * FROM drop_configs WHERE slot_mode = ? AND drop_item_type = ? AND is_active = 1 ORDER BY priority DESC'
-        ),
-        getById: db.query<any, number>(
-            'SELECT * FROM drop_configs WHERE id = ?'
-        ),
-        insert: db.query(
-            `INSERT INTO drop_configs (slot_mode, trigger_rule_name, drop_item_type, drop_probability, drop_count, is_active, priority, description, created_at, updated_at)
-             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
-        ),
-        update: db.query(
-            `UPDATE drop_configs SET 
-             slot_mode = ?, trigger_rule_name = ?, drop_item_type = ?, drop_probability = ?, drop_count = ?, is_active = ?, priority = ?, description = ?, updated_at = ?
-             WHERE id = ?`
-        ),
-        delete: db.query(
-            'DELETE FROM drop_configs WHERE id = ?'
-        ),
-    };
+    dropConfigQueries = createDropConfigQueries(db);
 
     // ========== 成就系统查询 ==========
     // 🛡️ 速率限制封禁记录查询
-    rateLimitBanQueries = {
-        // 插入封禁记录
-        insert: db.query(`
-            INSERT INTO rate_limit_bans (
-                linux_do_id, username, ban_type, trigger_count, ban_reason,
-                banned_at, banned_until, is_active, created_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?)
-        `),
-        // 获取用户当前活跃的封禁记录
-        getActiveBan: db.query<any, string>(`
-            SELECT * FROM rate_limit_bans
-            WHERE linux_do_id = ? AND is_active = 1 AND banned_until > ?
-            ORDER BY banned_until DESC LIMIT 1
-        `),
-        // 获取所有封禁记录（分页）
-        getAllPaginated: db.query<any, [number, number]>(`
-            SELECT * FROM rate_limit_bans
-            ORDER BY created_at DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 获取总记录数
-        getCount: db.query<{ total: number }, never>(`
-            SELECT COUNT(*) as total FROM rate_limit_bans
-        `),
-        // 按用户搜索
-        searchByUser: db.query<any, [string, number, number]>(`
-            SELECT * FROM rate_limit_bans
-            WHERE username LIKE ? OR linux_do_id LIKE ?
-            ORDER BY created_at DESC
-            LIMIT ? OFFSET ?
-        `),
-        // 手动解封
-        unban: db.query(`
-            UPDATE rate_limit_bans
-            SET is_active = 0, unbanned_at = ?, unbanned_by = ?, unban_reason = ?
-            WHERE id = ?
-        `),
-        // 获取统计信息
-        getStats: db.query<any, never>(`
-            SELECT
-                COUNT(*) as total_bans,
-                SUM(CASE WHEN is_active = 1 THEN 1 ELSE 0 END) as active_bans,
-                COUNT(DISTINCT linux_do_id) as unique_users
-            FROM rate_limit_bans
-        `)
-    };
-
-    achievementQueries = {
-        // 成就定义
-        getAll: db.query<Achievement, never>('SELECT * FROM achievements WHERE is_active = 1 ORDER BY display_order ASC, id ASC'),
-        getByKey: db.query<Achievement, string>('SELECT * FROM achievements WHERE achievement_key = ? AND is_active = 1'),
-        getByCategory: db.query<Achievement, string>('SELECT * FROM achievements WHERE category = ? AND is_active = 1 ORDER BY display_order ASC'),
-        insert: db.query(`
-            INSERT INTO achievements (
-                achievement_key, achievement_name, achievement_desc, category, icon,
-                condition_type, condition_value, reward_quota, rarity, display_order,
-                is_hidden, is_active, created_at, updated_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-        `),
-        update: db.query(`
-            UPDATE achievements SET
-                achievement_name = ?, achievement_desc = ?, category = ?, icon = ?,
-                condition_type = ?, condition_value = ?, reward_quota = ?, rarity = ?,
-                display_order = ?, is_hidden = ?, is_active = ?, updated_at = ?
-            WHERE achievement_key = ?
-        `),
-        delete: db.query('DELETE FROM achievements WHERE achievement_key = ?'),
-
-        // 用户成就
-        getUserAchievement: db.query<UserAchievement, [string, string]>(
-            'SELECT * FROM user_achievements WHERE linux_do_id = ? AND achievement_key = ?'
-        ),
-        getUserAchievements: db.query<UserAchievement, string>(
-            'SELECT * FROM user_achievements WHERE linux_do_id = ? ORDER BY unlocked_at DESC'
-        ),
-        insertUserAchievement: db.query(`
-            INSERT OR IGNORE INTO user_achievements (
-                linux_do_id, achievement_key, unlocked_at, reward_claimed, progress
-            ) VALUES (?, ?, ?, 0, ?)
-        `),
-        claimReward: db.query(`
-            UPDATE user_achievements SET reward_claimed = 1, claimed_at = ?
-            WHERE linux_do_id = ? AND achievement_key = ?
-        `),
-        getUnclaimedRewards: db.query<UserAchievement, string>(
-            'SELECT * FROM user_achievements WHERE linux_do_id = ? AND reward_claimed = 0'
-        ),
-
-        // 成就进度
-        getProgress: db.query<AchievementProgress, [string, string]>(
-            'SELECT * FROM achievement_progress WHERE linux_do_id = ? AND achievement_key = ?'
-        ),
-        getUserProgress: db.query<AchievementProgress, string>(
-            'SELECT * FROM achievement_progress WHERE linux_do_id = ?'
-        ),
-        updateProgress: db.query(`
-            INSERT INTO achievement_progress (linux_do_id, achievement_key, current_value, target_value, last_updated)
-            VALUES (?, ?, ?, ?, ?)
-            ON CONFLICT(linux_do_id, achievement_key) DO UPDATE SET
-                current_value = excluded.current_value,
-                last_updated = excluded.last_updated
-        `),
-        deleteProgress: db.query('DELETE FROM achievement_progress WHERE linux_do_id = ? AND achievement_key = ?'),
-
-        // 用户成就统计
-        getStats: db.query<UserAchievementStats, string>(
-            'SELECT * FROM user_achievement_stats WHERE linux_do_id = ?'
-        ),
-        updateStats: db.query(`
-            INSERT INTO user_achievement_stats (
-                linux_do_id, total_achievements, unlocked_achievements, completion_rate,
-                total_rewards, claimed_rewards, updated_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?)
-            ON CONFLICT(linux_do_id) DO UPDATE SET
-                total_achievements = excluded.total_achievements,
-                unlocked_achievements = excluded.unlocked_achievements,
-                completion_rate = excluded.completion_rate,
-                total_rewards = excluded.total_rewards,
-                claimed_rewards = excluded.claimed_rewards,
-                updated_at = excluded.updated_at
-        `),
-        updateBadges: db.query(`
-            UPDATE user_achievement_stats SET
-                badge_slot_1 = ?, badge_slot_2 = ?, badge_slot_3 = ?, updated_at = ?
-            WHERE linux_do_id = ?
-        `),
-        getLeaderboard: db.query<UserAchievementStats & { username: string, linux_do_username: string }, number>(`
-            SELECT s.*, u.username, u.linux_do_username
-            FROM user_achievement_stats s
-            JOIN users u ON s.linux_do_id = u.linux_do_id
-            ORDER BY s.unlocked_achievements DESC, s.claimed_rewards DESC
-            LIMIT ?
-        `),
-
-        // 成就统计 - 获取每个成就的达成人数
-        getAchievementStats: db.query<{ achievement_key: string, unlock_count: number }, never>(`
-            SELECT achievement_key, COUNT(*) as unlock_count
-            FROM user_achievements
-            GROUP BY achievement_key
-        `),
-
-        // 获取总用户数（用于计算达成率）
-        getTotalUsers: db.query<{ total: number }, never>(`
-            SELECT COUNT(DISTINCT linux_do_id) as total FROM users
-        `),
-
-        // 获取单个成就的达成人数
-        getAchievementUnlockCount: db.query<{ unlock_count: number }, string>(`
-            SELECT COUNT(*) as unlock_count
-            FROM user_achievements
-            WHERE achievement_key = ?
-        `),
-
-        // 符号收集追踪
-        getSymbolCollection: db.query<any, string>(`SELECT * FROM user_symbol_collection WHERE linux_do_id = ?`),
-        recordSymbol: db.query(`
-            INSERT INTO user_symbol_collection (
-                linux_do_id, symbol_m, symbol_t, symbol_n, symbol_j,
-                symbol_lq, symbol_bj, symbol_zft, symbol_bdk, symbol_lsh, updated_at
-            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
-            ON CONFLICT(linux_do_id) DO UPDATE SET
-                symbol_m = MAX(symbol_m, excluded.symbol_m),
-                symbol_t = MAX(symbol_t, excluded.symbol_t),
-                symbol_n = MAX(symbol_n, excluded.symbol_n),
-                symbol_j = MAX(symbol_j, excluded.symbol_j),
-                symbol_lq = MAX(symbol_lq, excluded.symbol_lq),
-                symbol_bj = MAX(symbol_bj, excluded.symbol_bj),
-                symbol_zft = MAX(symbol_zft, excluded.symbol_zft),
-                symbol_bdk = MAX(symbol_bdk, excluded.symbol_bdk),
-                symbol_lsh = MAX(symbol_lsh, excluded.symbol_lsh),
-                updated_at = excluded.updated_at
-        `),
-
-        // 盈利追踪
-        getProfitTracking: db.query<any, string>(`SELECT * FROM user_profit_tracking WHERE linux_do_id = ?`),
-        updateProfitTracking: db.query(`
-            INSERT INTO user_profit_tracking (linux_do_id, lowest_profit, highest_profit, last_profit, updated_at)
-            VALUES (?, ?, ?, ?, ?)
-            ON CONFLICT(linux_do_id) DO UPDATE SET
-                lowest_profit = MIN(lowest_profit, excluded.lowest_profit),
-                highest_profit = MAX(highest_profit, excluded.highest_profit),
-                last_profit = excluded.last_profit,
-                updated_at = excluded.updated_at
-        `),
-    };
-
-    // 🔥 统一的定时清理任务（每6小时执行一次，减少频率）
-    setInterval(() => {
-        try {
-            const now = Date.now();
-            sessionQueries.cleanup.run(now);
-            logger.info('定时任务', '🧹 已执行过期 Session 清理');
-        } catch (error: any) {
-            logger.error('定时任务', `❌ Session 清理失败: ${error.message}`);
-        }
-    }, 21600000);  // 每6小时（从1小时延长，减少日志频率）
+    rateLimitBanQueries = createRateLimitBanQueries(db);
+
+    idempotencyQueries = createIdempotencyQueries(db);
+    fairSeedQueries = createFairSeedQueries(db);
+    walletTransferQueries = createWalletTransferQueries(db);
+    ledgerQueries = createLedgerQueries(db);
+    achievementQueries = createAchievementQueries(db);
+    schedulerQueries = createSchedulerQueries(db);
+    quotaMutationQueries = createQuotaMutationQueries(db);
+    upstreamQueries = createUpstreamQueries(db);
+    rtpControllerQueries = createRtpControllerQueries(db);
+    configVersionQueries = createConfigVersionQueries(db);
+    timedEventQueries = createTimedEventQueries(db);
+    walletGiftQueries = createWalletGiftQueries(db);
 
     console.log('✅ 数据库查询语句已预编译（含高级场、至尊场、配置方案和掉落系统）');
 }
-
-/**
- * 修复奖励规则中错误的 required_symbols 数据
- * 这个函数在数据库初始化时自动执行，清理格式错误的JSON数据
- */
-function fixRewardRulesData(): void {
-    try {
-        console.log('🔧 [数据修复] 开始检查并修复 reward_rules 数据...');
-
-        // 统计修复前的问题数据
-        const countBefore = db.query<{ count: number }, never>(`
-            SELECT COUNT(*) as count FROM reward_rules
-            WHERE required_symbols IS NOT NULL
-              AND (
-                required_symbols = ''
-                OR required_symbols = '[]'
-                OR required_symbols IN ('null', 'undefined', 'NULL', 'UNDEFINED')
-                OR TRIM(required_symbols) = ''
-              )
-        `).get();
-
-        if (countBefore && countBefore.count > 0) {
-            console.log(`📊 [数据修复] 发现 ${countBefore.count} 条需要修复的规则`);
-
-            // 1. 修复空字符串
-            db.exec(`UPDATE reward_rules SET required_symbols = NULL WHERE required_symbols = ''`);
-
-            // 2. 修复空数组
-            db.exec(`UPDATE reward_rules SET required_symbols = NULL WHERE required_symbols = '[]'`);
-
-            // 3. 修复 'null' 或 'undefined' 字符串
-            db.exec(`UPDATE reward_rules SET required_symbols = NULL WHERE required_symbols IN ('null', 'undefined', 'NULL', 'UNDEFINED')`);
-
-            // 4. 修复只包含空格的字符串
-            db.exec(`UPDATE reward_rules SET required_symbols = NULL WHERE TRIM(required_symbols) = ''`);
-
-            console.log(`✅ [数据修复] 已修复 ${countBefore.count} 条规则的 required_symbols 字段`);
-        } else {
-            console.log('✅ [数据修复] reward_rules 数据完整，无需修复');
-        }
-
-        // 统计修复后的数据情况
-        const statsAfter = db.query<{ null_count: number, valid_count: number }, never>(`
-            SELECT
-                SUM(CASE WHEN required_symbols IS NULL THEN 1 ELSE 0 END) as null_count,
-                SUM(CASE WHEN required_symbols IS NOT NULL THEN 1 ELSE 0 END) as valid_count
-            FROM reward_rules
-        `).get();
-
-        if (statsAfter) {
-            console.log(`📊 [数据修复] 统计: NULL=${statsAfter.null_count}, 有效JSON=${statsAfter.valid_count}`);
-        }
-
-        // 🔥 智能修复Man专用规则的required_symbols字段
-        console.log('🔧 [数据修复] 智能检测并修复Man专用规则...');
-
-        const now = Date.now();
-
-        // 方式1：基于规则名称模糊匹配（匹配所有可能的命名方式）
-        const manKeywords = ['man', 'kun', 'Man', 'Kun', 'MAN', 'KUN', '男人'];
-        const patterns = [
-            { name: ['二连', '2连', '两连'], pattern: '2-consecutive', count: 2 },
-            { name: ['三连', '3连'], pattern: '3-consecutive', count: 3 },
-            { name: ['四连', '4连'], pattern: '4-consecutive', count: 4 }
-        ];
-
-        let fixedCount = 0;
-
-        patterns.forEach(p => {
-            // 构建匹配条件
-            const nameConditions = manKeywords.flatMap(kw =>
-                p.name.map(n => `rule_name LIKE '%${kw}${n}%'`)
-            ).join(' OR ');
-
-            const sql = `
-                UPDATE reward_rules 
-                SET required_symbols = '["man"]', updated_at = ${now}
-                WHERE (${nameConditions})
-                AND match_pattern = '${p.pattern}'
-                AND (required_symbols IS NULL OR required_symbols = '' OR required_symbols = '[]' 
-                     OR required_symbols = 'null' OR required_symbols = 'undefined')
-            `;
-
-            db.exec(sql);
-
-            // 统计修复数量
-            const result = db.query<{ changes: number }, never>('SELECT changes() as changes').get();
-            if (result && result.changes > 0) {
-                console.log(`  ✅ 修复了 ${result.changes} 条 ${p.pattern} 的Man规则`);
-                fixedCount += result.changes;
-            }
-        });
-
-        console.log(`✅ [数据修复] Man专用规则修复完成，共修复 ${fixedCount} 条规则`);
-
-    } catch (error: any) {
-        console.error('❌ [数据修复] 修复 reward_rules 数据时出错:', error);
-        // 不抛出错误，避免影响系统启动
-    }
-}
-
-/**
- * 修复成就描述 - 将 quota 单位改为 $
- */
-function fixAchievementDescriptions(): void {
-    try {
-        console.log('🔧 [成就修复] 开始更新成就描述单位...');
-
-        const updates = [
-            { key: 'earn_10k', oldDesc: '累计获得10,000 quota', newDesc: '累计盈利$2,000' },
-            { key: 'earn_100k', oldDesc: '累计获得100,000 quota', newDesc: '累计盈利$20,000' },
-            { key: 'earn_1m', oldDesc: '累计获得1,000,000 quota', newDesc: '累计盈利$2,000,000' },
-            { key: 'balance_50k', oldDesc: '账户余额达到50,000', newDesc: '账户余额达到$10,000,000' },
-            { key: 'single_win_5k', oldDesc: '单次中奖超过5,000 quota', newDesc: '单次中奖超过$100,000' }
-        ];
-
-        let updatedCount = 0;
-        const now = Date.now();
-
-        for (const update of updates) {
-            // 只更新旧描述的成就
-            const result = db.query<{ changes: number }, never>(`
-                UPDATE achievements
-                SET achievement_desc = ?, updated_at = ?
-                WHERE achievement_key = ? AND achievement_desc = ?
-            `, [update.newDesc, now, update.key, update.oldDesc]).run();
-
-            if (result && result.changes > 0) {
-                console.log(`  ✅ ${update.key}: ${update.oldDesc} → ${update.newDesc}`);
-                updatedCount++;
-            }
-        }
-
-        if (updatedCount > 0) {
-            console.log(`✅ [成就修复] 成功更新 ${updatedCount} 个成就描述`);
-        } else {
-            console.log('✅ [成就修复] 成就描述已是最新，无需更新');
-        }
-
-    } catch (error: any) {
-        console.error('❌ [成就修复] 更新成就描述时出错:', error);
-        // 不抛出错误，避免影响系统启动
-    }
-}
@@ -3,8 +3,11 @@ import { cors } from 'hono/cors';
 import { CONFIG, validateConfig } from './config';
 import { initDatabase, db } from './database';
 import { cacheManager } from './cache';
-import { startRewardProcessor } from './services/reward-processor';
-import { startRankAchievementChecker } from './services/rank-achievement-checker';
+import { backfillOpeningBalances } from './services/ledger';
+import { reconcileWalletTransfers } from './services/wallet-transfer';
+import { resumeQuotaQueue } from './services/quota-queue';
+import { registerScheduledJobs } from './services/scheduled-jobs';
+import { startScheduler, stopScheduler } from './services/scheduler';
 
 // 验证配置
 validateConfig();
@@ -12,6 +15,9 @@ validateConfig();
 // 初始化数据库
 initDatabase();
 
+// 补录记账前已存在的钱包期初余额
+backfillOpeningBalances();
+
 // 🔥 预热概率缓存（避免重启后缓存丢失）
 (async () => {
     try {
@@ -22,46 +28,15 @@ initDatabase();
     }
 })();
 
-// 启动奖金自动发放服务
-startRewardProcessor();
+// 启动时处理所有遗留划转（上一个进程中断的）
+reconcileWalletTransfers(0);
 
-// 启动排行榜成就检查服务
-startRankAchievementChecker();
+// 启动时续做遗留的上游额度变动（核对中断的写入、补发未完成的增加额度）
+resumeQuotaQueue();
 
-// 启动排行榜数据清理服务
-(async () => {
-    const { cleanOldDailyStats, cleanOldWeeklyStats } = await import('./services/slot');
-    
-    // 立即执行一次清理
-    try {
-        cleanOldDailyStats();
-        cleanOldWeeklyStats();
-    } catch (error) {
-        console.error('⚠️ 排行榜数据清理失败:', error);
-    }
-    
-    // 每天凌晨3点执行清理（使用北京时间）
-    setInterval(() => {
-        const now = new Date();
-        const utcTime = now.getTime() + now.getTimezoneOffset() * 60000;
-        const beijingTime = new Date(utcTime + 8 * 3600000);
-        const hour = beijingTime.getHours();
-        const minute = beijingTime.getMinutes();
-        
-        // 在凌晨3点到3点5分之间执行（避免多次执行）
-        if (hour === 3 && minute < 5) {
-            try {
-                cleanOldDailyStats();
-                cleanOldWeeklyStats();
-                console.log('✅ 排行榜过期数据清理完成');
-            } catch (error) {
-                console.error('❌ 排行榜数据清理失败:', error);
-            }
-        }
-    }, 5 * 60 * 1000); // 每5分钟检查一次
-    
-    console.log('✅ 排行榜数据清理服务已启动（每天凌晨3点执行）');
-})();
+// 启动定时任务调度器（奖金发放、划转对账、排行榜成就/清理、逾期检查、备份等）
+registerScheduledJobs();
+startScheduler();
 
 // 创建应用
 const app = new Hono();
@@ -75,6 +50,7 @@ import kunbeiRoutes from './routes/kunbei';
 import supremeRoutes from './routes/supreme';
 import achievementRoutes from './routes/achievement';
 import walletRoutes from './routes/wallet';
+import eventRoutes from './routes/events';
 
 // 中间件
 app.use('*', cors());
@@ -88,6 +64,7 @@ app.route('/api/kunbei', kunbeiRoutes);
 app.route('/api/supreme', supremeRoutes);
 app.route('/api/achievement', achievementRoutes);
 app.route('/api/wallet', walletRoutes);
+app.route('/api/events', eventRoutes);
 
 // 静态文件服务（老虎机符号图片）
 app.get('/slot-symbols/:filename', async (c) => {
@@ -182,6 +159,7 @@ app.onError((err, c) => {
 // 优雅关闭
 process.on('SIGTERM', async () => {
     console.log('📴 SIGTERM received, shutting down gracefully...');
+    stopScheduler();
     cacheManager.shutdown();
     db.close();
     process.exit(0);
@@ -189,6 +167,7 @@ process.on('SIGTERM', async () => {
 
 process.on('SIGINT', async () => {
     console.log('📴 SIGINT received, shutting down gracefully...');
+    stopScheduler();
     cacheManager.shutdown();
     db.close();
     process.exit(0);
@@ -0,0 +1,174 @@
+/**
+ * 幂等键中间件
+ * 客户端通过 Idempotency-Key 请求头标识一次操作，重复点击/重试时回放首次响应，避免重复执行
+ *
+ * - 首次请求：抢占键（processing），执行后保存响应（completed）
+ * - 重复请求（首次已完成）：直接回放保存的响应
+ * - 重复请求（首次仍在执行）：等待首次完成后回放
+ * - 同一键用于不同请求：返回 422
+ */
+
+import type { Context, MiddlewareHandler, Next } from 'hono';
+import type { IdempotencyKey, SessionData } from '../types';
+import { CONFIG } from '../config';
+import { idempotencyQueries } from '../database';
+import logger from '../utils/logger';
+
+const HEADER_NAME = 'Idempotency-Key';
+const MAX_KEY_LENGTH = 255;
+const WAIT_TIMEOUT = 30000;  // 等待首次请求完成的最长时间
+const POLL_INTERVAL = 200;
+const STALE_PROCESSING_MS = 2 * 60 * 1000;  // processing 超过该时长视为原请求已中断
+
+// 本进程内执行中的请求 - 用户ID:键 -> 完成信号
+const inFlight = new Map<string, Promise<void>>();
+
+/**
+ * 计算请求指纹（方法 + 路径 + 请求体）
+ */
+function fingerprint(method: string, path: string, body: string): string {
+    const hasher = new Bun.CryptoHasher('sha256');
+    hasher.update(`${method}\n${path}\n${body}`);
+    return hasher.digest('hex');
+}
+
+/**
+ * 回放已保存的响应
+ */
+function replay(record: IdempotencyKey): Response {
+    return new Response(record.response_body ?? '', {
+        status: record.response_status || 200,
+        headers: {
+            'Content-Type': record.response_content_type || 'application/json',
+            'Idempotent-Replayed': 'true',
+        },
+    });
+}
+
+/**
+ * 等待首次请求完成
+ */
+async function waitForCompletion(linuxDoId: string, key: string): Promise<IdempotencyKey | null> {
+    const signal = inFlight.get(`${linuxDoId}:${key}`);
+    if (signal) {
+        await Promise.race([signal, new Promise(resolve => setTimeout(resolve, WAIT_TIMEOUT))]);
+        return idempotencyQueries.get.get(linuxDoId, key);
+    }
+
+    const deadline = Date.now() + WAIT_TIMEOUT;
+    while (Date.now() < deadline) {
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL));
+        const record = idempotencyQueries.get.get(linuxDoId, key);
+        if (!record || record.status === 'completed') return record;
+    }
+    return idempotencyQueries.get.get(linuxDoId, key);
+}
+
+/**
+ * 创建幂等中间件（需放在 requireAuth 之后）
+ * @param operation 操作名称，同一键不能跨操作使用
+ * @param windowSeconds 键保存时长，默认使用 CONFIG.IDEMPOTENCY_WINDOW_SECONDS
+ */
+export function createIdempotency(operation: string, windowSeconds: number = CONFIG.IDEMPOTENCY_WINDOW_SECONDS): MiddlewareHandler {
+    return async (c: Context, next: Next) => {
+        const key = c.req.header(HEADER_NAME);
+        const session = c.get('session') as SessionData | undefined;
+
+        // 未携带幂等键或未登录，按原流程处理
+        if (!key || !session?.linux_do_id) {
+            return next();
+        }
+
+        if (key.length > MAX_KEY_LENGTH) {
+            return c.json({ success: false, message: `${HEADER_NAME} 长度不能超过 ${MAX_KEY_LENGTH}` }, 400);
+        }
+
+        const linuxDoId = session.linux_do_id;
+        const body = await c.req.text().catch(() => '');
+        const requestHash = fingerprint(c.req.method, c.req.path, body);
+        const now = Date.now();
+
+        let claimed = idempotencyQueries.tryInsert.run(linuxDoId, key, operation, requestHash, now, now + windowSeconds * 1000).changes > 0;
+
+        if (!claimed) {
+            let record = idempotencyQueries.get.get(linuxDoId, key);
+
+            // 已过期的键可重新使用
+            if (record && record.expires_at < now) {
+                idempotencyQueries.delete.run(linuxDoId, key);
+                claimed = idempotencyQueries.tryInsert.run(linuxDoId, key, operation, requestHash, now, now + windowSeconds * 1000).changes > 0;
+                record = claimed ? null : idempotencyQueries.get.get(linuxDoId, key);
+            }
+
+            if (!claimed) {
+                if (!record) {
+                    return c.json({ success: false, message: '请求冲突，请重试' }, 409);
+                }
+
+                if (record.operation !== operation || record.request_hash !== requestHash) {
+                    logger.warn('幂等键', `用户 ${linuxDoId} 复用幂等键 [${key}] 于不同请求 (${record.operation} → ${operation})`);
+                    return c.json({ success: false, message: `${HEADER_NAME} 已用于其他请求` }, 422);
+                }
+
+                if (record.status === 'processing') {
+                    if (!inFlight.has(`${linuxDoId}:${key}`) && now - record.created_at > STALE_PROCESSING_MS) {
+                        return c.json({ success: false, message: '原请求处理状态未知，请刷新后重新发起' }, 409);
+                    }
+                    logger.info('幂等键', `用户 ${linuxDoId} 重复请求 [${operation}]，等待首次请求完成`);
+                    record = await waitForCompletion(linuxDoId, key);
+                }
+
+                if (record && record.status === 'completed') {
+                    logger.info('幂等键', `🔁 回放响应 - 用户: ${linuxDoId}, 操作: ${operation}, 状态码: ${record.response_status}`);
+                    return replay(record);
+                }
+
+                return c.json({ success: false, message: '请求正在处理中，请稍后再试' }, 409);
+            }
+        }
+
+        // 首次请求：执行并保存响应
+        let release: () => void = () => {};
+        const signal = new Promise<void>(resolve => { release = resolve; });
+        const flightKey = `${linuxDoId}:${key}`;
+        inFlight.set(flightKey, signal);
+
+        try {
+            await next();
+
+            const res = c.res;
+            // 被限流（未执行）或处理抛错时不保存，允许客户端用同一键重试
+            if (c.error || res.status === 429) {
+                idempotencyQueries.delete.run(linuxDoId, key);
+            } else {
+                const responseBody = await res.clone().text();
+                idempotencyQueries.complete.run(
+                    res.status,
+                    responseBody,
+                    res.headers.get('Content-Type') || 'application/json',
+                    Date.now(),
+                    linuxDoId,
+                    key
+                );
+            }
+            return res;
+        } catch (error) {
+            idempotencyQueries.delete.run(linuxDoId, key);
+            throw error;
+        } finally {
+            inFlight.delete(flightKey);
+            release();
+        }
+    };
+}
+
+/**
+ * 清理过期幂等键（由定时任务每小时调用），返回清理条数
+ */
+export function cleanupExpiredIdempotencyKeys(): number {
+    const res = idempotencyQueries.cleanupExpired.run(Date.now());
+    if (res.changes > 0) {
+        logger.info('幂等键', `清理过期幂等键 ${res.changes} 条`);
+    }
+    return res.changes;
+}
@@ -42,7 +42,7 @@ const tempBans = new Map<string, number>();
 /**
  * 获取客户端真实IP
  */
-function getClientIP(c: Context): string {
+export function getClientIP(c: Context): string {
     // 尝试从各种头部获取真实IP
     const forwarded = c.req.header('x-forwarded-for');
     if (forwarded) {
@@ -0,0 +1,58 @@
+/**
+ * 数据库迁移命令行
+ * 用法:
+ *   bun src/migrate.ts status          查看迁移执行状态
+ *   bun src/migrate.ts up              建表并执行所有待执行迁移
+ *   bun src/migrate.ts up --dry-run    只列出待执行迁移，不做任何修改
+ */
+
+import { db, initDatabase } from './database';
+import { getMigrationStatus, runMigrations } from './migrations/runner';
+
+function formatTime(timestamp: number | null): string {
+    return timestamp ? new Date(timestamp).toLocaleString('zh-CN', { timeZone: 'Asia/Shanghai' }) : '-';
+}
+
+function printStatus(): void {
+    const status = getMigrationStatus(db);
+    const pendingCount = status.filter(s => !s.applied).length;
+
+    console.log('版本  状态    执行时间               名称');
+    for (const item of status) {
+        const state = item.applied ? (item.name_mismatch ? '已替换' : '已执行') : '待执行';
+        console.log(`${String(item.version).padStart(3, '0')}   ${state}  ${formatTime(item.applied_at).padEnd(20)}  ${item.name}`);
+    }
+    console.log(`\n共 ${status.length} 个迁移，待执行 ${pendingCount} 个`);
+
+    if (status.some(s => s.name_mismatch)) {
+        console.warn('⚠️ 存在版本号已执行过其他迁移的情况，已发布的迁移不应替换或改名，请新增迁移');
+    }
+}
+
+function main(): number {
+    const [command, ...flags] = process.argv.slice(2);
+
+    switch (command) {
+        case 'status':
+            printStatus();
+            return 0;
+        case 'up':
+            if (flags.includes('--dry-run')) {
+                runMigrations(db, { dryRun: true });
+            } else {
+                // 与服务启动流程一致：建表 → 迁移 → 默认数据
+                initDatabase();
+            }
+            return 0;
+        default:
+            console.log('用法: bun src/migrate.ts <status|up> [--dry-run]');
+            return 1;
+    }
+}
+
+try {
+    process.exit(main());
+} catch (error: any) {
+    console.error('❌ 迁移失败:', error.message);
+    process.exit(1);
+}
@@ -0,0 +1,22 @@
+/**
+ * 用户表：封禁、LinuxDo 用户名、连胜计数字段
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 1,
+    name: 'users_columns',
+    up(db) {
+        addColumns(db, 'users', [
+            ['is_banned', 'INTEGER DEFAULT 0'],
+            ['banned_at', 'INTEGER'],
+            ['banned_reason', 'TEXT'],
+            ['linux_do_username', 'TEXT'],
+            ['win_streak', 'INTEGER DEFAULT 0'],  // 连击计数器（用于连续中奖成就）
+        ]);
+    },
+};
+
+export default migration;
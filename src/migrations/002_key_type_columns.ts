@@ -0,0 +1,17 @@
+/**
+ * 投喂记录与已使用 Key：区分 Key 类型（modelscope / iflow）
+ */
+
+import type { Migration } from './helpers';
+import { addColumn } from './helpers';
+
+const migration: Migration = {
+    version: 2,
+    name: 'key_type_columns',
+    up(db) {
+        addColumn(db, 'donate_records', 'key_type', "TEXT DEFAULT 'modelscope'");
+        addColumn(db, 'used_keys', 'key_type', "TEXT DEFAULT 'modelscope'");
+    },
+};
+
+export default migration;
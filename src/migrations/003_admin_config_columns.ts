@@ -0,0 +1,41 @@
+/**
+ * 管理员配置：领取/投喂限制、公益站地址、分组ID、钱包配置
+ * 同时迁移旧字段 kyx_api_base → new_api_base、group_id → modelscope_group_id
+ */
+
+import type { Migration } from './helpers';
+import { addColumn, addColumns, hasColumn } from './helpers';
+
+const migration: Migration = {
+    version: 3,
+    name: 'admin_config_columns',
+    up(db) {
+        addColumns(db, 'admin_config', [
+            ['max_daily_claims', 'INTEGER DEFAULT 1'],
+            ['new_api_base', "TEXT DEFAULT 'https://api.kkyyxx.xyz'"],
+        ]);
+
+        // 旧字段 kyx_api_base 有值而 new_api_base 为空时，复制旧数据
+        if (hasColumn(db, 'admin_config', 'kyx_api_base')) {
+            db.exec("UPDATE admin_config SET new_api_base = kyx_api_base WHERE kyx_api_base IS NOT NULL AND kyx_api_base != '' AND (new_api_base IS NULL OR new_api_base = '')");
+            console.log('  ✅ 已将 kyx_api_base 数据迁移到 new_api_base');
+        }
+
+        // 旧字段 group_id 重命名为 modelscope_group_id
+        if (hasColumn(db, 'admin_config', 'group_id') && addColumn(db, 'admin_config', 'modelscope_group_id', 'INTEGER DEFAULT 26')) {
+            db.exec('UPDATE admin_config SET modelscope_group_id = group_id');
+            console.log('  ✅ 已将 group_id 迁移为 modelscope_group_id');
+        }
+
+        addColumns(db, 'admin_config', [
+            ['iflow_group_id', 'INTEGER DEFAULT 26'],
+            ['max_daily_donate_modelscope', 'INTEGER DEFAULT 1'],
+            ['max_daily_donate_iflow', 'INTEGER DEFAULT 1'],
+            ['wallet_exchange_rate', 'INTEGER DEFAULT 500000'],
+            ['wallet_daily_transfer_limit_count', 'INTEGER DEFAULT 2'],
+            ['wallet_initial_egg', 'INTEGER DEFAULT 250'],
+        ]);
+    },
+};
+
+export default migration;
@@ -0,0 +1,20 @@
+/**
+ * 用户钱包表：补齐早期版本缺失的字段
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 4,
+    name: 'user_wallets_columns',
+    up(db) {
+        addColumns(db, 'user_wallets', [
+            ['balance_quota', 'INTEGER DEFAULT 0'],
+            ['created_at', 'INTEGER DEFAULT 0'],
+            ['updated_at', 'INTEGER DEFAULT 0'],
+        ]);
+    },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+/**
+ * 初级场配置：背景、购买次数、配置方案引用；符号权重：律师函与 man 符号
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 5,
+    name: 'slot_config_columns',
+    up(db) {
+        addColumns(db, 'slot_machine_config', [
+            ['background_type', "TEXT DEFAULT 'default'"],
+            ['buy_spins_enabled', 'INTEGER DEFAULT 0'],
+            ['buy_spins_price', 'INTEGER DEFAULT 20000000'],
+            ['max_daily_buy_spins', 'INTEGER DEFAULT 5'],
+            ['weight_config_id', 'INTEGER DEFAULT 1'],
+            ['reward_scheme_id', 'INTEGER DEFAULT 1'],
+        ]);
+        addColumns(db, 'slot_symbol_weights', [
+            ['weight_lsh', 'INTEGER DEFAULT 25'],
+            ['weight_man', 'INTEGER DEFAULT 25'],
+        ]);
+    },
+};
+
+export default migration;
@@ -0,0 +1,24 @@
+/**
+ * 老虎机游戏记录：LinuxDo 用户名、规则名称、场次模式、掉落信息
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 6,
+    name: 'slot_records_columns',
+    up(db) {
+        addColumns(db, 'slot_machine_records', [
+            ['linux_do_username', 'TEXT'],
+            ['rule_name', 'TEXT'],  // 用于显示具体的规则名称
+            ['slot_mode', "TEXT DEFAULT 'normal'"],
+            ['ticket_dropped', 'INTEGER DEFAULT 0'],
+            ['drop_type', 'TEXT'],
+        ]);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_slot_mode ON slot_machine_records(slot_mode)');
+        db.exec('CREATE INDEX IF NOT EXISTS idx_slot_records_mode ON slot_machine_records(slot_mode)');
+    },
+};
+
+export default migration;
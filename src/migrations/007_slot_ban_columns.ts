@@ -0,0 +1,22 @@
+/**
+ * 老虎机封禁信息（场次、时长、开始时间）与排行榜头像
+ */
+
+import type { Migration } from './helpers';
+import { addColumn, addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 7,
+    name: 'slot_ban_columns',
+    up(db) {
+        addColumns(db, 'user_free_spins', [
+            ['banned_until', 'INTEGER DEFAULT 0'],
+            ['ban_slot_mode', 'TEXT DEFAULT NULL'],  // 封禁发生的场次类型
+            ['ban_hours', 'INTEGER DEFAULT 0'],      // 实际封禁的小时数
+            ['banned_at', 'INTEGER DEFAULT 0'],      // 封禁开始时间
+        ]);
+        addColumn(db, 'user_slot_stats', 'avatar_url', 'TEXT');
+    },
+};
+
+export default migration;
@@ -0,0 +1,25 @@
+/**
+ * 高级场配置：配置方案引用、至尊令牌/碎片掉落率；高级场符号权重：律师函与 man 符号
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 8,
+    name: 'advanced_slot_columns',
+    up(db) {
+        addColumns(db, 'advanced_slot_config', [
+            ['weight_config_id', 'INTEGER DEFAULT 1'],
+            ['reward_scheme_id', 'INTEGER DEFAULT 1'],
+            ['supreme_token_drop_rate', 'REAL DEFAULT 0.001'],
+            ['supreme_fragment_drop_rate', 'REAL DEFAULT 0.02'],
+        ]);
+        addColumns(db, 'advanced_slot_symbol_weights', [
+            ['weight_lsh', 'INTEGER DEFAULT 50'],
+            ['weight_man', 'INTEGER DEFAULT 30'],
+        ]);
+    },
+};
+
+export default migration;
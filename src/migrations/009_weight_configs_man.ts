@@ -0,0 +1,16 @@
+/**
+ * 权重配置方案：man 符号权重
+ */
+
+import type { Migration } from './helpers';
+import { addColumn } from './helpers';
+
+const migration: Migration = {
+    version: 9,
+    name: 'weight_configs_man',
+    up(db) {
+        addColumn(db, 'symbol_weight_configs', 'weight_man', 'INTEGER DEFAULT 25');
+    },
+};
+
+export default migration;
@@ -0,0 +1,23 @@
+/**
+ * 坤呗：逾期扣款倍数、每日借款次数限制、逾期自动扣款记录
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 10,
+    name: 'kunbei_columns',
+    up(db) {
+        addColumns(db, 'kunbei_config', [
+            ['overdue_deduct_multiplier', 'REAL DEFAULT 2.5'],
+            ['max_daily_borrows', 'INTEGER DEFAULT 3'],
+        ]);
+        addColumns(db, 'user_loans', [
+            ['auto_deducted_amount', 'INTEGER DEFAULT 0'],
+            ['balance_after_deduct', 'INTEGER DEFAULT 0'],
+        ]);
+    },
+};
+
+export default migration;
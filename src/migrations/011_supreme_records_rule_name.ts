@@ -0,0 +1,16 @@
+/**
+ * 至尊场游戏记录：规则名称
+ */
+
+import type { Migration } from './helpers';
+import { addColumn } from './helpers';
+
+const migration: Migration = {
+    version: 11,
+    name: 'supreme_records_rule_name',
+    up(db) {
+        addColumn(db, 'supreme_slot_records', 'rule_name', 'TEXT');
+    },
+};
+
+export default migration;
@@ -0,0 +1,22 @@
+/**
+ * 可验证公平：游戏记录保存种子ID、nonce 与抽奖时的权重快照，用于复算结果
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 12,
+    name: 'fair_record_columns',
+    up(db) {
+        for (const table of ['slot_machine_records', 'supreme_slot_records']) {
+            addColumns(db, table, [
+                ['fair_seed_id', 'INTEGER'],
+                ['fair_nonce', 'INTEGER'],
+                ['fair_weights', 'TEXT'],
+            ]);
+        }
+    },
+};
+
+export default migration;
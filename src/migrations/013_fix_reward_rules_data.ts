@@ -0,0 +1,59 @@
+/**
+ * 修复奖励规则中错误的 required_symbols 数据
+ * 1. 清理格式错误的 JSON（空字符串、空数组、'null' 等统一置为 NULL）
+ * 2. 按规则名称识别 Man 专用规则，补齐 required_symbols = ["man"]
+ */
+
+import type { Migration } from './helpers';
+
+const INVALID_SYMBOLS_CONDITION = `
+    required_symbols = ''
+    OR required_symbols = '[]'
+    OR required_symbols IN ('null', 'undefined', 'NULL', 'UNDEFINED')
+    OR TRIM(required_symbols) = ''
+`;
+
+const migration: Migration = {
+    version: 13,
+    name: 'fix_reward_rules_data',
+    up(db) {
+        const now = Date.now();
+
+        // 基于规则名称模糊匹配 Man 专用规则（匹配所有可能的命名方式）
+        const manKeywords = ['man', 'kun', 'Man', 'Kun', 'MAN', 'KUN', '男人'];
+        const patterns = [
+            { name: ['二连', '2连', '两连'], pattern: '2-consecutive' },
+            { name: ['三连', '3连'], pattern: '3-consecutive' },
+            { name: ['四连', '4连'], pattern: '4-consecutive' }
+        ];
+
+        let manFixed = 0;
+        for (const p of patterns) {
+            const nameConditions = manKeywords.flatMap(kw =>
+                p.name.map(n => `rule_name LIKE '%${kw}${n}%'`)
+            ).join(' OR ');
+
+            const result = db.query(`
+                UPDATE reward_rules
+                SET required_symbols = '["man"]', updated_at = ?
+                WHERE (${nameConditions})
+                AND match_pattern = ?
+                AND (required_symbols IS NULL OR ${INVALID_SYMBOLS_CONDITION})
+            `).run(now, p.pattern);
+
+            if (result.changes > 0) {
+                console.log(`  ✅ 修复了 ${result.changes} 条 ${p.pattern} 的Man规则`);
+                manFixed += result.changes;
+            }
+        }
+
+        const cleaned = db.query(`
+            UPDATE reward_rules SET required_symbols = NULL
+            WHERE required_symbols IS NOT NULL AND (${INVALID_SYMBOLS_CONDITION})
+        `).run();
+
+        console.log(`  ✅ 清理 ${cleaned.changes} 条无效 required_symbols，修复 ${manFixed} 条Man专用规则`);
+    },
+};
+
+export default migration;
@@ -0,0 +1,35 @@
+/**
+ * 修复成就描述 - 将 quota 单位改为 $
+ */
+
+import type { Migration } from './helpers';
+
+const migration: Migration = {
+    version: 14,
+    name: 'fix_achievement_descriptions',
+    up(db) {
+        const updates = [
+            { key: 'earn_10k', oldDesc: '累计获得10,000 quota', newDesc: '累计盈利$2,000' },
+            { key: 'earn_100k', oldDesc: '累计获得100,000 quota', newDesc: '累计盈利$20,000' },
+            { key: 'earn_1m', oldDesc: '累计获得1,000,000 quota', newDesc: '累计盈利$2,000,000' },
+            { key: 'balance_50k', oldDesc: '账户余额达到50,000', newDesc: '账户余额达到$10,000,000' },
+            { key: 'single_win_5k', oldDesc: '单次中奖超过5,000 quota', newDesc: '单次中奖超过$100,000' }
+        ];
+
+        const now = Date.now();
+        const stmt = db.query(`
+            UPDATE achievements
+            SET achievement_desc = ?, updated_at = ?
+            WHERE achievement_key = ? AND achievement_desc = ?
+        `);
+
+        for (const update of updates) {
+            const result = stmt.run(update.newDesc, now, update.key, update.oldDesc);
+            if (result.changes > 0) {
+                console.log(`  ✅ ${update.key}: ${update.oldDesc} → ${update.newDesc}`);
+            }
+        }
+    },
+};
+
+export default migration;
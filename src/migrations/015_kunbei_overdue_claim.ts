@@ -0,0 +1,20 @@
+/**
+ * 坤呗：逾期处理认领字段（批量处理时逐笔认领，避免并发重复扣款）
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 15,
+    name: 'kunbei_overdue_claim',
+    up(db) {
+        addColumns(db, 'user_loans', [
+            ['overdue_claimed_by', 'TEXT'],
+            ['overdue_claimed_at', 'INTEGER'],
+        ]);
+        db.exec('CREATE INDEX IF NOT EXISTS idx_user_loans_status_due ON user_loans(status, due_at)');
+    },
+};
+
+export default migration;
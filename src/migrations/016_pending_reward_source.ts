@@ -0,0 +1,16 @@
+/**
+ * 待发放奖金：记录奖励来源（上游熔断时成就、投喂奖励也会转入待发放，补发时按来源记账）
+ */
+
+import type { Migration } from './helpers';
+import { addColumn } from './helpers';
+
+const migration: Migration = {
+    version: 16,
+    name: 'pending_reward_source',
+    up(db) {
+        addColumn(db, 'pending_rewards', 'source', "TEXT NOT NULL DEFAULT 'slot_pending_reward'");
+    },
+};
+
+export default migration;
@@ -0,0 +1,27 @@
+/**
+ * 多上游：额度变动与钱包划转记录所属上游，已有用户的绑定迁移到 user_upstreams（主站、收款上游）
+ */
+
+import type { Migration } from './helpers';
+import { addColumn } from './helpers';
+
+const migration: Migration = {
+    version: 17,
+    name: 'multi_upstream',
+    up(db) {
+        addColumn(db, 'quota_mutations', 'upstream_id', 'INTEGER NOT NULL DEFAULT 1');
+        addColumn(db, 'wallet_transfers', 'upstream_id', 'INTEGER NOT NULL DEFAULT 1');
+        db.exec('CREATE INDEX IF NOT EXISTS idx_quota_mutations_upstream_user ON quota_mutations(upstream_id, kyx_user_id, status, id)');
+
+        const now = Date.now();
+        const result = db.query(`
+            INSERT OR IGNORE INTO user_upstreams (linux_do_id, upstream_id, kyx_user_id, username, is_payout, created_at, updated_at)
+            SELECT linux_do_id, 1, kyx_user_id, username, 1, created_at, ? FROM users WHERE kyx_user_id IS NOT NULL
+        `).run(now);
+        if (result.changes > 0) {
+            console.log(`  ✅ 已迁移 ${result.changes} 个用户的主站绑定`);
+        }
+    },
+};
+
+export default migration;
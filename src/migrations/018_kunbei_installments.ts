@@ -0,0 +1,39 @@
+/**
+ * 坤呗分期还款：借款分期数与已冲抵金额、最多分期数配置，已有借款补齐为单期计划
+ */
+
+import type { Migration } from './helpers';
+import { addColumn, addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 18,
+    name: 'kunbei_installments',
+    up(db) {
+        addColumns(db, 'user_loans', [
+            ['installment_count', 'INTEGER NOT NULL DEFAULT 1'],
+            ['repaid_amount', 'INTEGER NOT NULL DEFAULT 0'],
+        ]);
+        addColumn(db, 'kunbei_config', 'max_installments', 'INTEGER DEFAULT 3');
+
+        // 已还清（含豁免）的借款视为全部冲抵
+        db.exec("UPDATE user_loans SET repaid_amount = repay_amount WHERE status = 'repaid'");
+
+        const result = db.query(`
+            INSERT INTO loan_installments (loan_id, seq, due_at, principal_due, fee_due, principal_paid, fee_paid, status, paid_at, overdue_at, created_at, updated_at)
+            SELECT id, 1, due_at, loan_amount, repay_amount - loan_amount,
+                   CASE WHEN status = 'repaid' THEN loan_amount ELSE 0 END,
+                   CASE WHEN status = 'repaid' THEN repay_amount - loan_amount ELSE 0 END,
+                   CASE status WHEN 'repaid' THEN 'paid' WHEN 'overdue' THEN 'overdue' ELSE 'pending' END,
+                   repaid_at,
+                   CASE WHEN status = 'overdue' THEN due_at ELSE NULL END,
+                   created_at, ?
+            FROM user_loans
+            WHERE id NOT IN (SELECT loan_id FROM loan_installments)
+        `).run(Date.now());
+        if (result.changes > 0) {
+            console.log(`  ✅ 已为 ${result.changes} 笔借款生成单期还款计划`);
+        }
+    },
+};
+
+export default migration;
@@ -0,0 +1,16 @@
+/**
+ * 坤呗借款记录借款时的信用分（资产组合按信用分档分组统计）
+ */
+
+import type { Migration } from './helpers';
+import { addColumn } from './helpers';
+
+const migration: Migration = {
+    version: 19,
+    name: 'loan_credit_score',
+    up(db) {
+        addColumn(db, 'user_loans', 'credit_score_at_borrow', 'INTEGER');
+    },
+};
+
+export default migration;
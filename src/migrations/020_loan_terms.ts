@@ -0,0 +1,20 @@
+/**
+ * 坤呗借款记录借款时的条款（提前还款优惠、逾期扣款倍数、逾期惩罚时长），借款后修改配置不影响已有借款
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 20,
+    name: 'loan_terms',
+    up(db) {
+        addColumns(db, 'user_loans', [
+            ['early_repay_discount', 'REAL'],
+            ['overdue_deduct_multiplier', 'REAL'],
+            ['overdue_penalty_hours', 'REAL'],
+        ]);
+    },
+};
+
+export default migration;
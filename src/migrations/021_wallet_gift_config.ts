@@ -0,0 +1,20 @@
+/**
+ * 钱包赠送配置：每日赠出/收到上限（🥚）与手续费率
+ */
+
+import type { Migration } from './helpers';
+import { addColumns } from './helpers';
+
+const migration: Migration = {
+    version: 21,
+    name: 'wallet_gift_config',
+    up(db) {
+        addColumns(db, 'admin_config', [
+            ['wallet_gift_daily_send_egg', 'INTEGER DEFAULT 500'],
+            ['wallet_gift_daily_receive_egg', 'INTEGER DEFAULT 1000'],
+            ['wallet_gift_fee_rate', 'REAL DEFAULT 0'],
+        ]);
+    },
+};
+
+export default migration;
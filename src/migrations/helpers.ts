@@ -0,0 +1,44 @@
+/**
+ * 迁移定义与辅助函数
+ */
+
+import type { Database } from 'bun:sqlite';
+
+/**
+ * 迁移定义（只支持 up，按 version 升序执行，每个迁移在独立事务中运行）
+ */
+export interface Migration {
+    version: number;
+    name: string;
+    up: (db: Database) => void;
+}
+
+/**
+ * 判断表中是否存在指定字段
+ */
+export function hasColumn(db: Database, table: string, column: string): boolean {
+    const row = db.query(`SELECT COUNT(*) as count FROM pragma_table_info('${table}') WHERE name = ?`).get(column) as { count: number } | null;
+    return (row?.count || 0) > 0;
+}
+
+/**
+ * 添加字段（已存在则跳过），返回是否实际添加
+ * 旧版本在启动时通过 try/catch ALTER TABLE 添加过大部分字段，迁移需兼容这些数据库
+ */
+export function addColumn(db: Database, table: string, column: string, definition: string): boolean {
+    if (hasColumn(db, table, column)) {
+        return false;
+    }
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`  ✅ 已添加 ${table}.${column} 字段`);
+    return true;
+}
+
+/**
+ * 批量添加字段
+ */
+export function addColumns(db: Database, table: string, columns: Array<[string, string]>): void {
+    for (const [column, definition] of columns) {
+        addColumn(db, table, column, definition);
+    }
+}
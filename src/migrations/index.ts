@@ -0,0 +1,54 @@
+/**
+ * 迁移注册表
+ * 新增迁移：创建 NNN_描述.ts（version 递增），并在下方列表末尾追加
+ * 已发布的迁移不可修改，需要变更时新增迁移
+ */
+
+import type { Migration } from './helpers';
+import m001 from './001_users_columns';
+import m002 from './002_key_type_columns';
+import m003 from './003_admin_config_columns';
+import m004 from './004_user_wallets_columns';
+import m005 from './005_slot_config_columns';
+import m006 from './006_slot_records_columns';
+import m007 from './007_slot_ban_columns';
+import m008 from './008_advanced_slot_columns';
+import m009 from './009_weight_configs_man';
+import m010 from './010_kunbei_columns';
+import m011 from './011_supreme_records_rule_name';
+import m012 from './012_fair_record_columns';
+import m013 from './013_fix_reward_rules_data';
+import m014 from './014_fix_achievement_descriptions';
+import m015 from './015_kunbei_overdue_claim';
+import m016 from './016_pending_reward_source';
+import m017 from './017_multi_upstream';
+import m018 from './018_kunbei_installments';
+import m019 from './019_loan_credit_score';
+import m020 from './020_loan_terms';
+import m021 from './021_wallet_gift_config';
+
+export type { Migration } from './helpers';
+
+export const migrations: Migration[] = [
+    m001,
+    m002,
+    m003,
+    m004,
+    m005,
+    m006,
+    m007,
+    m008,
+    m009,
+    m010,
+    m011,
+    m012,
+    m013,
+    m014,
+    m015,
+    m016,
+    m017,
+    m018,
+    m019,
+    m020,
+    m021,
+];
@@ -0,0 +1,139 @@
+/**
+ * 数据库迁移执行器
+ * 已执行的迁移记录在 schema_migrations 表中，每个迁移与其记录在同一事务内提交
+ */
+
+import type { Database } from 'bun:sqlite';
+import { migrations, type Migration } from './index';
+
+export interface MigrationStatus {
+    version: number;
+    name: string;
+    applied: boolean;
+    applied_at: number | null;
+    name_mismatch: boolean;  // 该版本号已执行的是另一个迁移（记录的名称不同）
+}
+
+export interface RunMigrationsOptions {
+    dryRun?: boolean;  // 只列出待执行迁移，不实际执行
+}
+
+/**
+ * 创建迁移记录表
+ */
+export function ensureMigrationsTable(db: Database): void {
+    db.exec(`
+        CREATE TABLE IF NOT EXISTS schema_migrations (
+            version INTEGER PRIMARY KEY,
+            name TEXT NOT NULL,
+            checksum TEXT NOT NULL,
+            applied_at INTEGER NOT NULL,
+            duration_ms INTEGER DEFAULT 0
+        )
+    `);
+}
+
+// 只按版本号与名称计算：函数源码会随打包、压缩或转译器升级变化，不能用于判断迁移是否被修改
+function checksumOf(migration: Migration): string {
+    const hasher = new Bun.CryptoHasher('sha256');
+    hasher.update(`${migration.version}:${migration.name}`);
+    return hasher.digest('hex');
+}
+
+function validateMigrations(list: Migration[]): void {
+    for (let i = 0; i < list.length; i++) {
+        const current = list[i]!;
+        if (!Number.isInteger(current.version) || current.version <= 0) {
+            throw new Error(`迁移版本号无效: ${current.name} (${current.version})`);
+        }
+        if (i > 0 && current.version <= list[i - 1]!.version) {
+            throw new Error(`迁移版本号必须递增且唯一: ${list[i - 1]!.version} → ${current.version}`);
+        }
+    }
+}
+
+function getAppliedMap(db: Database): Map<number, { name: string; applied_at: number }> {
+    // 查询状态时不创建记录表，保证 status / dry-run 不修改数据库
+    const table = db.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+    if (!table) {
+        return new Map();
+    }
+
+    const rows = db.query<{ version: number; name: string; applied_at: number }, []>('SELECT version, name, applied_at FROM schema_migrations').all();
+    return new Map(rows.map(row => [row.version, row]));
+}
+
+/**
+ * 获取所有迁移的执行状态
+ */
+export function getMigrationStatus(db: Database): MigrationStatus[] {
+    validateMigrations(migrations);
+    const applied = getAppliedMap(db);
+
+    return migrations.map(migration => {
+        const record = applied.get(migration.version);
+        return {
+            version: migration.version,
+            name: migration.name,
+            applied: !!record,
+            applied_at: record?.applied_at ?? null,
+            name_mismatch: !!record && record.name !== migration.name,
+        };
+    });
+}
+
+/**
+ * 获取待执行的迁移
+ */
+export function getPendingMigrations(db: Database): Migration[] {
+    validateMigrations(migrations);
+    const applied = getAppliedMap(db);
+    return migrations.filter(migration => !applied.has(migration.version));
+}
+
+/**
+ * 按版本顺序执行待执行的迁移（只支持 up）
+ * 任一迁移失败时回滚该迁移并抛出错误，后续迁移不再执行
+ * @returns 已执行（dryRun 时为待执行）的迁移列表
+ */
+export function runMigrations(db: Database, options: RunMigrationsOptions = {}): Migration[] {
+    const pending = getPendingMigrations(db);
+
+    if (pending.length === 0) {
+        console.log('✅ 数据库结构已是最新，无待执行迁移');
+        return [];
+    }
+
+    if (options.dryRun) {
+        console.log(`📋 待执行迁移 ${pending.length} 个（dry-run，不会执行）:`);
+        for (const migration of pending) {
+            console.log(`  - ${String(migration.version).padStart(3, '0')}_${migration.name}`);
+        }
+        return pending;
+    }
+
+    console.log(`🔧 开始执行数据库迁移，共 ${pending.length} 个...`);
+    ensureMigrationsTable(db);
+
+    for (const migration of pending) {
+        const label = `${String(migration.version).padStart(3, '0')}_${migration.name}`;
+        const startedAt = Date.now();
+
+        db.exec('BEGIN IMMEDIATE');
+        try {
+            migration.up(db);
+            const now = Date.now();
+            db.query('INSERT INTO schema_migrations (version, name, checksum, applied_at, duration_ms) VALUES (?, ?, ?, ?, ?)')
+                .run(migration.version, migration.name, checksumOf(migration), now, now - startedAt);
+            db.exec('COMMIT');
+        } catch (error: any) {
+            db.exec('ROLLBACK');
+            console.error(`❌ 迁移 ${label} 失败，已回滚:`, error);
+            throw new Error(`数据库迁移 ${label} 失败: ${error.message}`);
+        }
+
+        console.log(`✅ 迁移 ${label} 完成 (${Date.now() - startedAt}ms)`);
+    }
+
+    return pending;
+}
@@ -0,0 +1,33 @@
+/**
+ * 本地模拟上游服务入口：bun run mock:upstream
+ * 主服务以 MOCK_UPSTREAM_URL=http://localhost:3900 启动后，new-api、Keys 推送与 Key 验证均请求本服务
+ */
+
+import { createMockUpstream, parseFaultSpec, parseUserSpec } from './upstream';
+
+const port = parseInt(process.env.MOCK_PORT || '3900');
+
+const mock = createMockUpstream({
+    session: process.env.MOCK_SESSION || 'mock-session',
+    adminUser: process.env.MOCK_ADMIN_USER || '1',
+    keysAuthorization: process.env.MOCK_KEYS_AUTHORIZATION || '',
+    timeoutDelayMs: parseInt(process.env.MOCK_TIMEOUT_DELAY_MS || '15000'),
+    seedUsers: parseInt(process.env.MOCK_SEED_USERS || '150'),
+});
+
+for (const user of parseUserSpec(process.env.MOCK_USERS || '')) {
+    mock.upsertUser(user);
+}
+for (const fault of parseFaultSpec(process.env.MOCK_FAULTS || '')) {
+    mock.addFault(fault);
+}
+
+Bun.serve({
+    port,
+    fetch: mock.app.fetch,
+    idleTimeout: 0, // 允许超时故障挂起请求
+});
+
+console.log(`🧪 模拟上游已启动: http://localhost:${port}`);
+console.log(`   管理员 Session: ${mock.options.session}，new-api-user: ${mock.options.adminUser}`);
+console.log(`   控制接口: http://localhost:${port}/__mock/state`);
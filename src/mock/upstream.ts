@@ -0,0 +1,359 @@
+/**
+ * 本地模拟上游服务（仅用于开发与集成测试）
+ * 实现本项目用到的接口子集：
+ * - new-api：用户搜索（分页）、按 ID 查询用户、更新用户
+ * - gpt-load：Keys 推送到分组
+ * - ModelScope / iFlow：Key 验证用的 chat/completions
+ * 支持通过 /__mock 控制接口注入故障（429、超时、鉴权失败、500），用于复现重试与降级逻辑
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { KyxUser } from '../services/kyx-api';
+
+export type MockRoute = 'search' | 'get_user' | 'update_user' | 'push_keys' | 'modelscope' | 'iflow';
+export type MockFaultType = 'rate_limit' | 'timeout' | 'auth' | 'server_error';
+
+export interface MockFault {
+    id: number;
+    route: MockRoute | '*';
+    type: MockFaultType;
+    remaining: number | null;  // 剩余触发次数，null 表示一直生效
+    probability: number;  // 触发概率 0-1
+}
+
+export interface MockUpstreamOptions {
+    session: string;  // new-api 管理员 session（Cookie: session=...）
+    adminUser: string;  // new-api-user 请求头
+    keysAuthorization: string;  // Keys 推送的 Bearer Token，留空表示不校验
+    timeoutDelayMs: number;  // 超时故障的响应延迟（需大于客户端超时时间）
+    seedUsers: number;  // 预置用户数量（user001、user002…，用于测试分页）
+}
+
+interface MockRequestLog {
+    time: number;
+    route: MockRoute;
+    method: string;
+    path: string;
+    status: number;
+    fault: MockFaultType | null;
+}
+
+const MOCK_ROUTES: MockRoute[] = ['search', 'get_user', 'update_user', 'push_keys', 'modelscope', 'iflow'];
+const MOCK_FAULT_TYPES: MockFaultType[] = ['rate_limit', 'timeout', 'auth', 'server_error'];
+const DEFAULT_QUOTA = 5000000; // $10，低于每日领取门槛
+const REQUEST_LOG_LIMIT = 200;
+const UNAUTHORIZED_MESSAGE = '无权进行此操作，未登录且未提供 access token';
+
+export const DEFAULT_MOCK_OPTIONS: MockUpstreamOptions = {
+    session: 'mock-session',
+    adminUser: '1',
+    keysAuthorization: '',
+    timeoutDelayMs: 15000,
+    seedUsers: 150,
+};
+
+/**
+ * 解析故障描述：route:type[:次数][:概率]，多个以逗号分隔，如 update_user:rate_limit:3,search:timeout
+ */
+export function parseFaultSpec(spec: string): Array<Omit<MockFault, 'id'>> {
+    return spec.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const [route, type, count, probability] = item.split(':');
+        if (route !== '*' && !MOCK_ROUTES.includes(route as MockRoute)) {
+            throw new Error(`未知的模拟接口: ${route}（可选: ${MOCK_ROUTES.join(', ')}, *）`);
+        }
+        if (!MOCK_FAULT_TYPES.includes(type as MockFaultType)) {
+            throw new Error(`未知的故障类型: ${type}（可选: ${MOCK_FAULT_TYPES.join(', ')}）`);
+        }
+        return {
+            route: route as MockRoute | '*',
+            type: type as MockFaultType,
+            remaining: count ? parseInt(count) : null,
+            probability: probability ? parseFloat(probability) : 1,
+        };
+    });
+}
+
+/**
+ * 解析预置用户：username:linux_do_id[:quota]，多个以逗号分隔
+ */
+export function parseUserSpec(spec: string): Array<{ username: string; linux_do_id: string; quota?: number }> {
+    return spec.split(',').map(item => item.trim()).filter(Boolean).map(item => {
+        const [username, linuxDoId, quota] = item.split(':');
+        if (!username || !linuxDoId) {
+            throw new Error(`用户格式应为 username:linux_do_id[:quota]: ${item}`);
+        }
+        return { username, linux_do_id: linuxDoId, quota: quota ? parseInt(quota) : undefined };
+    });
+}
+
+/**
+ * 创建模拟上游应用（状态保存在内存中，每个实例独立）
+ */
+export function createMockUpstream(overrides: Partial<MockUpstreamOptions> = {}) {
+    const options: MockUpstreamOptions = { ...DEFAULT_MOCK_OPTIONS, ...overrides };
+    const users = new Map<number, KyxUser>();
+    const pushedKeys = new Map<number, string[]>();
+    const requests: MockRequestLog[] = [];
+    let faults: MockFault[] = [];
+    let nextUserId = 1;
+    let nextFaultId = 1;
+
+    function upsertUser(input: { id?: number; username: string; linux_do_id?: string; quota?: number; group?: string }): KyxUser {
+        const existing = input.id !== undefined
+            ? users.get(input.id)
+            : Array.from(users.values()).find(user => user.username === input.username);
+        const user: KyxUser = {
+            id: existing?.id ?? input.id ?? nextUserId,
+            username: input.username,
+            display_name: input.username,
+            linux_do_id: input.linux_do_id ?? existing?.linux_do_id ?? '',
+            quota: input.quota ?? existing?.quota ?? DEFAULT_QUOTA,
+            used_quota: existing?.used_quota ?? 0,
+            group: input.group ?? existing?.group ?? 'default',
+        };
+        users.set(user.id, user);
+        nextUserId = Math.max(nextUserId, user.id + 1);
+        return user;
+    }
+
+    function reset(): void {
+        users.clear();
+        pushedKeys.clear();
+        requests.length = 0;
+        faults = [];
+        nextUserId = 1;
+        for (let i = 1; i <= options.seedUsers; i++) {
+            upsertUser({ username: `user${String(i).padStart(3, '0')}`, linux_do_id: String(100000 + i) });
+        }
+    }
+
+    function addFault(fault: Omit<MockFault, 'id'>): MockFault {
+        const created = { ...fault, id: nextFaultId++ };
+        faults.push(created);
+        return created;
+    }
+
+    /**
+     * 取出本次请求命中的故障（按添加顺序，次数用尽后自动移除）
+     */
+    function takeFault(route: MockRoute): MockFault | null {
+        const fault = faults.find(item => (item.route === '*' || item.route === route) && Math.random() < item.probability);
+        if (!fault) {
+            return null;
+        }
+        if (fault.remaining !== null && --fault.remaining <= 0) {
+            faults = faults.filter(item => item.id !== fault.id);
+        }
+        return fault;
+    }
+
+    function record(c: Context, route: MockRoute, status: number, fault: MockFaultType | null): void {
+        requests.push({ time: Date.now(), route, method: c.req.method, path: c.req.path, status, fault });
+        if (requests.length > REQUEST_LOG_LIMIT) {
+            requests.splice(0, requests.length - REQUEST_LOG_LIMIT);
+        }
+    }
+
+    /**
+     * 执行故障注入，返回故障响应；未命中故障时返回 null
+     */
+    async function injectFault(c: Context, route: MockRoute): Promise<Response | null> {
+        const fault = takeFault(route);
+        if (!fault) {
+            return null;
+        }
+        record(c, route, fault.type === 'rate_limit' ? 429 : fault.type === 'auth' ? 401 : fault.type === 'timeout' ? 504 : 500, fault.type);
+
+        switch (fault.type) {
+            case 'rate_limit':
+                return c.json({ success: false, message: '请求过于频繁，请稍后再试' }, 429);
+            case 'auth':
+                return c.json({ success: false, message: UNAUTHORIZED_MESSAGE }, 401);
+            case 'timeout':
+                await Bun.sleep(options.timeoutDelayMs);
+                return c.json({ success: false, message: '上游超时' }, 504);
+            default:
+                return c.json({ success: false, message: '服务器内部错误' }, 500);
+        }
+    }
+
+    function isNewApiAuthorized(c: Context): boolean {
+        const cookie = c.req.header('Cookie') || '';
+        return cookie.includes(`session=${options.session}`) && c.req.header('new-api-user') === options.adminUser;
+    }
+
+    function getBearer(c: Context): string {
+        return (c.req.header('Authorization') || '').replace(/^Bearer\s+/i, '');
+    }
+
+    /**
+     * 模拟 Key 验证：包含 invalid 的 Key 无效，包含 limited 的 Key 返回 429（视为有效）
+     */
+    function completion(c: Context, route: 'modelscope' | 'iflow'): Response {
+        const key = getBearer(c);
+        if (!key || key.includes('invalid')) {
+            record(c, route, 401, null);
+            return c.json({ error: { message: 'Invalid API key', type: 'invalid_request_error' } }, 401);
+        }
+        if (key.includes('limited')) {
+            record(c, route, 429, null);
+            return c.json({ error: { message: 'Rate limit exceeded', type: 'rate_limit_error' } }, 429);
+        }
+        record(c, route, 200, null);
+        return c.json({
+            id: `mock-${Date.now()}`,
+            object: 'chat.completion',
+            created: Math.floor(Date.now() / 1000),
+            model: route === 'iflow' ? 'qwen3-32b' : 'ZhipuAI/GLM-4.6',
+            choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' }, finish_reason: 'stop' }],
+        });
+    }
+
+    const app = new Hono();
+
+    // ========== new-api ==========
+
+    app.get('/api/user/search', async (c) => {
+        const faulted = await injectFault(c, 'search');
+        if (faulted) return faulted;
+        if (!isNewApiAuthorized(c)) {
+            record(c, 'search', 401, null);
+            return c.json({ success: false, message: UNAUTHORIZED_MESSAGE }, 401);
+        }
+
+        const keyword = (c.req.query('keyword') || '').toLowerCase();
+        const page = Math.max(1, parseInt(c.req.query('p') || '1'));
+        const pageSize = Math.max(1, parseInt(c.req.query('page_size') || '10'));
+
+        const matched = Array.from(users.values()).filter(user =>
+            user.username.toLowerCase().includes(keyword)
+            || user.display_name.toLowerCase().includes(keyword)
+            || String(user.id) === keyword
+        );
+        const items = matched.slice((page - 1) * pageSize, page * pageSize);
+
+        record(c, 'search', 200, null);
+        return c.json({ success: true, message: '', data: { page, page_size: pageSize, total: matched.length, items } });
+    });
+
+    app.get('/api/user/:id', async (c) => {
+        const faulted = await injectFault(c, 'get_user');
+        if (faulted) return faulted;
+        if (!isNewApiAuthorized(c)) {
+            record(c, 'get_user', 401, null);
+            return c.json({ success: false, message: UNAUTHORIZED_MESSAGE }, 401);
+        }
+
+        const user = users.get(parseInt(c.req.param('id')));
+        record(c, 'get_user', 200, null);
+        if (!user) {
+            return c.json({ success: false, message: '用户不存在' });
+        }
+        return c.json({ success: true, message: '', data: user });
+    });
+
+    app.put('/api/user/', async (c) => {
+        const faulted = await injectFault(c, 'update_user');
+        if (faulted) return faulted;
+        if (!isNewApiAuthorized(c)) {
+            record(c, 'update_user', 401, null);
+            return c.json({ success: false, message: UNAUTHORIZED_MESSAGE }, 401);
+        }
+
+        const body = await c.req.json().catch(() => ({})) as Partial<KyxUser>;
+        const user = body.id !== undefined ? users.get(body.id) : undefined;
+        record(c, 'update_user', 200, null);
+        if (!user) {
+            return c.json({ success: false, message: '用户不存在' });
+        }
+        if (body.quota !== undefined && (!Number.isInteger(body.quota) || body.quota < 0)) {
+            return c.json({ success: false, message: '额度无效' });
+        }
+
+        users.set(user.id, {
+            ...user,
+            quota: body.quota ?? user.quota,
+            username: body.username || user.username,
+            group: body.group || user.group,
+        });
+        return c.json({ success: true, message: '' });
+    });
+
+    // ========== gpt-load ==========
+
+    app.post('/api/keys/add-async', async (c) => {
+        const faulted = await injectFault(c, 'push_keys');
+        if (faulted) return faulted;
+        if (options.keysAuthorization && getBearer(c) !== options.keysAuthorization) {
+            record(c, 'push_keys', 401, null);
+            return c.json({ code: 401, message: 'Unauthorized' }, 401);
+        }
+
+        const body = await c.req.json().catch(() => ({})) as { group_id?: number; keys_text?: string };
+        const keys = (body.keys_text || '').split('\n').map(key => key.trim()).filter(Boolean);
+        const groupId = Number(body.group_id) || 0;
+        pushedKeys.set(groupId, [...(pushedKeys.get(groupId) || []), ...keys]);
+
+        record(c, 'push_keys', 200, null);
+        return c.json({ code: 0, message: 'success', data: { group_id: groupId, total: keys.length } });
+    });
+
+    // ========== Key 验证 ==========
+
+    app.post('/modelscope/v1/chat/completions', async (c) => {
+        const faulted = await injectFault(c, 'modelscope');
+        return faulted ?? completion(c, 'modelscope');
+    });
+
+    app.post('/iflow/v1/chat/completions', async (c) => {
+        const faulted = await injectFault(c, 'iflow');
+        return faulted ?? completion(c, 'iflow');
+    });
+
+    // ========== 控制接口 ==========
+
+    app.get('/__mock/state', (c) => c.json({
+        users: Array.from(users.values()),
+        faults,
+        pushed_keys: Object.fromEntries(pushedKeys),
+    }));
+
+    app.get('/__mock/requests', (c) => {
+        const route = c.req.query('route');
+        return c.json(route ? requests.filter(item => item.route === route) : requests);
+    });
+
+    app.post('/__mock/users', async (c) => {
+        const body = await c.req.json().catch(() => null);
+        const list = Array.isArray(body) ? body : [body];
+        if (list.some(item => !item || typeof item.username !== 'string')) {
+            return c.json({ success: false, message: '需要提供 username' }, 400);
+        }
+        return c.json({ success: true, data: list.map(item => upsertUser(item)) });
+    });
+
+    app.post('/__mock/faults', async (c) => {
+        const body = await c.req.json().catch(() => ({})) as { spec?: string };
+        try {
+            const created = parseFaultSpec(body.spec || '').map(addFault);
+            return c.json({ success: true, data: created });
+        } catch (error: any) {
+            return c.json({ success: false, message: error.message }, 400);
+        }
+    });
+
+    app.delete('/__mock/faults', (c) => {
+        faults = [];
+        return c.json({ success: true });
+    });
+
+    app.post('/__mock/reset', (c) => {
+        reset();
+        return c.json({ success: true });
+    });
+
+    reset();
+
+    return { app, options, upsertUser, addFault, reset };
+}
@@ -0,0 +1,159 @@
+/**
+ * 成就系统数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type {
+    Achievement,
+    AchievementCategory,
+    AchievementConditionType,
+    AchievementRarity,
+    UserAchievement,
+    AchievementProgress,
+    UserAchievementStats,
+    UserSymbolCollection,
+    UserProfitTracking,
+} from '../types';
+
+export function createAchievementQueries(db: Database) {
+    return {
+        // 成就定义
+        getAll: db.query<Achievement, []>('SELECT * FROM achievements WHERE is_active = 1 ORDER BY display_order ASC, id ASC'),
+        getByKey: db.query<Achievement, string>('SELECT * FROM achievements WHERE achievement_key = ? AND is_active = 1'),
+        getByCategory: db.query<Achievement, string>('SELECT * FROM achievements WHERE category = ? AND is_active = 1 ORDER BY display_order ASC'),
+        insert: db.query<void, [string, string, string, AchievementCategory, string, AchievementConditionType, string, number, AchievementRarity, number, number, number, number, number]>(`
+            INSERT INTO achievements (
+                achievement_key, achievement_name, achievement_desc, category, icon,
+                condition_type, condition_value, reward_quota, rarity, display_order,
+                is_hidden, is_active, created_at, updated_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `),
+        update: db.query<void, [string, string, AchievementCategory, string, AchievementConditionType, string, number, AchievementRarity, number, number, number, number, string]>(`
+            UPDATE achievements SET
+                achievement_name = ?, achievement_desc = ?, category = ?, icon = ?,
+                condition_type = ?, condition_value = ?, reward_quota = ?, rarity = ?,
+                display_order = ?, is_hidden = ?, is_active = ?, updated_at = ?
+            WHERE achievement_key = ?
+        `),
+        delete: db.query<void, string>('DELETE FROM achievements WHERE achievement_key = ?'),
+
+        // 用户成就
+        getUserAchievement: db.query<UserAchievement, [string, string]>(
+            'SELECT * FROM user_achievements WHERE linux_do_id = ? AND achievement_key = ?'
+        ),
+        getUserAchievements: db.query<UserAchievement, string>(
+            'SELECT * FROM user_achievements WHERE linux_do_id = ? ORDER BY unlocked_at DESC'
+        ),
+        insertUserAchievement: db.query<void, [string, string, number, string | null]>(`
+            INSERT OR IGNORE INTO user_achievements (
+                linux_do_id, achievement_key, unlocked_at, reward_claimed, progress
+            ) VALUES (?, ?, ?, 0, ?)
+        `),
+        claimReward: db.query<void, [number, string, string]>(`
+            UPDATE user_achievements SET reward_claimed = 1, claimed_at = ?
+            WHERE linux_do_id = ? AND achievement_key = ?
+        `),
+        getUnclaimedRewards: db.query<UserAchievement, string>(
+            'SELECT * FROM user_achievements WHERE linux_do_id = ? AND reward_claimed = 0'
+        ),
+
+        // 成就进度
+        getProgress: db.query<AchievementProgress, [string, string]>(
+            'SELECT * FROM achievement_progress WHERE linux_do_id = ? AND achievement_key = ?'
+        ),
+        getUserProgress: db.query<AchievementProgress, string>(
+            'SELECT * FROM achievement_progress WHERE linux_do_id = ?'
+        ),
+        updateProgress: db.query<void, [string, string, number, number, number]>(`
+            INSERT INTO achievement_progress (linux_do_id, achievement_key, current_value, target_value, last_updated)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(linux_do_id, achievement_key) DO UPDATE SET
+                current_value = excluded.current_value,
+                last_updated = excluded.last_updated
+        `),
+        deleteProgress: db.query<void, [string, string]>('DELETE FROM achievement_progress WHERE linux_do_id = ? AND achievement_key = ?'),
+
+        // 用户成就统计
+        getStats: db.query<UserAchievementStats, string>(
+            'SELECT * FROM user_achievement_stats WHERE linux_do_id = ?'
+        ),
+        updateStats: db.query<void, [string, number, number, number, number, number, number]>(`
+            INSERT INTO user_achievement_stats (
+                linux_do_id, total_achievements, unlocked_achievements, completion_rate,
+                total_rewards, claimed_rewards, updated_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(linux_do_id) DO UPDATE SET
+                total_achievements = excluded.total_achievements,
+                unlocked_achievements = excluded.unlocked_achievements,
+                completion_rate = excluded.completion_rate,
+                total_rewards = excluded.total_rewards,
+                claimed_rewards = excluded.claimed_rewards,
+                updated_at = excluded.updated_at
+        `),
+        updateBadges: db.query<void, [string | null, string | null, string | null, number, string]>(`
+            UPDATE user_achievement_stats SET
+                badge_slot_1 = ?, badge_slot_2 = ?, badge_slot_3 = ?, updated_at = ?
+            WHERE linux_do_id = ?
+        `),
+        getLeaderboard: db.query<UserAchievementStats & { username: string, linux_do_username: string }, number>(`
+            SELECT s.*, u.username, u.linux_do_username
+            FROM user_achievement_stats s
+            JOIN users u ON s.linux_do_id = u.linux_do_id
+            ORDER BY s.unlocked_achievements DESC, s.claimed_rewards DESC
+            LIMIT ?
+        `),
+
+        // 成就统计 - 获取每个成就的达成人数
+        getAchievementStats: db.query<{ achievement_key: string, unlock_count: number }, []>(`
+            SELECT achievement_key, COUNT(*) as unlock_count
+            FROM user_achievements
+            GROUP BY achievement_key
+        `),
+
+        // 获取总用户数（用于计算达成率）
+        getTotalUsers: db.query<{ total: number }, []>(`
+            SELECT COUNT(DISTINCT linux_do_id) as total FROM users
+        `),
+
+        // 获取单个成就的达成人数
+        getAchievementUnlockCount: db.query<{ unlock_count: number }, string>(`
+            SELECT COUNT(*) as unlock_count
+            FROM user_achievements
+            WHERE achievement_key = ?
+        `),
+
+        // 符号收集追踪
+        getSymbolCollection: db.query<UserSymbolCollection, string>(`SELECT * FROM user_symbol_collection WHERE linux_do_id = ?`),
+        recordSymbol: db.query<void, [string, number, number, number, number, number, number, number, number, number, number]>(`
+            INSERT INTO user_symbol_collection (
+                linux_do_id, symbol_m, symbol_t, symbol_n, symbol_j,
+                symbol_lq, symbol_bj, symbol_zft, symbol_bdk, symbol_lsh, updated_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+            ON CONFLICT(linux_do_id) DO UPDATE SET
+                symbol_m = MAX(symbol_m, excluded.symbol_m),
+                symbol_t = MAX(symbol_t, excluded.symbol_t),
+                symbol_n = MAX(symbol_n, excluded.symbol_n),
+                symbol_j = MAX(symbol_j, excluded.symbol_j),
+                symbol_lq = MAX(symbol_lq, excluded.symbol_lq),
+                symbol_bj = MAX(symbol_bj, excluded.symbol_bj),
+                symbol_zft = MAX(symbol_zft, excluded.symbol_zft),
+                symbol_bdk = MAX(symbol_bdk, excluded.symbol_bdk),
+                symbol_lsh = MAX(symbol_lsh, excluded.symbol_lsh),
+                updated_at = excluded.updated_at
+        `),
+
+        // 盈利追踪
+        getProfitTracking: db.query<UserProfitTracking, string>(`SELECT * FROM user_profit_tracking WHERE linux_do_id = ?`),
+        updateProfitTracking: db.query<void, [string, number, number, number, number]>(`
+            INSERT INTO user_profit_tracking (linux_do_id, lowest_profit, highest_profit, last_profit, updated_at)
+            VALUES (?, ?, ?, ?, ?)
+            ON CONFLICT(linux_do_id) DO UPDATE SET
+                lowest_profit = MIN(lowest_profit, excluded.lowest_profit),
+                highest_profit = MAX(highest_profit, excluded.highest_profit),
+                last_profit = excluded.last_profit,
+                updated_at = excluded.updated_at
+        `),
+    };
+}
+
+export type AchievementQueries = ReturnType<typeof createAchievementQueries>;
@@ -0,0 +1,27 @@
+/**
+ * 管理员配置数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { AdminConfig } from '../types';
+
+export function createAdminQueries(db: Database) {
+    return {
+        get: db.query<AdminConfig, []>('SELECT * FROM admin_config WHERE id = 1'),
+        // 参数：session, new_api_base, new_api_user, claim_quota, max_daily_claims, keys_api_url, keys_authorization,
+        //      modelscope_group_id, iflow_group_id, max_daily_donate_modelscope, max_daily_donate_iflow, updated_at
+        update: db.query<void, [string, string, string, number, number, string, string, number, number, number, number, number]>(
+            'UPDATE admin_config SET session = ?, new_api_base = ?, new_api_user = ?, claim_quota = ?, max_daily_claims = ?, keys_api_url = ?, keys_authorization = ?, modelscope_group_id = ?, iflow_group_id = ?, max_daily_donate_modelscope = ?, max_daily_donate_iflow = ?, updated_at = ? WHERE id = 1'
+        ),
+        // 独立更新钱包配置（避免动到其它字段）
+        updateWallet: db.query<void, [number, number, number, number]>(
+            'UPDATE admin_config SET wallet_exchange_rate = ?, wallet_daily_transfer_limit_count = ?, wallet_initial_egg = ?, updated_at = ? WHERE id = 1'
+        ),
+        // 钱包赠送配置（每日赠出/收到上限与手续费率）
+        updateWalletGift: db.query<void, [number, number, number, number]>(
+            'UPDATE admin_config SET wallet_gift_daily_send_egg = ?, wallet_gift_daily_receive_egg = ?, wallet_gift_fee_rate = ?, updated_at = ? WHERE id = 1'
+        ),
+    };
+}
+
+export type AdminQueries = ReturnType<typeof createAdminQueries>;
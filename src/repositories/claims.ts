@@ -0,0 +1,32 @@
+/**
+ * 每日领取记录数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { ClaimRecord } from '../types';
+
+export function createClaimQueries(db: Database) {
+    return {
+        getToday: db.query<ClaimRecord, [string, string]>(
+            'SELECT * FROM claim_records WHERE linux_do_id = ? AND date = ?'
+        ),
+        // 参数：linux_do_id, username, quota_added, timestamp, date
+        insert: db.query<void, [string, string, number, number, string]>(
+            'INSERT INTO claim_records (linux_do_id, username, quota_added, timestamp, date) VALUES (?, ?, ?, ?, ?)'
+        ),
+        getByUser: db.query<ClaimRecord, string>(
+            'SELECT * FROM claim_records WHERE linux_do_id = ? ORDER BY timestamp DESC'
+        ),
+        getAll: db.query<ClaimRecord, []>(
+            'SELECT * FROM claim_records ORDER BY timestamp DESC'
+        ),
+        getAllPaginated: db.query<ClaimRecord, [number, number]>(
+            'SELECT * FROM claim_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
+        ),
+        count: db.query<{ count: number }, []>(
+            'SELECT COUNT(*) as count FROM claim_records'
+        ),
+    };
+}
+
+export type ClaimQueries = ReturnType<typeof createClaimQueries>;
@@ -0,0 +1,28 @@
+/**
+ * 配置版本历史数据访问（只追加）
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { ConfigEntityType, ConfigVersion, ConfigVersionAction } from '../types';
+
+export function createConfigVersionQueries(db: Database) {
+    return {
+        // 参数：entity_type, entity_id, action, before_json, after_json, actor, ip, source, rollback_of, created_at
+        insert: db.query<ConfigVersion, [ConfigEntityType, number, ConfigVersionAction, string | null, string, string, string | null, string, number | null, number]>(
+            `INSERT INTO config_versions (entity_type, entity_id, version, action, before_json, after_json, actor, ip, source, rollback_of, created_at)
+             SELECT ?1, ?2, COALESCE(MAX(version), 0) + 1, ?3, ?4, ?5, ?6, ?7, ?8, ?9, ?10
+             FROM config_versions WHERE entity_type = ?1 AND entity_id = ?2
+             RETURNING *`
+        ),
+        getById: db.query<ConfigVersion, number>('SELECT * FROM config_versions WHERE id = ?'),
+        getLatest: db.query<ConfigVersion, [ConfigEntityType, number]>(
+            'SELECT * FROM config_versions WHERE entity_type = ? AND entity_id = ? ORDER BY version DESC LIMIT 1'
+        ),
+        getHistory: db.query<ConfigVersion, [ConfigEntityType, number, number]>(
+            'SELECT * FROM config_versions WHERE entity_type = ? AND entity_id = ? ORDER BY version DESC LIMIT ?'
+        ),
+        getRecent: db.query<ConfigVersion, number>('SELECT * FROM config_versions ORDER BY id DESC LIMIT ?'),
+    };
+}
+
+export type ConfigVersionQueries = ReturnType<typeof createConfigVersionQueries>;
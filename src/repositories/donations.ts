@@ -0,0 +1,72 @@
+/**
+ * 投喂记录与已使用 Key 数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { DonateRecord } from '../types';
+
+type KeyType = NonNullable<DonateRecord['key_type']>;
+type PushStatus = NonNullable<DonateRecord['push_status']>;
+
+/**
+ * 已使用的 Key
+ */
+export interface UsedKey {
+    key: string;
+    linux_do_id: string;
+    username: string;
+    timestamp: number;
+    key_type: KeyType;
+}
+
+export function createDonateQueries(db: Database) {
+    return {
+        // 参数：linux_do_id, username, keys_count, total_quota_added, timestamp, push_status, push_message, failed_keys, key_type
+        insert: db.query<void, [string, string, number, number, number, PushStatus, string | null, string | null, KeyType]>(
+            'INSERT INTO donate_records (linux_do_id, username, keys_count, total_quota_added, timestamp, push_status, push_message, failed_keys, key_type) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getByUser: db.query<DonateRecord, string>(
+            'SELECT * FROM donate_records WHERE linux_do_id = ? ORDER BY timestamp DESC'
+        ),
+        getAll: db.query<DonateRecord, []>(
+            'SELECT * FROM donate_records ORDER BY timestamp DESC'
+        ),
+        getAllPaginated: db.query<DonateRecord, [number, number]>(
+            'SELECT * FROM donate_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
+        ),
+        count: db.query<{ count: number }, []>(
+            'SELECT COUNT(*) as count FROM donate_records'
+        ),
+        getTodayCount: db.query<{ total: number }, [string, number, number]>(
+            'SELECT COALESCE(SUM(keys_count), 0) as total FROM donate_records WHERE linux_do_id = ? AND timestamp >= ? AND timestamp < ?'
+        ),
+        getTodayCountByType: db.query<{ total: number }, [string, number, number, KeyType]>(
+            'SELECT COALESCE(SUM(keys_count), 0) as total FROM donate_records WHERE linux_do_id = ? AND timestamp >= ? AND timestamp < ? AND key_type = ?'
+        ),
+        getByTimestamp: db.query<DonateRecord, [string, number]>(
+            'SELECT * FROM donate_records WHERE linux_do_id = ? AND timestamp = ?'
+        ),
+        // 参数：push_status, push_message, failed_keys, linux_do_id, timestamp
+        update: db.query<void, [PushStatus, string | null, string | null, string, number]>(
+            'UPDATE donate_records SET push_status = ?, push_message = ?, failed_keys = ? WHERE linux_do_id = ? AND timestamp = ?'
+        ),
+    };
+}
+
+export type DonateQueries = ReturnType<typeof createDonateQueries>;
+
+export function createKeyQueries(db: Database) {
+    return {
+        isUsed: db.query<{ count: number }, [string, KeyType]>(
+            'SELECT COUNT(*) as count FROM used_keys WHERE key = ? AND key_type = ?'
+        ),
+        // 参数：key, linux_do_id, username, timestamp, key_type
+        insert: db.query<void, [string, string, string, number, KeyType]>(
+            'INSERT INTO used_keys (key, linux_do_id, username, timestamp, key_type) VALUES (?, ?, ?, ?, ?)'
+        ),
+        getAll: db.query<UsedKey, []>('SELECT * FROM used_keys ORDER BY timestamp DESC'),
+        delete: db.query<void, [string, KeyType]>('DELETE FROM used_keys WHERE key = ? AND key_type = ?'),
+    };
+}
+
+export type KeyQueries = ReturnType<typeof createKeyQueries>;
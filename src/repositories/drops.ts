@@ -0,0 +1,40 @@
+/**
+ * 掉落配置数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { DropConfig } from '../types';
+
+export function createDropConfigQueries(db: Database) {
+    return {
+        getAll: db.query<DropConfig, []>(
+            'SELECT * FROM drop_configs ORDER BY slot_mode, priority DESC, id ASC'
+        ),
+        getByMode: db.query<DropConfig, string>(
+            'SELECT * FROM drop_configs WHERE slot_mode = ? AND is_active = 1 ORDER BY priority DESC'
+        ),
+        getByModeAndRule: db.query<DropConfig, [string, string]>(
+            'SELECT * FROM drop_configs WHERE slot_mode = ? AND trigger_rule_name = ? AND is_active = 1 ORDER BY priority DESC'
+        ),
+        getByModeAndType: db.query<DropConfig, [string, string]>(
+            'SELECT * FROM drop_configs WHERE slot_mode = ? AND drop_item_type = ? AND is_active = 1 ORDER BY priority DESC'
+        ),
+        getById: db.query<DropConfig, number>(
+            'SELECT * FROM drop_configs WHERE id = ?'
+        ),
+        insert: db.query<void, [DropConfig['slot_mode'], string, DropConfig['drop_item_type'], number, number, number, number, string | null, number, number]>(
+            `INSERT INTO drop_configs (slot_mode, trigger_rule_name, drop_item_type, drop_probability, drop_count, is_active, priority, description, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ),
+        update: db.query<void, [DropConfig['slot_mode'], string, DropConfig['drop_item_type'], number, number, number, number, string | null, number, number]>(
+            `UPDATE drop_configs SET 
+             slot_mode = ?, trigger_rule_name = ?, drop_item_type = ?, drop_probability = ?, drop_count = ?, is_active = ?, priority = ?, description = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        delete: db.query<void, number>(
+            'DELETE FROM drop_configs WHERE id = ?'
+        ),
+    };
+}
+
+export type DropConfigQueries = ReturnType<typeof createDropConfigQueries>;
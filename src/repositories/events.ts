@@ -0,0 +1,54 @@
+/**
+ * 限时活动数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { TimedEvent, TimedEventEffect, TimedEventMode, TimedEventStatus } from '../types';
+
+type EventFields = [string, string | null, TimedEventMode, TimedEventEffect, number, number, number, number];
+
+export function createTimedEventQueries(db: Database) {
+    return {
+        getById: db.query<TimedEvent, number>('SELECT * FROM timed_events WHERE id = ?'),
+        getAll: db.query<TimedEvent, number>('SELECT * FROM timed_events ORDER BY starts_at DESC, id DESC LIMIT ?'),
+        getByStatus: db.query<TimedEvent, [TimedEventStatus, number]>(
+            'SELECT * FROM timed_events WHERE status = ? ORDER BY starts_at DESC, id DESC LIMIT ?'
+        ),
+        // 生效判断以时间窗口为准，不依赖定时任务是否已推进状态
+        getActiveAt: db.query<TimedEvent, [number, number]>(
+            `SELECT * FROM timed_events WHERE status != 'cancelled' AND starts_at <= ? AND ends_at > ?
+             ORDER BY priority DESC, id ASC`
+        ),
+        getUpcoming: db.query<TimedEvent, [number, number]>(
+            `SELECT * FROM timed_events WHERE status = 'scheduled' AND starts_at > ? AND starts_at <= ?
+             ORDER BY starts_at ASC, id ASC`
+        ),
+        // 参数：name, description, slot_mode, effect_type, effect_value, priority, starts_at, ends_at, created_by, created_at, updated_at
+        insert: db.query<TimedEvent, [...EventFields, string, number, number]>(
+            `INSERT INTO timed_events (name, description, slot_mode, effect_type, effect_value, priority, starts_at, ends_at, created_by, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             RETURNING *`
+        ),
+        update: db.query<TimedEvent, [...EventFields, number, number]>(
+            `UPDATE timed_events SET name = ?, description = ?, slot_mode = ?, effect_type = ?, effect_value = ?, priority = ?,
+             starts_at = ?, ends_at = ?, updated_at = ? WHERE id = ? AND status IN ('scheduled', 'active')
+             RETURNING *`
+        ),
+        cancel: db.query<TimedEvent, [number, number]>(
+            `UPDATE timed_events SET status = 'cancelled', updated_at = ? WHERE id = ? AND status IN ('scheduled', 'active')
+             RETURNING *`
+        ),
+
+        // 状态推进（定时任务）
+        activateDue: db.query<TimedEvent, [number, number, number]>(
+            `UPDATE timed_events SET status = 'active', updated_at = ? WHERE status = 'scheduled' AND starts_at <= ? AND ends_at > ?
+             RETURNING *`
+        ),
+        expireDue: db.query<TimedEvent, [number, number]>(
+            `UPDATE timed_events SET status = 'ended', updated_at = ? WHERE status IN ('scheduled', 'active') AND ends_at <= ?
+             RETURNING *`
+        ),
+    };
+}
+
+export type TimedEventQueries = ReturnType<typeof createTimedEventQueries>;
@@ -0,0 +1,35 @@
+/**
+ * 可验证公平种子数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { FairSeed, SlotMachineRecord, SupremeSlotRecord } from '../types';
+
+export function createFairSeedQueries(db: Database) {
+    return {
+        getActive: db.query<FairSeed, string>(
+            "SELECT * FROM fair_seeds WHERE linux_do_id = ? AND status = 'active'"
+        ),
+        getById: db.query<FairSeed, number>('SELECT * FROM fair_seeds WHERE id = ?'),
+        // 参数：linux_do_id, server_seed, server_seed_hash, client_seed, created_at
+        insert: db.query<void, [string, string, string, string, number]>(`
+            INSERT OR IGNORE INTO fair_seeds (linux_do_id, server_seed, server_seed_hash, client_seed, nonce, status, created_at)
+            VALUES (?, ?, ?, ?, 0, 'active', ?)
+        `),
+        // 占用一个 nonce，返回占用后的值（实际使用值 = 返回值 - 1）
+        claimNonce: db.query<{ nonce: number }, number>(
+            "UPDATE fair_seeds SET nonce = nonce + 1 WHERE id = ? AND status = 'active' RETURNING nonce"
+        ),
+        // 参数：revealed_at, id
+        reveal: db.query<void, [number, number]>(
+            "UPDATE fair_seeds SET status = 'revealed', revealed_at = ? WHERE id = ? AND status = 'active'"
+        ),
+        getRevealedByUser: db.query<FairSeed, [string, number]>(
+            "SELECT * FROM fair_seeds WHERE linux_do_id = ? AND status = 'revealed' ORDER BY revealed_at DESC LIMIT ?"
+        ),
+        getSlotRecord: db.query<SlotMachineRecord, number>('SELECT * FROM slot_machine_records WHERE id = ?'),
+        getSupremeRecord: db.query<SupremeSlotRecord, number>('SELECT * FROM supreme_slot_records WHERE id = ?'),
+    };
+}
+
+export type FairSeedQueries = ReturnType<typeof createFairSeedQueries>;
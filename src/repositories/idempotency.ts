@@ -0,0 +1,28 @@
+/**
+ * 幂等键数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { IdempotencyKey } from '../types';
+
+export function createIdempotencyQueries(db: Database) {
+    return {
+        // 抢占幂等键（已存在则不插入）
+        // 参数：linux_do_id, idem_key, operation, request_hash, created_at, expires_at
+        tryInsert: db.query<void, [string, string, string, string, number, number]>(`
+            INSERT OR IGNORE INTO idempotency_keys (linux_do_id, idem_key, operation, request_hash, status, created_at, expires_at)
+            VALUES (?, ?, ?, ?, 'processing', ?, ?)
+        `),
+        get: db.query<IdempotencyKey, [string, string]>('SELECT * FROM idempotency_keys WHERE linux_do_id = ? AND idem_key = ?'),
+        // 参数：response_status, response_body, response_content_type, completed_at, linux_do_id, idem_key
+        complete: db.query<void, [number, string, string, number, string, string]>(`
+            UPDATE idempotency_keys
+            SET status = 'completed', response_status = ?, response_body = ?, response_content_type = ?, completed_at = ?
+            WHERE linux_do_id = ? AND idem_key = ?
+        `),
+        delete: db.query<void, [string, string]>('DELETE FROM idempotency_keys WHERE linux_do_id = ? AND idem_key = ?'),
+        cleanupExpired: db.query<void, number>('DELETE FROM idempotency_keys WHERE expires_at < ?'),
+    };
+}
+
+export type IdempotencyQueries = ReturnType<typeof createIdempotencyQueries>;
@@ -0,0 +1,302 @@
+/**
+ * 坤呗借款数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type {
+    KunbeiConfig, UserLoan, UserKunbeiStats, KunbeiGradientConfig, LoanInstallment, LoanRepayment,
+    KunbeiCreditConfig, CreditScoreHistory, CreditScoreTrigger, KunbeiPortfolioSnapshot
+} from '../types';
+
+// 信用评分所需的借款汇总（分期有逾期记录或曾进入逾期状态的借款计为逾期）
+export interface LoanCreditSummary {
+    settled_loans: number;
+    on_time_loans: number;
+    overdue_loans: number;
+    last_overdue_at: number | null;
+}
+
+
+// 资产组合统计所需的单笔借款数据
+export interface PortfolioLoanRow {
+    id: number;
+    loan_amount: number;
+    repay_amount: number;
+    repaid_amount: number;
+    actual_repay_amount: number;
+    status: UserLoan['status'];
+    borrowed_at: number;
+    due_at: number;
+    repaid_at: number | null;
+    auto_deducted_amount: number;
+    credit_score_at_borrow: number | null;
+    outstanding_principal: number;
+    forgiven_amount: number;
+    ever_overdue: number;
+    waived: number;
+}
+
+export function createKunbeiQueries(db: Database) {
+    return {
+        // 配置管理
+        getConfig: db.query<KunbeiConfig, []>(
+            'SELECT * FROM kunbei_config WHERE id = 1'
+        ),
+        updateConfig: db.query<void, [number, number, number, number, number, number, number, number, number, number, number, number, number, number]>(
+            `UPDATE kunbei_config SET 
+             enabled = ?, max_loan_amount = ?, min_loan_amount = ?,
+             repay_multiplier = ?, loan_duration_hours = ?, early_repay_discount = ?,
+             overdue_penalty_hours = ?, overdue_ban_advanced = ?, max_active_loans = ?,
+             deduct_all_quota_on_overdue = ?, overdue_deduct_multiplier = ?, max_daily_borrows = ?, max_installments = ?, updated_at = ? WHERE id = 1`
+        ),
+
+        // 借款记录管理
+        getActiveLoan: db.query<UserLoan, string>(
+            'SELECT * FROM user_loans WHERE linux_do_id = ? AND status = "active" LIMIT 1'
+        ),
+        getLoanById: db.query<UserLoan, number>(
+            'SELECT * FROM user_loans WHERE id = ?'
+        ),
+        getUserLoans: db.query<UserLoan, string>(
+            'SELECT * FROM user_loans WHERE linux_do_id = ? ORDER BY created_at DESC LIMIT 20'
+        ),
+        getAllLoans: db.query<UserLoan, []>(
+            'SELECT * FROM user_loans ORDER BY created_at DESC LIMIT 200'
+        ),
+        getActiveLoans: db.query<UserLoan, []>(
+            'SELECT * FROM user_loans WHERE status = "active"'
+        ),
+        getOverdueLoans: db.query<UserLoan, []>(
+            'SELECT * FROM user_loans WHERE status = "overdue"'
+        ),
+        // 有已到期未处理分期的借款（排除他人认领中且未超时的）
+        getDueActiveLoans: db.query<UserLoan, [number, number, number]>(
+            `SELECT l.* FROM user_loans l
+             WHERE l.id IN (SELECT loan_id FROM loan_installments WHERE status = 'pending' AND due_at < ?)
+             AND l.status IN ('active', 'overdue') AND (l.overdue_claimed_by IS NULL OR l.overdue_claimed_at < ?)
+             ORDER BY l.id ASC LIMIT ?`
+        ),
+        getUserDueActiveLoans: db.query<UserLoan, [string, number, number]>(
+            `SELECT l.* FROM user_loans l
+             WHERE l.linux_do_id = ? AND l.status IN ('active', 'overdue')
+             AND EXISTS (SELECT 1 FROM loan_installments i WHERE i.loan_id = l.id AND i.status = 'pending' AND i.due_at < ?)
+             AND (l.overdue_claimed_by IS NULL OR l.overdue_claimed_at < ?)`
+        ),
+        hasDueActiveLoan: db.query<{ found: number }, [string, number]>(
+            `SELECT 1 as found FROM user_loans l
+             WHERE l.linux_do_id = ? AND l.status IN ('active', 'overdue')
+             AND EXISTS (SELECT 1 FROM loan_installments i WHERE i.loan_id = l.id AND i.status = 'pending' AND i.due_at < ?)
+             LIMIT 1`
+        ),
+        // 认领逾期处理：仅未认领或认领已超时、且有到期未处理分期的借款可被认领
+        claimOverdueLoan: db.query<void, [string, number, number, number, number]>(
+            `UPDATE user_loans SET overdue_claimed_by = ?, overdue_claimed_at = ?
+             WHERE id = ? AND status IN ('active', 'overdue')
+             AND EXISTS (SELECT 1 FROM loan_installments i WHERE i.loan_id = user_loans.id AND i.status = 'pending' AND i.due_at < ?)
+             AND (overdue_claimed_by IS NULL OR overdue_claimed_at < ?)`
+        ),
+        getTodayBorrowCount: db.query<{ count: number }, [string, string]>(
+            `SELECT COUNT(*) as count FROM user_loans 
+             WHERE linux_do_id = ? AND DATE(borrowed_at / 1000, 'unixepoch') = ?`
+        ),
+        insertLoan: db.query<void, [string, string, number, number, UserLoan['status'], number, number, number, number, number, number, number, number, number]>(
+            `INSERT INTO user_loans (linux_do_id, username, loan_amount, repay_amount, status, borrowed_at, due_at, installment_count, credit_score_at_borrow,
+             early_repay_discount, overdue_deduct_multiplier, overdue_penalty_hours, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ),
+        updateLoanStatus: db.query<void, [UserLoan['status'], number | null, number | null, number | null, number, number]>(
+            `UPDATE user_loans SET status = ?, actual_repay_amount = ?, repaid_at = ?, overdue_penalty_until = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        // 逾期扣款按期累加
+        updateLoanOverdue: db.query<void, [UserLoan['status'], number | null, number, number, number, number]>(
+            `UPDATE user_loans SET status = ?, overdue_penalty_until = ?, auto_deducted_amount = COALESCE(auto_deducted_amount, 0) + ?, balance_after_deduct = ?, updated_at = ?,
+             overdue_claimed_by = NULL, overdue_claimed_at = NULL
+             WHERE id = ?`
+        ),
+        // 部分/全部还款：累加冲抵金额与实际还款金额
+        applyLoanRepayment: db.query<void, [number, number, UserLoan['status'], number | null, number | null, number, number]>(
+            `UPDATE user_loans SET repaid_amount = repaid_amount + ?, actual_repay_amount = COALESCE(actual_repay_amount, 0) + ?,
+             status = ?, repaid_at = ?, overdue_penalty_until = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        clearOverduePenalty: db.query<void, [number, number]>(
+            `UPDATE user_loans SET overdue_penalty_until = NULL, updated_at = ?
+             WHERE id = ?`
+        ),
+        deleteLoan: db.query<void, number>(
+            'DELETE FROM user_loans WHERE id = ?'
+        ),
+
+        // 分期计划
+        insertInstallment: db.query<void, [number, number, number, number, number, number, number]>(
+            `INSERT INTO loan_installments (loan_id, seq, due_at, principal_due, fee_due, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ),
+        getInstallments: db.query<LoanInstallment, number>(
+            'SELECT * FROM loan_installments WHERE loan_id = ? ORDER BY seq ASC'
+        ),
+        getDueInstallments: db.query<LoanInstallment, [number, number]>(
+            `SELECT * FROM loan_installments WHERE loan_id = ? AND status = 'pending' AND due_at < ? ORDER BY seq ASC`
+        ),
+        updateInstallmentPayment: db.query<void, [number, number, LoanInstallment['status'], number | null, number, number]>(
+            `UPDATE loan_installments SET principal_paid = principal_paid + ?, fee_paid = fee_paid + ?, status = ?, paid_at = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        markInstallmentOverdue: db.query<void, [number, number, number]>(
+            `UPDATE loan_installments SET status = 'overdue', overdue_at = ?, updated_at = ? WHERE id = ? AND status = 'pending'`
+        ),
+        waiveInstallments: db.query<void, [number, number]>(
+            `UPDATE loan_installments SET status = 'waived', updated_at = ? WHERE loan_id = ? AND status IN ('pending', 'overdue')`
+        ),
+        deleteInstallments: db.query<void, number>(
+            'DELETE FROM loan_installments WHERE loan_id = ?'
+        ),
+
+        // 还款流水
+        insertRepayment: db.query<void, [number, string, LoanRepayment['source'], number, number, number, number, number, number]>(
+            `INSERT INTO loan_repayments (loan_id, linux_do_id, source, amount, discount, fee_part, principal_part, outstanding_after, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ),
+        getRepayments: db.query<LoanRepayment, number>(
+            'SELECT * FROM loan_repayments WHERE loan_id = ? ORDER BY created_at ASC, id ASC'
+        ),
+
+        // 用户统计管理
+        getStats: db.query<UserKunbeiStats, string>(
+            'SELECT * FROM user_kunbei_stats WHERE linux_do_id = ?'
+        ),
+        upsertStats: db.query<void, [string, number, number, number, number, number, number, number, string | null, number, number, number, number, number, number, number, number, number, number, string | null, number, number, number, number]>(
+            `INSERT INTO user_kunbei_stats (linux_do_id, total_borrowed, total_repaid, total_loans, repaid_loans, overdue_loans, credit_score, is_banned, last_borrow_date, has_daily_buff, buff_multiplier, buff_used, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET
+             total_borrowed = total_borrowed + ?,
+             total_repaid = total_repaid + ?,
+             total_loans = total_loans + ?,
+             repaid_loans = repaid_loans + ?,
+             overdue_loans = overdue_loans + ?,
+             credit_score = ?,
+             last_borrow_date = ?,
+             has_daily_buff = ?,
+             buff_multiplier = ?,
+             buff_used = ?,
+             updated_at = ?`
+        ),
+
+        // Buff相关查询
+        checkBuff: db.query<UserKunbeiStats, string>(
+            'SELECT * FROM user_kunbei_stats WHERE linux_do_id = ? AND has_daily_buff = 1 AND buff_used = 0'
+        ),
+        useBuff: db.query<void, [number, string]>(
+            'UPDATE user_kunbei_stats SET buff_used = 1, updated_at = ? WHERE linux_do_id = ?'
+        ),
+
+        // 梯度配置相关查询
+        getGradientConfigs: db.query<KunbeiGradientConfig, []>(
+            'SELECT * FROM kunbei_gradient_configs WHERE is_active = 1 ORDER BY quota_threshold ASC'
+        ),
+        getGradientConfigById: db.query<KunbeiGradientConfig, number>(
+            'SELECT * FROM kunbei_gradient_configs WHERE id = ?'
+        ),
+        getAllGradientConfigs: db.query<KunbeiGradientConfig, []>(
+            'SELECT * FROM kunbei_gradient_configs ORDER BY quota_threshold ASC'
+        ),
+        insertGradientConfig: db.query<void, [number, number, number, number, number, number]>(
+            `INSERT INTO kunbei_gradient_configs (quota_threshold, max_loan_amount, priority, is_active, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)`
+        ),
+        updateGradientConfig: db.query<void, [number, number, number, number, number, number]>(
+            `UPDATE kunbei_gradient_configs 
+             SET quota_threshold = ?, max_loan_amount = ?, priority = ?, is_active = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        deleteGradientConfig: db.query<void, number>(
+            'DELETE FROM kunbei_gradient_configs WHERE id = ?'
+        ),
+
+        // 信用评分
+        getCreditConfig: db.query<KunbeiCreditConfig, []>(
+            'SELECT * FROM kunbei_credit_config WHERE id = 1'
+        ),
+        // 参数：base_score, on_time_weight, overdue_penalty, overdue_penalty_cap, recent_overdue_penalty, recent_overdue_days,
+        // utilization_weight, account_age_weight, account_age_full_days, slot_loss_weight, slot_loss_window_days, bands, updated_at
+        updateCreditConfig: db.query<void, [number, number, number, number, number, number, number, number, number, number, number, string, number]>(
+            `UPDATE kunbei_credit_config SET base_score = ?, on_time_weight = ?, overdue_penalty = ?, overdue_penalty_cap = ?,
+             recent_overdue_penalty = ?, recent_overdue_days = ?, utilization_weight = ?, account_age_weight = ?, account_age_full_days = ?,
+             slot_loss_weight = ?, slot_loss_window_days = ?, bands = ?, updated_at = ? WHERE id = 1`
+        ),
+        getLoanCreditSummary: db.query<LoanCreditSummary, string>(
+            `SELECT
+                COALESCE(SUM(CASE WHEN status = 'repaid' THEN 1 ELSE 0 END), 0) as settled_loans,
+                COALESCE(SUM(CASE WHEN status = 'repaid' AND overdue_time IS NULL AND waived = 0 THEN 1 ELSE 0 END), 0) as on_time_loans,
+                COALESCE(SUM(CASE WHEN overdue_time IS NOT NULL THEN 1 ELSE 0 END), 0) as overdue_loans,
+                MAX(overdue_time) as last_overdue_at
+             FROM (
+                SELECT l.status,
+                    COALESCE(
+                        (SELECT MAX(i.overdue_at) FROM loan_installments i WHERE i.loan_id = l.id),
+                        CASE WHEN l.status = 'overdue' OR l.overdue_penalty_until IS NOT NULL THEN l.due_at END
+                    ) as overdue_time,
+                    EXISTS (SELECT 1 FROM loan_installments i WHERE i.loan_id = l.id AND i.status = 'waived') as waived
+                FROM user_loans l WHERE l.linux_do_id = ?
+             )`
+        ),
+        getRecentLoanAverage: db.query<{ avg_amount: number | null }, [string, number]>(
+            `SELECT AVG(loan_amount) as avg_amount FROM (
+                SELECT loan_amount FROM user_loans WHERE linux_do_id = ? ORDER BY borrowed_at DESC LIMIT ?
+             )`
+        ),
+        getSlotTotalsSince: db.query<{ bet: number | null; win: number | null }, [string, number, string, number]>(
+            `SELECT SUM(bet) as bet, SUM(win) as win FROM (
+                SELECT SUM(bet_amount) as bet, SUM(win_amount) as win FROM slot_machine_records WHERE linux_do_id = ? AND timestamp >= ?
+                UNION ALL
+                SELECT SUM(bet_amount) as bet, SUM(win_amount) as win FROM supreme_slot_records WHERE linux_do_id = ? AND timestamp >= ?
+             )`
+        ),
+        setCreditScore: db.query<void, [string, number, number, number, number]>(
+            `INSERT INTO user_kunbei_stats (linux_do_id, credit_score, updated_at)
+             VALUES (?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET credit_score = ?, updated_at = ?`
+        ),
+        getCreditScoredUsers: db.query<{ linux_do_id: string }, []>(
+            'SELECT linux_do_id FROM user_kunbei_stats ORDER BY linux_do_id'
+        ),
+        // 参数：linux_do_id, old_score, new_score, trigger, ref_id, reasons, factors, created_at
+        insertCreditHistory: db.query<CreditScoreHistory, [string, number, number, CreditScoreTrigger, number | null, string, string, number]>(
+            `INSERT INTO kunbei_credit_history (linux_do_id, old_score, new_score, trigger, ref_id, reasons, factors, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        ),
+        getCreditHistory: db.query<CreditScoreHistory, [string, number]>(
+            'SELECT * FROM kunbei_credit_history WHERE linux_do_id = ? ORDER BY id DESC LIMIT ?'
+        ),
+        getLastCreditHistory: db.query<CreditScoreHistory, string>(
+            'SELECT * FROM kunbei_credit_history WHERE linux_do_id = ? ORDER BY id DESC LIMIT 1'
+        ),
+
+        // 资产组合
+        getPortfolioLoans: db.query<PortfolioLoanRow, []>(
+            `SELECT l.id, l.loan_amount, l.repay_amount, l.repaid_amount, COALESCE(l.actual_repay_amount, 0) as actual_repay_amount,
+                l.status, l.borrowed_at, l.due_at, l.repaid_at, COALESCE(l.auto_deducted_amount, 0) as auto_deducted_amount, l.credit_score_at_borrow,
+                COALESCE((SELECT SUM(i.principal_due - i.principal_paid) FROM loan_installments i
+                          WHERE i.loan_id = l.id AND i.status IN ('pending', 'overdue')), 0) as outstanding_principal,
+                COALESCE((SELECT SUM(r.fee_part + r.principal_part) FROM loan_repayments r
+                          WHERE r.loan_id = l.id AND r.source = 'forgive'), 0) as forgiven_amount,
+                CASE WHEN l.status = 'overdue' OR l.overdue_penalty_until IS NOT NULL
+                          OR EXISTS (SELECT 1 FROM loan_installments i WHERE i.loan_id = l.id AND i.overdue_at IS NOT NULL)
+                     THEN 1 ELSE 0 END as ever_overdue,
+                EXISTS (SELECT 1 FROM loan_installments i WHERE i.loan_id = l.id AND i.status = 'waived') as waived
+             FROM user_loans l`
+        ),
+        upsertPortfolioSnapshot: db.query<KunbeiPortfolioSnapshot, [string, number, number, number, number, number, number, number, number, number, number, number | null, number | null, number | null, number | null, number]>(
+            `INSERT OR REPLACE INTO kunbei_portfolio_snapshots (date, active_loans, overdue_loans, outstanding_principal, outstanding_amount,
+             total_loans, total_lent, total_collected, total_auto_deducted, total_forgiven, net_profit,
+             overdue_rate, default_rate, recovery_rate, early_repay_rate, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        ),
+        getPortfolioSnapshots: db.query<KunbeiPortfolioSnapshot, [string]>(
+            'SELECT * FROM kunbei_portfolio_snapshots WHERE date >= ? ORDER BY date ASC'
+        ),
+    };
+}
+
+export type KunbeiQueries = ReturnType<typeof createKunbeiQueries>;
@@ -0,0 +1,106 @@
+/**
+ * 复式记账分录数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { LedgerEntry, LedgerReason } from '../types';
+
+/**
+ * 按账户与原因汇总的用户分录
+ */
+export interface LedgerAccountSummary {
+    account: string;
+    reason: LedgerReason;
+    total_debit: number;
+    total_credit: number;
+    entries: number;
+}
+
+/**
+ * 钱包余额与账本余额不一致的记录
+ */
+export interface LedgerWalletMismatch {
+    linux_do_id: string;
+    balance_quota: number;
+    ledger_balance: number;
+    diff: number;
+}
+
+export function createLedgerQueries(db: Database) {
+    return {
+        // 参数：txn_id, account, linux_do_id, debit, credit, reason, ref_id, memo, created_at
+        insert: db.query<void, [string, string, string | null, number, number, LedgerReason, string | null, string | null, number]>(`
+            INSERT INTO ledger_entries (txn_id, account, linux_do_id, debit, credit, reason, ref_id, memo, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+        `),
+        // 用户相关分录（分页）
+        getByUser: db.query<LedgerEntry, [string, number, number]>(`
+            SELECT * FROM ledger_entries
+            WHERE linux_do_id = ?
+            ORDER BY id DESC
+            LIMIT ? OFFSET ?
+        `),
+        getCountByUser: db.query<{ total: number }, string>(
+            'SELECT COUNT(*) as total FROM ledger_entries WHERE linux_do_id = ?'
+        ),
+        getByTxn: db.query<LedgerEntry, string>('SELECT * FROM ledger_entries WHERE txn_id = ? ORDER BY id ASC'),
+        // 账户余额（贷方 - 借方）
+        getAccountBalance: db.query<{ balance: number }, string>(`
+            SELECT COALESCE(SUM(credit) - SUM(debit), 0) as balance
+            FROM ledger_entries WHERE account = ?
+        `),
+        // 各账户汇总（按用户）
+        getUserAccountSummary: db.query<LedgerAccountSummary, string>(`
+            SELECT account, reason,
+                   COALESCE(SUM(debit), 0) as total_debit,
+                   COALESCE(SUM(credit), 0) as total_credit,
+                   COUNT(*) as entries
+            FROM ledger_entries
+            WHERE linux_do_id = ?
+            GROUP BY account, reason
+            ORDER BY account, reason
+        `),
+        // 钱包账本余额与 user_wallets 对比
+        getWalletMismatches: db.query<LedgerWalletMismatch, []>(`
+            SELECT w.linux_do_id, w.balance_quota,
+                   COALESCE(l.balance, 0) as ledger_balance,
+                   w.balance_quota - COALESCE(l.balance, 0) as diff
+            FROM user_wallets w
+            LEFT JOIN (
+                SELECT account, SUM(credit) - SUM(debit) as balance
+                FROM ledger_entries
+                WHERE account LIKE 'wallet:%'
+                GROUP BY account
+            ) l ON l.account = 'wallet:' || w.linux_do_id
+            WHERE w.balance_quota != COALESCE(l.balance, 0)
+            ORDER BY ABS(w.balance_quota - COALESCE(l.balance, 0)) DESC
+        `),
+        // 一致性检查覆盖的钱包数
+        countWallets: db.query<{ total: number }, []>('SELECT COUNT(*) as total FROM user_wallets'),
+        // 借贷不平的交易
+        getUnbalancedTxns: db.query<{ txn_id: string; total_debit: number; total_credit: number }, []>(`
+            SELECT txn_id, SUM(debit) as total_debit, SUM(credit) as total_credit
+            FROM ledger_entries
+            GROUP BY txn_id
+            HAVING SUM(debit) != SUM(credit)
+            LIMIT 100
+        `),
+        getTotals: db.query<{ total_debit: number; total_credit: number; entries: number; txns: number }, []>(`
+            SELECT COALESCE(SUM(debit), 0) as total_debit,
+                   COALESCE(SUM(credit), 0) as total_credit,
+                   COUNT(*) as entries,
+                   COUNT(DISTINCT txn_id) as txns
+            FROM ledger_entries
+        `),
+        // 尚无账本记录的钱包（用于补录期初余额）
+        getWalletsWithoutLedger: db.query<{ linux_do_id: string; balance_quota: number }, []>(`
+            SELECT w.linux_do_id, w.balance_quota
+            FROM user_wallets w
+            WHERE NOT EXISTS (
+                SELECT 1 FROM ledger_entries e WHERE e.account = 'wallet:' || w.linux_do_id
+            )
+        `),
+    };
+}
+
+export type LedgerQueries = ReturnType<typeof createLedgerQueries>;
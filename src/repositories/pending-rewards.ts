@@ -0,0 +1,50 @@
+/**
+ * 待发放奖金数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { LedgerReason, PendingReward, PendingRewardStatus } from '../types';
+
+export function createPendingRewardQueries(db: Database) {
+    return {
+        // 插入新的待发放奖金
+        // 参数：linux_do_id, kyx_user_id, username, reward_amount, reason, source, status, retry_count, error_message, created_at, updated_at
+        insert: db.query<void, [string, number, string, number, string, LedgerReason, PendingRewardStatus, number, string | null, number, number]>(
+            'INSERT INTO pending_rewards (linux_do_id, kyx_user_id, username, reward_amount, reason, source, status, retry_count, error_message, created_at, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ),
+        // 获取待发放的奖金（status = pending 或 failed）
+        getPending: db.query<PendingReward, []>(
+            "SELECT * FROM pending_rewards WHERE status IN ('pending', 'failed') ORDER BY created_at ASC LIMIT 50"
+        ),
+        // 获取所有奖金记录（包括成功的，用于管理后台查看）
+        getAll: db.query<PendingReward, []>(
+            "SELECT * FROM pending_rewards ORDER BY created_at DESC LIMIT 200"
+        ),
+        // 获取用户的待发放奖金
+        getByUser: db.query<PendingReward, string>(
+            "SELECT * FROM pending_rewards WHERE linux_do_id = ? ORDER BY created_at DESC"
+        ),
+        // 获取用户的待发放奖金数量和总金额
+        getUserPendingSummary: db.query<{ count: number; total_amount: number }, string>(
+            "SELECT COUNT(*) as count, COALESCE(SUM(reward_amount), 0) as total_amount FROM pending_rewards WHERE linux_do_id = ? AND status IN ('pending', 'processing', 'failed')"
+        ),
+        // 更新奖金状态
+        updateStatus: db.query<void, [PendingRewardStatus, number, string | null, number]>(
+            'UPDATE pending_rewards SET status = ?, updated_at = ?, error_message = ? WHERE id = ?'
+        ),
+        // 更新为成功
+        markSuccess: db.query<void, [PendingRewardStatus, number, number, number]>(
+            'UPDATE pending_rewards SET status = ?, processed_at = ?, updated_at = ? WHERE id = ?'
+        ),
+        // 增加重试次数
+        incrementRetry: db.query<void, [PendingRewardStatus, string | null, number, number]>(
+            'UPDATE pending_rewards SET retry_count = retry_count + 1, status = ?, error_message = ?, updated_at = ? WHERE id = ?'
+        ),
+        // 获取单条记录
+        getById: db.query<PendingReward, number>(
+            'SELECT * FROM pending_rewards WHERE id = ?'
+        ),
+    };
+}
+
+export type PendingRewardQueries = ReturnType<typeof createPendingRewardQueries>;
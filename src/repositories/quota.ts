@@ -0,0 +1,79 @@
+/**
+ * 上游额度变动队列数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { QuotaMutation, QuotaMutationMode } from '../types';
+
+export function createQuotaMutationQueries(db: Database) {
+    return {
+        insert: db.query<QuotaMutation, [number, number, string | null, number, QuotaMutationMode, string, number, number]>(
+            `INSERT INTO quota_mutations (upstream_id, kyx_user_id, linux_do_id, delta, mode, source, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        ),
+        // 按入队顺序取出某上游用户待处理的变动（一个批次合并写入）
+        getPendingByUser: db.query<QuotaMutation, [number, number, number]>(
+            `SELECT * FROM quota_mutations WHERE upstream_id = ? AND kyx_user_id = ? AND status = 'pending' ORDER BY id LIMIT ?`
+        ),
+        getPendingUsers: db.query<{ upstream_id: number; kyx_user_id: number }, []>(
+            `SELECT DISTINCT upstream_id, kyx_user_id FROM quota_mutations WHERE status = 'pending'`
+        ),
+        // 写入上游前记录批次的前后额度，崩溃恢复时据此判断是否已生效
+        getApplying: db.query<QuotaMutation, []>(
+            `SELECT * FROM quota_mutations WHERE status = 'applying' ORDER BY upstream_id, kyx_user_id, id`
+        ),
+        markApplying: db.query<void, [number, number, number, number, number]>(
+            `UPDATE quota_mutations SET status = 'applying', applied_delta = ?, quota_before = ?, quota_after = ?, updated_at = ?
+             WHERE id = ? AND status = 'pending'`
+        ),
+        markApplied: db.query<void, [number, number, number]>(
+            `UPDATE quota_mutations SET status = 'applied', error = NULL, updated_at = ?, applied_at = ? WHERE id = ? AND status = 'applying'`
+        ),
+        // 终止变动（rejected / failed / cancelled）
+        finish: db.query<void, ['rejected' | 'failed' | 'cancelled', string, number, number]>(
+            `UPDATE quota_mutations SET status = ?, error = ?, applied_delta = 0, attempts = attempts + 1, updated_at = ?
+             WHERE id = ? AND status IN ('pending', 'applying')`
+        ),
+        // 写入失败退回待处理，等待下次重试
+        retry: db.query<void, [string, number, number]>(
+            `UPDATE quota_mutations SET status = 'pending', error = ?, applied_delta = NULL, quota_before = NULL, quota_after = NULL,
+             attempts = attempts + 1, updated_at = ?
+             WHERE id = ? AND status IN ('pending', 'applying')`
+        ),
+        // 各用户队列深度
+        getQueueDepth: db.query<{
+            upstream_id: number;
+            kyx_user_id: number;
+            linux_do_id: string | null;
+            pending_count: number;
+            applying_count: number;
+            pending_delta: number;
+            oldest_created_at: number;
+            max_attempts: number;
+        }, []>(
+            `SELECT upstream_id, kyx_user_id, MAX(linux_do_id) as linux_do_id,
+                    SUM(CASE WHEN status = 'pending' THEN 1 ELSE 0 END) as pending_count,
+                    SUM(CASE WHEN status = 'applying' THEN 1 ELSE 0 END) as applying_count,
+                    SUM(delta) as pending_delta,
+                    MIN(created_at) as oldest_created_at,
+                    MAX(attempts) as max_attempts
+             FROM quota_mutations WHERE status IN ('pending', 'applying')
+             GROUP BY upstream_id, kyx_user_id ORDER BY pending_count DESC, oldest_created_at ASC`
+        ),
+        countByStatusSince: db.query<{ status: string; count: number }, number>(
+            'SELECT status, COUNT(*) as count FROM quota_mutations WHERE updated_at >= ? GROUP BY status'
+        ),
+        getByUser: db.query<QuotaMutation, [number, number, number]>(
+            'SELECT * FROM quota_mutations WHERE upstream_id = ? AND kyx_user_id = ? ORDER BY id DESC LIMIT ?'
+        ),
+        getRecentFailures: db.query<QuotaMutation, [number, number]>(
+            `SELECT * FROM quota_mutations WHERE status = 'failed' AND updated_at >= ? ORDER BY id DESC LIMIT ?`
+        ),
+        // 清理已结束的历史记录（failed 保留供人工核对）
+        cleanup: db.query<void, number>(
+            `DELETE FROM quota_mutations WHERE status IN ('applied', 'rejected', 'cancelled') AND updated_at < ?`
+        ),
+    };
+}
+
+export type QuotaMutationQueries = ReturnType<typeof createQuotaMutationQueries>;
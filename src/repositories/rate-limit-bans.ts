@@ -0,0 +1,59 @@
+/**
+ * 速率限制封禁记录数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { RateLimitBan } from '../types';
+
+export function createRateLimitBanQueries(db: Database) {
+    return {
+        // 插入封禁记录
+        // 参数：linux_do_id, username, ban_type, trigger_count, ban_reason, banned_at, banned_until, created_at
+        insert: db.query<void, [string, string, string, number, string, number, number, number]>(`
+            INSERT INTO rate_limit_bans (
+                linux_do_id, username, ban_type, trigger_count, ban_reason,
+                banned_at, banned_until, is_active, created_at
+            ) VALUES (?, ?, ?, ?, ?, ?, ?, 1, ?)
+        `),
+        // 获取用户当前活跃的封禁记录
+        getActiveBan: db.query<RateLimitBan, [string, number]>(`
+            SELECT * FROM rate_limit_bans
+            WHERE linux_do_id = ? AND is_active = 1 AND banned_until > ?
+            ORDER BY banned_until DESC LIMIT 1
+        `),
+        // 获取所有封禁记录（分页）
+        getAllPaginated: db.query<RateLimitBan, [number, number]>(`
+            SELECT * FROM rate_limit_bans
+            ORDER BY created_at DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 获取总记录数
+        getCount: db.query<{ total: number }, []>(`
+            SELECT COUNT(*) as total FROM rate_limit_bans
+        `),
+        // 按用户搜索
+        searchByUser: db.query<RateLimitBan, [string, string, number, number]>(`
+            SELECT * FROM rate_limit_bans
+            WHERE username LIKE ? OR linux_do_id LIKE ?
+            ORDER BY created_at DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 手动解封
+        // 参数：unbanned_at, unbanned_by, unban_reason, id
+        unban: db.query<void, [number, string, string, number]>(`
+            UPDATE rate_limit_bans
+            SET is_active = 0, unbanned_at = ?, unbanned_by = ?, unban_reason = ?
+            WHERE id = ?
+        `),
+        // 获取统计信息
+        getStats: db.query<{ total_bans: number; active_bans: number | null; unique_users: number }, []>(`
+            SELECT
+                COUNT(*) as total_bans,
+                SUM(CASE WHEN is_active = 1 THEN 1 ELSE 0 END) as active_bans,
+                COUNT(DISTINCT linux_do_id) as unique_users
+            FROM rate_limit_bans
+        `)
+    };
+}
+
+export type RateLimitBanQueries = ReturnType<typeof createRateLimitBanQueries>;
@@ -0,0 +1,62 @@
+/**
+ * RTP 控制器配置与决策记录数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { RtpControllerAction, RtpControllerConfig, RtpControllerDecision, RtpControllerMode } from '../types';
+
+type DecisionFields = [
+    RtpControllerMode, RtpControllerAction, string, number | null, number | null, number, number, number,
+    number | null, number | null, number | null, number
+];
+
+export function createRtpControllerQueries(db: Database) {
+    return {
+        getConfig: db.query<RtpControllerConfig, RtpControllerMode>('SELECT * FROM rtp_controller_config WHERE mode = ?'),
+        getAllConfigs: db.query<RtpControllerConfig, []>('SELECT * FROM rtp_controller_config ORDER BY mode'),
+        // 参数：enabled, target_rtp, window_hours, min_spins, deadband, cooldown_minutes, ladder, min_rtp, max_rtp, baseline_weight_config_id
+        updateConfig: db.query<void, [number, number | null, number, number, number, number, string, number, number, number | null, number, RtpControllerMode]>(
+            `UPDATE rtp_controller_config SET enabled = ?, target_rtp = ?, window_hours = ?, min_spins = ?, deadband = ?,
+             cooldown_minutes = ?, ladder = ?, min_rtp = ?, max_rtp = ?, baseline_weight_config_id = ?, updated_at = ? WHERE mode = ?`
+        ),
+        disable: db.query<void, [number, RtpControllerMode]>(
+            'UPDATE rtp_controller_config SET enabled = 0, updated_at = ? WHERE mode = ? AND enabled = 1'
+        ),
+
+        // 窗口内的实际投注与赔付
+        getAdvancedWindowStats: db.query<{ spins: number; bet: number | null; win: number | null }, number>(
+            `SELECT COUNT(*) as spins, SUM(bet_amount) as bet, SUM(win_amount) as win
+             FROM slot_machine_records WHERE slot_mode = 'advanced' AND timestamp >= ?`
+        ),
+        getSupremeWindowStats: db.query<{ spins: number; bet: number | null; win: number | null }, number>(
+            `SELECT COUNT(*) as spins, SUM(bet_amount) as bet, SUM(win_amount) as win
+             FROM supreme_slot_records WHERE timestamp >= ?`
+        ),
+
+        // 换档：仅当权重方案仍是决策时读到的值才写入，避免覆盖管理员同时做的修改
+        switchAdvancedWeight: db.query<void, [number, number, number]>(
+            'UPDATE advanced_slot_config SET weight_config_id = ?, updated_at = ? WHERE id = 1 AND weight_config_id = ?'
+        ),
+        switchSupremeWeight: db.query<void, [number, number, number]>(
+            'UPDATE supreme_slot_config SET weight_config_id = ?, updated_at = ? WHERE id = 1 AND weight_config_id = ?'
+        ),
+
+        insertDecision: db.query<RtpControllerDecision, DecisionFields>(
+            `INSERT INTO rtp_controller_decisions (mode, action, reason, target_rtp, realized_rtp, window_spins, window_bet, window_win,
+             previous_weight_config_id, new_weight_config_id, expected_rtp, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        ),
+        getDecisions: db.query<RtpControllerDecision, [number]>(
+            'SELECT * FROM rtp_controller_decisions ORDER BY id DESC LIMIT ?'
+        ),
+        getDecisionsByMode: db.query<RtpControllerDecision, [RtpControllerMode, number]>(
+            'SELECT * FROM rtp_controller_decisions WHERE mode = ? ORDER BY id DESC LIMIT ?'
+        ),
+        getLastSwitch: db.query<RtpControllerDecision, RtpControllerMode>(
+            `SELECT * FROM rtp_controller_decisions WHERE mode = ? AND action IN ('step_up', 'step_down') ORDER BY id DESC LIMIT 1`
+        ),
+        cleanupDecisions: db.query<void, number>('DELETE FROM rtp_controller_decisions WHERE created_at < ?'),
+    };
+}
+
+export type RtpControllerQueries = ReturnType<typeof createRtpControllerQueries>;
@@ -0,0 +1,64 @@
+/**
+ * 定时任务状态与执行历史数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { ScheduledJobRun, ScheduledJobState, ScheduledJobTrigger } from '../types';
+
+export function createSchedulerQueries(db: Database) {
+    return {
+        getAll: db.query<ScheduledJobState, []>(
+            'SELECT * FROM scheduled_jobs ORDER BY name'
+        ),
+        get: db.query<ScheduledJobState, string>(
+            'SELECT * FROM scheduled_jobs WHERE name = ?'
+        ),
+        // 注册任务：已存在时只更新 cron（表达式变化时由调用方重算 next_run_at）
+        upsert: db.query<void, [string, string, number | null, number]>(
+            `INSERT INTO scheduled_jobs (name, cron, next_run_at, updated_at) VALUES (?, ?, ?, ?)
+             ON CONFLICT(name) DO UPDATE SET cron = excluded.cron, updated_at = excluded.updated_at`
+        ),
+        setNextRun: db.query<void, [number | null, number, string]>(
+            'UPDATE scheduled_jobs SET next_run_at = ?, updated_at = ? WHERE name = ?'
+        ),
+        // 抢占执行锁：未加锁或锁已过期（持有进程异常退出）时才能获得
+        acquireLock: db.query<void, [string, number, number, string, number]>(
+            `UPDATE scheduled_jobs SET locked_by = ?, locked_at = ?, updated_at = ?
+             WHERE name = ? AND (locked_by IS NULL OR locked_at < ?)`
+        ),
+        // 释放锁并记录结果（只释放自己持有的锁）
+        finish: db.query<void, [number, 'success' | 'failed', string | null, number, number | null, number, string, string]>(
+            `UPDATE scheduled_jobs SET last_run_at = ?, last_status = ?, last_error = ?, last_duration_ms = ?, next_run_at = ?,
+             locked_by = NULL, locked_at = NULL, updated_at = ?
+             WHERE name = ? AND locked_by = ?`
+        ),
+        insertRun: db.query<{ id: number }, [string, ScheduledJobTrigger, number]>(
+            `INSERT INTO scheduled_job_runs (job_name, trigger, status, started_at) VALUES (?, ?, 'running', ?) RETURNING id`
+        ),
+        finishRun: db.query<void, [ScheduledJobRun['status'], number, number, string | null, string | null, number]>(
+            'UPDATE scheduled_job_runs SET status = ?, finished_at = ?, duration_ms = ?, error = ?, result = ? WHERE id = ?'
+        ),
+        // 进程中断遗留的 running 记录
+        markInterruptedRuns: db.query<void, [number, string]>(
+            `UPDATE scheduled_job_runs SET status = 'failed', finished_at = ?, error = '进程中断，任务未完成'
+             WHERE job_name = ? AND status = 'running'`
+        ),
+        getRuns: db.query<ScheduledJobRun, [string, number, number]>(
+            'SELECT * FROM scheduled_job_runs WHERE job_name = ? ORDER BY id DESC LIMIT ? OFFSET ?'
+        ),
+        getRecentFailures: db.query<ScheduledJobRun, [number, number]>(
+            `SELECT * FROM scheduled_job_runs WHERE status = 'failed' AND started_at >= ? ORDER BY id DESC LIMIT ?`
+        ),
+        countFailuresSince: db.query<{ job_name: string; count: number }, number>(
+            `SELECT job_name, COUNT(*) as count FROM scheduled_job_runs WHERE status = 'failed' AND started_at >= ? GROUP BY job_name`
+        ),
+        // 每个任务只保留最近 N 条历史
+        pruneRuns: db.query<void, [string, string, number]>(
+            `DELETE FROM scheduled_job_runs WHERE job_name = ? AND id NOT IN (
+                SELECT id FROM scheduled_job_runs WHERE job_name = ? ORDER BY id DESC LIMIT ?
+             )`
+        ),
+    };
+}
+
+export type SchedulerQueries = ReturnType<typeof createSchedulerQueries>;
@@ -0,0 +1,113 @@
+/**
+ * 权重配置方案与奖励配置方案数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { PunishmentLshConfig, RewardConfigScheme, RewardRule, SymbolWeightConfig } from '../types';
+
+// 十个符号的权重，顺序与表字段一致：m, t, n, j, lq, bj, zft, bdk, lsh, man
+type SymbolWeights = [number, number, number, number, number, number, number, number, number, number];
+
+export function createWeightConfigQueries(db: Database) {
+    return {
+        getAll: db.query<SymbolWeightConfig, []>(
+            'SELECT * FROM symbol_weight_configs WHERE is_deleted = 0 ORDER BY id ASC'
+        ),
+        getById: db.query<SymbolWeightConfig, number>(
+            'SELECT * FROM symbol_weight_configs WHERE id = ?'
+        ),
+        // 参数：同一权重配置ID传三次（初级场 / 高级场 / 至尊场）
+        getUsageInfo: db.query<{ usage_count: number }, [number, number, number]>(`
+            SELECT 
+                (SELECT COUNT(*) FROM slot_machine_config WHERE weight_config_id = ?) +
+                (SELECT COUNT(*) FROM advanced_slot_config WHERE weight_config_id = ?) +
+                (SELECT COUNT(*) FROM supreme_slot_config WHERE weight_config_id = ?) as usage_count
+        `),
+        // 参数：config_name, 十个符号权重, description, created_at, updated_at
+        insert: db.query<void, [string, ...SymbolWeights, string | null, number, number]>(
+            `INSERT INTO symbol_weight_configs (config_name, weight_m, weight_t, weight_n, weight_j, weight_lq, weight_bj, weight_zft, weight_bdk, weight_lsh, weight_man, description, is_deleted, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, 0, ?, ?)`
+        ),
+        // 参数：config_name, 十个符号权重, description, updated_at, id
+        update: db.query<void, [string, ...SymbolWeights, string | null, number, number]>(
+            `UPDATE symbol_weight_configs SET
+             config_name = ?, weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, weight_man = ?, description = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        softDelete: db.query<void, [number, number]>(
+            'UPDATE symbol_weight_configs SET is_deleted = 1, updated_at = ? WHERE id = ?'
+        ),
+    };
+}
+
+export type WeightConfigQueries = ReturnType<typeof createWeightConfigQueries>;
+
+// 规则可编辑字段，顺序与表字段一致：
+// rule_name, rule_type, rule_category, match_pattern, match_count, required_symbols, win_multiplier, grant_free_spin, priority, is_active, description
+type RuleFields = [string, string, string, string, number | null, string | null, number, number, number, number, string | null];
+
+export function createRewardConfigQueries(db: Database) {
+    return {
+        // 方案管理
+        getAllSchemes: db.query<RewardConfigScheme, []>(
+            'SELECT * FROM reward_config_schemes WHERE is_deleted = 0 ORDER BY id ASC'
+        ),
+        getSchemeById: db.query<RewardConfigScheme, number>(
+            'SELECT * FROM reward_config_schemes WHERE id = ?'
+        ),
+        // 参数：同一方案ID传三次（初级场 / 高级场 / 至尊场）
+        getSchemeUsageInfo: db.query<{ usage_count: number }, [number, number, number]>(`
+            SELECT 
+                (SELECT COUNT(*) FROM slot_machine_config WHERE reward_scheme_id = ?) +
+                (SELECT COUNT(*) FROM advanced_slot_config WHERE reward_scheme_id = ?) +
+                (SELECT COUNT(*) FROM supreme_slot_config WHERE reward_scheme_id = ?) as usage_count
+        `),
+        insertScheme: db.query<void, [string, string | null, number, number]>(
+            `INSERT INTO reward_config_schemes (scheme_name, description, is_deleted, created_at, updated_at)
+             VALUES (?, ?, 0, ?, ?)`
+        ),
+        updateScheme: db.query<void, [string, string | null, number, number]>(
+            `UPDATE reward_config_schemes SET scheme_name = ?, description = ?, updated_at = ? WHERE id = ?`
+        ),
+        softDeleteScheme: db.query<void, [number, number]>(
+            'UPDATE reward_config_schemes SET is_deleted = 1, updated_at = ? WHERE id = ?'
+        ),
+
+        // 规则管理
+        getRulesByScheme: db.query<RewardRule, number>(
+            'SELECT * FROM reward_rules WHERE scheme_id = ? ORDER BY priority DESC'
+        ),
+        getRuleById: db.query<RewardRule, number>(
+            'SELECT * FROM reward_rules WHERE id = ?'
+        ),
+        // 参数：scheme_id, 规则字段, created_at, updated_at
+        insertRule: db.query<void, [number, ...RuleFields, number, number]>(
+            `INSERT INTO reward_rules (scheme_id, rule_name, rule_type, rule_category, match_pattern, match_count, required_symbols, win_multiplier, grant_free_spin, priority, is_active, description, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ),
+        // 参数：规则字段, updated_at, id
+        updateRule: db.query<void, [...RuleFields, number, number]>(
+            `UPDATE reward_rules SET 
+             rule_name = ?, rule_type = ?, rule_category = ?, match_pattern = ?, match_count = ?, required_symbols = ?, win_multiplier = ?, grant_free_spin = ?, priority = ?, is_active = ?, description = ?, updated_at = ?
+             WHERE id = ?`
+        ),
+        deleteRule: db.query<void, number>(
+            'DELETE FROM reward_rules WHERE id = ?'
+        ),
+
+        // 律师函惩罚配置
+        getPunishmentsByScheme: db.query<PunishmentLshConfig, number>(
+            'SELECT * FROM punishment_lsh_configs WHERE scheme_id = ? ORDER BY lsh_count ASC'
+        ),
+        // 参数：scheme_id, lsh_count, deduct_multiplier, ban_hours, is_active, created_at, updated_at,
+        //      冲突时更新的 deduct_multiplier, ban_hours, is_active, updated_at
+        upsertPunishment: db.query<void, [number, number, number, number, number, number, number, number, number, number, number]>(
+            `INSERT INTO punishment_lsh_configs (scheme_id, lsh_count, deduct_multiplier, ban_hours, is_active, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(scheme_id, lsh_count) DO UPDATE SET
+             deduct_multiplier = ?, ban_hours = ?, is_active = ?, updated_at = ?`
+        ),
+    };
+}
+
+export type RewardConfigQueries = ReturnType<typeof createRewardConfigQueries>;
@@ -0,0 +1,21 @@
+/**
+ * Session 数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+
+export function createSessionQueries(db: Database) {
+    return {
+        get: db.query<{ data: string }, [string, number]>(
+            'SELECT data FROM sessions WHERE id = ? AND expires_at > ?'
+        ),
+        // 参数：id, data(JSON), expires_at
+        set: db.query<void, [string, string, number]>(
+            'INSERT OR REPLACE INTO sessions (id, data, expires_at) VALUES (?, ?, ?)'
+        ),
+        delete: db.query<void, string>('DELETE FROM sessions WHERE id = ?'),
+        cleanup: db.query<void, number>('DELETE FROM sessions WHERE expires_at < ?'),
+    };
+}
+
+export type SessionQueries = ReturnType<typeof createSessionQueries>;
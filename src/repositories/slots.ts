@@ -0,0 +1,469 @@
+/**
+ * 老虎机数据访问（初级场 / 高级场）
+ */
+
+import type { Database } from 'bun:sqlite';
+import type {
+    SlotMachineConfig,
+    SlotMachineRecord,
+    SlotSymbolWeights,
+    SlotRewardMultipliers,
+    UserFreeSpin,
+    UserSlotStats,
+    UserSlotDailyStats,
+    UserSlotWeeklyStats,
+    SlotLeaderboardEntry,
+    BuySpinsRecord,
+    UserTickets,
+    AdvancedSlotConfig,
+    TicketDropRecord,
+    AdvancedSlotRTPStats,
+    UserAdvancedEntry,
+    UserDailyTicketGrant,
+} from '../types';
+
+export function createSlotQueries(db: Database) {
+    return {
+        // 配置
+        getConfig: db.query<SlotMachineConfig, []>(
+            'SELECT * FROM slot_machine_config WHERE id = 1'
+        ),
+        updateConfig: db.query<void, [number, number, number, number, string, number, number, number, number]>(
+            'UPDATE slot_machine_config SET bet_amount = ?, max_daily_spins = ?, min_quota_required = ?, enabled = ?, background_type = ?, buy_spins_enabled = ?, buy_spins_price = ?, max_daily_buy_spins = ?, updated_at = ? WHERE id = 1'
+        ),
+
+        // 符号权重配置
+        getWeights: db.query<SlotSymbolWeights, []>(
+            'SELECT * FROM slot_symbol_weights WHERE id = 1'
+        ),
+        updateWeights: db.query<void, [number, number, number, number, number, number, number, number, number, number]>(
+            'UPDATE slot_symbol_weights SET weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, updated_at = ? WHERE id = 1'
+        ),
+
+        // 奖励倍数配置
+        getMultipliers: db.query<SlotRewardMultipliers, []>(
+            'SELECT * FROM slot_reward_multipliers WHERE id = 1'
+        ),
+        updateMultipliers: db.query<void, [number, number, number, number, number, number]>(
+            'UPDATE slot_reward_multipliers SET super_jackpot_multiplier = ?, special_combo_multiplier = ?, quad_multiplier = ?, triple_multiplier = ?, double_multiplier = ?, updated_at = ? WHERE id = 1'
+        ),
+
+        // 游戏记录
+        insertRecord: db.query<void, [string, string, string | null, number, string, string, number, number, number, number, string, string | null, number, string, number | null, number | null, string | null]>(
+            'INSERT INTO slot_machine_records (linux_do_id, username, linux_do_username, bet_amount, result_symbols, win_type, win_multiplier, win_amount, free_spin_awarded, is_free_spin, slot_mode, rule_name, timestamp, date, fair_seed_id, fair_nonce, fair_weights) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getRecordsByUser: db.query<SlotMachineRecord, string>(
+            'SELECT * FROM slot_machine_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
+        ),
+        getRecordsByUserAndMode: db.query<SlotMachineRecord, [string, string]>(
+            'SELECT * FROM slot_machine_records WHERE linux_do_id = ? AND slot_mode = ? ORDER BY timestamp DESC LIMIT 50'
+        ),
+        getAllRecords: db.query<SlotMachineRecord, []>(
+            'SELECT * FROM slot_machine_records ORDER BY timestamp DESC'
+        ),
+        getAllRecordsPaginated: db.query<SlotMachineRecord, [number, number]>(
+            'SELECT * FROM slot_machine_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
+        ),
+        getNormalRecordsPaginated: db.query<SlotMachineRecord, [number, number]>(
+            'SELECT * FROM slot_machine_records WHERE slot_mode = "normal" OR slot_mode IS NULL ORDER BY timestamp DESC LIMIT ? OFFSET ?'
+        ),
+        // 🚀 优化：按用户筛选初级场记录（支持分页）
+        getNormalRecordsByUserPaginated: db.query<SlotMachineRecord, [string, string, string, number, number]>(`
+            SELECT * FROM slot_machine_records
+            WHERE (slot_mode = "normal" OR slot_mode IS NULL)
+            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
+            ORDER BY timestamp DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 🚀 优化：按用户筛选初级场记录总数
+        countNormalRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
+            SELECT COUNT(*) as count FROM slot_machine_records
+            WHERE (slot_mode = "normal" OR slot_mode IS NULL)
+            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
+        `),
+        countRecords: db.query<{ count: number }, []>(
+            'SELECT COUNT(*) as count FROM slot_machine_records'
+        ),
+        countNormalRecords: db.query<{ count: number }, []>(
+            'SELECT COUNT(*) as count FROM slot_machine_records WHERE slot_mode = "normal" OR slot_mode IS NULL'
+        ),
+        // 🚀 优化：高级场记录分页
+        getAdvancedRecordsPaginated: db.query<SlotMachineRecord, [number, number]>(
+            'SELECT * FROM slot_machine_records WHERE slot_mode = "advanced" ORDER BY timestamp DESC LIMIT ? OFFSET ?'
+        ),
+        // 🚀 优化：按用户筛选高级场记录
+        getAdvancedRecordsByUserPaginated: db.query<SlotMachineRecord, [string, string, string, number, number]>(`
+            SELECT * FROM slot_machine_records
+            WHERE slot_mode = "advanced"
+            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
+            ORDER BY timestamp DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 🚀 优化：高级场记录总数
+        countAdvancedRecords: db.query<{ count: number }, []>(
+            'SELECT COUNT(*) as count FROM slot_machine_records WHERE slot_mode = "advanced"'
+        ),
+        // 🚀 优化：按用户筛选高级场记录总数
+        countAdvancedRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
+            SELECT COUNT(*) as count FROM slot_machine_records
+            WHERE slot_mode = "advanced"
+            AND (linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?)
+        `),
+        getTodaySpins: db.query<{ count: number }, [string, string]>(
+            "SELECT COUNT(*) as count FROM slot_machine_records WHERE linux_do_id = ? AND date = ? AND is_free_spin = 0 AND (slot_mode = 'normal' OR slot_mode IS NULL)"
+        ),
+        getTodayStats: db.query<{ total_bet: number; total_win: number; count: number }, [string, string]>(
+            "SELECT COALESCE(SUM(bet_amount), 0) as total_bet, COALESCE(SUM(win_amount), 0) as total_win, COUNT(*) as count FROM slot_machine_records WHERE linux_do_id = ? AND date = ? AND (slot_mode = 'normal' OR slot_mode IS NULL)"
+        ),
+        // 获取今日高级场投注总额
+        getAdvancedTodayBet: db.query<{ total_bet: number }, [string, string]>(
+            "SELECT COALESCE(SUM(bet_amount), 0) as total_bet FROM slot_machine_records WHERE linux_do_id = ? AND date = ? AND slot_mode = 'advanced'"
+        ),
+
+        // 免费次数
+        getFreeSpin: db.query<UserFreeSpin, string>(
+            'SELECT * FROM user_free_spins WHERE linux_do_id = ?'
+        ),
+        getAllFreeSpin: db.query<UserFreeSpin, []>(
+            'SELECT * FROM user_free_spins'
+        ),
+        setFreeSpin: db.query<void, [string, number, number, number]>(
+            'INSERT OR REPLACE INTO user_free_spins (linux_do_id, free_spins, banned_until, updated_at) VALUES (?, ?, ?, ?)'
+        ),
+        incrementFreeSpin: db.query<void, [string, number, number]>(
+            'INSERT INTO user_free_spins (linux_do_id, free_spins, updated_at) VALUES (?, 1, ?) ON CONFLICT(linux_do_id) DO UPDATE SET free_spins = free_spins + 1, updated_at = ?'
+        ),
+        decrementFreeSpin: db.query<void, [number, string]>(
+            'UPDATE user_free_spins SET free_spins = free_spins - 1, updated_at = ? WHERE linux_do_id = ? AND free_spins > 0'
+        ),
+        setBannedUntil: db.query<void, [string, number, number, string | null, number, number, number, number, string | null, number, number]>(
+            'INSERT INTO user_free_spins (linux_do_id, free_spins, banned_at, banned_until, ban_slot_mode, ban_hours, updated_at) VALUES (?, 0, ?, ?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET banned_at = ?, banned_until = ?, ban_slot_mode = ?, ban_hours = ?, updated_at = ?'
+        ),
+
+        // 用户统计
+        getUserStats: db.query<UserSlotStats, string>(
+            'SELECT * FROM user_slot_stats WHERE linux_do_id = ?'
+        ),
+        updateUserStats: db.query<void, [string, string, string | null, number, number, number, number, string | null, number]>(
+            'INSERT OR REPLACE INTO user_slot_stats (linux_do_id, username, avatar_url, total_spins, total_bet, total_win, biggest_win, biggest_win_type, updated_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getLeaderboard: db.query<SlotLeaderboardEntry, number>(
+            `SELECT 
+                s.linux_do_id, 
+                COALESCE(u.linux_do_username, s.username, u.username) as username,
+                s.avatar_url, 
+                s.total_spins, 
+                s.total_bet, 
+                s.total_win, 
+                s.biggest_win, 
+                s.biggest_win_type,
+                (s.total_win - s.total_bet) as profit
+            FROM user_slot_stats s
+            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
+            WHERE (s.total_win - s.total_bet) >= 0
+            ORDER BY (s.total_win - s.total_bet) DESC 
+            LIMIT ?`
+        ),
+        getLossLeaderboard: db.query<SlotLeaderboardEntry, number>(
+            `SELECT 
+                s.linux_do_id, 
+                COALESCE(u.linux_do_username, s.username, u.username) as username,
+                s.avatar_url, 
+                s.total_spins, 
+                s.total_bet, 
+                s.total_win, 
+                s.biggest_win, 
+                s.biggest_win_type,
+                (s.total_win - s.total_bet) as profit
+            FROM user_slot_stats s
+            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
+            WHERE (s.total_win - s.total_bet) < 0
+            ORDER BY (s.total_win - s.total_bet) ASC 
+            LIMIT ?`
+        ),
+        getUserRank: db.query<{ rank: number }, string>(
+            'SELECT COUNT(*) + 1 as rank FROM user_slot_stats WHERE (total_win - total_bet) > (SELECT (total_win - total_bet) FROM user_slot_stats WHERE linux_do_id = ?)'
+        ),
+        getUserLossRank: db.query<{ rank: number }, string>(
+            'SELECT COUNT(*) + 1 as rank FROM user_slot_stats WHERE (total_win - total_bet) < (SELECT (total_win - total_bet) FROM user_slot_stats WHERE linux_do_id = ?)'
+        ),
+
+        // 日榜相关
+        updateDailyStats: db.query<void, [string, string, string | null, string, number, number, number, number, string | null, number]>(
+            `INSERT INTO user_slot_daily_stats (linux_do_id, username, avatar_url, date, total_spins, total_bet, total_win, biggest_win, biggest_win_type, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id, date) DO UPDATE SET
+                username = excluded.username,
+                avatar_url = excluded.avatar_url,
+                total_spins = excluded.total_spins,
+                total_bet = excluded.total_bet,
+                total_win = excluded.total_win,
+                biggest_win = excluded.biggest_win,
+                biggest_win_type = excluded.biggest_win_type,
+                updated_at = excluded.updated_at`
+        ),
+        getDailyLeaderboard: db.query<SlotLeaderboardEntry, [string, number]>(
+            `SELECT 
+                s.linux_do_id, 
+                COALESCE(u.linux_do_username, s.username, u.username) as username,
+                s.avatar_url, 
+                s.total_spins, 
+                s.total_bet, 
+                s.total_win, 
+                s.biggest_win, 
+                s.biggest_win_type,
+                (s.total_win - s.total_bet) as profit
+            FROM user_slot_daily_stats s
+            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
+            WHERE s.date = ? AND (s.total_win - s.total_bet) >= 0
+            ORDER BY (s.total_win - s.total_bet) DESC 
+            LIMIT ?`
+        ),
+        getDailyLossLeaderboard: db.query<SlotLeaderboardEntry, [string, number]>(
+            `SELECT 
+                s.linux_do_id, 
+                COALESCE(u.linux_do_username, s.username, u.username) as username,
+                s.avatar_url, 
+                s.total_spins, 
+                s.total_bet, 
+                s.total_win, 
+                s.biggest_win, 
+                s.biggest_win_type,
+                (s.total_win - s.total_bet) as profit
+            FROM user_slot_daily_stats s
+            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
+            WHERE s.date = ? AND (s.total_win - s.total_bet) < 0
+            ORDER BY (s.total_win - s.total_bet) ASC 
+            LIMIT ?`
+        ),
+        getUserDailyRank: db.query<{ rank: number }, [string, string, string]>(
+            'SELECT COUNT(*) + 1 as rank FROM user_slot_daily_stats WHERE date = ? AND (total_win - total_bet) > (SELECT (total_win - total_bet) FROM user_slot_daily_stats WHERE linux_do_id = ? AND date = ?)'
+        ),
+        getUserDailyLossRank: db.query<{ rank: number }, [string, string, string]>(
+            'SELECT COUNT(*) + 1 as rank FROM user_slot_daily_stats WHERE date = ? AND (total_win - total_bet) < (SELECT (total_win - total_bet) FROM user_slot_daily_stats WHERE linux_do_id = ? AND date = ?)'
+        ),
+        getUserDailyStats: db.query<UserSlotDailyStats, [string, string]>(
+            'SELECT * FROM user_slot_daily_stats WHERE linux_do_id = ? AND date = ?'
+        ),
+        cleanOldDailyStats: db.query<void, string>(
+            'DELETE FROM user_slot_daily_stats WHERE date < ?'
+        ),
+
+        // 周榜相关
+        updateWeeklyStats: db.query<void, [string, string, string | null, string, number, number, number, number, string | null, number]>(
+            `INSERT INTO user_slot_weekly_stats (linux_do_id, username, avatar_url, week_start, total_spins, total_bet, total_win, biggest_win, biggest_win_type, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id, week_start) DO UPDATE SET
+                username = excluded.username,
+                avatar_url = excluded.avatar_url,
+                total_spins = excluded.total_spins,
+                total_bet = excluded.total_bet,
+                total_win = excluded.total_win,
+                biggest_win = excluded.biggest_win,
+                biggest_win_type = excluded.biggest_win_type,
+                updated_at = excluded.updated_at`
+        ),
+        getWeeklyLeaderboard: db.query<SlotLeaderboardEntry, [string, number]>(
+            `SELECT 
+                s.linux_do_id, 
+                COALESCE(u.linux_do_username, s.username, u.username) as username,
+                s.avatar_url, 
+                s.total_spins, 
+                s.total_bet, 
+                s.total_win, 
+                s.biggest_win, 
+                s.biggest_win_type,
+                (s.total_win - s.total_bet) as profit
+            FROM user_slot_weekly_stats s
+            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
+            WHERE s.week_start = ? AND (s.total_win - s.total_bet) >= 0
+            ORDER BY (s.total_win - s.total_bet) DESC 
+            LIMIT ?`
+        ),
+        getWeeklyLossLeaderboard: db.query<SlotLeaderboardEntry, [string, number]>(
+            `SELECT 
+                s.linux_do_id, 
+                COALESCE(u.linux_do_username, s.username, u.username) as username,
+                s.avatar_url, 
+                s.total_spins, 
+                s.total_bet, 
+                s.total_win, 
+                s.biggest_win, 
+                s.biggest_win_type,
+                (s.total_win - s.total_bet) as profit
+            FROM user_slot_weekly_stats s
+            LEFT JOIN users u ON s.linux_do_id = u.linux_do_id
+            WHERE s.week_start = ? AND (s.total_win - s.total_bet) < 0
+            ORDER BY (s.total_win - s.total_bet) ASC 
+            LIMIT ?`
+        ),
+        getUserWeeklyRank: db.query<{ rank: number }, [string, string, string]>(
+            'SELECT COUNT(*) + 1 as rank FROM user_slot_weekly_stats WHERE week_start = ? AND (total_win - total_bet) > (SELECT (total_win - total_bet) FROM user_slot_weekly_stats WHERE linux_do_id = ? AND week_start = ?)'
+        ),
+        getUserWeeklyLossRank: db.query<{ rank: number }, [string, string, string]>(
+            'SELECT COUNT(*) + 1 as rank FROM user_slot_weekly_stats WHERE week_start = ? AND (total_win - total_bet) < (SELECT (total_win - total_bet) FROM user_slot_weekly_stats WHERE linux_do_id = ? AND week_start = ?)'
+        ),
+        getUserWeeklyStats: db.query<UserSlotWeeklyStats, [string, string]>(
+            'SELECT * FROM user_slot_weekly_stats WHERE linux_do_id = ? AND week_start = ?'
+        ),
+        cleanOldWeeklyStats: db.query<void, string>(
+            'DELETE FROM user_slot_weekly_stats WHERE week_start < ?'
+        ),
+
+        // 购买次数记录
+        insertBuySpinsRecord: db.query<void, [string, string, string | null, number, number, number, string]>(
+            'INSERT INTO buy_spins_records (linux_do_id, username, linux_do_username, spins_count, price_paid, timestamp, date) VALUES (?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getTodayBuySpinsCount: db.query<{ total: number }, [string, string]>(
+            'SELECT COALESCE(SUM(spins_count), 0) as total FROM buy_spins_records WHERE linux_do_id = ? AND date = ?'
+        ),
+        getBuySpinsRecordsByUser: db.query<BuySpinsRecord, string>(
+            'SELECT * FROM buy_spins_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
+        ),
+        getAllBuySpinsRecords: db.query<BuySpinsRecord, []>(
+            'SELECT * FROM buy_spins_records ORDER BY timestamp DESC'
+        ),
+    };
+}
+
+export type SlotQueries = ReturnType<typeof createSlotQueries>;
+
+export function createAdvancedSlotQueries(db: Database) {
+    return {
+        // 入场券和碎片管理
+        getTickets: db.query<UserTickets, string>(
+            'SELECT * FROM user_tickets WHERE linux_do_id = ?'
+        ),
+        upsertTickets: db.query<void, [string, number, number, number | null, number | null, number]>(
+            `INSERT INTO user_tickets (linux_do_id, tickets, fragments, tickets_expires_at, advanced_mode_until, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET
+             tickets = excluded.tickets,
+             fragments = excluded.fragments,
+             tickets_expires_at = excluded.tickets_expires_at,
+             advanced_mode_until = excluded.advanced_mode_until,
+             updated_at = excluded.updated_at`
+        ),
+        addTickets: db.query<void, [string, number, number, number, number, number, number, number]>(
+            `INSERT INTO user_tickets (linux_do_id, tickets, tickets_expires_at, updated_at)
+             VALUES (?, ?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET
+             tickets = MIN(tickets + ?, ?),
+             tickets_expires_at = ?,
+             updated_at = ?`
+        ),
+        addFragments: db.query<void, [string, number, number, number, number]>(
+            `INSERT INTO user_tickets (linux_do_id, fragments, updated_at)
+             VALUES (?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET
+             fragments = fragments + ?,
+             updated_at = ?`
+        ),
+        useTicket: db.query<void, [number, number, string]>(
+            `UPDATE user_tickets SET 
+             tickets = tickets - 1,
+             advanced_mode_until = ?,
+             updated_at = ?
+             WHERE linux_do_id = ? AND tickets > 0`
+        ),
+        clearExpiredTickets: db.query<void, [number, string, number]>(
+            `UPDATE user_tickets 
+             SET tickets = 0, tickets_expires_at = NULL, updated_at = ?
+             WHERE linux_do_id = ? AND tickets_expires_at < ?`
+        ),
+        exitAdvancedMode: db.query<void, [number, string]>(
+            `UPDATE user_tickets
+             SET advanced_mode_until = NULL, updated_at = ?
+             WHERE linux_do_id = ?`
+        ),
+
+        // 高级场配置
+        getAdvancedConfig: db.query<AdvancedSlotConfig, []>(
+            'SELECT * FROM advanced_slot_config WHERE id = 1'
+        ),
+        updateAdvancedConfig: db.query<void, [number, number, number, number, number, number, number, number, number, number, number, number, number, number, number, number]>(
+            `UPDATE advanced_slot_config SET
+             enabled = ?,
+             bet_min = ?,
+             bet_max = ?,
+             reward_multiplier = ?,
+             penalty_weight_factor = ?,
+             rtp_target = ?,
+             ticket_valid_hours = ?,
+             session_valid_hours = ?,
+             fragments_needed = ?,
+             drop_rate_triple = ?,
+             drop_rate_double = ?,
+             max_tickets_hold = ?,
+             daily_bet_limit = ?,
+             daily_entry_limit = ?,
+             daily_ticket_grant_limit = ?,
+             updated_at = ?
+             WHERE id = 1`
+        ),
+
+        // 入场券掉落记录
+        insertDropRecord: db.query<void, [string, string, 'ticket' | 'fragment', number, string, number, string]>(
+            'INSERT INTO ticket_drop_records (linux_do_id, username, drop_type, drop_count, trigger_win_type, timestamp, date) VALUES (?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getDropRecordsByUser: db.query<TicketDropRecord, string>(
+            'SELECT * FROM ticket_drop_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
+        ),
+        getAllDropRecords: db.query<TicketDropRecord, []>(
+            'SELECT * FROM ticket_drop_records ORDER BY timestamp DESC LIMIT 200'
+        ),
+
+        // RTP 统计
+        getRTPStats: db.query<AdvancedSlotRTPStats, string>(
+            'SELECT * FROM advanced_slot_rtp_stats WHERE linux_do_id = ?'
+        ),
+        updateRTPStats: db.query<void, [string, number, number, number, number, number, number, number, number]>(
+            `INSERT INTO advanced_slot_rtp_stats (linux_do_id, total_bet, total_win, rtp, games_count, last_updated)
+             VALUES (?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET
+             total_bet = total_bet + ?,
+             total_win = total_win + ?,
+             rtp = CAST(total_win AS REAL) / CAST(total_bet AS REAL),
+             games_count = games_count + 1,
+             last_updated = ?`
+        ),
+        getAllRTPStats: db.query<AdvancedSlotRTPStats, []>(
+            'SELECT * FROM advanced_slot_rtp_stats ORDER BY games_count DESC LIMIT 100'
+        ),
+
+        // 高级场符号权重
+        getAdvancedWeights: db.query<SlotSymbolWeights, []>(
+            'SELECT * FROM advanced_slot_symbol_weights WHERE id = 1'
+        ),
+        updateAdvancedWeights: db.query<void, [number, number, number, number, number, number, number, number, number, number]>(
+            'UPDATE advanced_slot_symbol_weights SET weight_m = ?, weight_t = ?, weight_n = ?, weight_j = ?, weight_lq = ?, weight_bj = ?, weight_zft = ?, weight_bdk = ?, weight_lsh = ?, updated_at = ? WHERE id = 1'
+        ),
+
+        // 用户每日进入高级场记录
+        getTodayEntry: db.query<UserAdvancedEntry, [string, string]>(
+            'SELECT * FROM user_advanced_entries WHERE linux_do_id = ? AND entry_date = ?'
+        ),
+        updateTodayEntry: db.query<void, [string, string, number, number]>(
+            `INSERT INTO user_advanced_entries (linux_do_id, entry_date, entry_count, last_entry_time)
+             VALUES (?, ?, 1, ?)
+             ON CONFLICT(linux_do_id, entry_date) DO UPDATE SET
+             entry_count = entry_count + 1,
+             last_entry_time = ?`
+        ),
+
+        // 用户每日入场券获得记录
+        getTodayGrant: db.query<UserDailyTicketGrant, [string, string]>(
+            'SELECT * FROM user_daily_ticket_grants WHERE linux_do_id = ? AND grant_date = ?'
+        ),
+        updateTodayTicketGrant: db.query<void, [string, string, number, number, number, number, number, number]>(
+            `INSERT INTO user_daily_ticket_grants (linux_do_id, grant_date, ticket_granted, fragment_granted, last_grant_time)
+             VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id, grant_date) DO UPDATE SET
+             ticket_granted = ticket_granted + ?,
+             fragment_granted = fragment_granted + ?,
+             last_grant_time = ?`
+        ),
+    };
+}
+
+export type AdvancedSlotQueries = ReturnType<typeof createAdvancedSlotQueries>;
@@ -0,0 +1,103 @@
+/**
+ * 至尊场数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type {
+    SupremeUserTokens,
+    SupremeSlotConfig,
+    SupremeSlotRecord,
+    SupremeTokenDropRecord,
+    SupremeDailyEntry,
+    SupremeDailyTokenGrant,
+} from '../types';
+
+export function createSupremeSlotQueries(db: Database) {
+    return {
+        // 令牌管理
+        getTokens: db.query<SupremeUserTokens, string>(
+            'SELECT * FROM supreme_user_tokens WHERE linux_do_id = ?'
+        ),
+        upsertTokens: db.query<void, [string, number, number, number | null, number | null, number, number]>(
+            `INSERT INTO supreme_user_tokens (linux_do_id, tokens, fragments, tokens_expires_at, supreme_mode_until, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id) DO UPDATE SET
+             tokens = excluded.tokens, fragments = excluded.fragments, tokens_expires_at = excluded.tokens_expires_at, supreme_mode_until = excluded.supreme_mode_until, updated_at = excluded.updated_at`
+        ),
+        useToken: db.query<void, [number, number, string]>(
+            `UPDATE supreme_user_tokens SET tokens = tokens - 1, supreme_mode_until = ?, updated_at = ? WHERE linux_do_id = ? AND tokens > 0`
+        ),
+        exitSupremeMode: db.query<void, [number, string]>(
+            `UPDATE supreme_user_tokens SET supreme_mode_until = NULL, updated_at = ? WHERE linux_do_id = ?`
+        ),
+
+        // 至尊场配置
+        getConfig: db.query<SupremeSlotConfig, []>(
+            'SELECT * FROM supreme_slot_config WHERE id = 1'
+        ),
+        updateConfig: db.query<void, [number, number, number, number, number, number, number, number, number, number, number, number, number, number]>(
+            `UPDATE supreme_slot_config SET enabled = ?, fragments_to_token = ?, max_tokens_hold = ?, token_valid_hours = ?, session_valid_hours = ?, min_bet_amount = ?, max_bet_amount = ?, bet_step = ?, daily_entry_limit = ?, daily_token_grant_limit = ?, daily_bet_limit = ?, weight_config_id = ?, reward_scheme_id = ?, updated_at = ? WHERE id = 1`
+        ),
+
+        // 游戏记录
+        insertRecord: db.query<void, [string, string, string | null, number, string, string, number, number, string | null, number, string, number, number | null, number | null, string | null]>(
+            'INSERT INTO supreme_slot_records (linux_do_id, username, linux_do_username, bet_amount, result_symbols, win_type, win_multiplier, win_amount, rule_name, timestamp, date, created_at, fair_seed_id, fair_nonce, fair_weights) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getRecordsByUser: db.query<SupremeSlotRecord, string>(
+            'SELECT * FROM supreme_slot_records WHERE linux_do_id = ? ORDER BY timestamp DESC LIMIT 50'
+        ),
+        getAllRecords: db.query<SupremeSlotRecord, []>(
+            'SELECT * FROM supreme_slot_records ORDER BY timestamp DESC LIMIT 200'
+        ),
+        // 🚀 优化：至尊场记录分页
+        getAllRecordsPaginated: db.query<SupremeSlotRecord, [number, number]>(
+            'SELECT * FROM supreme_slot_records ORDER BY timestamp DESC LIMIT ? OFFSET ?'
+        ),
+        // 🚀 优化：按用户筛选至尊场记录
+        getRecordsByUserPaginated: db.query<SupremeSlotRecord, [string, string, string, number, number]>(`
+            SELECT * FROM supreme_slot_records
+            WHERE linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?
+            ORDER BY timestamp DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 🚀 优化：至尊场记录总数
+        countRecords: db.query<{ count: number }, []>(
+            'SELECT COUNT(*) as count FROM supreme_slot_records'
+        ),
+        // 🚀 优化：按用户筛选至尊场记录总数
+        countRecordsByUser: db.query<{ count: number }, [string, string, string]>(`
+            SELECT COUNT(*) as count FROM supreme_slot_records
+            WHERE linux_do_id = ? OR linux_do_username LIKE ? OR username LIKE ?
+        `),
+
+        // 掉落记录
+        insertDropRecord: db.query<void, [string, string, string, number, string, string | null, number, string, number]>(
+            'INSERT INTO supreme_token_drop_records (linux_do_id, username, drop_type, drop_count, source, trigger_win_type, timestamp, date, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
+        ),
+        getAllDropRecords: db.query<SupremeTokenDropRecord, []>(
+            'SELECT * FROM supreme_token_drop_records ORDER BY timestamp DESC LIMIT 200'
+        ),
+
+        // 每日进入记录
+        getTodayEntry: db.query<SupremeDailyEntry, [string, string]>(
+            'SELECT * FROM supreme_daily_entries WHERE linux_do_id = ? AND entry_date = ?'
+        ),
+        updateTodayEntry: db.query<void, [string, string, number, number]>(
+            `INSERT INTO supreme_daily_entries (linux_do_id, entry_date, entry_count, last_entry_time)
+             VALUES (?, ?, 1, ?)
+             ON CONFLICT(linux_do_id, entry_date) DO UPDATE SET entry_count = entry_count + 1, last_entry_time = ?`
+        ),
+
+        // 每日令牌获得记录
+        getTodayGrant: db.query<SupremeDailyTokenGrant, [string, string]>(
+            'SELECT * FROM supreme_daily_token_grants WHERE linux_do_id = ? AND grant_date = ?'
+        ),
+        updateTodayGrant: db.query<void, [string, string, number, number, number, number, number, number]>(
+            `INSERT INTO supreme_daily_token_grants (linux_do_id, grant_date, tokens_granted, fragments_granted, last_grant_time)
+             VALUES (?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id, grant_date) DO UPDATE SET tokens_granted = tokens_granted + ?, fragments_granted = fragments_granted + ?, last_grant_time = ?`
+        ),
+    };
+}
+
+export type SupremeSlotQueries = ReturnType<typeof createSupremeSlotQueries>;
@@ -0,0 +1,62 @@
+/**
+ * 上游站点注册表与用户绑定数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { Upstream, UserUpstreamBinding } from '../types';
+
+type UpstreamFields = [string, string, string, string, number, number | null, number | null, number];
+
+export function createUpstreamQueries(db: Database) {
+    return {
+        getAll: db.query<Upstream, []>('SELECT * FROM upstreams ORDER BY id'),
+        getEnabled: db.query<Upstream, []>('SELECT * FROM upstreams WHERE enabled = 1 ORDER BY id'),
+        getById: db.query<Upstream, number>('SELECT * FROM upstreams WHERE id = ?'),
+        // 参数：name, base_url, session, new_api_user, quota_per_unit, modelscope_group_id, iflow_group_id, enabled
+        insert: db.query<Upstream, [...UpstreamFields, number, number]>(
+            `INSERT INTO upstreams (name, base_url, session, new_api_user, quota_per_unit, modelscope_group_id, iflow_group_id, enabled, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING *`
+        ),
+        update: db.query<void, [...UpstreamFields, number, number]>(
+            `UPDATE upstreams SET name = ?, base_url = ?, session = ?, new_api_user = ?, quota_per_unit = ?,
+             modelscope_group_id = ?, iflow_group_id = ?, enabled = ?, updated_at = ? WHERE id = ?`
+        ),
+        countBindings: db.query<{ count: number }, number>(
+            'SELECT COUNT(*) as count FROM user_upstreams WHERE upstream_id = ?'
+        ),
+
+        // 用户绑定
+        getBindings: db.query<UserUpstreamBinding & { upstream_name: string; enabled: number }, string>(
+            `SELECT b.*, u.name as upstream_name, u.enabled FROM user_upstreams b
+             JOIN upstreams u ON u.id = b.upstream_id
+             WHERE b.linux_do_id = ? ORDER BY b.upstream_id`
+        ),
+        getBinding: db.query<UserUpstreamBinding, [string, number]>(
+            'SELECT * FROM user_upstreams WHERE linux_do_id = ? AND upstream_id = ?'
+        ),
+        getPayoutBinding: db.query<UserUpstreamBinding, string>(
+            'SELECT * FROM user_upstreams WHERE linux_do_id = ? AND is_payout = 1'
+        ),
+        getBindingByKyxUser: db.query<UserUpstreamBinding, [number, number]>(
+            'SELECT * FROM user_upstreams WHERE upstream_id = ? AND kyx_user_id = ?'
+        ),
+        // 重新绑定时更新公益站账号，保留收款设置
+        upsertBinding: db.query<void, [string, number, number, string, number, number, number]>(
+            `INSERT INTO user_upstreams (linux_do_id, upstream_id, kyx_user_id, username, is_payout, created_at, updated_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?)
+             ON CONFLICT(linux_do_id, upstream_id) DO UPDATE SET
+               kyx_user_id = excluded.kyx_user_id, username = excluded.username, updated_at = excluded.updated_at`
+        ),
+        clearPayout: db.query<void, [number, string]>(
+            'UPDATE user_upstreams SET is_payout = 0, updated_at = ? WHERE linux_do_id = ? AND is_payout = 1'
+        ),
+        setPayout: db.query<void, [number, string, number]>(
+            'UPDATE user_upstreams SET is_payout = 1, updated_at = ? WHERE linux_do_id = ? AND upstream_id = ?'
+        ),
+        deleteBinding: db.query<void, [string, number]>(
+            'DELETE FROM user_upstreams WHERE linux_do_id = ? AND upstream_id = ?'
+        ),
+    };
+}
+
+export type UpstreamQueries = ReturnType<typeof createUpstreamQueries>;
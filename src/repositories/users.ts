@@ -0,0 +1,114 @@
+/**
+ * 用户数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { User } from '../types';
+
+/**
+ * 用户列表行（含领取/投喂统计）
+ */
+export interface UserWithStats extends User {
+    claim_count: number;
+    total_claim_quota: number;
+    donate_count: number;
+    total_donate_quota: number;
+}
+
+export function createUserQueries(db: Database) {
+    return {
+        get: db.query<User, string>('SELECT * FROM users WHERE linux_do_id = ?'),
+        getByUsername: db.query<User, string>('SELECT * FROM users WHERE username = ?'),
+        getByLinuxDoUsername: db.query<User, string>('SELECT * FROM users WHERE linux_do_username = ?'),
+        searchByUsername: db.query<User, [string, string]>(
+            'SELECT * FROM users WHERE username LIKE ? OR linux_do_username LIKE ? LIMIT 50'
+        ),
+        insert: db.query<void, [string, string, string | null, number, number]>(
+            'INSERT INTO users (linux_do_id, username, linux_do_username, kyx_user_id, created_at) VALUES (?, ?, ?, ?, ?)'
+        ),
+        update: db.query<void, [string, string | null, number, string]>(
+            'UPDATE users SET username = ?, linux_do_username = ?, kyx_user_id = ? WHERE linux_do_id = ?'
+        ),
+        getAll: db.query<User, []>('SELECT * FROM users'),
+        // 🚀 优化：使用 JOIN 聚合获取用户统计（替代内存中过滤）
+        getAllWithStats: db.query<UserWithStats, [number, number]>(`
+            SELECT
+                u.*,
+                COALESCE(c.claim_count, 0) as claim_count,
+                COALESCE(c.total_claim_quota, 0) as total_claim_quota,
+                COALESCE(d.donate_count, 0) as donate_count,
+                COALESCE(d.total_donate_quota, 0) as total_donate_quota
+            FROM users u
+            LEFT JOIN (
+                SELECT linux_do_id,
+                       COUNT(*) as claim_count,
+                       SUM(quota_added) as total_claim_quota
+                FROM claim_records
+                GROUP BY linux_do_id
+            ) c ON u.linux_do_id = c.linux_do_id
+            LEFT JOIN (
+                SELECT linux_do_id,
+                       SUM(keys_count) as donate_count,
+                       SUM(total_quota_added) as total_donate_quota
+                FROM donate_records
+                GROUP BY linux_do_id
+            ) d ON u.linux_do_id = d.linux_do_id
+            ORDER BY u.created_at DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 🚀 优化：搜索用户（支持用户名和LinuxDo用户名）
+        searchWithStats: db.query<UserWithStats, [string, string, number, number]>(`
+            SELECT
+                u.*,
+                COALESCE(c.claim_count, 0) as claim_count,
+                COALESCE(c.total_claim_quota, 0) as total_claim_quota,
+                COALESCE(d.donate_count, 0) as donate_count,
+                COALESCE(d.total_donate_quota, 0) as total_donate_quota
+            FROM users u
+            LEFT JOIN (
+                SELECT linux_do_id,
+                       COUNT(*) as claim_count,
+                       SUM(quota_added) as total_claim_quota
+                FROM claim_records
+                GROUP BY linux_do_id
+            ) c ON u.linux_do_id = c.linux_do_id
+            LEFT JOIN (
+                SELECT linux_do_id,
+                       SUM(keys_count) as donate_count,
+                       SUM(total_quota_added) as total_donate_quota
+                FROM donate_records
+                GROUP BY linux_do_id
+            ) d ON u.linux_do_id = d.linux_do_id
+            WHERE u.username LIKE ? OR u.linux_do_username LIKE ?
+            ORDER BY u.created_at DESC
+            LIMIT ? OFFSET ?
+        `),
+        // 🚀 优化：统计搜索结果数量
+        countSearch: db.query<{ count: number }, [string, string]>(`
+            SELECT COUNT(*) as count FROM users
+            WHERE username LIKE ? OR linux_do_username LIKE ?
+        `),
+        // 🚀 优化：获取用户总数（用于分页）
+        count: db.query<{ count: number }, []>('SELECT COUNT(*) as count FROM users'),
+        getAllLinuxDoIds: db.query<{ linux_do_id: string }, []>('SELECT linux_do_id FROM users WHERE is_banned = 0'),
+        getBannedUsers: db.query<User, []>('SELECT * FROM users WHERE is_banned = 1 ORDER BY banned_at DESC'),
+        ban: db.query<void, [number, string, string]>(
+            'UPDATE users SET is_banned = 1, banned_at = ?, banned_reason = ? WHERE linux_do_id = ?'
+        ),
+        unban: db.query<void, string>(
+            'UPDATE users SET is_banned = 0, banned_at = NULL, banned_reason = NULL WHERE linux_do_id = ?'
+        ),
+        delete: db.query<void, string>(
+            'DELETE FROM users WHERE linux_do_id = ?'
+        ),
+        // 连击计数器（用于连续中奖成就）
+        updateWinStreak: db.query<void, [number, string]>(
+            'UPDATE users SET win_streak = ? WHERE linux_do_id = ?'
+        ),
+        getWinStreak: db.query<{ win_streak: number }, string>(
+            'SELECT win_streak FROM users WHERE linux_do_id = ?'
+        ),
+    };
+}
+
+export type UserQueries = ReturnType<typeof createUserQueries>;
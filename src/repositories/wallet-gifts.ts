@@ -0,0 +1,57 @@
+/**
+ * 钱包赠送数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { WalletGift, WalletGiftListType } from '../types';
+
+export function createWalletGiftQueries(db: Database) {
+    return {
+        // 参数：sender_id, sender_name, receiver_id, receiver_name, amount_quota, fee_quota, received_quota, memo, flagged, flag_reason, date, created_at
+        insert: db.query<WalletGift, [string, string, string, string, number, number, number, string | null, number, string | null, string, number]>(
+            `INSERT INTO wallet_gifts (sender_id, sender_name, receiver_id, receiver_name, amount_quota, fee_quota, received_quota, memo, flagged, flag_reason, date, created_at)
+             VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+             RETURNING *`
+        ),
+        getById: db.query<WalletGift, number>('SELECT * FROM wallet_gifts WHERE id = ?'),
+
+        // 每日上限（赠出按扣除金额，收到按实际到账）
+        getDailySent: db.query<{ total: number; count: number }, [string, string]>(
+            'SELECT COALESCE(SUM(amount_quota), 0) as total, COUNT(*) as count FROM wallet_gifts WHERE sender_id = ? AND date = ?'
+        ),
+        getDailyReceived: db.query<{ total: number; count: number }, [string, string]>(
+            'SELECT COALESCE(SUM(received_quota), 0) as total, COUNT(*) as count FROM wallet_gifts WHERE receiver_id = ? AND date = ?'
+        ),
+
+        // 反滥用：一段时间内向同一账号赠送的其他账号数
+        countOtherSendersSince: db.query<{ count: number }, [string, string, number]>(
+            'SELECT COUNT(DISTINCT sender_id) as count FROM wallet_gifts WHERE receiver_id = ? AND sender_id != ? AND created_at >= ?'
+        ),
+
+        // 用户赠送记录：type 为 all / sent / received
+        getByUser: db.query<WalletGift, [WalletGiftListType, string, number, number]>(
+            `SELECT * FROM wallet_gifts
+             WHERE (?1 IN ('all', 'sent') AND sender_id = ?2) OR (?1 IN ('all', 'received') AND receiver_id = ?2)
+             ORDER BY id DESC LIMIT ?3 OFFSET ?4`
+        ),
+        getCountByUser: db.query<{ total: number }, [WalletGiftListType, string]>(
+            `SELECT COUNT(*) as total FROM wallet_gifts
+             WHERE (?1 IN ('all', 'sent') AND sender_id = ?2) OR (?1 IN ('all', 'received') AND receiver_id = ?2)`
+        ),
+
+        // 管理后台：flaggedOnly 为 1 时只看被标记的赠送
+        getList: db.query<WalletGift, [number, number, number]>(
+            'SELECT * FROM wallet_gifts WHERE (?1 = 0 OR flagged = 1) ORDER BY id DESC LIMIT ?2 OFFSET ?3'
+        ),
+        getCount: db.query<{ total: number }, number>(
+            'SELECT COUNT(*) as total FROM wallet_gifts WHERE (?1 = 0 OR flagged = 1)'
+        ),
+        getStats: db.query<{ gifts: number; flagged: number; amount: number; fees: number }, string>(
+            `SELECT COUNT(*) as gifts, COALESCE(SUM(flagged), 0) as flagged,
+                    COALESCE(SUM(amount_quota), 0) as amount, COALESCE(SUM(fee_quota), 0) as fees
+             FROM wallet_gifts WHERE date = ?`
+        ),
+    };
+}
+
+export type WalletGiftQueries = ReturnType<typeof createWalletGiftQueries>;
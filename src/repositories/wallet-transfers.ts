@@ -0,0 +1,85 @@
+/**
+ * 钱包划转状态机数据访问
+ */
+
+import type { Database } from 'bun:sqlite';
+import type { WalletTransfer, WalletTransferDirection, WalletTransferStatus } from '../types';
+
+export function createWalletTransferQueries(db: Database) {
+    return {
+        // 同一用户存在未完成划转时不插入
+        // 参数：linux_do_id, kyx_user_id, direction, amount_quota, date, created_at, upstream_id
+        insert: db.query<void, [string, number, WalletTransferDirection, number, string, number, number]>(`
+            INSERT INTO wallet_transfers (linux_do_id, kyx_user_id, direction, amount_quota, status, date, created_at, updated_at, upstream_id)
+            SELECT ?1, ?2, ?3, ?4, 'pending', ?5, ?6, ?6, ?7
+            WHERE NOT EXISTS (
+                SELECT 1 FROM wallet_transfers
+                WHERE linux_do_id = ?1 AND status IN ('pending', 'upstream_applied', 'local_applied')
+            )
+        `),
+        getById: db.query<WalletTransfer, number>('SELECT * FROM wallet_transfers WHERE id = ?'),
+        // 记录上游变更前后额度（在调用上游之前写入，便于崩溃后判断是否已生效）
+        // 参数：upstream_before, upstream_target, updated_at, id, 当前状态
+        setUpstreamPlan: db.query<void, [number, number, number, number, WalletTransferStatus]>(`
+            UPDATE wallet_transfers SET upstream_before = ?, upstream_target = ?, updated_at = ?
+            WHERE id = ? AND status = ?
+        `),
+        // 条件状态迁移（防止并发重复推进）
+        // 参数：新状态, error_message, updated_at, id, 当前状态
+        transition: db.query<void, [WalletTransferStatus, string | null, number, number, WalletTransferStatus]>(`
+            UPDATE wallet_transfers SET status = ?, error_message = ?, updated_at = ?
+            WHERE id = ? AND status = ?
+        `),
+        // 参数：wallet_after, record_id, updated_at, id, 当前状态
+        markLocalApplied: db.query<void, [number, number, number, number, WalletTransferStatus]>(`
+            UPDATE wallet_transfers SET status = 'local_applied', wallet_after = ?, record_id = ?, updated_at = ?
+            WHERE id = ? AND status = ?
+        `),
+        // 参数：终态, error_message, updated_at, completed_at, id, 当前状态
+        markFinished: db.query<void, [WalletTransferStatus, string | null, number, number, number, WalletTransferStatus]>(`
+            UPDATE wallet_transfers SET status = ?, error_message = ?, updated_at = ?, completed_at = ?
+            WHERE id = ? AND status = ?
+        `),
+        incrementRetry: db.query<void, [string, number, number]>(`
+            UPDATE wallet_transfers SET retry_count = retry_count + 1, error_message = ?, updated_at = ?
+            WHERE id = ?
+        `),
+        // 未完成且超过静默期的划转（对账器处理对象）
+        getUnfinished: db.query<WalletTransfer, [number, number]>(`
+            SELECT * FROM wallet_transfers
+            WHERE status IN ('pending', 'upstream_applied', 'local_applied') AND updated_at < ?
+            ORDER BY created_at ASC
+            LIMIT ?
+        `),
+        getInFlightByUser: db.query<WalletTransfer, string>(`
+            SELECT * FROM wallet_transfers
+            WHERE linux_do_id = ? AND status IN ('pending', 'upstream_applied', 'local_applied')
+            ORDER BY created_at DESC LIMIT 1
+        `),
+        // 需处理的划转：超过静默期仍未到终态，或等待人工核对
+        // 参数：updated_at 上限, limit
+        getStuck: db.query<WalletTransfer, [number, number]>(`
+            SELECT * FROM wallet_transfers
+            WHERE (status IN ('pending', 'upstream_applied', 'local_applied') AND updated_at < ?) OR status = 'needs_review'
+            ORDER BY created_at ASC
+            LIMIT ?
+        `),
+        getWalletQuota: db.query<{ balance_quota: number }, string>('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?'),
+        // 参数：状态筛选（空字符串为全部，传两次）, limit, offset
+        getList: db.query<WalletTransfer, [string, string, number, number]>(`
+            SELECT * FROM wallet_transfers
+            WHERE (? = '' OR status = ?)
+            ORDER BY created_at DESC
+            LIMIT ? OFFSET ?
+        `),
+        getCount: db.query<{ total: number }, [string, string]>(`
+            SELECT COUNT(*) as total FROM wallet_transfers WHERE (? = '' OR status = ?)
+        `),
+        getStatusStats: db.query<{ status: WalletTransferStatus; count: number; amount: number }, []>(`
+            SELECT status, COUNT(*) as count, COALESCE(SUM(amount_quota), 0) as amount
+            FROM wallet_transfers GROUP BY status
+        `),
+    };
+}
+
+export type WalletTransferQueries = ReturnType<typeof createWalletTransferQueries>;
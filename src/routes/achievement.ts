@@ -13,7 +13,7 @@ import {
     setUserBadges,
     getAllAchievementsWithStats,
 } from '../services/achievement';
-import { userQueries, adminQueries } from '../database';
+import { userQueries } from '../database';
 import logger from '../utils/logger';
 
 const achievement = new Hono();
@@ -158,21 +158,10 @@ achievement.post('/claim', requireAuth, async (c) => {
             }, 404);
         }
 
-        // 获取管理员配置
-        const adminConfig = adminQueries.get.get();
-        if (!adminConfig) {
-            return c.json({
-                success: false,
-                message: '系统配置未找到'
-            }, 500);
-        }
-
         const result = await claimAchievementReward(
             linuxDoId,
             user.kyx_user_id,
-            achievement_key,
-            adminConfig.session,
-            adminConfig.new_api_user
+            achievement_key
         );
 
         return c.json(result);
@@ -203,20 +192,9 @@ achievement.post('/claim-all', requireAuth, async (c) => {
             }, 404);
         }
 
-        // 获取管理员配置
-        const adminConfig = adminQueries.get.get();
-        if (!adminConfig) {
-            return c.json({
-                success: false,
-                message: '系统配置未找到'
-            }, 500);
-        }
-
         const result = await claimAllRewards(
             linuxDoId,
-            user.kyx_user_id,
-            adminConfig.session,
-            adminConfig.new_api_user
+            user.kyx_user_id
         );
 
         return c.json(result);
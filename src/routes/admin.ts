@@ -10,6 +10,8 @@ import {
     pendingRewardQueries,
     advancedSlotQueries,
     kunbeiQueries,
+    walletTransferQueries,
+    walletGiftQueries,
     db,
 } from '../database';
 import { cacheManager } from '../cache';
@@ -17,8 +19,10 @@ import { CONFIG } from '../config';
 import { searchAndFindExactUser, pushKeysToGroup } from '../services/kyx-api';
 import { validateModelScopeKey } from '../services/keys';
 import { manualProcessRewards } from '../services/reward-processor';
-import { checkOverdueLoans } from '../services/kunbei';
 import logger from '../utils/logger';
+import { LedgerAccounts, postUpstreamCredit } from '../services/ledger';
+import { recordConfigVersion, snapshotConfig, type ConfigActor } from '../services/config-versions';
+import { getClientIP } from '../middleware/user-rate-limit';
 import type { DonateRecord } from '../types';
 
 const app = new Hono();
@@ -49,6 +53,14 @@ async function requireAdmin(c: any, next: any) {
     await next();
 }
 
+/**
+ * 配置变更的操作者（管理员共用密码登录，以会话ID前缀与 IP 区分）
+ */
+function configActor(c: any, source: string): ConfigActor {
+    const sessionId = getCookie(c.req.raw.headers, 'admin_session') || '';
+    return { actor: `admin:${sessionId.slice(0, 8)}`, ip: getClientIP(c), source };
+}
+
 /**
  * 管理员登录
  */
@@ -94,6 +106,9 @@ app.get('/config', requireAdmin, async (c) => {
             wallet_exchange_rate: config!.wallet_exchange_rate || 500000,
             wallet_daily_transfer_limit_count: config!.wallet_daily_transfer_limit_count || 2,
             wallet_initial_egg: config!.wallet_initial_egg || 250,
+            wallet_gift_daily_send_egg: config!.wallet_gift_daily_send_egg ?? 500,
+            wallet_gift_daily_receive_egg: config!.wallet_gift_daily_receive_egg ?? 1000,
+            wallet_gift_fee_rate: config!.wallet_gift_fee_rate ?? 0,
             updated_at: config!.updated_at,
         },
         cache_stats: {
@@ -139,10 +154,17 @@ app.put('/config/new-api-base', requireAdmin, async (c) => {
 });
 
 /**
- * 更新钱包配置（汇率与每日划转次数上限）
+ * 更新钱包配置（汇率与每日划转次数上限，可选赠送上限与手续费率）
  */
 app.put('/wallet/config', requireAdmin, async (c) => {
-    const { wallet_exchange_rate, wallet_daily_transfer_limit_count, wallet_initial_egg } = await c.req.json();
+    const {
+        wallet_exchange_rate,
+        wallet_daily_transfer_limit_count,
+        wallet_initial_egg,
+        wallet_gift_daily_send_egg,
+        wallet_gift_daily_receive_egg,
+        wallet_gift_fee_rate
+    } = await c.req.json();
 
     const rate = parseInt(wallet_exchange_rate);
     const limit = parseInt(wallet_daily_transfer_limit_count);
@@ -156,7 +178,27 @@ app.put('/wallet/config', requireAdmin, async (c) => {
     if (!Number.isFinite(initialEgg) || initialEgg < 0) {
         return c.json({ success: false, message: '初始🥚额度必须为非负整数' }, 400);
     }
-    adminQueries.updateWallet.run(rate, limit, initialEgg, Date.now());
+
+    // 赠送配置（未传时保持不变）
+    const hasGiftConfig = [wallet_gift_daily_send_egg, wallet_gift_daily_receive_egg, wallet_gift_fee_rate].some(value => value !== undefined);
+    const current = adminQueries.get.get();
+    const sendEgg = parseInt(wallet_gift_daily_send_egg ?? current?.wallet_gift_daily_send_egg ?? 500);
+    const receiveEgg = parseInt(wallet_gift_daily_receive_egg ?? current?.wallet_gift_daily_receive_egg ?? 1000);
+    const feeRate = parseFloat(wallet_gift_fee_rate ?? current?.wallet_gift_fee_rate ?? 0);
+    if (hasGiftConfig) {
+        if (!Number.isFinite(sendEgg) || sendEgg < 0 || !Number.isFinite(receiveEgg) || receiveEgg < 0) {
+            return c.json({ success: false, message: '每日赠送上限必须为非负整数（🥚，0 表示不允许）' }, 400);
+        }
+        if (!Number.isFinite(feeRate) || feeRate < 0 || feeRate >= 1) {
+            return c.json({ success: false, message: '赠送手续费率必须在 0 到 1 之间（不含 1）' }, 400);
+        }
+    }
+
+    const now = Date.now();
+    adminQueries.updateWallet.run(rate, limit, initialEgg, now);
+    if (hasGiftConfig) {
+        adminQueries.updateWalletGift.run(sendEgg, receiveEgg, feeRate, now);
+    }
     return c.json({ success: true, message: '钱包配置已更新' });
 });
 
@@ -198,6 +240,428 @@ app.get('/wallet/overview', requireAdmin, async (c) => {
     }
 });
 
+/**
+ * 钱包划转列表（状态机视图，含卡住的划转）
+ */
+app.get('/wallet/transfers', requireAdmin, async (c) => {
+    try {
+        const status = c.req.query('status') || '';
+        const limit = Math.min(parseInt(c.req.query('limit') || '50'), 500);
+        const offset = parseInt(c.req.query('offset') || '0');
+
+        const transfers = walletTransferQueries.getList.all(status, status, limit, offset);
+        const total = walletTransferQueries.getCount.get(status, status)?.total || 0;
+        const stats = walletTransferQueries.getStatusStats.all();
+
+        // 超过5分钟仍未到终态或等待人工核对的划转
+        const stuck = walletTransferQueries.getStuck.all(Date.now() - 5 * 60 * 1000, 100);
+
+        return c.json({
+            success: true,
+            data: {
+                transfers: transfers.map((t: any) => ({
+                    ...t,
+                    amount_cny: (t.amount_quota / 500000).toFixed(2),
+                    created_date: new Date(t.created_at).toLocaleString('zh-CN', { hour12: false }),
+                    updated_date: new Date(t.updated_at).toLocaleString('zh-CN', { hour12: false }),
+                })),
+                total,
+                stats,
+                stuck,
+                limit,
+                offset
+            }
+        });
+    } catch (error: any) {
+        logger.error('钱包划转', '获取划转列表失败', error);
+        return c.json({ success: false, message: '获取划转列表失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 手动推进单笔划转（续做或冲正）
+ */
+app.post('/wallet/transfers/:id/reconcile', requireAdmin, async (c) => {
+    try {
+        const id = parseInt(c.req.param('id'));
+        const { executeWalletTransfer } = await import('../services/wallet-transfer');
+        const transfer = await executeWalletTransfer(id);
+        if (!transfer) {
+            return c.json({ success: false, message: '划转不存在' }, 404);
+        }
+
+        console.log(`[管理员] 🔁 手动推进划转 #${id} - 当前状态: ${transfer.status}`);
+        return c.json({ success: true, message: `划转当前状态: ${transfer.status}`, data: transfer });
+    } catch (error: any) {
+        logger.error('钱包划转', '手动推进划转失败', error);
+        return c.json({ success: false, message: '推进失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 钱包赠送列表（flagged=1 只看反滥用检测标记的赠送）
+ */
+app.get('/wallet/gifts', requireAdmin, async (c) => {
+    try {
+        const flaggedOnly = c.req.query('flagged') === '1' ? 1 : 0;
+        const limit = Math.min(parseInt(c.req.query('limit') || '50'), 500);
+        const offset = parseInt(c.req.query('offset') || '0');
+
+        const gifts = walletGiftQueries.getList.all(flaggedOnly, limit, offset);
+        const total = walletGiftQueries.getCount.get(flaggedOnly)?.total || 0;
+        const today = walletGiftQueries.getStats.get(getTodayDate());
+
+        return c.json({
+            success: true,
+            data: {
+                gifts: gifts.map(g => ({
+                    ...g,
+                    amount_cny: (g.amount_quota / 500000).toFixed(2),
+                    created_date: new Date(g.created_at).toLocaleString('zh-CN', { hour12: false }),
+                })),
+                total,
+                today,
+                limit,
+                offset
+            }
+        });
+    } catch (error: any) {
+        logger.error('钱包赠送', '获取赠送列表失败', error);
+        return c.json({ success: false, message: '获取赠送列表失败: ' + error.message }, 500);
+    }
+});
+
+// ========== 复式记账 ==========
+
+/**
+ * 账本一致性检查（账本余额 vs user_wallets，借贷平衡）
+ */
+app.get('/ledger/consistency', requireAdmin, async (c) => {
+    try {
+        const { checkLedgerConsistency } = await import('../services/ledger');
+        const result = checkLedgerConsistency();
+        return c.json({ success: true, data: result });
+    } catch (error: any) {
+        logger.error('记账', '一致性检查失败', error);
+        return c.json({ success: false, message: '一致性检查失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 获取用户账本分录
+ */
+app.get('/ledger/:linuxDoId', requireAdmin, async (c) => {
+    try {
+        const linuxDoId = c.req.param('linuxDoId');
+        const limit = Math.min(parseInt(c.req.query('limit') || '50'), 500);
+        const offset = parseInt(c.req.query('offset') || '0');
+
+        const { getUserLedger } = await import('../services/ledger');
+        const ledger = getUserLedger(linuxDoId, limit, offset);
+
+        const walletRow = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(linuxDoId) as any;
+
+        return c.json({
+            success: true,
+            data: {
+                ...ledger,
+                wallet_balance_quota: walletRow ? (walletRow.balance_quota as number) : null,
+                limit,
+                offset
+            }
+        });
+    } catch (error: any) {
+        logger.error('记账', '获取用户账本失败', error);
+        return c.json({ success: false, message: '获取用户账本失败: ' + error.message }, 500);
+    }
+});
+
+// ========== 可验证公平 ==========
+
+/**
+ * 复算任意游戏记录（用于处理争议，种子未公开也可复算）
+ * type: slot=初级场/高级场, supreme=至尊场
+ */
+app.get('/fair/verify/:type/:id', requireAdmin, async (c) => {
+    try {
+        const type = c.req.param('type') === 'supreme' ? 'supreme' : 'slot';
+        const recordId = parseInt(c.req.param('id'));
+
+        const { verifyRecordedSpin } = await import('../services/provably-fair');
+        const result = verifyRecordedSpin(type, recordId, null);
+        return c.json(result, result.success ? 200 : 404);
+    } catch (error: any) {
+        logger.error('公平验证', '复算游戏记录失败', error);
+        return c.json({ success: false, message: '复算失败: ' + error.message }, 500);
+    }
+});
+
+// ========== 定时任务 ==========
+
+/**
+ * 获取定时任务列表（含最近 24 小时失败次数与失败记录）
+ */
+app.get('/jobs', requireAdmin, async (c) => {
+    try {
+        const { listJobs, getRecentFailures } = await import('../services/scheduler');
+        return c.json({
+            success: true,
+            data: {
+                jobs: listJobs(),
+                recent_failures: getRecentFailures()
+            }
+        });
+    } catch (error: any) {
+        logger.error('定时任务', '获取任务列表失败', error);
+        return c.json({ success: false, message: '获取任务列表失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 获取任务执行历史
+ */
+app.get('/jobs/:name/runs', requireAdmin, async (c) => {
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+    const offset = parseInt(c.req.query('offset') || '0');
+
+    const { getJobRuns } = await import('../services/scheduler');
+    const runs = getJobRuns(c.req.param('name'), limit, offset);
+    if (!runs) {
+        return c.json({ success: false, message: '任务不存在' }, 404);
+    }
+    return c.json({ success: true, data: { runs, limit, offset } });
+});
+
+/**
+ * 手动触发任务（等待执行完成后返回结果）
+ */
+app.post('/jobs/:name/run', requireAdmin, async (c) => {
+    const name = c.req.param('name');
+    try {
+        const { triggerJob } = await import('../services/scheduler');
+        const outcome = await triggerJob(name);
+        if (!outcome) {
+            return c.json({ success: false, message: '任务不存在' }, 404);
+        }
+        if (outcome.skipped) {
+            return c.json({ success: false, message: outcome.reason }, 409);
+        }
+
+        console.log(`[管理员] ⏱️ 手动触发任务 ${name} - 结果: ${outcome.run!.status}`);
+        return c.json({
+            success: outcome.run!.status === 'success',
+            message: outcome.run!.status === 'success' ? '任务执行完成' : '任务执行失败: ' + outcome.run!.error,
+            data: outcome.run
+        });
+    } catch (error: any) {
+        logger.error('定时任务', `手动触发任务 ${name} 失败`, error);
+        return c.json({ success: false, message: '触发失败: ' + error.message }, 500);
+    }
+});
+
+// ========== 上游健康 ==========
+
+/**
+ * 获取上游熔断器状态（各接口状态、错误率、耗时分位数）与限流器统计
+ */
+app.get('/upstream-health', requireAdmin, async (c) => {
+    const { getUpstreamHealth } = await import('../services/circuit-breaker');
+    const { kyxApiLimiter } = await import('../services/rate-limiter');
+    return c.json({
+        success: true,
+        data: {
+            breakers: getUpstreamHealth(),
+            rate_limiter: kyxApiLimiter.getStats(),
+        },
+    });
+});
+
+/**
+ * 手动关闭熔断（确认上游已恢复后使用，作用于该接口在所有上游站点的熔断器）
+ */
+app.post('/upstream-health/:operation/reset', requireAdmin, async (c) => {
+    const { upstreamBreakers, resetUpstreamBreakers } = await import('../services/circuit-breaker');
+    const operation = c.req.param('operation') as keyof typeof upstreamBreakers;
+    const breaker = upstreamBreakers[operation];
+    if (!breaker) {
+        return c.json({ success: false, message: `未知的上游接口: ${operation}` }, 404);
+    }
+
+    const count = resetUpstreamBreakers(operation);
+    logger.info('熔断器', `管理员手动关闭熔断: ${breaker.label}（${count} 个站点）`);
+    return c.json({ success: true, message: `${breaker.label} 熔断已关闭` });
+});
+
+// ========== 多上游 ==========
+
+/**
+ * 获取上游注册表（不返回凭据）
+ */
+app.get('/upstreams', requireAdmin, async (c) => {
+    const { upstreamQueries } = await import('../database');
+    const { toPublicUpstream } = await import('../services/upstreams');
+    return c.json({ success: true, data: upstreamQueries.getAll.all().map(toPublicUpstream) });
+});
+
+/**
+ * 新增上游
+ */
+app.post('/upstreams', requireAdmin, async (c) => {
+    try {
+        const body = await c.req.json();
+        const { createUpstream } = await import('../services/upstreams');
+        const result = createUpstream(body);
+        return c.json(result, result.success ? 200 : 400);
+    } catch (error: any) {
+        logger.error('多上游', '新增上游失败', error);
+        return c.json({ success: false, message: '新增上游失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 更新上游（session 留空或不传则保持不变）
+ */
+app.put('/upstreams/:id', requireAdmin, async (c) => {
+    const upstreamId = parseInt(c.req.param('id'));
+    if (!Number.isInteger(upstreamId)) {
+        return c.json({ success: false, message: '无效的上游ID' }, 400);
+    }
+
+    try {
+        const body = await c.req.json();
+        if (body.session === '') {
+            delete body.session;
+        }
+        const { updateUpstream } = await import('../services/upstreams');
+        const result = updateUpstream(upstreamId, body);
+        return c.json(result, result.success ? 200 : (result.message === '上游不存在' ? 404 : 400));
+    } catch (error: any) {
+        logger.error('多上游', '更新上游失败', error);
+        return c.json({ success: false, message: '更新上游失败: ' + error.message }, 500);
+    }
+});
+
+// ========== 额度变动队列 ==========
+
+/**
+ * 获取额度变动队列状态（各用户队列深度、最近 24 小时统计与失败记录）
+ */
+app.get('/quota-queue', requireAdmin, async (c) => {
+    try {
+        const { getQuotaQueueStatus } = await import('../services/quota-queue');
+        return c.json({ success: true, data: getQuotaQueueStatus() });
+    } catch (error: any) {
+        logger.error('额度队列', '获取队列状态失败', error);
+        return c.json({ success: false, message: '获取队列状态失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 获取用户最近的额度变动
+ */
+app.get('/quota-queue/:kyxUserId', requireAdmin, async (c) => {
+    const kyxUserId = parseInt(c.req.param('kyxUserId'));
+    if (!Number.isInteger(kyxUserId)) {
+        return c.json({ success: false, message: '无效的用户ID' }, 400);
+    }
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+    const upstreamId = parseInt(c.req.query('upstream_id') || '1');
+
+    const { getUserQuotaMutations } = await import('../services/quota-queue');
+    return c.json({ success: true, data: getUserQuotaMutations(kyxUserId, limit, upstreamId) });
+});
+
+// ========== 数据库备份 ==========
+
+/**
+ * 获取快照列表
+ */
+app.get('/backups', requireAdmin, async (c) => {
+    try {
+        const { listBackups, getBackupDir } = await import('../services/backup');
+        return c.json({
+            success: true,
+            data: {
+                dir: getBackupDir(),
+                cron: CONFIG.BACKUP_CRON,
+                retention_count: CONFIG.BACKUP_RETENTION_COUNT,
+                retention_days: CONFIG.BACKUP_RETENTION_DAYS,
+                backups: listBackups()
+            }
+        });
+    } catch (error: any) {
+        logger.error('数据库备份', '获取快照列表失败', error);
+        return c.json({ success: false, message: '获取快照列表失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 立即生成快照
+ */
+app.post('/backups', requireAdmin, async (c) => {
+    try {
+        const { createBackup } = await import('../services/backup');
+        const backup = createBackup('manual');
+        console.log(`[管理员] 💾 手动生成快照 - ${backup.name}`);
+        return c.json({ success: true, message: '快照已生成', data: backup });
+    } catch (error: any) {
+        logger.error('数据库备份', '生成快照失败', error);
+        return c.json({ success: false, message: '生成快照失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 下载快照文件
+ */
+app.get('/backups/:name/download', requireAdmin, async (c) => {
+    const name = c.req.param('name');
+    const { resolveBackupPath } = await import('../services/backup');
+    const path = resolveBackupPath(name);
+    if (!path) {
+        return c.json({ success: false, message: '快照不存在' }, 404);
+    }
+
+    return new Response(Bun.file(path), {
+        headers: {
+            'Content-Type': 'application/vnd.sqlite3',
+            'Content-Disposition': `attachment; filename="${name}"`,
+        },
+    });
+});
+
+/**
+ * 从快照恢复（需在请求体中回填快照名确认）
+ * 恢复前会自动生成一份 pre-restore 快照
+ */
+app.post('/backups/:name/restore', requireAdmin, async (c) => {
+    const name = c.req.param('name');
+    const { confirm } = await c.req.json().catch(() => ({}));
+    if (confirm !== name) {
+        return c.json({ success: false, message: '请在 confirm 字段中填写快照名以确认恢复' }, 400);
+    }
+
+    try {
+        const { restoreBackup } = await import('../services/backup');
+        const result = restoreBackup(name);
+        console.log(`[管理员] ♻️ 已从快照恢复 - ${name}，恢复前快照: ${result.pre_restore}`);
+        return c.json({ success: true, message: '恢复成功', data: result });
+    } catch (error: any) {
+        logger.error('数据库备份', '从快照恢复失败', error);
+        return c.json({ success: false, message: '恢复失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 删除快照
+ */
+app.delete('/backups/:name', requireAdmin, async (c) => {
+    const { deleteBackup } = await import('../services/backup');
+    if (!deleteBackup(c.req.param('name'))) {
+        return c.json({ success: false, message: '快照不存在' }, 404);
+    }
+    return c.json({ success: true, message: '快照已删除' });
+});
+
 /**
  * 更新领取额度
  */
@@ -665,8 +1129,10 @@ app.post('/slot/config/schemes', requireAdmin, async (c) => {
         const now = Date.now();
 
         // 更新初级场配置
+        const before = snapshotConfig('slot');
         db.prepare('UPDATE slot_machine_config SET weight_config_id = ?, reward_scheme_id = ?, updated_at = ? WHERE id = 1')
             .run(weight_config_id, reward_scheme_id, now);
+        recordConfigVersion('slot', 1, before, configActor(c, 'POST /slot/config/schemes'));
 
         console.log(`⏰ 应用时间: ${new Date(now).toLocaleString('zh-CN')}`);
         console.log('✅ 初级场配置方案已成功应用！');
@@ -737,6 +1203,7 @@ app.post('/slot/config', requireAdmin, async (c) => {
         const finalBuyPrice = buy_spins_price !== undefined ? buy_spins_price : currentConfig!.buy_spins_price;
         const finalMaxBuy = max_daily_buy_spins !== undefined ? max_daily_buy_spins : currentConfig!.max_daily_buy_spins;
 
+        const before = snapshotConfig('slot');
         slotQueries.updateConfig.run(
             finalBetAmount,
             finalMaxSpins,
@@ -748,6 +1215,7 @@ app.post('/slot/config', requireAdmin, async (c) => {
             finalMaxBuy,
             now
         );
+        recordConfigVersion('slot', 1, before, configActor(c, 'POST /slot/config'));
 
         console.log('='.repeat(80));
         console.log('🎰 [初级场] 保存基础配置');
@@ -1350,7 +1818,7 @@ app.post('/rebind-user', requireAdmin, async (c) => {
     }
 
     // 更新用户绑定
-    userQueries.update.run(kyxUser.username, kyxUser.id, linux_do_id);
+    userQueries.update.run(kyxUser.username, currentUser.linux_do_username ?? null, kyxUser.id, linux_do_id);
 
     // 清除缓存
     cacheManager.delete(`user:${linux_do_id}`);
@@ -2254,8 +2722,10 @@ app.post('/slot/advanced/config/schemes', requireAdmin, async (c) => {
         const now = Date.now();
 
         // 更新高级场配置
+        const before = snapshotConfig('advanced');
         db.prepare('UPDATE advanced_slot_config SET weight_config_id = ?, reward_scheme_id = ?, updated_at = ? WHERE id = 1')
             .run(weight_config_id, reward_scheme_id, now);
+        recordConfigVersion('advanced', 1, before, configActor(c, 'POST /slot/advanced/config/schemes'));
 
         console.log(`⏰ 应用时间: ${new Date(now).toLocaleString('zh-CN')}`);
         console.log('✅ 高级场配置方案已成功应用！');
@@ -2311,6 +2781,7 @@ app.post('/slot/advanced/config', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
+        const before = snapshotConfig('advanced');
         advancedSlotQueries.updateAdvancedConfig.run(
             enabled ? 1 : 0,
             bet_min,
@@ -2329,6 +2800,7 @@ app.post('/slot/advanced/config', requireAdmin, async (c) => {
             daily_ticket_grant_limit || 2,  // 默认每日获得2张
             now
         );
+        recordConfigVersion('advanced', 1, before, configActor(c, 'POST /slot/advanced/config'));
 
         console.log('='.repeat(80));
         console.log('🔥 [高级场] 保存基础配置');
@@ -2680,6 +3152,7 @@ app.get('/kunbei/config', requireAdmin, async (c) => {
                     max_active_loans: 1,
                     deduct_all_quota_on_overdue: 1,
                     overdue_deduct_multiplier: 2.5,
+                    max_installments: 3,
                     updated_at: now
                 }
             });
@@ -2700,6 +3173,7 @@ app.post('/kunbei/config', requireAdmin, async (c) => {
         const config = await c.req.json();
         const now = Date.now();
 
+        const before = snapshotConfig('kunbei');
         kunbeiQueries.updateConfig.run(
             config.enabled,
             config.max_loan_amount,
@@ -2713,8 +3187,10 @@ app.post('/kunbei/config', requireAdmin, async (c) => {
             config.deduct_all_quota_on_overdue || 0,
             config.overdue_deduct_multiplier || 2.5,
             config.max_daily_borrows || 3,
+            config.max_installments || 3,
             now
         );
+        recordConfigVersion('kunbei', 1, before, configActor(c, 'POST /kunbei/config'));
 
         console.log('[坤呗管理] 配置已更新，逾期扣款倍数:', config.overdue_deduct_multiplier || 2.5, '每日借款次数:', config.max_daily_borrows || 3);
 
@@ -2756,9 +3232,6 @@ app.get('/kunbei/loans', requireAdmin, async (c) => {
  */
 app.get('/kunbei/all-loans', requireAdmin, async (c) => {
     try {
-        // 立即检查逾期状态（确保数据最新）
-        await checkOverdueLoans();
-
         const loans = kunbeiQueries.getAllLoans.all();
 
         // 获取所有相关用户信息
@@ -2825,6 +3298,26 @@ app.post('/kunbei/loans/:id/forgive', requireAdmin, async (c) => {
     }
 });
 
+/**
+ * 获取借款的分期计划与还款流水
+ */
+app.get('/kunbei/loans/:id/repayments', requireAdmin, async (c) => {
+    try {
+        const loanId = parseInt(c.req.param('id'));
+        const { getLoanRepaymentHistory } = await import('../services/kunbei');
+
+        const history = getLoanRepaymentHistory(loanId);
+        if (!history) {
+            return c.json({ success: false, message: '借款记录不存在' }, 404);
+        }
+
+        return c.json({ success: true, data: history });
+    } catch (error: any) {
+        console.error('[坤呗管理] 获取还款记录失败:', error);
+        return c.json({ success: false, message: '获取还款记录失败' }, 500);
+    }
+});
+
 /**
  * 解除逾期惩罚（解封高级场禁入）
  */
@@ -2841,6 +3334,84 @@ app.post('/kunbei/loans/:id/clear-penalty', requireAdmin, async (c) => {
     }
 });
 
+/**
+ * 坤呗资产组合分析（敞口、分组逾期率、回收率、提前还款比例、盈亏与每日快照趋势）
+ */
+app.get('/kunbei/portfolio', requireAdmin, async (c) => {
+    try {
+        const weeks = Math.min(parseInt(c.req.query('weeks') || '12'), 52);
+        const days = Math.min(parseInt(c.req.query('days') || '30'), 365);
+        const { getKunbeiPortfolio } = await import('../services/kunbei-portfolio');
+
+        return c.json({ success: true, data: getKunbeiPortfolio({ weeks, days }) });
+    } catch (error: any) {
+        logger.error('坤呗资产', '获取资产组合分析失败', error);
+        return c.json({ success: false, message: '获取资产组合分析失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 立即记录当日资产快照
+ */
+app.post('/kunbei/portfolio/snapshot', requireAdmin, async (c) => {
+    try {
+        const { captureKunbeiPortfolioSnapshot } = await import('../services/kunbei-portfolio');
+        return c.json({ success: true, message: '资产快照已记录', data: captureKunbeiPortfolioSnapshot() });
+    } catch (error: any) {
+        logger.error('坤呗资产', '记录资产快照失败', error);
+        return c.json({ success: false, message: '记录资产快照失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 获取坤呗信用评分配置
+ */
+app.get('/kunbei/credit-config', requireAdmin, async (c) => {
+    try {
+        const { getCreditConfigView } = await import('../services/kunbei-credit');
+        return c.json({ success: true, data: getCreditConfigView() });
+    } catch (error: any) {
+        logger.error('坤呗信用', '获取信用评分配置失败', error);
+        return c.json({ success: false, message: '获取信用评分配置失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 更新坤呗信用评分配置（保存后重新评估所有用户）
+ */
+app.put('/kunbei/credit-config', requireAdmin, async (c) => {
+    try {
+        const input = await c.req.json();
+        const { updateCreditConfig } = await import('../services/kunbei-credit');
+
+        const result = updateCreditConfig(input);
+        return c.json(result, result.success ? 200 : 400);
+    } catch (error: any) {
+        logger.error('坤呗信用', '更新信用评分配置失败', error);
+        return c.json({ success: false, message: '更新信用评分配置失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 查看用户的信用分说明与变动记录
+ */
+app.get('/kunbei/credit/:linuxDoId', requireAdmin, async (c) => {
+    try {
+        const linuxDoId = c.req.param('linuxDoId');
+        const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
+        const { getCreditReport } = await import('../services/kunbei-credit');
+
+        if (!userQueries.get.get(linuxDoId) && !kunbeiQueries.getStats.get(linuxDoId)) {
+            return c.json({ success: false, message: '用户不存在' }, 404);
+        }
+
+        return c.json({ success: true, data: getCreditReport(linuxDoId, limit) });
+    } catch (error: any) {
+        logger.error('坤呗信用', '获取用户信用分失败', error);
+        return c.json({ success: false, message: '获取用户信用分失败: ' + error.message }, 500);
+    }
+});
+
 /**
  * 获取坤呗梯度配置列表
  */
@@ -2986,9 +3557,10 @@ app.post('/weights', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
-        weightConfigQueries.insert.run(
+        const result = weightConfigQueries.insert.run(
             config_name, weight_m, weight_t, weight_n, weight_j, weight_lq, weight_bj, weight_zft, weight_bdk, weight_lsh, weight_man, description, now, now
         );
+        recordConfigVersion('weight', Number(result.lastInsertRowid), null, configActor(c, 'POST /weights'));
 
         console.log(`⏰ 创建时间: ${new Date(now).toLocaleString('zh-CN')}`);
         console.log('✅ 新权重配置方案已成功添加！');
@@ -3034,9 +3606,11 @@ app.put('/weights/:id', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
+        const before = snapshotConfig('weight', id);
         weightConfigQueries.update.run(
             config_name, weight_m, weight_t, weight_n, weight_j, weight_lq, weight_bj, weight_zft, weight_bdk, weight_lsh, weight_man, description, now, id
         );
+        recordConfigVersion('weight', id, before, configActor(c, 'PUT /weights/:id'));
 
         console.log(`⏰ 更新时间: ${new Date(now).toLocaleString('zh-CN')}`);
         console.log('✅ 权重配置方案已成功更新！');
@@ -3067,7 +3641,9 @@ app.delete('/weights/:id', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
+        const before = snapshotConfig('weight', id);
         weightConfigQueries.softDelete.run(now, id);
+        recordConfigVersion('weight', id, before, configActor(c, 'DELETE /weights/:id'), 'delete');
 
         return c.json({ success: true, message: '配置已删除' });
     } catch (error: any) {
@@ -3156,7 +3732,8 @@ app.post('/rewards/schemes', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
-        rewardConfigQueries.insertScheme.run(scheme_name, description, now, now);
+        const result = rewardConfigQueries.insertScheme.run(scheme_name, description, now, now);
+        recordConfigVersion('reward_scheme', Number(result.lastInsertRowid), null, configActor(c, 'POST /rewards/schemes'));
 
         return c.json({ success: true, message: '方案已添加' });
     } catch (error: any) {
@@ -3175,7 +3752,9 @@ app.put('/rewards/schemes/:id', requireAdmin, async (c) => {
         const { scheme_name, description } = await c.req.json();
 
         const now = Date.now();
+        const before = snapshotConfig('reward_scheme', id);
         rewardConfigQueries.updateScheme.run(scheme_name, description, now, id);
+        recordConfigVersion('reward_scheme', id, before, configActor(c, 'PUT /rewards/schemes/:id'));
 
         return c.json({ success: true, message: '方案已更新' });
     } catch (error: any) {
@@ -3202,7 +3781,9 @@ app.delete('/rewards/schemes/:id', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
+        const before = snapshotConfig('reward_scheme', id);
         rewardConfigQueries.softDeleteScheme.run(now, id);
+        recordConfigVersion('reward_scheme', id, before, configActor(c, 'DELETE /rewards/schemes/:id'), 'delete');
 
         return c.json({ success: true, message: '方案已删除' });
     } catch (error: any) {
@@ -3259,9 +3840,11 @@ app.post('/rewards/rules', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
+        const before = snapshotConfig('reward_scheme', scheme_id);
         rewardConfigQueries.insertRule.run(
             scheme_id, rule_name, rule_type, rule_category, match_pattern, match_count || null, validatedSymbols, win_multiplier, grant_free_spin || 0, priority || 0, 1, description || null, now, now
         );
+        recordConfigVersion('reward_scheme', scheme_id, before, configActor(c, 'POST /rewards/rules'));
 
         console.log(`⏰ 添加时间: ${new Date(now).toLocaleString('zh-CN')}`);
         console.log('✅ 中奖规则已成功添加到方案！');
@@ -3312,9 +3895,14 @@ app.put('/rewards/rules/:id', requireAdmin, async (c) => {
         }
 
         const now = Date.now();
+        const ruleSchemeId = rewardConfigQueries.getRuleById.get(id)?.scheme_id;
+        const before = ruleSchemeId ? snapshotConfig('reward_scheme', ruleSchemeId) : null;
         rewardConfigQueries.updateRule.run(
             rule_name, rule_type, rule_category, match_pattern, match_count || null, validatedSymbols, win_multiplier, grant_free_spin || 0, priority || 0, is_active !== undefined ? is_active : 1, description || null, now, id
         );
+        if (ruleSchemeId) {
+            recordConfigVersion('reward_scheme', ruleSchemeId, before, configActor(c, 'PUT /rewards/rules/:id'));
+        }
 
         // 🔥 规则更新后，自动重新计算概率并缓存
         try {
@@ -3347,7 +3935,11 @@ app.delete('/rewards/rules/:id', requireAdmin, async (c) => {
         const rule = rewardConfigQueries.getRuleById.get(id);
         const schemeId = rule?.scheme_id;
 
+        const before = schemeId ? snapshotConfig('reward_scheme', schemeId) : null;
         rewardConfigQueries.deleteRule.run(id);
+        if (schemeId) {
+            recordConfigVersion('reward_scheme', schemeId, before, configActor(c, 'DELETE /rewards/rules/:id'));
+        }
 
         // 🔥 规则删除后，自动重新计算概率并缓存
         if (schemeId) {
@@ -3388,6 +3980,7 @@ app.post('/rewards/punishments', requireAdmin, async (c) => {
         console.log('');
 
         const now = Date.now();
+        const before = snapshotConfig('reward_scheme', scheme_id);
 
         // 批量更新律师函惩罚配置
         for (const p of punishments) {
@@ -3402,6 +3995,7 @@ app.post('/rewards/punishments', requireAdmin, async (c) => {
                 p.deduct_multiplier, p.ban_hours || 0, p.is_active !== undefined ? p.is_active : 1, now
             );
         }
+        recordConfigVersion('reward_scheme', scheme_id, before, configActor(c, 'POST /rewards/punishments'));
 
         console.log('');
         console.log(`⏰ 更新时间: ${new Date(now).toLocaleString('zh-CN')}`);
@@ -3445,11 +4039,13 @@ app.post('/supreme/config', requireAdmin, async (c) => {
         const { enabled, fragments_to_token, max_tokens_hold, token_valid_hours, session_valid_hours, min_bet_amount, max_bet_amount, bet_step, daily_entry_limit, daily_token_grant_limit, daily_bet_limit, weight_config_id, reward_scheme_id } = body;
 
         const now = Date.now();
+        const before = snapshotConfig('supreme');
         supremeSlotQueries.updateConfig.run(
             enabled, fragments_to_token, max_tokens_hold, token_valid_hours, session_valid_hours,
             min_bet_amount, max_bet_amount, bet_step, daily_entry_limit, daily_token_grant_limit,
             daily_bet_limit, weight_config_id, reward_scheme_id, now
         );
+        recordConfigVersion('supreme', 1, before, configActor(c, 'POST /supreme/config'));
 
         console.log('='.repeat(80));
         console.log('💎 [至尊场] 保存配置');
@@ -3759,10 +4355,32 @@ app.post('/fix-man-rules', requireAdmin, async (c) => {
 
 /**
  * 计算规则概率和RTP
+ * method: fast（默认）| monte-carlo | exact（枚举全部组合，strict_consecutive 为 true 时按高级场严格连续判定）
+ * venue: normal | advanced | supreme，传入时使用该场次当前的权重/奖励方案与判定模式（也可用参数覆盖）
+ * 同时返回波动与资金风险指标：bankroll（初始资金，默认 100 次投注额）、bet（默认场次最低投注额）、spins（默认 100）、sessions（默认 2000）
+ * 传入 seed 时使用确定性随机数，相同参数可复现结果（不写入缓存）
  */
 app.post('/calculate-probability', requireAdmin, async (c) => {
     try {
-        const { weight_config_id, reward_scheme_id, method, simulation_count } = await c.req.json();
+        const body = await c.req.json();
+        const { method, simulation_count, seed, venue } = body;
+
+        const {
+            calculateProbabilityMonteCarlo,
+            calculateProbabilityFast,
+            calculateProbabilityExact,
+            calculateVolatility,
+            getVenueProbabilityConfig,
+            clearAllCache
+        } = await import('../services/probability-calculator');
+
+        if (venue !== undefined && !['normal', 'advanced', 'supreme'].includes(venue)) {
+            return c.json({ success: false, message: '无效的场次' }, 400);
+        }
+        const venueConfig = venue ? await getVenueProbabilityConfig(venue) : null;
+        const weight_config_id = body.weight_config_id || venueConfig?.weightConfigId;
+        const reward_scheme_id = body.reward_scheme_id || venueConfig?.rewardSchemeId;
+        const strict_consecutive = body.strict_consecutive ?? venueConfig?.strictConsecutive ?? false;
 
         if (!weight_config_id || !reward_scheme_id) {
             return c.json({
@@ -3771,29 +4389,59 @@ app.post('/calculate-probability', requireAdmin, async (c) => {
             }, 400);
         }
 
-        const { calculateProbabilityMonteCarlo, calculateProbabilityFast, clearAllCache } = await import('../services/probability-calculator');
-
         // 🔥 每次计算前清除所有缓存，确保使用最新的权重配置
         clearAllCache();
         console.log('[概率计算] 已清除所有缓存，将使用最新配置重新计算');
 
+        const { SeededRng } = await import('../services/rng');
+        const rng = seed !== undefined && seed !== null && seed !== '' ? new SeededRng(seed) : undefined;
+
         let result;
-        if (method === 'monte-carlo') {
+        if (method === 'exact') {
+            // 精确枚举不涉及随机数，seed 仅用于资金模拟
+            result = calculateProbabilityExact(
+                weight_config_id,
+                reward_scheme_id,
+                !!strict_consecutive
+            );
+        } else if (method === 'monte-carlo') {
             result = calculateProbabilityMonteCarlo(
                 weight_config_id,
                 reward_scheme_id,
-                simulation_count || 1000000
+                simulation_count || 1000000,
+                undefined,
+                rng
             );
         } else {
             result = calculateProbabilityFast(
                 weight_config_id,
-                reward_scheme_id
+                reward_scheme_id,
+                rng
             );
         }
 
+        const bet = Number(body.bet) || venueConfig?.defaultBet || 500000;
+        let volatility;
+        try {
+            volatility = calculateVolatility(result, {
+                bankroll: body.bankroll !== undefined ? Number(body.bankroll) : bet * 100,
+                bet,
+                spins: body.spins !== undefined ? Number(body.spins) : 100,
+                sessions: body.sessions !== undefined ? Number(body.sessions) : undefined
+            }, seed !== undefined && seed !== null && seed !== '' ? new SeededRng(`${seed}:bankroll`) : undefined);
+        } catch (error: any) {
+            return c.json({ success: false, message: error.message }, 400);
+        }
+
         return c.json({
             success: true,
-            data: result
+            data: {
+                ...result,
+                venue: venue ?? null,
+                weight_config_id,
+                reward_scheme_id,
+                volatility
+            }
         });
     } catch (error: any) {
         console.error('[概率计算] 失败:', error);
@@ -3804,6 +4452,25 @@ app.post('/calculate-probability', requireAdmin, async (c) => {
     }
 });
 
+/**
+ * 方案对比：两组（权重配置, 奖励方案），或草稿修改与现有方案对比（草稿不保存）
+ * base / candidate 可指定 venue 或 weight_config_id + reward_scheme_id，candidate 可附带 weights / rules / punishments 草稿
+ */
+app.post('/schemes/compare', requireAdmin, async (c) => {
+    try {
+        const body = await c.req.json();
+        if (!body.base || !body.candidate) {
+            return c.json({ success: false, message: '请提供 base 与 candidate' }, 400);
+        }
+
+        const { compareSchemes } = await import('../services/scheme-diff');
+        return c.json({ success: true, data: await compareSchemes(body) });
+    } catch (error: any) {
+        logger.error('方案对比', '对比失败', error);
+        return c.json({ success: false, message: '对比失败: ' + error.message }, 500);
+    }
+});
+
 /**
  * 批量发放成就给所有用户
  */
@@ -3822,7 +4489,7 @@ app.post('/grant-achievement-all', requireAdmin, async (c) => {
 
         // 动态导入成就系统模块
         const { achievementQueries } = await import('../database');
-        const { addQuota } = await import('../services/kyx-api');
+        const { creditReward } = await import('../services/reward-processor');
 
         // 获取成就定义
         const achievement = achievementQueries.getByKey.get(achievement_key);
@@ -3880,16 +4547,19 @@ app.post('/grant-achievement-all', requireAdmin, async (c) => {
                 // 发放额度奖励
                 if (user.kyx_user_id && achievement.reward_quota > 0) {
                     try {
-                        const quotaResult = await addQuota(
-                            user.kyx_user_id,
-                            achievement.reward_quota,
-                            adminConfig.session,
-                            adminConfig.new_api_user,
-                            `成就奖励-${achievement.achievement_name}`,
-                            5  // 5次重试
-                        );
-
-                        if (quotaResult.success) {
+                        const quotaResult = await creditReward({
+                            linuxDoId: user.linux_do_id,
+                            kyxUserId: user.kyx_user_id,
+                            amount: achievement.reward_quota,
+                            source: 'achievement_reward',
+                            reason: `成就奖励: ${achievement.achievement_name}（管理员批量发放）`,
+                        });
+
+                        if (quotaResult.deferred) {
+                            console.log(`[管理员]    ⏸️  上游不可用，额度奖励已转入待发放: $${(achievement.reward_quota / 500000).toFixed(2)}`);
+                            successCount++;
+                        } else if (quotaResult.success) {
+                            postUpstreamCredit(user.linux_do_id, achievement.reward_quota, 'achievement_reward', LedgerAccounts.HOUSE_REWARDS, achievement_key, '管理员批量发放');
                             console.log(`[管理员]    💰 额度奖励已发放: $${(achievement.reward_quota / 500000).toFixed(2)}`);
                             successCount++;
                         } else {
@@ -3943,6 +4613,204 @@ app.post('/grant-achievement-all', requireAdmin, async (c) => {
     }
 });
 
+// ========== 限时活动 ==========
+
+/**
+ * 限时活动列表（可按 status 过滤：scheduled / active / ended / cancelled）
+ */
+app.get('/events', requireAdmin, async (c) => {
+    const { isTimedEventStatus, listTimedEvents } = await import('../services/events');
+    const status = c.req.query('status');
+    if (status !== undefined && !isTimedEventStatus(status)) {
+        return c.json({ success: false, message: '无效的活动状态' }, 400);
+    }
+    const limit = Math.min(parseInt(c.req.query('limit') || '100') || 100, 500);
+    return c.json({ success: true, data: listTimedEvents(status ?? null, limit) });
+});
+
+/**
+ * 创建限时活动（开始/结束时间为毫秒时间戳或北京时间 YYYY-MM-DD HH:mm[:ss]）
+ */
+app.post('/events', requireAdmin, async (c) => {
+    try {
+        const { createTimedEvent } = await import('../services/events');
+        const body = await c.req.json();
+        const result = createTimedEvent(body, configActor(c, 'POST /events').actor);
+        return c.json(result, result.success ? 200 : 400);
+    } catch (error: any) {
+        logger.error('限时活动', '创建活动失败', error);
+        return c.json({ success: false, message: '创建活动失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 修改限时活动（进行中的活动只能修改名称、说明、效果数值、优先级和结束时间）
+ */
+app.put('/events/:id', requireAdmin, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (!Number.isInteger(id)) {
+        return c.json({ success: false, message: '无效的活动ID' }, 400);
+    }
+
+    try {
+        const { updateTimedEvent } = await import('../services/events');
+        const body = await c.req.json();
+        const result = updateTimedEvent(id, body);
+        return c.json(result, result.success ? 200 : (result.message === '活动不存在' ? 404 : 400));
+    } catch (error: any) {
+        logger.error('限时活动', '修改活动失败', error);
+        return c.json({ success: false, message: '修改活动失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 取消限时活动（立即失效）
+ */
+app.post('/events/:id/cancel', requireAdmin, async (c) => {
+    const id = parseInt(c.req.param('id'));
+    if (!Number.isInteger(id)) {
+        return c.json({ success: false, message: '无效的活动ID' }, 400);
+    }
+
+    const { cancelTimedEvent } = await import('../services/events');
+    const result = cancelTimedEvent(id, configActor(c, 'POST /events/:id/cancel').actor);
+    return c.json(result, result.success ? 200 : (result.message === '活动不存在' ? 404 : 400));
+});
+
+// ========== 配置版本 ==========
+
+/**
+ * 最近的配置变更（全部配置）
+ */
+app.get('/config-versions', requireAdmin, async (c) => {
+    const { getRecentConfigVersions } = await import('../services/config-versions');
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 200);
+    return c.json({ success: true, data: getRecentConfigVersions(limit) });
+});
+
+/**
+ * 单个配置的版本历史
+ * type：slot / advanced / supreme / kunbei（id 固定为 1）、weight / reward_scheme（id 为权重配置或奖励方案ID）
+ */
+app.get('/config-versions/:type/:id', requireAdmin, async (c) => {
+    const { getConfigHistory, isConfigEntityType } = await import('../services/config-versions');
+    const type = c.req.param('type');
+    const id = parseInt(c.req.param('id'));
+    if (!isConfigEntityType(type) || !Number.isInteger(id)) {
+        return c.json({ success: false, message: '无效的配置类型或ID' }, 400);
+    }
+    const limit = Math.min(parseInt(c.req.query('limit') || '50') || 50, 200);
+    return c.json({ success: true, data: getConfigHistory(type, id, limit) });
+});
+
+/**
+ * 回滚到指定版本（恢复为该版本写入后的配置）
+ */
+app.post('/config-versions/:versionId/rollback', requireAdmin, async (c) => {
+    const versionId = parseInt(c.req.param('versionId'));
+    if (!Number.isInteger(versionId)) {
+        return c.json({ success: false, message: '无效的版本ID' }, 400);
+    }
+
+    try {
+        const { rollbackConfigVersion } = await import('../services/config-versions');
+        const result = await rollbackConfigVersion(versionId, configActor(c, 'POST /config-versions/:versionId/rollback'));
+        return c.json(result, result.success ? 200 : (result.message === '版本不存在' ? 404 : 400));
+    } catch (error: any) {
+        logger.error('配置版本', '回滚失败', error);
+        return c.json({ success: false, message: '回滚失败: ' + error.message }, 500);
+    }
+});
+
+// ========== RTP 控制器 ==========
+
+/**
+ * 获取高级场/至尊场 RTP 控制器状态（配置、阶梯各档期望 RTP、当前窗口与本轮评估预览）
+ */
+app.get('/rtp-controller', requireAdmin, async (c) => {
+    try {
+        const { getRtpControllerStatus } = await import('../services/rtp-controller');
+        return c.json({ success: true, data: getRtpControllerStatus() });
+    } catch (error: any) {
+        logger.error('RTP控制器', '获取控制器状态失败', error);
+        return c.json({ success: false, message: '获取控制器状态失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 获取决策记录（可按场次筛选）
+ */
+app.get('/rtp-controller/decisions', requireAdmin, async (c) => {
+    const { getRtpDecisions, isRtpControllerMode } = await import('../services/rtp-controller');
+    const mode = c.req.query('mode');
+    if (mode !== undefined && !isRtpControllerMode(mode)) {
+        return c.json({ success: false, message: '无效的场次' }, 400);
+    }
+    const limit = Math.min(parseInt(c.req.query('limit') || '100') || 100, 500);
+    return c.json({ success: true, data: getRtpDecisions(mode ?? null, limit) });
+});
+
+/**
+ * 紧急停止（不指定场次时停止全部），restore 为 true 时恢复启用时的权重方案
+ */
+app.post('/rtp-controller/kill', requireAdmin, async (c) => {
+    try {
+        const body = await c.req.json().catch(() => ({}));
+        const { killRtpController, isRtpControllerMode, RTP_CONTROLLER_MODES } = await import('../services/rtp-controller');
+        if (body.mode && !isRtpControllerMode(body.mode)) {
+            return c.json({ success: false, message: '无效的场次' }, 400);
+        }
+        const modes = body.mode ? [body.mode] : RTP_CONTROLLER_MODES;
+        const data = modes.map((mode: any) => ({ mode, ...killRtpController(mode, body.restore === true) }));
+        return c.json({ success: true, message: 'RTP 控制器已停止', data });
+    } catch (error: any) {
+        logger.error('RTP控制器', '紧急停止失败', error);
+        return c.json({ success: false, message: '紧急停止失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 更新场次控制器配置（启用、目标、窗口、回滞、冷却、阶梯与硬边界）
+ */
+app.put('/rtp-controller/:mode', requireAdmin, async (c) => {
+    const { updateRtpControllerConfig, isRtpControllerMode } = await import('../services/rtp-controller');
+    const mode = c.req.param('mode');
+    if (!isRtpControllerMode(mode)) {
+        return c.json({ success: false, message: '无效的场次' }, 400);
+    }
+
+    try {
+        const body = await c.req.json();
+        const result = updateRtpControllerConfig(mode, body);
+        return c.json(result, result.success ? 200 : 400);
+    } catch (error: any) {
+        logger.error('RTP控制器', '更新控制器配置失败', error);
+        return c.json({ success: false, message: '更新控制器配置失败: ' + error.message }, 500);
+    }
+});
+
+/**
+ * 立即执行一次控制（需已启用）
+ */
+app.post('/rtp-controller/:mode/run', requireAdmin, async (c) => {
+    const { runRtpController, isRtpControllerMode } = await import('../services/rtp-controller');
+    const mode = c.req.param('mode');
+    if (!isRtpControllerMode(mode)) {
+        return c.json({ success: false, message: '无效的场次' }, 400);
+    }
+
+    try {
+        const decision = runRtpController(mode);
+        if (!decision) {
+            return c.json({ success: false, message: 'RTP 控制器未启用' }, 400);
+        }
+        return c.json({ success: true, message: decision.reason, data: decision });
+    } catch (error: any) {
+        logger.error('RTP控制器', '执行控制失败', error);
+        return c.json({ success: false, message: '执行控制失败: ' + error.message }, 500);
+    }
+});
+
 // ========== 🛡️ 速率限制封禁管理 ==========
 
 /**
@@ -0,0 +1,28 @@
+/**
+ * 限时活动API路由
+ */
+
+import { Hono } from 'hono';
+import { getPublicEvents } from '../services/events';
+import logger from '../utils/logger';
+
+const events = new Hono();
+
+/**
+ * 获取进行中的限时活动
+ * GET /api/events/active
+ * 返回进行中的活动、各场次实际生效的效果（重叠时每类效果只生效一个）以及24小时内即将开始的活动
+ */
+events.get('/active', async (c) => {
+    try {
+        return c.json({
+            success: true,
+            data: getPublicEvents()
+        });
+    } catch (error: any) {
+        logger.error('限时活动', '获取进行中的活动失败', error);
+        return c.json({ success: false, message: '获取活动失败' }, 500);
+    }
+});
+
+export default events;
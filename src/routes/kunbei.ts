@@ -4,22 +4,32 @@
 
 import { Hono } from 'hono';
 import { getCookie, getSession } from '../utils';
-import logger from '../utils/logger';
 import type { SessionData } from '../types';
+import { createIdempotency } from '../middleware/idempotency';
 import {
     getKunbeiConfig,
     getUserKunbeiStatus,
     getAllGradientConfigs,
     borrowLoan,
     repayLoan,
-    checkOverdueLoans,
+    checkUserOverdueLoans,
+    isOverdueProcessing,
     getLoanDetails,
     forgiveLoan,
     clearOverduePenalty,
+    quoteRepayment,
+    getLoanOutstanding,
+    getLoanRepaymentHistory,
+    type LoanTerms,
 } from '../services/kunbei';
-import { kunbeiQueries, userQueries, adminQueries } from '../database';
-import { addQuota, deductQuota, getKyxUserById } from '../services/kyx-api';
+import { getCreditReport, recalculateCreditScore } from '../services/kunbei-credit';
+import { createLoanQuote, verifyLoanQuote } from '../services/kunbei-quote';
+import { kunbeiQueries, userQueries } from '../database';
+import { getPayoutBalance } from '../services/upstreams';
+import { addQuota, deductQuota } from '../services/quota-queue';
+import { UPSTREAM_UNAVAILABLE, upstreamUnavailableBody } from '../services/circuit-breaker';
 import { checkAndUnlockAchievement, updateAchievementProgress } from '../services/achievement';
+import { LedgerAccounts, postUpstreamCredit, postUpstreamDebit } from '../services/ledger';
 
 const kunbei = new Hono();
 
@@ -61,7 +71,8 @@ kunbei.get('/config', requireAuth, async (c) => {
                 early_repay_discount: config.early_repay_discount,
                 overdue_penalty_hours: config.overdue_penalty_hours,
                 overdue_deduct_multiplier: config.overdue_deduct_multiplier || 2.5,
-                max_daily_borrows: config.max_daily_borrows || 3
+                max_daily_borrows: config.max_daily_borrows || 3,
+                max_installments: config.max_installments || 3
             }
         });
     } catch (error: any) {
@@ -77,25 +88,17 @@ kunbei.get('/status', requireAuth, async (c) => {
     try {
         const session = c.get('session') as SessionData;
 
-        // 立即检查逾期状态（确保及时更新）
-        await checkOverdueLoans();
+        // 立即检查当前用户的逾期状态（确保及时更新）
+        await checkUserOverdueLoans(session.linux_do_id!);
 
-        // 获取用户信息
-        const user = userQueries.get.get(session.linux_do_id!);
-        if (user) {
-            // 获取管理员配置
-            const adminConfig = adminQueries.get.get();
-            if (adminConfig) {
-                // 尝试加载用户额度信息到缓存（不阻塞主流程）
-                getKyxUserById(
-                    user.kyx_user_id,
-                    adminConfig.session,
-                    adminConfig.new_api_user
-                ).catch(err => {
-                    console.warn('[坤呗] 预加载用户额度信息失败:', err.message);
-                });
+        // 尝试加载收款上游额度到缓存（不阻塞主流程）
+        getPayoutBalance(session.linux_do_id!).then(payout => {
+            if (!payout.success) {
+                console.warn('[坤呗] 预加载收款上游额度失败:', payout.message);
             }
-        }
+        }).catch(err => {
+            console.warn('[坤呗] 预加载收款上游额度失败:', err.message);
+        });
 
         const status = getUserKunbeiStatus(session.linux_do_id!);
 
@@ -116,50 +119,95 @@ kunbei.get('/status', requireAuth, async (c) => {
 });
 
 /**
- * 申请借款
+ * 借款报价（预览还款、提前还款、逾期后果与今日buff，返回的报价编号可在有效期内锁定条款借款）
  */
-kunbei.post('/borrow', requireAuth, async (c) => {
+kunbei.post('/quote', requireAuth, async (c) => {
     try {
         const session = c.get('session') as SessionData;
-        const { amount } = await c.req.json();
+        const { amount, installments } = await c.req.json();
 
         if (!amount || typeof amount !== 'number') {
             return c.json({ success: false, message: '参数错误' }, 400);
         }
 
-        // 立即检查逾期状态（确保借款前系统状态最新）
-        await checkOverdueLoans();
+        // 立即检查当前用户的逾期状态（确保报价前状态最新）
+        await checkUserOverdueLoans(session.linux_do_id!);
 
-        // 获取用户信息
         const user = userQueries.get.get(session.linux_do_id!);
         if (!user) {
             return c.json({ success: false, message: '用户不存在' }, 404);
         }
 
-        // 获取管理员配置
-        const adminConfig = adminQueries.get.get();
-        if (!adminConfig) {
-            return c.json({ success: false, message: '系统配置未找到' }, 500);
+        // 查询收款上游额度（梯度额度按借款入账的收款上游额度计算）
+        const payout = await getPayoutBalance(session.linux_do_id!);
+        if (!payout.account) {
+            return c.json({ success: false, message: '用户未绑定或收款上游已停用' }, 400);
+        }
+        if (payout.errorCode === UPSTREAM_UNAVAILABLE) {
+            return c.json(upstreamUnavailableBody(), 503);
+        }
+        if (!payout.success) {
+            return c.json({ success: false, message: `获取${payout.account.upstream.name}额度失败，请稍后重试` }, 500);
+        }
+
+        const result = await createLoanQuote(session.linux_do_id!, amount, installments ?? 1);
+        return c.json(result, result.success ? 200 : 400);
+    } catch (error: any) {
+        console.error('[坤呗] 获取借款报价失败:', error);
+        return c.json({ success: false, message: '获取借款报价失败' }, 500);
+    }
+});
+
+/**
+ * 申请借款（携带 quote_id 时按报价锁定的条款借款）
+ */
+kunbei.post('/borrow', requireAuth, createIdempotency('kunbei_borrow'), async (c) => {
+    try {
+        const session = c.get('session') as SessionData;
+        const { amount, installments, quote_id } = await c.req.json();
+
+        if (!amount || typeof amount !== 'number') {
+            return c.json({ success: false, message: '参数错误' }, 400);
+        }
+
+        // 校验报价（报价过期或与借款信息不一致时需重新获取报价）
+        let lockedTerms: LoanTerms | undefined;
+        if (quote_id !== undefined) {
+            const quote = verifyLoanQuote(quote_id, session.linux_do_id!, amount, installments ?? 1);
+            if (!quote.success) {
+                return c.json({ success: false, message: quote.message }, 400);
+            }
+            lockedTerms = quote.terms;
         }
 
-        // 确保用户额度信息已加载到缓存（解决缓存未命中问题）
-        const kyxUserResult = await getKyxUserById(
-            user.kyx_user_id,
-            adminConfig.session,
-            adminConfig.new_api_user
-        );
+        // 立即检查当前用户的逾期状态（确保借款前状态最新）
+        await checkUserOverdueLoans(session.linux_do_id!);
+
+        // 获取用户信息
+        const user = userQueries.get.get(session.linux_do_id!);
+        if (!user) {
+            return c.json({ success: false, message: '用户不存在' }, 404);
+        }
 
-        if (!kyxUserResult.success || !kyxUserResult.user) {
-            console.error('[坤呗] 无法获取用户额度信息:', kyxUserResult.message);
+        // 查询收款上游额度（借款入账到收款上游，梯度额度按其额度计算）
+        const payout = await getPayoutBalance(session.linux_do_id!);
+        if (!payout.account) {
+            return c.json({ success: false, message: '用户未绑定或收款上游已停用' }, 400);
+        }
+        if (payout.errorCode === UPSTREAM_UNAVAILABLE) {
+            return c.json(upstreamUnavailableBody(), 503);
+        }
+        if (!payout.success) {
+            console.error('[坤呗] 无法获取收款上游额度:', payout.message);
             return c.json({
                 success: false,
-                message: '获取用户额度信息失败，请稍后重试'
+                message: `获取${payout.account.upstream.name}额度失败，请稍后重试`
             }, 500);
         }
 
         // 🔥 关键优化：先验证借款资格，但不创建记录
         console.log('[坤呗] 步骤1：验证借款资格...');
-        const validationResult = await borrowLoan(session.linux_do_id!, session.username!, amount);
+        const validationResult = await borrowLoan(session.linux_do_id!, session.username!, amount, installments ?? 1, lockedTerms);
 
         if (!validationResult.success) {
             console.error('[坤呗] 借款资格验证失败:', validationResult.message);
@@ -168,14 +216,7 @@ kunbei.post('/borrow', requireAuth, async (c) => {
 
         // 🔥 步骤2：先增加用户额度（关键操作，使用增强重试）
         console.log('[坤呗] 步骤2：增加用户额度...');
-        const quotaResult = await addQuota(
-            user.kyx_user_id,
-            amount,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            `坤呗借款-${session.username}`,
-            5  // 使用5次重试，确保成功率
-        );
+        const quotaResult = await addQuota(user.kyx_user_id, amount, 'kunbei_loan', { linuxDoId: session.linux_do_id });
 
         // 🔥 如果额度增加失败，需要回滚借款记录
         if (!quotaResult.success) {
@@ -185,7 +226,8 @@ kunbei.post('/borrow', requireAuth, async (c) => {
             const activeLoan = kunbeiQueries.getActiveLoan.get(session.linux_do_id!);
             if (activeLoan) {
                 console.log('[坤呗] 回滚：删除借款记录 ID =', activeLoan.id);
-                kunbeiQueries.deleteLoan.run(activeLoan.id);
+                kunbeiQueries.deleteInstallments.run(activeLoan.id!);
+                kunbeiQueries.deleteLoan.run(activeLoan.id!);
 
                 // 回滚统计数据：减少借款次数和总借款金额
                 const stats = kunbeiQueries.getStats.get(session.linux_do_id!);
@@ -222,7 +264,7 @@ kunbei.post('/borrow', requireAuth, async (c) => {
                             0, 0, 0, 0, 0,
                             stats.credit_score,
                             0,
-                            stats.last_borrow_date,  // 保持原有日期
+                            stats.last_borrow_date ?? null,  // 保持原有日期
                             validationResult.is_first_today ? 0 : stats.has_daily_buff,  // 如果是首次借款才清除buff
                             2.5,
                             0,
@@ -234,7 +276,7 @@ kunbei.post('/borrow', requireAuth, async (c) => {
                             0,
                             0,
                             stats.credit_score,
-                            stats.last_borrow_date,
+                            stats.last_borrow_date ?? null,
                             validationResult.is_first_today ? 0 : stats.has_daily_buff,
                             2.5,
                             0,
@@ -242,13 +284,17 @@ kunbei.post('/borrow', requireAuth, async (c) => {
                         );
                     }
                 }
+                // 借款记录已删除，信用分按回滚后的数据重新计算
+                recalculateCreditScore(session.linux_do_id!, 'refresh');
 
                 console.log('[坤呗] ✅ 借款记录和统计数据已回滚');
             }
 
             // 返回更友好的错误信息
             const errorMsg = quotaResult.message || '未知错误';
-            if (errorMsg.includes('429') || errorMsg.includes('繁忙')) {
+            if (quotaResult.errorCode === UPSTREAM_UNAVAILABLE) {
+                return c.json(upstreamUnavailableBody(), 503);
+            } else if (errorMsg.includes('429') || errorMsg.includes('繁忙')) {
                 return c.json({
                     success: false,
                     message: '系统繁忙，请稍后再试（建议30秒后重试）'
@@ -266,6 +312,8 @@ kunbei.post('/borrow', requireAuth, async (c) => {
             }
         }
 
+        postUpstreamCredit(session.linux_do_id!, amount, 'kunbei_borrow', LedgerAccounts.HOUSE_KUNBEI, validationResult.data?.loan_id);
+
         console.log('[坤呗] ✅ 借款成功 - 用户:', session.username, '金额: $', (amount / 500000).toFixed(2));
 
         // 🏆 坤呗借款成就
@@ -285,7 +333,7 @@ kunbei.post('/borrow', requireAuth, async (c) => {
 /**
  * 还款
  */
-kunbei.post('/repay/:loanId', requireAuth, async (c) => {
+kunbei.post('/repay/:loanId', requireAuth, createIdempotency('kunbei_repay'), async (c) => {
     try {
         const session = c.get('session') as SessionData;
         const loanId = parseInt(c.req.param('loanId'));
@@ -300,55 +348,82 @@ kunbei.post('/repay/:loanId', requireAuth, async (c) => {
             return c.json({ success: false, message: '借款不存在或无权操作' }, 404);
         }
 
-        // 计算实际还款金额
-        const config = getKunbeiConfig();
-        const now = Date.now();
-        let actualRepayAmount = loan.repay_amount;
+        // 逾期扣款进行中，避免还款与逾期扣款重复扣除额度
+        if (isOverdueProcessing(loan)) {
+            return c.json({ success: false, message: '该借款正在进行逾期处理，请稍后再试' }, 409);
+        }
 
-        if (now < loan.due_at) {
-            // 提前还款优惠
-            const cashback = Math.floor(loan.repay_amount * config.early_repay_discount);
-            actualRepayAmount = loan.repay_amount - cashback;
+        // 计算实际还款金额（不传 amount 为一次性还清，传入则为部分还款）
+        const body = await c.req.json().catch(() => ({}));
+        const requestedAmount = body?.amount === undefined || body?.amount === null ? undefined : Number(body.amount);
+        const now = Date.now();
+        const quote = quoteRepayment(loan, requestedAmount, now);
+        if (!quote.success || !quote.data) {
+            return c.json({ success: false, message: quote.message }, 400);
         }
+        const actualRepayAmount = quote.data.amount;
 
-        // 检查用户额度
         const user = userQueries.get.get(session.linux_do_id!);
         if (!user) {
             return c.json({ success: false, message: '用户不存在' }, 404);
         }
 
-        const adminConfig = adminQueries.get.get();
-        if (!adminConfig) {
-            return c.json({ success: false, message: '系统配置未找到' }, 500);
+        // 检查收款上游额度（还款从收款上游扣除）
+        const payout = await getPayoutBalance(session.linux_do_id!, true);
+        if (!payout.account) {
+            return c.json({ success: false, message: '用户未绑定或收款上游已停用' }, 400);
+        }
+        if (payout.errorCode === UPSTREAM_UNAVAILABLE) {
+            return c.json(upstreamUnavailableBody(), 503);
+        }
+        if (!payout.success) {
+            return c.json({ success: false, message: `获取${payout.account.upstream.name}额度失败，请稍后重试` }, 500);
+        }
+        const upstreamName = payout.account.upstream.name;
+        if (payout.quota < actualRepayAmount) {
+            return c.json({
+                success: false,
+                message: `${upstreamName}额度不足: 需要 $${(actualRepayAmount / 500000).toFixed(2)}，当前 $${(payout.quota / 500000).toFixed(2)}`
+            }, 400);
         }
 
-        // 扣除用户额度
-        const deductResult = await deductQuota(
-            user.kyx_user_id,
-            actualRepayAmount,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            `坤呗还款-${session.username}`
-        );
+        // 扣除收款上游额度
+        const deductResult = await deductQuota(user.kyx_user_id, actualRepayAmount, 'kunbei_repay', { linuxDoId: session.linux_do_id });
 
+        if (deductResult.errorCode === UPSTREAM_UNAVAILABLE) {
+            return c.json(upstreamUnavailableBody(), 503);
+        }
         if (!deductResult.success) {
             return c.json({
                 success: false,
-                message: `额度不足: 需要 $${(actualRepayAmount / 500000).toFixed(2)}`
+                message: `${upstreamName}额度不足: 需要 $${(actualRepayAmount / 500000).toFixed(2)}`
             }, 400);
         }
 
-        // 执行还款
-        const result = repayLoan(session.linux_do_id!, loanId);
+        postUpstreamDebit(session.linux_do_id!, actualRepayAmount, 'kunbei_repay', LedgerAccounts.HOUSE_KUNBEI, loanId);
+
+        // 执行还款（沿用扣款时的报价时间，扣除与入账按同一报价）
+        const result = repayLoan(session.linux_do_id!, loanId, actualRepayAmount, now);
+
+        // 实际冲抵金额与已扣额度不一致时（还款失败或期间欠款变化），退回差额
+        const refundAmount = actualRepayAmount - (result.success ? result.data.actual_amount : 0);
+        if (refundAmount > 0) {
+            const refundResult = await addQuota(user.kyx_user_id, refundAmount, 'kunbei_repay_refund', { linuxDoId: session.linux_do_id });
+            if (refundResult.success) {
+                postUpstreamCredit(session.linux_do_id!, refundAmount, 'kunbei_repay_refund', LedgerAccounts.HOUSE_KUNBEI, loanId);
+            } else {
+                console.error('[坤呗] 还款差额退回失败:', refundResult.message);
+            }
+        }
 
-        // 🏆 坤呗还款成就（只在成功时触发）
-        if (result.success) {
+        // 🏆 坤呗还款成就（只在还清时触发）
+        if (result.success && result.data.settled) {
             try {
                 // 按时还款成就
                 await updateAchievementProgress(session.linux_do_id!, 'repay_5_times', 1);
 
                 // 提前还款成就（判断是否提前）
-                if (now < loan.due_at) {
+                if (result.data.cashback > 0 || (loan.status === 'active' && now < loan.due_at)) {
                     await updateAchievementProgress(session.linux_do_id!, 'early_repay_3', 1);
                 }
 
@@ -386,7 +461,10 @@ kunbei.get('/my-loans', requireAuth, async (c) => {
                     repay_amount_usd: (loan.repay_amount / 500000).toFixed(2),
                     actual_repay_amount_usd: loan.actual_repay_amount
                         ? (loan.actual_repay_amount / 500000).toFixed(2)
-                        : null
+                        : null,
+                    outstanding_amount: loan.status === 'active' || loan.status === 'overdue'
+                        ? getLoanOutstanding(loan)
+                        : 0
                 })),
                 stats: stats || {
                     total_borrowed: 0,
@@ -405,17 +483,37 @@ kunbei.get('/my-loans', requireAuth, async (c) => {
 });
 
 /**
- * 定时检查逾期借款（每6小时执行，作为兜底机制）
- * 主要依赖用户操作时的实时检查（借款、还款、游戏等）
+ * 获取借款的分期计划与还款流水
  */
-setInterval(() => {
+kunbei.get('/loans/:loanId/repayments', requireAuth, async (c) => {
     try {
-        logger.info('定时任务', '🕐 执行坤呗逾期检查（兜底机制）...');
-        checkOverdueLoans();
+        const session = c.get('session') as SessionData;
+        const loanId = parseInt(c.req.param('loanId'));
+
+        const loan = loanId ? getLoanDetails(loanId) : null;
+        if (!loan || loan.linux_do_id !== session.linux_do_id!) {
+            return c.json({ success: false, message: '借款不存在或无权查看' }, 404);
+        }
+
+        return c.json({ success: true, data: getLoanRepaymentHistory(loanId) });
     } catch (error: any) {
-        logger.error('定时任务', `❌ 坤呗逾期检查失败: ${error.message}`);
+        console.error('[坤呗] 获取还款记录失败:', error);
+        return c.json({ success: false, message: '获取还款记录失败' }, 500);
     }
-}, 21600000);  // 每6小时（从1小时延长，减少日志频率）
+});
+
+/**
+ * 获取我的信用分说明（评分明细、分档与变动记录）
+ */
+kunbei.get('/credit', requireAuth, async (c) => {
+    try {
+        const session = c.get('session') as SessionData;
+        return c.json({ success: true, data: getCreditReport(session.linux_do_id!) });
+    } catch (error: any) {
+        console.error('[坤呗] 获取信用分失败:', error);
+        return c.json({ success: false, message: '获取信用分失败' }, 500);
+    }
+});
 
 /**
  * 检查用户是否有buff
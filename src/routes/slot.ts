@@ -3,7 +3,11 @@ import { userQueries, slotQueries, adminQueries, pendingRewardQueries, advancedS
 import type { SessionData } from '../types';
 import { getCookie, getSession } from '../utils';
 import logger from '../utils/logger';
+import { LedgerAccounts, postUpstreamCredit, postUpstreamDebit } from '../services/ledger';
+import { addWallet, deductUpTo, tryDeductWallet } from '../services/wallet';
 import { createRateLimiter, RateLimits } from '../middleware/user-rate-limit';
+import { createIdempotency } from '../middleware/idempotency';
+import { chance } from '../services/rng';
 import {
     getSlotConfig,
     getUserTodaySpins,
@@ -59,9 +63,14 @@ import {
     addSupremeFragment,
     recordSupremeDrop
 } from '../services/supreme-slot';
-import { getKyxUserById, updateKyxUserQuota } from '../services/kyx-api';
+import { getKyxUserById } from '../services/kyx-api';
+import { addQuota, deductQuota } from '../services/quota-queue';
+import { getRewardHouseAccount } from '../services/reward-processor';
+import { UPSTREAM_UNAVAILABLE, upstreamUnavailableBody } from '../services/circuit-breaker';
+import { getPayoutBalance } from '../services/upstreams';
 import { db } from '../database';
 import { getAndUseBuff } from '../services/kunbei';
+import { resolveEventEffects } from '../services/events';
 import { checkAndUnlockAchievement, updateAchievementProgress, recordSymbols, updateProfitTracking } from '../services/achievement';
 
 /**
@@ -243,7 +252,7 @@ slot.get('/config', requireAuth, async (c) => {
 });
 
 // 旋转老虎机
-slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (c) => {
+slot.post('/spin', requireAuth, createIdempotency('slot_spin'), createRateLimiter(RateLimits.SLOT_SPIN), async (c) => {
     try {
         const session = c.get('session') as SessionData;
         if (!session?.linux_do_id) {
@@ -255,10 +264,10 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             return c.json({ success: false, message: '用户不存在' }, 404);
         }
 
-        // 🔥 检查坤呗逾期状态（确保用户玩游戏时及时扣款）
+        // 🔥 检查坤呗逾期状态（仅当前用户有到期未处理借款时才处理，其余由定时任务批量处理）
         try {
-            const { checkOverdueLoans } = await import('../services/kunbei');
-            await checkOverdueLoans();
+            const { checkUserOverdueLoans } = await import('../services/kunbei');
+            await checkUserOverdueLoans(session.linux_do_id);
         } catch (err: any) {
             logger.warn('坤呗检查', '坤呗逾期检查失败', err.message);
         }
@@ -302,6 +311,7 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
         let isFreeSpin = false;
         let betAmount = config.bet_amount;
         let calculationBetAmount = config.bet_amount; // 用于计算奖金的金额
+        const spinRefId = crypto.randomUUID();  // 本次旋转的记账关联ID（投注与中奖分录共享）
 
         // 🔥 高级场使用自定义投注金额
         if (inAdvancedMode && advancedBetAmount) {
@@ -411,10 +421,17 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             if (newQuotaAfterBet < 0) {
                 return c.json({ success: false, message: `额度不足以支付投注金额 🥚${(betAmount / 500000).toFixed(2)}` }, 400);
             }
-            const now = Date.now();
-            db.query('INSERT INTO user_wallets (linux_do_id, balance_quota, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET balance_quota = ?, updated_at = ?')
-              .run(session.linux_do_id as string, newQuotaAfterBet, now, now, newQuotaAfterBet, now);
-            logger.info('老虎机', `✅ 扣除投注成功(本地钱包) - 用户: ${getUserDisplayName(session.linux_do_id)}, 剩余: ${newQuotaAfterBet}`);
+            // 扣款与记账在同一事务内完成，余额不足（并发扣款）时不扣
+            const betRes = tryDeductWallet(session.linux_do_id, betAmount, {
+                reason: 'slot_bet',
+                account: LedgerAccounts.HOUSE_SLOT,
+                refId: spinRefId,
+                memo: inAdvancedMode ? 'advanced' : 'normal'
+            });
+            if (!betRes.success) {
+                return c.json({ success: false, message: `额度不足以支付投注金额 🥚${(betAmount / 500000).toFixed(2)}` }, 400);
+            }
+            logger.info('老虎机', `✅ 扣除投注成功(本地钱包) - 用户: ${getUserDisplayName(session.linux_do_id)}, 剩余: ${betRes.newBalance}`);
         }
 
         // 🔥 获取高级场配置（用于倍率）
@@ -427,8 +444,8 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             logger.info('高级场', `用户 ${user.username} 在高级场游戏 - 投注: $${(betAmount / 500000).toFixed(2)}, 奖励倍率×${rewardMultiplier}, 惩罚倍率×${penaltyMultiplier}`);
         }
 
-        // 生成随机符号（高级场使用独立权重配置）
-        const symbols = generateSymbols(inAdvancedMode);
+        // 生成随机符号（高级场使用独立权重配置，可验证公平）
+        const { symbols, fair } = generateSymbols(session.linux_do_id, inAdvancedMode);
 
         // 🔥 使用配置方案进行中奖判定
         const { calculateWinByScheme } = await import('../services/reward-calculator');
@@ -451,12 +468,23 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
         // }
 
         // 🔥 检查并应用坤呗buff（只对正向中奖生效，不放大惩罚）
-        const kunbeiBuff = getAndUseBuff(session.linux_do_id);
+        const kunbeiBuff = getAndUseBuff(session.linux_do_id, inAdvancedMode ? 'advanced' : 'normal');
         if (kunbeiBuff > 1 && result.multiplier > 0) {
             logger.info('坤呗Buff', `应用buff×${kunbeiBuff}，原倍率: ${result.multiplier}，新倍率: ${result.multiplier * kunbeiBuff}`);
             result.multiplier = result.multiplier * kunbeiBuff;
         }
 
+        // 🎉 限时活动：奖励倍数（只对正向中奖生效）与免费次数发放量
+        const eventEffects = resolveEventEffects(inAdvancedMode ? 'advanced' : 'normal');
+        const rewardEvent = result.multiplier > 0 ? eventEffects.reward_multiplier : undefined;
+        if (rewardEvent) {
+            logger.info('限时活动', `应用活动「${rewardEvent.name}」奖励×${rewardEvent.effect_value}，原倍率: ${result.multiplier}，新倍率: ${result.multiplier * rewardEvent.effect_value}`);
+            result.multiplier = result.multiplier * rewardEvent.effect_value;
+        }
+        // 规则的免费次数奖励平时不发放，仅在免费次数活动期间按活动配置的次数发放
+        const freeSpinEvent = result.grantFreeSpin ? eventEffects.free_spins : undefined;
+        const freeSpinsGranted = freeSpinEvent ? freeSpinEvent.effect_value : 0;
+
         // 🔥 检查是否需要封禁（3个及以上律师函）
         const shouldBan = result.punishmentCount && result.punishmentCount >= 3;
         if (shouldBan && result.banHours) {
@@ -483,23 +511,29 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
 
             logger.info('老虎机', `💰 中奖 - 用户: ${getUserDisplayName(session.linux_do_id)}, 类型: ${result.ruleName || WIN_TYPE_NAMES[result.winType] || result.winType}, 奖金: $${(winAmount / 500000).toFixed(2)}`);
 
-            // 本地钱包直接加款
-            const walletRow2 = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(session.linux_do_id as string) as any;
-            const beforeWin = walletRow2 ? (walletRow2.balance_quota as number) : 0;
-            const newQuotaAfterWin = beforeWin + winAmount;
-            const now2 = Date.now();
-            db.query('INSERT INTO user_wallets (linux_do_id, balance_quota, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET balance_quota = ?, updated_at = ?')
-              .run(session.linux_do_id as string, newQuotaAfterWin, now2, now2, newQuotaAfterWin, now2);
+            // 本地钱包直接加款（加款与记账在同一事务内完成）
+            const winRes = addWallet(session.linux_do_id, winAmount, {
+                reason: 'slot_win',
+                account: LedgerAccounts.HOUSE_SLOT,
+                refId: spinRefId,
+                memo: result.ruleName || null
+            });
+            if (!winRes.success) {
+                quotaUpdateFailed = true;
+                quotaUpdateError = '奖金入账失败，请联系管理员';
+                logger.error('老虎机', `❌ 奖金入账失败(本地钱包) - 用户: ${getUserDisplayName(session.linux_do_id)}, 奖金: ${winAmount}`);
+            }
         } else if (result.multiplier < 0) {
             // 惩罚扣除（负倍率）- 使用 calculationBetAmount 计算惩罚金额（本地钱包）
             const punishmentAmount = Math.floor(calculationBetAmount * Math.abs(result.multiplier));
-            const walletRow3 = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(session.linux_do_id as string) as any;
-            const currentQuota = walletRow3 ? (walletRow3.balance_quota as number) : 0;
-            const actualDeduction = Math.min(punishmentAmount, currentQuota);  // 最多扣到0
-            const newQuotaAfterPunishment = currentQuota - actualDeduction;
-            logger.debug('老虎机', `⚡ 准备扣除惩罚(本地钱包) - 当前: ${currentQuota}, 惩罚: ${actualDeduction}, 目标: ${newQuotaAfterPunishment}`);
-            db.query('UPDATE user_wallets SET balance_quota = ?, updated_at = ? WHERE linux_do_id = ?')
-              .run(newQuotaAfterPunishment, Date.now(), session.linux_do_id as string);
+            // 最多扣到0，扣款与记账在同一事务内完成
+            const punishRes = deductUpTo(session.linux_do_id, punishmentAmount, {
+                reason: 'slot_punishment',
+                account: LedgerAccounts.HOUSE_SLOT,
+                refId: spinRefId
+            });
+            const actualDeduction = punishRes.actualDeducted;
+            logger.debug('老虎机', `⚡ 扣除惩罚(本地钱包) - 惩罚: ${punishmentAmount}, 实际扣除: ${actualDeduction}, 剩余: ${punishRes.newBalance}`);
             // winAmount 设为负数，用于记录
             winAmount = -actualDeduction;
             logger.info('老虎机', `⚡ 惩罚成功(本地钱包) - 用户: ${user.username}, 律师函数量: ${result.punishmentCount}, 扣除: 🥚${(actualDeduction / 500000).toFixed(2)}`);
@@ -508,8 +542,8 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
         }
 
         // 如果奖励免费次数
-        if (result.freeSpinAwarded) {
-            addUserFreeSpins(session.linux_do_id, 1);
+        if (freeSpinsGranted > 0) {
+            addUserFreeSpins(session.linux_do_id, freeSpinsGranted);
         }
 
         // 🔥 保存游戏记录（记录 winType，兼容配置方案）
@@ -527,10 +561,11 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             result.winType as any,  // 使用配置方案返回的 winType
             result.multiplier,
             winAmount,
-            result.freeSpinAwarded,
+            freeSpinsGranted > 0,
             isFreeSpin,
             inAdvancedMode ? 'advanced' : 'normal',  // 🔥 传入场次模式
-            result.ruleName || result.winType  // 🔥 传入规则名称（用于显示）
+            result.ruleName || result.winType,  // 🔥 传入规则名称（用于显示）
+            fair
         );
 
         // 更新用户总统计（用于排行榜）
@@ -608,7 +643,7 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             const advancedConfig = getAdvancedSlotConfig();
 
             // 极低概率直接掉落至尊令牌
-            if (advancedConfig.supreme_token_drop_rate && Math.random() < advancedConfig.supreme_token_drop_rate) {
+            if (advancedConfig.supreme_token_drop_rate && chance(advancedConfig.supreme_token_drop_rate)) {
                 // TODO: 需要实现 addSupremeToken 函数
                 // addSupremeToken(session.linux_do_id, 1);
                 recordSupremeDrop(session.linux_do_id, user.username, 'token', 1, 'advanced_slot', result.winType);
@@ -620,7 +655,7 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             // 低概率掉落至尊碎片（四连/三连）
             else if ((result.winType === WinType.QUAD || result.winType === WinType.TRIPLE) &&
                 advancedConfig.supreme_fragment_drop_rate &&
-                Math.random() < advancedConfig.supreme_fragment_drop_rate) {
+                chance(advancedConfig.supreme_fragment_drop_rate)) {
                 addSupremeFragment(session.linux_do_id, 1);
                 recordSupremeDrop(session.linux_do_id, user.username, 'fragment', 1, 'advanced_slot', result.winType);
                 ticketDropped = true;
@@ -670,8 +705,8 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
                     message += ` | ⚠️ ${quotaUpdateError}`;
                 }
             }
-            if (result.freeSpinAwarded) {
-                message += ' | 🎁 获得1次免费机会！';
+            if (freeSpinEvent) {
+                message += ` | 🎁 ${freeSpinEvent.name} 获得${freeSpinsGranted}次免费机会！`;
             }
             // 添加掉落消息
             if (ticketDropped) {
@@ -687,6 +722,9 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
         if (kunbeiBuff > 1 && result.multiplier > 0) {
             message += ' | 🐔 坤呗buff已生效！';
         }
+        if (rewardEvent) {
+            message += ` | 🎉 ${rewardEvent.name} 奖励×${rewardEvent.effect_value}`;
+        }
 
         // 获取最新的入场券信息
         const ticketsInfo = getUserTickets(session.linux_do_id);
@@ -823,7 +861,7 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             }
 
             // 🔥 8. 免费游戏成就（收集解锁信息）
-            if (result.freeSpinAwarded) {
+            if (freeSpinsGranted > 0) {
                 const freeGameProgress = await updateAchievementProgress(session.linux_do_id, 'free_game_10', 1);
                 if (freeGameProgress.unlocked && freeGameProgress.achievement) {
                     unlockedAchievements.push(freeGameProgress.achievement);
@@ -862,7 +900,7 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
             // 12. 挑战成就 - 单日盈利（从今日统计获取）
             const todayStats = getUserTodayStats(session.linux_do_id);
             if (todayStats) {
-                const todayProfit = todayStats.total_win - todayStats.total_bet;
+                const todayProfit = todayStats.totalWin - todayStats.totalBet;
 
                 // 单日盈利10k+
                 if (todayProfit >= 5000000) { // 10000 * 500000 = 5000000
@@ -920,7 +958,10 @@ slot.post('/spin', requireAuth, createRateLimiter(RateLimits.SLOT_SPIN), async (
                 multiplier: result.multiplier,
                 bet_amount: betAmount,
                 win_amount: winAmount,
-                free_spin_awarded: result.freeSpinAwarded,
+                free_spin_awarded: freeSpinsGranted > 0,
+                free_spins_granted: freeSpinsGranted,
+                // 🎉 本次生效的限时活动奖励
+                event_bonus: rewardEvent ? { event_id: rewardEvent.id, event_name: rewardEvent.name, multiplier: rewardEvent.effect_value } : null,
                 quota_after: quotaAfterLocal,
                 spins_remaining: remainingSpinsAfter,
                 free_spins_remaining: freeSpinsAfter,
@@ -1162,61 +1203,26 @@ slot.post('/pending-rewards/:id/retry', requireAuth, async (c) => {
         const now = Date.now();
         pendingRewardQueries.updateStatus.run('processing', now, null, rewardId);
 
-        // 获取管理员配置
-        const adminConfig = adminQueries.get.get();
-        if (!adminConfig) {
-            pendingRewardQueries.updateStatus.run('failed', now, '系统配置未找到', rewardId);
-            return c.json({
-                success: false,
-                message: '系统配置错误，请联系管理员',
-                details: '管理员配置未初始化'
-            }, 500);
-        }
-
         try {
-            // 获取用户当前额度
-            const userResult = await getKyxUserById(
-                reward.kyx_user_id,
-                adminConfig.session,
-                adminConfig.new_api_user,
-                3,
-                true // 跳过缓存，获取最新数据
-            );
+            // 通过额度队列发放（与其他额度变动串行，避免互相覆盖）
+            const source = reward.source || 'slot_pending_reward';
+            const updateResult = await addQuota(reward.kyx_user_id, reward.reward_amount, source, { linuxDoId: reward.linux_do_id });
 
-            if (!userResult.success || !userResult.user) {
-                const errorMsg = `获取用户信息失败: ${userResult.message || '未知错误'}`;
-                pendingRewardQueries.incrementRetry.run('failed', errorMsg, now, rewardId);
-                logger.error('申请补发', `❌ ${errorMsg}`);
-                return c.json({
-                    success: false,
-                    message: '系统繁忙，请联系管理员',
-                    details: errorMsg
-                }, 500);
-            }
-
-            const currentQuota = userResult.user.quota;
-            const newQuota = currentQuota + reward.reward_amount;
-
-            logger.debug('申请补发', `当前额度: ${currentQuota}, 奖金: ${reward.reward_amount}, 目标额度: ${newQuota}`);
-
-            // 更新额度
-            const updateResult = await updateKyxUserQuota(
-                reward.kyx_user_id,
-                newQuota,
-                adminConfig.session,
-                adminConfig.new_api_user,
-                reward.username,
-                userResult.user.group || 'default',
-                3
-            );
-
-            if (!updateResult || !updateResult.success) {
-                const errorMsg = `额度更新失败: ${updateResult?.message || '未知错误'}`;
-                const httpStatus = updateResult?.httpStatus;
+            if (!updateResult.success) {
+                const errorMsg = `额度更新失败: ${updateResult.message || '未知错误'}`;
+                const httpStatus = updateResult.httpStatus;
 
                 // 记录详细错误信息
                 let userFriendlyMsg = '系统繁忙，请联系管理员';
-                if (httpStatus === 429) {
+                if (updateResult.errorCode === UPSTREAM_UNAVAILABLE) {
+                    // 上游熔断，保持待发放，恢复后自动发放
+                    pendingRewardQueries.updateStatus.run('pending', now, updateResult.message ?? null, rewardId);
+                    return c.json({
+                        success: false,
+                        message: '上游暂不可用，恢复后将自动发放',
+                        code: UPSTREAM_UNAVAILABLE
+                    }, 503);
+                } else if (httpStatus === 429) {
                     userFriendlyMsg = 'API请求过于频繁，请5分钟后再试';
                     pendingRewardQueries.updateStatus.run('pending', now, 'API限流，请稍后重试', rewardId);
                 } else {
@@ -1232,42 +1238,17 @@ slot.post('/pending-rewards/:id/retry', requireAuth, async (c) => {
                 }, httpStatus === 429 ? 429 : 500);
             }
 
-            // 验证额度是否真的更新了
-            const verifyResult = await getKyxUserById(
-                reward.kyx_user_id,
-                adminConfig.session,
-                adminConfig.new_api_user,
-                3,
-                true
-            );
-
-            if (verifyResult.success && verifyResult.user) {
-                const actualQuota = verifyResult.user.quota;
-                logger.debug('申请补发', `验证额度 - 期望: ${newQuota}, 实际: ${actualQuota}`);
-
-                // 允许小范围误差
-                if (Math.abs(actualQuota - newQuota) > reward.reward_amount) {
-                    const errorMsg = `额度验证失败 - 期望: ${newQuota}, 实际: ${actualQuota}`;
-                    pendingRewardQueries.incrementRetry.run('failed', errorMsg, now, rewardId);
-                    logger.error('申请补发', `⚠️ ${errorMsg}`);
-                    return c.json({
-                        success: false,
-                        message: '系统繁忙，请联系管理员',
-                        details: errorMsg
-                    }, 500);
-                }
-            }
-
             // 标记为成功
             pendingRewardQueries.markSuccess.run('success', now, now, rewardId);
+            postUpstreamCredit(reward.linux_do_id, reward.reward_amount, source, getRewardHouseAccount(source), rewardId, reward.reason);
             logger.info('申请补发', `✅ 发放成功 - 用户: ${reward.username}, 金额: $${(reward.reward_amount / 500000).toFixed(2)}`);
 
             return c.json({
                 success: true,
                 message: `补发成功！$${(reward.reward_amount / 500000).toFixed(2)} 已到账`,
                 data: {
-                    old_quota: currentQuota,
-                    new_quota: newQuota,
+                    old_quota: updateResult.balanceBefore,
+                    new_quota: updateResult.balanceAfter,
                     reward_amount: reward.reward_amount
                 }
             });
@@ -1356,7 +1337,7 @@ slot.get('/pending-rewards', requireAuth, async (c) => {
 /**
  * 购买抽奖次数（支持批量购买）
  */
-slot.post('/buy-spins', requireAuth, createRateLimiter(RateLimits.PURCHASE), async (c) => {
+slot.post('/buy-spins', requireAuth, createIdempotency('slot_buy_spins'), createRateLimiter(RateLimits.PURCHASE), async (c) => {
     try {
         const session = c.get('session') as SessionData;
         if (!session?.linux_do_id) {
@@ -1395,13 +1376,16 @@ slot.post('/buy-spins', requireAuth, createRateLimiter(RateLimits.PURCHASE), asy
             return c.json({ success: false, message: '系统配置未找到' }, 500);
         }
 
-        // 检查用户额度
-        const kyxUserResult = await getKyxUserById(user.kyx_user_id, adminConfig.session, adminConfig.new_api_user);
-        if (!kyxUserResult.success || !kyxUserResult.user) {
+        // 检查用户额度（收款上游，扣费写入同一上游）
+        const payout = await getPayoutBalance(session.linux_do_id);
+        if (payout.errorCode === UPSTREAM_UNAVAILABLE) {
+            return c.json(upstreamUnavailableBody(), 503);
+        }
+        if (!payout.success) {
             return c.json({ success: false, message: '获取额度失败' }, 500);
         }
 
-        const currentQuota = kyxUserResult.user.quota;
+        const currentQuota = payout.quota;
 
         // 🔥 支持批量购买：从请求体获取购买数量
         const body = await c.req.json().catch(() => ({}));
@@ -1460,27 +1444,23 @@ slot.post('/buy-spins', requireAuth, createRateLimiter(RateLimits.PURCHASE), asy
         }
 
         // 扣除购买费用
-        const newQuota = currentQuota - buyPrice;
-        logger.info('购买次数', `准备扣除费用 - 用户: ${user.username}, 购买: ${buyCount}次, 当前: ${currentQuota}, 费用: ${buyPrice}, 目标: ${newQuota}`);
-
-        const deductResult = await updateKyxUserQuota(
-            user.kyx_user_id,
-            newQuota,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            user.username,
-            kyxUserResult.user.group || 'default'
-        );
+        logger.info('购买次数', `准备扣除费用 - 用户: ${user.username}, 购买: ${buyCount}次, 当前: ${currentQuota}, 费用: ${buyPrice}`);
 
-        if (!deductResult || !deductResult.success) {
-            logger.error('购买次数', `扣除费用失败 - 用户: ${user.username}, 错误: ${deductResult?.message || '未知错误'}`);
+        const deductResult = await deductQuota(user.kyx_user_id, buyPrice, 'slot_buy_spins', { linuxDoId: session.linux_do_id });
+
+        if (deductResult.errorCode === UPSTREAM_UNAVAILABLE) {
+            return c.json(upstreamUnavailableBody(), 503);
+        }
+        if (!deductResult.success) {
+            logger.error('购买次数', `扣除费用失败 - 用户: ${user.username}, 错误: ${deductResult.message || '未知错误'}`);
             return c.json({
                 success: false,
-                message: `扣除费用失败: ${deductResult?.message || '未知错误'}，请稍后重试`
+                message: `扣除费用失败: ${deductResult.message || '未知错误'}，请稍后重试`
             }, 500);
         }
 
-        logger.info('购买次数', `扣除费用成功 - 用户: ${user.username}, 数量: ${buyCount}, 剩余额度: ${newQuota}`);
+        logger.info('购买次数', `扣除费用成功 - 用户: ${user.username}, 数量: ${buyCount}, 剩余额度: ${deductResult.balanceAfter}`);
+        postUpstreamDebit(session.linux_do_id, buyPrice, 'slot_buy_spins', LedgerAccounts.HOUSE_SLOT, null, `${buyCount}次`);
 
         // 🔥 记录购买（添加错误处理和回滚机制）
         const now = Date.now();
@@ -1520,18 +1500,12 @@ slot.post('/buy-spins', requireAuth, createRateLimiter(RateLimits.PURCHASE), asy
             logger.error('购买次数', `数据库记录失败 - 用户: ${user.username}, 错误: ${dbError.message}, stack: ${dbError.stack || '无堆栈信息'}`);
 
             // 🔥 尝试回滚额度（将扣除的额度还回去）
-            logger.warn('购买次数', `尝试回滚额度 - 用户: ${user.username}, 从 ${newQuota} 恢复到 ${currentQuota}`);
-            const rollbackResult = await updateKyxUserQuota(
-                user.kyx_user_id,
-                currentQuota, // 恢复到原始额度
-                adminConfig.session,
-                adminConfig.new_api_user,
-                user.username,
-                kyxUserResult.user.group || 'default'
-            );
+            logger.warn('购买次数', `尝试回滚额度 - 用户: ${user.username}, 退回: ${buyPrice}`);
+            const rollbackResult = await addQuota(user.kyx_user_id, buyPrice, 'slot_buy_spins_refund', { linuxDoId: session.linux_do_id });
 
-            if (rollbackResult && rollbackResult.success) {
-                logger.info('购买次数', `回滚成功 - 用户: ${user.username}, 额度已恢复到 ${currentQuota}`);
+            if (rollbackResult.success) {
+                postUpstreamCredit(session.linux_do_id, buyPrice, 'slot_buy_spins_refund', LedgerAccounts.HOUSE_SLOT);
+                logger.info('购买次数', `回滚成功 - 用户: ${user.username}, 额度已恢复到 ${rollbackResult.balanceAfter}`);
                 return c.json({
                     success: false,
                     message: '购买失败：数据库记录出错，额度已自动退回，请稍后重试'
@@ -1564,7 +1538,7 @@ slot.post('/buy-spins', requireAuth, createRateLimiter(RateLimits.PURCHASE), asy
             success: true,
             message: `购买成功！+${buyCount}次抽奖机会，花费 $${(buyPrice / 500000).toFixed(2)}`,
             data: {
-                quota_after: newQuota,
+                quota_after: deductResult.balanceAfter,
                 remaining_spins: newRemainingSpins,
                 bought_today: finalBoughtToday,  // 🔥 使用实际购买次数
                 max_daily_buy: config.max_daily_buy_spins,
@@ -1597,11 +1571,11 @@ slot.get('/tickets', requireAuth, async (c) => {
 
         // 获取今日进入次数（使用北京时间）
         const today = getTodayDate();
-        const todayEntry = advancedSlotQueries.getTodayEntry.get(session.linux_do_id, today);
+        const todayEntry = advancedSlotQueries.getTodayEntry.get(session.linux_do_id!, today);
         const todayEntryCount = todayEntry?.entry_count || 0;
 
         // 获取今日入场券获得数量
-        const todayGrant = advancedSlotQueries.getTodayGrant.get(session.linux_do_id, today);
+        const todayGrant = advancedSlotQueries.getTodayGrant.get(session.linux_do_id!, today);
         const todayTicketGranted = todayGrant?.ticket_granted || 0;
 
         return c.json({
@@ -1808,6 +1782,9 @@ slot.get('/rules', requireAuth, async (c) => {
         } else {
             // 初级场配置
             const normalSlotConfig = getSlotConfig();
+            if (!normalSlotConfig) {
+                return c.json({ success: false, message: '老虎机配置未找到' }, 500);
+            }
             normalConfig = {
                 bet_amount: normalSlotConfig.bet_amount,
                 max_spins: normalSlotConfig.max_daily_spins,
@@ -1838,5 +1815,76 @@ slot.get('/rules', requireAuth, async (c) => {
     }
 });
 
+// ========== 可验证公平 ==========
+
+/**
+ * 获取当前种子信息（服务端种子哈希、客户端种子、nonce）及最近已公开的种子
+ */
+slot.get('/fair/seed', requireAuth, async (c) => {
+    try {
+        const session = c.get('session') as SessionData;
+        const { getSeedInfo } = await import('../services/provably-fair');
+
+        return c.json({ success: true, data: getSeedInfo(session.linux_do_id!) });
+    } catch (error: any) {
+        logger.error('公平种子', '获取种子信息失败', error);
+        return c.json({ success: false, message: '获取种子信息失败' }, 500);
+    }
+});
+
+/**
+ * 设置客户端种子（同时轮换并公开当前服务端种子）
+ */
+slot.post('/fair/client-seed', requireAuth, createRateLimiter(RateLimits.MODE_SWITCH), async (c) => {
+    try {
+        const session = c.get('session') as SessionData;
+        const { client_seed } = await c.req.json();
+        const { setClientSeed } = await import('../services/provably-fair');
+
+        const result = setClientSeed(session.linux_do_id!, String(client_seed ?? '').trim());
+        return c.json(result, result.success ? 200 : 400);
+    } catch (error: any) {
+        logger.error('公平种子', '设置客户端种子失败', error);
+        return c.json({ success: false, message: '设置客户端种子失败' }, 500);
+    }
+});
+
+/**
+ * 轮换种子（公开当前服务端种子，生成新种子）
+ */
+slot.post('/fair/rotate', requireAuth, createRateLimiter(RateLimits.MODE_SWITCH), async (c) => {
+    try {
+        const session = c.get('session') as SessionData;
+        const { rotateSeed } = await import('../services/provably-fair');
+
+        return c.json(rotateSeed(session.linux_do_id!));
+    } catch (error: any) {
+        logger.error('公平种子', '轮换种子失败', error);
+        return c.json({ success: false, message: '轮换种子失败' }, 500);
+    }
+});
+
+/**
+ * 验证本人的游戏记录（type: slot=初级场/高级场, supreme=至尊场）
+ * 服务端种子公开后返回复算结果
+ */
+slot.get('/verify', requireAuth, async (c) => {
+    try {
+        const session = c.get('session') as SessionData;
+        const type = c.req.query('type') === 'supreme' ? 'supreme' : 'slot';
+        const recordId = parseInt(c.req.query('id') || '');
+        if (!recordId) {
+            return c.json({ success: false, message: '请提供记录ID' }, 400);
+        }
+
+        const { verifyRecordedSpin } = await import('../services/provably-fair');
+        const result = verifyRecordedSpin(type, recordId, session.linux_do_id!);
+        return c.json(result, result.success ? 200 : 404);
+    } catch (error: any) {
+        logger.error('公平验证', '验证游戏记录失败', error);
+        return c.json({ success: false, message: '验证失败' }, 500);
+    }
+});
+
 export default slot;
 
@@ -23,6 +23,8 @@ import { updateUserTotalStats, updateUserDailyStats, updateUserWeeklyStats, isUs
 import { calculateWinByScheme } from '../services/reward-calculator';
 import { supremeSlotQueries, userQueries, adminQueries } from '../database';
 import { updateKyxUserQuota } from '../services/kyx-api';
+import { addWallet, deductUpTo, tryDeductWallet } from '../services/wallet';
+import { LedgerAccounts } from '../services/ledger';
 import { db } from '../database';
 import { checkAndUnlockAchievement, updateAchievementProgress, recordSymbols, updateProfitTracking } from '../services/achievement';
 import logger from '../utils/logger';
@@ -183,10 +185,10 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
         const session = c.get('session') as SessionData;
         const { betAmount } = await c.req.json();
 
-        // 🔥 检查坤呗逾期状态（确保用户玩游戏时及时扣款）
+        // 🔥 检查坤呗逾期状态（仅当前用户有到期未处理借款时才处理，其余由定时任务批量处理）
         try {
-            const { checkOverdueLoans } = await import('../services/kunbei');
-            await checkOverdueLoans();
+            const { checkUserOverdueLoans } = await import('../services/kunbei');
+            await checkUserOverdueLoans(session.linux_do_id!);
         } catch (err: any) {
             logger.warn('至尊场', `坤呗逾期检查失败: ${err.message}`);
         }
@@ -260,7 +262,7 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
         }
 
         // 生成符号
-        const symbols = generateSupremeSymbols();
+        const { symbols, fair } = generateSupremeSymbols(session.linux_do_id!);
 
         // 🔥 计算中奖（使用统一的配置方案系统）
         // 至尊场使用严格连续判定（与高级场一致）
@@ -268,12 +270,20 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
 
         // 🔥 检查并应用坤呗buff（只对正向中奖生效，不放大惩罚）
         const { getAndUseBuff } = await import('../services/kunbei');
-        const kunbeiBuff = getAndUseBuff(session.linux_do_id!);
+        const kunbeiBuff = getAndUseBuff(session.linux_do_id!, 'supreme');
         if (kunbeiBuff > 1 && winResult.multiplier > 0) {
             logger.info('坤呗Buff', `应用buff×${kunbeiBuff}，原倍率: ${winResult.multiplier}，新倍率: ${winResult.multiplier * kunbeiBuff}`);
             winResult.multiplier = winResult.multiplier * kunbeiBuff;
         }
 
+        // 🎉 限时活动：奖励倍数（只对正向中奖生效）
+        const { getActiveEventEffect } = await import('../services/events');
+        const rewardEvent = winResult.multiplier > 0 ? getActiveEventEffect('supreme', 'reward_multiplier') : null;
+        if (rewardEvent) {
+            logger.info('限时活动', `应用活动「${rewardEvent.name}」奖励×${rewardEvent.effect_value}，原倍率: ${winResult.multiplier}，新倍率: ${winResult.multiplier * rewardEvent.effect_value}`);
+            winResult.multiplier = winResult.multiplier * rewardEvent.effect_value;
+        }
+
         // 计算赢得金额
         let winAmount = 0;
         if (winResult.multiplier > 0) {
@@ -291,10 +301,16 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
         if (newQuotaAfterBet < 0) {
             return c.json({ success: false, message: '额度不足以支付投注金额' }, 400);
         }
-        const now = Date.now();
-        db.query('INSERT INTO user_wallets (linux_do_id, balance_quota, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET balance_quota = ?, updated_at = ?')
-          .run(session.linux_do_id, newQuotaAfterBet, now, now, newQuotaAfterBet, now);
-        logger.info('至尊场', `✅ 扣除投注成功(本地钱包) - 用户: ${getUserDisplayName(session.linux_do_id)}, 剩余: ${newQuotaAfterBet}`);
+        const spinRefId = crypto.randomUUID();
+        const betRes = tryDeductWallet(session.linux_do_id!, betAmount, {
+            reason: 'supreme_bet',
+            account: LedgerAccounts.HOUSE_SUPREME,
+            refId: spinRefId
+        });
+        if (!betRes.success) {
+            return c.json({ success: false, message: '额度不足以支付投注金额' }, 400);
+        }
+        logger.info('至尊场', `✅ 扣除投注成功(本地钱包) - 用户: ${getUserDisplayName(session.linux_do_id)}, 剩余: ${betRes.newBalance}`);
 
         // 🔥 显示中奖判定符号（与高级场保持一致）
         logger.info('中奖判定', `符号: ${symbols.join(',')}, 规则: ${winResult.ruleName}, 倍率: ${winResult.multiplier}`);
@@ -309,7 +325,8 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
             winResult.winType,
             winResult.multiplier,
             winAmount,
-            winResult.ruleName  // 🔥 记录规则名称
+            winResult.ruleName,  // 🔥 记录规则名称
+            fair
         );
 
         // 🔥 更新用户总统计（用于排行榜）- 修复至尊场盈利未计入排行榜的问题
@@ -347,14 +364,23 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
 
         // 如果中奖，增加额度
         if (winAmount > 0) {
-            const addRes = addWallet(session.linux_do_id!, winAmount);
+            const addRes = addWallet(session.linux_do_id!, winAmount, {
+                reason: 'supreme_win',
+                account: LedgerAccounts.HOUSE_SUPREME,
+                refId: spinRefId,
+                memo: winResult.ruleName
+            });
             quotaAfter = addRes.newBalance;
             logger.info('至尊场', `✅ 添加奖金成功(本地) - 用户: ${getUserDisplayName(session.linux_do_id)}, 新余额: ${quotaAfter}`);
         } else if (winAmount < 0) {
             // 🔥 惩罚扣除（律师函）
             const punishmentAmount = Math.abs(winAmount);
 
-            const dres = deductUpTo(session.linux_do_id!, punishmentAmount);
+            const dres = deductUpTo(session.linux_do_id!, punishmentAmount, {
+                reason: 'supreme_punishment',
+                account: LedgerAccounts.HOUSE_SUPREME,
+                refId: spinRefId
+            });
             quotaAfter = dres.newBalance;
             winAmount = -dres.actualDeducted;
             logger.info('至尊场', `✅ 惩罚扣除成功(本地) - 用户: ${getUserDisplayName(session.linux_do_id)}, 扣除: 🥚${(actualDeduction / 500000).toFixed(2)}, 新余额: ${quotaAfter}`);
@@ -530,6 +556,9 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
         } else {
             message = '未中奖';
         }
+        if (rewardEvent) {
+            message += ` | 🎉 ${rewardEvent.name} 奖励×${rewardEvent.effect_value}`;
+        }
 
         // 使用本地钱包余额
         const afterRow = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(session.linux_do_id) as any;
@@ -547,6 +576,8 @@ supreme.post('/spin', requireAuth, createRateLimiter(RateLimits.SUPREME_SPIN), a
                 win_amount: winAmount,
                 quota_after: quotaAfterLocal,
                 grant_free_spin: winResult.grantFreeSpin,
+                // 🎉 本次生效的限时活动奖励
+                event_bonus: rewardEvent ? { event_id: rewardEvent.id, event_name: rewardEvent.name, multiplier: rewardEvent.effect_value } : null,
                 // 🏆 本次解锁的成就列表
                 unlocked_achievements: unlockedAchievements
             }
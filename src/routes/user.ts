@@ -4,14 +4,17 @@ import { userQueries, claimQueries, donateQueries, adminQueries } from '../datab
 import { cacheManager } from '../cache';
 import {
     searchAndFindExactUser,
-    updateKyxUserQuota,
     getKyxUserById,
 } from '../services/kyx-api';
+import { addQuota } from '../services/quota-queue';
+import { UPSTREAM_UNAVAILABLE, upstreamUnavailableBody } from '../services/circuit-breaker';
+import { PRIMARY_UPSTREAM_ID, getPayoutBalance, recordBinding } from '../services/upstreams';
 import { validateAndDonateKeys } from '../services/keys';
 import { addUserFreeSpins, getUserFreeSpins, getTodayDate } from '../services/slot';
 import { CONFIG } from '../config';
 import type { User } from '../types';
 import { checkAndUnlockAchievement, updateAchievementProgress } from '../services/achievement';
+import { LedgerAccounts, postUpstreamCredit } from '../services/ledger';
 
 const app = new Hono();
 
@@ -93,6 +96,9 @@ app.post('/auth/bind', requireAuth, async (c) => {
         '绑定'
     );
 
+    if (searchResult.errorCode === UPSTREAM_UNAVAILABLE) {
+        return c.json(upstreamUnavailableBody(), 503);
+    }
     if (!searchResult.success) {
         if (
             searchResult.message?.includes('未登录') ||
@@ -160,6 +166,8 @@ app.post('/auth/bind', requireAuth, async (c) => {
         );
         console.log(`[用户操作] 🔄 重新绑定 - LinuxDo用户: ${session.username}, 公益站用户: ${kyxUser.username}, Linux Do ID: ${session.linux_do_id}`);
     }
+    // 主站绑定同步到多上游绑定表（尚无收款上游时设为收款上游）
+    recordBinding(session.linux_do_id, PRIMARY_UPSTREAM_ID, kyxUser.id, kyxUser.username);
 
     // 清除缓存
     cacheManager.delete(`user:${session.linux_do_id}`);
@@ -168,20 +176,12 @@ app.post('/auth/bind', requireAuth, async (c) => {
     // 如果是首次绑定，赠送新手额度
     if (isFirstBind) {
         const bonusQuota = 50000000;
-        const newQuota = kyxUser.quota + bonusQuota;
 
         console.log('[绑定] 首次绑定，赠送额度:', bonusQuota);
 
-        const updateResult = await updateKyxUserQuota(
-            kyxUser.id,
-            newQuota,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            kyxUser.username,
-            kyxUser.group || 'default'
-        );
+        const updateResult = await addQuota(kyxUser.id, bonusQuota, 'bind_bonus', { linuxDoId: kyxUser.linux_do_id });
 
-        if (!updateResult || !updateResult.success) {
+        if (!updateResult.success) {
             console.error(`[绑定] ❌ 发放新手奖励失败 - 用户: ${kyxUser.username}, 错误: ${updateResult?.message || '未知错误'}`);
             // 绑定成功但奖励发放失败，告知用户
             return c.json({
@@ -206,6 +206,7 @@ app.post('/auth/bind', requireAuth, async (c) => {
             timestamp,
             today
         );
+        postUpstreamCredit(session.linux_do_id, bonusQuota, 'bind_bonus', LedgerAccounts.HOUSE_REWARDS);
         console.log(`[用户操作] 🎁 新手奖励发放成功 - 用户: ${kyxUser.username}, 奖励: $${(bonusQuota / 500000).toFixed(2)}`);
 
         // 🏆 首次绑定成就
@@ -220,8 +221,8 @@ app.post('/auth/bind', requireAuth, async (c) => {
             message: `绑定成功！已赠送新手奖励 $${(bonusQuota / 500000).toFixed(2)}`,
             data: {
                 kyx_user: kyxUser,
-                quota_before: kyxUser.quota,
-                quota_after: newQuota,
+                quota_before: updateResult.balanceBefore,
+                quota_after: updateResult.balanceAfter,
                 bonus: bonusQuota,
                 bonusCNY: (bonusQuota / 500000).toFixed(2),
             },
@@ -301,6 +302,10 @@ app.get('/user/quota', requireAuth, async (c) => {
 
     const kyxUser = kyxUserResult.user!;
 
+    // 领取条件按收款上游的额度判断（收款上游为主站时即上面查询的额度）
+    const payout = await getPayoutBalance(user.linux_do_id);
+    const payoutQuota = payout.success && payout.account!.upstream.id !== PRIMARY_UPSTREAM_ID ? payout.quota : kyxUser.quota;
+
     // 检查今日是否已领取（使用北京时间）
     const today = getTodayDate();  // 🔥 使用北京时间
     const claimToday = await cacheManager.getOrLoad(
@@ -367,7 +372,8 @@ app.get('/user/quota', requireAuth, async (c) => {
             quota: kyxUser.quota,
             used_quota: kyxUser.used_quota,
             total: kyxUser.quota + kyxUser.used_quota,
-            can_claim: kyxUser.quota < CONFIG.MIN_QUOTA_THRESHOLD && remaining_claims > 0,
+            can_claim: payoutQuota < CONFIG.MIN_QUOTA_THRESHOLD && remaining_claims > 0,
+            payout_upstream: payout.account ? { id: payout.account.upstream.id, name: payout.account.upstream.name, quota: payoutQuota } : null,
             claimed_today: !!claimToday,
             // 投喂相关信息
             today_donate_modelscope_count: today_donate_modelscope_count,
@@ -444,18 +450,16 @@ app.post('/claim/daily', requireAuth, async (c) => {
         );
     }
 
-    // 查询用户当前额度
-    const searchResult = await searchAndFindExactUser(
-        user.username,
-        adminConfig.session,
-        adminConfig.new_api_user,
-        '每日领取'
-    );
+    // 查询收款上游当前额度（换算为本站额度）
+    const payout = await getPayoutBalance(user.linux_do_id, true);
 
-    if (!searchResult.success) {
+    if (payout.errorCode === UPSTREAM_UNAVAILABLE) {
+        return c.json(upstreamUnavailableBody(), 503);
+    }
+    if (!payout.success) {
         if (
-            searchResult.message?.includes('未登录') ||
-            searchResult.message?.includes('无权进行此操作')
+            payout.message?.includes('未登录') ||
+            payout.message?.includes('无权进行此操作')
         ) {
             return c.json(
                 {
@@ -468,15 +472,13 @@ app.post('/claim/daily', requireAuth, async (c) => {
         return c.json(
             {
                 success: false,
-                message: searchResult.message || '查询用户失败',
+                message: payout.message || '查询用户失败',
             },
             500
         );
     }
 
-    const kyxUser = searchResult.user!;
-
-    if (kyxUser.quota >= CONFIG.MIN_QUOTA_THRESHOLD) {
+    if (payout.quota >= CONFIG.MIN_QUOTA_THRESHOLD) {
         return c.json(
             { success: false, message: '额度充足，未达到领取要求' },
             400
@@ -484,16 +486,11 @@ app.post('/claim/daily', requireAuth, async (c) => {
     }
 
     // 更新额度
-    const newQuota = kyxUser.quota + adminConfig.claim_quota;
-    const updateResult = await updateKyxUserQuota(
-        user.kyx_user_id,
-        newQuota,
-        adminConfig.session,
-        adminConfig.new_api_user,
-        kyxUser.username,
-        kyxUser.group || 'default'
-    );
+    const updateResult = await addQuota(user.kyx_user_id, adminConfig.claim_quota, 'daily_claim', { linuxDoId: user.linux_do_id });
 
+    if (updateResult.errorCode === UPSTREAM_UNAVAILABLE) {
+        return c.json(upstreamUnavailableBody(), 503);
+    }
     if (!updateResult.success) {
         if (
             updateResult.message?.includes('未登录') ||
@@ -525,6 +522,7 @@ app.post('/claim/daily', requireAuth, async (c) => {
         timestamp,
         today
     );
+    postUpstreamCredit(user.linux_do_id, adminConfig.claim_quota, 'daily_claim', LedgerAccounts.HOUSE_REWARDS);
 
     // 清除缓存
     cacheManager.clear(`claim:${user.linux_do_id}`);
@@ -664,6 +662,68 @@ app.post('/donate/iflow', requireAuth, async (c) => {
     }
 });
 
+/**
+ * 可用上游及绑定情况
+ */
+app.get('/upstreams', requireAuth, async (c) => {
+    const session = c.get('session');
+    const { listUserUpstreams } = await import('../services/upstreams');
+    return c.json({ success: true, data: listUserUpstreams(session.linux_do_id) });
+});
+
+/**
+ * 绑定其他上游的公益站账号
+ */
+app.post('/upstreams/:id/bind', requireAuth, async (c) => {
+    const session = c.get('session');
+    const upstreamId = parseInt(c.req.param('id'));
+    const { username } = await c.req.json();
+
+    if (!username) {
+        return c.json({ success: false, message: '用户名不能为空' }, 400);
+    }
+    if (upstreamId === PRIMARY_UPSTREAM_ID) {
+        return c.json({ success: false, message: '主站请通过账号绑定流程绑定' }, 400);
+    }
+    if (!userQueries.get.get(session.linux_do_id)) {
+        return c.json({ success: false, message: '请先绑定主站账号' }, 400);
+    }
+
+    const { bindUpstream } = await import('../services/upstreams');
+    const result = await bindUpstream(session.linux_do_id, upstreamId, username);
+    if (result.errorCode === UPSTREAM_UNAVAILABLE) {
+        return c.json(upstreamUnavailableBody(result.message), 503);
+    }
+    return c.json({ success: result.success, message: result.message, data: result.binding }, result.success ? 200 : 400);
+});
+
+/**
+ * 设置收款上游（领取、奖励、划转等额度变动写入该上游）
+ */
+app.post('/upstreams/:id/payout', requireAuth, async (c) => {
+    const session = c.get('session');
+    const upstreamId = parseInt(c.req.param('id'));
+
+    const { setPayoutUpstream } = await import('../services/upstreams');
+    const result = setPayoutUpstream(session.linux_do_id, upstreamId);
+    if (result.success) {
+        cacheManager.delete(`user:${session.linux_do_id}`);
+    }
+    return c.json(result, result.success ? 200 : 400);
+});
+
+/**
+ * 解除上游绑定
+ */
+app.delete('/upstreams/:id', requireAuth, async (c) => {
+    const session = c.get('session');
+    const upstreamId = parseInt(c.req.param('id'));
+
+    const { unbindUpstream } = await import('../services/upstreams');
+    const result = unbindUpstream(session.linux_do_id, upstreamId);
+    return c.json(result, result.success ? 200 : 400);
+});
+
 /**
  * 查看用户领取记录
  */
@@ -2,8 +2,13 @@ import { Hono } from 'hono';
 import { db, adminQueries } from '../database';
 import { getWalletBalance } from '../services/wallet';
 import { getCookie, getSession } from '../utils';
-import { getKyxUserById, updateKyxUserQuota } from '../services/kyx-api';
+import { getPayoutBalance, toLocalQuota } from '../services/upstreams';
+import { UPSTREAM_UNAVAILABLE, upstreamUnavailableBody } from '../services/circuit-breaker';
+import { createAndExecuteWalletTransfer, getInFlightTransfer, type WalletTransferDirection } from '../services/wallet-transfer';
+import { getGiftSummary, getUserGifts, sendWalletGift } from '../services/wallet-gift';
+import type { WalletGiftListType } from '../types';
 import logger from '../utils/logger';
+import { createIdempotency } from '../middleware/idempotency';
 
 const app = new Hono();
 
@@ -53,16 +58,9 @@ app.get('/balance', requireAuth, async (c) => {
     .get(linuxDoId, today) as any;
   const todayCount = countRow ? (countRow.cnt as number) : 0;
 
-  // 上游余额
-  const kyxUser = db.query('SELECT kyx_user_id, username FROM users WHERE linux_do_id = ?').get(linuxDoId) as any;
-  let upstreamQuota = 0;
-  if (kyxUser) {
-    const adminConfig = adminQueries.get.get();
-    if (adminConfig) {
-      const r = await getKyxUserById(kyxUser.kyx_user_id, adminConfig.session, adminConfig.new_api_user);
-      if (r.success && r.user) upstreamQuota = r.user.quota || 0;
-    }
-  }
+  // 收款上游余额（换算为本站额度）
+  const payout = await getPayoutBalance(linuxDoId);
+  const upstreamQuota = payout.quota;
 
   return c.json({
     success: true,
@@ -73,12 +71,15 @@ app.get('/balance', requireAuth, async (c) => {
       remaining_count: Math.max(0, limitCount - todayCount),
       wallet_quota: walletQuota,
       upstream_quota: upstreamQuota,
+      upstream_id: payout.account?.upstream.id ?? null,
+      upstream_name: payout.account?.upstream.name ?? null,
+      gift: getGiftSummary(linuxDoId),
     }
   });
 });
 
 // 划转：direction: 'in' (上游→本地) | 'out' (本地→上游); amount_egg: number
-app.post('/transfer', requireAuth, async (c) => {
+app.post('/transfer', requireAuth, createIdempotency('wallet_transfer'), async (c) => {
   const session = c.get('session');
   const linuxDoId = session.linux_do_id as string;
   const body = await c.req.json();
@@ -100,6 +101,12 @@ app.post('/transfer', requireAuth, async (c) => {
   const amountQuota = Math.floor(amountEgg * rate);
   if (amountQuota <= 0) return c.json({ success: false, message: '金额过小' }, 400);
 
+  // 同一用户同时只允许一笔划转
+  const inFlight = getInFlightTransfer(linuxDoId);
+  if (inFlight) {
+    return c.json({ success: false, message: '上一笔划转仍在处理中，请稍后再试' }, 409);
+  }
+
   // 限次校验
   const today = getTodayDate();
   const cntRow = db.query('SELECT COUNT(*) as cnt FROM wallet_transfer_records WHERE linux_do_id = ? AND date = ?')
@@ -113,91 +120,106 @@ app.post('/transfer', requireAuth, async (c) => {
   const walletRow = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(linuxDoId) as any;
   const walletQuota = walletRow ? walletRow.balance_quota as number : 0;
 
-  // 上游用户
-  const userRow = db.query('SELECT kyx_user_id, username FROM users WHERE linux_do_id = ?').get(linuxDoId) as any;
-  if (!userRow) return c.json({ success: false, message: '用户未绑定' }, 400);
-
-  const kyxUserId = userRow.kyx_user_id as number;
-  const adminSession = admin.session as string;
-  const newApiUser = admin.new_api_user as string;
-
-  // 拉取上游当前余额
-  let upstreamQuota = 0;
-  const r = await getKyxUserById(kyxUserId, adminSession, newApiUser);
-  if (!r.success || !r.user) return c.json({ success: false, message: '获取上游余额失败' }, 500);
-  upstreamQuota = r.user.quota || 0;
-
-  if (direction === 'in') {
-    // 公益站 -> 本地钱包
-    logger.info('钱包划转', `开始划转 (公益站→本地) - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 上游余额: $${(upstreamQuota / 500000).toFixed(2)}, 本地余额: $${(walletQuota / 500000).toFixed(2)}`);
-
-    if (upstreamQuota < amountQuota) {
-      logger.warn('钱包划转', `❌ 划转失败 - 用户: ${getUserDisplayName(linuxDoId)}, 上游余额不足: $${(upstreamQuota / 500000).toFixed(2)} < $${(amountQuota / 500000).toFixed(2)}`);
-      return c.json({ success: false, message: '上游余额不足' }, 400);
-    }
-
-    // 更新上游余额：扣减
-    const newUp = upstreamQuota - amountQuota;
-    logger.info('钱包划转', `正在从上游扣款 - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 上游余额: $${(upstreamQuota / 500000).toFixed(2)} → $${(newUp / 500000).toFixed(2)}`);
-
-    const upRes = await updateKyxUserQuota(kyxUserId, newUp, adminSession, newApiUser, r.user.username, r.user.group || 'default');
-    if (!upRes || !upRes.success) {
-      logger.error('钱包划转', `❌ 上游扣款失败 - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}`);
-      return c.json({ success: false, message: '上游扣款失败' }, 500);
-    }
-
-    logger.info('钱包划转', `✅ 上游扣款成功 - 用户: ${getUserDisplayName(linuxDoId)}`);
+  // 拉取收款上游当前余额
+  const payout = await getPayoutBalance(linuxDoId);
+  if (!payout.account) return c.json({ success: false, message: '用户未绑定或收款上游已停用' }, 400);
+  if (payout.errorCode === UPSTREAM_UNAVAILABLE) return c.json(upstreamUnavailableBody(), 503);
+  if (!payout.success) return c.json({ success: false, message: '获取上游余额失败' }, 500);
+  const { upstream, kyxUserId } = payout.account;
+  const upstreamQuota = payout.quota;
 
-    // 本地钱包增加
-    const now = Date.now();
-    const newWallet = (walletQuota + amountQuota);
+  const directionText = direction === 'in' ? '公益站→本地' : '本地→公益站';
+  logger.info('钱包划转', `开始划转 (${directionText}) - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 上游余额: $${(upstreamQuota / 500000).toFixed(2)}, 本地余额: $${(walletQuota / 500000).toFixed(2)}`);
 
-    logger.info('钱包划转', `正在更新本地钱包 - 用户: ${getUserDisplayName(linuxDoId)}, 本地余额: $${(walletQuota / 500000).toFixed(2)} → $${(newWallet / 500000).toFixed(2)}`);
-
-    db.query('INSERT INTO user_wallets (linux_do_id, balance_quota, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET balance_quota = balance_quota + ?, updated_at = ?')
-      .run(linuxDoId, amountQuota, now, now, amountQuota, now);
-
-    // 记录
-    db.query('INSERT INTO wallet_transfer_records (linux_do_id, direction, amount_quota, timestamp, date) VALUES (?, ?, ?, ?, ?)')
-      .run(linuxDoId, 'in', amountQuota, now, today);
-
-    logger.info('钱包划转', `✅ 划转成功 (公益站→本地) - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 上游余额: $${(newUp / 500000).toFixed(2)}, 本地余额: $${(newWallet / 500000).toFixed(2)}, 今日次数: ${todayCount + 1}/${limitCount}`);
-
-    return c.json({ success: true, message: '划转成功', data: { upstream_quota: newUp, wallet_quota: newWallet } });
-  } else {
-    // 本地钱包 -> 公益站
-    logger.info('钱包划转', `开始划转 (本地→公益站) - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 本地余额: $${(walletQuota / 500000).toFixed(2)}, 上游余额: $${(upstreamQuota / 500000).toFixed(2)}`);
+  if (direction === 'in' && upstreamQuota < amountQuota) {
+    logger.warn('钱包划转', `❌ 划转失败 - 用户: ${getUserDisplayName(linuxDoId)}, 上游余额不足: $${(upstreamQuota / 500000).toFixed(2)} < $${(amountQuota / 500000).toFixed(2)}`);
+    return c.json({ success: false, message: '上游余额不足' }, 400);
+  }
+  if (direction === 'out' && walletQuota < amountQuota) {
+    logger.warn('钱包划转', `❌ 划转失败 - 用户: ${getUserDisplayName(linuxDoId)}, 本地余额不足: $${(walletQuota / 500000).toFixed(2)} < $${(amountQuota / 500000).toFixed(2)}`);
+    return c.json({ success: false, message: '本地钱包余额不足' }, 400);
+  }
 
-    if (walletQuota < amountQuota) {
-      logger.warn('钱包划转', `❌ 划转失败 - 用户: ${getUserDisplayName(linuxDoId)}, 本地余额不足: $${(walletQuota / 500000).toFixed(2)} < $${(amountQuota / 500000).toFixed(2)}`);
-      return c.json({ success: false, message: '本地钱包余额不足' }, 400);
-    }
+  // 两阶段划转：转入先上游后本地，提现先扣本地后上游，中断后由对账器续做或冲正
+  const transfer = await createAndExecuteWalletTransfer(linuxDoId, kyxUserId, direction as WalletTransferDirection, amountQuota, upstream.id);
+  if (!transfer) {
+    return c.json({ success: false, message: '上一笔划转仍在处理中，请稍后再试' }, 409);
+  }
 
-    const newUp = upstreamQuota + amountQuota;
-    const newWallet = (walletQuota - amountQuota);
+  if (transfer.status === 'done') {
+    const newUp = transfer.upstream_target !== null ? toLocalQuota(upstream, transfer.upstream_target) : upstreamQuota;
+    const newWallet = transfer.wallet_after ?? getWalletBalance(linuxDoId);
+    logger.info('钱包划转', `✅ 划转成功 (${directionText}) - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 上游余额: $${(newUp / 500000).toFixed(2)}, 本地余额: $${(newWallet / 500000).toFixed(2)}, 今日次数: ${todayCount + 1}/${limitCount}`);
+    return c.json({
+      success: true,
+      message: direction === 'in' ? '划转成功' : '提现成功',
+      data: { transfer_id: transfer.id, upstream_quota: newUp, wallet_quota: newWallet }
+    });
+  }
 
-    logger.info('钱包划转', `正在向上游加款 - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 上游余额: $${(upstreamQuota / 500000).toFixed(2)} → $${(newUp / 500000).toFixed(2)}`);
+  if (transfer.status === 'failed' || transfer.status === 'compensated') {
+    return c.json({
+      success: false,
+      message: transfer.error_message || '划转失败',
+      data: { transfer_id: transfer.id, status: transfer.status }
+    }, transfer.status === 'failed' ? 400 : 500);
+  }
 
-    const upRes = await updateKyxUserQuota(kyxUserId, newUp, adminSession, newApiUser, r.user.username, r.user.group || 'default');
-    if (!upRes || !upRes.success) {
-      logger.error('钱包划转', `❌ 上游加款失败 - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}`);
-      return c.json({ success: false, message: '上游加款失败' }, 500);
-    }
+  if (transfer.status === 'needs_review') {
+    return c.json({
+      success: false,
+      message: '划转结果待人工核对，请联系管理员',
+      data: { transfer_id: transfer.id, status: transfer.status }
+    }, 202);
+  }
 
-    logger.info('钱包划转', `✅ 上游加款成功 - 用户: ${getUserDisplayName(linuxDoId)}`);
+  // 未到终态（如本地入账暂时失败），交由对账器继续处理
+  logger.warn('钱包划转', `⏳ 划转未完成 #${transfer.id} - 用户: ${getUserDisplayName(linuxDoId)}, 状态: ${transfer.status}`);
+  return c.json({
+    success: false,
+    message: '划转处理中，系统将自动完成或退回，请稍后查看余额',
+    data: { transfer_id: transfer.id, status: transfer.status }
+  }, 202);
+});
 
-    const now = Date.now();
+// 赠送：receiver 为对方 LinuxDo 用户名; amount_egg: number; memo: 可选留言
+app.post('/gift', requireAuth, createIdempotency('wallet_gift'), async (c) => {
+  const session = c.get('session');
+  const linuxDoId = session.linux_do_id as string;
+  const body = await c.req.json();
 
-    logger.info('钱包划转', `正在更新本地钱包 - 用户: ${getUserDisplayName(linuxDoId)}, 本地余额: $${(walletQuota / 500000).toFixed(2)} → $${(newWallet / 500000).toFixed(2)}`);
+  try {
+    const result = sendWalletGift(linuxDoId, (body?.receiver || '').toString(), parseFloat(body?.amount_egg), body?.memo);
+    return c.json(result, result.success ? 200 : 400);
+  } catch (error) {
+    logger.error('钱包赠送', '赠送失败', error);
+    return c.json({ success: false, message: '赠送失败' }, 500);
+  }
+});
 
-    db.query('UPDATE user_wallets SET balance_quota = balance_quota - ?, updated_at = ? WHERE linux_do_id = ?')
-      .run(amountQuota, now, linuxDoId);
-    db.query('INSERT INTO wallet_transfer_records (linux_do_id, direction, amount_quota, timestamp, date) VALUES (?, ?, ?, ?, ?)')
-      .run(linuxDoId, 'out', amountQuota, now, today);
+// 获取赠送记录：type = all | sent | received
+app.get('/gifts', requireAuth, async (c) => {
+  const session = c.get('session');
+  const linuxDoId = session.linux_do_id as string;
 
-    logger.info('钱包划转', `✅ 提现成功 (本地→公益站) - 用户: ${getUserDisplayName(linuxDoId)}, 金额: $${(amountQuota / 500000).toFixed(2)}, 本地余额: $${(newWallet / 500000).toFixed(2)}, 上游余额: $${(newUp / 500000).toFixed(2)}, 今日次数: ${todayCount + 1}/${limitCount}`);
+  const type = c.req.query('type') || 'all';
+  if (!['all', 'sent', 'received'].includes(type)) {
+    return c.json({ success: false, message: '非法的类型参数' }, 400);
+  }
+  const limit = parseInt(c.req.query('limit') || '20');
+  const offset = parseInt(c.req.query('offset') || '0');
 
-    return c.json({ success: true, message: '提现成功', data: { upstream_quota: newUp, wallet_quota: newWallet } });
+  try {
+    return c.json({
+      success: true,
+      data: {
+        ...getUserGifts(linuxDoId, type as WalletGiftListType, limit, offset),
+        today: getGiftSummary(linuxDoId)
+      }
+    });
+  } catch (error) {
+    logger.error('钱包赠送', '获取赠送记录失败', error);
+    return c.json({ success: false, message: '获取记录失败' }, 500);
   }
 });
 
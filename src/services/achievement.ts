@@ -4,9 +4,10 @@
  */
 
 import { achievementQueries, userQueries, adminQueries } from '../database';
-import { addQuota } from './kyx-api';
+import { creditReward } from './reward-processor';
+import { LedgerAccounts, postUpstreamCredit } from './ledger';
 import logger from '../utils/logger';
-import type { Achievement, AchievementProgress, UserAchievement } from '../types';
+import type { Achievement, AchievementProgress, UserAchievement, UserSymbolCollection } from '../types';
 
 // 🔥 递归保护：防止 updateUserAchievementStats 和 checkAndUnlockAchievement 之间无限递归
 const updatingStatsUsers = new Set<string>();
@@ -252,8 +253,8 @@ async function checkCollectionCondition(linuxDoId: string, condition: any): Prom
 
             // 检查是否所有符号都至少收集了1个
             const allCollected = condition.items.every((symbol: string) => {
-                const key = `symbol_${symbol}`;
-                return collection[key] && collection[key] > 0;
+                const key = `symbol_${symbol}` as keyof UserSymbolCollection;
+                return Number(collection[key]) > 0;
             });
 
             logger.debug('条件检查', `收藏型条件 - 符号收集: ${allCollected ? '✅全部收集' : '❌未全部收集'}`);
@@ -372,15 +373,11 @@ export async function updateAchievementProgress(
  * @param linuxDoId 用户ID
  * @param kyxUserId 公益站用户ID
  * @param achievementKey 成就标识
- * @param session 管理员session
- * @param newApiUser 新API用户标识
  */
 export async function claimAchievementReward(
     linuxDoId: string,
     kyxUserId: number,
-    achievementKey: string,
-    session: string,
-    newApiUser: string = '1'
+    achievementKey: string
 ): Promise<{ success: boolean; message: string; reward?: number }> {
     try {
         logger.info('成就奖励', `${getUserDisplayName(linuxDoId)} 请求领取成就奖励: ${achievementKey}`);
@@ -408,13 +405,13 @@ export async function claimAchievementReward(
         logger.info('成就奖励', `正在发放奖励: ${achievement.achievement_name} - ${achievement.reward_quota} quota - 用户: ${getUserDisplayName(linuxDoId)}`);
 
         // 发放奖励
-        const rechargeResult = await addQuota(
+        const rechargeResult = await creditReward({
+            linuxDoId,
             kyxUserId,
-            achievement.reward_quota,
-            session,
-            newApiUser,
-            '成就奖励'
-        );
+            amount: achievement.reward_quota,
+            source: 'achievement_reward',
+            reason: `成就奖励: ${achievement.achievement_name}`,
+        });
         if (!rechargeResult.success) {
             logger.error('成就奖励', `❌ 奖励发放失败: ${rechargeResult.message}`);
             return {
@@ -426,6 +423,10 @@ export async function claimAchievementReward(
         // 标记为已领取
         const now = Date.now();
         achievementQueries.claimReward.run(now, linuxDoId, achievementKey);
+        // 转入待发放的奖励在补发成功时记账
+        if (!rechargeResult.deferred) {
+            postUpstreamCredit(linuxDoId, achievement.reward_quota, 'achievement_reward', LedgerAccounts.HOUSE_REWARDS, achievementKey);
+        }
 
         // 更新用户统计
         await updateUserAchievementStats(linuxDoId);
@@ -434,7 +435,7 @@ export async function claimAchievementReward(
 
         return {
             success: true,
-            message: '奖励已发放',
+            message: rechargeResult.deferred ? rechargeResult.message! : '奖励已发放',
             reward: achievement.reward_quota
         };
     } catch (error: any) {
@@ -451,9 +452,7 @@ export async function claimAchievementReward(
  */
 export async function claimAllRewards(
     linuxDoId: string,
-    kyxUserId: number,
-    session: string,
-    newApiUser: string = '1'
+    kyxUserId: number
 ): Promise<{ success: boolean; message: string; totalReward?: number; count?: number }> {
     try {
         logger.info('批量领取', `${getUserDisplayName(linuxDoId)} 请求批量领取所有成就奖励`);
@@ -472,7 +471,7 @@ export async function claimAllRewards(
         let failedCount = 0;
 
         for (const userAchievement of unclaimedAchievements) {
-            const result = await claimAchievementReward(linuxDoId, kyxUserId, userAchievement.achievement_key, session, newApiUser);
+            const result = await claimAchievementReward(linuxDoId, kyxUserId, userAchievement.achievement_key);
             if (result.success && result.reward) {
                 totalReward += result.reward;
                 successCount++;
@@ -712,7 +711,7 @@ export function setUserBadges(
         logger.info('徽章设置', `${getUserDisplayName(linuxDoId)} 设置徽章: [${badge1 || '-'}, ${badge2 || '-'}, ${badge3 || '-'}]`);
 
         // 验证徽章是否已解锁
-        const badges = [badge1, badge2, badge3].filter(b => b);
+        const badges = [badge1, badge2, badge3].filter((b): b is string => !!b);
         for (const badgeKey of badges) {
             const userAchievement = achievementQueries.getUserAchievement.get(linuxDoId, badgeKey);
             if (!userAchievement) {
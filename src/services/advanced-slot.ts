@@ -435,7 +435,7 @@ export function recordTicketDrop(
     triggerWinType: string
 ): void {
     const now = Date.now();
-    const date = new Date().toISOString().split('T')[0];
+    const date = new Date().toISOString().split('T')[0]!;
 
     advancedSlotQueries.insertDropRecord.run(
         linuxDoId,
@@ -2,7 +2,7 @@
  * 🛡️ 反滥用和异常行为检测服务
  */
 
-import { rateLimitBanQueries, userQueries } from '../database';
+import { rateLimitBanQueries, userQueries, walletGiftQueries } from '../database';
 import logger from '../utils/logger';
 
 interface BehaviorPattern {
@@ -172,6 +172,50 @@ export async function banUserForAnomaly(
     }
 }
 
+// 钱包赠送检测参数
+const GIFT_FUNNEL_WINDOW = 24 * 60 * 60 * 1000;       // 归集检测窗口（24小时）
+const GIFT_FUNNEL_SENDERS = 5;                         // 窗口内向同一账号赠送的账号数达到此值时标记
+const GIFT_NEW_ACCOUNT_AGE = 7 * 24 * 60 * 60 * 1000;  // 注册不足7天视为新账号
+
+/**
+ * 🎁 钱包赠送检测
+ * - 赠送方处于封禁中时拒绝赠送
+ * - 多个账号向同一账号集中赠送（疑似小号归集）或新账号赠送时只做标记，记录在赠送记录上供管理员复核
+ */
+export function checkGiftAbuse(senderId: string, receiverId: string): {
+    allowed: boolean;
+    reason?: string;
+    flags: string[];
+} {
+    const now = Date.now();
+
+    const activeBan = rateLimitBanQueries.getActiveBan.get(senderId, now);
+    if (activeBan) {
+        logger.warn('异常检测', `用户 ${senderId} 封禁中尝试赠送 → ${receiverId}`);
+        return { allowed: false, reason: '账号处于限制期间，暂时无法赠送', flags: [] };
+    }
+
+    const flags: string[] = [];
+
+    // 🚨 检测1：资金归集（包括本次赠送方在内，24小时内向接收方赠送的账号数）
+    const otherSenders = walletGiftQueries.countOtherSendersSince.get(receiverId, senderId, now - GIFT_FUNNEL_WINDOW)?.count || 0;
+    if (otherSenders + 1 >= GIFT_FUNNEL_SENDERS) {
+        flags.push(`24小时内已有${otherSenders + 1}个账号向其赠送（疑似小号归集）`);
+    }
+
+    // 🚨 检测2：新账号赠送
+    const sender = userQueries.get.get(senderId);
+    if (sender && now - sender.created_at < GIFT_NEW_ACCOUNT_AGE) {
+        flags.push(`赠送方注册不足${Math.round(GIFT_NEW_ACCOUNT_AGE / 86400000)}天`);
+    }
+
+    if (flags.length > 0) {
+        logger.warn('异常检测', `钱包赠送 ${senderId} → ${receiverId} 已标记：${flags.join('；')}`);
+    }
+
+    return { allowed: true, flags };
+}
+
 /**
  * 🧹 清理过期的行为记录
  */
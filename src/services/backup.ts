@@ -0,0 +1,337 @@
+/**
+ * 数据库备份服务
+ * 使用 VACUUM INTO 在线生成一致性快照（不阻塞读写），每个快照生成后执行 PRAGMA integrity_check，
+ * 校验通过才落盘为正式快照，并写入同名 .json 元数据文件。
+ * 恢复时先将快照复制为暂存文件并校验（完整性、迁移版本），通过后在单个事务内整体替换当前数据。
+ */
+
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync, readdirSync, readFileSync, renameSync, rmSync, statSync, writeFileSync, copyFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { CONFIG } from '../config';
+import { db } from '../database';
+import { cacheManager } from '../cache';
+import { migrations } from '../migrations';
+import { runMigrations } from '../migrations/runner';
+import logger from '../utils/logger';
+
+export type BackupReason = 'scheduled' | 'manual' | 'pre-restore';
+
+export interface BackupInfo {
+    name: string;
+    reason: BackupReason;
+    created_at: number;
+    size_bytes: number;
+    integrity: string;
+    schema_version: number;
+    duration_ms: number;
+}
+
+const BACKUP_NAME_PATTERN = /^kyxquota-\d{8}T\d{9}Z-(scheduled|manual|pre-restore)\.db$/;
+// 恢复时保留当前数据的表：迁移记录由当前代码决定，会话保留以免恢复后管理员被登出
+const RESTORE_SKIP_TABLES = new Set(['schema_migrations', 'sessions']);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let isBusy = false;
+
+export function getBackupDir(): string {
+    return CONFIG.BACKUP_DIR || join(dirname(CONFIG.DATABASE_PATH), 'backups');
+}
+
+function ensureBackupDir(): string {
+    const dir = getBackupDir();
+    if (!existsSync(dir)) {
+        mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+}
+
+function buildBackupName(reason: BackupReason, now: number): string {
+    const stamp = new Date(now).toISOString().replace(/[-:.]/g, '');
+    return `kyxquota-${stamp}-${reason}.db`;
+}
+
+function metaPathOf(snapshotPath: string): string {
+    return `${snapshotPath}.json`;
+}
+
+/**
+ * 校验快照名并返回完整路径（防止路径穿越）
+ */
+export function resolveBackupPath(name: string): string | null {
+    if (!BACKUP_NAME_PATTERN.test(name)) {
+        return null;
+    }
+    const path = join(getBackupDir(), name);
+    return existsSync(path) ? path : null;
+}
+
+function getSchemaVersion(target: Database): number {
+    const table = target.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'schema_migrations'").get();
+    if (!table) {
+        return 0;
+    }
+    const row = target.query('SELECT MAX(version) as version FROM schema_migrations').get() as { version: number | null } | null;
+    return row?.version || 0;
+}
+
+/**
+ * 对数据库文件执行完整性检查，返回 'ok' 或错误描述
+ */
+function checkIntegrity(target: Database): string {
+    const rows = target.query('PRAGMA integrity_check').all() as Array<{ integrity_check: string }>;
+    return rows.map(row => row.integrity_check).join('; ') || 'unknown';
+}
+
+function removeSnapshot(path: string): void {
+    rmSync(path, { force: true });
+    rmSync(metaPathOf(path), { force: true });
+}
+
+/**
+ * 生成一份快照
+ */
+export function createBackup(reason: BackupReason = 'manual'): BackupInfo {
+    if (isBusy) {
+        throw new Error('已有备份或恢复任务正在执行');
+    }
+    isBusy = true;
+
+    try {
+        return takeSnapshot(reason);
+    } finally {
+        isBusy = false;
+    }
+}
+
+function takeSnapshot(reason: BackupReason): BackupInfo {
+    const startTime = Date.now();
+    const dir = ensureBackupDir();
+    const name = buildBackupName(reason, startTime);
+    const finalPath = join(dir, name);
+    const tempPath = `${finalPath}.tmp`;
+
+    rmSync(tempPath, { force: true });
+    db.exec(`VACUUM INTO '${tempPath.replace(/'/g, "''")}'`);
+
+    let integrity: string;
+    let schemaVersion: number;
+    const snapshot = new Database(tempPath, { readonly: true });
+    try {
+        integrity = checkIntegrity(snapshot);
+        schemaVersion = getSchemaVersion(snapshot);
+    } finally {
+        snapshot.close();
+    }
+
+    if (integrity !== 'ok') {
+        rmSync(tempPath, { force: true });
+        throw new Error(`快照完整性检查失败: ${integrity}`);
+    }
+
+    renameSync(tempPath, finalPath);
+
+    const info: BackupInfo = {
+        name,
+        reason,
+        created_at: startTime,
+        size_bytes: statSync(finalPath).size,
+        integrity,
+        schema_version: schemaVersion,
+        duration_ms: Date.now() - startTime,
+    };
+    writeFileSync(metaPathOf(finalPath), JSON.stringify(info, null, 2));
+
+    logger.info('数据库备份', `✅ 快照已生成 - ${name}, 大小: ${(info.size_bytes / 1024 / 1024).toFixed(2)}MB, 耗时: ${info.duration_ms}ms`);
+    return info;
+}
+
+/**
+ * 列出所有快照（按时间倒序）
+ */
+export function listBackups(): BackupInfo[] {
+    const dir = getBackupDir();
+    if (!existsSync(dir)) {
+        return [];
+    }
+
+    const backups: BackupInfo[] = [];
+    for (const name of readdirSync(dir)) {
+        if (!BACKUP_NAME_PATTERN.test(name)) continue;
+
+        const path = join(dir, name);
+        try {
+            backups.push(JSON.parse(readFileSync(metaPathOf(path), 'utf-8')) as BackupInfo);
+        } catch {
+            // 元数据缺失（如手动拷入的快照）时根据文件信息补全，完整性状态未知
+            const stat = statSync(path);
+            backups.push({
+                name,
+                reason: name.match(BACKUP_NAME_PATTERN)![1] as BackupReason,
+                created_at: stat.mtimeMs,
+                size_bytes: stat.size,
+                integrity: 'unknown',
+                schema_version: 0,
+                duration_ms: 0,
+            });
+        }
+    }
+
+    return backups.sort((a, b) => b.created_at - a.created_at);
+}
+
+/**
+ * 删除快照
+ */
+export function deleteBackup(name: string): boolean {
+    const path = resolveBackupPath(name);
+    if (!path) {
+        return false;
+    }
+    removeSnapshot(path);
+    logger.info('数据库备份', `🗑️ 已删除快照 - ${name}`);
+    return true;
+}
+
+/**
+ * 按保留策略清理定时快照（手动快照与恢复前快照不自动清理），始终保留最新一份
+ */
+export function applyRetention(now: number = Date.now()): string[] {
+    const scheduled = listBackups().filter(backup => backup.reason === 'scheduled');
+    const maxAge = CONFIG.BACKUP_RETENTION_DAYS * DAY_MS;
+    const removed: string[] = [];
+
+    scheduled.forEach((backup, index) => {
+        if (index === 0) return;
+        if (index >= CONFIG.BACKUP_RETENTION_COUNT || now - backup.created_at > maxAge) {
+            removeSnapshot(join(getBackupDir(), backup.name));
+            removed.push(backup.name);
+        }
+    });
+
+    if (removed.length > 0) {
+        logger.info('数据库备份', `🧹 按保留策略清理 ${removed.length} 个快照`);
+    }
+    return removed;
+}
+
+/**
+ * 校验暂存文件：完整性检查、迁移版本不高于当前代码，必要时补执行迁移
+ */
+function validateStaging(stagingPath: string): { integrity: string; schema_version: number } {
+    const staging = new Database(stagingPath);
+    try {
+        const integrity = checkIntegrity(staging);
+        if (integrity !== 'ok') {
+            throw new Error(`快照完整性检查失败: ${integrity}`);
+        }
+
+        const latestVersion = migrations[migrations.length - 1]?.version || 0;
+        const schemaVersion = getSchemaVersion(staging);
+        if (schemaVersion > latestVersion) {
+            throw new Error(`快照迁移版本 (${schemaVersion}) 高于当前程序 (${latestVersion})，无法恢复`);
+        }
+
+        const users = staging.query("SELECT name FROM sqlite_master WHERE type = 'table' AND name = 'users'").get();
+        if (!users) {
+            throw new Error('快照中缺少 users 表，不是有效的数据库快照');
+        }
+
+        // 旧版本快照先在暂存文件上补执行迁移，保证表结构与当前程序一致
+        if (schemaVersion < latestVersion) {
+            runMigrations(staging);
+        }
+
+        return { integrity, schema_version: getSchemaVersion(staging) };
+    } finally {
+        staging.close();
+    }
+}
+
+function listTables(schema: 'main' | 'staging'): string[] {
+    const rows = db.query(`SELECT name FROM ${schema}.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'`).all() as Array<{ name: string }>;
+    return rows.map(row => row.name);
+}
+
+function listColumns(schema: 'main' | 'staging', table: string): string[] {
+    const rows = db.query(`SELECT name FROM pragma_table_info('${table}', '${schema}')`).all() as Array<{ name: string }>;
+    return rows.map(row => row.name);
+}
+
+/**
+ * 从快照恢复
+ * 流程：复制为暂存文件 → 校验 → 生成恢复前快照 → 单事务内逐表替换数据 → 清空缓存
+ * 快照中缺失的表会被清空；两侧都存在的表只复制共同字段，其余字段使用默认值
+ */
+export function restoreBackup(name: string): { restored: string; pre_restore: string; tables: number; rows: number } {
+    const snapshotPath = resolveBackupPath(name);
+    if (!snapshotPath) {
+        throw new Error('快照不存在');
+    }
+    if (isBusy) {
+        throw new Error('已有备份或恢复任务正在执行');
+    }
+    isBusy = true;
+
+    const stagingPath = `${CONFIG.DATABASE_PATH}.restore-staging`;
+
+    try {
+        rmSync(stagingPath, { force: true });
+        copyFileSync(snapshotPath, stagingPath);
+
+        const validation = validateStaging(stagingPath);
+        logger.info('数据库备份', `🔍 暂存文件校验通过 - ${name}, 迁移版本: ${validation.schema_version}`);
+
+        const preRestore = takeSnapshot('pre-restore');
+
+        let tables = 0;
+        let rows = 0;
+        db.exec(`ATTACH DATABASE '${stagingPath.replace(/'/g, "''")}' AS staging`);
+        try {
+            const stagingTables = new Set(listTables('staging'));
+
+            db.exec('BEGIN IMMEDIATE');
+            try {
+                for (const table of listTables('main')) {
+                    if (RESTORE_SKIP_TABLES.has(table)) continue;
+
+                    db.exec(`DELETE FROM main."${table}"`);
+                    tables++;
+                    if (!stagingTables.has(table)) continue;
+
+                    const stagingColumns = new Set(listColumns('staging', table));
+                    const columns = listColumns('main', table)
+                        .filter(column => stagingColumns.has(column))
+                        .map(column => `"${column}"`)
+                        .join(', ');
+                    const result = db.query(`INSERT INTO main."${table}" (${columns}) SELECT ${columns} FROM staging."${table}"`).run();
+                    rows += result.changes;
+                }
+                db.exec('COMMIT');
+            } catch (error) {
+                db.exec('ROLLBACK');
+                throw error;
+            }
+        } finally {
+            db.exec('DETACH DATABASE staging');
+        }
+
+        cacheManager.clear();
+        logger.info('数据库备份', `♻️ 已从快照恢复 - ${name}, 表: ${tables}, 行: ${rows}, 恢复前快照: ${preRestore.name}`);
+
+        return { restored: name, pre_restore: preRestore.name, tables, rows };
+    } finally {
+        rmSync(stagingPath, { force: true });
+        rmSync(`${stagingPath}-wal`, { force: true });
+        rmSync(`${stagingPath}-shm`, { force: true });
+        isBusy = false;
+    }
+}
+
+/**
+ * 执行一次定时备份并清理过期快照（由定时任务调用）
+ */
+export function runScheduledBackup(): { backup: string; removed: string[] } {
+    const backup = createBackup('scheduled');
+    return { backup: backup.name, removed: applyRetention() };
+}
@@ -0,0 +1,259 @@
+/**
+ * 上游熔断器
+ * 按上游站点和接口（搜索、查询用户、更新额度、推送 Keys）分别统计健康状况，上游故障时快速失败，避免每个请求都耗尽重试
+ * - closed：正常放行，滑动窗口内失败率超过阈值后打开
+ * - open：直接拒绝，冷却结束后进入半开
+ * - half_open：仅放行一个探测请求，成功则关闭，失败则重新打开
+ * 只有网络错误、超时和 5xx 计为失败；429 说明上游存活，交由限流器处理
+ */
+
+import logger from '../utils/logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+export type UpstreamOperation = 'search' | 'get_user' | 'update_quota' | 'push_keys';
+
+// 上游不可用错误码（熔断快速失败时返回）
+export const UPSTREAM_UNAVAILABLE = 'UPSTREAM_UNAVAILABLE';
+export const UPSTREAM_UNAVAILABLE_MESSAGE = '上游服务暂不可用，请稍后再试';
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private stateChangedAt = Date.now();
+    private probeStartedAt = 0; // 半开状态下探测请求的开始时间，0 表示无探测
+
+    // 配置
+    private readonly windowMs = 60000; // 失败率统计窗口
+    private readonly minRequests = 5; // 窗口内至少有这么多请求才判断失败率
+    private readonly failureRateThreshold = 0.5; // 失败率阈值
+    private readonly openDurationMs = 30000; // 打开后的冷却时间
+    private readonly probeTimeoutMs = 30000; // 探测请求超时后允许新的探测（大于单次请求超时）
+    private readonly latencySamples = 500; // 保留的耗时样本数
+
+    // 滑动窗口与统计
+    private outcomes: Array<{ time: number; ok: boolean }> = [];
+    private latencies: number[] = [];
+    private totalRequests = 0;
+    private failedRequests = 0;
+    private rejectedRequests = 0;
+    private rateLimitHits = 0;
+    private openCount = 0;
+    private lastError: string | null = null;
+    private lastFailureAt: number | null = null;
+
+    constructor(readonly operation: UpstreamOperation, readonly label: string, readonly baseUrl: string | null = null) {}
+
+    /**
+     * 请求前调用：返回 false 表示熔断中，应直接快速失败
+     */
+    tryAcquire(): boolean {
+        const now = Date.now();
+
+        if (this.state === 'open') {
+            if (now - this.stateChangedAt < this.openDurationMs) {
+                this.rejectedRequests++;
+                return false;
+            }
+            this.transition('half_open');
+        }
+
+        if (this.state === 'half_open') {
+            if (this.probeStartedAt && now - this.probeStartedAt < this.probeTimeoutMs) {
+                this.rejectedRequests++;
+                return false;
+            }
+            this.probeStartedAt = now;
+        }
+
+        return true;
+    }
+
+    /**
+     * 是否处于打开状态且仍在冷却期（重试前检查，熔断后不再继续重试）
+     */
+    isOpen(): boolean {
+        return this.state === 'open' && Date.now() - this.stateChangedAt < this.openDurationMs;
+    }
+
+    /**
+     * 记录一次上游响应（5xx 计为失败）
+     */
+    recordResponse(status: number, latencyMs: number): void {
+        if (status >= 500) {
+            this.recordFailure(`HTTP ${status}`, latencyMs);
+            return;
+        }
+        if (status === 429) {
+            this.rateLimitHits++;
+        }
+        this.recordSuccess(latencyMs);
+    }
+
+    recordSuccess(latencyMs: number): void {
+        this.record(true, latencyMs);
+        if (this.state === 'half_open') {
+            this.transition('closed');
+        }
+    }
+
+    recordFailure(error: string, latencyMs: number): void {
+        this.record(false, latencyMs);
+        this.failedRequests++;
+        this.lastError = error;
+        this.lastFailureAt = Date.now();
+
+        if (this.state === 'half_open') {
+            this.transition('open');
+            return;
+        }
+
+        if (this.state === 'closed') {
+            const { total, failed } = this.windowCounts();
+            if (total >= this.minRequests && failed / total >= this.failureRateThreshold) {
+                this.transition('open');
+            }
+        }
+    }
+
+    /**
+     * 手动关闭熔断（管理员确认上游已恢复）
+     */
+    reset(): void {
+        this.outcomes = [];
+        this.transition('closed');
+    }
+
+    private record(ok: boolean, latencyMs: number): void {
+        this.totalRequests++;
+        this.outcomes.push({ time: Date.now(), ok });
+        this.latencies.push(latencyMs);
+        if (this.latencies.length > this.latencySamples) {
+            this.latencies.shift();
+        }
+    }
+
+    private windowCounts(): { total: number; failed: number } {
+        const since = Date.now() - this.windowMs;
+        while (this.outcomes.length > 0 && this.outcomes[0]!.time < since) {
+            this.outcomes.shift();
+        }
+        const failed = this.outcomes.filter(item => !item.ok).length;
+        return { total: this.outcomes.length, failed };
+    }
+
+    private transition(next: CircuitState): void {
+        if (this.state === next) return;
+
+        const previous = this.state;
+        this.state = next;
+        this.stateChangedAt = Date.now();
+        this.probeStartedAt = 0;
+
+        if (next === 'open') {
+            this.openCount++;
+            logger.error('熔断器', `🔴 ${this.label} 熔断打开（${previous} → open），${this.openDurationMs / 1000} 秒内快速失败 - 最近错误: ${this.lastError || '无'}`);
+        } else if (next === 'half_open') {
+            logger.warn('熔断器', `🟡 ${this.label} 进入半开状态，放行探测请求`);
+        } else {
+            this.outcomes = [];
+            logger.info('熔断器', `🟢 ${this.label} 已恢复（${previous} → closed）`);
+        }
+    }
+
+    private percentile(sorted: number[], p: number): number | null {
+        if (sorted.length === 0) return null;
+        const index = Math.min(sorted.length - 1, Math.ceil(sorted.length * p) - 1);
+        return sorted[Math.max(0, index)]!;
+    }
+
+    /**
+     * 获取统计信息
+     */
+    getStats() {
+        const { total, failed } = this.windowCounts();
+        const sorted = [...this.latencies].sort((a, b) => a - b);
+
+        return {
+            operation: this.operation,
+            label: this.label,
+            upstream: this.baseUrl || '主站',
+            state: this.state,
+            stateChangedAt: this.stateChangedAt,
+            reopenAt: this.state === 'open' ? this.stateChangedAt + this.openDurationMs : null,
+            window: {
+                durationMs: this.windowMs,
+                requests: total,
+                failures: failed,
+                errorRate: total > 0 ? (failed / total * 100).toFixed(2) + '%' : '0%',
+            },
+            totalRequests: this.totalRequests,
+            failedRequests: this.failedRequests,
+            rejectedRequests: this.rejectedRequests,
+            rateLimitHits: this.rateLimitHits,
+            openCount: this.openCount,
+            errorRate: this.totalRequests > 0 ? (this.failedRequests / this.totalRequests * 100).toFixed(2) + '%' : '0%',
+            latency: {
+                samples: sorted.length,
+                p50: this.percentile(sorted, 0.5),
+                p90: this.percentile(sorted, 0.9),
+                p99: this.percentile(sorted, 0.99),
+                max: sorted.length > 0 ? sorted[sorted.length - 1]! : null,
+            },
+            lastError: this.lastError,
+            lastFailureAt: this.lastFailureAt,
+        };
+    }
+}
+
+// 全局熔断器实例（按上游接口划分）
+export const upstreamBreakers: Record<UpstreamOperation, CircuitBreaker> = {
+    search: new CircuitBreaker('search', '上游用户搜索'),
+    get_user: new CircuitBreaker('get_user', '上游用户查询'),
+    update_quota: new CircuitBreaker('update_quota', '上游额度更新'),
+    push_keys: new CircuitBreaker('push_keys', 'Keys 推送'),
+};
+
+// 其他上游站点的熔断器（按地址懒创建）
+const siteBreakers = new Map<string, CircuitBreaker>();
+
+/**
+ * 获取上游接口的熔断器（未指定地址时为主站）
+ */
+export function getUpstreamBreaker(operation: UpstreamOperation, baseUrl?: string): CircuitBreaker {
+    if (!baseUrl) {
+        return upstreamBreakers[operation];
+    }
+    const key = `${baseUrl}|${operation}`;
+    let breaker = siteBreakers.get(key);
+    if (!breaker) {
+        breaker = new CircuitBreaker(operation, `${upstreamBreakers[operation].label}（${baseUrl}）`, baseUrl);
+        siteBreakers.set(key, breaker);
+    }
+    return breaker;
+}
+
+function allBreakers(): CircuitBreaker[] {
+    return [...Object.values(upstreamBreakers), ...siteBreakers.values()];
+}
+
+/**
+ * 获取所有熔断器状态
+ */
+export function getUpstreamHealth() {
+    return allBreakers().map(breaker => breaker.getStats());
+}
+
+/**
+ * 手动关闭某接口在所有上游站点的熔断，返回重置数量
+ */
+export function resetUpstreamBreakers(operation: UpstreamOperation): number {
+    const breakers = allBreakers().filter(breaker => breaker.operation === operation);
+    breakers.forEach(breaker => breaker.reset());
+    return breakers.length;
+}
+
+/**
+ * 上游不可用时的接口响应体（配合 HTTP 503 返回）
+ */
+export function upstreamUnavailableBody(message: string = UPSTREAM_UNAVAILABLE_MESSAGE) {
+    return { success: false, message, code: UPSTREAM_UNAVAILABLE };
+}
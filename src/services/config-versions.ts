@@ -0,0 +1,290 @@
+/**
+ * 配置版本
+ * 场次配置（初级/高级/至尊）、坤呗配置、权重配置与奖励方案（含中奖规则和律师函惩罚）每次写入都追加一个不可修改的版本，
+ * 记录操作者、时间与前后快照；回滚在同一事务内把配置恢复为指定版本的快照，并记录为新版本
+ * 这些配置在使用时直接读库，回滚后只需清除并重算对应的概率缓存
+ */
+
+import { configVersionQueries, db } from '../database';
+import type { ConfigEntityType, ConfigVersion, ConfigVersionAction } from '../types';
+import logger from '../utils/logger';
+import { invalidateProbabilityCache } from './probability-calculator';
+
+export const CONFIG_ENTITY_TYPES: ConfigEntityType[] = ['slot', 'advanced', 'supreme', 'kunbei', 'weight', 'reward_scheme'];
+
+const ENTITY_NAMES: Record<ConfigEntityType, string> = {
+    slot: '初级场配置',
+    advanced: '高级场配置',
+    supreme: '至尊场配置',
+    kunbei: '坤呗配置',
+    weight: '权重配置',
+    reward_scheme: '奖励方案'
+};
+
+// 单行配置表（id = 1）
+const SINGLETON_TABLES: Partial<Record<ConfigEntityType, string>> = {
+    slot: 'slot_machine_config',
+    advanced: 'advanced_slot_config',
+    supreme: 'supreme_slot_config',
+    kunbei: 'kunbei_config'
+};
+
+/**
+ * 变更来源：操作者、IP 与触发变更的接口或任务
+ */
+export interface ConfigActor {
+    actor: string;
+    ip: string | null;
+    source: string;
+}
+
+export function isConfigEntityType(value: string): value is ConfigEntityType {
+    return (CONFIG_ENTITY_TYPES as string[]).includes(value);
+}
+
+function entityLabel(type: ConfigEntityType, id: number): string {
+    return SINGLETON_TABLES[type] ? ENTITY_NAMES[type] : `${ENTITY_NAMES[type]} #${id}`;
+}
+
+/**
+ * 读取配置当前快照（奖励方案包含其规则与惩罚），不存在时返回 null
+ */
+export function snapshotConfig(type: ConfigEntityType, id: number = 1): any | null {
+    const table = SINGLETON_TABLES[type];
+    if (table) {
+        return db.query(`SELECT * FROM ${table} WHERE id = ?`).get(id) ?? null;
+    }
+    if (type === 'weight') {
+        return db.query('SELECT * FROM symbol_weight_configs WHERE id = ?').get(id) ?? null;
+    }
+
+    const scheme = db.query('SELECT * FROM reward_config_schemes WHERE id = ?').get(id);
+    if (!scheme) {
+        return null;
+    }
+    return {
+        scheme,
+        rules: db.query('SELECT * FROM reward_rules WHERE scheme_id = ? ORDER BY id').all(id),
+        punishments: db.query('SELECT * FROM punishment_lsh_configs WHERE scheme_id = ? ORDER BY lsh_count').all(id)
+    };
+}
+
+// 比较快照时忽略 updated_at，只改时间戳的写入不产生新版本
+function withoutTimestamps(value: any): any {
+    if (Array.isArray(value)) {
+        return value.map(withoutTimestamps);
+    }
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).filter(([key]) => key !== 'updated_at').map(([key, item]) => [key, withoutTimestamps(item)]));
+    }
+    return value;
+}
+
+function sameSnapshot(a: any, b: any): boolean {
+    return JSON.stringify(withoutTimestamps(a)) === JSON.stringify(withoutTimestamps(b));
+}
+
+function insertVersion(
+    type: ConfigEntityType,
+    id: number,
+    action: ConfigVersionAction,
+    before: any | null,
+    after: any,
+    actor: ConfigActor,
+    rollbackOf: number | null = null
+): ConfigVersion {
+    return configVersionQueries.insert.get(
+        type,
+        id,
+        action,
+        before === null ? null : JSON.stringify(before),
+        JSON.stringify(after),
+        actor.actor,
+        actor.ip,
+        actor.source,
+        rollbackOf,
+        Date.now()
+    )!;
+}
+
+/**
+ * 写入配置后调用：记录一个新版本（内容未变化时不记录）
+ * 配置首次被记录时，先把写入前的快照存为 baseline 版本，以便回滚到版本历史开始之前
+ * @param before 写入前的快照（snapshotConfig），新建时为 null
+ */
+export function recordConfigVersion(
+    type: ConfigEntityType,
+    id: number,
+    before: any | null,
+    actor: ConfigActor,
+    action?: ConfigVersionAction,
+    rollbackOf: number | null = null
+): ConfigVersion | null {
+    // 权重配置与奖励方案的概率缓存不会过期，每次写入后清除，避免读到旧配置的结果
+    if (type === 'weight') {
+        invalidateProbabilityCache({ weightConfigId: id });
+    } else if (type === 'reward_scheme') {
+        invalidateProbabilityCache({ rewardSchemeId: id });
+    }
+
+    const after = snapshotConfig(type, id);
+    if (!after) {
+        logger.warn('配置版本', `${entityLabel(type, id)} 不存在，未记录版本`);
+        return null;
+    }
+
+    const resolvedAction = action ?? (before === null ? 'create' : 'update');
+    if (before !== null && resolvedAction === 'update' && sameSnapshot(before, after)) {
+        return null;
+    }
+
+    if (before !== null && !configVersionQueries.getLatest.get(type, id)) {
+        insertVersion(type, id, 'baseline', null, before, { actor: 'system', ip: null, source: '版本历史开始前的配置' });
+    }
+
+    const version = insertVersion(type, id, resolvedAction, before, after, actor, rollbackOf);
+    logger.info('配置版本', `📝 ${entityLabel(type, id)} v${version.version}（${resolvedAction}）- ${actor.actor} ${actor.source}`);
+    return version;
+}
+
+function tableColumns(table: string): string[] {
+    return db.query<{ name: string }, []>(`PRAGMA table_info(${table})`).all().map(column => column.name);
+}
+
+/**
+ * 按快照覆盖一行（快照中没有的新字段保持不变），updated_at 记为当前时间
+ */
+function restoreRow(table: string, id: number, row: any): void {
+    const columns = tableColumns(table).filter(column => column !== 'id' && column !== 'updated_at' && column in row);
+    const hasUpdatedAt = tableColumns(table).includes('updated_at');
+    const assignments = [...columns.map(column => `${column} = ?`), ...(hasUpdatedAt ? ['updated_at = ?'] : [])];
+    const values = [...columns.map(column => row[column]), ...(hasUpdatedAt ? [Date.now()] : [])];
+
+    const result = db.query(`UPDATE ${table} SET ${assignments.join(', ')} WHERE id = ?`).run(...values, id);
+    if (result.changes === 0) {
+        throw new Error(`${table} #${id} 不存在`);
+    }
+}
+
+function insertRow(table: string, row: any): void {
+    const columns = tableColumns(table).filter(column => column in row);
+    db.query(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`)
+        .run(...columns.map(column => row[column]));
+}
+
+function restoreSnapshot(type: ConfigEntityType, id: number, snapshot: any): void {
+    const table = SINGLETON_TABLES[type];
+    if (table) {
+        restoreRow(table, id, snapshot);
+        return;
+    }
+    if (type === 'weight') {
+        restoreRow('symbol_weight_configs', id, snapshot);
+        return;
+    }
+
+    // 奖励方案：规则与惩罚整体替换（沿用原 ID，AUTOINCREMENT 不会复用已删除的 ID）
+    restoreRow('reward_config_schemes', id, snapshot.scheme);
+    db.query('DELETE FROM reward_rules WHERE scheme_id = ?').run(id);
+    db.query('DELETE FROM punishment_lsh_configs WHERE scheme_id = ?').run(id);
+    for (const rule of snapshot.rules) {
+        insertRow('reward_rules', rule);
+    }
+    for (const punishment of snapshot.punishments) {
+        insertRow('punishment_lsh_configs', punishment);
+    }
+}
+
+/**
+ * 回滚后需要重算概率的奖励方案
+ */
+function affectedRewardSchemes(type: ConfigEntityType, id: number, before: any, after: any): number[] {
+    if (type === 'weight') {
+        const schemes = db.query<{ reward_scheme_id: number }, [number, number, number]>(`
+            SELECT reward_scheme_id FROM slot_machine_config WHERE weight_config_id = ?
+            UNION SELECT reward_scheme_id FROM advanced_slot_config WHERE weight_config_id = ?
+            UNION SELECT reward_scheme_id FROM supreme_slot_config WHERE weight_config_id = ?
+        `).all(id, id, id);
+        return schemes.map(row => row.reward_scheme_id);
+    }
+    if (type === 'reward_scheme') {
+        return [id];
+    }
+    if (type === 'kunbei') {
+        return [];
+    }
+    // 场次配置：缓存按方案ID区分，切换方案不会读到旧结果，只需为恢复后的方案重算
+    const schemeIds = [after?.reward_scheme_id].filter((schemeId): schemeId is number => typeof schemeId === 'number' && schemeId !== before?.reward_scheme_id);
+    return schemeIds;
+}
+
+/**
+ * 回滚到指定版本（恢复为该版本写入后的快照）
+ */
+export async function rollbackConfigVersion(versionId: number, actor: ConfigActor): Promise<{ success: boolean; message: string; data?: ConfigVersion }> {
+    const target = configVersionQueries.getById.get(versionId);
+    if (!target) {
+        return { success: false, message: '版本不存在' };
+    }
+
+    const type = target.entity_type;
+    const id = target.entity_id;
+    const snapshot = JSON.parse(target.after_json);
+    const before = snapshotConfig(type, id);
+    if (!before) {
+        return { success: false, message: `${entityLabel(type, id)} 不存在` };
+    }
+    if (sameSnapshot(before, snapshot)) {
+        return { success: false, message: `当前配置已与 v${target.version} 一致` };
+    }
+
+    let version: ConfigVersion | null = null;
+    db.transaction(() => {
+        restoreSnapshot(type, id, snapshot);
+        version = recordConfigVersion(type, id, before, actor, 'rollback', target.id);
+    })();
+
+    logger.warn('配置版本', `⏪ ${entityLabel(type, id)} 已回滚到 v${target.version} - ${actor.actor}`);
+
+    // 重算受影响的概率缓存（缓存已在记录版本时清除，失败不影响回滚结果）
+    const rewardSchemeIds = affectedRewardSchemes(type, id, before, snapshot);
+    try {
+        const { recalculateProbabilityForScheme } = await import('./probability-calculator');
+        for (const rewardSchemeId of rewardSchemeIds) {
+            await recalculateProbabilityForScheme(rewardSchemeId);
+        }
+    } catch (error: any) {
+        logger.warn('配置版本', `概率重算失败（不影响回滚）: ${error.message}`);
+    }
+
+    return { success: true, message: `${entityLabel(type, id)} 已回滚到 v${target.version}`, data: version ?? undefined };
+}
+
+/**
+ * 解析版本快照并列出变化的字段（奖励方案按 scheme / rules / punishments 比较）
+ */
+export function toVersionView(version: ConfigVersion) {
+    const before = version.before_json ? JSON.parse(version.before_json) : null;
+    const after = JSON.parse(version.after_json);
+    const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after)]);
+    const changedFields = before === null
+        ? []
+        : [...keys].filter(key => key !== 'updated_at' && !sameSnapshot(before[key] ?? null, after[key] ?? null));
+
+    const { before_json, after_json, ...rest } = version;
+    return { ...rest, entity_name: entityLabel(version.entity_type, version.entity_id), changed_fields: changedFields, before, after };
+}
+
+/**
+ * 配置的版本历史（最新在前）
+ */
+export function getConfigHistory(type: ConfigEntityType, id: number, limit: number) {
+    return configVersionQueries.getHistory.all(type, id, limit).map(toVersionView);
+}
+
+/**
+ * 最近的配置变更（全部配置）
+ */
+export function getRecentConfigVersions(limit: number) {
+    return configVersionQueries.getRecent.all(limit).map(toVersionView);
+}
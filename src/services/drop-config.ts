@@ -6,23 +6,11 @@
 import { addTicket, addFragment } from './advanced-slot';
 import { addSupremeToken, addSupremeFragment } from './supreme-slot';
 import logger from '../utils/logger';
+import { chance, getRng, type Rng } from './rng';
+import type { DropConfig } from '../types';
+import { getActiveEventEffect, isEventSlotMode } from './events';
 
-/**
- * 掉落配置接口
- */
-export interface DropConfig {
-    id?: number;
-    slot_mode: 'normal' | 'advanced' | 'supreme';
-    trigger_rule_name: string;
-    drop_item_type: 'ticket' | 'fragment' | 'supreme_token' | 'supreme_fragment';
-    drop_probability: number;
-    drop_count: number;
-    is_active: number;
-    priority: number;
-    description?: string;
-    created_at: number;
-    updated_at: number;
-}
+export type { DropConfig };
 
 /**
  * 掉落结果
@@ -63,12 +51,14 @@ export async function getDropConfigsByRule(slotMode: string, ruleName: string):
 
 /**
  * 处理掉落逻辑
+ * @param rng 随机数生成器（测试/回放时可传入 SeededRng）
  */
 export async function handleDrops(
     linuxDoId: string,
     username: string,
     slotMode: string,
-    ruleName: string
+    ruleName: string,
+    rng: Rng = getRng()
 ): Promise<DropResult> {
     const configs = await getDropConfigsByRule(slotMode, ruleName);
     
@@ -81,15 +71,19 @@ export async function handleDrops(
         items: []
     };
     
+    // 🎉 限时活动：掉落概率倍数（最高 100%）
+    const dropEvent = isEventSlotMode(slotMode) ? getActiveEventEffect(slotMode, 'drop_rate') : null;
+
     // 遍历所有配置（一个规则可能掉落多种物品）
     for (const config of configs) {
-        const triggered = Math.random() < config.drop_probability;
+        const probability = dropEvent ? Math.min(1, config.drop_probability * dropEvent.effect_value) : config.drop_probability;
+        const triggered = chance(probability, rng);
         
         result.items.push({
             type: config.drop_item_type,
             count: config.drop_count,
             triggered,
-            probability: config.drop_probability
+            probability
         });
         
         if (triggered) {
@@ -99,7 +93,7 @@ export async function handleDrops(
             switch (config.drop_item_type) {
                 case 'ticket':
                     const ticketResult = addTicket(linuxDoId, config.drop_count);
-                    logger.info('掉落系统', `🎟️ ${username} 从 ${ruleName} 获得 ${config.drop_count}张入场券 (${config.drop_probability * 100}%概率)`);
+                    logger.info('掉落系统', `🎟️ ${username} 从 ${ruleName} 获得 ${config.drop_count}张入场券 (${probability * 100}%概率)`);
                     if (!ticketResult.success) {
                         logger.warn('掉落系统', `⚠️ ${ticketResult.message}`);
                     }
@@ -107,12 +101,12 @@ export async function handleDrops(
 
                 case 'fragment':
                     addFragment(linuxDoId, config.drop_count);
-                    logger.info('掉落系统', `🍀 ${username} 从 ${ruleName} 获得 ${config.drop_count}个碎片 (${config.drop_probability * 100}%概率)`);
+                    logger.info('掉落系统', `🍀 ${username} 从 ${ruleName} 获得 ${config.drop_count}个碎片 (${probability * 100}%概率)`);
                     break;
 
                 case 'supreme_token':
                     const tokenResult = addSupremeToken(linuxDoId, config.drop_count);
-                    logger.info('掉落系统', `💎 ${username} 从 ${ruleName} 获得 ${config.drop_count}个至尊令牌 (${config.drop_probability * 100}%概率)`);
+                    logger.info('掉落系统', `💎 ${username} 从 ${ruleName} 获得 ${config.drop_count}个至尊令牌 (${probability * 100}%概率)`);
                     if (!tokenResult.success) {
                         logger.warn('掉落系统', `⚠️ ${tokenResult.message}`);
                     }
@@ -120,7 +114,7 @@ export async function handleDrops(
 
                 case 'supreme_fragment':
                     addSupremeFragment(linuxDoId, config.drop_count);
-                    logger.info('掉落系统', `💠 ${username} 从 ${ruleName} 获得 ${config.drop_count}个至尊碎片 (${config.drop_probability * 100}%概率)`);
+                    logger.info('掉落系统', `💠 ${username} 从 ${ruleName} 获得 ${config.drop_count}个至尊碎片 (${probability * 100}%概率)`);
                     break;
             }
         }
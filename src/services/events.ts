@@ -0,0 +1,387 @@
+/**
+ * 限时活动
+ * 管理员按北京时间安排时间窗口，窗口内临时叠加到场次配置上，到期自动失效，无需手动改回配置：
+ * - reward_multiplier：正向中奖倍率 × 活动倍数（不放大惩罚）
+ * - drop_rate：掉落概率 × 活动倍数（最高 100%）
+ * - free_spins：活动期间命中带免费次数奖励的规则时发放的次数（活动外规则不发放免费次数）
+ * - kunbei_buff：坤呗首借 buff 的倍率（取活动倍数与原倍率中较大者）
+ * 同一场次同类效果的活动重叠时只生效一个：优先级高者优先，其次指定场次优先于全场次，再次效果更强者优先，最后先创建者优先
+ */
+
+import { timedEventQueries } from '../database';
+import type { TimedEvent, TimedEventEffect, TimedEventMode, TimedEventStatus } from '../types';
+import logger from '../utils/logger';
+
+export type EventSlotMode = Exclude<TimedEventMode, 'all'>;
+
+export const TIMED_EVENT_MODES: TimedEventMode[] = ['all', 'normal', 'advanced', 'supreme'];
+export const TIMED_EVENT_EFFECTS: TimedEventEffect[] = ['reward_multiplier', 'drop_rate', 'free_spins', 'kunbei_buff'];
+export const TIMED_EVENT_STATUSES: TimedEventStatus[] = ['scheduled', 'active', 'ended', 'cancelled'];
+
+const SLOT_MODES: EventSlotMode[] = ['normal', 'advanced', 'supreme'];
+const MODE_NAMES: Record<TimedEventMode, string> = { all: '全场次', normal: '初级场', advanced: '高级场', supreme: '至尊场' };
+
+// 各效果支持的场次（至尊场没有免费次数，也不处理掉落配置）
+const EFFECT_MODES: Record<TimedEventEffect, EventSlotMode[]> = {
+    reward_multiplier: ['normal', 'advanced', 'supreme'],
+    drop_rate: ['normal', 'advanced'],
+    free_spins: ['normal', 'advanced'],
+    kunbei_buff: ['normal', 'advanced', 'supreme']
+};
+
+// 各效果的取值范围（免费次数为整数）
+const EFFECT_LIMITS: Record<TimedEventEffect, { min: number; max: number; label: string }> = {
+    reward_multiplier: { min: 1, max: 10, label: '奖励倍数' },
+    drop_rate: { min: 1, max: 20, label: '掉落概率倍数' },
+    free_spins: { min: 2, max: 10, label: '免费次数' },
+    kunbei_buff: { min: 1, max: 10, label: '坤呗buff倍数' }
+};
+
+const MAX_EVENT_DAYS = 30;
+const BEIJING_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+export function isTimedEventMode(value: string): value is TimedEventMode {
+    return (TIMED_EVENT_MODES as string[]).includes(value);
+}
+
+export function isTimedEventEffect(value: string): value is TimedEventEffect {
+    return (TIMED_EVENT_EFFECTS as string[]).includes(value);
+}
+
+export function isEventSlotMode(value: string): value is EventSlotMode {
+    return (SLOT_MODES as string[]).includes(value);
+}
+
+export function isTimedEventStatus(value: string): value is TimedEventStatus {
+    return (TIMED_EVENT_STATUSES as string[]).includes(value);
+}
+
+/**
+ * 解析活动时间：毫秒时间戳，或北京时间字符串 YYYY-MM-DD HH:mm[:ss]
+ */
+export function parseEventTime(value: unknown): number | null {
+    if (typeof value === 'number') {
+        return Number.isInteger(value) && value > 0 ? value : null;
+    }
+    if (typeof value !== 'string') {
+        return null;
+    }
+    const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/);
+    if (!match) {
+        return null;
+    }
+    const [year, month, day, hour, minute, second] = match.slice(1).map(part => Number(part ?? 0));
+    const timestamp = Date.UTC(year!, month! - 1, day!, hour!, minute!, second!) - BEIJING_OFFSET_MS;
+    // 拒绝 2024-02-30 这类会被 Date.UTC 顺延的日期
+    const check = new Date(timestamp + BEIJING_OFFSET_MS);
+    if (check.getUTCMonth() !== month! - 1 || check.getUTCDate() !== day || hour! > 23 || minute! > 59 || second! > 59) {
+        return null;
+    }
+    return timestamp;
+}
+
+/**
+ * 北京时间显示（YYYY-MM-DD HH:mm:ss）
+ */
+export function formatEventTime(timestamp: number): string {
+    return new Date(timestamp + BEIJING_OFFSET_MS).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function describeEffect(effect: TimedEventEffect, value: number): string {
+    switch (effect) {
+        case 'reward_multiplier':
+            return `中奖奖励×${value}`;
+        case 'drop_rate':
+            return `掉落概率×${value}`;
+        case 'free_spins':
+            return `免费次数每次发放${value}次`;
+        case 'kunbei_buff':
+            return `坤呗buff×${value}`;
+    }
+}
+
+function toEventView(event: TimedEvent, now: number = Date.now()) {
+    return {
+        ...event,
+        effect_text: describeEffect(event.effect_type, event.effect_value),
+        mode_name: MODE_NAMES[event.slot_mode],
+        starts_at_text: formatEventTime(event.starts_at),
+        ends_at_text: formatEventTime(event.ends_at),
+        in_window: event.status !== 'cancelled' && event.starts_at <= now && event.ends_at > now
+    };
+}
+
+/**
+ * 活动输入（时间为毫秒时间戳或北京时间字符串）
+ */
+export interface TimedEventInput {
+    name?: string;
+    description?: string | null;
+    slot_mode?: string;
+    effect_type?: string;
+    effect_value?: number;
+    priority?: number;
+    starts_at?: number | string;
+    ends_at?: number | string;
+}
+
+interface EventFields {
+    name: string;
+    description: string | null;
+    slot_mode: TimedEventMode;
+    effect_type: TimedEventEffect;
+    effect_value: number;
+    priority: number;
+    starts_at: number;
+    ends_at: number;
+}
+
+/**
+ * 合并并校验活动字段，返回错误信息或完整字段
+ */
+function resolveFields(input: TimedEventInput, current: EventFields | null): string | EventFields {
+    const name = input.name !== undefined ? (typeof input.name === 'string' ? input.name.trim() : '') : current?.name ?? '';
+    if (!name || name.length > 50) {
+        return '活动名称不能为空且不超过 50 个字符';
+    }
+    const description = input.description !== undefined ? input.description : current?.description ?? null;
+    if (description !== null && (typeof description !== 'string' || description.length > 200)) {
+        return '活动说明不能超过 200 个字符';
+    }
+
+    const slotMode = input.slot_mode ?? current?.slot_mode;
+    if (!slotMode || !isTimedEventMode(slotMode)) {
+        return `场次必须为 ${TIMED_EVENT_MODES.join(' / ')}`;
+    }
+    const effect = input.effect_type ?? current?.effect_type;
+    if (!effect || !isTimedEventEffect(effect)) {
+        return `效果类型必须为 ${TIMED_EVENT_EFFECTS.join(' / ')}`;
+    }
+    if (slotMode !== 'all' && !EFFECT_MODES[effect].includes(slotMode)) {
+        return `${MODE_NAMES[slotMode]}不支持该效果（仅支持 ${EFFECT_MODES[effect].map(mode => MODE_NAMES[mode]).join('、')}）`;
+    }
+
+    const value = input.effect_value ?? current?.effect_value;
+    const limits = EFFECT_LIMITS[effect];
+    if (effect === 'free_spins') {
+        if (!Number.isInteger(value) || value! < limits.min || value! > limits.max) {
+            return `${limits.label}必须为 ${limits.min} 到 ${limits.max} 之间的整数`;
+        }
+    } else if (typeof value !== 'number' || !Number.isFinite(value) || value <= limits.min || value > limits.max) {
+        return `${limits.label}必须大于 ${limits.min} 且不超过 ${limits.max}`;
+    }
+
+    const priority = input.priority ?? current?.priority ?? 0;
+    if (!Number.isInteger(priority) || priority < -100 || priority > 100) {
+        return '优先级必须为 -100 到 100 之间的整数';
+    }
+
+    const startsAt = input.starts_at !== undefined ? parseEventTime(input.starts_at) : current?.starts_at ?? null;
+    const endsAt = input.ends_at !== undefined ? parseEventTime(input.ends_at) : current?.ends_at ?? null;
+    if (startsAt === null || endsAt === null) {
+        return '开始/结束时间必须为毫秒时间戳或北京时间 YYYY-MM-DD HH:mm[:ss]';
+    }
+    if (endsAt <= startsAt) {
+        return '结束时间必须晚于开始时间';
+    }
+    if (endsAt - startsAt > MAX_EVENT_DAYS * 24 * 60 * 60 * 1000) {
+        return `活动时长不能超过 ${MAX_EVENT_DAYS} 天`;
+    }
+
+    return { name, description, slot_mode: slotMode, effect_type: effect, effect_value: value!, priority, starts_at: startsAt, ends_at: endsAt };
+}
+
+/**
+ * 创建活动（开始时间早于当前时间时立即生效）
+ */
+export function createTimedEvent(input: TimedEventInput, createdBy: string): { success: boolean; message: string; data?: ReturnType<typeof toEventView> } {
+    const fields = resolveFields(input, null);
+    if (typeof fields === 'string') {
+        return { success: false, message: fields };
+    }
+    const now = Date.now();
+    if (fields.ends_at <= now) {
+        return { success: false, message: '结束时间必须晚于当前时间' };
+    }
+
+    const event = timedEventQueries.insert.get(
+        fields.name,
+        fields.description,
+        fields.slot_mode,
+        fields.effect_type,
+        fields.effect_value,
+        fields.priority,
+        fields.starts_at,
+        fields.ends_at,
+        createdBy,
+        now,
+        now
+    )!;
+    syncTimedEventStatuses();
+
+    logger.info('限时活动', `📅 创建活动「${event.name}」#${event.id} - ${MODE_NAMES[event.slot_mode]} ${describeEffect(event.effect_type, event.effect_value)}，${formatEventTime(event.starts_at)} ~ ${formatEventTime(event.ends_at)} - ${createdBy}`);
+    return { success: true, message: '活动已创建', data: toEventView(timedEventQueries.getById.get(event.id)!) };
+}
+
+/**
+ * 修改活动（已结束或已取消的活动不可修改；进行中的活动不能修改开始时间、场次和效果类型）
+ */
+export function updateTimedEvent(id: number, input: TimedEventInput): { success: boolean; message: string; data?: ReturnType<typeof toEventView> } {
+    const current = timedEventQueries.getById.get(id);
+    if (!current) {
+        return { success: false, message: '活动不存在' };
+    }
+    const now = Date.now();
+    if (current.status === 'ended' || current.status === 'cancelled' || current.ends_at <= now) {
+        return { success: false, message: '活动已结束或已取消，不能修改' };
+    }
+
+    const started = current.starts_at <= now;
+    if (started) {
+        const locked = [
+            input.starts_at !== undefined && parseEventTime(input.starts_at) !== current.starts_at ? 'starts_at' : null,
+            input.slot_mode !== undefined && input.slot_mode !== current.slot_mode ? 'slot_mode' : null,
+            input.effect_type !== undefined && input.effect_type !== current.effect_type ? 'effect_type' : null
+        ].filter(field => field !== null);
+        if (locked.length > 0) {
+            return { success: false, message: `活动已开始，不能修改 ${locked.join(', ')}` };
+        }
+    }
+
+    const fields = resolveFields(input, current);
+    if (typeof fields === 'string') {
+        return { success: false, message: fields };
+    }
+    if (fields.ends_at <= now) {
+        return { success: false, message: '结束时间必须晚于当前时间，提前结束请取消活动' };
+    }
+
+    const event = timedEventQueries.update.get(
+        fields.name,
+        fields.description,
+        fields.slot_mode,
+        fields.effect_type,
+        fields.effect_value,
+        fields.priority,
+        fields.starts_at,
+        fields.ends_at,
+        now,
+        id
+    );
+    if (!event) {
+        return { success: false, message: '活动已结束或已取消，不能修改' };
+    }
+    syncTimedEventStatuses();
+
+    logger.info('限时活动', `✏️ 修改活动「${event.name}」#${id} - ${MODE_NAMES[event.slot_mode]} ${describeEffect(event.effect_type, event.effect_value)}，${formatEventTime(event.starts_at)} ~ ${formatEventTime(event.ends_at)}`);
+    return { success: true, message: '活动已更新', data: toEventView(timedEventQueries.getById.get(id)!) };
+}
+
+/**
+ * 取消活动（未开始或进行中的活动立即失效）
+ */
+export function cancelTimedEvent(id: number, actor: string): { success: boolean; message: string; data?: ReturnType<typeof toEventView> } {
+    const event = timedEventQueries.cancel.get(Date.now(), id);
+    if (!event) {
+        return { success: false, message: timedEventQueries.getById.get(id) ? '活动已结束或已取消' : '活动不存在' };
+    }
+    logger.warn('限时活动', `🛑 取消活动「${event.name}」#${id} - ${actor}`);
+    return { success: true, message: '活动已取消', data: toEventView(event) };
+}
+
+/**
+ * 活动列表（管理后台）
+ */
+export function listTimedEvents(status: TimedEventStatus | null, limit: number) {
+    const events = status ? timedEventQueries.getByStatus.all(status, limit) : timedEventQueries.getAll.all(limit);
+    const now = Date.now();
+    return events.map(event => toEventView(event, now));
+}
+
+/**
+ * 按重叠规则排序：优先级 > 指定场次 > 效果更强 > 先创建
+ */
+function compareForMode(mode: EventSlotMode) {
+    return (a: TimedEvent, b: TimedEvent) =>
+        b.priority - a.priority
+        || Number(b.slot_mode === mode) - Number(a.slot_mode === mode)
+        || b.effect_value - a.effect_value
+        || a.id - b.id;
+}
+
+/**
+ * 解析场次当前生效的活动效果（每类效果至多一个活动）
+ */
+export function resolveEventEffects(mode: EventSlotMode, now: number = Date.now()): Partial<Record<TimedEventEffect, TimedEvent>> {
+    const candidates = timedEventQueries.getActiveAt.all(now, now)
+        .filter(event => (event.slot_mode === mode || event.slot_mode === 'all') && EFFECT_MODES[event.effect_type].includes(mode))
+        .sort(compareForMode(mode));
+
+    const effects: Partial<Record<TimedEventEffect, TimedEvent>> = {};
+    for (const event of candidates) {
+        effects[event.effect_type] ??= event;
+    }
+    return effects;
+}
+
+/**
+ * 场次当前生效的某类活动效果，无活动时返回 null
+ */
+export function getActiveEventEffect(mode: EventSlotMode, effect: TimedEventEffect): TimedEvent | null {
+    return resolveEventEffects(mode)[effect] ?? null;
+}
+
+/**
+ * 用户可见的活动信息：进行中的活动、各场次实际生效的效果、24 小时内即将开始的活动
+ */
+export function getPublicEvents() {
+    const now = Date.now();
+    const publicView = (event: TimedEvent) => ({
+        id: event.id,
+        name: event.name,
+        description: event.description,
+        slot_mode: event.slot_mode,
+        mode_name: MODE_NAMES[event.slot_mode],
+        effect_type: event.effect_type,
+        effect_value: event.effect_value,
+        effect_text: describeEffect(event.effect_type, event.effect_value),
+        starts_at: event.starts_at,
+        ends_at: event.ends_at,
+        starts_at_text: formatEventTime(event.starts_at),
+        ends_at_text: formatEventTime(event.ends_at)
+    });
+
+    const effects = Object.fromEntries(SLOT_MODES.map(mode => {
+        const resolved = resolveEventEffects(mode, now);
+        return [mode, Object.fromEntries(Object.entries(resolved).map(([effect, event]) => [effect, {
+            event_id: event.id,
+            event_name: event.name,
+            value: event.effect_value,
+            ends_at: event.ends_at
+        }]))];
+    }));
+
+    return {
+        server_time: now,
+        active: timedEventQueries.getActiveAt.all(now, now).map(publicView),
+        effects,
+        upcoming: timedEventQueries.getUpcoming.all(now, now + 24 * 60 * 60 * 1000).map(publicView)
+    };
+}
+
+/**
+ * 推进活动状态：到点的活动标记为进行中，过期的活动标记为已结束（定时任务，每分钟）
+ */
+export function syncTimedEventStatuses(): { activated: number; ended: number } {
+    const now = Date.now();
+    const ended = timedEventQueries.expireDue.all(now, now);
+    const activated = timedEventQueries.activateDue.all(now, now, now);
+
+    for (const event of activated) {
+        logger.info('限时活动', `🎉 活动开始「${event.name}」#${event.id} - ${MODE_NAMES[event.slot_mode]} ${describeEffect(event.effect_type, event.effect_value)}，至 ${formatEventTime(event.ends_at)}`);
+    }
+    for (const event of ended) {
+        logger.info('限时活动', `⏹️ 活动结束「${event.name}」#${event.id}`);
+    }
+    return { activated: activated.length, ended: ended.length };
+}
@@ -1,8 +1,12 @@
 import { CONFIG } from '../config';
-import { keyQueries, donateQueries } from '../database';
-import { searchAndFindExactUser, updateKyxUserQuota, pushKeysToGroup } from './kyx-api';
+import { keyQueries, donateQueries, userQueries } from '../database';
+import { searchAndFindExactUser, pushKeysToGroup } from './kyx-api';
+import { creditReward, deferReward } from './reward-processor';
+import { UPSTREAM_UNAVAILABLE } from './circuit-breaker';
+import { getPayoutAccount } from './upstreams';
 import { cacheManager } from '../cache';
 import logger from '../utils/logger';
+import { LedgerAccounts, postUpstreamCredit } from './ledger';
 
 /**
  * 验证 ModelScope API Key
@@ -298,29 +302,43 @@ export async function validateAndDonateKeys(
 
     if (searchResult.success && searchResult.user) {
         const kyxUser = searchResult.user;
-        const newQuota = kyxUser.quota + totalQuotaAdded;
 
-        logger.debug('投喂Keys', `准备添加额度 - 用户: ${kyxUser.username}, 当前: ${kyxUser.quota}, 奖励: ${totalQuotaAdded}, 目标: ${newQuota}`);
+        logger.debug('投喂Keys', `准备添加额度 - 用户: ${kyxUser.username}, 奖励: ${totalQuotaAdded}`);
 
-        const updateResult = await updateKyxUserQuota(
-            kyxUser.id,
-            newQuota,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            kyxUser.username,
-            kyxUser.group || 'default'
-        );
+        const updateResult = await creditReward({
+            linuxDoId,
+            kyxUserId: kyxUser.id,
+            amount: totalQuotaAdded,
+            source: 'donate_reward',
+            reason: `投喂 ${validKeys.length} 个 ${keyType} Key`,
+        });
 
         // 【关键】检查额度更新结果
-        if (!updateResult || !updateResult.success) {
-            logger.error('投喂Keys', `❌ 添加额度失败 - 用户: ${kyxUser.username}, 奖励: $${(totalQuotaAdded / 500000).toFixed(2)}, 错误: ${updateResult?.message || '未知错误'}`);
+        if (updateResult.deferred) {
+            logger.warn('投喂Keys', `⏸️ 上游不可用，奖励已转入待发放 - 用户: ${kyxUser.username}, 奖励: $${(totalQuotaAdded / 500000).toFixed(2)}`);
+        } else if (!updateResult.success) {
+            logger.error('投喂Keys', `❌ 添加额度失败 - 用户: ${kyxUser.username}, 奖励: $${(totalQuotaAdded / 500000).toFixed(2)}, 错误: ${updateResult.message || '未知错误'}`);
             // 注意：即使额度添加失败，仍然继续推送keys和保存记录
             // 这样管理员可以从记录中看到失败情况并补发
         } else {
             logger.info('投喂Keys', `✅ 添加额度成功 - 用户: ${kyxUser.username}, 奖励: $${(totalQuotaAdded / 500000).toFixed(2)}`);
+            postUpstreamCredit(linuxDoId, totalQuotaAdded, 'donate_reward', LedgerAccounts.HOUSE_REWARDS, null, keyType);
         }
     } else {
-        logger.error('投喂Keys', `⚠️ 未找到用户或搜索失败，无法添加额度 - LinuxDo ID: ${linuxDoId}`);
+        // 上游搜索熔断时按本地绑定记录转入待发放
+        const localUser = searchResult.errorCode === UPSTREAM_UNAVAILABLE ? userQueries.get.get(linuxDoId) : null;
+        if (localUser?.kyx_user_id) {
+            deferReward({
+                linuxDoId,
+                kyxUserId: localUser.kyx_user_id,
+                amount: totalQuotaAdded,
+                source: 'donate_reward',
+                reason: `投喂 ${validKeys.length} 个 ${keyType} Key`,
+                errorMessage: searchResult.message,
+            });
+        } else {
+            logger.error('投喂Keys', `⚠️ 未找到用户或搜索失败，无法添加额度 - LinuxDo ID: ${linuxDoId}`);
+        }
     }
 
     // 推送 keys 到分组（根据 key_type 使用不同的 group_id）
@@ -329,10 +347,12 @@ export async function validateAndDonateKeys(
     let failedKeys: string[] = [];
 
     if (validKeys.length > 0 && adminConfig.keys_authorization) {
-        // 根据 keyType 选择对应的 group_id
+        // 根据 keyType 选择对应的 group_id（收款上游配置了分组时推送到该上游的分组）
+        const payoutUpstream = getPayoutAccount(linuxDoId)?.upstream;
+        const modelscopeGroupId = payoutUpstream?.modelscopeGroupId ?? adminConfig.modelscope_group_id;
         const targetGroupId = keyType === 'iflow'
-            ? (adminConfig.iflow_group_id || adminConfig.modelscope_group_id)
-            : adminConfig.modelscope_group_id;
+            ? (payoutUpstream?.iflowGroupId ?? (adminConfig.iflow_group_id || modelscopeGroupId))
+            : modelscopeGroupId;
 
         const pushResult = await pushKeysToGroup(
             validKeys,
@@ -414,6 +434,8 @@ async function getAdminConfig() {
                 modelscope_group_id: 26,
                 iflow_group_id: 26,
                 max_daily_claims: 1,
+                max_daily_donate_modelscope: 1,
+                max_daily_donate_iflow: 1,
                 updated_at: Date.now(),
             };
 
@@ -433,6 +455,8 @@ async function getAdminConfig() {
                 iflow_group_id:
                     config.iflow_group_id !== undefined ? config.iflow_group_id : defaults.iflow_group_id,
                 max_daily_claims: config.max_daily_claims || defaults.max_daily_claims,
+                max_daily_donate_modelscope: config.max_daily_donate_modelscope || defaults.max_daily_donate_modelscope,
+                max_daily_donate_iflow: config.max_daily_donate_iflow || defaults.max_daily_donate_iflow,
                 updated_at: config.updated_at || defaults.updated_at,
             };
         },
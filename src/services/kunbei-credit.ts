@@ -0,0 +1,393 @@
+/**
+ * 坤呗信用评分
+ * 信用分 = 基础分 + 各因子得分（按时还款率、逾期次数、近期逾期、借款额度使用率、账号年龄、老虎机亏损率），限制在 0 - 100
+ * - 借款、还款、逾期、豁免后以及每日定时任务重新评分，分数变化时写入变动记录，原因为相对上一次评分的因子变化
+ * - 信用分所在分档决定可借额度倍数（梯度最大可借金额 × 倍数），倍数为 0 的分档不能借款
+ */
+
+import { kunbeiQueries, userQueries } from '../database';
+import type {
+    CreditFactor, CreditScoreHistory, CreditScoreReason, CreditScoreTrigger, KunbeiCreditBand, KunbeiCreditConfig
+} from '../types';
+import logger from '../utils/logger';
+import { getGradientMaxLoanAmount } from './kunbei';
+
+const DAY_MS = 24 * 3600 * 1000;
+const UTILIZATION_RECENT_LOANS = 5;  // 额度使用率取最近几笔借款的平均
+const MAX_BANDS = 10;
+
+const TRIGGER_NAMES: Record<CreditScoreTrigger, string> = {
+    borrow: '借款',
+    repay: '还款',
+    overdue: '逾期',
+    forgive: '豁免',
+    refresh: '定期评估',
+    config: '评分规则调整'
+};
+
+/**
+ * 信用评分配置输入（未传的字段保持不变）
+ */
+export interface CreditConfigInput {
+    base_score?: number;
+    on_time_weight?: number;
+    overdue_penalty?: number;
+    overdue_penalty_cap?: number;
+    recent_overdue_penalty?: number;
+    recent_overdue_days?: number;
+    utilization_weight?: number;
+    account_age_weight?: number;
+    account_age_full_days?: number;
+    slot_loss_weight?: number;
+    slot_loss_window_days?: number;
+    bands?: KunbeiCreditBand[];
+}
+
+/**
+ * 评分结果
+ */
+export interface CreditEvaluation {
+    score: number;
+    band: KunbeiCreditBand;
+    factors: CreditFactor[];
+}
+
+function getCreditConfig(): KunbeiCreditConfig {
+    const config = kunbeiQueries.getCreditConfig.get();
+    if (!config) {
+        throw new Error('信用评分配置不存在');
+    }
+    return config;
+}
+
+function parseBands(config: KunbeiCreditConfig): KunbeiCreditBand[] {
+    try {
+        const bands = JSON.parse(config.bands);
+        return Array.isArray(bands) ? [...bands].sort((a, b) => b.min_score - a.min_score) : [];
+    } catch {
+        return [];
+    }
+}
+
+function round1(value: number): number {
+    return Math.round(value * 10) / 10;
+}
+
+function formatUsd(quota: number): string {
+    return `$${(quota / 500000).toFixed(2)}`;
+}
+
+/**
+ * 信用分所在分档（没有匹配的分档时视为不能借款）
+ */
+export function resolveCreditBand(score: number, bands: KunbeiCreditBand[]): KunbeiCreditBand {
+    return bands.find(band => score >= band.min_score) ?? { min_score: 0, label: '未评级', loan_multiplier: 0 };
+}
+
+/**
+ * 按当前数据计算信用分（不写入）
+ */
+export function evaluateCreditScore(linuxDoId: string, now: number = Date.now()): CreditEvaluation {
+    const config = getCreditConfig();
+    const factors: CreditFactor[] = [];
+
+    factors.push({ key: 'base', label: '基础分', value: null, points: config.base_score, detail: '所有用户相同' });
+
+    // 按时还款率
+    const summary = kunbeiQueries.getLoanCreditSummary.get(linuxDoId)!;
+    const onTimeRatio = summary.settled_loans > 0 ? summary.on_time_loans / summary.settled_loans : null;
+    factors.push({
+        key: 'on_time',
+        label: '按时还款率',
+        value: onTimeRatio === null ? null : round1(onTimeRatio * 100) / 100,
+        points: onTimeRatio === null ? 0 : round1(config.on_time_weight * onTimeRatio),
+        detail: onTimeRatio === null ? '暂无已还清的借款' : `已还清 ${summary.settled_loans} 笔，其中按时还清 ${summary.on_time_loans} 笔`
+    });
+
+    // 逾期次数
+    factors.push({
+        key: 'overdue_count',
+        label: '逾期次数',
+        value: summary.overdue_loans,
+        points: -round1(Math.min(config.overdue_penalty_cap, config.overdue_penalty * summary.overdue_loans)),
+        detail: summary.overdue_loans > 0
+            ? `累计逾期 ${summary.overdue_loans} 笔（每笔 -${config.overdue_penalty}，最多 -${config.overdue_penalty_cap}）`
+            : '无逾期记录'
+    });
+
+    // 近期逾期：扣分随距上次逾期的天数线性恢复
+    const daysSinceOverdue = summary.last_overdue_at === null ? null : Math.max(0, (now - summary.last_overdue_at) / DAY_MS);
+    const recency = daysSinceOverdue === null ? 0 : Math.max(0, 1 - daysSinceOverdue / config.recent_overdue_days);
+    factors.push({
+        key: 'overdue_recency',
+        label: '近期逾期',
+        value: daysSinceOverdue === null ? null : round1(daysSinceOverdue),
+        points: -round1(config.recent_overdue_penalty * recency),
+        detail: recency > 0
+            ? `距上次逾期 ${Math.floor(daysSinceOverdue!)} 天（${config.recent_overdue_days} 天后不再扣分）`
+            : `近 ${config.recent_overdue_days} 天无逾期`
+    });
+
+    // 借款额度使用率：最近几笔借款的平均金额 / 梯度最大可借金额
+    const recentAverage = kunbeiQueries.getRecentLoanAverage.get(linuxDoId, UTILIZATION_RECENT_LOANS)?.avg_amount ?? null;
+    const gradientMax = getGradientMaxLoanAmount(linuxDoId);
+    const utilization = recentAverage === null || gradientMax <= 0 ? null : Math.min(1, recentAverage / gradientMax);
+    factors.push({
+        key: 'utilization',
+        label: '借款额度使用率',
+        value: utilization === null ? null : round1(utilization * 100) / 100,
+        points: utilization === null ? 0 : -round1(config.utilization_weight * utilization),
+        detail: utilization === null
+            ? '暂无借款'
+            : `最近 ${UTILIZATION_RECENT_LOANS} 笔平均借款 ${formatUsd(recentAverage!)}，可借上限 ${formatUsd(gradientMax)}`
+    });
+
+    // 账号年龄
+    const user = userQueries.get.get(linuxDoId);
+    const ageDays = user ? Math.max(0, (now - user.created_at) / DAY_MS) : 0;
+    factors.push({
+        key: 'account_age',
+        label: '账号年龄',
+        value: Math.floor(ageDays),
+        points: round1(config.account_age_weight * Math.min(1, ageDays / config.account_age_full_days)),
+        detail: `注册 ${Math.floor(ageDays)} 天（${config.account_age_full_days} 天满分）`
+    });
+
+    // 老虎机亏损率：窗口内（投注 - 赔付）/ 投注
+    const since = now - config.slot_loss_window_days * DAY_MS;
+    const totals = kunbeiQueries.getSlotTotalsSince.get(linuxDoId, since, linuxDoId, since);
+    const bet = totals?.bet ?? 0;
+    const lossRatio = bet > 0 ? Math.min(1, Math.max(0, (bet - (totals?.win ?? 0)) / bet)) : null;
+    factors.push({
+        key: 'slot_loss',
+        label: '老虎机亏损率',
+        value: lossRatio === null ? null : round1(lossRatio * 100) / 100,
+        points: lossRatio === null ? 0 : -round1(config.slot_loss_weight * lossRatio),
+        detail: lossRatio === null
+            ? `近 ${config.slot_loss_window_days} 天无投注`
+            : `近 ${config.slot_loss_window_days} 天投注 ${formatUsd(bet)}，亏损 ${(lossRatio * 100).toFixed(1)}%`
+    });
+
+    const total = factors.reduce((sum, factor) => sum + factor.points, 0);
+    const score = Math.max(0, Math.min(100, Math.round(total)));
+    return { score, band: resolveCreditBand(score, parseBands(config)), factors };
+}
+
+/**
+ * 用户当前信用分（未评分过的用户按当前数据计算）
+ */
+export function getCreditScore(linuxDoId: string): number {
+    const stats = kunbeiQueries.getStats.get(linuxDoId);
+    return stats ? stats.credit_score : evaluateCreditScore(linuxDoId).score;
+}
+
+/**
+ * 用户当前信用分档
+ */
+export function getCreditBand(linuxDoId: string): KunbeiCreditBand {
+    return resolveCreditBand(getCreditScore(linuxDoId), parseBands(getCreditConfig()));
+}
+
+/**
+ * 变动原因：与上一次评分逐项比较；首次评分时列出各因子的得分
+ */
+function buildReasons(factors: CreditFactor[], previous: CreditScoreHistory | null): CreditScoreReason[] {
+    let previousFactors: CreditFactor[] = [];
+    if (previous) {
+        try {
+            previousFactors = JSON.parse(previous.factors);
+        } catch {
+            previousFactors = [];
+        }
+    }
+
+    return factors
+        .map(factor => {
+            const before = previousFactors.find(item => item.key === factor.key);
+            return { key: factor.key, label: factor.label, delta: round1(factor.points - (before?.points ?? 0)) };
+        })
+        .filter(reason => reason.delta !== 0);
+}
+
+/**
+ * 重新评分并保存；分数变化时写入变动记录
+ */
+export function recalculateCreditScore(
+    linuxDoId: string,
+    trigger: CreditScoreTrigger,
+    refId: number | null = null
+): { old_score: number; new_score: number; change: number; band: KunbeiCreditBand; factors: CreditFactor[]; history: CreditScoreHistory | null } {
+    const now = Date.now();
+    const evaluation = evaluateCreditScore(linuxDoId, now);
+    const stats = kunbeiQueries.getStats.get(linuxDoId);
+    const oldScore = stats ? stats.credit_score : evaluation.score;
+
+    let history: CreditScoreHistory | null = null;
+    if (!stats || oldScore !== evaluation.score) {
+        kunbeiQueries.setCreditScore.run(linuxDoId, evaluation.score, now, evaluation.score, now);
+    }
+    if (oldScore !== evaluation.score) {
+        const reasons = buildReasons(evaluation.factors, kunbeiQueries.getLastCreditHistory.get(linuxDoId));
+        history = kunbeiQueries.insertCreditHistory.get(
+            linuxDoId, oldScore, evaluation.score, trigger, refId, JSON.stringify(reasons), JSON.stringify(evaluation.factors), now
+        );
+        logger.info('坤呗信用', `用户 ${linuxDoId} 信用分 ${oldScore} → ${evaluation.score}（${TRIGGER_NAMES[trigger]}）`);
+    }
+
+    return {
+        old_score: oldScore,
+        new_score: evaluation.score,
+        change: evaluation.score - oldScore,
+        band: evaluation.band,
+        factors: evaluation.factors,
+        history
+    };
+}
+
+/**
+ * 重新评估所有有坤呗记录的用户（近期逾期扣分与账号年龄随时间变化）
+ */
+export function refreshAllCreditScores(trigger: CreditScoreTrigger = 'refresh'): { evaluated: number; changed: number } {
+    const users = kunbeiQueries.getCreditScoredUsers.all();
+    let changed = 0;
+    for (const { linux_do_id } of users) {
+        try {
+            if (recalculateCreditScore(linux_do_id, trigger).change !== 0) {
+                changed++;
+            }
+        } catch (error) {
+            logger.error('坤呗信用', `用户 ${linux_do_id} 重新评分失败`, error);
+        }
+    }
+    return { evaluated: users.length, changed };
+}
+
+function toPublicHistory(row: CreditScoreHistory) {
+    return {
+        ...row,
+        trigger_name: TRIGGER_NAMES[row.trigger] ?? row.trigger,
+        change: row.new_score - row.old_score,
+        reasons: JSON.parse(row.reasons) as CreditScoreReason[],
+        factors: JSON.parse(row.factors) as CreditFactor[]
+    };
+}
+
+/**
+ * 信用分说明：先按当前数据重新评分，返回评分明细、分档与变动记录
+ */
+export function getCreditReport(linuxDoId: string, limit: number = 20) {
+    const current = recalculateCreditScore(linuxDoId, 'refresh');
+    const bands = parseBands(getCreditConfig());
+    const nextBand = [...bands].reverse().find(band => band.min_score > current.new_score) ?? null;
+
+    return {
+        score: current.new_score,
+        band: current.band,
+        next_band: nextBand,
+        points_to_next_band: nextBand ? nextBand.min_score - current.new_score : null,
+        factors: current.factors,
+        bands,
+        history: kunbeiQueries.getCreditHistory.all(linuxDoId, limit).map(toPublicHistory)
+    };
+}
+
+/**
+ * 信用评分配置（分档已解析）
+ */
+export function getCreditConfigView() {
+    const config = getCreditConfig();
+    return { ...config, bands: parseBands(config) };
+}
+
+function validateCreditConfig(input: CreditConfigInput): string | null {
+    const isPoints = (value: unknown) => typeof value === 'number' && Number.isFinite(value) && value >= 0 && value <= 100;
+    const isDays = (value: unknown) => Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 365;
+
+    const pointFields: Array<[keyof CreditConfigInput, string]> = [
+        ['base_score', '基础分'],
+        ['on_time_weight', '按时还款率满分'],
+        ['overdue_penalty', '每笔逾期扣分'],
+        ['overdue_penalty_cap', '逾期扣分上限'],
+        ['recent_overdue_penalty', '近期逾期扣分'],
+        ['utilization_weight', '额度使用率扣分'],
+        ['account_age_weight', '账号年龄满分'],
+        ['slot_loss_weight', '老虎机亏损率扣分']
+    ];
+    for (const [field, name] of pointFields) {
+        if (input[field] !== undefined && !isPoints(input[field])) {
+            return `${name}必须在 0 到 100 之间`;
+        }
+    }
+
+    const dayFields: Array<[keyof CreditConfigInput, string]> = [
+        ['recent_overdue_days', '近期逾期天数'],
+        ['account_age_full_days', '账号年龄满分天数'],
+        ['slot_loss_window_days', '亏损率统计天数']
+    ];
+    for (const [field, name] of dayFields) {
+        if (input[field] !== undefined && !isDays(input[field])) {
+            return `${name}必须为 1 到 365 之间的整数`;
+        }
+    }
+
+    if (input.bands !== undefined) {
+        if (!Array.isArray(input.bands) || input.bands.length === 0 || input.bands.length > MAX_BANDS) {
+            return `信用分档必须为数组，1 到 ${MAX_BANDS} 档`;
+        }
+        for (const band of input.bands) {
+            if (!Number.isInteger(band?.min_score) || band.min_score < 0 || band.min_score > 100) {
+                return '分档最低分必须为 0 到 100 之间的整数';
+            }
+            if (typeof band.label !== 'string' || !band.label.trim() || band.label.length > 20) {
+                return '分档名称不能为空，最多 20 个字符';
+            }
+            if (typeof band.loan_multiplier !== 'number' || !Number.isFinite(band.loan_multiplier) || band.loan_multiplier < 0 || band.loan_multiplier > 5) {
+                return '分档额度倍数必须在 0 到 5 之间';
+            }
+        }
+        if (new Set(input.bands.map(band => band.min_score)).size !== input.bands.length) {
+            return '分档最低分不能重复';
+        }
+        if (!input.bands.some(band => band.min_score === 0)) {
+            return '必须包含最低分为 0 的分档';
+        }
+    }
+    return null;
+}
+
+/**
+ * 更新信用评分配置，保存后重新评估所有用户
+ */
+export function updateCreditConfig(input: CreditConfigInput): { success: boolean; message: string; data?: ReturnType<typeof getCreditConfigView> & { refreshed: { evaluated: number; changed: number } } } {
+    const error = validateCreditConfig(input);
+    if (error) {
+        return { success: false, message: error };
+    }
+
+    const config = getCreditConfig();
+    const bands = input.bands
+        ? input.bands
+            .map(band => ({ min_score: band.min_score, label: band.label.trim(), loan_multiplier: band.loan_multiplier }))
+            .sort((a, b) => b.min_score - a.min_score)
+        : parseBands(config);
+
+    kunbeiQueries.updateCreditConfig.run(
+        input.base_score ?? config.base_score,
+        input.on_time_weight ?? config.on_time_weight,
+        input.overdue_penalty ?? config.overdue_penalty,
+        input.overdue_penalty_cap ?? config.overdue_penalty_cap,
+        input.recent_overdue_penalty ?? config.recent_overdue_penalty,
+        input.recent_overdue_days ?? config.recent_overdue_days,
+        input.utilization_weight ?? config.utilization_weight,
+        input.account_age_weight ?? config.account_age_weight,
+        input.account_age_full_days ?? config.account_age_full_days,
+        input.slot_loss_weight ?? config.slot_loss_weight,
+        input.slot_loss_window_days ?? config.slot_loss_window_days,
+        JSON.stringify(bands),
+        Date.now()
+    );
+
+    const refreshed = refreshAllCreditScores('config');
+    logger.info('坤呗信用', `信用评分配置已更新，重新评估 ${refreshed.evaluated} 人，${refreshed.changed} 人分数变化`);
+    return { success: true, message: '信用评分配置已保存', data: { ...getCreditConfigView(), refreshed } };
+}
@@ -0,0 +1,241 @@
+/**
+ * 坤呗资产组合分析
+ * 按全部借款记录计算当前敞口、逾期/违约率、逾期扣款回收率、提前还款比例与已实现盈亏，并按借款周、借款金额档、借款时信用分档分组
+ * - 逾期率 = 曾逾期的借款 / 已到期（已还清、已过最终到期时间或曾逾期）的借款；违约率只计当前仍处于逾期状态的借款
+ * - 回收率 = 逾期扣款 / 曾逾期借款的应还金额（逾期扣款按倍数计算，可能超过 100%）
+ * - 已实现盈亏 = 实际还款 + 逾期扣款 - 放款，不含未还欠款
+ * 每日快照写入 kunbei_portfolio_snapshots，借款记录清理后仍可查看趋势
+ */
+
+import { kunbeiQueries } from '../database';
+import type { PortfolioLoanRow } from '../repositories/kunbei';
+import type { KunbeiPortfolioSnapshot } from '../types';
+import logger from '../utils/logger';
+import { getCreditConfigView, resolveCreditBand } from './kunbei-credit';
+import { getTodayDate } from './slot';
+
+export type PortfolioCohortDimension = 'week' | 'size' | 'credit';
+
+const DAY_MS = 24 * 3600 * 1000;
+const BEIJING_OFFSET_MS = 8 * 3600 * 1000;
+
+// 借款金额档（美元）
+const SIZE_BANDS: Array<{ min: number; label: string }> = [
+    { min: 500, label: '$500 以上' },
+    { min: 100, label: '$100 - $500' },
+    { min: 50, label: '$50 - $100' },
+    { min: 10, label: '$10 - $50' },
+    { min: 0, label: '$10 以下' }
+];
+
+/**
+ * 一组借款的统计指标
+ */
+export interface PortfolioMetrics {
+    loans: number;
+    active_loans: number;
+    overdue_loans: number;                // 当前逾期
+    matured_loans: number;
+    ever_overdue_loans: number;
+    repaid_loans: number;
+    early_repaid_loans: number;
+    outstanding_principal: number;
+    outstanding_amount: number;
+    total_lent: number;
+    total_collected: number;
+    total_auto_deducted: number;
+    total_forgiven: number;
+    net_profit: number;
+    overdue_rate: number | null;
+    default_rate: number | null;
+    recovery_rate: number | null;
+    early_repay_rate: number | null;
+}
+
+export interface PortfolioCohort extends PortfolioMetrics {
+    key: string;
+    label: string;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+    return denominator > 0 ? Math.round((numerator / denominator) * 10000) / 10000 : null;
+}
+
+function isOpen(loan: PortfolioLoanRow): boolean {
+    return loan.status === 'active' || loan.status === 'overdue';
+}
+
+/**
+ * 汇总一组借款
+ */
+function summarize(loans: PortfolioLoanRow[], now: number): PortfolioMetrics {
+    const metrics = {
+        loans: loans.length,
+        active_loans: 0,
+        overdue_loans: 0,
+        matured_loans: 0,
+        ever_overdue_loans: 0,
+        repaid_loans: 0,
+        early_repaid_loans: 0,
+        outstanding_principal: 0,
+        outstanding_amount: 0,
+        total_lent: 0,
+        total_collected: 0,
+        total_auto_deducted: 0,
+        total_forgiven: 0
+    };
+    let userRepaidLoans = 0;
+    let overdueObligation = 0;
+
+    for (const loan of loans) {
+        metrics.total_lent += loan.loan_amount;
+        metrics.total_collected += loan.actual_repay_amount;
+        metrics.total_auto_deducted += loan.auto_deducted_amount;
+        metrics.total_forgiven += loan.forgiven_amount;
+
+        if (loan.status === 'active') metrics.active_loans++;
+        if (loan.status === 'overdue') metrics.overdue_loans++;
+        if (isOpen(loan)) {
+            metrics.outstanding_principal += loan.outstanding_principal;
+            metrics.outstanding_amount += loan.repay_amount - loan.repaid_amount;
+        }
+        if (loan.status === 'repaid' || loan.due_at <= now || loan.ever_overdue) {
+            metrics.matured_loans++;
+        }
+        if (loan.ever_overdue) {
+            metrics.ever_overdue_loans++;
+            overdueObligation += loan.repay_amount;
+        }
+        if (loan.status === 'repaid') {
+            metrics.repaid_loans++;
+            // 豁免的借款不计入提前还款比例的分母
+            if (!loan.waived) {
+                userRepaidLoans++;
+                if (!loan.ever_overdue && loan.repaid_at !== null && loan.repaid_at < loan.due_at) {
+                    metrics.early_repaid_loans++;
+                }
+            }
+        }
+    }
+
+    return {
+        ...metrics,
+        net_profit: metrics.total_collected + metrics.total_auto_deducted - metrics.total_lent,
+        overdue_rate: ratio(metrics.ever_overdue_loans, metrics.matured_loans),
+        default_rate: ratio(metrics.overdue_loans, metrics.matured_loans),
+        recovery_rate: ratio(metrics.total_auto_deducted, overdueObligation),
+        early_repay_rate: ratio(metrics.early_repaid_loans, userRepaidLoans)
+    };
+}
+
+/**
+ * 借款所在周（北京时间，周一日期）
+ */
+function weekKey(timestamp: number): string {
+    const date = new Date(timestamp + BEIJING_OFFSET_MS);
+    const monday = new Date(date.getTime() - ((date.getUTCDay() + 6) % 7) * DAY_MS);
+    return monday.toISOString().slice(0, 10);
+}
+
+function sizeBand(loanAmount: number): { key: string; label: string } {
+    const usd = loanAmount / 500000;
+    const band = SIZE_BANDS.find(item => usd >= item.min)!;
+    return { key: String(band.min), label: band.label };
+}
+
+/**
+ * 按维度分组
+ */
+export function getPortfolioCohorts(dimension: PortfolioCohortDimension, loans: PortfolioLoanRow[], now: number = Date.now()): PortfolioCohort[] {
+    const groups = new Map<string, { label: string; order: number; loans: PortfolioLoanRow[] }>();
+    const bands = dimension === 'credit' ? getCreditConfigView().bands : [];
+
+    for (const loan of loans) {
+        let key: string;
+        let label: string;
+        let order: number;
+        if (dimension === 'week') {
+            key = weekKey(loan.borrowed_at);
+            label = `${key} 当周`;
+            order = -Date.parse(key);
+        } else if (dimension === 'size') {
+            ({ key, label } = sizeBand(loan.loan_amount));
+            order = -Number(key);
+        } else if (loan.credit_score_at_borrow === null) {
+            key = 'unknown';
+            label = '未记录';
+            order = 1;
+        } else {
+            const band = resolveCreditBand(loan.credit_score_at_borrow, bands);
+            key = String(band.min_score);
+            label = `${band.label}（${band.min_score}+）`;
+            order = -band.min_score;
+        }
+
+        const group = groups.get(key) ?? { label, order, loans: [] };
+        group.loans.push(loan);
+        groups.set(key, group);
+    }
+
+    return [...groups.entries()]
+        .sort((a, b) => a[1].order - b[1].order)
+        .map(([key, group]) => ({ key, label: group.label, ...summarize(group.loans, now) }));
+}
+
+/**
+ * 资产组合概览：整体指标、三种分组与最近的每日快照
+ */
+export function getKunbeiPortfolio(options: { weeks?: number; days?: number } = {}) {
+    const now = Date.now();
+    const loans = kunbeiQueries.getPortfolioLoans.all();
+    const weeks = options.weeks ?? 12;
+    const days = options.days ?? 30;
+
+    return {
+        generated_at: now,
+        summary: summarize(loans, now),
+        cohorts: {
+            week: getPortfolioCohorts('week', loans, now).slice(0, weeks),
+            size: getPortfolioCohorts('size', loans, now),
+            credit: getPortfolioCohorts('credit', loans, now)
+        },
+        trend: getPortfolioSnapshots(days)
+    };
+}
+
+/**
+ * 最近 N 天的每日快照（日期升序）
+ */
+export function getPortfolioSnapshots(days: number): KunbeiPortfolioSnapshot[] {
+    const since = new Date(Date.now() + BEIJING_OFFSET_MS - (days - 1) * DAY_MS).toISOString().slice(0, 10);
+    return kunbeiQueries.getPortfolioSnapshots.all(since);
+}
+
+/**
+ * 写入当日快照（同一天重复执行时覆盖）
+ */
+export function captureKunbeiPortfolioSnapshot(): KunbeiPortfolioSnapshot {
+    const now = Date.now();
+    const metrics = summarize(kunbeiQueries.getPortfolioLoans.all(), now);
+    const snapshot = kunbeiQueries.upsertPortfolioSnapshot.get(
+        getTodayDate(),
+        metrics.active_loans,
+        metrics.overdue_loans,
+        metrics.outstanding_principal,
+        metrics.outstanding_amount,
+        metrics.loans,
+        metrics.total_lent,
+        metrics.total_collected,
+        metrics.total_auto_deducted,
+        metrics.total_forgiven,
+        metrics.net_profit,
+        metrics.overdue_rate,
+        metrics.default_rate,
+        metrics.recovery_rate,
+        metrics.early_repay_rate,
+        now
+    )!;
+
+    logger.info('坤呗资产', `📸 已记录 ${snapshot.date} 资产快照：在贷 ${snapshot.active_loans + snapshot.overdue_loans} 笔，未还 $${(snapshot.outstanding_amount / 500000).toFixed(2)}，已实现盈亏 $${(snapshot.net_profit / 500000).toFixed(2)}`);
+    return snapshot;
+}
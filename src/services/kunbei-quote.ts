@@ -0,0 +1,191 @@
+/**
+ * 坤呗借款报价
+ * 借款前按当前配置预览还款金额、提前还款优惠、逾期后果与今日buff，并签发短时有效的报价编号
+ * 报价编号 = base64url(报价条款) + '.' + HMAC-SHA256 签名，借款时携带可锁定报价中的条款
+ */
+
+import { timingSafeEqual } from 'node:crypto';
+import { CONFIG } from '../config';
+import { kunbeiQueries } from '../database';
+import { getCachedPayoutQuota } from './upstreams';
+import { getActiveEventEffect, type EventSlotMode } from './events';
+import { buildInstallmentSchedule, checkBorrowEligibility, getCurrentLoanTerms, getGradientMaxLoanAmount, type LoanTerms } from './kunbei';
+import { getCreditBand, getCreditConfigView } from './kunbei-credit';
+
+// 报价有效期（5 分钟）
+export const QUOTE_TTL_MS = 5 * 60 * 1000;
+
+// 未配置密钥时每次启动随机生成，重启后已发出的报价失效
+const QUOTE_SECRET = CONFIG.KUNBEI_QUOTE_SECRET || crypto.randomUUID().replace(/-/g, '');
+
+const SLOT_MODES: EventSlotMode[] = ['normal', 'advanced', 'supreme'];
+const DEFAULT_BUFF_MULTIPLIER = 2.5;
+
+/**
+ * 报价编号中签名的内容
+ */
+interface QuotePayload {
+    uid: string;
+    amount: number;
+    installments: number;
+    terms: LoanTerms;
+    exp: number;
+}
+
+function sign(encoded: string): string {
+    const hmac = new Bun.CryptoHasher('sha256', QUOTE_SECRET);
+    hmac.update(encoded);
+    return hmac.digest('hex');
+}
+
+function encodeQuote(payload: QuotePayload): string {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${sign(encoded)}`;
+}
+
+function decodeQuote(quoteId: string): QuotePayload | null {
+    const [encoded, signature] = quoteId.split('.');
+    if (!encoded || !signature) return null;
+
+    const expected = Buffer.from(sign(encoded));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    try {
+        return JSON.parse(Buffer.from(encoded, 'base64url').toString()) as QuotePayload;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * 生成借款报价
+ * - 提前还款曲线按每期按时还款计算：各期到期后剩余欠款减少，最后一期到期后不再有优惠
+ * - 逾期扣款按各期应还 × 逾期扣除倍数计算，实际扣款不超过届时的额度余额
+ */
+export async function createLoanQuote(linuxDoId: string, amount: number, installments: number = 1): Promise<{ success: boolean; message: string; data?: any }> {
+    const eligibility = await checkBorrowEligibility(linuxDoId, amount, installments);
+    if (!eligibility.success || !eligibility.data) {
+        return { success: false, message: eligibility.message };
+    }
+    const { config, stats, isFirstToday, maxLoanAmount, borrowedToday, maxDaily } = eligibility.data;
+    const terms = getCurrentLoanTerms(config);
+    const now = Date.now();
+    const expiresAt = now + QUOTE_TTL_MS;
+
+    // 还款金额与分期计划
+    const repayAmount = Math.floor(amount * terms.repay_multiplier);
+    const schedule = buildInstallmentSchedule(amount, repayAmount, installments, now, terms.loan_duration_hours);
+    const dueAt = schedule[schedule.length - 1]!.due_at;
+
+    // 提前还款曲线（第 0 个点为借款时，之后为每期按时还款后）
+    const earlyRepayCurve = [];
+    let outstanding = repayAmount;
+    for (let paid = 0; paid <= schedule.length; paid++) {
+        if (paid > 0) {
+            const installment = schedule[paid - 1]!;
+            outstanding -= installment.principal_due + installment.fee_due;
+        }
+        const savings = paid < schedule.length ? Math.floor(outstanding * terms.early_repay_discount) : 0;
+        earlyRepayCurve.push({
+            after_hours: paid === 0 ? 0 : Math.round((schedule[paid - 1]!.due_at - now) / 3600000),
+            paid_installments: paid,
+            outstanding,
+            settle_amount: outstanding - savings,
+            savings
+        });
+    }
+
+    // 逾期后果
+    const creditConfig = getCreditConfigView();
+    const overdue = {
+        deduct_multiplier: terms.overdue_deduct_multiplier,
+        deduct_amounts: schedule.map(item => ({
+            seq: item.seq,
+            due_at: item.due_at,
+            amount: Math.floor((item.principal_due + item.fee_due) * terms.overdue_deduct_multiplier)
+        })),
+        penalty_hours: terms.overdue_penalty_hours,
+        advanced_ban: !!config.overdue_ban_advanced,
+        force_exit_modes: ['advanced', 'supreme'],
+        credit_penalty: creditConfig.overdue_penalty + creditConfig.recent_overdue_penalty,
+        borrow_blocked_today: true,
+        buff_cleared: true
+    };
+
+    // 今日首借 buff（倍率取默认倍率与当前活动倍率的较大值）
+    const hasUnusedBuff = !!stats && stats.has_daily_buff === 1 && stats.buff_used === 0;
+    const buff = {
+        granted: isFirstToday,
+        multipliers: Object.fromEntries(SLOT_MODES.map(mode => {
+            const event = getActiveEventEffect(mode, 'kunbei_buff');
+            return [mode, Math.max(DEFAULT_BUFF_MULTIPLIER, event?.effect_value ?? 0)];
+        })),
+        forfeits_unused: !isFirstToday && hasUnusedBuff
+    };
+
+    // 额度上限（各梯度按信用分档折算）
+    const creditBand = getCreditBand(linuxDoId);
+    const userQuota = getCachedPayoutQuota(linuxDoId) || 0;
+    const gradients = [...kunbeiQueries.getGradientConfigs.all()].sort((a, b) => a.quota_threshold - b.quota_threshold);
+    const currentGradient = [...gradients].reverse().find(gradient => userQuota >= gradient.quota_threshold) ?? gradients[0];
+    const limits = {
+        min_loan_amount: config.min_loan_amount,
+        max_loan_amount: maxLoanAmount,
+        gradient_max_loan_amount: getGradientMaxLoanAmount(linuxDoId),
+        credit_band: creditBand,
+        gradients: gradients.map(gradient => ({
+            quota_threshold: gradient.quota_threshold,
+            max_loan_amount: gradient.max_loan_amount,
+            effective_max_loan_amount: Math.floor(gradient.max_loan_amount * creditBand.loan_multiplier),
+            current: gradient.id === currentGradient?.id
+        })),
+        borrowed_today: borrowedToday,
+        max_daily_borrows: maxDaily,
+        max_installments: config.max_installments ?? 1
+    };
+
+    return {
+        success: true,
+        message: '报价已生成',
+        data: {
+            quote_id: encodeQuote({ uid: linuxDoId, amount, installments, terms, exp: expiresAt }),
+            expires_at: expiresAt,
+            loan_amount: amount,
+            repay_amount: repayAmount,
+            fee: repayAmount - amount,
+            due_at: dueAt,
+            installment_count: installments,
+            installments: schedule,
+            terms,
+            early_repay: earlyRepayCurve,
+            overdue,
+            buff,
+            limits
+        }
+    };
+}
+
+/**
+ * 校验报价编号：签名、有效期、用户、金额与分期数必须一致，通过后返回锁定的条款
+ */
+export function verifyLoanQuote(
+    quoteId: string,
+    linuxDoId: string,
+    amount: number,
+    installments: number
+): { success: boolean; message: string; terms?: LoanTerms } {
+    const payload = typeof quoteId === 'string' ? decodeQuote(quoteId) : null;
+    if (!payload) {
+        return { success: false, message: '报价无效' };
+    }
+    if (payload.exp <= Date.now()) {
+        return { success: false, message: '报价已过期，请重新获取' };
+    }
+    if (payload.uid !== linuxDoId || payload.amount !== amount || payload.installments !== installments) {
+        return { success: false, message: '报价与借款信息不一致' };
+    }
+    return { success: true, message: '', terms: payload.terms };
+}
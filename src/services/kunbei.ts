@@ -2,10 +2,22 @@
  * 坤呗借款系统服务层
  */
 
-import { kunbeiQueries, userQueries, adminQueries } from '../database';
+import { db, kunbeiQueries, userQueries } from '../database';
 import logger from '../utils/logger';
-import type { KunbeiConfig, UserLoan, UserKunbeiStats, KunbeiGradientConfig } from '../types';
-import { getUserQuota, deductQuota } from './kyx-api';
+import type { KunbeiConfig, UserLoan, UserKunbeiStats, KunbeiGradientConfig, KunbeiCreditBand, LoanInstallment, LoanRepayment } from '../types';
+import { getCachedPayoutQuota } from './upstreams';
+import { deductQuota } from './quota-queue';
+import { LedgerAccounts, postUpstreamDebit } from './ledger';
+import { getActiveEventEffect, type EventSlotMode } from './events';
+import { getCreditBand, getCreditScore, recalculateCreditScore } from './kunbei-credit';
+
+// 逾期批量处理配置
+const OVERDUE_BATCH_SIZE = 20;
+const OVERDUE_MAX_BATCHES = 50; // 单次任务最多处理的批次数
+const OVERDUE_CLAIM_TIMEOUT = 10 * 60 * 1000; // 认领超时（处理进程中断后可被重新认领）
+
+// 部分还款的最小金额（$1），还清剩余欠款时不受限制
+const MIN_PARTIAL_REPAY = 500000;
 
 /**
  * 获取用户显示名称（优先使用 linux_do_username）
@@ -41,6 +53,7 @@ export function getKunbeiConfig(): KunbeiConfig {
             overdue_penalty_hours: 60,
             overdue_ban_advanced: 1,
             max_active_loans: 1,
+            max_installments: 3,
             updated_at: Date.now()
         };
     }
@@ -55,6 +68,7 @@ export function getUserKunbeiStatus(linuxDoId: string): {
     has_active_loan: boolean;
     active_loan: UserLoan | null;
     stats: UserKunbeiStats | null;
+    credit_band: KunbeiCreditBand;
     can_borrow: boolean;
     ban_reason?: string;
     config: KunbeiConfig;
@@ -75,13 +89,17 @@ export function getUserKunbeiStatus(linuxDoId: string): {
             total_loans: 0,
             repaid_loans: 0,
             overdue_loans: 0,
-            credit_score: 100,
+            credit_score: getCreditScore(linuxDoId),
             is_banned: 0,
+            has_daily_buff: 0,
+            buff_multiplier: 2.5,
+            buff_used: 0,
             updated_at: Date.now()
         };
     }
 
-    // 判断是否可以借款
+    // 判断是否可以借款（信用分档的额度倍数为 0 时不能借款）
+    const creditBand = getCreditBand(linuxDoId);
     let can_borrow = true;
     let ban_reason: string | undefined;
 
@@ -91,9 +109,9 @@ export function getUserKunbeiStatus(linuxDoId: string): {
     } else if (stats.is_banned) {
         can_borrow = false;
         ban_reason = '您已被禁用坤呗功能';
-    } else if (stats.credit_score < 60) {
+    } else if (creditBand.loan_multiplier <= 0) {
         can_borrow = false;
-        ban_reason = '信用分过低，无法借款';
+        ban_reason = `信用分过低（${creditBand.label}），无法借款`;
     } else if (activeLoan) {
         can_borrow = false;
         ban_reason = '您已有未还清的借款';
@@ -103,6 +121,7 @@ export function getUserKunbeiStatus(linuxDoId: string): {
         has_active_loan: !!activeLoan,
         active_loan: activeLoan,
         stats,
+        credit_band: creditBand,
         can_borrow,
         ban_reason,
         config,
@@ -111,11 +130,18 @@ export function getUserKunbeiStatus(linuxDoId: string): {
 }
 
 /**
- * 计算用户的最大可借金额（基于梯度配置）
+ * 计算用户的最大可借金额（梯度配置 × 信用分档额度倍数）
  */
 export function calculateUserMaxLoanAmount(linuxDoId: string): number {
-    // 获取用户当前额度
-    const userQuota = getUserQuota(linuxDoId);
+    return Math.floor(getGradientMaxLoanAmount(linuxDoId) * getCreditBand(linuxDoId).loan_multiplier);
+}
+
+/**
+ * 按用户额度所在梯度计算的最大可借金额（未计信用分档）
+ */
+export function getGradientMaxLoanAmount(linuxDoId: string): number {
+    // 获取用户收款上游的当前额度（借款与还款都作用于收款上游）
+    const userQuota = getCachedPayoutQuota(linuxDoId);
 
     // 如果额度为0，可能是缓存未命中，尝试获取梯度配置
     if (!userQuota || userQuota === 0) {
@@ -124,7 +150,7 @@ export function calculateUserMaxLoanAmount(linuxDoId: string): number {
         if (gradientConfigs && gradientConfigs.length > 0) {
             // 按阈值从低到高排序，返回最低档（阈值最小的）
             const sortedConfigs = [...gradientConfigs].sort((a, b) => a.quota_threshold - b.quota_threshold);
-            return sortedConfigs[0].max_loan_amount;
+            return sortedConfigs[0]!.max_loan_amount;
         }
         // 如果没有梯度配置，使用默认配置
         const config = getKunbeiConfig();
@@ -144,7 +170,7 @@ export function calculateUserMaxLoanAmount(linuxDoId: string): number {
 
     // 找到适用的梯度
     // 从低到高遍历，找到用户额度能达到的最高档
-    let applicableGradient = sortedGradients[0]; // 默认使用最低档
+    let applicableGradient = sortedGradients[0]!; // 默认使用最低档
 
     for (const gradient of sortedGradients) {
         if (userQuota >= gradient.quota_threshold) {
@@ -232,36 +258,113 @@ export function deleteGradientConfig(id: number): { success: boolean; message: s
 }
 
 /**
- * 申请借款
+ * 生成分期计划：应还金额拆分为本金（借款金额）与费用，各期平均分摊（余数计入最后一期）
+ * 第 i 期在借款后 i 个借款期限到期
  */
-export async function borrowLoan(
+export function buildInstallmentSchedule(
+    loanAmount: number,
+    repayAmount: number,
+    installments: number,
+    borrowedAt: number,
+    durationHours: number
+): Array<{ seq: number; due_at: number; principal_due: number; fee_due: number }> {
+    const fee = repayAmount - loanAmount;
+    const principalPerInstallment = Math.floor(loanAmount / installments);
+    const feePerInstallment = Math.floor(fee / installments);
+
+    return Array.from({ length: installments }, (_, index) => {
+        const isLast = index === installments - 1;
+        return {
+            seq: index + 1,
+            due_at: borrowedAt + Math.round(durationHours * 3600000 * (index + 1)),
+            principal_due: isLast ? loanAmount - principalPerInstallment * (installments - 1) : principalPerInstallment,
+            fee_due: isLast ? fee - feePerInstallment * (installments - 1) : feePerInstallment
+        };
+    });
+}
+
+/**
+ * 借款条款（借款时锁定并记录在借款上，之后修改配置不影响已有借款）
+ */
+export interface LoanTerms {
+    repay_multiplier: number;
+    loan_duration_hours: number;
+    early_repay_discount: number;
+    overdue_deduct_multiplier: number;
+    overdue_penalty_hours: number;
+}
+
+/**
+ * 按当前配置计算的借款条款
+ */
+export function getCurrentLoanTerms(config: KunbeiConfig = getKunbeiConfig()): LoanTerms {
+    return {
+        repay_multiplier: config.repay_multiplier,
+        loan_duration_hours: config.loan_duration_hours,
+        early_repay_discount: config.early_repay_discount,
+        overdue_deduct_multiplier: config.overdue_deduct_multiplier || 2.5,
+        overdue_penalty_hours: config.overdue_penalty_hours
+    };
+}
+
+/**
+ * 借款生效的还款/逾期条款（未记录条款的旧借款使用当前配置）
+ */
+export function getLoanTerms(loan: UserLoan, config: KunbeiConfig = getKunbeiConfig()): Pick<LoanTerms, 'early_repay_discount' | 'overdue_deduct_multiplier' | 'overdue_penalty_hours'> {
+    return {
+        early_repay_discount: loan.early_repay_discount ?? config.early_repay_discount,
+        overdue_deduct_multiplier: loan.overdue_deduct_multiplier ?? (config.overdue_deduct_multiplier || 2.5),
+        overdue_penalty_hours: loan.overdue_penalty_hours ?? config.overdue_penalty_hours
+    };
+}
+
+/**
+ * 检查借款资格（借款与报价共用）
+ */
+export async function checkBorrowEligibility(
     linuxDoId: string,
-    username: string,
-    amount: number
-): Promise<{ success: boolean; message: string; data?: any; is_first_today?: boolean }> {
+    amount: number,
+    installments: number
+): Promise<{
+    success: boolean;
+    message: string;
+    data?: {
+        config: KunbeiConfig;
+        stats: UserKunbeiStats | null;
+        today: string;
+        isFirstToday: boolean;
+        maxLoanAmount: number;
+        borrowedToday: number;
+        maxDaily: number;
+    };
+}> {
     const config = getKunbeiConfig();
-    const now = Date.now();
 
     // 1. 检查系统是否启用
     if (!config.enabled) {
         return { success: false, message: '坤呗功能已关闭' };
     }
 
-    // 2. 验证金额范围（使用梯度配置）
-    const maxLoanAmount = calculateUserMaxLoanAmount(linuxDoId);
-    if (amount < config.min_loan_amount || amount > maxLoanAmount) {
-        return {
-            success: false,
-            message: `借款金额必须在 $${(config.min_loan_amount / 500000).toFixed(0)} - $${(maxLoanAmount / 500000).toFixed(0)} 之间`
-        };
+    const maxInstallments = config.max_installments ?? 1;
+    if (!Number.isInteger(installments) || installments < 1 || installments > maxInstallments) {
+        return { success: false, message: `分期数必须在 1 - ${maxInstallments} 期之间` };
     }
 
-    // 3. 检查用户状态
+    // 2. 检查用户状态
     const status = getUserKunbeiStatus(linuxDoId);
     if (!status.can_borrow) {
         return { success: false, message: status.ban_reason || '无法借款' };
     }
 
+    // 3. 验证金额范围（使用梯度配置与信用分档）
+    const maxLoanAmount = status.max_loan_amount ?? calculateUserMaxLoanAmount(linuxDoId);
+    if (amount < config.min_loan_amount || amount > maxLoanAmount) {
+        return {
+            success: false,
+            message: `借款金额必须在 $${(config.min_loan_amount / 500000).toFixed(0)} - $${(maxLoanAmount / 500000).toFixed(0)} 之间`
+        };
+    }
+
     // 🔥 检查是否有活跃借款（必须先还款才能再借）
     const activeLoan = kunbeiQueries.getActiveLoan.get(linuxDoId);
     if (activeLoan) {
@@ -303,29 +406,70 @@ export async function borrowLoan(
     const stats = kunbeiQueries.getStats.get(linuxDoId);
     const isFirstToday = !stats || stats.last_borrow_date !== today;
 
-    // 4. 计算还款金额、逾期扣除倍数和到期时间
-    const repayAmount = Math.floor(amount * config.repay_multiplier);
-    const dueAt = now + (config.loan_duration_hours * 3600000);
-    const deductMultiplier = config.overdue_deduct_multiplier || 2.5;
-    const deductAmount = Math.floor(repayAmount * deductMultiplier);
-
-    // 5. 创建借款记录
-    kunbeiQueries.insertLoan.run(
-        linuxDoId,
-        username,
-        amount,
-        repayAmount,
-        'active',
-        now,
-        dueAt,
-        now,
-        now
-    );
+    return {
+        success: true,
+        message: '',
+        data: { config, stats, today, isFirstToday, maxLoanAmount, borrowedToday, maxDaily }
+    };
+}
+
+/**
+ * 申请借款
+ * @param installments 分期数（1 表示到期一次还清）
+ * @param lockedTerms 报价锁定的条款，不传则按当前配置
+ */
+export async function borrowLoan(
+    linuxDoId: string,
+    username: string,
+    amount: number,
+    installments: number = 1,
+    lockedTerms?: LoanTerms
+): Promise<{ success: boolean; message: string; data?: any; is_first_today?: boolean }> {
+    const eligibility = await checkBorrowEligibility(linuxDoId, amount, installments);
+    if (!eligibility.success || !eligibility.data) {
+        return { success: false, message: eligibility.message };
+    }
+    const { stats, today, isFirstToday } = eligibility.data;
+    const terms = lockedTerms ?? getCurrentLoanTerms(eligibility.data.config);
+    const now = Date.now();
 
-    // 6. 更新统计 + 设置buff（如果是首次）
+    // 4. 计算还款金额、分期计划、逾期扣除倍数和到期时间（最后一期到期时间）
+    const repayAmount = Math.floor(amount * terms.repay_multiplier);
+    const schedule = buildInstallmentSchedule(amount, repayAmount, installments, now, terms.loan_duration_hours);
+    const dueAt = schedule[schedule.length - 1]!.due_at;
+    const deductMultiplier = terms.overdue_deduct_multiplier;
+    const deductAmount = Math.floor((schedule[0]!.principal_due + schedule[0]!.fee_due) * deductMultiplier);
+
+    // 5. 创建借款记录与分期计划（记录借款时的信用分）
+    const currentScore = stats?.credit_score ?? getCreditScore(linuxDoId);
+    const loanId = db.transaction(() => {
+        const loanInsert = kunbeiQueries.insertLoan.run(
+            linuxDoId,
+            username,
+            amount,
+            repayAmount,
+            'active',
+            now,
+            dueAt,
+            installments,
+            currentScore,
+            terms.early_repay_discount,
+            terms.overdue_deduct_multiplier,
+            terms.overdue_penalty_hours,
+            now,
+            now
+        );
+        const id = Number(loanInsert.lastInsertRowid);
+        for (const item of schedule) {
+            kunbeiQueries.insertInstallment.run(id, item.seq, item.due_at, item.principal_due, item.fee_due, now, now);
+        }
+        return id;
+    })();
+
+    // 6. 更新统计 + 设置buff（如果是首次），信用分随后按评分模型重新计算
     kunbeiQueries.upsertStats.run(
         linuxDoId, amount, 0, 1, 0, 0,
-        stats?.credit_score || 100, 0,
+        currentScore, 0,
         today,                    // last_borrow_date
         isFirstToday ? 1 : 0,    // has_daily_buff
         2.5,                      // buff_multiplier
@@ -333,13 +477,14 @@ export async function borrowLoan(
         now,
         // ON CONFLICT 部分
         amount, 0, 1, 0, 0,
-        stats?.credit_score || 100,
+        currentScore,
         today,
         isFirstToday ? 1 : 0,
         2.5,
         0,
         now
     );
+    recalculateCreditScore(linuxDoId, 'borrow', loanId);
 
     logger.info('坤呗', `用户 ${username} 借款记录已创建 - 金额: $${(amount / 500000).toFixed(2)}${isFirstToday ? '（今日首借，已获得抽奖buff×2.5）' : ''}`);
 
@@ -348,7 +493,7 @@ export async function borrowLoan(
     // 额度增加在前端调用API成功后由前端代码处理（updateSlotUI）
     // 这里只记录借款关系，实际额度增加由调用方负责
     logger.info('坤呗', `💡 提示：借款金额需要由调用方增加到用户额度`);
-    logger.info('坤呗', `📊 逾期警告：到期时将从用户额度中扣除 $${(deductAmount / 500000).toFixed(2)}（应还 $${(repayAmount / 500000).toFixed(2)} × ${deductMultiplier}倍）`);
+    logger.info('坤呗', `📊 逾期警告：${installments > 1 ? `分${installments}期，每期到期未还清时` : '到期时'}将从用户额度中扣除该期剩余应还 × ${deductMultiplier}倍（首期 $${(deductAmount / 500000).toFixed(2)}）`);
 
     return {
         success: true,
@@ -356,21 +501,107 @@ export async function borrowLoan(
             ? '坤呗到账，祝您一发入魂 💸'
             : `借款成功！$${(amount / 500000).toFixed(2)} 已到账`,
         data: {
+            loan_id: loanId,
             loan_amount: amount,
             repay_amount: repayAmount,
             due_at: dueAt,
-            early_repay_amount: Math.floor(repayAmount * (1 - config.early_repay_discount))
+            early_repay_amount: repayAmount - Math.floor(repayAmount * terms.early_repay_discount),
+            installment_count: installments,
+            installments: schedule
         },
         is_first_today: isFirstToday
     };
 }
 
 /**
- * 还款
+ * 借款剩余欠款
+ */
+export function getLoanOutstanding(loan: UserLoan): number {
+    return Math.max(0, loan.repay_amount - (loan.repaid_amount ?? 0));
+}
+
+/**
+ * 还款报价
+ */
+export interface RepaymentQuote {
+    outstanding: number;  // 当前剩余欠款
+    amount: number;       // 本次实际扣除的额度
+    discount: number;     // 提前还清优惠
+    credit: number;       // 本次冲抵的欠款（amount + discount）
+    settles: boolean;     // 本次是否还清
+}
+
+/**
+ * 计算一次还款：不传金额或金额不少于剩余欠款（扣除优惠后）时还清，否则为部分还款
+ * 未逾期且在最后一期到期前还清时享受提前还款优惠（按剩余欠款计算）
+ */
+export function quoteRepayment(loan: UserLoan, amount?: number, now: number = Date.now()): { success: boolean; message: string; data?: RepaymentQuote } {
+    if (loan.status !== 'active' && loan.status !== 'overdue') {
+        return { success: false, message: '该借款已处理' };
+    }
+    if (amount !== undefined && (!Number.isInteger(amount) || amount <= 0)) {
+        return { success: false, message: '还款金额必须为正整数' };
+    }
+
+    const terms = getLoanTerms(loan);
+    const outstanding = getLoanOutstanding(loan);
+    const discount = loan.status === 'active' && now < loan.due_at
+        ? Math.floor(outstanding * terms.early_repay_discount)
+        : 0;
+    const payoff = outstanding - discount;
+
+    if (amount === undefined || amount >= payoff) {
+        return { success: true, message: '', data: { outstanding, amount: payoff, discount, credit: outstanding, settles: true } };
+    }
+    if (amount < MIN_PARTIAL_REPAY) {
+        return { success: false, message: `部分还款每次不少于 $${(MIN_PARTIAL_REPAY / 500000).toFixed(2)}` };
+    }
+    return { success: true, message: '', data: { outstanding, amount, discount: 0, credit: amount, settles: false } };
+}
+
+/**
+ * 按期冲抵欠款：从最早未还清的一期开始，每期先冲抵费用再冲抵本金
+ */
+function applyToInstallments(loanId: number, credit: number, now: number): { feePart: number; principalPart: number } {
+    const installments = kunbeiQueries.getInstallments.all(loanId)
+        .filter(installment => installment.status === 'pending' || installment.status === 'overdue');
+    let remaining = credit;
+    let feePart = 0;
+    let principalPart = 0;
+
+    for (const installment of installments) {
+        if (remaining <= 0) break;
+        const fee = Math.min(remaining, installment.fee_due - installment.fee_paid);
+        remaining -= fee;
+        const principal = Math.min(remaining, installment.principal_due - installment.principal_paid);
+        remaining -= principal;
+
+        const cleared = installment.fee_paid + fee >= installment.fee_due && installment.principal_paid + principal >= installment.principal_due;
+        kunbeiQueries.updateInstallmentPayment.run(
+            principal,
+            fee,
+            cleared ? 'paid' : installment.status,
+            cleared ? now : null,
+            now,
+            installment.id
+        );
+        feePart += fee;
+        principalPart += principal;
+    }
+
+    return { feePart, principalPart };
+}
+
+/**
+ * 还款（调用方已按报价扣除额度）
+ * @param amount 本次还款金额，不传则还清剩余欠款；部分还款冲抵最早未还清的分期，逾期分期全部还清后借款恢复为正常状态
+ * @param quotedAt 报价时间，须与调用方扣款时的报价一致，避免扣款期间跨过到期时间导致按部分还款入账
  */
 export function repayLoan(
     linuxDoId: string,
-    loanId: number
+    loanId: number,
+    amount?: number,
+    quotedAt: number = Date.now()
 ): { success: boolean; message: string; data?: any } {
     const config = getKunbeiConfig();
     const now = Date.now();
@@ -386,242 +617,279 @@ export function repayLoan(
         return { success: false, message: '无权操作此借款' };
     }
 
-    if (loan.status !== 'active' && loan.status !== 'overdue') {
-        return { success: false, message: '该借款已处理' };
-    }
-
-    // 2. 计算实际还款金额
-    let actualRepayAmount = loan.repay_amount;
-    let cashback = 0;
-    let isEarly = false;
-
-    if (now < loan.due_at) {
-        // 提前还款，享受优惠
-        isEarly = true;
-        cashback = Math.floor(loan.repay_amount * config.early_repay_discount);
-        actualRepayAmount = loan.repay_amount - cashback;
+    // 2. 计算实际还款金额（按调用方扣款时的报价时间）
+    const quote = quoteRepayment(loan, amount, quotedAt);
+    if (!quote.success || !quote.data) {
+        return { success: false, message: quote.message };
     }
+    const { amount: actualRepayAmount, discount: cashback, credit, settles } = quote.data;
+    const outstandingAfter = quote.data.outstanding - credit;
+
+    // 3. 冲抵分期并更新借款状态
+    const overduePenaltyUntil = settles
+        ? (loan.status === 'overdue' ? now + (getLoanTerms(loan, config).overdue_penalty_hours * 3600000) : null)
+        : loan.overdue_penalty_until ?? null;
+
+    const { feePart, principalPart } = db.transaction(() => {
+        const parts = applyToInstallments(loanId, credit, now);
+        const stillOverdue = kunbeiQueries.getInstallments.all(loanId).some(installment => installment.status === 'overdue');
+        const status: UserLoan['status'] = settles ? 'repaid' : (stillOverdue ? 'overdue' : 'active');
+
+        kunbeiQueries.applyLoanRepayment.run(
+            credit,
+            actualRepayAmount,
+            status,
+            settles ? now : null,
+            overduePenaltyUntil,
+            now,
+            loanId
+        );
+        kunbeiQueries.insertRepayment.run(loanId, linuxDoId, 'repay', actualRepayAmount, cashback, parts.feePart, parts.principalPart, outstandingAfter, now);
+        return parts;
+    })();
 
-    // 3. 更新借款状态
-    const overduePenaltyUntil = loan.status === 'overdue'
-        ? now + (config.overdue_penalty_hours * 3600000)
-        : null;
-
-    kunbeiQueries.updateLoanStatus.run(
-        'repaid',
-        actualRepayAmount,
-        now,
-        overduePenaltyUntil,
-        now,
-        loanId
-    );
-
-    // 4. 更新统计和信用分
+    // 4. 更新统计（部分还款只累计还款金额），信用分随后按评分模型重新计算
     const stats = kunbeiQueries.getStats.get(linuxDoId);
-    const currentScore = stats?.credit_score || 100;
-    let newScore = currentScore;
+    const currentScore = stats?.credit_score ?? getCreditScore(linuxDoId);
 
-    if (isEarly) {
-        newScore = Math.min(100, currentScore + 10);  // 提前还款+10分
-    } else if (loan.status === 'overdue') {
-        newScore = Math.max(0, currentScore - 5);     // 逾期还款-5分（已在逾期时扣过）
-    } else {
-        newScore = Math.min(100, currentScore + 5);   // 按时还款+5分
-    }
+    // 还清时清除buff（与原有逻辑一致），部分还款保留
+    const hasDailyBuff = settles ? 0 : stats?.has_daily_buff ?? 0;
+    const buffMultiplier = settles ? 2.5 : stats?.buff_multiplier ?? 2.5;
+    const buffUsed = settles ? 0 : stats?.buff_used ?? 0;
 
     kunbeiQueries.upsertStats.run(
-        linuxDoId, 0, actualRepayAmount, 0, 1, 0, newScore, 0,
+        linuxDoId, 0, actualRepayAmount, 0, settles ? 1 : 0, 0, currentScore, 0,
         stats?.last_borrow_date || null,  // last_borrow_date
-        0,                                 // has_daily_buff
-        2.5,                               // buff_multiplier
-        0,                                 // buff_used
+        hasDailyBuff,                      // has_daily_buff
+        buffMultiplier,                    // buff_multiplier
+        buffUsed,                          // buff_used
         now,
         // ON CONFLICT 部分
-        0, actualRepayAmount, 0, 1, 0, newScore,
+        0, actualRepayAmount, 0, settles ? 1 : 0, 0, currentScore,
         stats?.last_borrow_date || null,
-        0,
-        2.5,
-        0,
+        hasDailyBuff,
+        buffMultiplier,
+        buffUsed,
         now
     );
 
-    logger.info('坤呗', `用户 ${loan.username} 还款 $${(actualRepayAmount / 500000).toFixed(2)}${cashback > 0 ? `（返现 $${(cashback / 500000).toFixed(2)}）` : ''}`);
+    const creditScore = recalculateCreditScore(linuxDoId, 'repay', loanId);
+
+    logger.info('坤呗', `用户 ${loan.username} 还款 $${(actualRepayAmount / 500000).toFixed(2)}${cashback > 0 ? `（返现 $${(cashback / 500000).toFixed(2)}）` : ''}${settles ? '，已还清' : `，剩余欠款 $${(outstandingAfter / 500000).toFixed(2)}`}`);
 
     return {
         success: true,
-        message: cashback > 0
-            ? '讲信用的坤！返现已到账～'
-            : loan.status === 'overdue'
-                ? '还款成功！但仍需承受逾期惩罚'
-                : '还款成功！',
+        message: !settles
+            ? `已还款 $${(actualRepayAmount / 500000).toFixed(2)}，剩余欠款 $${(outstandingAfter / 500000).toFixed(2)}`
+            : cashback > 0
+                ? '讲信用的坤！返现已到账～'
+                : loan.status === 'overdue'
+                    ? '还款成功！但仍需承受逾期惩罚'
+                    : '还款成功！',
         data: {
             original_amount: loan.repay_amount,
             actual_amount: actualRepayAmount,
             cashback: cashback,
-            credit_score_change: newScore - currentScore,
-            new_credit_score: newScore,
+            fee_part: feePart,
+            principal_part: principalPart,
+            outstanding_amount: outstandingAfter,
+            settled: settles,
+            credit_score_change: creditScore.change,
+            new_credit_score: creditScore.new_score,
             overdue_penalty_until: overduePenaltyUntil
         }
     };
 }
 
 /**
- * 检查并处理逾期借款
+ * 借款的分期计划与还款流水
  */
-export async function checkOverdueLoans(): Promise<number> {
-    const config = getKunbeiConfig();
+export function getLoanRepaymentHistory(loanId: number): {
+    loan: UserLoan & { outstanding_amount: number };
+    installments: Array<LoanInstallment & { remaining: number }>;
+    repayments: LoanRepayment[];
+} | null {
+    const loan = kunbeiQueries.getLoanById.get(loanId);
+    if (!loan) {
+        return null;
+    }
+
+    return {
+        loan: { ...loan, outstanding_amount: getLoanOutstanding(loan) },
+        installments: kunbeiQueries.getInstallments.all(loanId).map(installment => ({
+            ...installment,
+            remaining: installment.status === 'waived'
+                ? 0
+                : installment.principal_due + installment.fee_due - installment.principal_paid - installment.fee_paid
+        })),
+        repayments: kunbeiQueries.getRepayments.all(loanId)
+    };
+}
+
+/**
+ * 判断借款是否正在被逾期处理（已认领且未超时）
+ */
+export function isOverdueProcessing(loan: UserLoan, now: number = Date.now()): boolean {
+    return !!loan.overdue_claimed_by && (loan.overdue_claimed_at || 0) >= now - OVERDUE_CLAIM_TIMEOUT;
+}
+
+/**
+ * 处理单笔逾期借款（需先认领，认领失败说明已被其他任务处理）
+ * 处理中途出错时保留认领，超时后由后续任务重新认领处理
+ */
+async function processOverdueLoan(loan: UserLoan, config: KunbeiConfig): Promise<boolean> {
     const now = Date.now();
-    const activeLoans = kunbeiQueries.getActiveLoans.all();
+    const claimToken = `${process.pid}:${crypto.randomUUID()}`;
+    const claimed = kunbeiQueries.claimOverdueLoan.run(claimToken, now, loan.id!, now, now - OVERDUE_CLAIM_TIMEOUT);
+    if (claimed.changes === 0) {
+        return false;
+    }
 
-    let overdueCount = 0;
+    // 标记为逾期（按借款时锁定的条款）
+    const terms = getLoanTerms(loan, config);
+    const penaltyUntil = now + (terms.overdue_penalty_hours * 3600000);
 
-    for (const loan of activeLoans) {
-        if (loan.due_at < now && loan.status === 'active') {
-            // 标记为逾期
-            const penaltyUntil = now + (config.overdue_penalty_hours * 3600000);
-
-            // 🔥 计算逾期扣款金额（欠款金额 * 倍数）
-            const deductMultiplier = config.overdue_deduct_multiplier || 2.5;
-            const deductAmount = Math.floor(loan.repay_amount * deductMultiplier);
-            
-            // 🔥 获取用户信息和管理员配置
-            const user = userQueries.get.get(loan.linux_do_id);
-            if (!user) {
-                logger.error('坤呗', `用户不存在: ${loan.linux_do_id}`);
-                continue;
-            }
+    // 🔥 按期处理：只针对已到期且未还清的分期
+    const dueInstallments = kunbeiQueries.getDueInstallments.all(loan.id!, now);
+    const dueAmount = dueInstallments.reduce(
+        (sum, installment) => sum + installment.principal_due + installment.fee_due - installment.principal_paid - installment.fee_paid,
+        0
+    );
+    const dueLabel = loan.installment_count && loan.installment_count > 1
+        ? `第${dueInstallments.map(installment => installment.seq).join('、')}期`
+        : '';
 
-            const adminConfig = adminQueries.get.get();
-            if (!adminConfig) {
-                logger.error('坤呗', `管理员配置未找到`);
-                continue;
-            }
+    // 🔥 计算逾期扣款金额（到期未还金额 * 倍数）
+    const deductMultiplier = terms.overdue_deduct_multiplier;
+    const deductAmount = Math.floor(dueAmount * deductMultiplier);
+    
+    // 🔥 获取用户信息
+    const user = userQueries.get.get(loan.linux_do_id);
+    if (!user) {
+        logger.error('坤呗', `用户不存在: ${loan.linux_do_id}`);
+        return false;
+    }
 
-            // 🔥 获取用户当前额度（实时查询，与初级场/高级场/至尊场保持一致）
-            logger.info('坤呗逾期', `开始获取用户额度 - 用户: ${loan.username} (ID: ${user.kyx_user_id})`);
-            const { getKyxUserById } = await import('./kyx-api');
-            const kyxUserResult = await getKyxUserById(user.kyx_user_id, adminConfig.session, adminConfig.new_api_user);
-
-            let userQuota = 0;
-            if (kyxUserResult.success && kyxUserResult.user) {
-                userQuota = kyxUserResult.user.quota;
-                logger.info('坤呗逾期', `✅ 获取用户额度成功 - 用户: ${loan.username}, 当前额度: $${(userQuota / 500000).toFixed(2)}`);
-            } else {
-                logger.error('坤呗逾期', `❌ 获取用户额度失败 - 用户: ${loan.username}, kyx_user_id: ${user.kyx_user_id}`);
-                logger.error('坤呗逾期', `错误详情`, kyxUserResult);
-            }
+    // 🔥 通过额度队列扣款：最多扣到 0，不扣为负数（与其他额度变动串行，避免互相覆盖）
+    const deductResult = await deductQuota(user.kyx_user_id, deductAmount, 'kunbei_overdue_deduct', {
+        linuxDoId: loan.linux_do_id,
+        mode: 'clamp'
+    });
 
-            // 实际扣款金额：不超过用户额度，不扣为负数
-            let actualDeductAmount = Math.min(deductAmount, Math.max(0, userQuota));
-            let autoDeductedAmount = 0;
-
-            logger.info('坤呗逾期', `📊 扣款计算 - 用户: ${loan.username}`);
-            logger.info('坤呗逾期', `  - 应还金额: $${(loan.repay_amount / 500000).toFixed(2)}`);
-            logger.info('坤呗逾期', `  - 扣除倍数: ${deductMultiplier}x`);
-            logger.info('坤呗逾期', `  - 应扣金额: $${(deductAmount / 500000).toFixed(2)}`);
-            logger.info('坤呗逾期', `  - 用户额度: $${(userQuota / 500000).toFixed(2)}`);
-            logger.info('坤呗逾期', `  - 实际扣款: $${(actualDeductAmount / 500000).toFixed(2)}`);
-            
-            // 如果有额度可扣，执行扣款
-            if (actualDeductAmount > 0) {
-                // 🔥 计算扣除后的新余额
-                const newQuotaAfterDeduct = userQuota - actualDeductAmount;
-                
-                // 🔥 确保余额不会为负数（双重保险）
-                if (newQuotaAfterDeduct < 0) {
-                    logger.error('坤呗', `计算错误：扣款后余额为负 - 用户: ${loan.username}, 当前: ${userQuota}, 扣除: ${actualDeductAmount}`);
-                    actualDeductAmount = userQuota; // 只扣除可用余额
-                }
-                
-                // 🔥 使用统一的扣款方式（与老虎机保持一致）
-                const { updateKyxUserQuota } = await import('./kyx-api');
-                const deductResult = await updateKyxUserQuota(
-                    user.kyx_user_id,
-                    Math.max(0, newQuotaAfterDeduct),  // 🔥 确保不为负数
-                    adminConfig.session,
-                    adminConfig.new_api_user,
-                    user.username,  // 🔥 使用最新的公益站用户名（与初级场/至尊场保持一致）
-                    kyxUserResult.user.group || 'default'
-                );
-                
-                if (deductResult && deductResult.success) {
-                    autoDeductedAmount = actualDeductAmount;
-                    logger.info('坤呗', `逾期扣款成功 - 用户: ${loan.username}, 应还: $${(loan.repay_amount / 500000).toFixed(2)}, 扣款倍数: ${deductMultiplier}x, 当前额度: $${(userQuota / 500000).toFixed(2)}, 自动扣除: $${(actualDeductAmount / 500000).toFixed(2)}, 剩余: $${(Math.max(0, newQuotaAfterDeduct) / 500000).toFixed(2)}`);
-                } else {
-                    logger.error('坤呗', `逾期扣除额度失败 - 用户: ${loan.username}, 错误: ${deductResult?.message || '未知错误'}`);
-                }
-            } else {
-                logger.info('坤呗', `逾期但用户额度不足 - 用户: ${loan.username}, 当前额度: $${(userQuota / 500000).toFixed(2)}, 应扣: $${(deductAmount / 500000).toFixed(2)}`);
-            }
+    let autoDeductedAmount = 0;
+    let balanceAfterDeduct = 0;  // 🔥 扣款后余额（不为负数）
 
-            // 🔥 计算扣款后余额（不为负数）
-            const balanceAfterDeduct = actualDeductAmount > 0 ? Math.max(0, userQuota - actualDeductAmount) : 0;
-            
-            // 更新借款状态（使用新的查询）
-            kunbeiQueries.updateLoanOverdue.run(
-                'overdue',
-                penaltyUntil,
-                autoDeductedAmount,
-                balanceAfterDeduct,  // 🔥 记录扣款后余额
-                now,
-                loan.id
-            );
-
-            // 降低信用分
-            kunbeiQueries.updateCreditScore.run(
-                loan.linux_do_id,
-                100,
-                now,
-                -10,
-                now
-            );
-
-            // 更新逾期统计
-            const overdueStats = kunbeiQueries.getStats.get(loan.linux_do_id);
-            kunbeiQueries.upsertStats.run(
-                loan.linux_do_id, 0, 0, 0, 0, 1, 90, 0,
-                overdueStats?.last_borrow_date || null,  // last_borrow_date
-                0,                                        // has_daily_buff
-                2.5,                                      // buff_multiplier
-                0,                                        // buff_used
-                now,
-                // ON CONFLICT 部分
-                0, 0, 0, 0, 1, 90,
-                overdueStats?.last_borrow_date || null,
-                0,
-                2.5,
-                0,
-                now
-            );
-
-            // 🔥 逾期后强制退出高级场和至尊场
-            try {
-                const { exitAdvancedMode } = await import('./advanced-slot');
-                const { exitSupremeMode } = await import('./supreme-slot');
-
-                // 强制退出高级场
-                exitAdvancedMode(loan.linux_do_id);
-                logger.warn('坤呗逾期', `用户 ${getUserDisplayName(loan.linux_do_id)} 因逾期已被强制退出高级场`);
-
-                // 强制退出至尊场
-                exitSupremeMode(loan.linux_do_id);
-                logger.warn('坤呗逾期', `用户 ${getUserDisplayName(loan.linux_do_id)} 因逾期已被强制退出至尊场`);
-            } catch (error: any) {
-                logger.error('坤呗逾期', `退出高级场/至尊场失败: ${error.message}`);
-            }
+    if (deductResult.success) {
+        autoDeductedAmount = -deductResult.applied;
+        balanceAfterDeduct = deductResult.balanceAfter ?? 0;
+        const userQuota = deductResult.balanceBefore ?? 0;
 
-            overdueCount++;
-            logger.warn('坤呗', `借款逾期处理完成 - 用户: ${getUserDisplayName(loan.linux_do_id)}, 借款ID: ${loan.id}, 惩罚至: ${new Date(penaltyUntil).toLocaleString()}, 自动扣款: $${(autoDeductedAmount / 500000).toFixed(2)}, 已强制退出高级场和至尊场`);
+        logger.info('坤呗逾期', `📊 扣款结果 - 用户: ${loan.username}, ${dueLabel}应还: $${(dueAmount / 500000).toFixed(2)}, 扣除倍数: ${deductMultiplier}x, 应扣: $${(deductAmount / 500000).toFixed(2)}, 用户额度: $${(userQuota / 500000).toFixed(2)}, 实际扣款: $${(autoDeductedAmount / 500000).toFixed(2)}`);
+
+        if (autoDeductedAmount > 0) {
+            postUpstreamDebit(loan.linux_do_id, autoDeductedAmount, 'kunbei_overdue_deduct', LedgerAccounts.HOUSE_KUNBEI, loan.id);
+            logger.info('坤呗', `逾期扣款成功 - 用户: ${loan.username}, 自动扣除: $${(autoDeductedAmount / 500000).toFixed(2)}, 剩余: $${(balanceAfterDeduct / 500000).toFixed(2)}`);
+        } else {
+            logger.info('坤呗', `逾期但用户额度不足 - 用户: ${loan.username}, 当前额度: $${(userQuota / 500000).toFixed(2)}, 应扣: $${(deductAmount / 500000).toFixed(2)}`);
+        }
+    } else {
+        logger.error('坤呗', `逾期扣除额度失败 - 用户: ${loan.username}, 错误: ${deductResult.message || '未知错误'}`);
+    }
 
-            // 🏆 逾期成就
-            try {
-                const { checkAndUnlockAchievement } = await import('./achievement');
-                await checkAndUnlockAchievement(loan.linux_do_id, 'kunbei_overdue');
-            } catch (achievementError) {
-                logger.error('成就系统', `检查逾期成就时出错: ${achievementError}`);
+    // 更新分期与借款状态（使用新的查询），逾期扣款记入还款流水（不冲抵欠款）
+    db.transaction(() => {
+        for (const installment of dueInstallments) {
+            kunbeiQueries.markInstallmentOverdue.run(now, now, installment.id);
+        }
+        kunbeiQueries.updateLoanOverdue.run(
+            'overdue',
+            penaltyUntil,
+            autoDeductedAmount,
+            balanceAfterDeduct,  // 🔥 记录扣款后余额
+            now,
+            loan.id!
+        );
+        kunbeiQueries.insertRepayment.run(loan.id!, loan.linux_do_id, 'overdue_deduct', autoDeductedAmount, 0, 0, 0, getLoanOutstanding(loan), now);
+    })();
+
+    // 更新逾期统计，信用分按评分模型重新计算
+    const overdueStats = kunbeiQueries.getStats.get(loan.linux_do_id);
+    const overdueScore = overdueStats?.credit_score ?? getCreditScore(loan.linux_do_id);
+    kunbeiQueries.upsertStats.run(
+        loan.linux_do_id, 0, 0, 0, 0, 1, overdueScore, 0,
+        overdueStats?.last_borrow_date || null,  // last_borrow_date
+        0,                                        // has_daily_buff
+        2.5,                                      // buff_multiplier
+        0,                                        // buff_used
+        now,
+        // ON CONFLICT 部分
+        0, 0, 0, 0, 1, overdueScore,
+        overdueStats?.last_borrow_date || null,
+        0,
+        2.5,
+        0,
+        now
+    );
+    recalculateCreditScore(loan.linux_do_id, 'overdue', loan.id!);
+
+    // 🔥 逾期后强制退出高级场和至尊场
+    try {
+        const { exitAdvancedMode } = await import('./advanced-slot');
+        const { exitSupremeMode } = await import('./supreme-slot');
+
+        // 强制退出高级场
+        exitAdvancedMode(loan.linux_do_id);
+        logger.warn('坤呗逾期', `用户 ${getUserDisplayName(loan.linux_do_id)} 因逾期已被强制退出高级场`);
+
+        // 强制退出至尊场
+        exitSupremeMode(loan.linux_do_id);
+        logger.warn('坤呗逾期', `用户 ${getUserDisplayName(loan.linux_do_id)} 因逾期已被强制退出至尊场`);
+    } catch (error: any) {
+        logger.error('坤呗逾期', `退出高级场/至尊场失败: ${error.message}`);
+    }
+
+    logger.warn('坤呗', `借款逾期处理完成 - 用户: ${getUserDisplayName(loan.linux_do_id)}, 借款ID: ${loan.id}${dueLabel ? `（${dueLabel}）` : ''}, 惩罚至: ${new Date(penaltyUntil).toLocaleString()}, 自动扣款: $${(autoDeductedAmount / 500000).toFixed(2)}, 已强制退出高级场和至尊场`);
+
+    // 🏆 逾期成就
+    try {
+        const { checkAndUnlockAchievement } = await import('./achievement');
+        await checkAndUnlockAchievement(loan.linux_do_id, 'kunbei_overdue');
+    } catch (achievementError) {
+        logger.error('成就系统', `检查逾期成就时出错: ${achievementError}`);
+    }
+
+    return true;
+}
+
+async function processOverdueLoanBatch(loans: UserLoan[], config: KunbeiConfig): Promise<number> {
+    let processed = 0;
+    for (const loan of loans) {
+        try {
+            if (await processOverdueLoan(loan, config)) {
+                processed++;
             }
+        } catch (error: any) {
+            logger.error('坤呗逾期', `处理借款 #${loan.id} 失败，认领超时后重试: ${error.message}`);
         }
     }
+    return processed;
+}
+
+/**
+ * 批量处理所有逾期借款（由定时任务调用），返回本次处理的笔数
+ */
+export async function checkOverdueLoans(): Promise<number> {
+    const config = getKunbeiConfig();
+    let overdueCount = 0;
+
+    for (let batch = 0; batch < OVERDUE_MAX_BATCHES; batch++) {
+        const now = Date.now();
+        const loans = kunbeiQueries.getDueActiveLoans.all(now, now - OVERDUE_CLAIM_TIMEOUT, OVERDUE_BATCH_SIZE);
+        if (loans.length === 0) break;
+
+        overdueCount += await processOverdueLoanBatch(loans, config);
+        if (loans.length < OVERDUE_BATCH_SIZE) break;
+    }
 
     if (overdueCount > 0) {
         logger.info('坤呗', `本次检查处理了 ${overdueCount} 笔逾期借款，已强制退出相关场次`);
@@ -630,6 +898,26 @@ export async function checkOverdueLoans(): Promise<number> {
     return overdueCount;
 }
 
+/**
+ * 检查单个用户是否有已到期未处理的借款（索引查询，供游戏等高频接口使用）
+ */
+export function hasUnprocessedOverdueLoan(linuxDoId: string): boolean {
+    return !!kunbeiQueries.hasDueActiveLoan.get(linuxDoId, Date.now());
+}
+
+/**
+ * 处理单个用户的逾期借款（无到期借款时不访问上游），返回处理笔数
+ */
+export async function checkUserOverdueLoans(linuxDoId: string): Promise<number> {
+    if (!hasUnprocessedOverdueLoan(linuxDoId)) {
+        return 0;
+    }
+
+    const now = Date.now();
+    const loans = kunbeiQueries.getUserDueActiveLoans.all(linuxDoId, now, now - OVERDUE_CLAIM_TIMEOUT);
+    return processOverdueLoanBatch(loans, getKunbeiConfig());
+}
+
 /**
  * 检查用户是否被逾期惩罚禁止进入高级场
  */
@@ -702,24 +990,36 @@ export function forgiveLoan(loanId: number): { success: boolean; message: string
 
     const now = Date.now();
 
-    // 标记为已还款（豁免）
-    kunbeiQueries.updateLoanStatus.run(
-        'repaid',
-        0,  // 豁免，实际还款为0
-        now,
-        null,
-        now,
-        loanId
-    );
+    // 标记为已还款（豁免），未还清的分期标记为已豁免，已部分还款的金额保留
+    const remaining = kunbeiQueries.getInstallments.all(loanId)
+        .filter(installment => installment.status === 'pending' || installment.status === 'overdue')
+        .reduce((sum, installment) => ({
+            fee: sum.fee + installment.fee_due - installment.fee_paid,
+            principal: sum.principal + installment.principal_due - installment.principal_paid
+        }), { fee: 0, principal: 0 });
+
+    db.transaction(() => {
+        kunbeiQueries.updateLoanStatus.run(
+            'repaid',
+            loan.actual_repay_amount ?? 0,  // 豁免部分不计入实际还款
+            now,
+            null,
+            now,
+            loanId
+        );
+        kunbeiQueries.waiveInstallments.run(now, loanId);
+        kunbeiQueries.insertRepayment.run(loanId, loan.linux_do_id, 'forgive', 0, 0, remaining.fee, remaining.principal, 0, now);
+    })();
 
     // 更新统计（不计入还款金额，但计入还款次数）
     const stats = kunbeiQueries.getStats.get(loan.linux_do_id);
     const { getTodayDate } = require('./slot');
     const today = getTodayDate();
+    const currentScore = stats?.credit_score ?? getCreditScore(loan.linux_do_id);
 
     kunbeiQueries.upsertStats.run(
         loan.linux_do_id, 0, 0, 0, 1, 0,
-        stats?.credit_score || 100, 0,
+        currentScore, 0,
         stats?.last_borrow_date || null,    // last_borrow_date
         0,                                   // has_daily_buff
         2.5,                                 // buff_multiplier  
@@ -727,7 +1027,7 @@ export function forgiveLoan(loanId: number): { success: boolean; message: string
         now,
         // ON CONFLICT 部分
         0, 0, 0, 1, 0,
-        stats?.credit_score || 100,
+        currentScore,
         stats?.last_borrow_date || null,
         0,
         2.5,
@@ -735,6 +1035,8 @@ export function forgiveLoan(loanId: number): { success: boolean; message: string
         now
     );
 
+    recalculateCreditScore(loan.linux_do_id, 'forgive', loanId);
+
     logger.info('坤呗', `管理员豁免借款 - 用户: ${loan.username}, 借款ID: ${loanId}`);
 
     return { success: true, message: '已豁免该笔借款' };
@@ -742,8 +1044,9 @@ export function forgiveLoan(loanId: number): { success: boolean; message: string
 
 /**
  * 获取并使用坤呗buff
+ * @param slotMode 使用buff的场次（用于匹配坤呗buff限时活动），活动倍数高于原倍率时按活动倍数生效
  */
-export function getAndUseBuff(linuxDoId: string): number {
+export function getAndUseBuff(linuxDoId: string, slotMode?: EventSlotMode): number {
     const stats = kunbeiQueries.checkBuff.get(linuxDoId);
 
     if (stats && stats.has_daily_buff === 1 && stats.buff_used === 0) {
@@ -751,6 +1054,12 @@ export function getAndUseBuff(linuxDoId: string): number {
         const now = Date.now();
         kunbeiQueries.useBuff.run(now, linuxDoId);
 
+        const buffEvent = slotMode ? getActiveEventEffect(slotMode, 'kunbei_buff') : null;
+        if (buffEvent && buffEvent.effect_value > stats.buff_multiplier) {
+            logger.info('坤呗Buff', `用户 ${linuxDoId} 使用坤呗buff×${buffEvent.effect_value}（活动「${buffEvent.name}」，原倍率×${stats.buff_multiplier}）`);
+            return buffEvent.effect_value;
+        }
+
         logger.info('坤呗Buff', `用户 ${linuxDoId} 使用坤呗buff×${stats.buff_multiplier}`);
         return stats.buff_multiplier;
     }
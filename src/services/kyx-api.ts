@@ -1,14 +1,18 @@
 import { CONFIG } from '../config';
 import { kyxApiLimiter } from './rate-limiter';
+import { CircuitBreaker, getUpstreamBreaker, UPSTREAM_UNAVAILABLE, UPSTREAM_UNAVAILABLE_MESSAGE } from './circuit-breaker';
 import { userCache } from './user-cache';
 import { searchCache } from './search-cache';
 import { userQueries, adminQueries } from '../database';
 import logger from '../utils/logger';
 
 /**
- * 获取当前生效的 KYX API Base（优先使用管理端配置）
+ * 获取当前生效的 KYX API Base（配置了本地模拟上游时始终使用模拟服务，否则优先使用管理端配置）
  */
 function getKyxApiBase(): string {
+    if (CONFIG.MOCK_UPSTREAM_URL) {
+        return CONFIG.MOCK_UPSTREAM_URL;
+    }
     try {
         const adminConfig = adminQueries.get.get();
         const value = (adminConfig as any)?.new_api_base as string | undefined;
@@ -45,11 +49,37 @@ export interface KyxUser {
 export interface SearchResult {
     success: boolean;
     message?: string;
+    errorCode?: string;  // 上游熔断时为 UPSTREAM_UNAVAILABLE
     user: KyxUser | null;
 }
 
+/**
+ * 经熔断器发起上游请求，记录耗时与结果
+ */
+async function fetchUpstream(breaker: CircuitBreaker, url: string, init: RequestInit): Promise<Response> {
+    const startedAt = Date.now();
+    try {
+        const response = await fetch(url, init);
+        breaker.recordResponse(response.status, Date.now() - startedAt);
+        return response;
+    } catch (error: any) {
+        const isTimeout = error.name === 'TimeoutError' || error.name === 'AbortError';
+        breaker.recordFailure(isTimeout ? '请求超时' : error.message || '未知错误', Date.now() - startedAt);
+        throw error;
+    }
+}
+
+/**
+ * 熔断中的快速失败结果
+ */
+function upstreamUnavailable(breaker: CircuitBreaker) {
+    logger.debug('熔断器', `⛔ ${breaker.label} 熔断中，快速失败`);
+    return { success: false as const, message: UPSTREAM_UNAVAILABLE_MESSAGE, errorCode: UPSTREAM_UNAVAILABLE, httpStatus: 503 };
+}
+
 /**
  * 搜索公益站用户（带缓存、限流和错误处理）
+ * baseUrl 为空时请求主站；指定其他上游地址时不使用缓存（缓存按主站用户 ID 存储）
  */
 export async function searchKyxUser(
     username: string,
@@ -57,27 +87,36 @@ export async function searchKyxUser(
     newApiUser: string = '1',
     page: number = 1,
     pageSize: number = 100,
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    baseUrl?: string
 ): Promise<any> {
     const context = `[搜索用户] 关键词: ${username}, 页码: ${page}`;
 
     // 先尝试从缓存获取
-    const cachedResult = searchCache.get(username, page);
+    const cachedResult = baseUrl ? null : searchCache.get(username, page);
     if (cachedResult) {
         logger.debug(context, '✨ 命中搜索缓存');
         return cachedResult;
     }
 
+    const breaker = getUpstreamBreaker('search', baseUrl);
+    if (!breaker.tryAcquire()) {
+        return upstreamUnavailable(breaker);
+    }
+
     return await kyxApiLimiter.execute(async () => {
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            if (attempt > 1 && breaker.isOpen()) {
+                return upstreamUnavailable(breaker);
+            }
             try {
                 if (attempt > 1) {
                     logger.debug(context, `第${attempt}次尝试`);
                 }
 
-                const url = `${getKyxApiBase()}/api/user/search?keyword=${encodeURIComponent(username)}&p=${page}&page_size=${pageSize}`;
+                const url = `${baseUrl || getKyxApiBase()}/api/user/search?keyword=${encodeURIComponent(username)}&p=${page}&page_size=${pageSize}`;
 
-                const response = await fetch(url, {
+                const response = await fetchUpstream(breaker, url, {
                     headers: {
                         Cookie: `session=${session}`,
                         'new-api-user': newApiUser,
@@ -121,7 +160,9 @@ export async function searchKyxUser(
                 const result = await response.json();
 
                 // 成功后存入缓存
-                searchCache.set(username, page, result);
+                if (!baseUrl) {
+                    searchCache.set(username, page, result);
+                }
                 logger.debug(context, '✅ 搜索成功并缓存');
 
                 return result;
@@ -191,16 +232,17 @@ export async function searchAndFindExactUser(
     username: string,
     session: string,
     newApiUser: string = '1',
-    context: string = '操作'
+    context: string = '操作',
+    baseUrl?: string
 ): Promise<SearchResult> {
     logger.info(context, `🔍 搜索用户: ${username}`);
 
     // 第一次搜索，使用默认分页
-    let searchResult = await searchKyxUser(username, session, newApiUser, 1, 100);
+    let searchResult = await searchKyxUser(username, session, newApiUser, 1, 100, 3, baseUrl);
 
     if (!searchResult.success) {
         logger.error(context, `❌ 搜索失败: ${searchResult.message}`);
-        return { success: false, message: searchResult.message, user: null };
+        return { success: false, message: searchResult.message, errorCode: searchResult.errorCode, user: null };
     }
 
     // 尝试在第一页中查找精确匹配
@@ -231,10 +273,15 @@ export async function searchAndFindExactUser(
             session,
             newApiUser,
             page,
-            pageSize
+            pageSize,
+            3,
+            baseUrl
         );
 
         if (!searchResult.success) {
+            if (searchResult.errorCode === UPSTREAM_UNAVAILABLE) {
+                return { success: false, message: searchResult.message, errorCode: searchResult.errorCode, user: null };
+            }
             continue;
         }
 
@@ -263,12 +310,13 @@ export async function getKyxUserById(
     session: string,
     newApiUser: string = '1',
     maxRetries: number = 3,
-    skipCache: boolean = false // 是否跳过缓存（需要最新数据时使用）
+    skipCache: boolean = false, // 是否跳过缓存（需要最新数据时使用）
+    baseUrl?: string // 其他上游地址（不使用缓存），为空时请求主站
 ): Promise<SearchResult> {
     const context = `[查询用户] 用户ID: ${userId}`;
 
     // 先尝试从缓存获取（除非明确跳过）
-    if (!skipCache) {
+    if (!skipCache && !baseUrl) {
         const cachedUser = userCache.get(userId);
         if (cachedUser) {
             logger.debug('查询用户', `用户ID: ${userId} - ✨ 命中缓存`);
@@ -276,8 +324,16 @@ export async function getKyxUserById(
         }
     }
 
+    const breaker = getUpstreamBreaker('get_user', baseUrl);
+    if (!breaker.tryAcquire()) {
+        return { ...upstreamUnavailable(breaker), user: null };
+    }
+
     return await kyxApiLimiter.execute(async () => {
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            if (attempt > 1 && breaker.isOpen()) {
+                return { ...upstreamUnavailable(breaker), user: null };
+            }
             try {
                 // 第1次尝试是正常情况，改为DEBUG；第2+次说明有重试，保留INFO
                 if (attempt === 1) {
@@ -286,7 +342,7 @@ export async function getKyxUserById(
                     logger.info('查询用户', `用户ID: ${userId} - 第${attempt}次尝试（重试中）`);
                 }
 
-                const response = await fetch(`${getKyxApiBase()}/api/user/${userId}`, {
+                const response = await fetchUpstream(breaker, `${baseUrl || getKyxApiBase()}/api/user/${userId}`, {
                     headers: {
                         Cookie: `session=${session}`,
                         'new-api-user': newApiUser,
@@ -339,9 +395,13 @@ export async function getKyxUserById(
                     return { success: false, message: result.message || '查询失败', user: null };
                 }
 
-                // 成功后存入缓存
-                userCache.set(userId, result.data);
-                logger.info('查询用户', `用户ID: ${userId} - ✅ 查询成功并缓存`);
+                // 成功后存入缓存（仅主站）
+                if (!baseUrl) {
+                    userCache.set(userId, result.data);
+                    logger.info('查询用户', `用户ID: ${userId} - ✅ 查询成功并缓存`);
+                } else {
+                    logger.info('查询用户', `用户ID: ${userId} (${baseUrl}) - ✅ 查询成功`);
+                }
 
                 return { success: true, user: result.data };
             } catch (error: any) {
@@ -369,6 +429,7 @@ export async function getKyxUserById(
 
 /**
  * 更新用户额度（带限流、重试和详细日志）
+ * 直接设置绝对额度；业务上的增减请使用 quota-queue，避免并发读-改-写互相覆盖
  */
 export async function updateKyxUserQuota(
     userId: number,
@@ -377,13 +438,23 @@ export async function updateKyxUserQuota(
     newApiUser: string = '1',
     username: string = '',
     group: string = 'default',
-    maxRetries: number = 3
+    maxRetries: number = 3,
+    baseUrl?: string // 其他上游地址，为空时请求主站
 ): Promise<any> {
     const context = `[更新额度] 用户ID: ${userId}, 目标额度: ${newQuota}, 用户名: ${username}`;
 
+    const breaker = getUpstreamBreaker('update_quota', baseUrl);
+    if (!breaker.tryAcquire()) {
+        return upstreamUnavailable(breaker);
+    }
+
     // 使用限流器执行请求
     return await kyxApiLimiter.execute(async () => {
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            // 熔断后不再重试（之前的尝试可能已生效，调用方需回读确认）
+            if (attempt > 1 && breaker.isOpen()) {
+                return upstreamUnavailable(breaker);
+            }
             try {
                 // 第1次尝试是正常情况，改为DEBUG；第2+次说明有重试，保留INFO
                 if (attempt === 1) {
@@ -392,7 +463,7 @@ export async function updateKyxUserQuota(
                     logger.info('更新额度', `用户ID: ${userId}, 目标额度: ${newQuota}, 用户名: ${username} - 第${attempt}次尝试（重试中）`);
                 }
 
-                const response = await fetch(`${getKyxApiBase()}/api/user/`, {
+                const response = await fetchUpstream(breaker, `${baseUrl || getKyxApiBase()}/api/user/`, {
                     method: 'PUT',
                     headers: {
                         'Content-Type': 'application/json',
@@ -445,7 +516,9 @@ export async function updateKyxUserQuota(
                 // 验证返回结果
                 if (result.success) {
                     // 更新成功后，同步更新缓存
-                    userCache.updateQuota(userId, newQuota);
+                    if (!baseUrl) {
+                        userCache.updateQuota(userId, newQuota);
+                    }
                     // 第1次尝试成功是正常情况，改为DEBUG；重试后成功保留INFO
                     if (attempt === 1) {
                         logger.debug('更新额度', `用户ID: ${userId}, 目标额度: ${newQuota}, 用户名: ${username} - ✅ 成功更新额度并同步缓存`);
@@ -501,18 +574,27 @@ export async function pushKeysToGroup(
     authorization: string,
     groupId: number,
     maxRetries: number = 3
-): Promise<{ success: boolean; message?: string; failedKeys?: string[] }> {
+): Promise<{ success: boolean; message?: string; errorCode?: string; failedKeys?: string[] }> {
     const context = `[推送Keys] 数量: ${keys.length}, 分组: ${groupId}`;
+    const pushUrl = CONFIG.MOCK_UPSTREAM_URL ? `${CONFIG.MOCK_UPSTREAM_URL}/api/keys/add-async` : apiUrl;
+
+    const breaker = getUpstreamBreaker('push_keys');
+    if (!breaker.tryAcquire()) {
+        return { ...upstreamUnavailable(breaker), failedKeys: keys };
+    }
 
     return await kyxApiLimiter.execute(async () => {
         for (let attempt = 1; attempt <= maxRetries; attempt++) {
+            if (attempt > 1 && breaker.isOpen()) {
+                return { ...upstreamUnavailable(breaker), failedKeys: keys };
+            }
             try {
                 if (attempt > 1) {
                     logger.debug(context, `第${attempt}次尝试`);
                 }
 
                 const keysText = keys.join('\n');
-                const response = await fetch(apiUrl, {
+                const response = await fetchUpstream(breaker, pushUrl, {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
@@ -618,110 +700,3 @@ export function getUserQuota(linuxDoId: string): number {
         return 0;
     }
 }
-
-/**
- * 增加用户额度（辅助函数，带增强重试机制）
- */
-export async function addQuota(
-    userId: number,
-    amount: number,
-    session: string,
-    newApiUser: string = '1',
-    context: string = '增加额度',
-    maxRetries: number = 5  // 增加到5次重试（针对贷款等关键操作）
-): Promise<any> {
-    try {
-        // 先获取用户当前信息（带重试）
-        const userResult = await getKyxUserById(userId, session, newApiUser, maxRetries);
-        if (!userResult.success || !userResult.user) {
-            logger.error(context, `❌ 获取用户信息失败 - 用户ID: ${userId}`);
-            return {
-                success: false,
-                message: '获取用户信息失败，请稍后重试'
-            };
-        }
-
-        const currentQuota = userResult.user.quota || 0;
-        const newQuota = currentQuota + amount;
-
-        logger.info(context, `💰 准备增加额度 - 用户ID: ${userId}, 当前: $${(currentQuota / 500000).toFixed(2)}, 增加: $${(amount / 500000).toFixed(2)}, 新额度: $${(newQuota / 500000).toFixed(2)}`);
-
-        // 更新额度（带增强重试）
-        const updateResult = await updateKyxUserQuota(
-            userId,
-            newQuota,
-            session,
-            newApiUser,
-            userResult.user.username,
-            userResult.user.group || 'default',
-            maxRetries  // 使用增强的重试次数
-        );
-
-        if (updateResult.success) {
-            logger.info(context, `✅ 额度增加成功 - 用户ID: ${userId}, 新额度: $${(newQuota / 500000).toFixed(2)}`);
-        } else {
-            logger.error(context, `❌ 额度增加失败 - 用户ID: ${userId}, 错误: ${updateResult.message}`);
-        }
-
-        return updateResult;
-    } catch (error: any) {
-        logger.error(context, `❌ 增加额度异常 - 用户ID: ${userId}, 错误: ${error.message}`);
-        return {
-            success: false,
-            message: `增加额度失败: ${error.message || '未知错误'}`
-        };
-    }
-}
-
-/**
- * 扣除用户额度（辅助函数）
- */
-export async function deductQuota(
-    userId: number,
-    amount: number,
-    session: string,
-    newApiUser: string = '1',
-    context: string = '扣除额度'
-): Promise<any> {
-    try {
-        // 先获取用户当前信息
-        const userResult = await getKyxUserById(userId, session, newApiUser);
-        if (!userResult.success || !userResult.user) {
-            return {
-                success: false,
-                message: '获取用户信息失败'
-            };
-        }
-
-        const currentQuota = userResult.user.quota || 0;
-
-        // 检查额度是否足够
-        if (currentQuota < amount) {
-            return {
-                success: false,
-                message: `额度不足: 当前额度 ${currentQuota}, 需要 ${amount}`
-            };
-        }
-
-        const newQuota = currentQuota - amount;
-
-        logger.info(context, `用户ID: ${userId}, 当前额度: ${currentQuota}, 扣除: ${amount}, 新额度: ${newQuota}`);
-
-        // 更新额度
-        return await updateKyxUserQuota(
-            userId,
-            newQuota,
-            session,
-            newApiUser,
-            userResult.user.username,
-            userResult.user.group || 'default'
-        );
-    } catch (error: any) {
-        logger.error(context, `扣除额度失败: ${error}`);
-        return {
-            success: false,
-            message: `扣除额度失败: ${error.message}`
-        };
-    }
-}
-
@@ -0,0 +1,178 @@
+/**
+ * 复式记账服务
+ * 所有余额变动（本地钱包、上游额度）都在此记账，每笔交易借贷相等
+ *
+ * 账户约定（余额 = 贷方 - 借方）：
+ * - wallet:<linux_do_id>    用户本地钱包
+ * - upstream:<linux_do_id>  用户在公益站（上游）的额度
+ * - house:*                 系统账户（老虎机奖池、坤呗放款、奖励发放等）
+ * - equity:opening          期初余额（上线记账前已存在的钱包余额）
+ */
+
+import { db, ledgerQueries } from '../database';
+import type { LedgerReason } from '../types';
+import logger from '../utils/logger';
+
+export const LedgerAccounts = {
+    wallet: (linuxDoId: string) => `wallet:${linuxDoId}`,
+    upstream: (linuxDoId: string) => `upstream:${linuxDoId}`,
+    HOUSE_SLOT: 'house:slot',          // 初级场/高级场
+    HOUSE_SUPREME: 'house:supreme',    // 至尊场
+    HOUSE_KUNBEI: 'house:kunbei',      // 坤呗放款
+    HOUSE_REWARDS: 'house:rewards',    // 成就奖励、领取、投喂等发放
+    HOUSE_PROMO: 'house:promo',        // 钱包初始赠送
+    HOUSE_FEES: 'house:fees',          // 手续费（钱包赠送）
+    OPENING: 'equity:opening',
+} as const;
+
+export type { LedgerEntry, LedgerReason } from '../types';
+
+export interface PostTransferParams {
+    reason: LedgerReason;
+    linuxDoId: string;
+    creditLinuxDoId?: string; // 贷方分录所属用户（用户之间转账时为收款方），默认同 linuxDoId
+    debitAccount: string;   // 资金流出方
+    creditAccount: string;  // 资金流入方
+    amount: number;
+    refId?: string | number | null;
+    memo?: string | null;
+}
+
+/**
+ * 记一笔转账（一借一贷）
+ * 记账失败直接抛出，调用方应与余额变动放在同一事务内，使两者同时提交或回滚
+ * 返回交易ID（金额为0时返回 null）
+ */
+export function postTransfer(params: PostTransferParams): string | null {
+    const amount = Math.floor(params.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return null;
+
+    const txnId = crypto.randomUUID();
+    const now = Date.now();
+    const refId = params.refId === undefined || params.refId === null ? null : String(params.refId);
+    const memo = params.memo || null;
+
+    // 在已有事务中会自动使用 SAVEPOINT
+    db.transaction(() => {
+        ledgerQueries.insert.run(txnId, params.debitAccount, params.linuxDoId, amount, 0, params.reason, refId, memo, now);
+        ledgerQueries.insert.run(txnId, params.creditAccount, params.creditLinuxDoId ?? params.linuxDoId, 0, amount, params.reason, refId, memo, now);
+    })();
+    return txnId;
+}
+
+/**
+ * 上游额度变动已在公益站生效、无法随本地事务回滚，记账失败只记录日志
+ */
+function postUpstreamTransfer(params: PostTransferParams): string | null {
+    try {
+        return postTransfer(params);
+    } catch (error: any) {
+        logger.error('记账', `❌ 记账失败 - 用户: ${params.linuxDoId}, 原因: ${params.reason}, 金额: ${params.amount}, 错误: ${error.message}`);
+        return null;
+    }
+}
+
+/**
+ * 钱包入账（系统账户 → 用户钱包）
+ */
+export function postWalletCredit(linuxDoId: string, amount: number, reason: LedgerReason, fromAccount: string, refId?: string | number | null, memo?: string | null): string | null {
+    return postTransfer({ reason, linuxDoId, debitAccount: fromAccount, creditAccount: LedgerAccounts.wallet(linuxDoId), amount, refId, memo });
+}
+
+/**
+ * 钱包出账（用户钱包 → 系统账户）
+ */
+export function postWalletDebit(linuxDoId: string, amount: number, reason: LedgerReason, toAccount: string, refId?: string | number | null, memo?: string | null): string | null {
+    return postTransfer({ reason, linuxDoId, debitAccount: LedgerAccounts.wallet(linuxDoId), creditAccount: toAccount, amount, refId, memo });
+}
+
+/**
+ * 上游额度入账（系统账户 → 用户上游额度）
+ */
+export function postUpstreamCredit(linuxDoId: string, amount: number, reason: LedgerReason, fromAccount: string, refId?: string | number | null, memo?: string | null): string | null {
+    return postUpstreamTransfer({ reason, linuxDoId, debitAccount: fromAccount, creditAccount: LedgerAccounts.upstream(linuxDoId), amount, refId, memo });
+}
+
+/**
+ * 上游额度出账（用户上游额度 → 系统账户）
+ */
+export function postUpstreamDebit(linuxDoId: string, amount: number, reason: LedgerReason, toAccount: string, refId?: string | number | null, memo?: string | null): string | null {
+    return postUpstreamTransfer({ reason, linuxDoId, debitAccount: LedgerAccounts.upstream(linuxDoId), creditAccount: toAccount, amount, refId, memo });
+}
+
+/**
+ * 为尚无分录的钱包补录期初余额
+ * 上线记账前已存在的钱包余额记为 equity:opening → wallet
+ */
+export function backfillOpeningBalances(): number {
+    try {
+        const wallets = ledgerQueries.getWalletsWithoutLedger.all();
+        let count = 0;
+        for (const w of wallets) {
+            if ((w.balance_quota || 0) <= 0) continue;
+            try {
+                if (postWalletCredit(w.linux_do_id, w.balance_quota, 'opening_balance', LedgerAccounts.OPENING)) {
+                    count++;
+                }
+            } catch (error: any) {
+                logger.error('记账', `❌ 补录期初余额失败 - 用户: ${w.linux_do_id}, 错误: ${error.message}`);
+            }
+        }
+        if (count > 0) {
+            logger.info('记账', `✅ 已补录 ${count} 个钱包的期初余额`);
+        }
+        return count;
+    } catch (error: any) {
+        logger.error('记账', `❌ 补录期初余额失败: ${error.message}`);
+        return 0;
+    }
+}
+
+/**
+ * 获取用户分录（分页）
+ */
+export function getUserLedger(linuxDoId: string, limit: number = 50, offset: number = 0) {
+    const entries = ledgerQueries.getByUser.all(linuxDoId, limit, offset);
+    const total = ledgerQueries.getCountByUser.get(linuxDoId)?.total || 0;
+    const walletBalance = ledgerQueries.getAccountBalance.get(LedgerAccounts.wallet(linuxDoId))?.balance || 0;
+    const upstreamBalance = ledgerQueries.getAccountBalance.get(LedgerAccounts.upstream(linuxDoId))?.balance || 0;
+    const summary = ledgerQueries.getUserAccountSummary.all(linuxDoId);
+
+    return {
+        entries,
+        total,
+        balances: {
+            wallet: walletBalance,
+            // 上游仅统计经本系统发生的变动，不等于上游实际余额
+            upstream_net: upstreamBalance,
+        },
+        summary,
+    };
+}
+
+/**
+ * 一致性检查
+ * 1. 每个钱包的账本余额应等于 user_wallets.balance_quota
+ * 2. 每笔交易借贷相等，总借方 = 总贷方
+ */
+export function checkLedgerConsistency() {
+    const mismatches = ledgerQueries.getWalletMismatches.all();
+    const unbalancedTxns = ledgerQueries.getUnbalancedTxns.all();
+    const totals = ledgerQueries.getTotals.get() || { total_debit: 0, total_credit: 0, entries: 0, txns: 0 };
+    const walletCount = ledgerQueries.countWallets.get()?.total ?? 0;
+
+    const consistent = mismatches.length === 0 && unbalancedTxns.length === 0 && totals.total_debit === totals.total_credit;
+
+    if (!consistent) {
+        logger.warn('记账', `⚠️ 一致性检查未通过 - 钱包不一致: ${mismatches.length}, 不平交易: ${unbalancedTxns.length}`);
+    }
+
+    return {
+        consistent,
+        checked_wallets: walletCount,
+        totals,
+        wallet_mismatches: mismatches,
+        unbalanced_txns: unbalancedTxns,
+        checked_at: Date.now(),
+    };
+}
@@ -1,19 +1,25 @@
 /**
  * 概率计算器
- * 提供快速估算和蒙特卡洛模拟两种计算方式
+ * 提供快速估算、蒙特卡洛模拟和精确枚举三种计算方式
  */
 
 import { rewardConfigQueries, weightConfigQueries } from '../database';
 import logger from '../utils/logger';
+import { drawSymbols, getRng, type Rng, type WeightedEntries } from './rng';
+import { calculateWinByRules, type SchemeRules } from './reward-calculator';
 
 // 符号列表
 const SYMBOLS = ['m', 't', 'n', 'j', 'lq', 'bj', 'zft', 'bdk', 'lsh', 'man'];
+const REEL_COUNT = 4;
+
+export type ProbabilityMethod = 'fast' | 'monte-carlo' | 'exact';
 
 // 🔥 概率计算结果缓存（内存缓存）
 interface CacheKey {
     weightConfigId: number;
     rewardSchemeId: number;
-    method: 'fast' | 'monte-carlo';
+    method: ProbabilityMethod;
+    strictConsecutive?: boolean;  // 仅精确枚举区分严格连续判定
 }
 
 interface CacheEntry {
@@ -28,15 +34,15 @@ const probabilityCache = new Map<string, CacheEntry>();
 /**
  * 生成缓存键
  */
-function getCacheKey(weightConfigId: number, rewardSchemeId: number, method: 'fast' | 'monte-carlo'): string {
-    return `${weightConfigId}-${rewardSchemeId}-${method}`;
+function getCacheKey(weightConfigId: number, rewardSchemeId: number, method: ProbabilityMethod, strictConsecutive: boolean = false): string {
+    return `${weightConfigId}-${rewardSchemeId}-${method}${strictConsecutive ? '-strict' : ''}`;
 }
 
 /**
  * 从缓存获取结果（永久缓存，不检查过期时间）
  */
-export function getFromCache(weightConfigId: number, rewardSchemeId: number, method: 'fast' | 'monte-carlo'): ProbabilityResult | null {
-    const key = getCacheKey(weightConfigId, rewardSchemeId, method);
+export function getFromCache(weightConfigId: number, rewardSchemeId: number, method: ProbabilityMethod, strictConsecutive: boolean = false): ProbabilityResult | null {
+    const key = getCacheKey(weightConfigId, rewardSchemeId, method, strictConsecutive);
     const entry = probabilityCache.get(key);
 
     if (!entry) {
@@ -51,8 +57,8 @@ export function getFromCache(weightConfigId: number, rewardSchemeId: number, met
 /**
  * 保存结果到缓存
  */
-function saveToCache(weightConfigId: number, rewardSchemeId: number, method: 'fast' | 'monte-carlo', result: ProbabilityResult): void {
-    const key = getCacheKey(weightConfigId, rewardSchemeId, method);
+function saveToCache(weightConfigId: number, rewardSchemeId: number, method: ProbabilityMethod, result: ProbabilityResult, strictConsecutive: boolean = false): void {
+    const key = getCacheKey(weightConfigId, rewardSchemeId, method, strictConsecutive);
     probabilityCache.set(key, {
         result,
         timestamp: Date.now()
@@ -80,10 +86,28 @@ export function clearAllCache(): void {
     logger.info('缓存清理', `已清除所有缓存（共${oldSize}个方案）`);
 }
 
+/**
+ * 清除指定权重配置或奖励方案相关的概率缓存（配置回滚后调用），返回清除数量
+ */
+export function invalidateProbabilityCache(filter: { weightConfigId?: number; rewardSchemeId?: number }): number {
+    let removed = 0;
+    for (const key of [...probabilityCache.keys()]) {
+        const [weightConfigId, rewardSchemeId] = key.split('-').map(Number);
+        if (weightConfigId === filter.weightConfigId || rewardSchemeId === filter.rewardSchemeId) {
+            probabilityCache.delete(key);
+            removed++;
+        }
+    }
+    if (removed > 0) {
+        logger.info('缓存清理', `已清除 ${removed} 个概率缓存（权重${filter.weightConfigId ?? '-'} 方案${filter.rewardSchemeId ?? '-'}）`);
+    }
+    return removed;
+}
+
 /**
  * 权重配置接口
  */
-interface WeightConfig {
+export interface WeightConfig {
     weight_m: number;
     weight_t: number;
     weight_n: number;
@@ -104,7 +128,17 @@ export interface RuleProbability {
     multiplier: number;
     probability: number;  // 0-100
     expectedValue: number;  // 期望值
-    count?: number;  // 出现次数（蒙特卡洛）
+    count?: number;  // 出现次数（蒙特卡洛）/ 对应的结果组合数（精确枚举）
+}
+
+/**
+ * 最大赔付（精确枚举）
+ */
+export interface MaxExposure {
+    ruleName: string;
+    multiplier: number;
+    probability: number;  // 0-100，达到该倍率的所有组合概率之和
+    symbols: string[];  // 示例组合
 }
 
 /**
@@ -117,15 +151,56 @@ export interface ProbabilityResult {
     rtp: number;  // 玩家回报率 (%)
     houseEdge: number;  // 庄家优势 (%)
     totalExpectedValue: number;  // 总期望值
-    method: 'fast' | 'monte-carlo';
+    method: ProbabilityMethod;
     simulationCount?: number;
     calculationTime: number;  // 计算耗时(ms)
+    variance: number;  // 单次倍率的方差（以投注额为单位）
+    standardDeviation: number;  // 单次倍率的标准差
+    hitFrequency: number;  // 中奖（倍率 > 0）概率 (%)
+    // 以下仅精确枚举提供
+    outcomeCount?: number;  // 枚举的组合数（权重为 0 的符号不参与）
+    strictConsecutive?: boolean;  // 是否按严格连续判定（高级场）
+    maxExposure?: MaxExposure;
+}
+
+/**
+ * 资金风险模拟参数（金额单位为 quota）
+ */
+export interface BankrollOptions {
+    bankroll: number;  // 初始资金
+    bet: number;  // 每次投注额
+    spins: number;  // 每局最多旋转次数
+    sessions?: number;  // 模拟局数
 }
 
 /**
- * 根据权重生成一个符号
+ * 波动与资金风险指标
  */
-function generateSymbolByWeight(weightConfig: WeightConfig): string {
+export interface VolatilityMetrics {
+    standardDeviation: number;  // 单次倍率标准差
+    hitFrequency: number;  // 中奖频率 (%)
+    bankroll: number;
+    bet: number;
+    spins: number;
+    sessions: number;
+    ruinProbability: number;  // N 次内资金不足以继续投注的概率 (%)
+    averageSpinsPlayed: number;  // 破产前平均旋转次数
+    expectedNet: number;  // 不考虑破产时 N 次的期望盈亏
+    meanNet: number;  // 模拟的平均盈亏
+    percentiles: Record<'p1' | 'p5' | 'p10' | 'p25' | 'p50' | 'p75' | 'p90' | 'p95' | 'p99', number>;  // 每局盈亏分位数
+    worst: number;
+    best: number;
+}
+
+export type SlotVenue = 'normal' | 'advanced' | 'supreme';
+
+const SESSION_PERCENTILES = [1, 5, 10, 25, 50, 75, 90, 95, 99] as const;
+const MAX_SIMULATED_SPINS = 5000000; // 资金模拟的总旋转次数上限（局数 × 每局次数）
+
+/**
+ * 权重配置转为有序加权条目（与 SYMBOLS 顺序一致）
+ */
+function toWeightedSymbols(weightConfig: WeightConfig): WeightedEntries {
     const weights = [
         weightConfig.weight_m,
         weightConfig.weight_t,
@@ -139,30 +214,30 @@ function generateSymbolByWeight(weightConfig: WeightConfig): string {
         weightConfig.weight_man || 25  // 兼容旧配置
     ];
 
-    const totalWeight = weights.reduce((a, b) => a + b, 0);
-    const random = Math.random() * totalWeight;
+    return SYMBOLS.map((symbol, i) => [symbol, weights[i]] as [string, number]);
+}
 
-    let cumulative = 0;
-    for (let i = 0; i < SYMBOLS.length; i++) {
-        cumulative += weights[i];
-        if (random < cumulative) {
-            return SYMBOLS[i];
+/**
+ * 根据各规则的概率计算单次倍率的方差与中奖频率
+ */
+function summarizeDistribution(items: RuleProbability[], expectedValue: number): Pick<ProbabilityResult, 'variance' | 'standardDeviation' | 'hitFrequency'> {
+    let expectedSquare = 0;
+    let hitFrequency = 0;
+    for (const item of items) {
+        expectedSquare += (item.probability / 100) * item.multiplier * item.multiplier;
+        if (item.multiplier > 0) {
+            hitFrequency += item.probability;
         }
     }
-
-    return SYMBOLS[0];  // fallback
+    const variance = Math.max(0, expectedSquare - expectedValue * expectedValue);
+    return { variance, standardDeviation: Math.sqrt(variance), hitFrequency };
 }
 
 /**
  * 生成4个符号
  */
-function generateSymbols(weightConfig: WeightConfig): string[] {
-    return [
-        generateSymbolByWeight(weightConfig),
-        generateSymbolByWeight(weightConfig),
-        generateSymbolByWeight(weightConfig),
-        generateSymbolByWeight(weightConfig)
-    ];
+function generateSymbols(weightedSymbols: WeightedEntries, rng: Rng): string[] {
+    return drawSymbols(weightedSymbols, 4, rng);
 }
 
 /**
@@ -456,15 +531,17 @@ function getMaxConsecutiveSymbol(symbols: string[], target: string): number {
 /**
  * 蒙特卡洛模拟
  * @param onProgress 进度回调 (current, total, percentage)
+ * @param rng 指定随机数生成器时（如 SeededRng）结果可复现，且不读写缓存
  */
 export function calculateProbabilityMonteCarlo(
     weightConfigId: number,
     rewardSchemeId: number,
     simulationCount: number = 1000000,
-    onProgress?: (current: number, total: number, percentage: number) => void
+    onProgress?: (current: number, total: number, percentage: number) => void,
+    rng?: Rng
 ): ProbabilityResult {
     // 🔥 检查缓存
-    const cached = getFromCache(weightConfigId, rewardSchemeId, 'monte-carlo');
+    const cached = rng ? null : getFromCache(weightConfigId, rewardSchemeId, 'monte-carlo');
     if (cached) {
         logger.debug('蒙特卡洛', '使用缓存结果');
         return cached;
@@ -509,8 +586,10 @@ export function calculateProbabilityMonteCarlo(
     const reportInterval = 10000;
 
     // 模拟N次游戏
+    const weightedSymbols = toWeightedSymbols(weightConfig);
+    const simulationRng = rng || getRng();
     for (let i = 0; i < simulationCount; i++) {
-        const symbols = generateSymbols(weightConfig);
+        const symbols = generateSymbols(weightedSymbols, simulationRng);
         const result = matchRuleByPriority(symbols, rewardSchemeId);
 
         // 🔥 如果规则不存在（理论上不应该发生），仍然记录它
@@ -580,24 +659,29 @@ export function calculateProbabilityMonteCarlo(
         totalExpectedValue,
         method: 'monte-carlo',
         simulationCount,
-        calculationTime
+        calculationTime,
+        ...summarizeDistribution([...rules, ...punishments, noWin], totalExpectedValue)
     };
 
     // 🔥 保存到缓存
-    saveToCache(weightConfigId, rewardSchemeId, 'monte-carlo', result);
+    if (!rng) {
+        saveToCache(weightConfigId, rewardSchemeId, 'monte-carlo', result);
+    }
 
     return result;
 }
 
 /**
  * 快速估算（基于数学公式）
+ * @param rng 指定随机数生成器时（如 SeededRng）结果可复现，且不读写缓存
  */
 export function calculateProbabilityFast(
     weightConfigId: number,
-    rewardSchemeId: number
+    rewardSchemeId: number,
+    rng?: Rng
 ): ProbabilityResult {
     // 🔥 检查缓存
-    const cached = getFromCache(weightConfigId, rewardSchemeId, 'fast');
+    const cached = rng ? null : getFromCache(weightConfigId, rewardSchemeId, 'fast');
     if (cached) {
         return cached;
     }
@@ -662,8 +746,10 @@ export function calculateProbabilityFast(
     const maxDebug = 3;
     const debugResults: string[] = [];
 
+    const weightedSymbols = toWeightedSymbols(weightConfig);
+    const simulationRng = rng || getRng();
     for (let i = 0; i < quickSimCount; i++) {
-        const symbols = generateSymbols(weightConfig);
+        const symbols = generateSymbols(weightedSymbols, simulationRng);
         const enableDebug = false; // 禁用规则匹配的详细日志
         const result = matchRuleByPriority(symbols, rewardSchemeId, enableDebug);
 
@@ -733,15 +819,289 @@ export function calculateProbabilityFast(
         houseEdge: (1 - totalExpectedValue) * 100,
         totalExpectedValue,
         method: 'fast',
-        calculationTime
+        calculationTime,
+        ...summarizeDistribution([...rules, ...punishments], totalExpectedValue)
     };
 
     // 🔥 保存到缓存
-    saveToCache(weightConfigId, rewardSchemeId, 'fast', result);
+    if (!rng) {
+        saveToCache(weightConfigId, rewardSchemeId, 'fast', result);
+    }
 
     return result;
 }
 
+/**
+ * 精确枚举
+ * 转轮只有 10 个符号 × 4 个位置，逐一枚举全部组合，按权重计算每个组合的概率，
+ * 并用与实际开奖相同的判定逻辑（calculateWinByRules，含 man 组合、律师函惩罚与严格连续模式）
+ * @param strictConsecutive 是否严格连续判定（高级场为 true）
+ */
+export function calculateProbabilityExact(
+    weightConfigId: number,
+    rewardSchemeId: number,
+    strictConsecutive: boolean = false
+): ProbabilityResult {
+    const cached = getFromCache(weightConfigId, rewardSchemeId, 'exact', strictConsecutive);
+    if (cached) {
+        return cached;
+    }
+
+    const weightConfig = weightConfigQueries.getById.get(weightConfigId);
+    if (!weightConfig) {
+        throw new Error('权重配置不存在');
+    }
+
+    const result = calculateProbabilityExactForConfig(weightConfig, {
+        rules: rewardConfigQueries.getRulesByScheme.all(rewardSchemeId),
+        punishments: rewardConfigQueries.getPunishmentsByScheme.all(rewardSchemeId)
+    }, strictConsecutive);
+
+    logger.info('精确枚举', `权重${weightConfigId} 方案${rewardSchemeId}${strictConsecutive ? '（严格连续）' : ''} - 组合: ${result.outcomeCount}, RTP: ${result.rtp.toFixed(4)}%, 中奖率: ${result.hitFrequency.toFixed(2)}%, 耗时: ${result.calculationTime}ms`);
+
+    saveToCache(weightConfigId, rewardSchemeId, 'exact', result, strictConsecutive);
+    return result;
+}
+
+/**
+ * 按给定的权重与规则精确枚举（不读写缓存，可用于尚未保存的草稿）
+ */
+export function calculateProbabilityExactForConfig(
+    weightConfig: WeightConfig,
+    scheme: SchemeRules,
+    strictConsecutive: boolean = false
+): ProbabilityResult {
+    const startTime = Date.now();
+
+    const weightedSymbols = toWeightedSymbols(weightConfig);
+    const totalWeight = weightedSymbols.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight <= 0) {
+        throw new Error('权重配置总权重必须大于 0');
+    }
+    // 权重为 0 的符号不会出现，直接跳过
+    const reel = weightedSymbols
+        .filter(([, weight]) => weight > 0)
+        .map(([symbol, weight]) => ({ symbol, probability: weight / totalWeight }));
+
+    // 初始化统计（与其他计算方式一致，确保所有激活规则都出现在结果中）
+    const stats: Record<string, { probability: number; count: number; multiplier: number }> = {};
+    scheme.rules.filter((r: any) => r.is_active).forEach((rule: any) => {
+        stats[rule.rule_name] = { probability: 0, count: 0, multiplier: rule.win_multiplier };
+    });
+    scheme.punishments.filter((p: any) => p.is_active).forEach((p: any) => {
+        stats[`律师函×${p.lsh_count}`] = { probability: 0, count: 0, multiplier: -p.deduct_multiplier };
+    });
+    stats['未中奖'] = { probability: 0, count: 0, multiplier: 0 };
+
+    let expectedValue = 0;
+    let outcomeCount = 0;
+    let maxExposure: MaxExposure | null = null;
+
+    const symbols: string[] = new Array(REEL_COUNT);
+    const visit = (position: number, probability: number): void => {
+        if (position === REEL_COUNT) {
+            const win = calculateWinByRules(symbols, scheme, strictConsecutive);
+            // 惩罚统一按"律师函×N"统计，与快速估算和蒙特卡洛保持一致
+            const ruleName = win.winType === 'punishment' ? `律师函×${win.punishmentCount}` : win.ruleName;
+
+            if (!stats[ruleName]) {
+                stats[ruleName] = { probability: 0, count: 0, multiplier: win.multiplier };
+            }
+            stats[ruleName].probability += probability;
+            stats[ruleName].count++;
+
+            outcomeCount++;
+            expectedValue += probability * win.multiplier;
+
+            if (!maxExposure || win.multiplier > maxExposure.multiplier) {
+                maxExposure = { ruleName, multiplier: win.multiplier, probability: 0, symbols: [...symbols] };
+            }
+            if (win.multiplier === maxExposure.multiplier) {
+                maxExposure.probability += probability * 100;
+            }
+            return;
+        }
+
+        for (const item of reel) {
+            symbols[position] = item.symbol;
+            visit(position + 1, probability * item.probability);
+        }
+    };
+    visit(0, 1);
+
+    const rules: RuleProbability[] = [];
+    const punishments: RuleProbability[] = [];
+    let noWin: RuleProbability = { ruleName: '未中奖', multiplier: 0, probability: 0, expectedValue: 0, count: 0 };
+
+    for (const [ruleName, stat] of Object.entries(stats)) {
+        const item: RuleProbability = {
+            ruleName,
+            multiplier: stat.multiplier,
+            probability: stat.probability * 100,
+            expectedValue: stat.probability * stat.multiplier,
+            count: stat.count
+        };
+
+        if (ruleName === '未中奖') {
+            noWin = item;
+        } else if (ruleName.includes('律师函')) {
+            punishments.push(item);
+        } else {
+            rules.push(item);
+        }
+    }
+
+    rules.sort((a, b) => b.probability - a.probability);
+    punishments.sort((a, b) => a.ruleName.localeCompare(b.ruleName));
+
+    const result: ProbabilityResult = {
+        rules,
+        punishments,
+        noWin,
+        rtp: expectedValue * 100,
+        houseEdge: (1 - expectedValue) * 100,
+        totalExpectedValue: expectedValue,
+        method: 'exact',
+        calculationTime: Date.now() - startTime,
+        outcomeCount,
+        strictConsecutive,
+        maxExposure: maxExposure ?? undefined,
+        ...summarizeDistribution([...rules, ...punishments, noWin], expectedValue)
+    };
+    return result;
+}
+
+/**
+ * 资金风险模拟
+ * 按计算结果的倍率分布逐局模拟：每次旋转先扣投注额，中奖返还 投注额 × 倍率，律师函再扣 投注额 × |倍率|（最多扣到 0），
+ * 余额不足一次投注即视为破产。结果为每局结束时相对初始资金的盈亏分布
+ * @param rng 指定随机数生成器时（如 SeededRng）结果可复现
+ */
+export function calculateVolatility(result: ProbabilityResult, options: BankrollOptions, rng: Rng = getRng()): VolatilityMetrics {
+    const { bankroll, bet, spins } = options;
+    if (!(bet > 0) || !(bankroll >= 0) || !Number.isInteger(spins) || spins <= 0) {
+        throw new Error('模拟参数无效：投注额须为正数，初始资金不能为负，旋转次数须为正整数');
+    }
+    if (options.sessions !== undefined && (!Number.isInteger(options.sessions) || options.sessions <= 0)) {
+        throw new Error('模拟参数无效：模拟局数须为正整数');
+    }
+    const sessions = Math.min(options.sessions ?? 2000, Math.floor(MAX_SIMULATED_SPINS / spins));
+    if (sessions <= 0) {
+        throw new Error(`模拟规模过大：局数 × 旋转次数不能超过 ${MAX_SIMULATED_SPINS}`);
+    }
+
+    // 倍率分布（累积概率）
+    const outcomes = [...result.rules, ...result.punishments, result.noWin].filter(item => item.probability > 0);
+    const totalProbability = outcomes.reduce((sum, item) => sum + item.probability, 0);
+    const cumulative: Array<{ threshold: number; multiplier: number }> = [];
+    let acc = 0;
+    for (const item of outcomes) {
+        acc += item.probability / totalProbability;
+        cumulative.push({ threshold: acc, multiplier: item.multiplier });
+    }
+
+    const finals = new Float64Array(sessions);
+    let ruined = 0;
+    let totalSpinsPlayed = 0;
+
+    for (let session = 0; session < sessions; session++) {
+        let balance = bankroll;
+        let played = 0;
+        for (; played < spins; played++) {
+            if (balance < bet) {
+                break;
+            }
+            balance -= bet;
+
+            const point = rng.next();
+            let multiplier = cumulative[cumulative.length - 1]!.multiplier;
+            for (const item of cumulative) {
+                if (point < item.threshold) {
+                    multiplier = item.multiplier;
+                    break;
+                }
+            }
+
+            if (multiplier > 0) {
+                balance += Math.floor(bet * multiplier);
+            } else if (multiplier < 0) {
+                balance -= Math.min(Math.floor(bet * -multiplier), balance);
+            }
+        }
+        if (played < spins) {
+            ruined++;
+        }
+        totalSpinsPlayed += played;
+        finals[session] = balance - bankroll;
+    }
+
+    finals.sort();
+    const percentile = (p: number) => finals[Math.min(sessions - 1, Math.max(0, Math.ceil(sessions * p / 100) - 1))]!;
+    const percentiles = {} as VolatilityMetrics['percentiles'];
+    for (const p of SESSION_PERCENTILES) {
+        percentiles[`p${p}`] = percentile(p);
+    }
+
+    return {
+        standardDeviation: result.standardDeviation,
+        hitFrequency: result.hitFrequency,
+        bankroll,
+        bet,
+        spins,
+        sessions,
+        ruinProbability: ruined / sessions * 100,
+        averageSpinsPlayed: totalSpinsPlayed / sessions,
+        expectedNet: spins * bet * (result.totalExpectedValue - 1),
+        meanNet: finals.reduce((sum, value) => sum + value, 0) / sessions,
+        percentiles,
+        worst: finals[0]!,
+        best: finals[sessions - 1]!
+    };
+}
+
+/**
+ * 获取场次当前使用的权重/奖励方案、判定模式与默认投注额
+ * 高级场与至尊场按严格连续判定
+ */
+export async function getVenueProbabilityConfig(venue: SlotVenue): Promise<{
+    weightConfigId: number;
+    rewardSchemeId: number;
+    strictConsecutive: boolean;
+    defaultBet: number;
+}> {
+    const { slotQueries, advancedSlotQueries, supremeSlotQueries } = await import('../database');
+
+    if (venue === 'advanced') {
+        const config = advancedSlotQueries.getAdvancedConfig.get();
+        if (!config) throw new Error('高级场配置不存在');
+        return {
+            weightConfigId: config.weight_config_id || 1,
+            rewardSchemeId: config.reward_scheme_id || 1,
+            strictConsecutive: true,
+            defaultBet: config.bet_min
+        };
+    }
+    if (venue === 'supreme') {
+        const config = supremeSlotQueries.getConfig.get();
+        if (!config) throw new Error('至尊场配置不存在');
+        return {
+            weightConfigId: config.weight_config_id || 1,
+            rewardSchemeId: config.reward_scheme_id || 1,
+            strictConsecutive: true,
+            defaultBet: config.min_bet_amount
+        };
+    }
+
+    const config = slotQueries.getConfig.get();
+    if (!config) throw new Error('初级场配置不存在');
+    return {
+        weightConfigId: config.weight_config_id || 1,
+        rewardSchemeId: config.reward_scheme_id || 1,
+        strictConsecutive: false,
+        defaultBet: config.bet_amount
+    };
+}
+
 /**
  * 计算二项式系数 C(n, k)
  */
@@ -918,18 +1278,19 @@ export async function warmupAllProbabilityCache(): Promise<void> {
                 // 显示RTP和庄家优势
                 logger.info('缓存预热', `\n💰 玩家回报率(RTP): ${result.rtp.toFixed(2)}%`);
                 logger.info('缓存预热', `🏦 庄家优势: ${result.houseEdge.toFixed(2)}%`);
+                logger.info('缓存预热', `📈 单次标准差: ${result.standardDeviation.toFixed(2)}x, 中奖频率: ${result.hitFrequency.toFixed(2)}%`);
                 logger.info('缓存预热', `⏱️  计算耗时: ${result.calculationTime}ms`);
                 logger.info('缓存预热', `📦 模拟次数: ${result.simulationCount?.toLocaleString()}`);
 
                 // 显示掉落配置
                 try {
-                    const dropConfigs = dropConfigQueries.getByVenue.all(type);
+                    const dropConfigs = dropConfigQueries.getByMode.all(type);
                     if (dropConfigs.length > 0) {
                         logger.info('缓存预热', `\n🎁 掉落配置:`);
-                        dropConfigs.forEach((drop: any) => {
-                            const dropRate = (drop.drop_rate * 100).toFixed(2);
+                        dropConfigs.forEach((drop) => {
+                            const dropRate = (drop.drop_probability * 100).toFixed(2);
                             const triggerInfo = drop.trigger_rule_name || '任意规则';
-                            logger.info('缓存预热', `  ${drop.item_name} x${drop.quantity} - ${dropRate}% (触发:${triggerInfo})`);
+                            logger.info('缓存预热', `  ${drop.drop_item_type} x${drop.drop_count} - ${dropRate}% (触发:${triggerInfo})`);
                         });
                     }
                 } catch (error: any) {
@@ -0,0 +1,271 @@
+/**
+ * 可验证公平（Provably Fair）服务
+ * 每位用户持有一对种子：服务端种子（预先公布 SHA-256 哈希）+ 客户端种子（用户可自定义），
+ * 每次抽奖使用递增的 nonce，符号由 HMAC-SHA256(server_seed, client_seed:nonce:reel) 按权重抽取。
+ * 轮换种子时公开旧的服务端种子，用户即可复算该种子下的所有抽奖结果。
+ */
+
+import { fairSeedQueries } from '../database';
+import logger from '../utils/logger';
+import type { FairSeed } from '../types';
+import { drawSymbols, type Rng, type WeightedEntries } from './rng';
+
+const CLIENT_SEED_MAX_LENGTH = 64;
+const REEL_COUNT = 4;
+// 取 HMAC 前 6 字节（48 位）作为均匀随机数
+const DRAW_BYTES = 6;
+const DRAW_RANGE = 2 ** (DRAW_BYTES * 8);
+
+/**
+ * 抽奖时使用的权重快照（有序，顺序影响抽取结果）
+ */
+export type FairWeights = WeightedEntries;
+
+/**
+ * 写入游戏记录的公平性信息
+ */
+export interface FairSpinInfo {
+    seedId: number;
+    nonce: number;
+    weights: FairWeights;
+}
+
+export interface FairSpinResult {
+    symbols: string[];
+    fair: FairSpinInfo | null;  // 使用外部注入的 Rng 抽取时为 null
+}
+
+export type FairRecordType = 'slot' | 'supreme';
+
+function randomHex(bytes: number): string {
+    const buf = new Uint8Array(bytes);
+    crypto.getRandomValues(buf);
+    return Buffer.from(buf).toString('hex');
+}
+
+function sha256Hex(input: string): string {
+    const hasher = new Bun.CryptoHasher('sha256');
+    hasher.update(input);
+    return hasher.digest('hex');
+}
+
+/**
+ * 将权重表转为有序快照（忽略非正权重）
+ */
+export function toFairWeights(weights: Record<string, number>): FairWeights {
+    return Object.entries(weights)
+        .map(([symbol, weight]) => [symbol, Math.floor(Number(weight) || 0)] as [string, number])
+        .filter(([, weight]) => weight > 0);
+}
+
+/**
+ * 基于种子的随机数生成器：第 i 次取数对应 HMAC-SHA256(server_seed, client_seed:nonce:i)
+ */
+export class FairRng implements Rng {
+    private cursor = 0;
+
+    constructor(
+        private readonly serverSeed: string,
+        private readonly clientSeed: string,
+        private readonly nonce: number
+    ) {}
+
+    next(): number {
+        const hmac = new Bun.CryptoHasher('sha256', this.serverSeed);
+        hmac.update(`${this.clientSeed}:${this.nonce}:${this.cursor++}`);
+        const digest = hmac.digest() as Uint8Array;
+
+        let value = 0;
+        for (let i = 0; i < DRAW_BYTES; i++) {
+            value = value * 256 + digest[i]!;
+        }
+        return value / DRAW_RANGE;
+    }
+}
+
+/**
+ * 计算一次抽奖的全部符号（纯函数，可在客户端复现）
+ */
+export function computeFairSymbols(serverSeed: string, clientSeed: string, nonce: number, weights: FairWeights): string[] {
+    return drawSymbols(weights, REEL_COUNT, new FairRng(serverSeed, clientSeed, nonce));
+}
+
+function createSeed(linuxDoId: string, clientSeed: string): FairSeed {
+    const serverSeed = randomHex(32);
+    fairSeedQueries.insert.run(linuxDoId, serverSeed, sha256Hex(serverSeed), clientSeed, Date.now());
+    // 并发创建时 INSERT OR IGNORE 只保留一条 active 种子
+    return fairSeedQueries.getActive.get(linuxDoId)!;
+}
+
+/**
+ * 获取用户当前种子（不存在时自动生成）
+ */
+export function getActiveSeed(linuxDoId: string): FairSeed {
+    return fairSeedQueries.getActive.get(linuxDoId) || createSeed(linuxDoId, randomHex(16));
+}
+
+/**
+ * 公开给用户的种子信息（不含未公开的服务端种子）
+ */
+function toPublicSeed(seed: FairSeed) {
+    return {
+        seed_id: seed.id,
+        server_seed_hash: seed.server_seed_hash,
+        server_seed: seed.status === 'revealed' ? seed.server_seed : null,
+        client_seed: seed.client_seed,
+        nonce: seed.nonce,
+        status: seed.status,
+        created_at: seed.created_at,
+        revealed_at: seed.revealed_at || null,
+    };
+}
+
+/**
+ * 获取用户种子信息（当前种子 + 最近已公开的种子）
+ */
+export function getSeedInfo(linuxDoId: string, historyLimit: number = 10) {
+    const active = getActiveSeed(linuxDoId);
+    const revealed = fairSeedQueries.getRevealedByUser.all(linuxDoId, historyLimit);
+    return {
+        active: toPublicSeed(active),
+        revealed: revealed.map(toPublicSeed),
+    };
+}
+
+/**
+ * 轮换种子：公开当前服务端种子，生成新种子
+ * @param clientSeed 新的客户端种子，不传则沿用当前值
+ */
+export function rotateSeed(linuxDoId: string, clientSeed?: string) {
+    if (clientSeed !== undefined) {
+        const error = validateClientSeed(clientSeed);
+        if (error) {
+            return { success: false, message: error };
+        }
+    }
+
+    const current = getActiveSeed(linuxDoId);
+    fairSeedQueries.reveal.run(Date.now(), current.id);
+    const next = createSeed(linuxDoId, clientSeed ?? current.client_seed);
+    const revealed = fairSeedQueries.getById.get(current.id)!;
+
+    logger.info('公平种子', `用户 ${linuxDoId} 轮换种子 #${current.id} → #${next.id}，已使用 ${revealed.nonce} 次`);
+
+    return {
+        success: true,
+        message: '种子已轮换，旧的服务端种子已公开',
+        data: {
+            revealed: toPublicSeed(revealed),
+            active: toPublicSeed(next),
+        },
+    };
+}
+
+/**
+ * 设置客户端种子（会同时轮换服务端种子，避免已知服务端哈希下挑选客户端种子）
+ */
+export function setClientSeed(linuxDoId: string, clientSeed: string) {
+    return rotateSeed(linuxDoId, clientSeed);
+}
+
+function validateClientSeed(clientSeed: string): string | null {
+    if (typeof clientSeed !== 'string' || clientSeed.length === 0) {
+        return '客户端种子不能为空';
+    }
+    if (clientSeed.length > CLIENT_SEED_MAX_LENGTH) {
+        return `客户端种子长度不能超过 ${CLIENT_SEED_MAX_LENGTH}`;
+    }
+    if (!/^[\x21-\x7e]+$/.test(clientSeed)) {
+        return '客户端种子只能包含可见 ASCII 字符';
+    }
+    return null;
+}
+
+/**
+ * 使用用户当前种子抽取符号（占用一个 nonce）
+ * @param rng 指定时直接使用该生成器抽取（测试/模拟），不占用种子，结果不可验证
+ */
+export function drawFairSymbols(linuxDoId: string, weights: Record<string, number>, rng?: Rng): FairSpinResult {
+    const fairWeights = toFairWeights(weights);
+
+    if (rng) {
+        return { symbols: drawSymbols(fairWeights, REEL_COUNT, rng), fair: null };
+    }
+
+    // 取种子与占用 nonce 之间可能发生轮换，失败时重取一次
+    for (let attempt = 0; attempt < 2; attempt++) {
+        const seed = getActiveSeed(linuxDoId);
+        const claimed = fairSeedQueries.claimNonce.get(seed.id);
+        if (!claimed) continue;
+
+        const nonce = claimed.nonce - 1;
+        return {
+            symbols: computeFairSymbols(seed.server_seed, seed.client_seed, nonce, fairWeights),
+            fair: { seedId: seed.id, nonce, weights: fairWeights },
+        };
+    }
+
+    throw new Error('获取公平种子失败，请重试');
+}
+
+/**
+ * 复算一条游戏记录
+ * @param linuxDoId 传入时只允许验证本人记录，且未公开的种子不返回原文；管理员传 null
+ */
+export function verifyRecordedSpin(type: FairRecordType, recordId: number, linuxDoId: string | null) {
+    const record = type === 'supreme'
+        ? fairSeedQueries.getSupremeRecord.get(recordId)
+        : fairSeedQueries.getSlotRecord.get(recordId);
+
+    if (!record || (linuxDoId && record.linux_do_id !== linuxDoId)) {
+        return { success: false, message: '游戏记录不存在' };
+    }
+    if (!record.fair_seed_id || record.fair_nonce === null || record.fair_nonce === undefined) {
+        return { success: false, message: '该记录生成于可验证公平上线之前，无法验证' };
+    }
+
+    const seed = fairSeedQueries.getById.get(record.fair_seed_id);
+    if (!seed) {
+        return { success: false, message: '种子记录不存在' };
+    }
+
+    const weights: FairWeights = JSON.parse(record.fair_weights || '[]');
+    const recordedSymbols: string[] = JSON.parse(record.result_symbols || '[]');
+    const revealed = seed.status === 'revealed';
+
+    const base = {
+        type,
+        record_id: record.id,
+        seed_id: seed.id,
+        server_seed_hash: seed.server_seed_hash,
+        client_seed: seed.client_seed,
+        nonce: record.fair_nonce,
+        weights,
+        recorded_symbols: recordedSymbols,
+        revealed,
+    };
+
+    // 用户验证：种子未公开前只返回承诺信息
+    if (linuxDoId && !revealed) {
+        return {
+            success: true,
+            message: '服务端种子尚未公开，轮换种子后即可验证',
+            data: { ...base, server_seed: null, computed_symbols: null, hash_valid: null, match: null },
+        };
+    }
+
+    const computedSymbols = computeFairSymbols(seed.server_seed, seed.client_seed, record.fair_nonce, weights);
+    const hashValid = sha256Hex(seed.server_seed) === seed.server_seed_hash;
+    const match = hashValid && computedSymbols.length === recordedSymbols.length
+        && computedSymbols.every((symbol, i) => symbol === recordedSymbols[i]);
+
+    if (!match) {
+        logger.warn('公平种子', `⚠️ 记录复算不一致 - ${type} #${record.id}, 记录: ${recordedSymbols.join(',')}, 复算: ${computedSymbols.join(',')}`);
+    }
+
+    return {
+        success: true,
+        message: match ? '验证通过' : '验证不一致',
+        data: { ...base, server_seed: seed.server_seed, computed_symbols: computedSymbols, hash_valid: hashValid, match },
+    };
+}
@@ -0,0 +1,435 @@
+/**
+ * 上游额度变动队列
+ * 上游只提供"设置额度"接口，并发的读-改-写会互相覆盖（后写入者吞掉先写入者的变动）。
+ * 所有额度增减统一以变动量入队：
+ * - 同一上游用户（upstream_id + kyx_user_id）的变动在本进程内串行处理：回读最新额度 → 按入队顺序依次计算 → 合并写入一次
+ * - 传入 linuxDoId 时写入用户的收款上游；变动量按本站额度计，写入时按上游额度单位换算
+ * - 处理期间新入队的变动进入下一批次，高并发时合并为一次上游请求
+ * - 变动先落库再处理；写入上游前记录批次前后额度，进程中断后据此判断是否已生效
+ * - 重启后遗留的增加额度继续补发；遗留的扣除作废（发起扣除的请求已随进程中断，不应事后扣款）
+ * - 目标上游熔断期间不再入队，直接返回 UPSTREAM_UNAVAILABLE；遗留变动暂停续做，恢复后继续
+ */
+
+import { db, quotaMutationQueries, upstreamQueries } from '../database';
+import { getUpstreamBreaker, UPSTREAM_UNAVAILABLE, UPSTREAM_UNAVAILABLE_MESSAGE } from './circuit-breaker';
+import {
+    PRIMARY_UPSTREAM_ID,
+    fetchUpstreamUser,
+    getPayoutAccount,
+    getUpstreamConnection,
+    setUpstreamQuota,
+    toLocalQuota,
+    toUpstreamQuota,
+} from './upstreams';
+import type { UpstreamConnection } from './upstreams';
+import logger from '../utils/logger';
+import type { QuotaMutation, QuotaMutationMode } from '../types';
+
+export interface QuotaMutationOptions {
+    linuxDoId?: string | null;  // 未指定 upstreamId 时写入该用户的收款上游
+    upstreamId?: number;  // 指定上游（kyxUserId 为该上游的用户ID）
+    mode?: QuotaMutationMode;  // 仅对扣除生效，默认 strict
+}
+
+export interface QuotaMutationResult {
+    success: boolean;
+    message?: string;
+    httpStatus?: number;
+    errorCode?: string;  // 上游熔断时为 UPSTREAM_UNAVAILABLE
+    mutationId: number | null;
+    applied: number;  // 实际生效的变动（扣除为负数）
+    balanceBefore?: number;  // 本变动生效前的上游额度（本站额度单位）
+    balanceAfter?: number;  // 本变动生效后的上游额度（本站额度单位）
+}
+
+const BATCH_SIZE = 50; // 每批次最多合并的变动数
+const MAX_ATTEMPTS = 5; // 无人等待的变动（重启遗留）最大重试次数
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 等待结果的调用方（仅本进程内入队的变动）
+const waiters = new Map<number, (result: QuotaMutationResult) => void>();
+// 每个上游用户的串行锁（Promise 链），键为 upstreamId:kyxUserId
+const locks = new Map<string, Promise<unknown>>();
+// 正在处理队列的上游用户
+const draining = new Set<string>();
+
+function userKey(upstreamId: number, kyxUserId: number): string {
+    return `${upstreamId}:${kyxUserId}`;
+}
+
+function userLabel(upstreamId: number, kyxUserId: number): string {
+    return upstreamId === PRIMARY_UPSTREAM_ID ? `用户ID: ${kyxUserId}` : `上游 #${upstreamId} 用户ID: ${kyxUserId}`;
+}
+
+function isUpstreamOpen(upstream: UpstreamConnection): boolean {
+    return getUpstreamBreaker('get_user', upstream.baseUrl).isOpen() || getUpstreamBreaker('update_quota', upstream.baseUrl).isOpen();
+}
+
+function formatQuota(quota: number): string {
+    return `$${(quota / 500000).toFixed(2)}`;
+}
+
+/**
+ * 在用户的额度锁内执行任务
+ * 需要自行读-改-写上游额度的流程（如钱包划转的两阶段提交）也必须在锁内执行，避免与队列互相覆盖
+ */
+export async function withQuotaLock<T>(kyxUserId: number, task: () => Promise<T>, upstreamId: number = PRIMARY_UPSTREAM_ID): Promise<T> {
+    const key = userKey(upstreamId, kyxUserId);
+    const previous = locks.get(key) ?? Promise.resolve();
+    const current = previous.then(task);
+    const tail = current.catch(() => undefined);
+    locks.set(key, tail);
+
+    try {
+        return await current;
+    } finally {
+        if (locks.get(key) === tail) {
+            locks.delete(key);
+        }
+    }
+}
+
+function settle(mutation: QuotaMutation, result: Omit<QuotaMutationResult, 'mutationId'>): void {
+    const resolve = waiters.get(mutation.id);
+    if (resolve) {
+        waiters.delete(mutation.id);
+        resolve({ ...result, mutationId: mutation.id });
+    }
+}
+
+/**
+ * 批次写入失败：有调用方等待的变动直接失败（由调用方决定后续处理），
+ * 无人等待的变动退回队列稍后重试，超过最大次数后标记失败待人工核对
+ */
+function failBatch(batch: QuotaMutation[], message: string, httpStatus?: number, errorCode?: string): void {
+    const now = Date.now();
+    for (const mutation of batch) {
+        if (waiters.has(mutation.id)) {
+            quotaMutationQueries.finish.run('failed', message, now, mutation.id);
+            settle(mutation, { success: false, message, httpStatus, errorCode, applied: 0 });
+        } else if (mutation.attempts + 1 >= MAX_ATTEMPTS) {
+            quotaMutationQueries.finish.run('failed', `达到最大重试次数: ${message}`, now, mutation.id);
+            logger.error('额度队列', `❌ 变动 #${mutation.id} 重试 ${MAX_ATTEMPTS} 次仍失败，需人工处理 - ${userLabel(mutation.upstream_id, mutation.kyx_user_id)}, 变动: ${formatQuota(mutation.delta)}, 来源: ${mutation.source}`);
+        } else {
+            quotaMutationQueries.retry.run(message, now, mutation.id);
+        }
+    }
+}
+
+/**
+ * 处理一个批次，返回是否继续处理后续批次
+ */
+async function applyBatch(upstreamId: number, kyxUserId: number, batch: QuotaMutation[]): Promise<boolean> {
+    const upstream = getUpstreamConnection(upstreamId);
+    if (!upstream || !upstream.session) {
+        failBatch(batch, upstream ? '上游未配置凭据' : '上游不存在或已停用');
+        return false;
+    }
+
+    const userResult = await fetchUpstreamUser(upstream, kyxUserId, true);
+    if (!userResult.success || !userResult.user) {
+        failBatch(batch, `获取用户信息失败: ${userResult.message || '未知错误'}`, userResult.errorCode ? 503 : undefined, userResult.errorCode);
+        return false;
+    }
+
+    // quotaBefore / quotaAfter 为上游额度单位，批次内计算按本站额度单位
+    const quotaBefore = userResult.user.quota || 0;
+    const balanceStart = toLocalQuota(upstream, quotaBefore);
+    let balance = balanceStart;
+    const accepted: Array<{ mutation: QuotaMutation; applied: number; balanceBefore: number }> = [];
+    const now = Date.now();
+
+    for (const mutation of batch) {
+        let applied = mutation.delta;
+        if (mutation.delta < 0 && balance < -mutation.delta) {
+            if (mutation.mode !== 'clamp') {
+                const message = `额度不足: 当前额度 ${balance}, 需要 ${-mutation.delta}`;
+                quotaMutationQueries.finish.run('rejected', message, now, mutation.id);
+                settle(mutation, { success: false, message, applied: 0, balanceBefore: balance, balanceAfter: balance });
+                continue;
+            }
+            applied = -Math.max(0, balance);
+        }
+        accepted.push({ mutation, applied, balanceBefore: balance });
+        balance += applied;
+    }
+
+    if (accepted.length === 0) {
+        return true;
+    }
+
+    // 只换算变动部分，保留上游额度中不足本站一个单位的零头
+    const quotaAfter = quotaBefore + toUpstreamQuota(upstream, balance - balanceStart);
+    db.transaction(() => {
+        for (const item of accepted) {
+            quotaMutationQueries.markApplying.run(item.applied, quotaBefore, quotaAfter, now, item.mutation.id);
+        }
+    })();
+
+    // 增减相互抵消时无需写入上游
+    if (quotaAfter !== quotaBefore) {
+        const updateResult = await setUpstreamQuota(upstream, userResult.user, quotaAfter);
+
+        if (!updateResult || !updateResult.success) {
+            // 请求失败不代表未生效（如超时），回读确认
+            const verify = await fetchUpstreamUser(upstream, kyxUserId, true);
+            if (!(verify.success && verify.user && verify.user.quota === quotaAfter)) {
+                failBatch(accepted.map(item => item.mutation), updateResult?.message || '更新额度失败: 未知错误', updateResult?.httpStatus, updateResult?.errorCode);
+                return false;
+            }
+            logger.warn('额度队列', `上游返回失败但回读已生效 - ${userLabel(upstreamId, kyxUserId)}, 目标额度: ${quotaAfter}`);
+        }
+    }
+
+    const appliedAt = Date.now();
+    db.transaction(() => {
+        for (const item of accepted) {
+            quotaMutationQueries.markApplied.run(appliedAt, appliedAt, item.mutation.id);
+        }
+    })();
+
+    for (const item of accepted) {
+        settle(item.mutation, {
+            success: true,
+            applied: item.applied,
+            balanceBefore: item.balanceBefore,
+            balanceAfter: item.balanceBefore + item.applied,
+        });
+    }
+
+    const merged = accepted.length > 1 ? `，合并 ${accepted.length} 笔变动` : '';
+    logger.info('额度队列', `✅ ${userLabel(upstreamId, kyxUserId)} 额度 ${formatQuota(balanceStart)} → ${formatQuota(balance)}${merged}`);
+    return true;
+}
+
+/**
+ * 在锁内处理一个批次，返回是否还需继续处理
+ */
+async function drainBatch(upstreamId: number, kyxUserId: number): Promise<boolean> {
+    const batch = quotaMutationQueries.getPendingByUser.all(upstreamId, kyxUserId, BATCH_SIZE);
+    let hasMore = false;
+
+    if (batch.length > 0) {
+        try {
+            hasMore = await applyBatch(upstreamId, kyxUserId, batch);
+        } catch (error: any) {
+            logger.error('额度队列', `❌ 处理${userLabel(upstreamId, kyxUserId)} 的额度变动出错: ${error.message}`);
+            failBatch(batch, `处理出错: ${error.message}`);
+        }
+
+        // 写入失败后，退回的遗留变动等待定时任务重试；处理期间新入队且有调用方等待的变动继续处理
+        if (!hasMore) {
+            hasMore = quotaMutationQueries.getPendingByUser.all(upstreamId, kyxUserId, BATCH_SIZE).some(mutation => waiters.has(mutation.id));
+        }
+    }
+
+    if (!hasMore) {
+        // 与查询在同一锁内移除标记，之后入队的变动会重新发起处理
+        draining.delete(userKey(upstreamId, kyxUserId));
+    }
+    return hasMore;
+}
+
+/**
+ * 串行处理用户队列，直到没有待处理变动或写入失败
+ */
+async function drainUser(upstreamId: number, kyxUserId: number): Promise<void> {
+    let hasMore = true;
+    while (hasMore) {
+        hasMore = await withQuotaLock(kyxUserId, () => drainBatch(upstreamId, kyxUserId), upstreamId);
+    }
+}
+
+function scheduleDrain(upstreamId: number, kyxUserId: number): void {
+    const key = userKey(upstreamId, kyxUserId);
+    if (draining.has(key)) {
+        return;
+    }
+    draining.add(key);
+    void drainUser(upstreamId, kyxUserId);
+}
+
+/**
+ * 确定变动写入的上游用户：指定上游 > 收款上游 > 主站
+ */
+function resolveTarget(kyxUserId: number, options: QuotaMutationOptions): { upstream: UpstreamConnection; kyxUserId: number } | null {
+    if (options.upstreamId !== undefined) {
+        const upstream = getUpstreamConnection(options.upstreamId);
+        return upstream ? { upstream, kyxUserId } : null;
+    }
+    if (options.linuxDoId) {
+        const account = getPayoutAccount(options.linuxDoId);
+        if (account) {
+            return { upstream: account.upstream, kyxUserId: account.kyxUserId };
+        }
+        // 收款上游已停用时不回退主站，避免额度写到用户未选择的站点
+        if (upstreamQueries.getPayoutBinding.get(options.linuxDoId)) {
+            return null;
+        }
+    }
+    const primary = getUpstreamConnection(PRIMARY_UPSTREAM_ID);
+    return primary ? { upstream: primary, kyxUserId } : null;
+}
+
+function enqueue(kyxUserId: number, delta: number, source: string, options: QuotaMutationOptions): Promise<QuotaMutationResult> {
+    if (!Number.isSafeInteger(delta) || delta === 0) {
+        return Promise.resolve({ success: false, message: `无效的额度变动: ${delta}`, mutationId: null, applied: 0 });
+    }
+    const target = resolveTarget(kyxUserId, options);
+    if (!target) {
+        return Promise.resolve({ success: false, message: '收款上游不存在或已停用，请更换收款上游', mutationId: null, applied: 0 });
+    }
+    if (isUpstreamOpen(target.upstream)) {
+        return Promise.resolve({ success: false, message: UPSTREAM_UNAVAILABLE_MESSAGE, httpStatus: 503, errorCode: UPSTREAM_UNAVAILABLE, mutationId: null, applied: 0 });
+    }
+
+    const now = Date.now();
+    const mutation = quotaMutationQueries.insert.get(target.upstream.id, target.kyxUserId, options.linuxDoId ?? null, delta, options.mode ?? 'strict', source, now, now)!;
+    const result = new Promise<QuotaMutationResult>(resolve => waiters.set(mutation.id, resolve));
+    scheduleDrain(target.upstream.id, target.kyxUserId);
+    return result;
+}
+
+/**
+ * 增加上游额度（等待写入完成）
+ */
+export function addQuota(kyxUserId: number, amount: number, source: string, options: QuotaMutationOptions = {}): Promise<QuotaMutationResult> {
+    return enqueue(kyxUserId, amount, source, options);
+}
+
+/**
+ * 扣除上游额度（等待写入完成）
+ * strict 模式余额不足时拒绝；clamp 模式最多扣到 0，实际扣除见 applied
+ */
+export function deductQuota(kyxUserId: number, amount: number, source: string, options: QuotaMutationOptions = {}): Promise<QuotaMutationResult> {
+    return enqueue(kyxUserId, -amount, source, options);
+}
+
+/**
+ * 核对进程中断时正在写入的批次：上游等于目标额度视为已生效，等于写入前额度视为未生效
+ */
+async function reconcileApplying(upstream: UpstreamConnection, kyxUserId: number, batch: QuotaMutation[]): Promise<number> {
+    const userResult = await fetchUpstreamUser(upstream, kyxUserId, true);
+    if (!userResult.success || !userResult.user) {
+        logger.warn('额度队列', `核对中断批次失败，稍后重试 - ${userLabel(upstream.id, kyxUserId)}, 错误: ${userResult.message || '未知错误'}`);
+        return 0;
+    }
+
+    const current = userResult.user.quota || 0;
+    const now = Date.now();
+
+    db.transaction(() => {
+        for (const mutation of batch) {
+            if (current === mutation.quota_after) {
+                quotaMutationQueries.markApplied.run(now, now, mutation.id);
+            } else if (current === mutation.quota_before) {
+                if (mutation.delta > 0) {
+                    quotaMutationQueries.retry.run('进程中断，上游未生效，重新入队', now, mutation.id);
+                } else {
+                    quotaMutationQueries.finish.run('cancelled', '进程中断，上游未生效，扣除作废', now, mutation.id);
+                }
+            } else {
+                quotaMutationQueries.finish.run('failed',
+                    `进程中断，上游额度已变动（写入前 ${mutation.quota_before}, 目标 ${mutation.quota_after}, 当前 ${current}），无法确认是否生效，需人工核对`,
+                    now, mutation.id);
+            }
+        }
+    })();
+
+    logger.info('额度队列', `🔁 已核对中断批次 - ${userLabel(upstream.id, kyxUserId)}, 变动: ${batch.length} 笔, 当前额度: ${formatQuota(toLocalQuota(upstream, current))}`);
+    return batch.length;
+}
+
+/**
+ * 续做遗留的变动（启动时及定时任务调用）
+ * - 核对中断的写入批次
+ * - 无人等待的扣除作废，增加额度继续处理
+ */
+export async function resumeQuotaQueue(): Promise<{ reconciled: number; cancelled: number; users: number; skipped?: string }> {
+    // 熔断期间续做只会消耗遗留变动的重试次数（按上游分别判断，主站熔断时整体跳过）
+    const primary = getUpstreamConnection(PRIMARY_UPSTREAM_ID);
+    if (primary && isUpstreamOpen(primary)) {
+        logger.debug('额度队列', '上游熔断中，暂停续做遗留变动');
+        return { reconciled: 0, cancelled: 0, users: 0, skipped: UPSTREAM_UNAVAILABLE };
+    }
+
+    let reconciled = 0;
+    let cancelled = 0;
+
+    const applyingByUser = new Map<string, QuotaMutation[]>();
+    for (const mutation of quotaMutationQueries.getApplying.all()) {
+        const key = userKey(mutation.upstream_id, mutation.kyx_user_id);
+        if (draining.has(key)) continue;
+        const list = applyingByUser.get(key) ?? [];
+        list.push(mutation);
+        applyingByUser.set(key, list);
+    }
+
+    for (const batch of applyingByUser.values()) {
+        const { upstream_id: upstreamId, kyx_user_id: kyxUserId } = batch[0]!;
+        const upstream = getUpstreamConnection(upstreamId);
+        if (!upstream || isUpstreamOpen(upstream)) continue;
+        try {
+            reconciled += await withQuotaLock(kyxUserId, () => reconcileApplying(upstream, kyxUserId, batch), upstreamId);
+        } catch (error: any) {
+            logger.error('额度队列', `❌ 核对${userLabel(upstreamId, kyxUserId)} 的中断批次出错: ${error.message}`);
+        }
+    }
+
+    const users = quotaMutationQueries.getPendingUsers.all();
+    const now = Date.now();
+    for (const { upstream_id: upstreamId, kyx_user_id: kyxUserId } of users) {
+        if (draining.has(userKey(upstreamId, kyxUserId))) continue;
+        const upstream = getUpstreamConnection(upstreamId);
+        if (upstream && isUpstreamOpen(upstream)) continue;
+        for (const mutation of quotaMutationQueries.getPendingByUser.all(upstreamId, kyxUserId, BATCH_SIZE)) {
+            if (mutation.delta < 0 && !waiters.has(mutation.id)) {
+                quotaMutationQueries.finish.run('cancelled', '发起扣除的请求已中断，扣除作废', now, mutation.id);
+                cancelled++;
+            }
+        }
+        scheduleDrain(upstreamId, kyxUserId);
+    }
+
+    if (reconciled > 0 || cancelled > 0) {
+        logger.info('额度队列', `🔄 续做遗留变动 - 核对: ${reconciled} 笔, 作废扣除: ${cancelled} 笔, 涉及用户: ${users.length}`);
+    }
+    return { reconciled, cancelled, users: users.length };
+}
+
+/**
+ * 队列状态（管理后台）
+ */
+export function getQuotaQueueStatus(windowMs: number = DAY_MS) {
+    const since = Date.now() - windowMs;
+    const users = quotaMutationQueries.getQueueDepth.all().map(row => ({
+        ...row,
+        processing: draining.has(userKey(row.upstream_id, row.kyx_user_id)),
+    }));
+    const recent: Record<string, number> = {};
+    for (const row of quotaMutationQueries.countByStatusSince.all(since)) {
+        recent[row.status] = row.count;
+    }
+
+    return {
+        total_pending: users.reduce((sum, row) => sum + row.pending_count + row.applying_count, 0),
+        users,
+        recent,
+        recent_failures: quotaMutationQueries.getRecentFailures.all(since, 50),
+    };
+}
+
+/**
+ * 用户最近的额度变动
+ */
+export function getUserQuotaMutations(kyxUserId: number, limit: number = 50, upstreamId: number = PRIMARY_UPSTREAM_ID): QuotaMutation[] {
+    return quotaMutationQueries.getByUser.all(upstreamId, kyxUserId, limit);
+}
+
+/**
+ * 清理已结束的变动记录
+ */
+export function cleanupQuotaMutations(retentionDays: number = 7): { deleted: number } {
+    const result = quotaMutationQueries.cleanup.run(Date.now() - retentionDays * DAY_MS);
+    return { deleted: result.changes };
+}
@@ -34,8 +34,7 @@ async function checkProfitRankAchievements(): Promise<void> {
         // 获取盈利榜前10名
         const topUsers = getLeaderboard(10);
 
-        for (let i = 0; i < topUsers.length; i++) {
-            const user = topUsers[i];
+        for (const [i, user] of topUsers.entries()) {
             const rank = i + 1;
 
             // 坤圈首富（第1名）
@@ -68,8 +67,8 @@ async function checkLossRankAchievements(): Promise<void> {
         // 获取亏损榜第1名
         const topLosers = getLossLeaderboard(1);
 
-        if (topLosers.length > 0) {
-            const topLoser = topLosers[0];
+        const topLoser = topLosers[0];
+        if (topLoser) {
 
             // 坤圈首负（亏损榜第1名）
             await checkAndUnlockAchievement(topLoser.linux_do_id, 'rank_1_loss');
@@ -80,19 +79,3 @@ async function checkLossRankAchievements(): Promise<void> {
         logger.error('排行榜成就', `亏损榜检查失败: ${error.message}`);
     }
 }
-
-/**
- * 启动定时检查（每小时执行一次）
- */
-export function startRankAchievementChecker(): void {
-    // 立即执行一次
-    checkAllRankAchievements();
-
-    // 每小时检查一次
-    const intervalMs = 60 * 60 * 1000; // 1小时
-    setInterval(async () => {
-        await checkAllRankAchievements();
-    }, intervalMs);
-
-    logger.info('排行榜成就', `✅ 排行榜成就检查器已启动（每小时检查一次）`);
-}
@@ -6,6 +6,26 @@
 import { rewardConfigQueries } from '../database';
 import logger from '../utils/logger';
 
+/**
+ * 奖励方案的中奖规则与律师函惩罚（行结构与 reward_rules / punishment_lsh_configs 一致）
+ */
+export interface SchemeRules {
+    rules: any[];
+    punishments: any[];
+}
+
+/**
+ * 中奖判定结果
+ */
+export interface WinResult {
+    winType: string;
+    multiplier: number;
+    ruleName: string;
+    grantFreeSpin: boolean;
+    punishmentCount?: number;
+    banHours?: number;
+}
+
 /**
  * 根据奖励配置方案判定中奖
  * @param symbols 符号数组
@@ -16,14 +36,21 @@ export function calculateWinByScheme(
     symbols: string[],
     schemeId: number,
     isStrictConsecutive: boolean = false
-): {
-    winType: string;
-    multiplier: number;
-    ruleName: string;
-    grantFreeSpin: boolean;
-    punishmentCount?: number;
-    banHours?: number;
-} {
+): WinResult {
+    return calculateWinByRules(symbols, {
+        rules: rewardConfigQueries.getRulesByScheme.all(schemeId),
+        punishments: rewardConfigQueries.getPunishmentsByScheme.all(schemeId)
+    }, isStrictConsecutive);
+}
+
+/**
+ * 按给定的规则与惩罚判定中奖（可用于尚未保存的草稿方案）
+ */
+export function calculateWinByRules(
+    symbols: string[],
+    scheme: SchemeRules,
+    isStrictConsecutive: boolean = false
+): WinResult {
     // 🔥 1. 先检查man符号并计算组合倍率（最高优先级）
     // 如果有man，则不会触发律师函惩罚
     const manCount = symbols.filter(s => s === 'man').length;
@@ -58,8 +85,7 @@ export function calculateWinByScheme(
         const lshCount = symbols.filter(s => s === 'lsh').length;
 
         if (lshCount > 0) {
-            const punishments = rewardConfigQueries.getPunishmentsByScheme.all(schemeId);
-            const activePunishment = punishments.find((p: any) => p.lsh_count === lshCount && p.is_active);
+            const activePunishment = scheme.punishments.find((p: any) => p.lsh_count === lshCount && p.is_active);
 
             if (activePunishment) {
                 return {
@@ -75,8 +101,7 @@ export function calculateWinByScheme(
     }
 
     // 🔥 3. 获取奖励规则并按优先级排序（对称规则现在通过配置方案控制）
-    const rules = rewardConfigQueries.getRulesByScheme.all(schemeId);
-    const activeRules = rules.filter((r: any) => r.is_active).sort((a: any, b: any) => b.priority - a.priority);
+    const activeRules = scheme.rules.filter((r: any) => r.is_active).sort((a: any, b: any) => b.priority - a.priority);
 
     // 🔥 4. 检查规则匹配并应用man倍率加成
     for (const rule of activeRules) {
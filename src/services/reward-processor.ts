@@ -1,23 +1,81 @@
 /**
  * 待发放奖金自动处理器
  * 定期扫描并尝试发放失败的奖金
+ * 上游熔断期间发放的奖励（成就、投喂）也转入待发放，恢复后由本处理器补发
  */
 
-import { pendingRewardQueries, adminQueries } from '../database';
-import { getKyxUserById, updateKyxUserQuota } from './kyx-api';
+import { pendingRewardQueries, userQueries } from '../database';
+import { addQuota } from './quota-queue';
+import type { QuotaMutationResult } from './quota-queue';
+import { upstreamBreakers, UPSTREAM_UNAVAILABLE } from './circuit-breaker';
 import logger from '../utils/logger';
+import { LedgerAccounts, postUpstreamCredit } from './ledger';
+import type { LedgerReason } from './ledger';
+import type { PendingReward } from '../types';
 
 // 配置
-const PROCESS_INTERVAL = 60000; // 每60秒处理一次
 const MAX_RETRY_COUNT = 10; // 最大重试次数
 const BATCH_SIZE = 10; // 每次处理的最大数量
 
 let isProcessing = false;
 
+/**
+ * 奖励来源对应的出账账户（老虎机奖金由奖池支付，其余由奖励账户支付）
+ */
+export function getRewardHouseAccount(source: string): string {
+    return source === 'slot_pending_reward' ? LedgerAccounts.HOUSE_SLOT : LedgerAccounts.HOUSE_REWARDS;
+}
+
+/**
+ * 写入待发放奖金，返回记录 ID
+ */
+export function deferReward(params: {
+    linuxDoId: string;
+    kyxUserId: number;
+    amount: number;
+    source: LedgerReason;
+    reason: string;
+    errorMessage?: string;
+}): number {
+    const now = Date.now();
+    const username = userQueries.get.get(params.linuxDoId)?.username || params.linuxDoId;
+    const result = pendingRewardQueries.insert.run(
+        params.linuxDoId, params.kyxUserId, username, params.amount, params.reason, params.source, 'pending', 0, params.errorMessage ?? null, now, now
+    );
+    logger.info('奖金发放', `📥 奖励转入待发放 - 用户: ${username}, 金额: $${(params.amount / 500000).toFixed(2)}, 来源: ${params.source}`);
+    return Number(result.lastInsertRowid);
+}
+
+/**
+ * 发放上游奖励：上游不可用（熔断）时转入待发放奖金，由定时任务恢复后补发
+ * 直接到账时由调用方记账；转入待发放的奖励在补发成功时记账
+ */
+export async function creditReward(params: {
+    linuxDoId: string;
+    kyxUserId: number;
+    amount: number;
+    source: LedgerReason;
+    reason: string;
+}): Promise<QuotaMutationResult & { deferred: boolean; pendingRewardId?: number }> {
+    const result = await addQuota(params.kyxUserId, params.amount, params.source, { linuxDoId: params.linuxDoId });
+    if (result.success || result.errorCode !== UPSTREAM_UNAVAILABLE) {
+        return { ...result, deferred: false };
+    }
+
+    const pendingRewardId = deferReward({ ...params, errorMessage: result.message });
+    return {
+        ...result,
+        success: true,
+        message: '上游暂不可用，奖励已转入待发放，恢复后自动到账',
+        deferred: true,
+        pendingRewardId,
+    };
+}
+
 /**
  * 处理单个待发放奖金
  */
-async function processPendingReward(reward: any): Promise<boolean> {
+async function processPendingReward(reward: PendingReward): Promise<boolean> {
     const context = `[奖金发放] ID: ${reward.id}, 用户: ${reward.username}`;
 
     try {
@@ -27,65 +85,26 @@ async function processPendingReward(reward: any): Promise<boolean> {
         const now = Date.now();
         pendingRewardQueries.updateStatus.run('processing', now, null, reward.id);
 
-        // 获取管理员配置
-        const adminConfig = adminQueries.get.get();
-        if (!adminConfig) {
-            throw new Error('系统配置未找到');
-        }
-
-        // 获取用户当前额度
-        const userResult = await getKyxUserById(
-            reward.kyx_user_id,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            3,
-            true // 跳过缓存，获取最新数据
-        );
+        // 通过额度队列发放（与其他额度变动串行，避免互相覆盖）
+        const source = reward.source || 'slot_pending_reward';
+        const updateResult = await addQuota(reward.kyx_user_id, reward.reward_amount, source, { linuxDoId: reward.linux_do_id });
 
-        if (!userResult.success || !userResult.user) {
-            throw new Error(`获取用户信息失败: ${userResult.message || '未知错误'}`);
+        // 收款上游熔断：退回待发放，不消耗重试次数，恢复后补发
+        if (updateResult.errorCode === UPSTREAM_UNAVAILABLE) {
+            pendingRewardQueries.updateStatus.run('pending', now, updateResult.message ?? null, reward.id);
+            logger.warn('奖金发放', `${context} - 收款上游熔断中，保持待发放`);
+            return false;
         }
 
-        const currentQuota = userResult.user.quota;
-        const newQuota = currentQuota + reward.reward_amount;
-
-        logger.debug('奖金发放', `${context} - 当前额度: ${currentQuota}, 奖金: ${reward.reward_amount}, 目标额度: ${newQuota}`);
-
-        // 更新额度
-        const updateResult = await updateKyxUserQuota(
-            reward.kyx_user_id,
-            newQuota,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            reward.username,
-            userResult.user.group || 'default'
-        );
-
-        if (!updateResult || !updateResult.success) {
-            throw new Error(`更新额度失败: ${updateResult?.message || '未知错误'}`);
+        if (!updateResult.success) {
+            throw new Error(`更新额度失败: ${updateResult.message || '未知错误'}`);
         }
 
-        // 验证额度是否真的更新了
-        const verifyResult = await getKyxUserById(
-            reward.kyx_user_id,
-            adminConfig.session,
-            adminConfig.new_api_user,
-            3,
-            true
-        );
-
-        if (verifyResult.success && verifyResult.user) {
-            const actualQuota = verifyResult.user.quota;
-            logger.debug('奖金发放', `${context} - 验证额度 - 期望: ${newQuota}, 实际: ${actualQuota}`);
-
-            // 允许小范围误差
-            if (Math.abs(actualQuota - newQuota) > reward.reward_amount) {
-                throw new Error(`额度验证失败 - 期望: ${newQuota}, 实际: ${actualQuota}`);
-            }
-        }
+        logger.debug('奖金发放', `${context} - 额度: ${updateResult.balanceBefore} → ${updateResult.balanceAfter}`);
 
         // 标记为成功
         pendingRewardQueries.markSuccess.run('success', now, now, reward.id);
+        postUpstreamCredit(reward.linux_do_id, reward.reward_amount, source, getRewardHouseAccount(source), reward.id, reward.reason);
         logger.info('奖金发放', `${context} - ✅ 发放成功`);
 
         return true;
@@ -109,14 +128,20 @@ async function processPendingReward(reward: any): Promise<boolean> {
 }
 
 /**
- * 批量处理待发放奖金
+ * 批量处理待发放奖金（由定时任务每分钟调用）
  */
-async function processPendingRewards() {
+export async function processPendingRewards() {
     if (isProcessing) {
         logger.debug('奖金发放', '上一批次仍在处理中，跳过本次');
         return;
     }
 
+    // 主站熔断期间发放必然失败，不消耗重试次数（其他收款上游熔断时逐条退回待发放）
+    if (upstreamBreakers.get_user.isOpen() || upstreamBreakers.update_quota.isOpen()) {
+        logger.debug('奖金发放', '上游熔断中，跳过本次');
+        return;
+    }
+
     isProcessing = true;
 
     try {
@@ -155,21 +180,6 @@ async function processPendingRewards() {
     }
 }
 
-/**
- * 启动自动发放服务
- */
-export function startRewardProcessor() {
-    logger.info('奖金发放', `🚀 启动自动发放服务 - 间隔: ${PROCESS_INTERVAL / 1000}秒`);
-
-    // 立即执行一次
-    processPendingRewards();
-
-    // 定期执行
-    setInterval(() => {
-        processPendingRewards();
-    }, PROCESS_INTERVAL);
-}
-
 /**
  * 手动触发处理（用于测试或管理后台）
  * 优化版：异步后台处理，立即返回，避免阻塞
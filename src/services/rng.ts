@@ -0,0 +1,140 @@
+/**
+ * 随机数生成器（RNG）
+ * 所有需要随机数的业务（符号抽取、掉落判定、概率模拟）统一通过 Rng 接口取数，便于替换实现：
+ * - CryptoRng：生产环境默认，基于 crypto.getRandomValues
+ * - SeededRng：确定性实现，相同种子产生相同序列，用于测试与模拟复现
+ */
+
+export interface Rng {
+    /** 返回 [0, 1) 的均匀随机数 */
+    next(): number;
+}
+
+/**
+ * 加权条目（有序，顺序影响抽取结果）
+ */
+export type WeightedEntries<T extends string = string> = Array<[T, number]>;
+
+const UINT32_RANGE = 2 ** 32;
+const BUFFER_SIZE = 1024;
+
+/**
+ * 基于 crypto.getRandomValues 的随机数生成器（批量取数，减少系统调用）
+ */
+export class CryptoRng implements Rng {
+    private buffer = new Uint32Array(BUFFER_SIZE);
+    private index = BUFFER_SIZE;
+
+    private nextUint32(): number {
+        if (this.index >= BUFFER_SIZE) {
+            crypto.getRandomValues(this.buffer);
+            this.index = 0;
+        }
+        return this.buffer[this.index++]!;
+    }
+
+    next(): number {
+        // 53 位精度：高 27 位 + 低 26 位
+        const high = this.nextUint32() >>> 5;
+        const low = this.nextUint32() >>> 6;
+        return (high * 67108864 + low) / 9007199254740992;
+    }
+}
+
+/**
+ * 确定性随机数生成器（sfc32，种子经 SHA-256 展开为 128 位状态）
+ */
+export class SeededRng implements Rng {
+    readonly seed: string;
+    private a: number;
+    private b: number;
+    private c: number;
+    private d: number;
+
+    constructor(seed: string | number) {
+        this.seed = String(seed);
+
+        const hasher = new Bun.CryptoHasher('sha256');
+        hasher.update(this.seed);
+        const state = new DataView((hasher.digest() as Uint8Array).buffer);
+        this.a = state.getUint32(0);
+        this.b = state.getUint32(4);
+        this.c = state.getUint32(8);
+        this.d = state.getUint32(12);
+
+        // 丢弃前若干输出，使状态充分混合
+        for (let i = 0; i < 12; i++) {
+            this.nextUint32();
+        }
+    }
+
+    private nextUint32(): number {
+        const t = (((this.a + this.b) | 0) + this.d) | 0;
+        this.d = (this.d + 1) | 0;
+        this.a = this.b ^ (this.b >>> 9);
+        this.b = (this.c + (this.c << 3)) | 0;
+        this.c = (this.c << 21) | (this.c >>> 11);
+        this.c = (this.c + t) | 0;
+        return t >>> 0;
+    }
+
+    next(): number {
+        return this.nextUint32() / UINT32_RANGE;
+    }
+}
+
+let defaultRng: Rng = new CryptoRng();
+
+/**
+ * 获取默认随机数生成器
+ */
+export function getRng(): Rng {
+    return defaultRng;
+}
+
+/**
+ * 替换默认随机数生成器（测试/模拟用），返回原生成器以便恢复
+ */
+export function setRng(rng: Rng): Rng {
+    const previous = defaultRng;
+    defaultRng = rng;
+    return previous;
+}
+
+/**
+ * 按概率判定（probability 取值 0~1）
+ */
+export function chance(probability: number, rng: Rng = defaultRng): boolean {
+    return rng.next() < probability;
+}
+
+/**
+ * 按权重抽取一个条目（忽略非正权重）
+ */
+export function pickWeighted<T extends string>(weights: WeightedEntries<T>, rng: Rng = defaultRng): T {
+    const totalWeight = weights.reduce((sum, [, weight]) => sum + (weight > 0 ? weight : 0), 0);
+    if (totalWeight <= 0) {
+        throw new Error('权重配置无效');
+    }
+
+    let point = Math.floor(rng.next() * totalWeight);
+    for (const [item, weight] of weights) {
+        if (weight <= 0) continue;
+        if (point < weight) {
+            return item;
+        }
+        point -= weight;
+    }
+    return weights[weights.length - 1]![0];
+}
+
+/**
+ * 按权重抽取多个符号（每个转轴独立抽取）
+ */
+export function drawSymbols(weights: WeightedEntries, count: number = 4, rng: Rng = defaultRng): string[] {
+    const symbols: string[] = [];
+    for (let i = 0; i < count; i++) {
+        symbols.push(pickWeighted(weights, rng));
+    }
+    return symbols;
+}
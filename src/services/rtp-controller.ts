@@ -0,0 +1,473 @@
+/**
+ * RTP 控制器
+ * 按场次比较滚动窗口内的实际 RTP 与目标值，在预先审核的权重方案阶梯中逐档切换
+ * - 实际 RTP 高于「目标 + 回滞区间」时降一档，低于「目标 - 回滞区间」时升一档，区间内保持不动
+ * - 每档的期望 RTP（精确枚举，严格连续判定）必须落在硬边界内，越界或已删除的档位不会被切换到
+ * - 样本不足、冷却期内、当前方案不在阶梯中、奖励倍数限时活动进行中时不做调整
+ * 启用后的每次评估都写入决策记录；紧急停止会关闭控制器，并可恢复启用时的权重方案
+ */
+
+import { advancedSlotQueries, rtpControllerQueries, supremeSlotQueries, weightConfigQueries } from '../database';
+import type { RtpControllerAction, RtpControllerConfig, RtpControllerDecision, RtpControllerMode } from '../types';
+import logger from '../utils/logger';
+import { recordConfigVersion, snapshotConfig } from './config-versions';
+import { getActiveEventEffect } from './events';
+import { calculateProbabilityExact } from './probability-calculator';
+
+export const RTP_CONTROLLER_MODES: RtpControllerMode[] = ['advanced', 'supreme'];
+
+const MODE_NAMES: Record<RtpControllerMode, string> = { advanced: '高级场', supreme: '至尊场' };
+const MAX_LADDER_STEPS = 10;
+const DECISION_RETENTION_DAYS = 30;
+
+export function isRtpControllerMode(value: string): value is RtpControllerMode {
+    return (RTP_CONTROLLER_MODES as string[]).includes(value);
+}
+
+/**
+ * 控制器配置输入（比例均为小数，如 0.95）
+ */
+export interface RtpControllerInput {
+    enabled?: boolean;
+    target_rtp?: number | null;
+    window_hours?: number;
+    min_spins?: number;
+    deadband?: number;
+    cooldown_minutes?: number;
+    ladder?: number[];
+    min_rtp?: number;
+    max_rtp?: number;
+}
+
+/**
+ * 单次评估结果（尚未写入）
+ */
+export interface RtpEvaluation {
+    mode: RtpControllerMode;
+    action: RtpControllerAction;
+    reason: string;
+    targetRtp: number | null;
+    realizedRtp: number | null;
+    windowSpins: number;
+    windowBet: number;
+    windowWin: number;
+    previousWeightConfigId: number | null;
+    newWeightConfigId: number | null;
+    expectedRtp: number | null;
+}
+
+function parseLadder(config: RtpControllerConfig): number[] {
+    try {
+        const ladder = JSON.parse(config.ladder);
+        return Array.isArray(ladder) ? ladder.filter(id => Number.isInteger(id)) : [];
+    } catch {
+        return [];
+    }
+}
+
+function getConfig(mode: RtpControllerMode): RtpControllerConfig {
+    const config = rtpControllerQueries.getConfig.get(mode);
+    if (!config) {
+        throw new Error(`${MODE_NAMES[mode]} RTP 控制器配置不存在`);
+    }
+    return config;
+}
+
+/**
+ * 场次当前使用的权重/奖励方案
+ */
+function getVenueSchemes(mode: RtpControllerMode): { weightConfigId: number; rewardSchemeId: number } {
+    const config = mode === 'advanced' ? advancedSlotQueries.getAdvancedConfig.get() : supremeSlotQueries.getConfig.get();
+    if (!config) {
+        throw new Error(`${MODE_NAMES[mode]}配置不存在`);
+    }
+    return { weightConfigId: config.weight_config_id || 1, rewardSchemeId: config.reward_scheme_id || 1 };
+}
+
+/**
+ * 目标 RTP：控制器未单独设置时，高级场沿用场次配置中的 rtp_target，至尊场必须单独设置
+ */
+function resolveTarget(config: RtpControllerConfig): number | null {
+    if (config.target_rtp !== null) {
+        return config.target_rtp;
+    }
+    if (config.mode === 'advanced') {
+        return advancedSlotQueries.getAdvancedConfig.get()?.rtp_target ?? null;
+    }
+    return null;
+}
+
+/**
+ * 档位的期望 RTP（比例），权重方案不存在或已删除时返回 null
+ */
+function getStepExpectedRtp(weightConfigId: number, rewardSchemeId: number): number | null {
+    const weightConfig = weightConfigQueries.getById.get(weightConfigId);
+    if (!weightConfig || weightConfig.is_deleted) {
+        return null;
+    }
+    try {
+        return calculateProbabilityExact(weightConfigId, rewardSchemeId, true).rtp / 100;
+    } catch (error: any) {
+        logger.warn('RTP控制器', `权重方案 ${weightConfigId} 期望 RTP 计算失败: ${error.message}`);
+        return null;
+    }
+}
+
+function getWindowStats(config: RtpControllerConfig): { spins: number; bet: number; win: number } {
+    const since = Date.now() - config.window_hours * 3600 * 1000;
+    const stats = config.mode === 'advanced'
+        ? rtpControllerQueries.getAdvancedWindowStats.get(since)
+        : rtpControllerQueries.getSupremeWindowStats.get(since);
+    return { spins: stats?.spins || 0, bet: stats?.bet || 0, win: stats?.win || 0 };
+}
+
+/**
+ * 评估一次（不切换、不写记录），未启用时同样可用于预览
+ */
+export function evaluateRtpController(mode: RtpControllerMode): RtpEvaluation {
+    const config = getConfig(mode);
+    const { weightConfigId, rewardSchemeId } = getVenueSchemes(mode);
+    const targetRtp = resolveTarget(config);
+    const window = getWindowStats(config);
+    const realizedRtp = window.bet > 0 ? window.win / window.bet : null;
+
+    const evaluation: RtpEvaluation = {
+        mode,
+        action: 'hold',
+        reason: '',
+        targetRtp,
+        realizedRtp,
+        windowSpins: window.spins,
+        windowBet: window.bet,
+        windowWin: window.win,
+        previousWeightConfigId: weightConfigId,
+        newWeightConfigId: null,
+        expectedRtp: null
+    };
+    const skip = (reason: string): RtpEvaluation => ({ ...evaluation, action: 'skip', reason });
+    const hold = (reason: string): RtpEvaluation => ({ ...evaluation, action: 'hold', reason });
+
+    if (targetRtp === null) {
+        return skip('未设置目标 RTP');
+    }
+    // 活动期间的实际 RTP 含活动奖励，不据此换档
+    const rewardEvent = getActiveEventEffect(mode, 'reward_multiplier');
+    if (rewardEvent) {
+        return skip(`限时活动「${rewardEvent.name}」进行中`);
+    }
+    const ladder = parseLadder(config);
+    const index = ladder.indexOf(weightConfigId);
+    if (index === -1) {
+        return skip(`当前权重方案 ${weightConfigId} 不在阶梯中`);
+    }
+    if (window.spins < config.min_spins || realizedRtp === null) {
+        return hold(`样本不足（${window.spins}/${config.min_spins} 次）`);
+    }
+
+    const gap = realizedRtp - targetRtp;
+    if (Math.abs(gap) <= config.deadband) {
+        return hold(`实际 RTP 在目标 ±${config.deadband} 内`);
+    }
+
+    const lastSwitch = rtpControllerQueries.getLastSwitch.get(mode);
+    const cooldownMs = config.cooldown_minutes * 60 * 1000;
+    if (lastSwitch && Date.now() - lastSwitch.created_at < cooldownMs) {
+        const remaining = Math.ceil((lastSwitch.created_at + cooldownMs - Date.now()) / 60000);
+        return hold(`冷却中（还需 ${remaining} 分钟）`);
+    }
+
+    const action: RtpControllerAction = gap > 0 ? 'step_down' : 'step_up';
+    const nextIndex = action === 'step_down' ? index - 1 : index + 1;
+    if (nextIndex < 0 || nextIndex >= ladder.length) {
+        return hold(action === 'step_down' ? '已在最低档' : '已在最高档');
+    }
+
+    const nextWeightConfigId = ladder[nextIndex]!;
+    const expectedRtp = getStepExpectedRtp(nextWeightConfigId, rewardSchemeId);
+    if (expectedRtp === null) {
+        return hold(`目标档位（权重方案 ${nextWeightConfigId}）不可用`);
+    }
+    if (expectedRtp < config.min_rtp || expectedRtp > config.max_rtp) {
+        return {
+            ...hold(`目标档位期望 RTP ${expectedRtp.toFixed(4)} 超出硬边界 [${config.min_rtp}, ${config.max_rtp}]`),
+            expectedRtp
+        };
+    }
+
+    return {
+        ...evaluation,
+        action,
+        reason: `实际 RTP ${realizedRtp.toFixed(4)} ${gap > 0 ? '高于' : '低于'}目标 ${targetRtp}（回滞 ±${config.deadband}）`,
+        newWeightConfigId: nextWeightConfigId,
+        expectedRtp
+    };
+}
+
+function recordDecision(evaluation: RtpEvaluation): RtpControllerDecision {
+    return rtpControllerQueries.insertDecision.get(
+        evaluation.mode,
+        evaluation.action,
+        evaluation.reason,
+        evaluation.targetRtp,
+        evaluation.realizedRtp,
+        evaluation.windowSpins,
+        evaluation.windowBet,
+        evaluation.windowWin,
+        evaluation.previousWeightConfigId,
+        evaluation.newWeightConfigId,
+        evaluation.expectedRtp,
+        Date.now()
+    )!;
+}
+
+/**
+ * 切换场次权重方案（仅当当前方案仍为 fromId 时生效），成功时记录配置版本，返回是否切换成功
+ */
+function switchWeight(mode: RtpControllerMode, fromId: number, toId: number, source: string): boolean {
+    const query = mode === 'advanced' ? rtpControllerQueries.switchAdvancedWeight : rtpControllerQueries.switchSupremeWeight;
+    const before = snapshotConfig(mode);
+    if (query.run(toId, Date.now(), fromId).changes === 0) {
+        return false;
+    }
+    recordConfigVersion(mode, 1, before, { actor: 'rtp-controller', ip: null, source });
+    return true;
+}
+
+/**
+ * 执行一次控制（未启用时返回 null）
+ */
+export function runRtpController(mode: RtpControllerMode): RtpControllerDecision | null {
+    const config = getConfig(mode);
+    if (!config.enabled) {
+        return null;
+    }
+
+    let evaluation = evaluateRtpController(mode);
+    if (evaluation.action === 'step_up' || evaluation.action === 'step_down') {
+        if (switchWeight(mode, evaluation.previousWeightConfigId!, evaluation.newWeightConfigId!, `RTP 控制器${evaluation.action === 'step_up' ? '升' : '降'}档`)) {
+            logger.warn('RTP控制器', `🎚️ ${MODE_NAMES[mode]}${evaluation.action === 'step_up' ? '升' : '降'}档：权重方案 ${evaluation.previousWeightConfigId} → ${evaluation.newWeightConfigId} - ${evaluation.reason}`);
+        } else {
+            evaluation = { ...evaluation, action: 'hold', reason: '权重方案已被修改，本轮不换档', newWeightConfigId: null };
+        }
+    }
+
+    const decision = recordDecision(evaluation);
+    if (decision.action === 'hold' || decision.action === 'skip') {
+        logger.debug('RTP控制器', `${MODE_NAMES[mode]} ${decision.action}: ${decision.reason}`);
+    }
+    return decision;
+}
+
+/**
+ * 定时任务：依次执行所有已启用的控制器
+ */
+export function runAllRtpControllers(): { evaluated: number; switched: number } {
+    let evaluated = 0;
+    let switched = 0;
+    for (const mode of RTP_CONTROLLER_MODES) {
+        try {
+            const decision = runRtpController(mode);
+            if (!decision) continue;
+            evaluated++;
+            if (decision.action === 'step_up' || decision.action === 'step_down') {
+                switched++;
+            }
+        } catch (error: any) {
+            logger.error('RTP控制器', `${MODE_NAMES[mode]}控制失败: ${error.message}`);
+        }
+    }
+    return { evaluated, switched };
+}
+
+function validateInput(input: RtpControllerInput): string | null {
+    const isNumber = (value: unknown) => typeof value === 'number' && Number.isFinite(value);
+
+    if (input.target_rtp !== undefined && input.target_rtp !== null && (!isNumber(input.target_rtp) || input.target_rtp <= 0 || input.target_rtp > 2)) {
+        return '目标 RTP 必须在 0 到 2 之间（比例，如 0.95）';
+    }
+    if (input.window_hours !== undefined && (!isNumber(input.window_hours) || input.window_hours < 1 || input.window_hours > 168)) {
+        return '统计窗口必须在 1 到 168 小时之间';
+    }
+    if (input.min_spins !== undefined && (!Number.isInteger(input.min_spins) || input.min_spins < 1)) {
+        return '最少旋转次数必须为正整数';
+    }
+    if (input.deadband !== undefined && (!isNumber(input.deadband) || input.deadband < 0 || input.deadband > 0.5)) {
+        return '回滞区间必须在 0 到 0.5 之间';
+    }
+    if (input.cooldown_minutes !== undefined && (!Number.isInteger(input.cooldown_minutes) || input.cooldown_minutes < 0 || input.cooldown_minutes > 10080)) {
+        return '冷却时间必须在 0 到 10080 分钟之间';
+    }
+    if (input.min_rtp !== undefined && (!isNumber(input.min_rtp) || input.min_rtp <= 0)) {
+        return '硬边界下限必须大于 0';
+    }
+    if (input.max_rtp !== undefined && (!isNumber(input.max_rtp) || input.max_rtp <= 0)) {
+        return '硬边界上限必须大于 0';
+    }
+    if (input.ladder !== undefined) {
+        if (!Array.isArray(input.ladder) || input.ladder.length > MAX_LADDER_STEPS || !input.ladder.every(id => Number.isInteger(id))) {
+            return `阶梯必须为权重方案ID数组，最多 ${MAX_LADDER_STEPS} 档`;
+        }
+        if (new Set(input.ladder).size !== input.ladder.length) {
+            return '阶梯中的权重方案不能重复';
+        }
+    }
+    return null;
+}
+
+/**
+ * 更新控制器配置
+ * 阶梯按各档期望 RTP 从低到高排序保存，任一档超出硬边界则拒绝；启用时记录当前权重方案作为恢复基线
+ */
+export function updateRtpControllerConfig(mode: RtpControllerMode, input: RtpControllerInput): { success: boolean; message: string; data?: ReturnType<typeof toPublicConfig> } {
+    const error = validateInput(input);
+    if (error) {
+        return { success: false, message: error };
+    }
+
+    const config = getConfig(mode);
+    const next = {
+        enabled: input.enabled === undefined ? config.enabled : (input.enabled ? 1 : 0),
+        target_rtp: input.target_rtp !== undefined ? input.target_rtp : config.target_rtp,
+        window_hours: input.window_hours ?? config.window_hours,
+        min_spins: input.min_spins ?? config.min_spins,
+        deadband: input.deadband ?? config.deadband,
+        cooldown_minutes: input.cooldown_minutes ?? config.cooldown_minutes,
+        ladder: input.ladder ?? parseLadder(config),
+        min_rtp: input.min_rtp ?? config.min_rtp,
+        max_rtp: input.max_rtp ?? config.max_rtp
+    };
+    if (next.min_rtp >= next.max_rtp) {
+        return { success: false, message: '硬边界下限必须小于上限' };
+    }
+
+    // 校验每一档的期望 RTP 并排序
+    const { weightConfigId, rewardSchemeId } = getVenueSchemes(mode);
+    const steps: Array<{ id: number; rtp: number }> = [];
+    for (const id of next.ladder) {
+        const rtp = getStepExpectedRtp(id, rewardSchemeId);
+        if (rtp === null) {
+            return { success: false, message: `权重方案 ${id} 不存在或已删除` };
+        }
+        if (rtp < next.min_rtp || rtp > next.max_rtp) {
+            return { success: false, message: `权重方案 ${id} 的期望 RTP ${rtp.toFixed(4)} 超出硬边界 [${next.min_rtp}, ${next.max_rtp}]` };
+        }
+        steps.push({ id, rtp });
+    }
+    steps.sort((a, b) => a.rtp - b.rtp);
+
+    const enabling = next.enabled === 1 && config.enabled !== 1;
+    if (enabling) {
+        if (steps.length < 2) {
+            return { success: false, message: '启用前请至少配置两档权重方案' };
+        }
+        if (next.target_rtp === null && (mode === 'supreme' || resolveTarget(config) === null)) {
+            return { success: false, message: '启用前请设置目标 RTP' };
+        }
+        if (!steps.some(step => step.id === weightConfigId)) {
+            return { success: false, message: `${MODE_NAMES[mode]}当前权重方案 ${weightConfigId} 不在阶梯中` };
+        }
+    }
+
+    rtpControllerQueries.updateConfig.run(
+        next.enabled,
+        next.target_rtp,
+        next.window_hours,
+        next.min_spins,
+        next.deadband,
+        next.cooldown_minutes,
+        JSON.stringify(steps.map(step => step.id)),
+        next.min_rtp,
+        next.max_rtp,
+        enabling ? weightConfigId : config.baseline_weight_config_id,
+        Date.now(),
+        mode
+    );
+
+    if (enabling) {
+        logger.warn('RTP控制器', `▶️ ${MODE_NAMES[mode]} RTP 控制器已启用，基线权重方案 ${weightConfigId}`);
+    } else if (next.enabled === 0 && config.enabled === 1) {
+        logger.warn('RTP控制器', `⏸️ ${MODE_NAMES[mode]} RTP 控制器已关闭`);
+    }
+    return { success: true, message: 'RTP 控制器配置已更新', data: toPublicConfig(getConfig(mode)) };
+}
+
+/**
+ * 紧急停止：关闭控制器并记录决策，restore 为 true 时恢复启用时的权重方案
+ */
+export function killRtpController(mode: RtpControllerMode, restore: boolean): { stopped: boolean; restoredWeightConfigId: number | null } {
+    const config = getConfig(mode);
+    const { weightConfigId } = getVenueSchemes(mode);
+    const stopped = rtpControllerQueries.disable.run(Date.now(), mode).changes > 0;
+
+    let restoredWeightConfigId: number | null = null;
+    const baseline = config.baseline_weight_config_id;
+    if (restore && baseline !== null && baseline !== weightConfigId && switchWeight(mode, weightConfigId, baseline, 'RTP 控制器紧急停止')) {
+        restoredWeightConfigId = baseline;
+    }
+
+    recordDecision({
+        mode,
+        action: 'killed',
+        reason: restoredWeightConfigId !== null ? `紧急停止，恢复基线权重方案 ${baseline}` : '紧急停止',
+        targetRtp: resolveTarget(config),
+        realizedRtp: null,
+        windowSpins: 0,
+        windowBet: 0,
+        windowWin: 0,
+        previousWeightConfigId: weightConfigId,
+        newWeightConfigId: restoredWeightConfigId,
+        expectedRtp: null
+    });
+    logger.warn('RTP控制器', `🛑 ${MODE_NAMES[mode]} RTP 控制器紧急停止${restoredWeightConfigId !== null ? `，权重方案恢复为 ${restoredWeightConfigId}` : ''}`);
+
+    return { stopped, restoredWeightConfigId };
+}
+
+function toPublicConfig(config: RtpControllerConfig) {
+    return { ...config, enabled: config.enabled === 1, ladder: parseLadder(config) };
+}
+
+/**
+ * 控制器状态：配置、各档期望 RTP、当前窗口与本轮评估预览
+ */
+export function getRtpControllerStatus() {
+    return RTP_CONTROLLER_MODES.map(mode => {
+        const config = getConfig(mode);
+        const { weightConfigId, rewardSchemeId } = getVenueSchemes(mode);
+        const ladder = parseLadder(config).map(id => {
+            const expectedRtp = getStepExpectedRtp(id, rewardSchemeId);
+            return {
+                weight_config_id: id,
+                expected_rtp: expectedRtp,
+                in_bounds: expectedRtp !== null && expectedRtp >= config.min_rtp && expectedRtp <= config.max_rtp,
+                current: id === weightConfigId
+            };
+        });
+
+        return {
+            ...toPublicConfig(config),
+            name: MODE_NAMES[mode],
+            resolved_target_rtp: resolveTarget(config),
+            current_weight_config_id: weightConfigId,
+            reward_scheme_id: rewardSchemeId,
+            ladder_steps: ladder,
+            preview: evaluateRtpController(mode),
+            last_decision: rtpControllerQueries.getDecisionsByMode.get(mode, 1) ?? null
+        };
+    });
+}
+
+/**
+ * 决策记录（最新在前）
+ */
+export function getRtpDecisions(mode: RtpControllerMode | null, limit: number): RtpControllerDecision[] {
+    return mode ? rtpControllerQueries.getDecisionsByMode.all(mode, limit) : rtpControllerQueries.getDecisions.all(limit);
+}
+
+/**
+ * 清理过期的决策记录
+ */
+export function cleanupRtpDecisions(): { deleted: number } {
+    const cutoff = Date.now() - DECISION_RETENTION_DAYS * 24 * 3600 * 1000;
+    return { deleted: rtpControllerQueries.cleanupDecisions.run(cutoff).changes };
+}
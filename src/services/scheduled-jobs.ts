@@ -0,0 +1,138 @@
+/**
+ * 定时任务清单
+ * 所有后台周期任务在此集中注册，执行时间均为北京时间
+ */
+
+import { CONFIG } from '../config';
+import { sessionQueries } from '../database';
+import { cleanupExpiredIdempotencyKeys } from '../middleware/idempotency';
+import logger from '../utils/logger';
+import { runScheduledBackup } from './backup';
+import { syncTimedEventStatuses } from './events';
+import { checkOverdueLoans } from './kunbei';
+import { refreshAllCreditScores } from './kunbei-credit';
+import { captureKunbeiPortfolioSnapshot } from './kunbei-portfolio';
+import { checkAllRankAchievements } from './rank-achievement-checker';
+import { cleanupQuotaMutations, resumeQuotaQueue } from './quota-queue';
+import { processPendingRewards } from './reward-processor';
+import { cleanupRtpDecisions, runAllRtpControllers } from './rtp-controller';
+import { registerJob } from './scheduler';
+import { cleanOldDailyStats, cleanOldWeeklyStats } from './slot';
+import { reconcileWalletTransfers } from './wallet-transfer';
+
+/**
+ * 注册所有定时任务
+ */
+export function registerScheduledJobs(): void {
+    registerJob({
+        name: 'reward-processor',
+        description: '待发放奖金自动发放',
+        cron: '* * * * *',
+        handler: processPendingRewards,
+    });
+
+    registerJob({
+        name: 'wallet-transfer-reconcile',
+        description: '钱包划转对账（续做或冲正中断的划转）',
+        cron: '* * * * *',
+        handler: () => reconcileWalletTransfers(),
+    });
+
+    registerJob({
+        name: 'quota-queue-resume',
+        description: '续做遗留的上游额度变动（重试写入失败的补发、核对中断的写入）',
+        cron: '* * * * *',
+        handler: resumeQuotaQueue,
+    });
+
+    registerJob({
+        name: 'timed-events',
+        description: '限时活动状态推进（到点开始、到期结束）',
+        cron: '* * * * *',
+        handler: syncTimedEventStatuses,
+    });
+
+    registerJob({
+        name: 'rank-achievements',
+        description: '排行榜成就检查',
+        cron: '0 * * * *',
+        handler: checkAllRankAchievements,
+    });
+
+    registerJob({
+        name: 'leaderboard-cleanup',
+        description: '清理过期的日榜/周榜数据',
+        cron: '0 3 * * *',
+        handler: () => {
+            cleanOldDailyStats();
+            cleanOldWeeklyStats();
+        },
+    });
+
+    registerJob({
+        name: 'kunbei-overdue',
+        description: '坤呗逾期借款批量处理',
+        cron: '*/5 * * * *',
+        handler: async () => ({ processed: await checkOverdueLoans() }),
+    });
+
+    registerJob({
+        name: 'kunbei-credit-refresh',
+        description: '坤呗信用分每日重新评估（近期逾期扣分与账号年龄随时间变化）',
+        cron: '30 4 * * *',
+        handler: () => refreshAllCreditScores(),
+    });
+
+    registerJob({
+        name: 'kunbei-portfolio-snapshot',
+        description: '记录坤呗资产组合每日快照',
+        cron: '55 23 * * *',
+        handler: () => ({ date: captureKunbeiPortfolioSnapshot().date }),
+    });
+
+    registerJob({
+        name: 'rtp-controller',
+        description: '高级场/至尊场 RTP 闭环控制（按实际 RTP 切换权重方案档位）',
+        cron: '*/10 * * * *',
+        handler: () => runAllRtpControllers(),
+    });
+
+    registerJob({
+        name: 'rtp-decision-cleanup',
+        description: '清理 30 天前的 RTP 控制器决策记录',
+        cron: '45 4 * * *',
+        handler: () => cleanupRtpDecisions(),
+    });
+
+    registerJob({
+        name: 'session-cleanup',
+        description: '清理过期 Session',
+        cron: '0 */6 * * *',
+        handler: () => ({ deleted: sessionQueries.cleanup.run(Date.now()).changes }),
+    });
+
+    registerJob({
+        name: 'idempotency-cleanup',
+        description: '清理过期幂等键',
+        cron: '30 * * * *',
+        handler: () => ({ deleted: cleanupExpiredIdempotencyKeys() }),
+    });
+
+    registerJob({
+        name: 'quota-mutation-cleanup',
+        description: '清理 7 天前已结束的额度变动记录',
+        cron: '15 4 * * *',
+        handler: () => cleanupQuotaMutations(),
+    });
+
+    if (CONFIG.BACKUP_CRON.trim()) {
+        registerJob({
+            name: 'database-backup',
+            description: '数据库快照备份与过期快照清理',
+            cron: CONFIG.BACKUP_CRON,
+            handler: runScheduledBackup,
+        });
+    } else {
+        logger.info('定时任务', '⏸️ 未配置 BACKUP_CRON，定时备份已关闭');
+    }
+}
@@ -0,0 +1,290 @@
+/**
+ * 定时任务调度器
+ * - 任务使用 cron 表达式（北京时间）定义执行时间，状态持久化在 scheduled_jobs 表
+ * - 进程重启后，错过的执行会立即补跑一次（多次错过也只补一次）
+ * - 执行前在数据库中抢占锁，同一任务同一时刻只会有一个执行
+ * - 每次执行写入 scheduled_job_runs，保留最近若干条历史
+ * 注：缓存、限流等纯内存数据的清理仍由各模块自行定时处理
+ */
+
+import { hostname } from 'os';
+import { schedulerQueries } from '../database';
+import { getNextRunTime, parseCron, type CronSchedule } from '../utils/cron';
+import logger from '../utils/logger';
+import type { ScheduledJobRun, ScheduledJobState, ScheduledJobTrigger } from '../types';
+
+export interface ScheduledJobDefinition {
+    name: string;
+    description: string;
+    cron: string;
+    handler: () => unknown | Promise<unknown>;
+    lockTimeoutMs?: number;  // 锁超时时间（持有者异常退出时可被其他执行抢占），默认 30 分钟
+    catchUp?: boolean;  // 重启后是否补跑错过的执行，默认 true
+}
+
+export interface JobRunOutcome {
+    skipped: boolean;
+    reason?: string;
+    run?: ScheduledJobRun;
+}
+
+interface RegisteredJob extends ScheduledJobDefinition {
+    schedule: CronSchedule;
+}
+
+const TICK_INTERVAL = 15000; // 每15秒检查一次到期任务
+const DEFAULT_LOCK_TIMEOUT = 30 * 60 * 1000;
+const HISTORY_LIMIT = 200; // 每个任务保留的执行历史条数
+const RESULT_MAX_LENGTH = 2000;
+
+// 锁持有者标识：主机名:进程号:启动时间
+const INSTANCE_HOST = hostname();
+const INSTANCE_ID = `${INSTANCE_HOST}:${process.pid}:${Date.now()}`;
+
+const jobs = new Map<string, RegisteredJob>();
+const runningJobs = new Set<string>();
+let runSequence = 0;
+let tickTimer: Timer | null = null;
+
+/**
+ * 注册定时任务（需在 startScheduler 之前调用）
+ */
+export function registerJob(definition: ScheduledJobDefinition): void {
+    if (jobs.has(definition.name)) {
+        throw new Error(`定时任务重复注册: ${definition.name}`);
+    }
+    jobs.set(definition.name, { ...definition, schedule: parseCron(definition.cron) });
+}
+
+/**
+ * 判断锁持有者是否已不存在（同一主机上已退出的进程，或本进程之前的运行实例）
+ */
+function isDeadHolder(lockedBy: string): boolean {
+    const [host, pid, startedAt] = lockedBy.split(':');
+    if (host !== INSTANCE_HOST) {
+        return false;
+    }
+    if (Number(pid) === process.pid) {
+        return !INSTANCE_ID.endsWith(`:${startedAt}`);
+    }
+    try {
+        process.kill(Number(pid), 0);
+        return false;
+    } catch {
+        return true;
+    }
+}
+
+function serializeResult(result: unknown): string | null {
+    if (result === undefined || result === null) {
+        return null;
+    }
+    const text = typeof result === 'string' ? result : JSON.stringify(result);
+    return text.length > RESULT_MAX_LENGTH ? text.slice(0, RESULT_MAX_LENGTH) : text;
+}
+
+/**
+ * 执行一次任务
+ */
+async function runJob(job: RegisteredJob, trigger: ScheduledJobTrigger): Promise<JobRunOutcome> {
+    if (runningJobs.has(job.name)) {
+        return { skipped: true, reason: '任务正在执行中' };
+    }
+
+    const lockTimeout = job.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT;
+    const lockToken = `${INSTANCE_ID}:${++runSequence}`;
+    const startedAt = Date.now();
+    const locked = schedulerQueries.acquireLock.run(lockToken, startedAt, startedAt, job.name, startedAt - lockTimeout);
+    if (locked.changes === 0) {
+        return { skipped: true, reason: '任务正在其他进程中执行' };
+    }
+
+    runningJobs.add(job.name);
+    // 已持有锁，遗留的 running 记录必然属于已中断的执行
+    schedulerQueries.markInterruptedRuns.run(startedAt, job.name);
+    const previousNextRun = schedulerQueries.get.get(job.name)?.next_run_at ?? null;
+    const runId = schedulerQueries.insertRun.get(job.name, trigger, startedAt)!.id;
+
+    let status: 'success' | 'failed' = 'success';
+    let error: string | null = null;
+    let result: string | null = null;
+
+    try {
+        result = serializeResult(await job.handler());
+    } catch (err: any) {
+        status = 'failed';
+        error = err?.message || String(err);
+        logger.error('定时任务', `❌ ${job.name} 执行失败: ${error}`);
+    } finally {
+        runningJobs.delete(job.name);
+    }
+
+    const finishedAt = Date.now();
+    const duration = finishedAt - startedAt;
+    // 手动触发不影响原有计划；计划/补跑执行后从当前时间重新计算，错过的多次执行只补一次
+    const nextRunAt = trigger === 'manual' && previousNextRun !== null
+        ? previousNextRun
+        : getNextRunTime(job.schedule, finishedAt);
+
+    schedulerQueries.finish.run(finishedAt, status, error, duration, nextRunAt, finishedAt, job.name, lockToken);
+    schedulerQueries.finishRun.run(status, finishedAt, duration, error, result, runId);
+    schedulerQueries.pruneRuns.run(job.name, job.name, HISTORY_LIMIT);
+
+    if (status === 'success' && trigger !== 'schedule') {
+        logger.info('定时任务', `✅ ${job.name} 执行完成（${trigger === 'manual' ? '手动触发' : '补跑'}） - 耗时: ${duration}ms`);
+    }
+
+    return {
+        skipped: false,
+        run: {
+            id: runId,
+            job_name: job.name,
+            trigger,
+            status,
+            started_at: startedAt,
+            finished_at: finishedAt,
+            duration_ms: duration,
+            error,
+            result,
+        },
+    };
+}
+
+function tick(): void {
+    const now = Date.now();
+    for (const job of jobs.values()) {
+        const state = schedulerQueries.get.get(job.name);
+        if (!state || state.next_run_at === null || state.next_run_at > now) continue;
+
+        runJob(job, 'schedule').catch((error: any) => {
+            logger.error('定时任务', `❌ ${job.name} 调度异常: ${error.message}`);
+        });
+    }
+}
+
+/**
+ * 同步任务定义到数据库，并处理上次进程遗留的锁与错过的执行
+ */
+function syncJobState(job: RegisteredJob, now: number): ScheduledJobTrigger | null {
+    const existing = schedulerQueries.get.get(job.name);
+    schedulerQueries.upsert.run(job.name, job.cron, getNextRunTime(job.schedule, now), now);
+
+    if (!existing) {
+        return null;
+    }
+
+    if (existing.locked_by && isDeadHolder(existing.locked_by)) {
+        schedulerQueries.finish.run(existing.last_run_at ?? now, 'failed', '进程中断，任务未完成', existing.last_duration_ms ?? 0,
+            existing.next_run_at, now, job.name, existing.locked_by);
+        logger.warn('定时任务', `⚠️ ${job.name} 上次执行因进程中断未完成，已释放执行锁`);
+    }
+
+    // cron 变更后按新表达式重新计算
+    if (existing.cron !== job.cron) {
+        schedulerQueries.setNextRun.run(getNextRunTime(job.schedule, now), now, job.name);
+        return null;
+    }
+
+    if (existing.next_run_at !== null && existing.next_run_at <= now) {
+        if (job.catchUp === false) {
+            schedulerQueries.setNextRun.run(getNextRunTime(job.schedule, now), now, job.name);
+            return null;
+        }
+        return 'catchup';
+    }
+
+    return null;
+}
+
+/**
+ * 启动调度器
+ */
+export function startScheduler(): void {
+    if (tickTimer) {
+        return;
+    }
+
+    const now = Date.now();
+    const catchUps: RegisteredJob[] = [];
+    for (const job of jobs.values()) {
+        if (syncJobState(job, now) === 'catchup') {
+            catchUps.push(job);
+        }
+    }
+
+    logger.info('定时任务', `🚀 启动调度器 - 已注册 ${jobs.size} 个任务${catchUps.length > 0 ? `，补跑 ${catchUps.length} 个错过的任务` : ''}`);
+
+    for (const job of catchUps) {
+        runJob(job, 'catchup').catch((error: any) => {
+            logger.error('定时任务', `❌ ${job.name} 补跑异常: ${error.message}`);
+        });
+    }
+
+    tickTimer = setInterval(tick, TICK_INTERVAL);
+}
+
+/**
+ * 停止调度器（不会中断正在执行的任务）
+ */
+export function stopScheduler(): void {
+    if (tickTimer) {
+        clearInterval(tickTimer);
+        tickTimer = null;
+    }
+}
+
+/**
+ * 手动触发任务（等待执行完成）
+ */
+export async function triggerJob(name: string): Promise<JobRunOutcome | null> {
+    const job = jobs.get(name);
+    if (!job) {
+        return null;
+    }
+    return runJob(job, 'manual');
+}
+
+/**
+ * 列出所有已注册任务及其状态
+ * @param failureWindowMs 统计失败次数的时间窗口，默认 24 小时
+ */
+export function listJobs(failureWindowMs: number = 24 * 60 * 60 * 1000) {
+    const since = Date.now() - failureWindowMs;
+    const states = new Map<string, ScheduledJobState>(schedulerQueries.getAll.all().map(state => [state.name, state]));
+    const failures = new Map(schedulerQueries.countFailuresSince.all(since).map(row => [row.job_name, row.count]));
+
+    return Array.from(jobs.values()).map(job => {
+        const state = states.get(job.name);
+        return {
+            name: job.name,
+            description: job.description,
+            cron: job.cron,
+            running: !!state?.locked_by,
+            locked_by: state?.locked_by ?? null,
+            locked_at: state?.locked_at ?? null,
+            last_run_at: state?.last_run_at ?? null,
+            last_status: state?.last_status ?? null,
+            last_error: state?.last_error ?? null,
+            last_duration_ms: state?.last_duration_ms ?? null,
+            next_run_at: state?.next_run_at ?? null,
+            recent_failures: failures.get(job.name) || 0,
+        };
+    });
+}
+
+/**
+ * 获取任务执行历史
+ */
+export function getJobRuns(name: string, limit: number = 50, offset: number = 0): ScheduledJobRun[] | null {
+    if (!jobs.has(name)) {
+        return null;
+    }
+    return schedulerQueries.getRuns.all(name, limit, offset);
+}
+
+/**
+ * 获取最近失败的执行记录（所有任务）
+ */
+export function getRecentFailures(failureWindowMs: number = 24 * 60 * 60 * 1000, limit: number = 50): ScheduledJobRun[] {
+    return schedulerQueries.getRecentFailures.all(Date.now() - failureWindowMs, limit);
+}
@@ -0,0 +1,328 @@
+/**
+ * 方案对比
+ * 对比两组（权重配置, 奖励方案），或在现有方案上叠加草稿修改后与原方案对比，
+ * 返回权重、规则、惩罚的结构化差异，以及精确枚举得到的 RTP 与各规则概率/期望值的变化。草稿不会写入数据库
+ */
+
+import { rewardConfigQueries, weightConfigQueries } from '../database';
+import {
+    calculateProbabilityExactForConfig,
+    getVenueProbabilityConfig,
+    type ProbabilityResult,
+    type SlotVenue,
+    type WeightConfig
+} from './probability-calculator';
+import type { SchemeRules } from './reward-calculator';
+
+const SYMBOLS = ['m', 't', 'n', 'j', 'lq', 'bj', 'zft', 'bdk', 'lsh', 'man'];
+const VENUES: SlotVenue[] = ['normal', 'advanced', 'supreme'];
+const RULE_FIELDS = ['rule_type', 'rule_category', 'match_pattern', 'match_count', 'required_symbols', 'win_multiplier', 'grant_free_spin', 'priority', 'is_active'];
+const PUNISHMENT_FIELDS = ['deduct_multiplier', 'ban_hours', 'is_active'];
+
+/**
+ * 对比的一侧：指定场次（取其当前方案）或直接指定方案ID
+ */
+export interface SchemeRef {
+    venue?: SlotVenue;
+    weight_config_id?: number;
+    reward_scheme_id?: number;
+}
+
+/**
+ * 草稿修改（叠加在所选方案上）
+ * - weights：覆盖部分符号权重，如 { weight_man: 30 }
+ * - rules：带 id 的修改现有规则（deleted: true 为删除），不带 id 的为新增规则
+ * - punishments：按 lsh_count 修改或新增（deleted: true 为删除）
+ */
+export interface SchemeDraft extends SchemeRef {
+    weights?: Record<string, number>;
+    rules?: Array<Record<string, any> & { id?: number; deleted?: boolean }>;
+    punishments?: Array<Record<string, any> & { lsh_count: number; deleted?: boolean }>;
+}
+
+export interface CompareInput {
+    base: SchemeRef;
+    candidate: SchemeDraft;
+    strict_consecutive?: boolean;  // 不指定时按所选场次判定（高级场、至尊场为严格连续）
+}
+
+interface ResolvedSide {
+    venue: SlotVenue | null;
+    weightConfigId: number;
+    rewardSchemeId: number;
+    weightConfigName: string;
+    rewardSchemeName: string;
+    strictConsecutive: boolean | null;
+    draft: boolean;
+    weights: WeightConfig;
+    scheme: SchemeRules;
+}
+
+function isDraftEdit(draft: SchemeDraft): boolean {
+    return Boolean(
+        (draft.weights && Object.keys(draft.weights).length > 0) ||
+        (draft.rules && draft.rules.length > 0) ||
+        (draft.punishments && draft.punishments.length > 0)
+    );
+}
+
+// required_symbols 统一按 JSON 字符串比较（草稿中可直接传数组）
+function normalizeRequiredSymbols(value: unknown): string | null {
+    if (value === undefined || value === null || value === '') return null;
+    return Array.isArray(value) ? JSON.stringify(value) : String(value);
+}
+
+async function resolveRef(ref: SchemeRef, fallback: ResolvedSide | null): Promise<Omit<ResolvedSide, 'draft' | 'weights' | 'scheme' | 'weightConfigName' | 'rewardSchemeName'>> {
+    if (ref.venue !== undefined) {
+        if (!VENUES.includes(ref.venue)) {
+            throw new Error('无效的场次');
+        }
+        const venueConfig = await getVenueProbabilityConfig(ref.venue);
+        return {
+            venue: ref.venue,
+            weightConfigId: ref.weight_config_id ?? venueConfig.weightConfigId,
+            rewardSchemeId: ref.reward_scheme_id ?? venueConfig.rewardSchemeId,
+            strictConsecutive: venueConfig.strictConsecutive
+        };
+    }
+
+    const weightConfigId = ref.weight_config_id ?? fallback?.weightConfigId;
+    const rewardSchemeId = ref.reward_scheme_id ?? fallback?.rewardSchemeId;
+    if (!weightConfigId || !rewardSchemeId) {
+        throw new Error('请指定场次，或同时指定 weight_config_id 与 reward_scheme_id');
+    }
+    return { venue: fallback?.venue ?? null, weightConfigId, rewardSchemeId, strictConsecutive: fallback?.strictConsecutive ?? null };
+}
+
+function loadSide(ref: Awaited<ReturnType<typeof resolveRef>>): ResolvedSide {
+    const weightConfig = weightConfigQueries.getById.get(ref.weightConfigId);
+    if (!weightConfig) {
+        throw new Error(`权重配置 ${ref.weightConfigId} 不存在`);
+    }
+    const rewardScheme = rewardConfigQueries.getSchemeById.get(ref.rewardSchemeId);
+    if (!rewardScheme) {
+        throw new Error(`奖励方案 ${ref.rewardSchemeId} 不存在`);
+    }
+
+    return {
+        ...ref,
+        weightConfigName: weightConfig.config_name,
+        rewardSchemeName: rewardScheme.scheme_name,
+        draft: false,
+        weights: { ...weightConfig },
+        scheme: {
+            rules: rewardConfigQueries.getRulesByScheme.all(ref.rewardSchemeId).map((rule: any) => ({ ...rule })),
+            punishments: rewardConfigQueries.getPunishmentsByScheme.all(ref.rewardSchemeId).map((p: any) => ({ ...p }))
+        }
+    };
+}
+
+/**
+ * 在方案上叠加草稿修改
+ */
+function applyDraft(side: ResolvedSide, draft: SchemeDraft): ResolvedSide {
+    const weights: any = { ...side.weights };
+    for (const [field, value] of Object.entries(draft.weights || {})) {
+        if (!SYMBOLS.some(symbol => `weight_${symbol}` === field)) {
+            throw new Error(`未知的权重字段 ${field}`);
+        }
+        if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+            throw new Error(`${field} 必须为非负数`);
+        }
+        weights[field] = value;
+    }
+    if (SYMBOLS.reduce((sum, symbol) => sum + (weights[`weight_${symbol}`] || 0), 0) <= 0) {
+        throw new Error('总权重必须大于 0');
+    }
+
+    let rules = side.scheme.rules;
+    for (const patch of draft.rules || []) {
+        const { id, deleted, ...fields } = patch;
+        if ('required_symbols' in fields) {
+            fields.required_symbols = normalizeRequiredSymbols(fields.required_symbols);
+        }
+
+        if (id === undefined) {
+            if (!fields.rule_name || !fields.match_pattern || typeof fields.win_multiplier !== 'number') {
+                throw new Error('新增规则需要 rule_name、match_pattern 与 win_multiplier');
+            }
+            rules = [...rules, { rule_type: 'custom', priority: 0, grant_free_spin: 0, is_active: 1, match_count: null, required_symbols: null, ...fields }];
+            continue;
+        }
+
+        if (!rules.some(rule => rule.id === id)) {
+            throw new Error(`规则 ${id} 不属于奖励方案 ${side.rewardSchemeId}`);
+        }
+        rules = deleted
+            ? rules.filter(rule => rule.id !== id)
+            : rules.map(rule => rule.id === id ? { ...rule, ...fields } : rule);
+    }
+
+    let punishments = side.scheme.punishments;
+    for (const patch of draft.punishments || []) {
+        const { deleted, ...fields } = patch;
+        if (!Number.isInteger(fields.lsh_count) || fields.lsh_count < 1 || fields.lsh_count > 4) {
+            throw new Error('惩罚的 lsh_count 必须为 1-4');
+        }
+        const existing = punishments.find(p => p.lsh_count === fields.lsh_count);
+        if (deleted) {
+            punishments = punishments.filter(p => p.lsh_count !== fields.lsh_count);
+        } else if (existing) {
+            punishments = punishments.map(p => p === existing ? { ...p, ...fields } : p);
+        } else {
+            if (typeof fields.deduct_multiplier !== 'number') {
+                throw new Error('新增惩罚需要 deduct_multiplier');
+            }
+            punishments = [...punishments, { ban_hours: 0, is_active: 1, ...fields }];
+        }
+    }
+
+    return { ...side, draft: true, weights, scheme: { rules, punishments } };
+}
+
+function diffWeights(base: WeightConfig, candidate: WeightConfig) {
+    const total = (weights: any) => SYMBOLS.reduce((sum, symbol) => sum + (weights[`weight_${symbol}`] || 0), 0);
+    const baseTotal = total(base);
+    const candidateTotal = total(candidate);
+
+    return SYMBOLS.map(symbol => {
+        const field = `weight_${symbol}`;
+        const baseWeight = (base as any)[field] || 0;
+        const candidateWeight = (candidate as any)[field] || 0;
+        const baseShare = baseWeight / baseTotal * 100;
+        const candidateShare = candidateWeight / candidateTotal * 100;
+        return {
+            symbol,
+            base: baseWeight,
+            candidate: candidateWeight,
+            delta: candidateWeight - baseWeight,
+            base_share: baseShare,  // 单个转轮出现概率 (%)
+            candidate_share: candidateShare,
+            share_delta: candidateShare - baseShare,
+            changed: baseWeight !== candidateWeight
+        };
+    });
+}
+
+/**
+ * 按 key 对比两组配置行，返回新增、删除与字段变化
+ */
+function diffRows(baseRows: any[], candidateRows: any[], keyOf: (row: any) => string, fields: string[]) {
+    const baseMap = new Map(baseRows.map(row => [keyOf(row), row]));
+    const candidateMap = new Map(candidateRows.map(row => [keyOf(row), row]));
+    const pick = (row: any) => Object.fromEntries(fields.map(field => [field, row[field] ?? null]));
+
+    const added = candidateRows.filter(row => !baseMap.has(keyOf(row))).map(row => ({ key: keyOf(row), ...pick(row) }));
+    const removed = baseRows.filter(row => !candidateMap.has(keyOf(row))).map(row => ({ key: keyOf(row), ...pick(row) }));
+    const changed: Array<{ key: string; changes: Record<string, { base: unknown; candidate: unknown }> }> = [];
+
+    for (const [key, baseRow] of baseMap) {
+        const candidateRow = candidateMap.get(key);
+        if (!candidateRow) continue;
+
+        const changes: Record<string, { base: unknown; candidate: unknown }> = {};
+        for (const field of fields) {
+            const normalize = field === 'required_symbols' ? normalizeRequiredSymbols : (value: unknown) => value ?? null;
+            const before = normalize(baseRow[field]);
+            const after = normalize(candidateRow[field]);
+            if (before !== after) {
+                changes[field] = { base: before, candidate: after };
+            }
+        }
+        if (Object.keys(changes).length > 0) {
+            changed.push({ key, changes });
+        }
+    }
+
+    return { added, removed, changed };
+}
+
+function summarize(result: ProbabilityResult) {
+    return {
+        rtp: result.rtp,
+        house_edge: result.houseEdge,
+        hit_frequency: result.hitFrequency,
+        standard_deviation: result.standardDeviation,
+        max_multiplier: result.maxExposure?.multiplier ?? null
+    };
+}
+
+/**
+ * 逐条结果（规则、律师函、未中奖）对比概率与期望值，按期望值变化从大到小排序
+ */
+function diffOutcomes(base: ProbabilityResult, candidate: ProbabilityResult) {
+    const toMap = (result: ProbabilityResult) =>
+        new Map([...result.rules, ...result.punishments, result.noWin].map(item => [item.ruleName, item]));
+    const baseMap = toMap(base);
+    const candidateMap = toMap(candidate);
+    const names = [...new Set([...baseMap.keys(), ...candidateMap.keys()])];
+
+    return names.map(name => {
+        const before = baseMap.get(name);
+        const after = candidateMap.get(name);
+        return {
+            rule_name: name,
+            base_multiplier: before?.multiplier ?? null,
+            candidate_multiplier: after?.multiplier ?? null,
+            base_probability: before?.probability ?? 0,
+            candidate_probability: after?.probability ?? 0,
+            probability_delta: (after?.probability ?? 0) - (before?.probability ?? 0),
+            base_rtp_contribution: (before?.expectedValue ?? 0) * 100,  // 对 RTP 的贡献 (%)
+            candidate_rtp_contribution: (after?.expectedValue ?? 0) * 100,
+            rtp_contribution_delta: ((after?.expectedValue ?? 0) - (before?.expectedValue ?? 0)) * 100
+        };
+    }).sort((a, b) => Math.abs(b.rtp_contribution_delta) - Math.abs(a.rtp_contribution_delta));
+}
+
+// 两侧都按刚读取的配置重新枚举，不使用概率缓存，避免与已写入的配置不一致
+function calculate(side: ResolvedSide, strictConsecutive: boolean): ProbabilityResult {
+    return calculateProbabilityExactForConfig(side.weights, side.scheme, strictConsecutive);
+}
+
+function describe(side: ResolvedSide) {
+    return {
+        venue: side.venue,
+        weight_config_id: side.weightConfigId,
+        weight_config_name: side.weightConfigName,
+        reward_scheme_id: side.rewardSchemeId,
+        reward_scheme_name: side.rewardSchemeName,
+        draft: side.draft
+    };
+}
+
+/**
+ * 对比两组方案（candidate 未指定方案时沿用 base，仅叠加草稿修改）
+ */
+export async function compareSchemes(input: CompareInput) {
+    const base = loadSide(await resolveRef(input.base, null));
+    let candidate = loadSide(await resolveRef(input.candidate, base));
+    if (isDraftEdit(input.candidate)) {
+        candidate = applyDraft(candidate, input.candidate);
+    }
+
+    const strictConsecutive = input.strict_consecutive ?? base.strictConsecutive ?? candidate.strictConsecutive ?? false;
+    const baseResult = calculate(base, strictConsecutive);
+    const candidateResult = calculate(candidate, strictConsecutive);
+    const baseSummary = summarize(baseResult);
+    const candidateSummary = summarize(candidateResult);
+
+    return {
+        base: describe(base),
+        candidate: describe(candidate),
+        strict_consecutive: strictConsecutive,
+        weights: diffWeights(base.weights, candidate.weights),
+        rules: diffRows(base.scheme.rules, candidate.scheme.rules, rule => rule.rule_name, RULE_FIELDS),
+        punishments: diffRows(base.scheme.punishments, candidate.scheme.punishments, p => `律师函×${p.lsh_count}`, PUNISHMENT_FIELDS),
+        probability: {
+            base: baseSummary,
+            candidate: candidateSummary,
+            delta: {
+                rtp: candidateSummary.rtp - baseSummary.rtp,
+                house_edge: candidateSummary.house_edge - baseSummary.house_edge,
+                hit_frequency: candidateSummary.hit_frequency - baseSummary.hit_frequency,
+                standard_deviation: candidateSummary.standard_deviation - baseSummary.standard_deviation
+            },
+            outcomes: diffOutcomes(baseResult, candidateResult)
+        }
+    };
+}
@@ -1,6 +1,8 @@
 import { slotQueries } from '../database';
 import logger from '../utils/logger';
 import { getNormalSlotWeights, getAdvancedSlotWeights } from './scheme-loader';
+import { drawFairSymbols, type FairSpinInfo, type FairSpinResult } from './provably-fair';
+import type { Rng } from './rng';
 
 // 符号定义
 const SYMBOLS = {
@@ -109,64 +111,13 @@ export const WIN_TYPE_NAMES: Record<string, string> = {
 };
 
 /**
- * 加权随机抽取符号（初级场）
- */
-function getRandomSymbol(): string {
-    const SYMBOL_WEIGHTS = getSymbolWeights(false); // 初级场权重
-    const totalWeight = Object.values(SYMBOL_WEIGHTS).reduce((a, b) => a + b, 0);
-    let random = Math.random() * totalWeight;
-
-    for (const [symbol, weight] of Object.entries(SYMBOL_WEIGHTS)) {
-        random -= weight;
-        if (random <= 0) {
-            return symbol;
-        }
-    }
-
-    return 'm'; // 默认返回
-}
-
-/**
- * 加权随机抽取符号（高级场 - 使用独立权重）
- */
-function getRandomSymbolAdvanced(): string {
-    const SYMBOL_WEIGHTS = getSymbolWeights(true); // 🔥 高级场独立权重
-
-    const totalWeight = Object.values(SYMBOL_WEIGHTS).reduce((a, b) => a + b, 0);
-    let random = Math.random() * totalWeight;
-
-    for (const [symbol, weight] of Object.entries(SYMBOL_WEIGHTS)) {
-        random -= weight;
-        if (random <= 0) {
-            return symbol;
-        }
-    }
-
-    return 'm';
-}
-
-/**
- * 生成4个随机符号
- * @param isAdvancedMode 是否为高级场模式
+ * 生成4个随机符号（可验证公平：使用用户种子 + nonce 抽取，可通过 /api/slot/verify 复算）
+ * @param linuxDoId 用户ID
+ * @param isAdvancedMode 是否为高级场模式（高级场使用独立权重配置）
+ * @param rng 指定随机数生成器（测试/回放用，如 SeededRng），不传则使用用户种子
  */
-export function generateSymbols(isAdvancedMode: boolean = false): string[] {
-    if (isAdvancedMode) {
-        // 🔥 高级场：使用独立权重配置
-        return [
-            getRandomSymbolAdvanced(),
-            getRandomSymbolAdvanced(),
-            getRandomSymbolAdvanced(),
-            getRandomSymbolAdvanced()
-        ];
-    }
-
-    // 初级场：使用正常权重
-    return [
-        getRandomSymbol(),
-        getRandomSymbol(),
-        getRandomSymbol(),
-        getRandomSymbol()
-    ];
+export function generateSymbols(linuxDoId: string, isAdvancedMode: boolean = false, rng?: Rng): FairSpinResult {
+    return drawFairSymbols(linuxDoId, getSymbolWeights(isAdvancedMode), rng);
 }
 
 /**
@@ -593,7 +544,8 @@ export function saveGameRecord(
     freeSpinAwarded: boolean,
     isFreeSpin: boolean,
     slotMode: 'normal' | 'advanced' = 'normal',  // 🔥 新增：场次模式
-    ruleName: string | null = null  // 🔥 新增：规则名称（用于显示）
+    ruleName: string | null = null,  // 🔥 新增：规则名称（用于显示）
+    fair: FairSpinInfo | null = null  // 可验证公平信息（种子、nonce、权重快照）
 ) {
     const now = Date.now();
     const today = getTodayDate();
@@ -612,7 +564,10 @@ export function saveGameRecord(
         slotMode,  // 🔥 记录场次模式
         ruleName || null,  // 🔥 记录规则名称
         now,
-        today
+        today,
+        fair?.seedId ?? null,
+        fair?.nonce ?? null,
+        fair ? JSON.stringify(fair.weights) : null
     );
 
     const displayName = linuxDoUsername ? `@${linuxDoUsername} (${linuxDoId})` : username;
@@ -957,7 +912,7 @@ export function cleanOldDailyStats() {
     const utcTime = now.getTime() + now.getTimezoneOffset() * 60000;
     const beijingTime = new Date(utcTime + 8 * 3600000);
     beijingTime.setDate(beijingTime.getDate() - 7);
-    const cutoffDate = beijingTime.toISOString().split('T')[0];
+    const cutoffDate = beijingTime.toISOString().split('T')[0]!;
     
     slotQueries.cleanOldDailyStats.run(cutoffDate);
     logger.info('数据清理', `已清理 ${cutoffDate} 之前的日榜数据`);
@@ -971,7 +926,7 @@ export function cleanOldWeeklyStats() {
     const utcTime = now.getTime() + now.getTimezoneOffset() * 60000;
     const beijingTime = new Date(utcTime + 8 * 3600000);
     beijingTime.setDate(beijingTime.getDate() - 28); // 4周
-    const cutoffDate = beijingTime.toISOString().split('T')[0];
+    const cutoffDate = beijingTime.toISOString().split('T')[0]!;
     
     slotQueries.cleanOldWeeklyStats.run(cutoffDate);
     logger.info('数据清理', `已清理 ${cutoffDate} 之前的周榜数据`);
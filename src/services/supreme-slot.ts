@@ -5,6 +5,8 @@
 import { supremeSlotQueries, weightConfigQueries, rewardConfigQueries, userQueries } from '../database';
 import type { SupremeSlotConfig } from '../types';
 import logger from '../utils/logger';
+import { drawFairSymbols, type FairSpinInfo, type FairSpinResult } from './provably-fair';
+import type { Rng } from './rng';
 
 /**
  * 获取用户显示名称（优先使用 linux_do_username，否则使用 linux_do_id）
@@ -466,33 +468,24 @@ export function getSupremeRewardRules(): { rules: any[]; punishments: any[] } {
 }
 
 /**
- * 生成随机符号（基于权重）
+ * 生成随机符号（基于权重，可验证公平）
+ * @param rng 指定随机数生成器（测试/回放用），不传则使用用户种子
  */
-export function generateSupremeSymbols(): string[] {
+export function generateSupremeSymbols(linuxDoId: string, rng?: Rng): FairSpinResult {
     const weights = getSupremeWeights();
 
-    const symbolPool: string[] = [];
-    symbolPool.push(...Array(weights.weight_m || 0).fill('m'));
-    symbolPool.push(...Array(weights.weight_t || 0).fill('t'));
-    symbolPool.push(...Array(weights.weight_n || 0).fill('n'));
-    symbolPool.push(...Array(weights.weight_j || 0).fill('j'));
-    symbolPool.push(...Array(weights.weight_lq || 0).fill('lq'));
-    symbolPool.push(...Array(weights.weight_bj || 0).fill('bj'));
-    symbolPool.push(...Array(weights.weight_zft || 0).fill('zft'));
-    symbolPool.push(...Array(weights.weight_bdk || 0).fill('bdk'));
-    symbolPool.push(...Array(weights.weight_lsh || 0).fill('lsh'));
-    symbolPool.push(...Array(weights.weight_man || 25).fill('man'));  // 🔥 添加man符号
-
-    const symbols: string[] = [];
-    for (let i = 0; i < 4; i++) {
-        const randomIndex = Math.floor(Math.random() * symbolPool.length);
-        const symbol = symbolPool[randomIndex];
-        if (symbol) {
-            symbols.push(symbol);
-        }
-    }
-
-    return symbols;
+    return drawFairSymbols(linuxDoId, {
+        'm': weights.weight_m || 0,
+        't': weights.weight_t || 0,
+        'n': weights.weight_n || 0,
+        'j': weights.weight_j || 0,
+        'lq': weights.weight_lq || 0,
+        'bj': weights.weight_bj || 0,
+        'zft': weights.weight_zft || 0,
+        'bdk': weights.weight_bdk || 0,
+        'lsh': weights.weight_lsh || 0,
+        'man': weights.weight_man || 25  // 🔥 添加man符号
+    }, rng);
 }
 
 // 🔥 至尊场已统一使用 reward-calculator.ts 中的 calculateWinByScheme 函数
@@ -512,7 +505,8 @@ export function recordSupremeGame(
     winType: string,
     winMultiplier: number,
     winAmount: number,
-    ruleName: string | null = null  // 🔥 新增：规则名称
+    ruleName: string | null = null,  // 🔥 新增：规则名称
+    fair: FairSpinInfo | null = null  // 可验证公平信息（种子、nonce、权重快照）
 ): void {
     const now = Date.now();
     // 🔥 修复：使用统一的getTodayDate函数，确保日期格式一致（YYYY-MM-DD，带前导0）
@@ -531,7 +525,10 @@ export function recordSupremeGame(
         ruleName || null,  // 🔥 记录规则名称
         now,
         today,
-        now
+        now,
+        fair?.seedId ?? null,
+        fair?.nonce ?? null,
+        fair ? JSON.stringify(fair.weights) : null
     );
 
     logger.info('至尊场', `记录游戏 - 用户: ${username}, 投注: $${(betAmount / 500000).toFixed(2)}, 赢得: $${(winAmount / 500000).toFixed(2)}, 规则: ${ruleName || winType}, 倍率: ${winMultiplier}x`);
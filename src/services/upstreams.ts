@@ -0,0 +1,390 @@
+/**
+ * 多上游管理
+ * - 上游注册表：id = 1 为主站，地址与凭据沿用系统配置（admin_config），其余站点在注册表中配置
+ * - 用户可绑定多个上游，其中一个为收款上游；额度队列、每日领取、钱包划转与坤呗借还款都作用于收款上游
+ * - 本站额度统一按 500000 quota = $1 计，与各上游按其 quota_per_unit 换算
+ * - users.kyx_user_id 保留为主站绑定（管理后台等按主站查询的功能不变）
+ */
+
+import { db, adminQueries, upstreamQueries, userQueries } from '../database';
+import { getKyxUserById, searchAndFindExactUser, updateKyxUserQuota } from './kyx-api';
+import type { KyxUser } from './kyx-api';
+import { UPSTREAM_UNAVAILABLE } from './circuit-breaker';
+import logger from '../utils/logger';
+import type { Upstream, UserUpstreamBinding } from '../types';
+
+export const PRIMARY_UPSTREAM_ID = 1;
+export const LOCAL_QUOTA_PER_UNIT = 500000;
+
+export interface UpstreamConnection {
+    id: number;
+    name: string;
+    baseUrl?: string;  // 为空表示主站（沿用系统配置地址、缓存与主站熔断器）
+    session: string;
+    newApiUser: string;
+    quotaPerUnit: number;
+    modelscopeGroupId: number | null;
+    iflowGroupId: number | null;
+}
+
+export interface PayoutAccount {
+    upstream: UpstreamConnection;
+    kyxUserId: number;
+    username: string;
+}
+
+export interface UpstreamInput {
+    name?: string;
+    base_url?: string;
+    session?: string;
+    new_api_user?: string;
+    quota_per_unit?: number;
+    modelscope_group_id?: number | null;
+    iflow_group_id?: number | null;
+    enabled?: boolean;
+}
+
+/**
+ * 获取上游连接信息（不存在或已停用时返回 null）
+ */
+export function getUpstreamConnection(upstreamId: number): UpstreamConnection | null {
+    const upstream = upstreamQueries.getById.get(upstreamId);
+    if (!upstream || !upstream.enabled) {
+        return null;
+    }
+
+    if (upstream.id === PRIMARY_UPSTREAM_ID) {
+        const adminConfig = adminQueries.get.get();
+        return {
+            id: upstream.id,
+            name: upstream.name,
+            session: adminConfig?.session || '',
+            newApiUser: adminConfig?.new_api_user || '1',
+            quotaPerUnit: upstream.quota_per_unit,
+            modelscopeGroupId: upstream.modelscope_group_id,
+            iflowGroupId: upstream.iflow_group_id,
+        };
+    }
+
+    return {
+        id: upstream.id,
+        name: upstream.name,
+        baseUrl: upstream.base_url.replace(/\/+$/, ''),
+        session: upstream.session,
+        newApiUser: upstream.new_api_user || '1',
+        quotaPerUnit: upstream.quota_per_unit,
+        modelscopeGroupId: upstream.modelscope_group_id,
+        iflowGroupId: upstream.iflow_group_id,
+    };
+}
+
+/**
+ * 上游额度 → 本站额度
+ */
+export function toLocalQuota(upstream: UpstreamConnection, quota: number): number {
+    if (upstream.quotaPerUnit === LOCAL_QUOTA_PER_UNIT) return quota;
+    return Math.floor(quota * LOCAL_QUOTA_PER_UNIT / upstream.quotaPerUnit);
+}
+
+/**
+ * 本站额度 → 上游额度
+ */
+export function toUpstreamQuota(upstream: UpstreamConnection, quota: number): number {
+    if (upstream.quotaPerUnit === LOCAL_QUOTA_PER_UNIT) return quota;
+    return Math.round(quota * upstream.quotaPerUnit / LOCAL_QUOTA_PER_UNIT);
+}
+
+/**
+ * 查询上游用户（额度为上游单位）
+ */
+export function fetchUpstreamUser(upstream: UpstreamConnection, kyxUserId: number, skipCache: boolean = false) {
+    return getKyxUserById(kyxUserId, upstream.session, upstream.newApiUser, 3, skipCache, upstream.baseUrl);
+}
+
+/**
+ * 设置上游用户额度（上游单位）
+ */
+export function setUpstreamQuota(upstream: UpstreamConnection, user: KyxUser, quota: number) {
+    return updateKyxUserQuota(user.id, quota, upstream.session, upstream.newApiUser, user.username, user.group || 'default', 3, upstream.baseUrl);
+}
+
+/**
+ * 获取用户的收款账户
+ * 尚无绑定记录的老用户回退到主站绑定；收款上游已停用时返回 null
+ */
+export function getPayoutAccount(linuxDoId: string): PayoutAccount | null {
+    const binding = upstreamQueries.getPayoutBinding.get(linuxDoId);
+    if (binding) {
+        const upstream = getUpstreamConnection(binding.upstream_id);
+        return upstream ? { upstream, kyxUserId: binding.kyx_user_id, username: binding.username } : null;
+    }
+
+    const user = userQueries.get.get(linuxDoId);
+    const primary = getUpstreamConnection(PRIMARY_UPSTREAM_ID);
+    if (!user?.kyx_user_id || !primary) {
+        return null;
+    }
+    return { upstream: primary, kyxUserId: user.kyx_user_id, username: user.username };
+}
+
+// 收款上游额度缓存（本站额度），供坤呗梯度等同步计算使用
+const PAYOUT_QUOTA_TTL = 120000;
+const payoutQuotaCache = new Map<string, { quota: number; timestamp: number }>();
+
+/**
+ * 最近一次查询到的收款上游额度（本站额度），未查询或已过期时返回 null
+ */
+export function getCachedPayoutQuota(linuxDoId: string): number | null {
+    const entry = payoutQuotaCache.get(linuxDoId);
+    if (!entry) {
+        return null;
+    }
+    if (Date.now() - entry.timestamp > PAYOUT_QUOTA_TTL) {
+        payoutQuotaCache.delete(linuxDoId);
+        return null;
+    }
+    return entry.quota;
+}
+
+/**
+ * 查询用户收款上游的当前额度（换算为本站额度）
+ */
+export async function getPayoutBalance(linuxDoId: string, skipCache: boolean = false): Promise<{
+    success: boolean;
+    message?: string;
+    errorCode?: string;
+    account?: PayoutAccount;
+    user?: KyxUser;
+    quota: number;
+}> {
+    const account = getPayoutAccount(linuxDoId);
+    if (!account) {
+        return { success: false, message: '未绑定可用的收款上游', quota: 0 };
+    }
+
+    const result = await fetchUpstreamUser(account.upstream, account.kyxUserId, skipCache);
+    if (!result.success || !result.user) {
+        return { success: false, message: result.message || '查询上游额度失败', errorCode: result.errorCode, account, quota: 0 };
+    }
+    const quota = toLocalQuota(account.upstream, result.user.quota || 0);
+    payoutQuotaCache.set(linuxDoId, { quota, timestamp: Date.now() });
+    return { success: true, account, user: result.user, quota };
+}
+
+/**
+ * 记录用户在某上游的绑定；用户还没有收款上游时设为收款上游
+ */
+export function recordBinding(linuxDoId: string, upstreamId: number, kyxUserId: number, username: string): void {
+    const now = Date.now();
+    const isPayout = upstreamQueries.getPayoutBinding.get(linuxDoId) ? 0 : 1;
+    upstreamQueries.upsertBinding.run(linuxDoId, upstreamId, kyxUserId, username, isPayout, now, now);
+}
+
+/**
+ * 绑定其他上游的公益站账号（校验 Linux Do ID 与该站账号一致）
+ */
+export async function bindUpstream(linuxDoId: string, upstreamId: number, username: string): Promise<{
+    success: boolean;
+    message: string;
+    errorCode?: string;
+    binding?: UserUpstreamBinding;
+}> {
+    const upstream = getUpstreamConnection(upstreamId);
+    if (!upstream) {
+        return { success: false, message: '上游不存在或已停用' };
+    }
+    if (!upstream.session) {
+        return { success: false, message: '该上游未配置凭据，请联系管理员' };
+    }
+
+    const searchResult = await searchAndFindExactUser(username, upstream.session, upstream.newApiUser, `绑定上游 ${upstream.name}`, upstream.baseUrl);
+    if (!searchResult.success || !searchResult.user) {
+        return {
+            success: false,
+            message: searchResult.errorCode === UPSTREAM_UNAVAILABLE ? searchResult.message! : (searchResult.message || '未找到该用户'),
+            errorCode: searchResult.errorCode,
+        };
+    }
+
+    const kyxUser = searchResult.user;
+    if (kyxUser.linux_do_id !== linuxDoId) {
+        return { success: false, message: `Linux Do ID 不匹配！用户 ${username} 在 ${upstream.name} 绑定的 Linux Do ID 为 ${kyxUser.linux_do_id}` };
+    }
+
+    const taken = upstreamQueries.getBindingByKyxUser.get(upstreamId, kyxUser.id);
+    if (taken && taken.linux_do_id !== linuxDoId) {
+        return { success: false, message: '该公益站账号已被其他用户绑定' };
+    }
+
+    recordBinding(linuxDoId, upstreamId, kyxUser.id, kyxUser.username);
+    logger.info('多上游', `🔗 用户 ${linuxDoId} 绑定上游 ${upstream.name} - 公益站用户: ${kyxUser.username} (ID: ${kyxUser.id})`);
+    return { success: true, message: `已绑定 ${upstream.name}`, binding: upstreamQueries.getBinding.get(linuxDoId, upstreamId)! };
+}
+
+/**
+ * 设置收款上游
+ */
+export function setPayoutUpstream(linuxDoId: string, upstreamId: number): { success: boolean; message: string } {
+    if (!upstreamQueries.getBinding.get(linuxDoId, upstreamId)) {
+        // 老用户的主站绑定可能尚未写入绑定表
+        const user = userQueries.get.get(linuxDoId);
+        if (upstreamId !== PRIMARY_UPSTREAM_ID || !user?.kyx_user_id) {
+            return { success: false, message: '尚未绑定该上游' };
+        }
+        recordBinding(linuxDoId, PRIMARY_UPSTREAM_ID, user.kyx_user_id, user.username);
+    }
+    const upstream = getUpstreamConnection(upstreamId);
+    if (!upstream) {
+        return { success: false, message: '上游不存在或已停用' };
+    }
+
+    const now = Date.now();
+    db.transaction(() => {
+        upstreamQueries.clearPayout.run(now, linuxDoId);
+        upstreamQueries.setPayout.run(now, linuxDoId, upstreamId);
+    })();
+    logger.info('多上游', `💳 用户 ${linuxDoId} 收款上游切换为 ${upstream.name}`);
+    return { success: true, message: `收款上游已切换为 ${upstream.name}` };
+}
+
+/**
+ * 解除上游绑定（主站与收款上游不可解除）
+ */
+export function unbindUpstream(linuxDoId: string, upstreamId: number): { success: boolean; message: string } {
+    if (upstreamId === PRIMARY_UPSTREAM_ID) {
+        return { success: false, message: '主站绑定不可解除' };
+    }
+    const binding = upstreamQueries.getBinding.get(linuxDoId, upstreamId);
+    if (!binding) {
+        return { success: false, message: '尚未绑定该上游' };
+    }
+    if (binding.is_payout) {
+        return { success: false, message: '请先将收款上游切换到其他站点' };
+    }
+    upstreamQueries.deleteBinding.run(linuxDoId, upstreamId);
+    return { success: true, message: '已解除绑定' };
+}
+
+/**
+ * 用户可用的上游及绑定情况
+ */
+export function listUserUpstreams(linuxDoId: string) {
+    const bindings = new Map(upstreamQueries.getBindings.all(linuxDoId).map(binding => [binding.upstream_id, binding]));
+    const payout = getPayoutAccount(linuxDoId);
+
+    return upstreamQueries.getEnabled.all().map(upstream => {
+        const binding = bindings.get(upstream.id);
+        return {
+            id: upstream.id,
+            name: upstream.name,
+            quota_per_unit: upstream.quota_per_unit,
+            bound: !!binding || (upstream.id === PRIMARY_UPSTREAM_ID && payout?.upstream.id === PRIMARY_UPSTREAM_ID),
+            username: binding?.username ?? (payout?.upstream.id === upstream.id ? payout.username : null),
+            kyx_user_id: binding?.kyx_user_id ?? (payout?.upstream.id === upstream.id ? payout.kyxUserId : null),
+            is_payout: payout?.upstream.id === upstream.id,
+        };
+    });
+}
+
+/**
+ * 管理后台展示（不返回凭据）
+ */
+export function toPublicUpstream(upstream: Upstream) {
+    const { session, ...rest } = upstream;
+    return {
+        ...rest,
+        is_primary: upstream.id === PRIMARY_UPSTREAM_ID,
+        session_configured: upstream.id === PRIMARY_UPSTREAM_ID ? !!adminQueries.get.get()?.session : !!session,
+        bindings: upstreamQueries.countBindings.get(upstream.id)?.count || 0,
+    };
+}
+
+function validateUpstreamInput(input: UpstreamInput, isPrimary: boolean): string | null {
+    if (input.name !== undefined && !input.name.trim()) {
+        return '名称不能为空';
+    }
+    if (!isPrimary && input.base_url !== undefined && !/^https?:\/\//.test(input.base_url.trim())) {
+        return '地址必须以 http:// 或 https:// 开头';
+    }
+    if (input.quota_per_unit !== undefined && (!Number.isInteger(input.quota_per_unit) || input.quota_per_unit <= 0)) {
+        return '额度单位必须为正整数';
+    }
+    if (isPrimary && input.enabled === false) {
+        return '主站不可停用';
+    }
+    return null;
+}
+
+/**
+ * 新增上游
+ */
+export function createUpstream(input: UpstreamInput): { success: boolean; message: string; data?: ReturnType<typeof toPublicUpstream> } {
+    if (!input.name || !input.base_url) {
+        return { success: false, message: '名称和地址不能为空' };
+    }
+    const error = validateUpstreamInput(input, false);
+    if (error) {
+        return { success: false, message: error };
+    }
+
+    const now = Date.now();
+    try {
+        const upstream = upstreamQueries.insert.get(
+            input.name.trim(),
+            input.base_url.trim().replace(/\/+$/, ''),
+            input.session || '',
+            input.new_api_user || '1',
+            input.quota_per_unit ?? LOCAL_QUOTA_PER_UNIT,
+            input.modelscope_group_id ?? null,
+            input.iflow_group_id ?? null,
+            input.enabled === false ? 0 : 1,
+            now,
+            now
+        )!;
+        logger.info('多上游', `➕ 新增上游 ${upstream.name} (${upstream.base_url})`);
+        return { success: true, message: '上游已添加', data: toPublicUpstream(upstream) };
+    } catch (error: any) {
+        if (String(error.message).includes('UNIQUE')) {
+            return { success: false, message: '上游名称已存在' };
+        }
+        throw error;
+    }
+}
+
+/**
+ * 更新上游（主站的地址与凭据请在系统配置中修改）
+ */
+export function updateUpstream(upstreamId: number, input: UpstreamInput): { success: boolean; message: string; data?: ReturnType<typeof toPublicUpstream> } {
+    const upstream = upstreamQueries.getById.get(upstreamId);
+    if (!upstream) {
+        return { success: false, message: '上游不存在' };
+    }
+    const isPrimary = upstream.id === PRIMARY_UPSTREAM_ID;
+    const error = validateUpstreamInput(input, isPrimary);
+    if (error) {
+        return { success: false, message: error };
+    }
+
+    try {
+        upstreamQueries.update.run(
+            input.name?.trim() ?? upstream.name,
+            isPrimary ? upstream.base_url : (input.base_url?.trim().replace(/\/+$/, '') ?? upstream.base_url),
+            isPrimary ? upstream.session : (input.session ?? upstream.session),
+            isPrimary ? upstream.new_api_user : (input.new_api_user ?? upstream.new_api_user),
+            input.quota_per_unit ?? upstream.quota_per_unit,
+            input.modelscope_group_id !== undefined ? input.modelscope_group_id : upstream.modelscope_group_id,
+            input.iflow_group_id !== undefined ? input.iflow_group_id : upstream.iflow_group_id,
+            input.enabled === undefined ? upstream.enabled : (input.enabled ? 1 : 0),
+            Date.now(),
+            upstreamId
+        );
+    } catch (error: any) {
+        if (String(error.message).includes('UNIQUE')) {
+            return { success: false, message: '上游名称已存在' };
+        }
+        throw error;
+    }
+
+    logger.info('多上游', `✏️ 更新上游 #${upstreamId}`);
+    return { success: true, message: '上游已更新', data: toPublicUpstream(upstreamQueries.getById.get(upstreamId)!) };
+}
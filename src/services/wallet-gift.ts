@@ -0,0 +1,221 @@
+/**
+ * 钱包赠送：用户之间按 LinuxDo 用户名互转本地钱包🥚
+ * 每日赠出/收到上限与手续费率见 admin_config，手续费从赠出金额中扣除并归系统
+ * 扣款、入账、赠送记录与记账分录在同一事务内完成
+ */
+
+import { db, adminQueries, userQueries, walletGiftQueries } from '../database';
+import type { WalletGift, WalletGiftListType } from '../types';
+import logger from '../utils/logger';
+import { checkGiftAbuse } from './anti-abuse';
+import { LedgerAccounts, postTransfer, postWalletDebit } from './ledger';
+import { getTodayDate } from './slot';
+import { ensureWallet, getWalletBalance } from './wallet';
+
+// 留言最大长度
+const MAX_MEMO_LENGTH = 100;
+
+/**
+ * 赠送配置（上限换算为 quota，0 表示不允许赠出/收到）
+ */
+export function getGiftConfig(): { rate: number; send_limit_quota: number; receive_limit_quota: number; fee_rate: number } {
+    const admin = adminQueries.get.get();
+    const rate = (admin?.wallet_exchange_rate as number) || 500000;
+    return {
+        rate,
+        send_limit_quota: ((admin?.wallet_gift_daily_send_egg as number) ?? 500) * rate,
+        receive_limit_quota: ((admin?.wallet_gift_daily_receive_egg as number) ?? 1000) * rate,
+        fee_rate: (admin?.wallet_gift_fee_rate as number) ?? 0
+    };
+}
+
+/**
+ * 用户今日赠送额度使用情况
+ */
+export function getGiftSummary(linuxDoId: string) {
+    const config = getGiftConfig();
+    const today = getTodayDate();
+    const sent = walletGiftQueries.getDailySent.get(linuxDoId, today)!;
+    const received = walletGiftQueries.getDailyReceived.get(linuxDoId, today)!;
+
+    return {
+        ...config,
+        today_sent_quota: sent.total,
+        today_sent_count: sent.count,
+        today_received_quota: received.total,
+        today_received_count: received.count,
+        remaining_send_quota: Math.max(0, config.send_limit_quota - sent.total),
+        remaining_receive_quota: Math.max(0, config.receive_limit_quota - received.total)
+    };
+}
+
+/**
+ * 赠送🥚
+ * @param receiverUsername 接收方 LinuxDo 用户名（可带 @）
+ * @param amountEgg 赠出金额（🥚），接收方到账 = 赠出金额 - 手续费
+ */
+export function sendWalletGift(
+    senderId: string,
+    receiverUsername: string,
+    amountEgg: number,
+    memo?: string | null
+): { success: boolean; message: string; data?: any } {
+    const config = getGiftConfig();
+    if (config.send_limit_quota <= 0) {
+        return { success: false, message: '赠送功能未开放' };
+    }
+
+    if (!Number.isFinite(amountEgg) || amountEgg <= 0) {
+        return { success: false, message: '金额必须为正数' };
+    }
+    const amountQuota = Math.floor(amountEgg * config.rate);
+    const feeQuota = Math.floor(amountQuota * config.fee_rate);
+    const receivedQuota = amountQuota - feeQuota;
+    if (receivedQuota <= 0) {
+        return { success: false, message: '金额过小' };
+    }
+
+    const memoText = typeof memo === 'string' ? memo.trim() : '';
+    if (memoText.length > MAX_MEMO_LENGTH) {
+        return { success: false, message: `留言不能超过 ${MAX_MEMO_LENGTH} 个字` };
+    }
+
+    const username = (receiverUsername || '').toString().trim().replace(/^@/, '');
+    if (!username) {
+        return { success: false, message: '请填写对方的 LinuxDo 用户名' };
+    }
+    const sender = userQueries.get.get(senderId);
+    const receiver = userQueries.getByLinuxDoUsername.get(username);
+    if (!sender) {
+        return { success: false, message: '用户不存在' };
+    }
+    if (!receiver) {
+        return { success: false, message: `用户 @${username} 不存在或未绑定` };
+    }
+    if (receiver.linux_do_id === senderId) {
+        return { success: false, message: '不能赠送给自己' };
+    }
+    if (sender.is_banned) {
+        return { success: false, message: '您的账号已被封禁' };
+    }
+    if (receiver.is_banned) {
+        return { success: false, message: '对方账号已被封禁，无法赠送' };
+    }
+
+    const abuse = checkGiftAbuse(senderId, receiver.linux_do_id);
+    if (!abuse.allowed) {
+        return { success: false, message: abuse.reason || '暂时无法赠送' };
+    }
+
+    const senderName = sender.linux_do_username || sender.username;
+    const receiverName = receiver.linux_do_username || receiver.username;
+    const today = getTodayDate();
+    let rejection: string | null = null;
+    let gift: WalletGift;
+
+    try {
+        db.exec('BEGIN IMMEDIATE');
+        ensureWallet(senderId);
+        ensureWallet(receiver.linux_do_id);
+
+        // 每日上限在事务内校验，避免并发赠送超额
+        const sentToday = walletGiftQueries.getDailySent.get(senderId, today)!.total;
+        const receivedToday = walletGiftQueries.getDailyReceived.get(receiver.linux_do_id, today)!.total;
+        if (sentToday + amountQuota > config.send_limit_quota) {
+            rejection = `超过今日赠出上限（剩余 🥚${(Math.max(0, config.send_limit_quota - sentToday) / config.rate).toFixed(2)}）`;
+            throw new Error(rejection);
+        }
+        if (receivedToday + receivedQuota > config.receive_limit_quota) {
+            rejection = `对方今日收到的赠送已达上限（剩余 🥚${(Math.max(0, config.receive_limit_quota - receivedToday) / config.rate).toFixed(2)}）`;
+            throw new Error(rejection);
+        }
+
+        const now = Date.now();
+        const deducted = db.query('UPDATE user_wallets SET balance_quota = balance_quota - ?, updated_at = ? WHERE linux_do_id = ? AND balance_quota >= ?')
+            .run(amountQuota, now, senderId, amountQuota);
+        if (deducted.changes === 0) {
+            rejection = '本地钱包余额不足';
+            throw new Error(rejection);
+        }
+        db.query('UPDATE user_wallets SET balance_quota = balance_quota + ?, updated_at = ? WHERE linux_do_id = ?')
+            .run(receivedQuota, now, receiver.linux_do_id);
+
+        gift = walletGiftQueries.insert.get(
+            senderId,
+            senderName,
+            receiver.linux_do_id,
+            receiverName,
+            amountQuota,
+            feeQuota,
+            receivedQuota,
+            memoText || null,
+            abuse.flags.length > 0 ? 1 : 0,
+            abuse.flags.length > 0 ? abuse.flags.join('；') : null,
+            today,
+            now
+        )!;
+
+        postTransfer({
+            reason: 'wallet_gift',
+            linuxDoId: senderId,
+            creditLinuxDoId: receiver.linux_do_id,
+            debitAccount: LedgerAccounts.wallet(senderId),
+            creditAccount: LedgerAccounts.wallet(receiver.linux_do_id),
+            amount: receivedQuota,
+            refId: gift.id,
+            memo: memoText || null
+        });
+        postWalletDebit(senderId, feeQuota, 'wallet_gift_fee', LedgerAccounts.HOUSE_FEES, gift.id);
+
+        db.exec('COMMIT');
+    } catch (error: any) {
+        try { db.exec('ROLLBACK'); } catch {}
+        if (rejection) {
+            return { success: false, message: rejection };
+        }
+        logger.error('钱包赠送', `❌ 赠送失败 - ${senderName} → ${receiverName}, 金额: 🥚${amountEgg}, 错误: ${error.message}`);
+        return { success: false, message: '赠送失败，请稍后重试' };
+    }
+
+    logger.info('钱包赠送', `🎁 ${senderName} (${senderId}) → ${receiverName} (${receiver.linux_do_id}) 赠送 🥚${(amountQuota / config.rate).toFixed(2)}，手续费 🥚${(feeQuota / config.rate).toFixed(2)}${gift.flagged ? `，已标记：${gift.flag_reason}` : ''}`);
+
+    return {
+        success: true,
+        message: `已向 @${receiverName} 赠送 🥚${(receivedQuota / config.rate).toFixed(2)}`,
+        data: {
+            gift_id: gift.id,
+            receiver: receiverName,
+            amount_quota: gift.amount_quota,
+            fee_quota: gift.fee_quota,
+            received_quota: gift.received_quota,
+            wallet_quota: getWalletBalance(senderId)
+        }
+    };
+}
+
+/**
+ * 用户赠送记录（赠出与收到），direction 为相对当前用户的方向
+ */
+export function getUserGifts(linuxDoId: string, type: WalletGiftListType, limit: number, offset: number) {
+    const rate = getGiftConfig().rate;
+    const gifts = walletGiftQueries.getByUser.all(type, linuxDoId, limit, offset);
+    const total = walletGiftQueries.getCountByUser.get(type, linuxDoId)?.total || 0;
+
+    return {
+        total,
+        records: gifts.map(gift => {
+            const isSender = gift.sender_id === linuxDoId;
+            return {
+                id: gift.id,
+                direction: isSender ? 'sent' : 'received',
+                counterpart: isSender ? gift.receiver_name : gift.sender_name,
+                amount_quota: isSender ? gift.amount_quota : gift.received_quota,
+                fee_quota: isSender ? gift.fee_quota : 0,
+                amount_egg: ((isSender ? gift.amount_quota : gift.received_quota) / rate).toFixed(2),
+                memo: gift.memo,
+                timestamp: gift.created_at,
+                date: gift.date
+            };
+        })
+    };
+}
@@ -0,0 +1,376 @@
+/**
+ * 钱包划转状态机
+ * 转入（in）：pending → upstream_applied → local_applied → done
+ *                                       ↘ compensated（本地入账失败，已冲正上游）
+ * 提现（out）：pending → local_applied → upstream_applied → done
+ *                                    ↘ compensated（上游未生效，已退回本地钱包）
+ * pending → failed（尚未产生任何变动，无需处理）
+ * 上游/本地 → needs_review（上游额度被其他操作改动，无法确认是否生效，资金可能已转出，需人工核对）
+ *
+ * 两个方向都先扣减资金转出方，再增加转入方，中断时不会出现多出的余额
+ * 每一步都先持久化状态再推进，进程崩溃后由对账器续做或冲正
+ * 上游变更与冲正需要按绝对额度核对，不走额度队列，但在同一用户的额度锁内执行
+ * 划转金额按本站额度计，upstream_before / upstream_target 为所属上游的额度单位
+ */
+
+import { db, walletTransferQueries } from '../database';
+import { withQuotaLock } from './quota-queue';
+import { PRIMARY_UPSTREAM_ID, fetchUpstreamUser, getUpstreamConnection, setUpstreamQuota, toUpstreamQuota } from './upstreams';
+import type { UpstreamConnection } from './upstreams';
+import type { WalletTransfer, WalletTransferDirection } from '../types';
+import { LedgerAccounts, postTransfer } from './ledger';
+import { getTodayDate } from './slot';
+import logger from '../utils/logger';
+
+// 配置
+const STALE_THRESHOLD = 60000; // 超过60秒未推进的划转视为中断
+const MAX_RETRY_COUNT = 5; // 本地入账最大重试次数，超过后冲正上游
+const BATCH_SIZE = 10;
+
+export type { WalletTransfer, WalletTransferDirection, WalletTransferStatus } from '../types';
+
+// 本进程内正在执行的划转，对账器跳过
+const executing = new Set<number>();
+let isReconciling = false;
+
+function getTransfer(id: number): WalletTransfer | null {
+    return walletTransferQueries.getById.get(id);
+}
+
+function describe(t: WalletTransfer): string {
+    return `#${t.id} 用户: ${t.linux_do_id}, 方向: ${t.direction === 'in' ? '公益站→本地' : '本地→公益站'}, 金额: $${(t.amount_quota / 500000).toFixed(2)}`;
+}
+
+function getWalletQuota(linuxDoId: string): number {
+    return walletTransferQueries.getWalletQuota.get(linuxDoId)?.balance_quota ?? 0;
+}
+
+function fail(t: WalletTransfer, message: string) {
+    const now = Date.now();
+    walletTransferQueries.markFinished.run('failed', message, now, now, t.id, t.status);
+    logger.warn('钱包划转', `❌ 划转失败 ${describe(t)}, 原因: ${message}`);
+}
+
+/**
+ * 转入人工核对（保留原状态到错误信息中，管理后台的待处理列表可见）
+ */
+function markNeedsReview(t: WalletTransfer, message: string) {
+    walletTransferQueries.transition.run('needs_review', `${message}（原状态: ${t.status}）`, Date.now(), t.id, t.status);
+    logger.error('钱包划转', `⚠️ 划转需人工核对 ${describe(t)}, 原因: ${message}`);
+}
+
+function getConnection(t: WalletTransfer): UpstreamConnection {
+    const upstream = getUpstreamConnection(t.upstream_id);
+    if (!upstream || !upstream.session) throw new Error('上游不存在、已停用或未配置凭据');
+    return upstream;
+}
+
+/**
+ * 上游变更（转入：pending → upstream_applied；提现：local_applied → upstream_applied）
+ * 调用上游前先记录变更前后额度，崩溃恢复时据此判断上游是否已生效
+ * 上游确认未生效时，转入直接失败，提现退回已扣的本地钱包
+ */
+async function applyUpstream(t: WalletTransfer): Promise<void> {
+    const upstream = getConnection(t);
+
+    const r = await fetchUpstreamUser(upstream, t.kyx_user_id, true);
+    if (!r.success || !r.user) throw new Error(`获取上游余额失败: ${r.message || '未知错误'}`);
+    const current = r.user.quota || 0;
+
+    // 恢复场景：上游计划已记录，判断是否已生效
+    if (t.upstream_target !== null && t.upstream_target !== undefined) {
+        if (current === t.upstream_target) {
+            walletTransferQueries.transition.run('upstream_applied', null, Date.now(), t.id, t.status);
+            logger.info('钱包划转', `🔁 恢复：上游已生效 ${describe(t)}`);
+            return;
+        }
+        if (current !== t.upstream_before) {
+            markNeedsReview(t, `上游额度已变动（计划前 ${t.upstream_before}, 目标 ${t.upstream_target}, 当前 ${current}），无法确认划转是否生效，需人工核对`);
+            return;
+        }
+        // 上游未生效，按当前额度重新执行
+    }
+
+    const amount = toUpstreamQuota(upstream, t.amount_quota);
+    if (t.direction === 'in' && current < amount) {
+        fail(t, '上游余额不足');
+        return;
+    }
+
+    const target = t.direction === 'in' ? current - amount : current + amount;
+    walletTransferQueries.setUpstreamPlan.run(current, target, Date.now(), t.id, t.status);
+
+    logger.info('钱包划转', `正在更新上游 ${upstream.name} ${describe(t)}, 上游余额: $${(current / upstream.quotaPerUnit).toFixed(2)} → $${(target / upstream.quotaPerUnit).toFixed(2)}`);
+
+    const upRes = await setUpstreamQuota(upstream, r.user, target);
+    if (!upRes || !upRes.success) {
+        // 请求失败不代表未生效（如超时），回读确认
+        const verify = await fetchUpstreamUser(upstream, t.kyx_user_id, true);
+        if (!(verify.success && verify.user && verify.user.quota === target)) {
+            const message = `上游更新失败: ${upRes?.message || '未知错误'}`;
+            if (t.direction === 'out') {
+                refundLocal(t, message);
+            } else {
+                fail(t, message);
+            }
+            return;
+        }
+        logger.warn('钱包划转', `上游返回失败但回读已生效 ${describe(t)}`);
+    }
+
+    walletTransferQueries.transition.run('upstream_applied', null, Date.now(), t.id, t.status);
+    logger.info('钱包划转', `✅ 上游已生效 ${describe(t)}`);
+}
+
+/**
+ * 本地钱包变更（转入：upstream_applied → local_applied；提现：pending → local_applied）
+ * 钱包变更、划转记录、记账分录与状态迁移在同一事务内完成
+ */
+async function applyLocal(t: WalletTransfer): Promise<void> {
+    const now = Date.now();
+    let insufficient = false;
+
+    try {
+        db.exec('BEGIN IMMEDIATE');
+
+        if (t.direction === 'in') {
+            db.query('INSERT INTO user_wallets (linux_do_id, balance_quota, created_at, updated_at) VALUES (?, ?, ?, ?) ON CONFLICT(linux_do_id) DO UPDATE SET balance_quota = balance_quota + ?, updated_at = ?')
+                .run(t.linux_do_id, t.amount_quota, now, now, t.amount_quota, now);
+        } else {
+            const res = db.query('UPDATE user_wallets SET balance_quota = balance_quota - ?, updated_at = ? WHERE linux_do_id = ? AND balance_quota >= ?')
+                .run(t.amount_quota, now, t.linux_do_id, t.amount_quota);
+            if (res.changes === 0) {
+                insufficient = true;
+                throw new Error('本地钱包余额不足');
+            }
+        }
+
+        const record = db.query('INSERT INTO wallet_transfer_records (linux_do_id, direction, amount_quota, timestamp, date) VALUES (?, ?, ?, ?, ?)')
+            .run(t.linux_do_id, t.direction, t.amount_quota, now, t.date);
+        const recordId = Number(record.lastInsertRowid);
+
+        postTransfer({
+            reason: t.direction === 'in' ? 'wallet_transfer_in' : 'wallet_transfer_out',
+            linuxDoId: t.linux_do_id,
+            debitAccount: t.direction === 'in' ? LedgerAccounts.upstream(t.linux_do_id) : LedgerAccounts.wallet(t.linux_do_id),
+            creditAccount: t.direction === 'in' ? LedgerAccounts.wallet(t.linux_do_id) : LedgerAccounts.upstream(t.linux_do_id),
+            amount: t.amount_quota,
+            refId: recordId
+        });
+
+        const walletAfter = getWalletQuota(t.linux_do_id);
+        const moved = walletTransferQueries.markLocalApplied.run(walletAfter, recordId, now, t.id, t.status);
+        if (moved.changes === 0) {
+            throw new Error('划转状态已被其他流程推进');
+        }
+
+        db.exec('COMMIT');
+        logger.info('钱包划转', `✅ 本地已入账 ${describe(t)}, 本地余额: $${(walletAfter / 500000).toFixed(2)}`);
+    } catch (error: any) {
+        try { db.exec('ROLLBACK'); } catch {}
+
+        // 提现尚未调用上游，扣款失败直接结束
+        if (t.direction === 'out') {
+            if (insufficient || t.retry_count + 1 >= MAX_RETRY_COUNT) {
+                fail(t, insufficient ? '本地钱包余额不足' : `本地扣款失败: ${error.message}`);
+            } else {
+                walletTransferQueries.incrementRetry.run(error.message, Date.now(), t.id);
+                logger.error('钱包划转', `❌ 本地扣款失败 ${describe(t)}, 第 ${t.retry_count + 1} 次, 错误: ${error.message}`);
+            }
+            return;
+        }
+
+        if (insufficient || t.retry_count + 1 >= MAX_RETRY_COUNT) {
+            logger.warn('钱包划转', `本地入账失败，准备冲正上游 ${describe(t)}, 原因: ${error.message}`);
+            await withQuotaLock(t.kyx_user_id, () => compensate(t, error.message), t.upstream_id);
+        } else {
+            walletTransferQueries.incrementRetry.run(error.message, Date.now(), t.id);
+            logger.error('钱包划转', `❌ 本地入账失败 ${describe(t)}, 第 ${t.retry_count + 1} 次, 错误: ${error.message}`);
+        }
+    }
+}
+
+/**
+ * 退回本地钱包（提现上游未生效，local_applied → compensated）
+ * 退款、删除划转记录、冲销分录与状态迁移在同一事务内完成，失败时保留状态由对账器重试
+ */
+function refundLocal(t: WalletTransfer, reason: string): void {
+    const now = Date.now();
+
+    try {
+        db.exec('BEGIN IMMEDIATE');
+
+        db.query('UPDATE user_wallets SET balance_quota = balance_quota + ?, updated_at = ? WHERE linux_do_id = ?')
+            .run(t.amount_quota, now, t.linux_do_id);
+        if (t.record_id !== null) {
+            db.query('DELETE FROM wallet_transfer_records WHERE id = ?').run(t.record_id);
+        }
+
+        postTransfer({
+            reason: 'wallet_transfer_out_refund',
+            linuxDoId: t.linux_do_id,
+            debitAccount: LedgerAccounts.upstream(t.linux_do_id),
+            creditAccount: LedgerAccounts.wallet(t.linux_do_id),
+            amount: t.amount_quota,
+            refId: t.record_id
+        });
+
+        const moved = walletTransferQueries.markFinished.run('compensated', reason, now, now, t.id, 'local_applied');
+        if (moved.changes === 0) {
+            throw new Error('划转状态已被其他流程推进');
+        }
+
+        db.exec('COMMIT');
+        logger.info('钱包划转', `↩️ 已退回本地钱包 ${describe(t)}, 原因: ${reason}`);
+    } catch (error: any) {
+        try { db.exec('ROLLBACK'); } catch {}
+        walletTransferQueries.incrementRetry.run(`退回失败: ${error.message} (${reason})`, Date.now(), t.id);
+        logger.error('钱包划转', `❌ 退回本地钱包失败 ${describe(t)}, 错误: ${error.message}`);
+    }
+}
+
+/**
+ * 冲正上游（转入本地入账失败，upstream_applied → compensated）
+ */
+async function compensate(t: WalletTransfer, reason: string): Promise<void> {
+    const upstream = getConnection(t);
+
+    const r = await fetchUpstreamUser(upstream, t.kyx_user_id, true);
+    if (!r.success || !r.user) {
+        walletTransferQueries.incrementRetry.run(`冲正失败: 获取上游余额失败 (${reason})`, Date.now(), t.id);
+        return;
+    }
+
+    const current = r.user.quota || 0;
+    const amount = toUpstreamQuota(upstream, t.amount_quota);
+    const target = t.direction === 'in' ? current + amount : current - amount;
+    if (target < 0) {
+        walletTransferQueries.incrementRetry.run(`冲正失败: 上游余额不足以退回 (${reason})，需人工处理`, Date.now(), t.id);
+        logger.error('钱包划转', `❌ 冲正失败 ${describe(t)}, 上游余额不足以退回，需人工处理`);
+        return;
+    }
+
+    const upRes = await setUpstreamQuota(upstream, r.user, target);
+    if (!upRes || !upRes.success) {
+        walletTransferQueries.incrementRetry.run(`冲正失败: ${upRes?.message || '未知错误'} (${reason})`, Date.now(), t.id);
+        logger.error('钱包划转', `❌ 冲正失败 ${describe(t)}, 错误: ${upRes?.message || '未知错误'}`);
+        return;
+    }
+
+    const now = Date.now();
+    walletTransferQueries.markFinished.run('compensated', reason, now, now, t.id, 'upstream_applied');
+    logger.info('钱包划转', `↩️ 已冲正上游 ${describe(t)}, 原因: ${reason}`);
+}
+
+/**
+ * 完成（转入：local_applied → done；提现：upstream_applied → done）
+ */
+function finalize(t: WalletTransfer): void {
+    const now = Date.now();
+    walletTransferQueries.markFinished.run('done', null, now, now, t.id, t.status);
+    logger.info('钱包划转', `✅ 划转完成 ${describe(t)}`);
+}
+
+/**
+ * 推进划转直到终态或无法继续
+ */
+export async function executeWalletTransfer(id: number): Promise<WalletTransfer | null> {
+    if (executing.has(id)) return getTransfer(id);
+    executing.add(id);
+
+    try {
+        // 每一步最多推进一次状态，防止异常情况下死循环
+        for (let step = 0; step < 4; step++) {
+            const t = getTransfer(id);
+            if (!t) return null;
+
+            // 转入先上游后本地，提现先本地后上游
+            const before = t.status;
+            const upstreamStep = t.direction === 'in' ? 'pending' : 'local_applied';
+            const localStep = t.direction === 'in' ? 'upstream_applied' : 'pending';
+            const finalStep = t.direction === 'in' ? 'local_applied' : 'upstream_applied';
+            if (before === upstreamStep) {
+                await withQuotaLock(t.kyx_user_id, () => applyUpstream(t), t.upstream_id);
+            } else if (before === localStep) {
+                await applyLocal(t);
+            } else if (before === finalStep) {
+                finalize(t);
+            } else {
+                return t;
+            }
+
+            const after = getTransfer(id);
+            if (!after || after.status === before) return after;
+        }
+        return getTransfer(id);
+    } catch (error: any) {
+        walletTransferQueries.incrementRetry.run(error.message, Date.now(), id);
+        logger.error('钱包划转', `❌ 划转 #${id} 执行出错: ${error.message}`);
+        return getTransfer(id);
+    } finally {
+        executing.delete(id);
+    }
+}
+
+/**
+ * 创建划转并立即执行
+ * 用户已有未完成划转时返回 null
+ */
+export async function createAndExecuteWalletTransfer(
+    linuxDoId: string,
+    kyxUserId: number,
+    direction: WalletTransferDirection,
+    amountQuota: number,
+    upstreamId: number = PRIMARY_UPSTREAM_ID
+): Promise<WalletTransfer | null> {
+    const now = Date.now();
+    const res = walletTransferQueries.insert.run(linuxDoId, kyxUserId, direction, amountQuota, getTodayDate(), now, upstreamId);
+    if (res.changes === 0) {
+        logger.warn('钱包划转', `用户 ${linuxDoId} 存在未完成的划转，拒绝创建新划转`);
+        return null;
+    }
+    const id = Number(res.lastInsertRowid);
+    logger.info('钱包划转', `📝 创建划转 #${id} - 用户: ${linuxDoId}, 方向: ${direction}, 金额: $${(amountQuota / 500000).toFixed(2)}`);
+    return executeWalletTransfer(id);
+}
+
+/**
+ * 获取用户未完成的划转
+ */
+export function getInFlightTransfer(linuxDoId: string): WalletTransfer | null {
+    return walletTransferQueries.getInFlightByUser.get(linuxDoId);
+}
+
+/**
+ * 对账：续做或冲正中断的划转
+ * @param staleMs 未推进时长阈值，启动时传 0 处理所有遗留划转
+ */
+export async function reconcileWalletTransfers(staleMs: number = STALE_THRESHOLD): Promise<{ processed: number }> {
+    if (isReconciling) {
+        logger.debug('钱包划转', '上一轮对账仍在进行，跳过本次');
+        return { processed: 0 };
+    }
+
+    isReconciling = true;
+    let processed = 0;
+
+    try {
+        const transfers = walletTransferQueries.getUnfinished.all(Date.now() - staleMs, BATCH_SIZE);
+        const candidates = transfers.filter(t => !executing.has(t.id));
+        if (candidates.length === 0) return { processed: 0 };
+
+        logger.info('钱包划转', `🔄 发现 ${candidates.length} 笔中断的划转，开始对账`);
+
+        for (const t of candidates) {
+            const result = await executeWalletTransfer(t.id);
+            processed++;
+            logger.info('钱包划转', `对账 #${t.id}: ${t.status} → ${result?.status || '未知'}`);
+        }
+    } catch (error: any) {
+        logger.error('钱包划转', `❌ 对账过程出错: ${error.message}`);
+    } finally {
+        isReconciling = false;
+    }
+
+    return { processed };
+}
@@ -1,30 +1,40 @@
 import { db, adminQueries } from '../database';
+import { LedgerAccounts, postWalletCredit, postWalletDebit, type LedgerReason } from './ledger';
+
+// 钱包变动的记账信息：原因代码 + 对方账户
+export interface WalletLedgerContext {
+  reason: LedgerReason;
+  account: string;
+  refId?: string | number | null;
+  memo?: string | null;
+}
 
 export function getWalletBalance(linuxDoId: string): number {
   const row = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(linuxDoId) as any;
   if (row) return row.balance_quota as number;
   // 初始化为 🥚250
-  const cfg = adminQueries.get.get();
-  const rate = (cfg?.wallet_exchange_rate as number) || 500000;
-  const initialEggs = (cfg?.wallet_initial_egg as number) || 250;
-  const initialQuota = initialEggs * rate;
-  const now = Date.now();
-  db.query('INSERT OR IGNORE INTO user_wallets (linux_do_id, balance_quota, updated_at) VALUES (?, ?, ?)')
-    .run(linuxDoId, initialQuota, now);
-  return initialQuota;
+  ensureWallet(linuxDoId);
+  const created = db.query('SELECT balance_quota FROM user_wallets WHERE linux_do_id = ?').get(linuxDoId) as any;
+  return created ? (created.balance_quota as number) : 0;
 }
 
-function ensureWallet(linuxDoId: string) {
-  const now = Date.now();
+// 钱包不存在时创建并发放初始🥚，建档与记账在同一事务内完成（已在事务中时使用 SAVEPOINT）
+export function ensureWallet(linuxDoId: string) {
   const cfg = adminQueries.get.get();
   const rate = (cfg?.wallet_exchange_rate as number) || 500000;
   const initialEggs = (cfg?.wallet_initial_egg as number) || 250;
   const initialQuota = initialEggs * rate;
-  db.query('INSERT OR IGNORE INTO user_wallets (linux_do_id, balance_quota, updated_at) VALUES (?, ?, ?)')
-    .run(linuxDoId, initialQuota, now);
+  db.transaction(() => {
+    const now = Date.now();
+    const res = db.query('INSERT OR IGNORE INTO user_wallets (linux_do_id, balance_quota, created_at, updated_at) VALUES (?, ?, ?, ?)')
+      .run(linuxDoId, initialQuota, now, now) as any;
+    if ((res?.changes || 0) > 0) {
+      postWalletCredit(linuxDoId, initialQuota, 'wallet_initial_grant', LedgerAccounts.HOUSE_PROMO);
+    }
+  })();
 }
 
-export function tryDeductWallet(linuxDoId: string, amountQuota: number): { success: boolean; newBalance: number } {
+export function tryDeductWallet(linuxDoId: string, amountQuota: number, ledger: WalletLedgerContext): { success: boolean; newBalance: number } {
   if (amountQuota <= 0) return { success: true, newBalance: getWalletBalance(linuxDoId) };
   try {
     db.exec('BEGIN IMMEDIATE');
@@ -37,6 +47,7 @@ export function tryDeductWallet(linuxDoId: string, amountQuota: number): { succe
       const bal = getWalletBalance(linuxDoId);
       return { success: false, newBalance: bal };
     }
+    postWalletDebit(linuxDoId, amountQuota, ledger.reason, ledger.account, ledger.refId, ledger.memo);
     db.exec('COMMIT');
     const bal = getWalletBalance(linuxDoId);
     return { success: true, newBalance: bal };
@@ -47,7 +58,7 @@ export function tryDeductWallet(linuxDoId: string, amountQuota: number): { succe
   }
 }
 
-export function addWallet(linuxDoId: string, amountQuota: number): { success: boolean; newBalance: number } {
+export function addWallet(linuxDoId: string, amountQuota: number, ledger: WalletLedgerContext): { success: boolean; newBalance: number } {
   if (amountQuota <= 0) return { success: true, newBalance: getWalletBalance(linuxDoId) };
   try {
     db.exec('BEGIN IMMEDIATE');
@@ -55,6 +66,7 @@ export function addWallet(linuxDoId: string, amountQuota: number): { success: bo
     const now = Date.now();
     db.query('UPDATE user_wallets SET balance_quota = balance_quota + ?, updated_at = ? WHERE linux_do_id = ?')
       .run(amountQuota, now, linuxDoId);
+    postWalletCredit(linuxDoId, amountQuota, ledger.reason, ledger.account, ledger.refId, ledger.memo);
     db.exec('COMMIT');
     const bal = getWalletBalance(linuxDoId);
     return { success: true, newBalance: bal };
@@ -65,7 +77,7 @@ export function addWallet(linuxDoId: string, amountQuota: number): { success: bo
   }
 }
 
-export function deductUpTo(linuxDoId: string, amountQuota: number): { success: boolean; actualDeducted: number; newBalance: number } {
+export function deductUpTo(linuxDoId: string, amountQuota: number, ledger: WalletLedgerContext): { success: boolean; actualDeducted: number; newBalance: number } {
   try {
     db.exec('BEGIN IMMEDIATE');
     ensureWallet(linuxDoId);
@@ -74,6 +86,7 @@ export function deductUpTo(linuxDoId: string, amountQuota: number): { success: b
     const now = Date.now();
     db.query('UPDATE user_wallets SET balance_quota = balance_quota - ?, updated_at = ? WHERE linux_do_id = ?')
       .run(actual, now, linuxDoId);
+    postWalletDebit(linuxDoId, actual, ledger.reason, ledger.account, ledger.refId, ledger.memo);
     db.exec('COMMIT');
     const bal = getWalletBalance(linuxDoId);
     return { success: true, actualDeducted: actual, newBalance: bal };
@@ -7,6 +7,7 @@ export interface User {
     is_banned: number;  // 0: 正常, 1: 已封禁
     banned_at?: number;
     banned_reason?: string;
+    win_streak?: number;  // 连续中奖次数
     created_at: number;
 }
 
@@ -36,6 +37,7 @@ export interface DonateRecord {
 export interface AdminConfig {
     session: string;
     new_api_base: string;         // KYX API 地址，默认 https://api.kkyyxx.xyz
+    kyx_api_base?: string;        // 旧字段（已迁移到 new_api_base，旧库中可能仍存在）
     new_api_user: string;
     claim_quota: number;
     max_daily_claims: number;  // 每日最大领取次数
@@ -46,6 +48,13 @@ export interface AdminConfig {
     max_daily_donate_modelscope: number;  // ModelScope 每日最大投喂次数
     max_daily_donate_iflow: number;       // iFlow 每日最大投喂次数
     updated_at: number;
+    // 钱包配置
+    wallet_exchange_rate: number;               // 每🥚对应的 quota
+    wallet_daily_transfer_limit_count: number;  // 每日划转次数上限
+    wallet_initial_egg: number;                 // 初始🥚额度
+    wallet_gift_daily_send_egg: number;         // 每日赠出上限（🥚）
+    wallet_gift_daily_receive_egg: number;      // 每日收到上限（🥚）
+    wallet_gift_fee_rate: number;               // 赠送手续费率
 }
 
 // Session 数据
@@ -78,6 +87,8 @@ export interface SlotMachineConfig {
     buy_spins_enabled: number;  // 是否启用购买次数功能
     buy_spins_price: number;    // 购买一次的价格
     max_daily_buy_spins: number; // 每日最大购买次数
+    weight_config_id?: number;   // 权重配置方案ID
+    reward_scheme_id?: number;   // 奖励配置方案ID
     updated_at: number;
 }
 
@@ -94,6 +105,13 @@ export interface SlotMachineRecord {
     win_amount: number;
     free_spin_awarded: number;
     is_free_spin: number;
+    slot_mode?: 'normal' | 'advanced';
+    rule_name?: string | null;   // 命中的规则名称
+    ticket_dropped?: number;
+    drop_type?: string | null;
+    fair_seed_id?: number | null;  // 可验证公平：种子ID
+    fair_nonce?: number | null;
+    fair_weights?: string | null;  // 抽奖时的权重快照（JSON）
     timestamp: number;
     date: string;
 }
@@ -103,6 +121,9 @@ export interface UserFreeSpin {
     linux_do_id: string;
     free_spins: number;
     banned_until: number;  // 禁止抽奖截止时间戳
+    banned_at?: number;    // 封禁开始时间
+    ban_slot_mode?: string | null;  // 封禁发生的场次类型
+    ban_hours?: number;    // 实际封禁的小时数
     updated_at: number;
 }
 
@@ -118,6 +139,71 @@ export interface BuySpinsRecord {
     date: string;
 }
 
+// 符号权重（初级场 / 高级场单例配置）
+export interface SlotSymbolWeights {
+    id: number;
+    weight_m: number;
+    weight_t: number;
+    weight_n: number;
+    weight_j: number;
+    weight_lq: number;
+    weight_bj: number;
+    weight_zft: number;
+    weight_bdk: number;
+    weight_lsh: number;
+    weight_man: number;
+    updated_at: number;
+}
+
+// 奖励倍数配置
+export interface SlotRewardMultipliers {
+    id: number;
+    super_jackpot_multiplier: number;
+    special_combo_multiplier: number;
+    quad_multiplier: number;
+    triple_multiplier: number;
+    double_multiplier: number;
+    updated_at: number;
+}
+
+// 用户老虎机累计统计
+export interface UserSlotStats {
+    linux_do_id: string;
+    username: string;
+    avatar_url: string | null;
+    total_spins: number;
+    total_bet: number;
+    total_win: number;
+    biggest_win: number;
+    biggest_win_type: string | null;
+    updated_at: number;
+}
+
+// 用户老虎机日榜统计
+export interface UserSlotDailyStats extends UserSlotStats {
+    id: number;
+    date: string;
+}
+
+// 用户老虎机周榜统计
+export interface UserSlotWeeklyStats extends UserSlotStats {
+    id: number;
+    week_start: string;
+}
+
+// 排行榜条目（盈利 = total_win - total_bet）
+export interface SlotLeaderboardEntry {
+    linux_do_id: string;
+    username: string;
+    avatar_url: string | null;
+    total_spins: number;
+    total_bet: number;
+    total_win: number;
+    biggest_win: number;
+    biggest_win_type: string | null;
+    profit: number;
+}
+
 // ========== 高级场系统类型 ==========
 
 // 用户入场券和碎片
@@ -150,6 +236,8 @@ export interface AdvancedSlotConfig {
     daily_ticket_grant_limit: number; // 每日入场券获得数量限制
     weight_config_id?: number;      // 权重配置方案ID
     reward_scheme_id?: number;      // 奖励配置方案ID
+    supreme_token_drop_rate?: number;    // 至尊令牌掉落率
+    supreme_fragment_drop_rate?: number; // 至尊碎片掉落率
     updated_at: number;
 }
 
@@ -212,6 +300,7 @@ export interface KunbeiConfig {
     deduct_all_quota_on_overdue?: number; // 逾期是否扣除所有额度（已废弃，使用overdue_deduct_multiplier）
     overdue_deduct_multiplier?: number;   // 逾期扣款倍数（默认2.5倍）
     max_daily_borrows?: number;           // 每日借款次数限制（默认3次）
+    max_installments?: number;            // 最多分期数（默认3期，1 表示只能一次还清）
     updated_at: number;
 }
 
@@ -230,10 +319,49 @@ export interface UserLoan {
     overdue_penalty_until?: number;       // 逾期惩罚截止时间
     auto_deducted_amount?: number;        // 逾期自动扣款金额
     balance_after_deduct?: number;        // 扣款后余额
+    overdue_claimed_by?: string | null;   // 逾期处理认领者（处理完成后清空）
+    overdue_claimed_at?: number | null;   // 逾期处理认领时间
+    installment_count?: number;           // 分期数
+    repaid_amount?: number;               // 已冲抵的欠款（含提前还清优惠），剩余欠款 = repay_amount - repaid_amount
+    credit_score_at_borrow?: number | null; // 借款时的信用分
+    early_repay_discount?: number | null;       // 借款时锁定的条款，为空（旧借款）时使用当前配置
+    overdue_deduct_multiplier?: number | null;
+    overdue_penalty_hours?: number | null;
+    created_at: number;
+    updated_at: number;
+}
+
+// 借款分期（应还金额拆分为本金与费用）
+export interface LoanInstallment {
+    id: number;
+    loan_id: number;
+    seq: number;                          // 第几期（从 1 开始）
+    due_at: number;
+    principal_due: number;
+    fee_due: number;
+    principal_paid: number;
+    fee_paid: number;
+    status: 'pending' | 'paid' | 'overdue' | 'waived';
+    paid_at: number | null;
+    overdue_at: number | null;            // 逾期处理时间
     created_at: number;
     updated_at: number;
 }
 
+// 借款还款流水（还款、逾期扣款、豁免）
+export interface LoanRepayment {
+    id: number;
+    loan_id: number;
+    linux_do_id: string;
+    source: 'repay' | 'overdue_deduct' | 'forgive';
+    amount: number;                       // 实际扣除的额度（豁免为 0）
+    discount: number;                     // 提前还清优惠
+    fee_part: number;                     // 冲抵的费用
+    principal_part: number;               // 冲抵的本金
+    outstanding_after: number;            // 操作后剩余欠款
+    created_at: number;
+}
+
 // 用户坤呗统计
 export interface UserKunbeiStats {
     linux_do_id: string;
@@ -262,6 +390,83 @@ export interface KunbeiGradientConfig {
     updated_at?: number;
 }
 
+// 坤呗资产组合每日快照（借款记录清理后仍可查看趋势）
+export interface KunbeiPortfolioSnapshot {
+    date: string;                         // 北京时间日期 YYYY-MM-DD
+    active_loans: number;
+    overdue_loans: number;
+    outstanding_principal: number;        // 未还本金
+    outstanding_amount: number;           // 未还应还金额（本金 + 手续费）
+    total_loans: number;
+    total_lent: number;                   // 累计放款
+    total_collected: number;              // 累计实际还款
+    total_auto_deducted: number;          // 累计逾期扣款
+    total_forgiven: number;               // 累计豁免
+    net_profit: number;                   // 已实现盈亏 = 实际还款 + 逾期扣款 - 放款
+    overdue_rate: number | null;
+    default_rate: number | null;
+    recovery_rate: number | null;
+    early_repay_rate: number | null;
+    created_at: number;
+}
+
+// 坤呗信用评分配置（单行，各项为分值上限）
+export interface KunbeiCreditConfig {
+    id: number;
+    base_score: number;                   // 基础分
+    on_time_weight: number;               // 按时还款率满分
+    overdue_penalty: number;              // 每笔逾期扣分
+    overdue_penalty_cap: number;          // 逾期次数扣分上限
+    recent_overdue_penalty: number;       // 近期逾期扣分（随时间线性衰减）
+    recent_overdue_days: number;          // 近期逾期的衰减天数
+    utilization_weight: number;           // 借款额度使用率扣分上限
+    account_age_weight: number;           // 账号年龄满分
+    account_age_full_days: number;        // 账号年龄达到满分的天数
+    slot_loss_weight: number;             // 老虎机亏损率扣分上限
+    slot_loss_window_days: number;        // 亏损率统计天数
+    bands: string;                        // 信用分档（JSON，KunbeiCreditBand[]，按 min_score 从高到低）
+    updated_at: number;
+}
+
+// 信用分档：决定可借额度倍数，倍数为 0 时不能借款
+export interface KunbeiCreditBand {
+    min_score: number;
+    label: string;
+    loan_multiplier: number;              // 梯度最大可借金额 × 倍数
+}
+
+export type CreditFactorKey = 'base' | 'on_time' | 'overdue_count' | 'overdue_recency' | 'utilization' | 'account_age' | 'slot_loss';
+export type CreditScoreTrigger = 'borrow' | 'repay' | 'overdue' | 'forgive' | 'refresh' | 'config';
+
+// 单项评分因子
+export interface CreditFactor {
+    key: CreditFactorKey;
+    label: string;
+    value: number | null;                 // 原始指标（比例/次数/天数），无数据时为 null
+    points: number;                       // 对信用分的贡献（可为负）
+    detail: string;
+}
+
+// 信用分变动原因（相对上一次评分的因子变化）
+export interface CreditScoreReason {
+    key: CreditFactorKey;
+    label: string;
+    delta: number;
+}
+
+// 信用分变动记录
+export interface CreditScoreHistory {
+    id: number;
+    linux_do_id: string;
+    old_score: number;
+    new_score: number;
+    trigger: CreditScoreTrigger;
+    ref_id: number | null;                // 关联借款ID
+    reasons: string;                      // JSON，CreditScoreReason[]
+    factors: string;                      // JSON，CreditFactor[]（本次评分明细）
+    created_at: number;
+}
+
 // ========== 权重配置方案系统类型 ==========
 
 // 符号权重配置方案
@@ -379,6 +584,10 @@ export interface SupremeSlotRecord {
     win_type: string;
     win_multiplier: number;
     win_amount: number;
+    rule_name?: string | null;
+    fair_seed_id?: number | null;
+    fair_nonce?: number | null;
+    fair_weights?: string | null;
     timestamp: number;
     date: string;
     created_at: number;
@@ -515,6 +724,10 @@ export interface SupremeSlotRecord {
     win_type: string;
     win_multiplier: number;
     win_amount: number;
+    rule_name?: string | null;
+    fair_seed_id?: number | null;
+    fair_nonce?: number | null;
+    fair_weights?: string | null;
     timestamp: number;
     date: string;
     created_at: number;
@@ -534,6 +747,42 @@ export interface SupremeTokenDropRecord {
     created_at: number;
 }
 
+// 至尊场每日进入记录
+export interface SupremeDailyEntry {
+    id: number;
+    linux_do_id: string;
+    entry_date: string;
+    entry_count: number;
+    last_entry_time: number | null;
+}
+
+// 至尊场每日令牌获得记录
+export interface SupremeDailyTokenGrant {
+    id: number;
+    linux_do_id: string;
+    grant_date: string;
+    tokens_granted: number;
+    fragments_granted: number;
+    last_grant_time: number | null;
+}
+
+// ========== 掉落配置类型 ==========
+
+// 掉落配置
+export interface DropConfig {
+    id?: number;
+    slot_mode: 'normal' | 'advanced' | 'supreme';
+    trigger_rule_name: string;            // 触发规则名称
+    drop_item_type: 'ticket' | 'fragment' | 'supreme_token' | 'supreme_fragment';
+    drop_probability: number;             // 掉落概率 0~1
+    drop_count: number;
+    is_active: number;
+    priority: number;
+    description?: string;
+    created_at: number;
+    updated_at: number;
+}
+
 
 // ========== 成就系统类型 ==========
 
@@ -621,3 +870,353 @@ export interface UserAchievementStats {
     badge_slot_3?: string;
     updated_at: number;
 }
+
+// 用户符号收集（0: 未收集, 1: 已收集）
+export interface UserSymbolCollection {
+    linux_do_id: string;
+    symbol_m: number;
+    symbol_t: number;
+    symbol_n: number;
+    symbol_j: number;
+    symbol_lq: number;
+    symbol_bj: number;
+    symbol_zft: number;
+    symbol_bdk: number;
+    symbol_lsh: number;
+    symbol_man: number;
+    updated_at: number;
+}
+
+// 用户盈利追踪
+export interface UserProfitTracking {
+    linux_do_id: string;
+    lowest_profit: number;
+    highest_profit: number;
+    last_profit: number;
+    updated_at: number;
+}
+
+// ========== 定时任务类型 ==========
+
+export type ScheduledJobTrigger = 'schedule' | 'catchup' | 'manual';
+
+// 定时任务持久化状态
+export interface ScheduledJobState {
+    name: string;
+    cron: string;
+    last_run_at: number | null;
+    last_status: 'success' | 'failed' | null;
+    last_error: string | null;
+    last_duration_ms: number | null;
+    next_run_at: number | null;
+    locked_by: string | null;
+    locked_at: number | null;
+    updated_at: number;
+}
+
+// 定时任务执行记录
+export interface ScheduledJobRun {
+    id: number;
+    job_name: string;
+    trigger: ScheduledJobTrigger;
+    status: 'running' | 'success' | 'failed';
+    started_at: number;
+    finished_at: number | null;
+    duration_ms: number | null;
+    error: string | null;
+    result: string | null;
+}
+
+// ========== 上游额度变动队列类型 ==========
+
+export type QuotaMutationMode = 'strict' | 'clamp';
+export type QuotaMutationStatus = 'pending' | 'applying' | 'applied' | 'rejected' | 'failed' | 'cancelled';
+
+// 上游额度变动记录
+export interface QuotaMutation {
+    id: number;
+    upstream_id: number;
+    kyx_user_id: number;
+    linux_do_id: string | null;
+    delta: number;
+    applied_delta: number | null;
+    mode: QuotaMutationMode;
+    source: string;
+    status: QuotaMutationStatus;
+    attempts: number;
+    error: string | null;
+    quota_before: number | null;
+    quota_after: number | null;
+    created_at: number;
+    updated_at: number;
+    applied_at: number | null;
+}
+
+// ========== 多上游类型 ==========
+
+// 上游 new-api 站点（id = 1 为主站，地址与凭据沿用系统配置）
+export interface Upstream {
+    id: number;
+    name: string;
+    base_url: string;
+    session: string;
+    new_api_user: string;
+    quota_per_unit: number;  // 上游多少 quota 折合 $1（本站统一为 500000）
+    modelscope_group_id: number | null;  // 投喂 Keys 推送分组，为空时沿用系统配置
+    iflow_group_id: number | null;
+    enabled: number;
+    created_at: number;
+    updated_at: number;
+}
+
+// 用户在某个上游的绑定
+export interface UserUpstreamBinding {
+    linux_do_id: string;
+    upstream_id: number;
+    kyx_user_id: number;
+    username: string;
+    is_payout: number;  // 收款上游：额度发放、扣除、签到与钱包划转均使用该上游
+    created_at: number;
+    updated_at: number;
+}
+
+// ========== RTP 控制器类型 ==========
+
+export type RtpControllerMode = 'advanced' | 'supreme';
+export type RtpControllerAction = 'step_up' | 'step_down' | 'hold' | 'skip' | 'killed';
+
+// RTP 控制器配置（每个场次一行）
+export interface RtpControllerConfig {
+    mode: RtpControllerMode;
+    enabled: number;
+    target_rtp: number | null;  // 目标 RTP（比例，如 0.95），为空时高级场沿用 advanced_slot_config.rtp_target
+    window_hours: number;  // 实际 RTP 统计窗口
+    min_spins: number;  // 窗口内至少这么多次旋转才调整
+    deadband: number;  // 回滞区间：实际 RTP 偏离目标超过该值才换档
+    cooldown_minutes: number;  // 两次换档的最短间隔
+    ladder: string;  // JSON：预先审核的权重方案ID，按期望 RTP 从低到高
+    min_rtp: number;  // 硬边界：档位的期望 RTP 必须落在 [min_rtp, max_rtp]
+    max_rtp: number;
+    baseline_weight_config_id: number | null;  // 启用时的权重方案，紧急停止时可恢复
+    updated_at: number;
+}
+
+// RTP 控制器决策记录
+export interface RtpControllerDecision {
+    id: number;
+    mode: RtpControllerMode;
+    action: RtpControllerAction;
+    reason: string;
+    target_rtp: number | null;
+    realized_rtp: number | null;
+    window_spins: number;
+    window_bet: number;
+    window_win: number;
+    previous_weight_config_id: number | null;
+    new_weight_config_id: number | null;
+    expected_rtp: number | null;  // 新档位的期望 RTP（精确枚举）
+    created_at: number;
+}
+
+// ========== 配置版本类型 ==========
+
+export type ConfigEntityType = 'slot' | 'advanced' | 'supreme' | 'kunbei' | 'weight' | 'reward_scheme';
+export type ConfigVersionAction = 'baseline' | 'create' | 'update' | 'delete' | 'rollback';
+
+// 配置版本（只追加，不可修改）
+export interface ConfigVersion {
+    id: number;
+    entity_type: ConfigEntityType;
+    entity_id: number;  // 场次/坤呗配置为 1，权重配置与奖励方案为其 ID
+    version: number;  // 同一配置内从 1 递增
+    action: ConfigVersionAction;
+    before_json: string | null;  // 变更前快照（新建时为空）
+    after_json: string;  // 变更后快照
+    actor: string;
+    ip: string | null;
+    source: string;  // 触发变更的接口或任务
+    rollback_of: number | null;  // 回滚时指向目标版本ID
+    created_at: number;
+}
+
+// ========== 限时活动类型 ==========
+
+export type TimedEventMode = 'all' | 'normal' | 'advanced' | 'supreme';
+export type TimedEventEffect = 'reward_multiplier' | 'drop_rate' | 'free_spins' | 'kunbei_buff';
+export type TimedEventStatus = 'scheduled' | 'active' | 'ended' | 'cancelled';
+
+// 限时活动（时间窗口内临时叠加到场次配置上）
+export interface TimedEvent {
+    id: number;
+    name: string;
+    description: string | null;
+    slot_mode: TimedEventMode;  // all 表示所有支持该效果的场次
+    effect_type: TimedEventEffect;
+    effect_value: number;  // 奖励/掉落/坤呗buff 为倍数，免费次数为每次发放的次数
+    priority: number;  // 同类效果重叠时优先级高者生效
+    starts_at: number;
+    ends_at: number;
+    status: TimedEventStatus;  // 由定时任务按时间推进，生效判断以时间窗口为准
+    created_by: string;
+    created_at: number;
+    updated_at: number;
+}
+
+// ========== 钱包赠送类型 ==========
+
+export type WalletGiftListType = 'all' | 'sent' | 'received';
+
+// 钱包赠送记录（赠送方与接收方各自可查）
+export interface WalletGift {
+    id: number;
+    sender_id: string;
+    sender_name: string;
+    receiver_id: string;
+    receiver_name: string;
+    amount_quota: number;    // 赠出金额（从赠送方钱包扣除）
+    fee_quota: number;       // 手续费（归系统）
+    received_quota: number;  // 实际到账
+    memo: string | null;
+    flagged: number;         // 反滥用检测标记，不影响到账
+    flag_reason: string | null;
+    date: string;
+    created_at: number;
+}
+
+// ========== 待发放奖金类型 ==========
+
+export type PendingRewardStatus = 'pending' | 'processing' | 'success' | 'failed';
+
+// 待发放奖金（上游额度发放失败后排队重试）
+export interface PendingReward {
+    id: number;
+    linux_do_id: string;
+    kyx_user_id: number;
+    username: string;
+    reward_amount: number;
+    reason: string;
+    source: LedgerReason;  // 记账原因代码
+    status: PendingRewardStatus;
+    retry_count: number;
+    error_message: string | null;
+    created_at: number;
+    updated_at: number;
+    processed_at: number | null;
+}
+
+// ========== 速率限制封禁类型 ==========
+
+// 速率限制 / 反滥用封禁记录
+export interface RateLimitBan {
+    id: number;
+    linux_do_id: string;
+    username: string;
+    ban_type: string;
+    trigger_count: number;
+    ban_reason: string;
+    banned_at: number;
+    banned_until: number;
+    is_active: number;
+    unbanned_at: number | null;
+    unbanned_by: string | null;
+    unban_reason: string | null;
+    created_at: number;
+}
+
+// ========== 幂等键类型 ==========
+
+export interface IdempotencyKey {
+    linux_do_id: string;
+    idem_key: string;
+    operation: string;
+    request_hash: string;
+    status: 'processing' | 'completed';
+    response_status: number | null;
+    response_body: string | null;
+    response_content_type: string | null;
+    created_at: number;
+    completed_at: number | null;
+    expires_at: number;
+}
+
+// ========== 可验证公平类型 ==========
+
+// 公平种子（服务端种子在揭示前只公开哈希）
+export interface FairSeed {
+    id: number;
+    linux_do_id: string;
+    server_seed: string;
+    server_seed_hash: string;
+    client_seed: string;
+    nonce: number;
+    status: 'active' | 'revealed';
+    created_at: number;
+    revealed_at: number | null;
+}
+
+// ========== 钱包划转类型 ==========
+
+export type WalletTransferDirection = 'in' | 'out';
+export type WalletTransferStatus = 'pending' | 'upstream_applied' | 'local_applied' | 'done' | 'compensated' | 'failed' | 'needs_review';
+
+export interface WalletTransfer {
+    id: number;
+    linux_do_id: string;
+    kyx_user_id: number;
+    upstream_id: number;
+    direction: WalletTransferDirection;
+    amount_quota: number;
+    status: WalletTransferStatus;
+    upstream_before: number | null;
+    upstream_target: number | null;
+    wallet_after: number | null;
+    record_id: number | null;
+    retry_count: number;
+    error_message: string | null;
+    date: string;
+    created_at: number;
+    updated_at: number;
+    completed_at: number | null;
+}
+
+// ========== 复式记账类型 ==========
+
+export type LedgerReason =
+    | 'opening_balance'        // 期初余额补录
+    | 'wallet_initial_grant'   // 钱包初始赠送
+    | 'wallet_transfer_in'     // 上游 → 本地
+    | 'wallet_transfer_out'    // 本地 → 上游
+    | 'wallet_transfer_out_refund' // 提现上游未生效，退回本地
+    | 'wallet_gift'            // 用户之间赠送（钱包 → 钱包）
+    | 'wallet_gift_fee'        // 赠送手续费
+    | 'slot_bet'               // 老虎机投注
+    | 'slot_win'               // 老虎机中奖
+    | 'slot_punishment'        // 律师函惩罚
+    | 'slot_pending_reward'    // 待发放奖金（上游）
+    | 'slot_buy_spins'         // 购买抽奖次数（上游）
+    | 'slot_buy_spins_refund'  // 购买失败回滚
+    | 'supreme_bet'
+    | 'supreme_win'
+    | 'supreme_punishment'
+    | 'kunbei_borrow'
+    | 'kunbei_repay'
+    | 'kunbei_repay_refund'    // 还款差额退回
+    | 'kunbei_overdue_deduct'
+    | 'achievement_reward'
+    | 'daily_claim'
+    | 'bind_bonus'             // 首次绑定奖励
+    | 'donate_reward';
+
+// 记账分录（一笔交易一借一贷两条）
+export interface LedgerEntry {
+    id: number;
+    txn_id: string;
+    account: string;
+    linux_do_id: string | null;
+    debit: number;
+    credit: number;
+    reason: LedgerReason;
+    ref_id: string | null;
+    memo: string | null;
+    created_at: number;
+}
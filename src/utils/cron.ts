@@ -0,0 +1,122 @@
+/**
+ * Cron 表达式解析（按北京时间 Asia/Shanghai 计算，UTC+8，无夏令时）
+ * 格式：分 时 日 月 周，支持 *、数字、a-b、a,b、星号/n、a-b/n；周取值 0-6（0 为周日，7 亦视为周日）
+ * 日与周同时限定时任一匹配即可（与标准 cron 一致）
+ */
+
+const BEIJING_OFFSET_MS = 8 * 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+// 最多向后搜索约 5 年，防止无法满足的表达式（如 2 月 31 日）死循环
+const MAX_SEARCH_MINUTES = 5 * 366 * 24 * 60;
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    days: Set<number>;
+    months: Set<number>;
+    weekdays: Set<number>;
+    dayRestricted: boolean;
+    weekdayRestricted: boolean;
+}
+
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+    const values = new Set<number>();
+
+    for (const part of field.split(',')) {
+        const [rangePart, stepPart] = part.split('/');
+        const step = stepPart === undefined ? 1 : Number(stepPart);
+        if (!Number.isInteger(step) || step <= 0) {
+            throw new Error(`Cron ${name} 字段步长无效: ${part}`);
+        }
+
+        let start: number;
+        let end: number;
+        if (rangePart === '*') {
+            start = min;
+            end = max;
+        } else if (rangePart!.includes('-')) {
+            const [from, to] = rangePart!.split('-');
+            start = Number(from);
+            end = Number(to);
+        } else {
+            start = Number(rangePart);
+            end = stepPart === undefined ? start : max;
+        }
+
+        if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+            throw new Error(`Cron ${name} 字段超出范围 (${min}-${max}): ${part}`);
+        }
+
+        for (let value = start; value <= end; value += step) {
+            values.add(value);
+        }
+    }
+
+    return values;
+}
+
+/**
+ * 解析 cron 表达式，格式错误时抛出异常
+ */
+export function parseCron(expression: string): CronSchedule {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        throw new Error(`Cron 表达式需要 5 个字段（分 时 日 月 周）: ${expression}`);
+    }
+
+    const [minute, hour, day, month, weekday] = fields as [string, string, string, string, string];
+    const weekdays = parseField(weekday, 0, 7, '周');
+    if (weekdays.has(7)) {
+        weekdays.delete(7);
+        weekdays.add(0);
+    }
+
+    return {
+        expression,
+        minutes: parseField(minute, 0, 59, '分'),
+        hours: parseField(hour, 0, 23, '时'),
+        days: parseField(day, 1, 31, '日'),
+        months: parseField(month, 1, 12, '月'),
+        weekdays,
+        dayRestricted: day !== '*',
+        weekdayRestricted: weekday !== '*',
+    };
+}
+
+function matchesDay(schedule: CronSchedule, local: Date): boolean {
+    const dayMatch = schedule.days.has(local.getUTCDate());
+    const weekdayMatch = schedule.weekdays.has(local.getUTCDay());
+    if (schedule.dayRestricted && schedule.weekdayRestricted) {
+        return dayMatch || weekdayMatch;
+    }
+    return dayMatch && weekdayMatch;
+}
+
+/**
+ * 计算 after 之后（不含）的下一次执行时间（毫秒时间戳）
+ */
+export function getNextRunTime(schedule: CronSchedule | string, after: number = Date.now()): number {
+    const cron = typeof schedule === 'string' ? parseCron(schedule) : schedule;
+
+    // 转为北京时间的"本地"时刻后用 UTC 方法读取各字段
+    const local = new Date(Math.floor((after + BEIJING_OFFSET_MS) / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+
+    for (let i = 0; i < MAX_SEARCH_MINUTES; i++) {
+        if (!cron.months.has(local.getUTCMonth() + 1) || !matchesDay(cron, local)) {
+            local.setUTCHours(24, 0, 0, 0);
+            continue;
+        }
+        if (!cron.hours.has(local.getUTCHours())) {
+            local.setUTCHours(local.getUTCHours() + 1, 0, 0, 0);
+            continue;
+        }
+        if (!cron.minutes.has(local.getUTCMinutes())) {
+            local.setUTCMinutes(local.getUTCMinutes() + 1, 0, 0);
+            continue;
+        }
+        return local.getTime() - BEIJING_OFFSET_MS;
+    }
+
+    throw new Error(`Cron 表达式在可预期时间内不会触发: ${cron.expression}`);
+}